@@ -255,7 +255,10 @@ router.post('/', authenticate, async (req, res) => {
  *   description: string (optional),
  *   category: string (optional),
  *   geometry: GeoJSON Geometry object (optional),
- *   style_config: object (optional)
+ *   style_config: object (optional),
+ *   expected_updated_at: ISO timestamp (optional) - updated_at of the copy
+ *     the edit was made on; answers 409 if the annotation changed since
+ *     (used for edits queued offline)
  * }
  *
  * Returns: Updated annotation
@@ -271,11 +274,12 @@ router.put('/:id', authenticate, async (req, res) => {
       style_config,
       intervention_type,
       intervention_info,
+      expected_updated_at,
     } = req.body;
 
     // Check ownership or admin role
     const existingResult = await pool.query(
-      'SELECT created_by FROM annotations.features WHERE id = $1',
+      'SELECT created_by, updated_at FROM annotations.features WHERE id = $1',
       [id]
     );
 
@@ -296,6 +300,14 @@ router.put('/:id', authenticate, async (req, res) => {
       });
     }
 
+    // Refuse an offline edit if someone saved a change after it was made
+    if (expected_updated_at && new Date(expected_updated_at).getTime() !== new Date(existing.updated_at).getTime()) {
+      return res.status(409).json({
+        success: false,
+        error: `Changed on the server at ${new Date(existing.updated_at).toISOString()} after your offline edit; your edit was not applied`,
+      });
+    }
+
     // Build dynamic update query
     const updates = [];
     const values = [];
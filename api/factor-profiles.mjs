@@ -0,0 +1,284 @@
+/**
+ * Factor Profiles API Router
+ *
+ * CRUD endpoints for named Loss/Damage factor profiles used by the EAL view.
+ * Profiles are private to the user who created them; the official profile
+ * lives in the frontend and is never stored.
+ */
+
+import express from 'express';
+import pool from './db.mjs';
+import { authenticate } from './auth.mjs';
+
+const router = express.Router();
+
+const SECTOR_KEYS = [
+  'agriculture', 'commerce', 'water', 'energy', 'transport',
+  'housing', 'education', 'health', 'wash',
+];
+
+const ASSET_KEYS = [
+  'crop', 'buildLow56', 'buildLow44', 'buildHigh',
+  'telecom', 'electric', 'railways',
+  'hospitals', 'bhu', 'schools', 'roads',
+  'embankments', 'mainCanals', 'branchCanals', 'drains', 'livestock',
+];
+
+const SELECT_COLUMNS = `
+  id,
+  name,
+  sector_factors AS "sectorFactors",
+  asset_overrides AS "assetOverrides",
+  commerce_uplift::float AS "commerceUplift",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt"
+`;
+
+const isFactor = (v) => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+
+/**
+ * Validate a profile body. Returns an error message or null.
+ */
+function validateProfile({ name, sectorFactors, assetOverrides, commerceUplift }) {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Name is required';
+  }
+  if (name.trim().length > 100) {
+    return 'Name must be 100 characters or fewer';
+  }
+  if (!sectorFactors || typeof sectorFactors !== 'object') {
+    return 'sectorFactors is required';
+  }
+  for (const key of SECTOR_KEYS) {
+    if (!isFactor(sectorFactors[key])) {
+      return `sectorFactors.${key} must be a non-negative number`;
+    }
+  }
+  if (assetOverrides !== undefined) {
+    if (!assetOverrides || typeof assetOverrides !== 'object') {
+      return 'assetOverrides must be an object';
+    }
+    for (const [key, value] of Object.entries(assetOverrides)) {
+      if (!ASSET_KEYS.includes(key)) return `Unknown asset in assetOverrides: ${key}`;
+      if (!isFactor(value)) return `assetOverrides.${key} must be a non-negative number`;
+    }
+  }
+  if (!isFactor(commerceUplift)) {
+    return 'commerceUplift must be a non-negative number';
+  }
+  return null;
+}
+
+/**
+ * Middleware: reject a :id that is not a positive integer before it reaches
+ * the integer id column
+ */
+function requireProfileId(req, res, next) {
+  const id = Number(req.params.id);
+  if (!/^\d+$/.test(req.params.id) || !Number.isSafeInteger(id) || id <= 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Profile id must be a positive integer',
+    });
+  }
+  next();
+}
+
+/** Keep only known sector keys so stored JSON stays clean */
+function pickSectorFactors(sectorFactors) {
+  return Object.fromEntries(SECTOR_KEYS.map((k) => [k, sectorFactors[k]]));
+}
+
+/**
+ * GET /api/factor-profiles
+ *
+ * List the authenticated user's factor profiles
+ *
+ * Returns: Array of profiles ordered by name
+ */
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${SELECT_COLUMNS} FROM risk.factor_profiles WHERE user_id = $1 ORDER BY name`,
+      [req.user.id]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows,
+      count: result.rows.length,
+    });
+  } catch (error) {
+    console.error('Error fetching factor profiles:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch factor profiles',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/factor-profiles
+ *
+ * Create a factor profile
+ *
+ * Body: {
+ *   name: string (required, unique per user),
+ *   sectorFactors: Record<SectorKey, number> (required),
+ *   assetOverrides: Record<AssetKey, number> (optional),
+ *   commerceUplift: number (required)
+ * }
+ *
+ * Returns: Created profile with generated ID
+ */
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const validationError = validateProfile(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+
+    const { name, sectorFactors, assetOverrides = {}, commerceUplift } = req.body;
+
+    const result = await pool.query(
+      `INSERT INTO risk.factor_profiles (user_id, name, sector_factors, asset_overrides, commerce_uplift)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        req.user.id,
+        name.trim(),
+        JSON.stringify(pickSectorFactors(sectorFactors)),
+        JSON.stringify(assetOverrides),
+        commerceUplift,
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0],
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        error: 'You already have a profile with this name',
+      });
+    }
+    console.error('Error creating factor profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create factor profile',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /api/factor-profiles/:id
+ *
+ * Replace a factor profile owned by the authenticated user
+ *
+ * Body: same as POST
+ *
+ * Returns: Updated profile
+ */
+router.put('/:id', authenticate, requireProfileId, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const validationError = validateProfile(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+
+    const { name, sectorFactors, assetOverrides = {}, commerceUplift } = req.body;
+
+    const result = await pool.query(
+      `UPDATE risk.factor_profiles
+       SET name = $1, sector_factors = $2, asset_overrides = $3, commerce_uplift = $4,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND user_id = $6
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        name.trim(),
+        JSON.stringify(pickSectorFactors(sectorFactors)),
+        JSON.stringify(assetOverrides),
+        commerceUplift,
+        id,
+        req.user.id,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Factor profile not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0],
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        error: 'You already have a profile with this name',
+      });
+    }
+    console.error('Error updating factor profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update factor profile',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/factor-profiles/:id
+ *
+ * Delete a factor profile owned by the authenticated user
+ *
+ * Returns: Success confirmation
+ */
+router.delete('/:id', authenticate, requireProfileId, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(
+      'DELETE FROM risk.factor_profiles WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Factor profile not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Factor profile deleted successfully',
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Error deleting factor profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete factor profile',
+      details: error.message,
+    });
+  }
+});
+
+export default router;
@@ -18,6 +18,9 @@ import cors from 'cors';
 import annotationsRouter from './annotations.mjs';
 import authRouter from './auth.mjs';
 import populationRiskRouter from './population-risk.mjs';
+import factorProfilesRouter from './factor-profiles.mjs';
+import workspacesRouter from './workspaces.mjs';
+import stylesRouter from './styles.mjs';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -728,6 +731,15 @@ app.use('/api/auth', authRouter);
 // Mount population risk router
 app.use('/api/population-risk', populationRiskRouter);
 
+// Mount factor profiles router
+app.use('/api/factor-profiles', factorProfilesRouter);
+
+// Mount workspaces router
+app.use('/api/workspaces', workspacesRouter);
+
+// Mount styles router
+app.use('/api/styles', stylesRouter);
+
 /**
  * Start server
  */
@@ -0,0 +1,27 @@
+-- Factor Profiles Schema Migration
+-- Stores named what-if Loss/Damage factor profiles per user for the EAL view.
+-- The official profile is built into the frontend and is never stored here.
+
+CREATE SCHEMA IF NOT EXISTS risk;
+
+CREATE TABLE IF NOT EXISTS risk.factor_profiles (
+  id               SERIAL PRIMARY KEY,
+  user_id          INTEGER NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name             VARCHAR(100) NOT NULL,
+  sector_factors   JSONB NOT NULL,
+  asset_overrides  JSONB NOT NULL DEFAULT '{}',
+  commerce_uplift  NUMERIC NOT NULL CHECK (commerce_uplift >= 0),
+  created_at       TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  updated_at       TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, name)
+);
+
+COMMENT ON SCHEMA risk IS 'User-defined risk analysis settings';
+COMMENT ON TABLE risk.factor_profiles IS 'Named Loss/Damage factor profiles (what-if scenarios) owned by a user';
+COMMENT ON COLUMN risk.factor_profiles.user_id IS 'Owner (auth.users.id)';
+COMMENT ON COLUMN risk.factor_profiles.name IS 'Profile name, unique per user';
+COMMENT ON COLUMN risk.factor_profiles.sector_factors IS 'Loss/Damage factor per sector key, e.g. {"agriculture": 2.51, ...}';
+COMMENT ON COLUMN risk.factor_profiles.asset_overrides IS 'Per-asset factors replacing the sector factor, e.g. {"buildHigh": 0.11}';
+COMMENT ON COLUMN risk.factor_profiles.commerce_uplift IS 'Commerce & Industries uplift applied to total EAL (0.34 = 34%)';
+
+CREATE INDEX IF NOT EXISTS idx_factor_profiles_user ON risk.factor_profiles(user_id);
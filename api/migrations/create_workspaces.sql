@@ -0,0 +1,33 @@
+-- Workspaces Schema Migration
+-- Stores named app states (map view, layers, opacities, dashboard selections,
+-- hotspot weights) per user, optionally shared read-only with other users.
+
+CREATE SCHEMA IF NOT EXISTS workspaces;
+
+CREATE TABLE IF NOT EXISTS workspaces.workspaces (
+  id          SERIAL PRIMARY KEY,
+  user_id     INTEGER NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name        VARCHAR(100) NOT NULL,
+  state       JSONB NOT NULL,
+  created_at  TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  updated_at  TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS workspaces.shares (
+  workspace_id  INTEGER NOT NULL REFERENCES workspaces.workspaces(id) ON DELETE CASCADE,
+  user_id       INTEGER NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at    TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+COMMENT ON SCHEMA workspaces IS 'Saved user workspaces';
+COMMENT ON TABLE workspaces.workspaces IS 'Named app states owned by a user';
+COMMENT ON COLUMN workspaces.workspaces.user_id IS 'Owner (auth.users.id)';
+COMMENT ON COLUMN workspaces.workspaces.name IS 'Workspace name, unique per user';
+COMMENT ON COLUMN workspaces.workspaces.state IS 'App state in the permalink shape, e.g. {"view": {...}, "visibleLayerIds": [...], "risk": {...}}';
+COMMENT ON TABLE workspaces.shares IS 'Users a workspace is shared with (read-only)';
+COMMENT ON COLUMN workspaces.shares.user_id IS 'Recipient (auth.users.id)';
+
+CREATE INDEX IF NOT EXISTS idx_workspaces_user ON workspaces.workspaces(user_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_shares_user ON workspaces.shares(user_id);
@@ -0,0 +1,121 @@
+/**
+ * Styles API Router
+ *
+ * Publishes raster styles edited in the browser to GeoServer as the
+ * layer's default style. Admin only; the GeoServer REST credentials come
+ * from the environment and never reach the browser.
+ */
+
+import express from 'express';
+import { authenticate, requireAdmin } from './auth.mjs';
+
+const router = express.Router();
+
+const GEOSERVER_URL = process.env.GEOSERVER_URL || 'http://10.0.0.205:8080/geoserver';
+const { GEOSERVER_USER, GEOSERVER_PASSWORD } = process.env;
+// No default account: publishing is refused until both are set
+const GEOSERVER_AUTH = GEOSERVER_USER && GEOSERVER_PASSWORD
+  ? `Basic ${Buffer.from(`${GEOSERVER_USER}:${GEOSERVER_PASSWORD}`).toString('base64')}`
+  : null;
+
+// Workspaces whose layers may be restyled (the hazard rasters)
+const STYLE_WORKSPACES = ['results'];
+
+const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const MAX_SLD_LENGTH = 100000;
+
+/**
+ * Call the GeoServer REST API, throwing with GeoServer's message on failure
+ */
+async function geoserverRest(path, options = {}) {
+  const response = await fetch(`${GEOSERVER_URL}/rest${path}`, {
+    ...options,
+    headers: { Authorization: GEOSERVER_AUTH, ...options.headers },
+  });
+  if (!response.ok) {
+    const message = (await response.text()).slice(0, 200);
+    throw new Error(`GeoServer ${options.method || 'GET'} ${path} failed: HTTP ${response.status} ${message}`);
+  }
+  return response;
+}
+
+/**
+ * Validate a publish request. Returns an error message or null.
+ */
+function validateStyleRequest(workspace, layer, sld) {
+  if (!STYLE_WORKSPACES.includes(workspace)) {
+    return `Styles can only be published for layers in: ${STYLE_WORKSPACES.join(', ')}`;
+  }
+  if (!NAME_PATTERN.test(layer)) {
+    return 'Invalid layer name';
+  }
+  if (typeof sld !== 'string' || !sld.includes('<StyledLayerDescriptor')) {
+    return 'sld must be an SLD document';
+  }
+  if (sld.length > MAX_SLD_LENGTH) {
+    return `sld must be ${MAX_SLD_LENGTH} characters or fewer`;
+  }
+  return null;
+}
+
+/**
+ * PUT /api/styles/:workspace/:layer
+ *
+ * Create or replace the style "{layer}_custom" in the workspace and make it
+ * the layer's default style (admin only)
+ *
+ * Body: { sld: string (SLD 1.0 document) }
+ *
+ * Returns: { style: "workspace:style" }; 503 when the GeoServer
+ * credentials are not configured
+ */
+router.put('/:workspace/:layer', authenticate, requireAdmin, async (req, res) => {
+  if (!GEOSERVER_AUTH) {
+    return res.status(503).json({
+      success: false,
+      error: 'Style publishing is not configured: set GEOSERVER_USER and GEOSERVER_PASSWORD for the API',
+    });
+  }
+
+  const { workspace, layer } = req.params;
+  const { sld } = req.body ?? {};
+
+  const validationError = validateStyleRequest(workspace, layer, sld);
+  if (validationError) {
+    return res.status(400).json({ success: false, error: validationError });
+  }
+
+  const styleName = `${layer}_custom`;
+  const sldHeaders = { 'Content-Type': 'application/vnd.ogc.sld+xml' };
+
+  try {
+    const existing = await fetch(`${GEOSERVER_URL}/rest/workspaces/${workspace}/styles/${styleName}.json`, {
+      headers: { Authorization: GEOSERVER_AUTH },
+    });
+    if (existing.ok) {
+      await geoserverRest(`/workspaces/${workspace}/styles/${styleName}`, { method: 'PUT', headers: sldHeaders, body: sld });
+    } else {
+      await geoserverRest(`/workspaces/${workspace}/styles?name=${styleName}`, { method: 'POST', headers: sldHeaders, body: sld });
+    }
+
+    await geoserverRest(`/layers/${workspace}:${layer}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ layer: { defaultStyle: { name: styleName, workspace } } }),
+    });
+
+    res.json({
+      success: true,
+      data: { style: `${workspace}:${styleName}` },
+    });
+  } catch (error) {
+    console.error('Error publishing style:', error);
+    res.status(502).json({
+      success: false,
+      error: 'Failed to publish style to GeoServer',
+      details: error.message,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,460 @@
+/**
+ * Workspaces API Router
+ *
+ * CRUD endpoints for named workspaces: saved app states (map view, layers,
+ * opacities, dashboard selections, hotspot weights). A workspace belongs to
+ * the user who saved it; the owner can share it read-only with other users,
+ * who can open or duplicate it but not change it.
+ */
+
+import express from 'express';
+import pool from './db.mjs';
+import { authenticate } from './auth.mjs';
+
+const router = express.Router();
+
+/** Upper bound on the stored state JSON */
+const MAX_STATE_BYTES = 64 * 1024;
+
+/**
+ * Workspaces visible to user $1: owned or shared with them. Share lists are
+ * only returned to the owner.
+ */
+const SELECT_VISIBLE = `
+  SELECT
+    w.id,
+    w.name,
+    w.state,
+    u.username AS "ownerUsername",
+    u.display_name AS "ownerDisplayName",
+    (w.user_id <> $1) AS "readOnly",
+    CASE WHEN w.user_id = $1 THEN COALESCE(
+      (SELECT array_agg(su.username ORDER BY su.username)
+       FROM workspaces.shares s
+       JOIN auth.users su ON su.id = s.user_id
+       WHERE s.workspace_id = w.id),
+      '{}'
+    ) ELSE '{}' END AS "sharedWith",
+    w.created_at AS "createdAt",
+    w.updated_at AS "updatedAt"
+  FROM workspaces.workspaces w
+  JOIN auth.users u ON u.id = w.user_id
+  WHERE (w.user_id = $1 OR EXISTS (
+    SELECT 1 FROM workspaces.shares s WHERE s.workspace_id = w.id AND s.user_id = $1
+  ))
+`;
+
+/**
+ * Fetch one workspace as the given user sees it, or null
+ */
+async function findWorkspace(id, userId) {
+  const result = await pool.query(`${SELECT_VISIBLE} AND w.id = $2`, [userId, id]);
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Validate a workspace body. With `partial`, fields may be omitted but at
+ * least one must be present. Returns an error message or null.
+ */
+function validateWorkspace({ name, state }, partial = false) {
+  if (partial && name === undefined && state === undefined) {
+    return 'Nothing to update';
+  }
+  if (!partial || name !== undefined) {
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return 'Name is required';
+    }
+    if (name.trim().length > 100) {
+      return 'Name must be 100 characters or fewer';
+    }
+  }
+  if (!partial || state !== undefined) {
+    if (!state || typeof state !== 'object' || Array.isArray(state)) {
+      return 'state must be an object';
+    }
+    if (JSON.stringify(state).length > MAX_STATE_BYTES) {
+      return 'state is too large';
+    }
+  }
+  return null;
+}
+
+/**
+ * Respond to a write on a workspace the user does not own: 403 when it is
+ * shared with them, 404 otherwise
+ */
+async function rejectNotOwned(res, id, userId) {
+  const visible = await findWorkspace(id, userId);
+  if (visible) {
+    return res.status(403).json({
+      success: false,
+      error: 'Shared workspaces are read-only',
+    });
+  }
+  return res.status(404).json({
+    success: false,
+    error: 'Workspace not found',
+  });
+}
+
+/**
+ * Middleware: reject a :id that is not a positive integer before it reaches
+ * the integer id column
+ */
+function requireWorkspaceId(req, res, next) {
+  const id = Number(req.params.id);
+  if (!/^\d+$/.test(req.params.id) || !Number.isSafeInteger(id) || id <= 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Workspace id must be a positive integer',
+    });
+  }
+  next();
+}
+
+function duplicateNameResponse(res) {
+  return res.status(409).json({
+    success: false,
+    error: 'You already have a workspace with this name',
+  });
+}
+
+/**
+ * GET /api/workspaces
+ *
+ * List the authenticated user's workspaces and those shared with them
+ *
+ * Returns: Array of workspaces, own first, each ordered by name
+ */
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `${SELECT_VISIBLE} ORDER BY (w.user_id <> $1), w.name`,
+      [req.user.id]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows,
+      count: result.rows.length,
+    });
+  } catch (error) {
+    console.error('Error fetching workspaces:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch workspaces',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/workspaces/:id
+ *
+ * Get a workspace owned by or shared with the authenticated user
+ *
+ * Returns: Workspace
+ */
+router.get('/:id', authenticate, requireWorkspaceId, async (req, res) => {
+  try {
+    const workspace = await findWorkspace(req.params.id, req.user.id);
+
+    if (!workspace) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workspace not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: workspace,
+    });
+  } catch (error) {
+    console.error('Error fetching workspace:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch workspace',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/workspaces
+ *
+ * Save a new workspace
+ *
+ * Body: {
+ *   name: string (required, unique per user),
+ *   state: object (required, app state in the permalink shape)
+ * }
+ *
+ * Returns: Created workspace with generated ID
+ */
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const validationError = validateWorkspace(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+
+    const { name, state } = req.body;
+
+    const result = await pool.query(
+      `INSERT INTO workspaces.workspaces (user_id, name, state)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [req.user.id, name.trim(), JSON.stringify(state)]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: await findWorkspace(result.rows[0].id, req.user.id),
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return duplicateNameResponse(res);
+    }
+    console.error('Error creating workspace:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create workspace',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /api/workspaces/:id
+ *
+ * Rename a workspace and/or overwrite its state (owner only)
+ *
+ * Body: {
+ *   name: string (optional),
+ *   state: object (optional)
+ * }
+ *
+ * Returns: Updated workspace
+ */
+router.put('/:id', authenticate, requireWorkspaceId, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const validationError = validateWorkspace(req.body, true);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+
+    const { name, state } = req.body;
+
+    const result = await pool.query(
+      `UPDATE workspaces.workspaces
+       SET name = COALESCE($1, name), state = COALESCE($2, state), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND user_id = $4
+       RETURNING id`,
+      [
+        name !== undefined ? name.trim() : null,
+        state !== undefined ? JSON.stringify(state) : null,
+        id,
+        req.user.id,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return rejectNotOwned(res, id, req.user.id);
+    }
+
+    res.json({
+      success: true,
+      data: await findWorkspace(id, req.user.id),
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return duplicateNameResponse(res);
+    }
+    console.error('Error updating workspace:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update workspace',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/workspaces/:id/duplicate
+ *
+ * Copy a workspace (own or shared) into the authenticated user's workspaces
+ *
+ * Body: {
+ *   name: string (optional, defaults to "<name> (copy)")
+ * }
+ *
+ * Returns: Created workspace
+ */
+router.post('/:id/duplicate', authenticate, requireWorkspaceId, async (req, res) => {
+  try {
+    const source = await findWorkspace(req.params.id, req.user.id);
+
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workspace not found',
+      });
+    }
+
+    const name = req.body?.name ?? `${source.name} (copy)`.slice(0, 100);
+    const validationError = validateWorkspace({ name, state: source.state });
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO workspaces.workspaces (user_id, name, state)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [req.user.id, name.trim(), JSON.stringify(source.state)]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: await findWorkspace(result.rows[0].id, req.user.id),
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return duplicateNameResponse(res);
+    }
+    console.error('Error duplicating workspace:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to duplicate workspace',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /api/workspaces/:id/shares
+ *
+ * Replace the list of users a workspace is shared with (owner only)
+ *
+ * Body: {
+ *   usernames: string[] (required; empty to stop sharing)
+ * }
+ *
+ * Returns: Updated workspace
+ */
+router.put('/:id/shares', authenticate, requireWorkspaceId, async (req, res) => {
+  const { id } = req.params;
+  let client;
+
+  try {
+    const { usernames } = req.body ?? {};
+    if (!Array.isArray(usernames) || !usernames.every((u) => typeof u === 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'usernames must be an array of strings',
+      });
+    }
+
+    const wanted = [...new Set(usernames.map((u) => u.trim()).filter(Boolean))];
+    client = await pool.connect();
+
+    const owned = await client.query(
+      'SELECT id FROM workspaces.workspaces WHERE id = $1 AND user_id = $2',
+      [id, req.user.id]
+    );
+    if (owned.rows.length === 0) {
+      return rejectNotOwned(res, id, req.user.id);
+    }
+
+    const users = await client.query(
+      'SELECT id, username FROM auth.users WHERE username = ANY($1) AND active = true',
+      [wanted]
+    );
+    const found = new Set(users.rows.map((u) => u.username));
+    const unknown = wanted.filter((u) => !found.has(u));
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown user${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`,
+      });
+    }
+
+    // Sharing with yourself is meaningless; drop it silently
+    const recipientIds = users.rows.map((u) => u.id).filter((userId) => userId !== req.user.id);
+
+    await client.query('BEGIN');
+    await client.query('DELETE FROM workspaces.shares WHERE workspace_id = $1', [id]);
+    if (recipientIds.length > 0) {
+      await client.query(
+        `INSERT INTO workspaces.shares (workspace_id, user_id)
+         SELECT $1, unnest($2::int[])`,
+        [id, recipientIds]
+      );
+    }
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      data: await findWorkspace(id, req.user.id),
+    });
+  } catch (error) {
+    await client?.query('ROLLBACK').catch(() => {});
+    console.error('Error sharing workspace:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to share workspace',
+      details: error.message,
+    });
+  } finally {
+    client?.release();
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:id
+ *
+ * Delete a workspace owned by the authenticated user
+ *
+ * Returns: Success confirmation
+ */
+router.delete('/:id', authenticate, requireWorkspaceId, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(
+      'DELETE FROM workspaces.workspaces WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return rejectNotOwned(res, id, req.user.id);
+    }
+
+    res.json({
+      success: true,
+      message: 'Workspace deleted successfully',
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Error deleting workspace:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete workspace',
+      details: error.message,
+    });
+  }
+});
+
+export default router;
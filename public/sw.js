@@ -0,0 +1,84 @@
+/**
+ * Offline Field Mode Service Worker
+ *
+ * - Pages: network first, falling back to the cached app shell
+ * - Built assets: cache first (file names are content-hashed)
+ * - Data files and the interventions list: network first, keeping the
+ *   latest copy for when the connection drops
+ * - WMS tiles: served from the tile cache the app fills for a chosen
+ *   area; other tiles go to the network and are not stored
+ *
+ * Cache names match OFFLINE_CACHES in src/types/offline.ts.
+ */
+
+const SHELL_CACHE = 'floodrisk-shell-v1';
+const DATA_CACHE = 'floodrisk-data-v1';
+const TILE_CACHE = 'floodrisk-tiles-v1';
+const CURRENT_CACHES = [SHELL_CACHE, DATA_CACHE, TILE_CACHE];
+
+const SHELL_URLS = ['./', './index.html', './logo.png'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('floodrisk-') && !CURRENT_CACHES.includes(name))
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName, store) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (store && response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  // Base maps and other servers are not cached
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, './index.html'));
+  } else if (url.pathname.includes('/geoserver/') && /getmap/i.test(url.searchParams.get('REQUEST') || '')) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, false));
+  } else if (url.pathname.startsWith('/data/') || url.pathname === '/api/annotations') {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  } else if (url.pathname.includes('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE, true));
+  }
+});
@@ -0,0 +1,155 @@
+/**
+ * Export a static gazetteer of place names for the offline search bar.
+ *
+ * Reads settlements, hospitals, schools and BHUs from the
+ * "Exposure_InputData" PostGIS schema and districts from
+ * public/data/districts.geojson, and writes one point (EPSG:32642) per named
+ * feature to public/data/gazetteer.json. Districts also carry their extent.
+ * If any source table can't be read or has no named features, the script
+ * exits with an error and leaves the existing gazetteer untouched, rather
+ * than writing a districts-only file.
+ *
+ * Usage: node scripts/build-gazetteer.js
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import pg from 'pg';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, '..');
+const DISTRICTS_GEOJSON = path.join(ROOT, 'public', 'data', 'districts.geojson');
+const OUTPUT = path.join(ROOT, 'public', 'data', 'gazetteer.json');
+
+const SCHEMA = 'Exposure_InputData';
+
+// Source tables and the gazetteer type of their features
+const SOURCES = [
+  { table: 'Settlements', type: 'settlement' },
+  { table: 'Hospitals', type: 'hospital' },
+  { table: 'Schools', type: 'school' },
+  { table: 'BHU', type: 'bhu' },
+];
+
+// Attribute names tried (case-insensitively, in order) for a feature's name
+const NAME_FIELDS = ['name', 'name_en', 'facility_name', 'facility', 'school_name', 'schoolname', 'hospital', 'village', 'village_name', 'settlement', 'mauza', 'deh', 'locality', 'place'];
+
+const pool = new pg.Pool({
+  host: process.env.DB_HOST || '10.0.0.205',
+  port: process.env.DB_PORT || 5432,
+  database: process.env.DB_NAME || 'postgres',
+  user: process.env.DB_USER || 'postgres',
+  password: process.env.DB_PASSWORD || 'maltanadirSRV0',
+  connectionTimeoutMillis: 5000,
+});
+
+const districts = JSON.parse(fs.readFileSync(DISTRICTS_GEOJSON, 'utf8')).features;
+const entries = [];
+
+for (const feature of districts) {
+  const name = feature.properties.district;
+  const rings = polygonRings(feature.geometry);
+  const extent = ringsExtent(rings);
+  entries.push({
+    name,
+    type: 'district',
+    district: name,
+    x: round((extent[0] + extent[2]) / 2),
+    y: round((extent[1] + extent[3]) / 2),
+    extent: extent.map(round),
+  });
+}
+console.log(`Districts: ${districts.length}`);
+
+const failures = [];
+for (const source of SOURCES) {
+  try {
+    const { rows } = await pool.query(`
+      SELECT to_jsonb(t) - 'geom' AS properties,
+             ST_X(ST_PointOnSurface(ST_Transform(t.geom, 32642))) AS x,
+             ST_Y(ST_PointOnSurface(ST_Transform(t.geom, 32642))) AS y
+      FROM "${SCHEMA}"."${source.table}" t
+      WHERE t.geom IS NOT NULL
+    `);
+    let named = 0;
+    for (const row of rows) {
+      const name = featureName(row.properties);
+      if (!name) continue;
+      entries.push({
+        name,
+        type: source.type,
+        district: districtAt(row.x, row.y),
+        x: round(row.x),
+        y: round(row.y),
+      });
+      named++;
+    }
+    console.log(`${source.table}: ${named}/${rows.length} named features`);
+    if (named === 0) {
+      failures.push(`${SCHEMA}.${source.table}: no named features (name columns tried: ${NAME_FIELDS.join(', ')})`);
+    }
+  } catch (err) {
+    failures.push(`${SCHEMA}.${source.table}: ${err.message}`);
+  }
+}
+
+await pool.end().catch(() => {});
+
+if (failures.length > 0) {
+  console.error(`\nError: gazetteer not written, ${OUTPUT} is unchanged:`);
+  for (const failure of failures) console.error(`  ${failure}`);
+  console.error('Check the database connection (DB_HOST, DB_PORT, DB_NAME, DB_USER, DB_PASSWORD) and run again.');
+  process.exit(1);
+}
+
+fs.writeFileSync(OUTPUT, JSON.stringify({ generated: new Date().toISOString(), entries }));
+console.log(`\nGenerated ${OUTPUT} with ${entries.length} places`);
+
+function featureName(properties) {
+  const keys = Object.keys(properties);
+  for (const field of NAME_FIELDS) {
+    const key = keys.find(k => k.toLowerCase() === field);
+    const value = key && properties[key];
+    if (typeof value === 'string' && value.trim()) return value.trim().replace(/\s+/g, ' ');
+  }
+  return null;
+}
+
+function polygonRings(geometry) {
+  if (geometry.type === 'Polygon') return geometry.coordinates;
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates.flat();
+  return [];
+}
+
+function ringsExtent(rings) {
+  const extent = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const ring of rings) {
+    for (const [x, y] of ring) {
+      extent[0] = Math.min(extent[0], x);
+      extent[1] = Math.min(extent[1], y);
+      extent[2] = Math.max(extent[2], x);
+      extent[3] = Math.max(extent[3], y);
+    }
+  }
+  return extent;
+}
+
+// Even-odd point-in-polygon over all rings, so holes are excluded
+function districtAt(x, y) {
+  for (const feature of districts) {
+    let inside = false;
+    for (const ring of polygonRings(feature.geometry)) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+      }
+    }
+    if (inside) return feature.properties.district;
+  }
+  return null;
+}
+
+function round(value) {
+  return Math.round(value);
+}
@@ -2,6 +2,10 @@
  * Parse all 42 risk xlsx files into a compact static JSON file.
  * Also converts Districts.shp to GeoJSON for the choropleth map.
  *
+ * Each entry in DATASETS (baseline, ring bunds, ...) whose xlsx files are
+ * present becomes its own risk.json-shaped file, listed in
+ * public/data/risk-datasets.json for comparison in the Risk dashboard.
+ *
  * Usage: node scripts/build-risk-json.js
  */
 import XLSX from 'xlsx';
@@ -13,7 +17,8 @@ import { fileURLToPath } from 'url';
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.join(__dirname, '..');
 const RISK_DIR = path.join(ROOT, 'risk');
-const OUTPUT = path.join(ROOT, 'public', 'data', 'risk.json');
+const DATA_DIR = path.join(ROOT, 'public', 'data');
+const MANIFEST_OUTPUT = path.join(DATA_DIR, 'risk-datasets.json');
 const GEOJSON_OUTPUT = path.join(ROOT, 'public', 'data', 'districts.geojson');
 
 const REGIONS = [
@@ -43,63 +48,109 @@ const ASSET_KEYS = [
   'livestock',      // Livestock
 ];
 
-// Parse xlsx files
-const files = fs.readdirSync(RISK_DIR).filter(f => f.endsWith('.xlsx'));
-const result = { generated: new Date().toISOString(), scenarios: {}, data: {}, districts: REGIONS.slice(1) };
-
-let processed = 0;
-for (const file of files) {
-  const match = file.match(/Risk_Analysis_T3_(.+?)yrs_(Present|Future)_(Breaches|Perfect|RedCapacity)\.xlsx/);
-  if (!match) continue;
-  const [, rp, climate, maint] = match;
-  const key = `${rp}_${climate.toLowerCase()}_${maint.toLowerCase()}`;
-
-  result.scenarios[key] = {
-    returnPeriod: parseFloat(rp),
-    climate: climate.toLowerCase(),
-    maintenance: maint.toLowerCase(),
-  };
-  result.data[key] = {};
-
-  const wb = XLSX.readFile(path.join(RISK_DIR, file));
-
-  for (const region of REGIONS) {
-    result.data[key][region] = {};
-    for (const mode of MODES) {
-      // Sheet name is truncated to 31 chars; region+mode must fit
-      let sheetName = `${region}_${mode}`;
-      const ws = wb.Sheets[sheetName];
-      if (!ws) {
-        // Try truncated name (31 char Excel limit)
-        sheetName = sheetName.slice(0, 31);
-        if (!wb.Sheets[sheetName]) continue;
-      }
+// Datasets built from risk/*.xlsx; add intervention runs here by file prefix
+const DATASETS = [
+  {
+    id: 'baseline',
+    label: 'Baseline',
+    prefix: 'Risk_Analysis_T3_',
+    output: 'risk.json',
+    description: 'Existing conditions (risk/Risk_Analysis_T3_*.xlsx)',
+  },
+  {
+    id: 'ringbunds',
+    label: 'Ring Bunds',
+    prefix: 'Risk_Analysis_w_ringbunds_T3_',
+    output: 'risk-ringbunds.json',
+    description: 'With ring bunds (risk/Risk_Analysis_w_ringbunds_T3_*.xlsx)',
+  },
+];
+
+const allFiles = fs.readdirSync(RISK_DIR).filter(f => f.endsWith('.xlsx'));
+const manifest = { datasets: [] };
+let baselineResult = null;
+
+for (const dataset of DATASETS) {
+  const pattern = new RegExp(`^${dataset.prefix}(.+?)yrs_(Present|Future)_(Breaches|Perfect|RedCapacity)\\.xlsx$`);
+  const files = allFiles.filter(f => pattern.test(f));
+  if (files.length === 0) {
+    console.log(`\n${dataset.label}: no ${dataset.prefix}*.xlsx files, skipped`);
+    continue;
+  }
+  console.log(`\n${dataset.label}:`);
+
+  const result = buildDataset(files, pattern);
+  const output = path.join(DATA_DIR, dataset.output);
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  fs.writeFileSync(output, JSON.stringify(result));
+  console.log(`Generated ${output} with ${Object.keys(result.scenarios).length} scenarios`);
+
+  manifest.datasets.push({
+    id: dataset.id,
+    label: dataset.label,
+    url: `/data/${dataset.output}`,
+    description: dataset.description,
+  });
+  if (dataset.id === 'baseline') baselineResult = result;
+}
 
-      // Compute SUM of rows 4-24 for columns B-Q (16 asset columns)
-      const sums = new Array(16).fill(0);
-      for (let r = 4; r <= 24; r++) {
-        for (let c = 0; c < 16; c++) {
-          const cellRef = XLSX.utils.encode_cell({ r: r - 1, c: c + 1 });
-          const cell = ws[cellRef];
-          sums[c] += (cell && typeof cell.v === 'number') ? cell.v : 0;
+fs.writeFileSync(MANIFEST_OUTPUT, JSON.stringify(manifest, null, 2) + '\n');
+console.log(`\nGenerated ${MANIFEST_OUTPUT} with ${manifest.datasets.length} dataset(s)`);
+
+function buildDataset(files, pattern) {
+  const result = { generated: new Date().toISOString(), scenarios: {}, data: {}, districts: REGIONS.slice(1) };
+
+  let processed = 0;
+  for (const file of files) {
+    const match = file.match(pattern);
+    if (!match) continue;
+    const [, rp, climate, maint] = match;
+    const key = `${rp}_${climate.toLowerCase()}_${maint.toLowerCase()}`;
+
+    result.scenarios[key] = {
+      returnPeriod: parseFloat(rp),
+      climate: climate.toLowerCase(),
+      maintenance: maint.toLowerCase(),
+    };
+    result.data[key] = {};
+
+    const wb = XLSX.readFile(path.join(RISK_DIR, file));
+
+    for (const region of REGIONS) {
+      result.data[key][region] = {};
+      for (const mode of MODES) {
+        // Sheet name is truncated to 31 chars; region+mode must fit
+        let sheetName = `${region}_${mode}`;
+        const ws = wb.Sheets[sheetName];
+        if (!ws) {
+          // Try truncated name (31 char Excel limit)
+          sheetName = sheetName.slice(0, 31);
+          if (!wb.Sheets[sheetName]) continue;
+        }
+
+        // Compute SUM of rows 4-24 for columns B-Q (16 asset columns)
+        const sums = new Array(16).fill(0);
+        for (let r = 4; r <= 24; r++) {
+          for (let c = 0; c < 16; c++) {
+            const cellRef = XLSX.utils.encode_cell({ r: r - 1, c: c + 1 });
+            const cell = ws[cellRef];
+            sums[c] += (cell && typeof cell.v === 'number') ? cell.v : 0;
+          }
         }
-      }
 
-      const obj = {};
-      ASSET_KEYS.forEach((k, i) => obj[k] = Math.round(sums[i] * 100) / 100);
-      result.data[key][region][mode] = obj;
+        const obj = {};
+        ASSET_KEYS.forEach((k, i) => obj[k] = Math.round(sums[i] * 100) / 100);
+        result.data[key][region][mode] = obj;
+      }
     }
+
+    processed++;
+    console.log(`  [${processed}/${files.length}] ${file}`);
   }
 
-  processed++;
-  console.log(`  [${processed}/${files.length}] ${file}`);
+  return result;
 }
 
-// Write JSON
-fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
-fs.writeFileSync(OUTPUT, JSON.stringify(result));
-console.log(`\nGenerated ${OUTPUT} with ${Object.keys(result.scenarios).length} scenarios`);
-
 // Convert Districts.shp to GeoJSON (EPSG:32642)
 const shpPath = path.join(RISK_DIR, 'Districts.shp');
 if (fs.existsSync(shpPath)) {
@@ -136,7 +187,7 @@ if (fs.existsSync(shpPath)) {
 }
 
 // Quick validation
-const validationScenario = result.data['25_present_perfect'];
+const validationScenario = baselineResult?.data['25_present_perfect'];
 if (validationScenario) {
   const totalDmg = validationScenario.TOTAL?.Dmg;
   if (totalDmg) {
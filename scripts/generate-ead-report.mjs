@@ -1,6 +1,9 @@
 /**
  * Generate EAD Report document for client.
  * Run: node scripts/generate-ead-report.mjs
+ * The EAD engine is shared with the frontend: src/lib/ead-integration.ts is
+ * bundled to JavaScript with esbuild in memory and imported from that, so
+ * any Node version the app supports can run the script.
  */
 import {
   Document, Packer, Paragraph, TextRun, Table, TableRow, TableCell,
@@ -9,6 +12,19 @@ import {
   convertInchesToTwip,
 } from 'docx';
 import fs from 'fs';
+import { build } from 'esbuild';
+
+const { outputFiles } = await build({
+  entryPoints: [new URL('../src/lib/ead-integration.ts', import.meta.url).pathname],
+  bundle: true,
+  format: 'esm',
+  platform: 'node',
+  write: false,
+  logLevel: 'error',
+});
+const { calculateExpectedAnnualValue, DEFAULT_EAD_INTEGRATION } = await import(
+  `data:text/javascript;base64,${Buffer.from(outputFiles[0].text).toString('base64')}`
+);
 
 const riskData = JSON.parse(fs.readFileSync('public/data/risk.json', 'utf-8'));
 
@@ -22,14 +38,7 @@ const ASSET_KEYS = ['crop', 'buildLow56', 'buildLow44', 'buildHigh'];
 const ASSET_LABELS = { crop: 'Agriculture', buildLow56: 'Kacha', buildLow44: 'Pakka', buildHigh: 'High-Rise' };
 
 function calculateEad(damages) {
-  if (damages.length < 2) return 0;
-  let ead = 0;
-  for (let i = 0; i < damages.length - 1; i++) {
-    const fL = 1 / damages[i].returnPeriod;
-    const fR = 1 / damages[i + 1].returnPeriod;
-    ead += 0.5 * (damages[i].damage + damages[i + 1].damage) * Math.abs(fL - fR);
-  }
-  return ead;
+  return calculateExpectedAnnualValue(damages, DEFAULT_EAD_INTEGRATION);
 }
 
 function computeAllEad() {
@@ -7,9 +7,20 @@ import type { MapViewerHandle } from '@/components/map/MapViewer';
 import { LegendPanel } from '@/components/map/LegendPanel';
 import { FeaturePopup } from '@/components/popups/FeaturePopup';
 import { SwipeCompare } from '@/components/swipe/SwipeCompare';
+import { PrintComposer } from '@/components/print';
+import { RpAnimationPlayer } from '@/components/rp-animation';
+import { RasterProbePanel } from '@/components/probe';
+import type { RasterProbePanelHandle } from '@/components/probe';
+import { CrossSectionPanel } from '@/components/profile';
+import { AttributeTablePanel } from '@/components/attribute-table';
+import { MeasurePanel } from '@/components/measure';
+import { usePlaceHighlight } from '@/components/search';
+import { GoToCoordinate } from '@/components/goto';
+import { useUserLayers, useUserMapLayers } from '@/components/user-layers';
+import { RasterStyleDialog, useRasterStyles } from '@/components/raster-style';
 import { ImpactMatrix } from '@/components/impact-matrix';
 import { RiskDashboard } from '@/components/risk-dashboard';
-import type { RiskView, DistrictName, RiskMode } from '@/types/risk';
+import type { RiskView, DistrictName, RiskMode, ChoroplethOptions } from '@/types/risk';
 import { useChoroplethLayer } from '@/components/risk-dashboard/hooks/useChoroplethLayer';
 import { useHotspotWmsLayer } from '@/components/risk-dashboard/hooks/useHotspotWmsLayer';
 import { SchemaInterventionsPanel } from '@/components/interventions-schema';
@@ -19,16 +30,36 @@ import { useDrawingInteractions } from '@/components/annotations/hooks/useDrawin
 import { useAnnotationLayer } from '@/components/annotations/hooks/useAnnotationLayer';
 import { useAnnotations } from '@/components/annotations/hooks/useAnnotations';
 import { useAnnotationExport } from '@/components/annotations/hooks/useAnnotationExport';
+import { getDefaultFeatureProperties } from '@/components/annotations/lib/styles';
 import { useAuth } from '@/hooks/useAuth';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { readPermalink, usePermalink } from '@/hooks/usePermalink';
+import { useLayerCatalog } from '@/hooks/useLayerCatalog';
+import type {
+  ImpactPermalinkState,
+  ImpactView,
+  MapViewState,
+  PermalinkState,
+  RiskPermalinkState,
+  SidebarView,
+} from '@/types/permalink';
 import type { LayerInfo, LayerGroup } from '@/types/layers';
 import { isLayerGroup } from '@/types/layers';
-import { layerTree } from '@/config/layers';
+import { MAP_CONFIG, baseMaps, layerTree } from '@/config/layers';
+import { buildRasterSld, buildSldLegendUrl, sameParameterLayerIds } from '@/lib/raster-style';
 import { cn } from '@/lib/utils';
-import { PanelLeft, X, GripVertical, ArrowLeftRight, Layers, BarChart3, MessageSquarePlus, Shield } from 'lucide-react';
+import { PanelLeft, X, GripVertical, ArrowLeftRight, Printer, Crosshair, Spline, Ruler, Layers, BarChart3, MessageSquarePlus, Shield } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
 import type { DrawingTool, NewAnnotation } from '@/types/annotations';
-import type Feature from 'ol/Feature';
+import type { Measurement } from '@/types/measure';
+import type { GazetteerEntry } from '@/types/gazetteer';
+import type { AttributeTableDock } from '@/types/attribute-table';
+import Feature from 'ol/Feature';
+import LineString from 'ol/geom/LineString';
+import Point from 'ol/geom/Point';
+import Polygon from 'ol/geom/Polygon';
+import type Geometry from 'ol/geom/Geometry';
 
 // Recursively collect all layers from the tree
 function collectAllLayers(tree: LayerGroup): LayerInfo[] {
@@ -62,21 +93,46 @@ function collectVisibleLayerIds(tree: LayerGroup): string[] {
   return visibleIds;
 }
 
+const DEFAULT_BASE_MAP = baseMaps.find((bm) => bm.visible)?.id || 'esri-dark';
+
 function App() {
   const isMobile = useIsMobile();
+  // State from the URL the app was opened with (shared permalink)
+  const [permalink] = useState(readPermalink);
   // Sidebar starts closed on mobile, open on desktop
   const [sidebarOpen, setSidebarOpen] = useState(!isMobile);
   const [sidebarWidth, setSidebarWidth] = useState(352);
   const [isResizing, setIsResizing] = useState(false);
-  const [sidebarView, setSidebarView] = useState<'layers' | 'risk' | 'impact' | 'interventions'>('layers');
-  const [currentImpactView, setCurrentImpactView] = useState<'summary' | 'detail' | 'compare'>('summary');
-  const [currentRiskView, setCurrentRiskView] = useState<RiskView>('summary');
+  const [sidebarView, setSidebarView] = useState<SidebarView>(permalink.sidebarView ?? 'layers');
+  const [currentImpactView, setCurrentImpactView] = useState<ImpactView>(permalink.impact?.view ?? 'summary');
+  const [currentRiskView, setCurrentRiskView] = useState<RiskView>(permalink.risk?.view ?? 'summary');
   const [choroplethData, setChoroplethData] = useState<Record<DistrictName, number> | null>(null);
-  const [visibleLayerIds, setVisibleLayerIds] = useState<string[]>(() => collectVisibleLayerIds(layerTree));
-  const [layerOpacities, setLayerOpacities] = useState<Record<string, number>>({});
+  const [choroplethDiverging, setChoroplethDiverging] = useState(false);
+  const [visibleLayerIds, setVisibleLayerIds] = useState<string[]>(
+    () => permalink.visibleLayerIds ?? collectVisibleLayerIds(layerTree)
+  );
+  const [layerOpacities, setLayerOpacities] = useState<Record<string, number>>(permalink.layerOpacities ?? {});
+  // Permalink-only state: the map view and base map live in MapViewer, the
+  // dashboard selections in RiskDashboard/ImpactMatrix; these mirror them
+  const [mapView, setMapView] = useState<MapViewState | undefined>(permalink.view);
+  const [baseMap, setBaseMap] = useState(
+    permalink.baseMap && baseMaps.some((bm) => bm.id === permalink.baseMap) ? permalink.baseMap : DEFAULT_BASE_MAP
+  );
+  const [riskState, setRiskState] = useState<Partial<RiskPermalinkState>>(permalink.risk ?? {});
+  const [impactState, setImpactState] = useState<Partial<ImpactPermalinkState>>(permalink.impact ?? {});
+  // Bumped on back/forward so the dashboards remount with the restored selections
+  const [restoreKey, setRestoreKey] = useState(0);
   const [selectedLayer, setSelectedLayer] = useState<LayerInfo | null>(null);
   const [identifyPopup, setIdentifyPopup] = useState<{ coordinate: number[]; position: { x: number; y: number }; features: any[] } | null>(null);
   const [swipeCompareOpen, setSwipeCompareOpen] = useState(false);
+  const [printOpen, setPrintOpen] = useState(false);
+  const [probeActive, setProbeActive] = useState(false);
+  const [profileOpen, setProfileOpen] = useState(false);
+  const [measureOpen, setMeasureOpen] = useState(false);
+  const [attributeTableLayer, setAttributeTableLayer] = useState<LayerInfo | null>(null);
+  const [attributeTableDock, setAttributeTableDock] = useState<AttributeTableDock>('bottom');
+  const [searchPlace, setSearchPlace] = useState<GazetteerEntry | null>(null);
+  const [animation, setAnimation] = useState<{ layers: LayerInfo[]; title: string } | null>(null);
   const [impactLayers, setImpactLayers] = useState<LayerInfo[]>([]);
   const sidebarRef = useRef<HTMLElement>(null);
 
@@ -86,6 +142,7 @@ function App() {
   // Derive username from auth (for backward compatibility with hooks)
   const username = user?.displayName || '';
   const mapViewerRef = useRef<MapViewerHandle>(null);
+  const probePanelRef = useRef<RasterProbePanelHandle>(null);
   const [editingAnnotation, setEditingAnnotation] = useState<{ id: number; feature: Feature } | null>(null);
   const [annotationDialogOpen, setAnnotationDialogOpen] = useState(false);
   const [annotationDialogMode, setAnnotationDialogMode] = useState<'create' | 'edit'>('create');
@@ -117,7 +174,39 @@ function App() {
   // Get map instance for hooks
   const map = mapViewerRef.current?.getMap() || null;
 
+  // Keep the URL hash in sync so the current state can be shared as a link
+  const permalinkState = useMemo<PermalinkState>(() => ({
+    view: mapView,
+    baseMap,
+    visibleLayerIds,
+    layerOpacities,
+    sidebarView,
+    risk: riskState,
+    impact: impactState,
+  }), [mapView, baseMap, visibleLayerIds, layerOpacities, sidebarView, riskState, impactState]);
+
+  // Applies state from back/forward navigation or a loaded workspace
+  const handlePermalinkRestore = useCallback((state: PermalinkState) => {
+    setSidebarView(state.sidebarView ?? 'layers');
+    setVisibleLayerIds(state.visibleLayerIds ?? collectVisibleLayerIds(layerTree));
+    setLayerOpacities(state.layerOpacities ?? {});
+    setRiskState(state.risk ?? {});
+    setImpactState(state.impact ?? {});
+    setRestoreKey((key) => key + 1);
+    if (state.view) mapViewerRef.current?.setViewState(state.view);
+    mapViewerRef.current?.setBaseMap(state.baseMap ?? DEFAULT_BASE_MAP);
+  }, []);
+
+  usePermalink(permalinkState, handlePermalinkRestore);
+
   // Choropleth layer for Risk spatial view
+  const handleChoroplethData = useCallback(
+    (data: Record<DistrictName, number> | null, options?: ChoroplethOptions) => {
+      setChoroplethData(data);
+      setChoroplethDiverging(options?.diverging ?? false);
+    },
+    []
+  );
   const choroplethValues = choroplethData ? Object.values(choroplethData).filter((v) => v > 0) : [];
   const choroplethMin = choroplethValues.length > 0 ? Math.min(...choroplethValues) : 0;
   const choroplethMax = choroplethValues.length > 0 ? Math.max(...choroplethValues) : 0;
@@ -127,8 +216,9 @@ function App() {
     data: choroplethData,
     min: choroplethMin,
     max: choroplethMax,
-    visible: sidebarView === 'risk' && (currentRiskView === 'spatial' || currentRiskView === 'ead' || currentRiskView === 'eal' || currentRiskView === 'population' || currentRiskView === 'hotspots'),
+    visible: sidebarView === 'risk' && (currentRiskView === 'spatial' || currentRiskView === 'ead' || currentRiskView === 'eal' || currentRiskView === 'population' || currentRiskView === 'hotspots' || currentRiskView === 'bca' || currentRiskView === 'trajectory'),
     mode: choroplethMode,
+    diverging: choroplethDiverging,
   });
 
   // Hotspot Intensity WMS layer for Hotspots view
@@ -138,6 +228,17 @@ function App() {
     opacity: 0.7,
   });
 
+  // Zoom to and mark the place picked in the header search
+  usePlaceHighlight(map, searchPlace);
+
+  // Files and external services the user added under "My layers"
+  const { layers: userLayers, setLayers: setUserLayers, storageFull: userLayersStorageFull } = useUserLayers();
+  useUserMapLayers(map, userLayers);
+
+  // Custom colour ramps of the hazard rasters and the layer being styled
+  const { styles: rasterStyles, setStyle: setRasterStyle } = useRasterStyles();
+  const [styleLayer, setStyleLayer] = useState<LayerInfo | null>(null);
+
   // Handle login dialog events from header
   useEffect(() => {
     const handleShowLogin = () => {
@@ -150,21 +251,35 @@ function App() {
     };
   }, []);
 
-  // Interventions hooks (using the annotations hook for interventions)
-  const {
-    annotations: interventions,
-    createAnnotation,
-    updateAnnotation,
-    refetch: loadInterventions,
-  } = useAnnotations({ enabled: !!map });
-
   const {
     vectorSource,
     vectorLayer,
+    loadAnnotations: loadInterventionFeatures,
   } = useAnnotationLayer({
     map,
   });
 
+  // Interventions hooks (using the annotations hook for interventions).
+  // Features drawn offline carry temporary ids until their queued create
+  // is synced, so the map features are reloaded afterwards.
+  const handleInterventionsSynced = useCallback(() => {
+    loadInterventionFeatures().catch((err) => console.error('Failed to reload interventions:', err));
+  }, [loadInterventionFeatures]);
+
+  const {
+    annotations: interventions,
+    createAnnotation,
+    updateAnnotation,
+    refetch: loadInterventions,
+    pendingChanges: pendingInterventionChanges,
+    syncConflicts: interventionSyncConflicts,
+    isSyncing: isSyncingInterventions,
+    syncPendingChanges: syncInterventionChanges,
+    retrySyncConflict: retryInterventionConflict,
+    dismissSyncConflicts: dismissInterventionConflicts,
+  } = useAnnotations({ enabled: !!map, onSynced: handleInterventionsSynced });
+  const isOnline = useOnlineStatus();
+
   const { activeTool, setActiveTool } = useDrawingInteractions({
     map,
     vectorSource,
@@ -523,12 +638,26 @@ function App() {
     }
   }, [isMobile]);
 
+  // Layer tree from the GeoServer capabilities, layerTree until it loads
+  const layerCatalog = useLayerCatalog();
+
   // Get all layers
-  const allLayers = useMemo(() => collectAllLayers(layerTree), []);
+  const allLayers = useMemo(
+    () =>
+      collectAllLayers(layerCatalog.tree).map((layer) => {
+        const style = rasterStyles[layer.id];
+        if (!style) return layer;
+        const sldBody = buildRasterSld(layer, style);
+        return { ...layer, sldBody, legendUrl: buildSldLegendUrl(layer, sldBody) };
+      }),
+    [layerCatalog.tree, rasterStyles]
+  );
 
-  // Combine regular layers with impact layers for MapViewer
+  // Combine regular layers with impact layers for MapViewer; the Impact
+  // Matrix entries carry the depth filter, so they win over catalog ones
   const combinedLayers = useMemo(() => {
-    return [...allLayers, ...impactLayers];
+    const impactIds = new Set(impactLayers.map((layer) => layer.id));
+    return [...allLayers.filter((layer) => !impactIds.has(layer.id)), ...impactLayers];
   }, [allLayers, impactLayers]);
 
   // Get currently visible layers (for feature identification and UI display)
@@ -536,6 +665,21 @@ function App() {
     return combinedLayers.filter((layer) => visibleLayerIds.includes(layer.id));
   }, [combinedLayers, visibleLayerIds]);
 
+  // Start the return-period animation for a parameter group of the layer tree
+  const handleAnimateGroup = useCallback((group: LayerGroup, title: string) => {
+    setAnimation({
+      layers: group.children.filter((child): child is LayerInfo => !isLayerGroup(child)),
+      title,
+    });
+  }, []);
+
+  // Animated layers with the styles applied on the map
+  const animationLayers = useMemo(() => {
+    if (!animation) return [];
+    const byId = new Map(allLayers.map((layer) => [layer.id, layer]));
+    return animation.layers.map((layer) => byId.get(layer.id) ?? layer);
+  }, [animation, allLayers]);
+
   // Handle layer visibility change
   const handleLayerVisibilityChange = useCallback((id: string, visible: boolean) => {
     setVisibleLayerIds((prev) => {
@@ -717,6 +861,7 @@ function App() {
         // Old flow: close dialog and reset tool immediately
         setAnnotationDialogOpen(false);
         setPendingDrawFeature(null);
+        setUploadDefaultValues(null);
         setActiveTool('none');
         setDrawingTool('none');
       } else {
@@ -786,6 +931,39 @@ function App() {
     setDrawingTool,
   ]);
 
+  // Geometry from another tool (a measurement, a typed coordinate) → intervention
+  // draft: it goes through the same dialog-after-drawing flow as a drawn one
+  const handleGeometryToIntervention = useCallback((geometry: Geometry, featureType: 'point' | 'line' | 'polygon') => {
+    if (!isAuthenticated) {
+      setLoginDialogOpen(true);
+      return;
+    }
+    const feature = new Feature(geometry);
+    feature.setProperties(getDefaultFeatureProperties(featureType, 'New Annotation', username));
+    vectorSource?.addFeature(feature);
+
+    setPendingDrawFeature(feature);
+    setUploadDefaultValues({ featureType });
+    setAnnotationDialogMode('create');
+    setAnnotationDialogOpen(true);
+  }, [isAuthenticated, username, vectorSource]);
+
+  const handleMeasurementToIntervention = useCallback((measurement: Measurement) => {
+    if (measurement.tool === 'area') {
+      handleGeometryToIntervention(new Polygon([measurement.coordinates]), 'polygon');
+    } else {
+      handleGeometryToIntervention(new LineString(measurement.coordinates), 'line');
+    }
+  }, [handleGeometryToIntervention]);
+
+  // Typed coordinate → hazard probe at that point
+  const handleProbeCoordinate = useCallback((coordinate: number[]) => {
+    setProbeActive(true);
+    setMeasureOpen(false);
+    setIdentifyPopup(null);
+    probePanelRef.current?.probeAt(coordinate);
+  }, []);
+
   const handleExportAnnotations = useCallback(() => {
     const features = vectorSource?.getFeatures() || [];
     if (features.length === 0) {
@@ -810,6 +988,9 @@ function App() {
       return;
     }
 
+    // The hazard probe, profile and measure tools handle clicks while they are open
+    if (probeActive || profileOpen || measureOpen) return;
+
     console.log('Map clicked at:', coord, 'pixel:', pixel);
 
     // Show identify popup at click position
@@ -899,7 +1080,7 @@ function App() {
       position: { x: pixel[0], y: pixel[1] },
       features,
     });
-  }, [visibleLayers, drawingTool]);
+  }, [visibleLayers, drawingTool, probeActive, profileOpen, measureOpen]);
 
   // Toggle sidebar
   const toggleSidebar = useCallback(() => {
@@ -919,6 +1100,20 @@ function App() {
         onToggleInterventionsPanel={handleToggleAnnotationsPanel}
         interventionsCount={interventions.length}
         isAuthenticated={isAuthenticated}
+        workspaceState={permalinkState}
+        onLoadWorkspace={handlePermalinkRestore}
+        onPlaceSelect={setSearchPlace}
+        offline={{
+          map,
+          layers: allLayers,
+          isOnline,
+          pendingChanges: pendingInterventionChanges,
+          syncConflicts: interventionSyncConflicts,
+          isSyncing: isSyncingInterventions,
+          onSync: syncInterventionChanges,
+          onRetryConflict: retryInterventionConflict,
+          onDismissConflicts: dismissInterventionConflicts,
+        }}
       />
 
       {/* Main content */}
@@ -1006,15 +1201,27 @@ function App() {
           <div className="flex-1 overflow-y-auto">
             {sidebarView === 'layers' ? (
                 <LayerTree
-                root={layerTree}
+                key={layerCatalog.source}
+                root={layerCatalog.tree}
                 onLayerVisibilityChange={handleLayerVisibilityChange}
                 onLayerOpacityChange={handleLayerOpacityChange}
                 onLayerSelect={handleLayerSelect}
                 selectedLayerId={selectedLayer?.id}
                 visibleLayerIds={visibleLayerIds}
+                onAnimateGroup={handleAnimateGroup}
+                userLayers={userLayers}
+                onUserLayersChange={setUserLayers}
+                userLayersStorageFull={userLayersStorageFull}
+                onEditLayerStyle={setStyleLayer}
+                styledLayerIds={Object.keys(rasterStyles)}
+                onOpenAttributeTable={setAttributeTableLayer}
+                catalogReport={layerCatalog.report}
               />
             ) : sidebarView === 'impact' ? (
               <ImpactMatrix
+                key={restoreKey}
+                initialState={impactState}
+                onStateChange={setImpactState}
                 onLayerToggle={handleLayerVisibilityChange}
                 visibleLayers={visibleLayerIds}
                 onImpactLayersChange={handleImpactLayersChange}
@@ -1023,8 +1230,11 @@ function App() {
               />
             ) : sidebarView === 'risk' ? (
               <RiskDashboard
+                key={restoreKey}
+                initialState={riskState}
+                onStateChange={setRiskState}
                 onViewChange={setCurrentRiskView}
-                onChoroplethData={setChoroplethData}
+                onChoroplethData={handleChoroplethData}
                 className="h-full"
               />
             ) : (
@@ -1072,6 +1282,70 @@ function App() {
           Swipe Compare
         </Button>
 
+        {/* Measure button */}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setMeasureOpen(!measureOpen);
+            setProbeActive(false);
+            setIdentifyPopup(null);
+          }}
+          className={cn(
+            "absolute top-4 right-[30.5rem] z-10 shadow-lg hidden md:inline-flex",
+            measureOpen ? "bg-blue-50 border-blue-300 text-blue-700" : "bg-white"
+          )}
+        >
+          <Ruler className="w-4 h-4 mr-2" />
+          Measure
+        </Button>
+
+        {/* Cross-section profile button */}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setProfileOpen(!profileOpen);
+            setIdentifyPopup(null);
+          }}
+          className={cn(
+            "absolute top-4 right-[25rem] z-10 shadow-lg hidden md:inline-flex",
+            profileOpen ? "bg-blue-50 border-blue-300 text-blue-700" : "bg-white"
+          )}
+        >
+          <Spline className="w-4 h-4 mr-2" />
+          Profile
+        </Button>
+
+        {/* Hazard probe button */}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setProbeActive(!probeActive);
+            setMeasureOpen(false);
+            setIdentifyPopup(null);
+          }}
+          className={cn(
+            "absolute top-4 right-[19.5rem] z-10 shadow-lg hidden md:inline-flex",
+            probeActive ? "bg-blue-50 border-blue-300 text-blue-700" : "bg-white"
+          )}
+        >
+          <Crosshair className="w-4 h-4 mr-2" />
+          Probe
+        </Button>
+
+        {/* Print button */}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPrintOpen(true)}
+          className="absolute top-4 right-[14rem] z-10 bg-white shadow-lg hidden md:inline-flex"
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          Print
+        </Button>
+
         {/* Map container */}
         <main className="flex-1 relative overflow-hidden">
           <MapViewer
@@ -1080,8 +1354,67 @@ function App() {
             allLayers={combinedLayers}
             layerOpacities={layerOpacities}
             onMapClick={handleMapClick}
+            initialView={permalink.view}
+            initialBaseMap={baseMap}
+            onViewStateChange={setMapView}
+            onBaseMapChange={setBaseMap}
+          />
+
+          {/* Hazard probe */}
+          <RasterProbePanel
+            ref={probePanelRef}
+            map={map}
+            active={probeActive}
+            onClose={() => setProbeActive(false)}
+          />
+
+          {/* Cross-section profile */}
+          {profileOpen && (
+            <CrossSectionPanel
+              map={map}
+              onClose={() => setProfileOpen(false)}
+            />
+          )}
+
+          {/* Attribute table */}
+          {attributeTableLayer && (
+            <AttributeTablePanel
+              key={attributeTableLayer.id}
+              map={map}
+              layer={attributeTableLayer}
+              dock={attributeTableDock}
+              onDockChange={setAttributeTableDock}
+              onClose={() => setAttributeTableLayer(null)}
+            />
+          )}
+
+          {/* Measurement tools */}
+          {measureOpen && (
+            <MeasurePanel
+              map={map}
+              onClose={() => setMeasureOpen(false)}
+              onConvertToIntervention={handleMeasurementToIntervention}
+            />
+          )}
+
+          {/* Go to a typed coordinate */}
+          <GoToCoordinate
+            map={map}
+            onProbe={handleProbeCoordinate}
+            onAddIntervention={(coordinate) => handleGeometryToIntervention(new Point(coordinate), 'point')}
           />
 
+          {/* Return-period animation */}
+          {animation && (
+            <RpAnimationPlayer
+              key={animation.title}
+              map={map}
+              layers={animationLayers}
+              title={animation.title}
+              onClose={() => setAnimation(null)}
+            />
+          )}
+
           {/* Legend panel */}
           <LegendPanel
             layer={selectedLayer}
@@ -1126,10 +1459,20 @@ function App() {
       {/* Swipe Compare Modal */}
       {swipeCompareOpen && (
         <SwipeCompare
+          styledLayers={allLayers}
           onClose={() => setSwipeCompareOpen(false)}
         />
       )}
 
+      {/* Print Composer */}
+      <PrintComposer
+        open={printOpen}
+        onOpenChange={setPrintOpen}
+        map={map}
+        layers={visibleLayers}
+        baseMapId={baseMap}
+      />
+
       {/* Intervention Dialog */}
       <InterventionDialog
         isOpen={annotationDialogOpen}
@@ -1166,6 +1509,19 @@ function App() {
         mode={annotationDialogMode}
       />
 
+      {styleLayer && (
+        <RasterStyleDialog
+          key={styleLayer.id}
+          layer={styleLayer}
+          style={rasterStyles[styleLayer.id]}
+          parameterLayerIds={sameParameterLayerIds(styleLayer, allLayers)}
+          onChange={setRasterStyle}
+          getSampleExtent={() => map?.getView().calculateExtent(map.getSize()) ?? MAP_CONFIG.extent}
+          canPublish={user?.role === 'admin'}
+          onClose={() => setStyleLayer(null)}
+        />
+      )}
+
       {/* Login Dialog - shown only when user clicks a draw/edit tool without authentication */}
       <LoginDialog
         isOpen={loginDialogOpen}
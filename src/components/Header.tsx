@@ -9,7 +9,13 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { AnnotationToolbar } from '@/components/annotations';
+import { WorkspaceMenu } from '@/components/workspaces';
+import { OfflineMenu } from '@/components/offline';
+import type { OfflineMenuProps } from '@/components/offline';
+import { GazetteerSearch } from '@/components/search';
+import type { GazetteerEntry } from '@/types/gazetteer';
 import type { DrawingTool } from '@/types/annotations';
+import type { PermalinkState } from '@/types/permalink';
 
 interface HeaderProps {
   onToggleSidebar: () => void;
@@ -22,6 +28,13 @@ interface HeaderProps {
   onToggleInterventionsPanel?: () => void;
   interventionsCount?: number;
   isAuthenticated?: boolean;
+  // Workspace props
+  workspaceState?: PermalinkState;
+  onLoadWorkspace?: (state: PermalinkState) => void;
+  // Place search
+  onPlaceSelect?: (place: GazetteerEntry | null) => void;
+  // Offline field mode
+  offline?: OfflineMenuProps;
 }
 
 export function Header({
@@ -34,6 +47,10 @@ export function Header({
   onToggleInterventionsPanel,
   interventionsCount = 0,
   isAuthenticated = false,
+  workspaceState,
+  onLoadWorkspace,
+  onPlaceSelect,
+  offline,
 }: HeaderProps) {
   return (
     <header className="h-14 sm:h-16 bg-white border-b border-slate-200 flex items-center justify-between px-3 sm:px-4 shadow-sm z-20">
@@ -67,8 +84,21 @@ export function Header({
         </div>
       </div>
 
+      {/* Place search */}
+      {onPlaceSelect && (
+        <GazetteerSearch onSelect={onPlaceSelect} className="hidden md:block flex-1 max-w-sm mx-4" />
+      )}
+
       {/* Right side */}
       <div className="flex items-center gap-1">
+        {/* Offline field mode */}
+        {offline && <OfflineMenu {...offline} />}
+
+        {/* Saved workspaces */}
+        {isAuthenticated && workspaceState && onLoadWorkspace && (
+          <WorkspaceMenu currentState={workspaceState} onLoad={onLoadWorkspace} />
+        )}
+
         {/* Intervention Controls */}
         {isAuthenticated ? (
           <AnnotationToolbar
@@ -3,17 +3,37 @@
  *
  * Provides CRUD operations for annotations with the backend API.
  * Caches annotations in memory to reduce API calls.
+ *
+ * Creates and edits made without a connection are queued (see
+ * lib/offline-queue) and shown straight away; the queue is sent when the
+ * connection returns, and changes the server refuses become conflicts.
+ * Queued changes can't be edited or deleted while a sync is sending them.
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { apiFetch } from '@/lib/api';
+import {
+  applyOfflineQueue,
+  clearSyncConflicts,
+  dequeueAnnotation,
+  isNetworkError,
+  loadOfflineQueue,
+  loadSyncConflicts,
+  queueCreate,
+  queueUpdate,
+  requeueSyncConflict,
+  syncOfflineQueue,
+} from '@/lib/offline-queue';
 import type { Annotation, NewAnnotation, UpdateAnnotation, AnnotationsListResponse } from '@/types/annotations';
+import type { OfflineOperation, OfflineSyncConflict } from '@/types/offline';
 
 const DEFAULT_API_URL = '/api/annotations';
 
 interface UseAnnotationsOptions {
   apiUrl?: string;
   enabled?: boolean;
+  /** Called after queued offline changes have been sent */
+  onSynced?: () => void;
 }
 
 interface UseAnnotationsReturn {
@@ -25,15 +45,34 @@ interface UseAnnotationsReturn {
   updateAnnotation: (id: number, updates: UpdateAnnotation) => Promise<Annotation>;
   deleteAnnotation: (id: number) => Promise<void>;
   refetch: () => Promise<void>;
+  /** Offline changes waiting to be sent */
+  pendingChanges: OfflineOperation[];
+  /** Offline changes the server refused */
+  syncConflicts: OfflineSyncConflict[];
+  isSyncing: boolean;
+  syncPendingChanges: () => Promise<void>;
+  /** Queue a refused change again (edits without the conflict check) and send it */
+  retrySyncConflict: (id: string) => Promise<void>;
+  dismissSyncConflicts: () => void;
 }
 
 export function useAnnotations({
   apiUrl = DEFAULT_API_URL,
   enabled = true,
+  onSynced,
 }: UseAnnotationsOptions = {}): UseAnnotationsReturn {
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<OfflineOperation[]>(loadOfflineQueue);
+  const [syncConflicts, setSyncConflicts] = useState<OfflineSyncConflict[]>(loadSyncConflicts);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const isSyncingRef = useRef(false);
+  const onSyncedRef = useRef(onSynced);
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  }, [onSynced]);
 
   /**
    * Fetch all annotations from the API
@@ -51,7 +90,7 @@ export function useAnnotations({
         throw new Error(result.error || 'Failed to fetch annotations');
       }
 
-      setAnnotations(result.data || []);
+      setAnnotations(applyOfflineQueue(result.data || [], loadOfflineQueue()));
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(message);
@@ -65,6 +104,14 @@ export function useAnnotations({
    * Create a new annotation
    */
   const createAnnotation = useCallback(async (newAnnotation: NewAnnotation): Promise<Annotation> => {
+    const queueOffline = () => {
+      const provisional = queueCreate(newAnnotation);
+      setAnnotations((prev) => [...prev, provisional]);
+      setPendingChanges(loadOfflineQueue());
+      return provisional;
+    };
+    if (!navigator.onLine) return queueOffline();
+
     setIsLoading(true);
     setError(null);
 
@@ -85,6 +132,7 @@ export function useAnnotations({
 
       return created;
     } catch (err) {
+      if (isNetworkError(err)) return queueOffline();
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(message);
       console.error('Error creating annotation:', err);
@@ -98,6 +146,16 @@ export function useAnnotations({
    * Update an existing annotation
    */
   const updateAnnotation = useCallback(async (id: number, updates: UpdateAnnotation): Promise<Annotation> => {
+    // Queued creates have negative ids and are edited in the queue
+    const queueOffline = () => {
+      const updated = queueUpdate(annotations.find((a) => a.id === id), id, updates);
+      if (!updated) throw new Error('Annotation not found');
+      setAnnotations((prev) => prev.map((a) => (a.id === id ? updated : a)));
+      setPendingChanges(loadOfflineQueue());
+      return updated;
+    };
+    if (id < 0 || !navigator.onLine) return queueOffline();
+
     setIsLoading(true);
     setError(null);
 
@@ -120,6 +178,7 @@ export function useAnnotations({
 
       return updated;
     } catch (err) {
+      if (isNetworkError(err)) return queueOffline();
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(message);
       console.error('Error updating annotation:', err);
@@ -127,12 +186,20 @@ export function useAnnotations({
     } finally {
       setIsLoading(false);
     }
-  }, [apiUrl]);
+  }, [apiUrl, annotations]);
 
   /**
    * Delete an annotation
    */
   const deleteAnnotation = useCallback(async (id: number): Promise<void> => {
+    // A queued create was never sent, so deleting it just drops it from the queue
+    if (id < 0) {
+      dequeueAnnotation(id);
+      setAnnotations((prev) => prev.filter((a) => a.id !== id));
+      setPendingChanges(loadOfflineQueue());
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -145,8 +212,12 @@ export function useAnnotations({
         throw new Error(result.error || 'Failed to delete annotation');
       }
 
-      // Update local state
+      // Update local state; queued edits of it would only be refused
       setAnnotations((prev) => prev.filter((a) => a.id !== id));
+      if (!isSyncingRef.current) {
+        dequeueAnnotation(id);
+        setPendingChanges(loadOfflineQueue());
+      }
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error';
       setError(message);
@@ -157,6 +228,43 @@ export function useAnnotations({
     }
   }, [apiUrl]);
 
+  /**
+   * Send the queued offline changes, then reload so temporary ids are
+   * replaced by the server's
+   */
+  const syncPendingChanges = useCallback(async () => {
+    if (isSyncingRef.current || loadOfflineQueue().length === 0) return;
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      const result = await syncOfflineQueue(apiUrl);
+      setPendingChanges(loadOfflineQueue());
+      setSyncConflicts(loadSyncConflicts());
+      if (result.synced > 0 || result.conflicts.length > 0) {
+        await fetchAnnotations();
+        onSyncedRef.current?.();
+      }
+    } catch (err) {
+      console.error('Error syncing offline changes:', err);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [apiUrl, fetchAnnotations]);
+
+  const retrySyncConflict = useCallback(async (id: string) => {
+    requeueSyncConflict(id);
+    setPendingChanges(loadOfflineQueue());
+    setSyncConflicts(loadSyncConflicts());
+    await syncPendingChanges();
+  }, [syncPendingChanges]);
+
+  const dismissSyncConflicts = useCallback(() => {
+    clearSyncConflicts();
+    setSyncConflicts([]);
+  }, []);
+
   /**
    * Refetch annotations (alias for fetchAnnotations)
    */
@@ -167,6 +275,17 @@ export function useAnnotations({
     fetchAnnotations();
   }, [fetchAnnotations]);
 
+  // Send queued changes when the connection returns
+  useEffect(() => {
+    if (!enabled) return;
+    const handleOnline = () => {
+      syncPendingChanges();
+    };
+    window.addEventListener('online', handleOnline);
+    if (navigator.onLine) handleOnline();
+    return () => window.removeEventListener('online', handleOnline);
+  }, [enabled, syncPendingChanges]);
+
   return {
     annotations,
     isLoading,
@@ -176,5 +295,11 @@ export function useAnnotations({
     updateAnnotation,
     deleteAnnotation,
     refetch,
+    pendingChanges,
+    syncConflicts,
+    isSyncing,
+    syncPendingChanges,
+    retrySyncConflict,
+    dismissSyncConflicts,
   };
 }
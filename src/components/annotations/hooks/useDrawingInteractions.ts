@@ -25,10 +25,12 @@ import {
 interface UseDrawingInteractionsOptions {
   map: Map | null;
   vectorSource?: VectorSource; // External vector source to use for drawing
-  onDrawStart?: () => void;
+  onDrawStart?: (feature: Feature) => void;
   onDrawEnd?: (feature: Feature) => void;
   onSelect?: (feature: Feature | null) => void;
   username?: string;
+  /** Finish line drawing automatically after this many vertices */
+  maxPoints?: number;
 }
 
 interface UseDrawingInteractionsReturn {
@@ -48,6 +50,7 @@ export function useDrawingInteractions({
   onDrawEnd,
   onSelect,
   username = 'Anonymous',
+  maxPoints,
 }: UseDrawingInteractionsOptions): UseDrawingInteractionsReturn {
   const [activeTool, setActiveTool] = useState<DrawingTool>('none');
   const [selectedFeature, setSelectedFeature] = useState<Feature | null>(null);
@@ -128,6 +131,7 @@ export function useDrawingInteractions({
         const draw = new Draw({
           source: vectorSource,
           type: geometryType,
+          maxPoints: activeTool === 'line' ? maxPoints : undefined,
           style: new Style({
             image: new Circle({
               radius: 7,
@@ -145,7 +149,7 @@ export function useDrawingInteractions({
           const geometryType = feature.getGeometry()?.getType();
           const geomType = geometryType === 'Point' ? 'point' : geometryType === 'LineString' ? 'line' : 'polygon';
           feature.setProperties(getDefaultFeatureProperties(geomType, 'New Annotation', username));
-          onDrawStartRef.current?.();
+          onDrawStartRef.current?.(feature);
         });
 
         // Handle draw completion
@@ -214,7 +218,7 @@ export function useDrawingInteractions({
     return () => {
       removeAllInteractions();
     };
-  }, [map, activeTool, username, removeAllInteractions, vectorSource]);
+  }, [map, activeTool, username, maxPoints, removeAllInteractions, vectorSource]);
 
   /**
    * Delete the currently selected feature
@@ -0,0 +1,298 @@
+/**
+ * Attribute Table Panel Component
+ *
+ * Map panel listing the features of a vector layer, docked along the
+ * bottom or the right edge. Features come from WFS for the map view or the
+ * whole layer; the filter box is sent to GeoServer as CQL. Selected rows
+ * are highlighted on the map and can be zoomed to and exported.
+ */
+
+import { useRef } from 'react';
+import type Map from 'ol/Map';
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  Loader2,
+  PanelBottom,
+  PanelRight,
+  RefreshCw,
+  X,
+  ZoomIn,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { exportAttributeRows, formatAttributeValue } from '@/lib/attribute-table';
+import { downloadBlob } from '@/lib/image-export';
+import { cn } from '@/lib/utils';
+import type { LayerInfo } from '@/types/layers';
+import { ATTRIBUTE_EXPORT_LABELS, FILTER_EXPRESSION_HELP } from '@/types/attribute-table';
+import type { AttributeExportFormat, AttributeRow, AttributeTableDock } from '@/types/attribute-table';
+import { useAttributeTable } from './hooks/useAttributeTable';
+import { useSelectionHighlight } from './hooks/useSelectionHighlight';
+
+export interface AttributeTablePanelProps {
+  map: Map | null;
+  layer: LayerInfo;
+  dock: AttributeTableDock;
+  onDockChange: (dock: AttributeTableDock) => void;
+  onClose: () => void;
+}
+
+export function AttributeTablePanel({ map, layer, dock, onDockChange, onClose }: AttributeTablePanelProps) {
+  const {
+    columns,
+    rows,
+    total,
+    isLoading,
+    error,
+    scope,
+    setScope,
+    reload,
+    filter,
+    setFilter,
+    appliedFilter,
+    filterError,
+    applyFilter,
+    clearFilter,
+    sort,
+    toggleSort,
+    selectedIds,
+    setSelectedIds,
+    selectedRows,
+  } = useAttributeTable(map, layer);
+  const { zoomToSelection } = useSelectionHighlight(map, selectedRows);
+  // Row a shift-click extends the selection from
+  const anchorRef = useRef<string | null>(null);
+
+  const allSelected = rows.length > 0 && selectedIds.size === rows.length;
+
+  const handleRowClick = (row: AttributeRow, e: React.MouseEvent) => {
+    const anchorIndex = rows.findIndex((r) => r.id === anchorRef.current);
+    if (e.shiftKey && anchorIndex >= 0) {
+      const index = rows.indexOf(row);
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      setSelectedIds(new Set(rows.slice(from, to + 1).map((r) => r.id)));
+      return;
+    }
+    anchorRef.current = row.id;
+    if (e.ctrlKey || e.metaKey) {
+      toggleRow(row.id);
+    } else {
+      setSelectedIds(selectedIds.size === 1 && selectedIds.has(row.id) ? new Set() : new Set([row.id]));
+    }
+  };
+
+  const toggleRow = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const handleExport = (format: AttributeExportFormat) => {
+    const exported = selectedRows.length > 0 ? selectedRows : rows;
+    const baseName = (layer.geoserverName ?? layer.id).replace(/[^\w-]+/g, '_');
+    const { blob, filename } = exportAttributeRows(format, exported, columns, baseName);
+    downloadBlob(blob, filename);
+  };
+
+  const selectClass = 'text-xs h-7 border border-slate-200 rounded-md px-1.5 bg-white';
+
+  return (
+    <div
+      className={cn(
+        'absolute bg-white/95 backdrop-blur-sm rounded-lg shadow-lg z-20 text-xs flex flex-col',
+        dock === 'bottom' ? 'bottom-4 left-4 right-4 h-[45%]' : 'top-4 right-4 bottom-4 w-[440px] max-w-[calc(100%-2rem)]'
+      )}
+    >
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-slate-200">
+        <span className="text-sm font-semibold text-slate-800 mr-1 truncate max-w-[240px]" title={layer.name}>
+          {layer.name}
+        </span>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value === 'layer' ? 'layer' : 'extent')}
+          className={selectClass}
+          title="Features to load"
+        >
+          <option value="extent">Map view</option>
+          <option value="layer">Whole layer</option>
+        </select>
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={reload} disabled={isLoading} title="Reload features">
+          <RefreshCw className="w-3.5 h-3.5" />
+        </Button>
+        <span className="text-slate-500">
+          {isLoading ? (
+            <span className="flex items-center gap-1">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Loading…
+            </span>
+          ) : (
+            <>
+              {rows.length} feature{rows.length === 1 ? '' : 's'}
+              {selectedIds.size > 0 && ` · ${selectedIds.size} selected`}
+            </>
+          )}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            onClick={zoomToSelection}
+            disabled={selectedRows.length === 0}
+            title="Zoom to selected features"
+          >
+            <ZoomIn className="w-3.5 h-3.5 mr-1" />
+            Zoom to
+          </Button>
+          <DropdownMenu modal={false}>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline" className="h-7 text-xs" disabled={rows.length === 0 || isLoading}>
+                <Download className="w-3.5 h-3.5 mr-1" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs text-slate-500">
+                {selectedRows.length > 0 ? `${selectedRows.length} selected` : `All ${rows.length} rows`}
+              </DropdownMenuLabel>
+              {(Object.keys(ATTRIBUTE_EXPORT_LABELS) as AttributeExportFormat[]).map((format) => (
+                <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                  {ATTRIBUTE_EXPORT_LABELS[format]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <button
+            onClick={() => onDockChange(dock === 'bottom' ? 'right' : 'bottom')}
+            className="p-1 rounded hover:bg-slate-100 text-slate-500"
+            title={dock === 'bottom' ? 'Dock on the right' : 'Dock at the bottom'}
+          >
+            {dock === 'bottom' ? <PanelRight className="w-4 h-4" /> : <PanelBottom className="w-4 h-4" />}
+          </button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Close attribute table">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Filter */}
+      <div className="px-3 py-2 border-b border-slate-100 space-y-1">
+        <form
+          className="flex items-center gap-1.5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilter();
+          }}
+        >
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter, e.g. district = 'Dadu'"
+            className={cn('h-7 text-xs font-mono', filterError && 'border-red-400')}
+            disabled={columns.length === 0}
+          />
+          <Button type="submit" size="sm" className="h-7 text-xs" disabled={columns.length === 0 || isLoading}>
+            Apply
+          </Button>
+          {(filter || appliedFilter) && (
+            <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={clearFilter}>
+              Clear
+            </Button>
+          )}
+        </form>
+        {filterError ? (
+          <p className="text-red-600">
+            {filterError.message} (at character {filterError.position + 1})
+          </p>
+        ) : (
+          <p className="text-slate-400">{FILTER_EXPRESSION_HELP}</p>
+        )}
+      </div>
+
+      {error && <p className="px-3 py-1.5 text-red-600 border-b border-slate-100">{error}</p>}
+      {total !== null && total > rows.length && (
+        <p className="px-3 py-1.5 text-amber-700 bg-amber-50 border-b border-amber-100">
+          Showing the first {rows.length} of {total} features; sorting covers these rows only. Narrow the filter or use the map view to see the rest.
+        </p>
+      )}
+
+      {/* Rows */}
+      <div className="flex-1 min-h-0 overflow-auto">
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0 bg-slate-50 z-10">
+            <tr>
+              <th className="w-8 px-2 py-1.5 border-b border-slate-200">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelectedIds(allSelected ? new Set() : new Set(rows.map((r) => r.id)))}
+                  disabled={rows.length === 0}
+                  title="Select all"
+                />
+              </th>
+              {columns.map((column) => (
+                <th
+                  key={column.name}
+                  onClick={() => toggleSort(column.name)}
+                  className="px-2 py-1.5 border-b border-slate-200 text-left font-medium text-slate-600 whitespace-nowrap cursor-pointer hover:bg-slate-100"
+                  title={`Sort by ${column.name}`}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {column.name}
+                    {sort?.column === column.name &&
+                      (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.id}
+                onClick={(e) => handleRowClick(row, e)}
+                className={cn(
+                  'cursor-pointer select-none',
+                  selectedIds.has(row.id) ? 'bg-cyan-50 hover:bg-cyan-100' : 'hover:bg-slate-50'
+                )}
+              >
+                <td className="px-2 py-1 border-b border-slate-100" onClick={(e) => e.stopPropagation()}>
+                  <input type="checkbox" checked={selectedIds.has(row.id)} onChange={() => toggleRow(row.id)} />
+                </td>
+                {columns.map((column) => (
+                  <td
+                    key={column.name}
+                    className={cn(
+                      'px-2 py-1 border-b border-slate-100 whitespace-nowrap max-w-[240px] truncate',
+                      column.type === 'number' && 'text-right tabular-nums'
+                    )}
+                  >
+                    {formatAttributeValue(row.properties[column.name])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!isLoading && !error && rows.length === 0 && (
+          <p className="px-3 py-4 text-center text-slate-500">
+            {scope === 'extent' ? 'No features in the map view.' : appliedFilter ? 'No features match the filter.' : 'The layer has no features.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AttributeTablePanel;
@@ -0,0 +1,188 @@
+/**
+ * Hook for the attribute table
+ *
+ * Reads the layer's columns once, then loads features for the map view or
+ * the whole layer with the applied filter. Sorting and selection work on
+ * the loaded rows; a reload keeps the selected rows that are still there.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type Map from 'ol/Map';
+import {
+  describeAttributeColumns,
+  filterExpressionToCql,
+  loadAttributeRows,
+  sortAttributeRows,
+} from '@/lib/attribute-table';
+import type { LayerInfo } from '@/types/layers';
+import type {
+  AttributeColumn,
+  AttributeRow,
+  AttributeSort,
+  AttributeTableScope,
+  FilterParseError,
+} from '@/types/attribute-table';
+
+interface UseAttributeTableReturn {
+  columns: AttributeColumn[];
+  /** Loaded rows in display order */
+  rows: AttributeRow[];
+  /** Features matching the request, when the server reports it */
+  total: number | null;
+  isLoading: boolean;
+  error: string | null;
+  scope: AttributeTableScope;
+  setScope: (scope: AttributeTableScope) => void;
+  /** Reload, e.g. after the map view moved */
+  reload: () => void;
+  filter: string;
+  setFilter: (filter: string) => void;
+  /** Expression the loaded rows are filtered with */
+  appliedFilter: string;
+  filterError: FilterParseError | null;
+  applyFilter: () => void;
+  clearFilter: () => void;
+  sort: AttributeSort | null;
+  toggleSort: (column: string) => void;
+  selectedIds: Set<string>;
+  setSelectedIds: (ids: Set<string>) => void;
+  selectedRows: AttributeRow[];
+}
+
+function viewExtent(map: Map | null, scope: AttributeTableScope): number[] | null {
+  const size = map?.getSize();
+  if (scope !== 'extent' || !map || !size) return null;
+  return map.getView().calculateExtent(size);
+}
+
+export function useAttributeTable(map: Map | null, layer: LayerInfo): UseAttributeTableReturn {
+  const [columns, setColumns] = useState<AttributeColumn[]>([]);
+  const [geometryName, setGeometryName] = useState<string | null>(null);
+  const [loadedRows, setLoadedRows] = useState<AttributeRow[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [scope, setScopeState] = useState<AttributeTableScope>('extent');
+  const [filter, setFilter] = useState('');
+  const [appliedFilter, setAppliedFilter] = useState('');
+  const [appliedCql, setAppliedCql] = useState<string | null>(null);
+  const [filterError, setFilterError] = useState<FilterParseError | null>(null);
+  const [sort, setSort] = useState<AttributeSort | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const showRows = useCallback((result: { rows: AttributeRow[]; total: number | null }) => {
+    setLoadedRows(result.rows);
+    setTotal(result.total);
+    setSelectedIds((prev) => new Set(result.rows.filter((row) => prev.has(row.id)).map((row) => row.id)));
+    setIsLoading(false);
+  }, []);
+
+  const showError = useCallback((err: unknown) => {
+    console.error('Error loading attribute table:', err);
+    setError(err instanceof Error ? err.message : 'Could not load the features');
+    setIsLoading(false);
+  }, []);
+
+  // Columns, then the features in view
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    describeAttributeColumns(layer, controller.signal)
+      .then((info) => {
+        setColumns(info.columns);
+        setGeometryName(info.geometryName);
+        return loadAttributeRows(
+          layer,
+          { cql: null, extent: viewExtent(map, 'extent'), geometryName: info.geometryName },
+          controller.signal
+        );
+      })
+      .then((result) => {
+        if (!controller.signal.aborted) showRows(result);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) showError(err);
+      });
+    return () => controller.abort();
+  }, [map, layer, showRows, showError]);
+
+  const load = useCallback((nextScope: AttributeTableScope, cql: string | null) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+
+    loadAttributeRows(layer, { cql, extent: viewExtent(map, nextScope), geometryName }, controller.signal)
+      .then((result) => {
+        if (controllerRef.current === controller) showRows(result);
+      })
+      .catch((err) => {
+        if (controllerRef.current === controller && !controller.signal.aborted) showError(err);
+      });
+  }, [map, layer, geometryName, showRows, showError]);
+
+  const setScope = useCallback((next: AttributeTableScope) => {
+    setScopeState(next);
+    load(next, appliedCql);
+  }, [load, appliedCql]);
+
+  const reload = useCallback(() => load(scope, appliedCql), [load, scope, appliedCql]);
+
+  const applyFilter = useCallback(() => {
+    const { cql, error: parseError } = filterExpressionToCql(filter, columns);
+    setFilterError(parseError);
+    if (parseError) return;
+    setAppliedFilter(filter.trim());
+    setAppliedCql(cql);
+    load(scope, cql);
+  }, [filter, columns, load, scope]);
+
+  const clearFilter = useCallback(() => {
+    setFilter('');
+    setFilterError(null);
+    if (appliedCql === null) return;
+    setAppliedFilter('');
+    setAppliedCql(null);
+    load(scope, null);
+  }, [appliedCql, load, scope]);
+
+  // Ascending, then descending, then unsorted
+  const toggleSort = useCallback((column: string) => {
+    setSort((prev) =>
+      prev?.column !== column
+        ? { column, descending: false }
+        : prev.descending
+          ? null
+          : { column, descending: true }
+    );
+  }, []);
+
+  const rows = useMemo(() => sortAttributeRows(loadedRows, sort), [loadedRows, sort]);
+  const selectedRows = useMemo(() => rows.filter((row) => selectedIds.has(row.id)), [rows, selectedIds]);
+
+  return {
+    columns,
+    rows,
+    total,
+    isLoading,
+    error,
+    scope,
+    setScope,
+    reload,
+    filter,
+    setFilter,
+    appliedFilter,
+    filterError,
+    applyFilter,
+    clearFilter,
+    sort,
+    toggleSort,
+    selectedIds,
+    setSelectedIds,
+    selectedRows,
+  };
+}
+
+export default useAttributeTable;
@@ -0,0 +1,68 @@
+/**
+ * Hook marking the attribute table's selected rows on the map
+ *
+ * Copies of the selected features are drawn on their own layer above the
+ * map layers; zoomToSelection fits the view to them.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type Map from 'ol/Map';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { createEmpty, extend, isEmpty } from 'ol/extent';
+import { Circle, Fill, Stroke, Style } from 'ol/style';
+import type { AttributeRow } from '@/types/attribute-table';
+
+const HIGHLIGHT_COLOR = '#0891b2';
+
+/** Closest zoom when fitting to points */
+const MAX_FIT_ZOOM = 16;
+
+const SELECTION_STYLE = [
+  new Style({
+    stroke: new Stroke({ color: '#ffffff', width: 5 }),
+  }),
+  new Style({
+    stroke: new Stroke({ color: HIGHLIGHT_COLOR, width: 2.5 }),
+    fill: new Fill({ color: 'rgba(8, 145, 178, 0.15)' }),
+    image: new Circle({
+      radius: 7,
+      fill: new Fill({ color: HIGHLIGHT_COLOR }),
+      stroke: new Stroke({ color: '#ffffff', width: 2.5 }),
+    }),
+  }),
+];
+
+export function useSelectionHighlight(map: Map | null, selectedRows: AttributeRow[]): { zoomToSelection: () => void } {
+  const [source] = useState(() => new VectorSource());
+
+  // Highlight layer
+  useEffect(() => {
+    if (!map) return;
+    const layer = new VectorLayer({ source, style: SELECTION_STYLE, zIndex: 1001 });
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, source]);
+
+  useEffect(() => {
+    source.clear();
+    source.addFeatures(selectedRows.map((row) => row.feature.clone()));
+  }, [selectedRows, source]);
+
+  const zoomToSelection = useCallback(() => {
+    if (!map) return;
+    const extent = createEmpty();
+    for (const row of selectedRows) {
+      const geometry = row.feature.getGeometry();
+      if (geometry) extend(extent, geometry.getExtent());
+    }
+    if (isEmpty(extent)) return;
+    map.getView().fit(extent, { padding: [60, 60, 60, 60], maxZoom: MAX_FIT_ZOOM, duration: 600 });
+  }, [map, selectedRows]);
+
+  return { zoomToSelection };
+}
+
+export default useSelectionHighlight;
@@ -0,0 +1,7 @@
+/**
+ * Attribute Table Module Barrel Export
+ */
+
+export { AttributeTablePanel } from './AttributeTablePanel';
+export { useAttributeTable } from './hooks/useAttributeTable';
+export { useSelectionHighlight } from './hooks/useSelectionHighlight';
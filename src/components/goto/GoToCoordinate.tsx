@@ -0,0 +1,135 @@
+/**
+ * Go-To-Coordinate Component
+ *
+ * Map box for typing a coordinate in UTM 42N, decimal degrees, DMS or MGRS.
+ * A coordinate inside the study area is marked with a temporary pin and
+ * can be sent to the hazard probe or used as a point intervention.
+ */
+
+import { useState } from 'react';
+import type Map from 'ol/Map';
+import { Crosshair, LocateFixed, MapPin, Shield, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { COORDINATE_FORMAT_LABELS, formatMgrs, parseCoordinateInput } from '@/lib/coordinate-input';
+import { useCoordinateMarker } from './hooks/useCoordinateMarker';
+
+export interface GoToCoordinateProps {
+  map: Map | null;
+  /** Open the hazard probe at the coordinate (EPSG:32642) */
+  onProbe: (coordinate: number[]) => void;
+  /** Start a point intervention at the coordinate (EPSG:32642) */
+  onAddIntervention: (coordinate: number[]) => void;
+}
+
+function formatLatLon([lon, lat]: number[]): string {
+  return `${Math.abs(lat).toFixed(5)}°${lat >= 0 ? 'N' : 'S'}, ${Math.abs(lon).toFixed(5)}°${lon >= 0 ? 'E' : 'W'}`;
+}
+
+export function GoToCoordinate({ map, onProbe, onAddIntervention }: GoToCoordinateProps) {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [target, setTarget] = useState<number[] | null>(null);
+  const [showError, setShowError] = useState(false);
+
+  useCoordinateMarker(map, target);
+
+  const parsed = parseCoordinateInput(input);
+
+  const goTo = () => {
+    if (parsed.ok) setTarget(parsed.coordinate);
+    setShowError(!parsed.ok);
+  };
+
+  const close = () => {
+    setOpen(false);
+    setTarget(null);
+    setShowError(false);
+  };
+
+  if (!open) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="absolute bottom-24 left-4 z-10 bg-white shadow-lg"
+      >
+        <LocateFixed className="w-4 h-4 mr-2" />
+        Go to XY
+      </Button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-24 left-4 w-80 max-w-[calc(100%-2rem)] bg-white/95 backdrop-blur-sm rounded-lg shadow-lg z-10 text-xs">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200">
+        <div className="flex items-center gap-2">
+          <LocateFixed className="w-4 h-4 text-red-600" />
+          <span className="text-sm font-semibold text-slate-800">Go to Coordinate</span>
+        </div>
+        <button onClick={close} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="px-3 py-2 space-y-2">
+        <form
+          className="flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            goTo();
+          }}
+        >
+          <Input
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setShowError(false);
+            }}
+            placeholder="439335 3080045 · 27.84, 68.38 · 42R VR 39335 80045"
+            className="h-8 text-xs font-mono"
+            aria-label="Coordinate"
+            autoFocus
+          />
+          <Button type="submit" size="sm" className="h-8 text-xs">
+            <MapPin className="w-3.5 h-3.5 mr-1" />
+            Go
+          </Button>
+        </form>
+
+        {parsed.ok ? (
+          <div className="text-[11px] text-slate-600 space-y-0.5">
+            <div className="text-slate-500">{COORDINATE_FORMAT_LABELS[parsed.format]}</div>
+            <div className="font-mono">
+              E: {parsed.coordinate[0].toFixed(0)} N: {parsed.coordinate[1].toFixed(0)}
+            </div>
+            <div className="font-mono">{formatLatLon(parsed.lonLat)}</div>
+            <div className="font-mono">{formatMgrs(parsed.coordinate)}</div>
+          </div>
+        ) : showError ? (
+          <p className="text-[11px] text-red-600">{parsed.error}</p>
+        ) : (
+          <p className="text-[10px] text-slate-500">
+            UTM 42N (E N), decimal degrees (lat, lon), DMS (27°50'30"N 68°23'10"E) or MGRS.
+          </p>
+        )}
+
+        {target && (
+          <div className="flex gap-1">
+            <Button size="sm" variant="outline" className="h-7 text-xs flex-1" onClick={() => onProbe(target)}>
+              <Crosshair className="w-3.5 h-3.5 mr-1" />
+              Probe here
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs flex-1" onClick={() => onAddIntervention(target)}>
+              <Shield className="w-3.5 h-3.5 mr-1" />
+              Add intervention
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GoToCoordinate;
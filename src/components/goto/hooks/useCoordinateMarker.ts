@@ -0,0 +1,62 @@
+/**
+ * Hook marking a typed coordinate on the map
+ *
+ * Pans to the coordinate and drops a temporary pin on its own vector layer;
+ * the pin is removed when the coordinate is cleared or the hook unmounts.
+ */
+
+import { useEffect, useState } from 'react';
+import type Map from 'ol/Map';
+import Feature from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { Circle, Fill, Stroke, Style } from 'ol/style';
+
+const MARKER_STYLE = [
+  new Style({
+    image: new Circle({
+      radius: 11,
+      stroke: new Stroke({ color: 'rgba(220, 38, 38, 0.6)', width: 2 }),
+    }),
+  }),
+  new Style({
+    image: new Circle({
+      radius: 5,
+      fill: new Fill({ color: '#dc2626' }),
+      stroke: new Stroke({ color: '#ffffff', width: 2 }),
+    }),
+  }),
+];
+
+/** Zoom used when going to a coordinate; the AOI fits at about 10 */
+const GOTO_ZOOM = 15;
+
+export function useCoordinateMarker(map: Map | null, coordinate: number[] | null): void {
+  const [source] = useState(() => new VectorSource());
+
+  // Marker layer
+  useEffect(() => {
+    if (!map) return;
+    const layer = new VectorLayer({ source, style: MARKER_STYLE, zIndex: 1002 });
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, source]);
+
+  // Pan to and mark the coordinate
+  useEffect(() => {
+    source.clear();
+    if (!map || !coordinate) return;
+    source.addFeature(new Feature(new Point(coordinate)));
+    const view = map.getView();
+    view.animate({
+      center: coordinate,
+      zoom: Math.max(view.getZoom() ?? 0, GOTO_ZOOM),
+      duration: 500,
+    });
+  }, [map, coordinate, source]);
+}
+
+export default useCoordinateMarker;
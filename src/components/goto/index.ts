@@ -0,0 +1,6 @@
+/**
+ * Go-To-Coordinate Module Barrel Export
+ */
+
+export { GoToCoordinate } from './GoToCoordinate';
+export { useCoordinateMarker } from './hooks/useCoordinateMarker';
@@ -15,9 +15,7 @@ import { CompareView } from './views/CompareView';
 import type { LayerInfo } from '@/types/layers';
 import { EXPOSURE_LAYER_GEOMETRY, formatClimateLabel, formatMaintenanceLabel } from '@/types/impact';
 import { filterScenariosByThreshold, createCQLFilterForThreshold } from '@/lib/depth-filter';
-
-// View types for the impact matrix
-type ImpactView = 'summary' | 'detail' | 'compare';
+import type { ImpactPermalinkState, ImpactView } from '@/types/permalink';
 
 /**
  * Props for the ImpactMatrix component
@@ -50,6 +48,17 @@ export interface ImpactMatrixProps {
    */
   initialClimate?: 'present' | 'future';
 
+  /**
+   * Selections to open with (e.g. from a permalink); the scenario is
+   * selected once the impact data has loaded
+   */
+  initialState?: Partial<ImpactPermalinkState>;
+
+  /**
+   * Callback when a selection that belongs in a permalink changes
+   */
+  onStateChange?: (state: ImpactPermalinkState) => void;
+
   /**
    * Additional class names
    */
@@ -70,13 +79,21 @@ export function ImpactMatrix({
   onImpactLayersChange,
   onViewChange,
   initialClimate = 'present',
+  initialState,
+  onStateChange,
   className,
 }: ImpactMatrixProps) {
   // UI State
-  const [currentView, setCurrentView] = useState<ImpactView>('summary');
-  const [selectedClimate, setSelectedClimate] = useState<'present' | 'future'>(initialClimate);
+  const [currentView, setCurrentView] = useState<ImpactView>(() =>
+    // The detail view needs a scenario to show
+    initialState?.view && (initialState.view !== 'detail' || initialState.scenarioId)
+      ? initialState.view
+      : 'summary'
+  );
+  const [selectedClimate, setSelectedClimate] = useState<'present' | 'future'>(initialState?.climate ?? initialClimate);
   const [selectedScenario, setSelectedScenario] = useState<ScenarioImpactSummary | null>(null);
-  const [depthThreshold, setDepthThreshold] = useState<number>(0); // Depth filter in meters
+  const [pendingScenarioId, setPendingScenarioId] = useState<string | null>(initialState?.scenarioId ?? null);
+  const [depthThreshold, setDepthThreshold] = useState<number>(initialState?.depthThreshold ?? 0); // Depth filter in meters
   const [showImpactCurves, setShowImpactCurves] = useState(false);
 
   // Build query for the hook (memoized to prevent unnecessary refetches)
@@ -116,6 +133,16 @@ export function ImpactMatrix({
     };
   }, [impactData, depthThreshold]);
 
+  /**
+   * Select the scenario named in initialState once its data is available
+   */
+  if (pendingScenarioId && filteredImpactData) {
+    const restored = filteredImpactData.summaries.find((s) => s.scenarioId === pendingScenarioId) ?? null;
+    setPendingScenarioId(null);
+    setSelectedScenario(restored);
+    if (!restored && currentView === 'detail') setCurrentView('summary');
+  }
+
   /**
    * Get CQL filter for map layers based on depth threshold
    */
@@ -183,6 +210,18 @@ export function ImpactMatrix({
     onViewChange?.(currentView);
   }, [currentView, onViewChange]);
 
+  /**
+   * Notify parent of permalink state changes
+   */
+  useEffect(() => {
+    onStateChange?.({
+      view: currentView,
+      climate: selectedClimate,
+      scenarioId: selectedScenario?.scenarioId ?? pendingScenarioId,
+      depthThreshold,
+    });
+  }, [currentView, selectedClimate, selectedScenario, pendingScenarioId, depthThreshold, onStateChange]);
+
   /**
    * Build LayerInfo objects from impact data for the selected scenario
    * This allows MapViewer to display impact layers
@@ -0,0 +1,72 @@
+/**
+ * Catalog Report
+ *
+ * Header badge listing the differences between the configured layers and
+ * the layers GeoServer advertises, so the configuration can be updated.
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { LayerCatalogReport } from '@/types/layer-catalog';
+
+interface CatalogReportProps {
+  report: LayerCatalogReport;
+}
+
+function ReportSection({ title, description, items }: { title: string; description: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="font-medium text-slate-800">
+        {title} ({items.length})
+      </p>
+      <p className="text-slate-500">{description}</p>
+      <ul className="max-h-32 overflow-y-auto rounded border border-slate-200 divide-y divide-slate-100 font-mono text-[11px]">
+        {items.map((item) => (
+          <li key={item} className="px-2 py-0.5 truncate" title={item}>
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function CatalogReport({ report }: CatalogReportProps) {
+  const { missingOnServer, notInConfig, unreachableWorkspaces } = report;
+  const count = missingOnServer.length + notInConfig.length + unreachableWorkspaces.length;
+  if (count === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs text-amber-700 hover:bg-amber-50"
+          title="Layer catalog differences"
+        >
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {count}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-3 space-y-3 text-xs">
+        <ReportSection
+          title="Workspaces not reachable"
+          description="Their configured layers are shown as configured."
+          items={unreachableWorkspaces}
+        />
+        <ReportSection
+          title="Missing on the server"
+          description="Configured layers GeoServer does not publish; left out of the tree."
+          items={missingOnServer}
+        />
+        <ReportSection
+          title="Not in the configuration"
+          description="Published layers placed by their name or workspace; add them to the catalog overrides to label them."
+          items={notInConfig}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default CatalogReport;
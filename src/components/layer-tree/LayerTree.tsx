@@ -8,6 +8,10 @@ import { Search, ChevronUp, ChevronDown, Grid3X3, List } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { UserLayersGroup } from '@/components/user-layers';
+import type { UserLayer } from '@/types/user-layers';
+import type { LayerCatalogReport } from '@/types/layer-catalog';
+import { CatalogReport } from './CatalogReport';
 
 interface LayerTreeProps {
   root: LayerGroup;
@@ -16,6 +20,20 @@ interface LayerTreeProps {
   onLayerSelect?: (layer: LayerInfo) => void;
   selectedLayerId?: string;
   visibleLayerIds: string[];
+  /** Animate a return-period parameter group; title is its path in the tree */
+  onAnimateGroup?: (group: LayerGroup, title: string) => void;
+  /** Layers added by the user, shown as "My layers" */
+  userLayers?: UserLayer[];
+  onUserLayersChange?: (layers: UserLayer[]) => void;
+  userLayersStorageFull?: boolean;
+  /** Open the style editor for a hazard raster */
+  onEditLayerStyle?: (layer: LayerInfo) => void;
+  /** Layers drawn with a custom style */
+  styledLayerIds?: string[];
+  /** Open the attribute table for a vector layer */
+  onOpenAttributeTable?: (layer: LayerInfo) => void;
+  /** Differences between the configured layers and the server's */
+  catalogReport?: LayerCatalogReport | null;
 }
 
 // Recursively update a node in the tree
@@ -97,6 +115,17 @@ function collectLayerIds(node: LayerGroup | LayerInfo): string[] {
   return [node.id];
 }
 
+// Find the groups leading to a node (excluding the root), ending with the node itself
+function findGroupPath(tree: LayerGroup, nodeId: string): LayerGroup[] | null {
+  for (const child of tree.children) {
+    if (!isLayerGroup(child)) continue;
+    if (child.id === nodeId) return [child];
+    const path = findGroupPath(child, nodeId);
+    if (path) return [child, ...path];
+  }
+  return null;
+}
+
 // Compute group visibility based on children (recursively check if any child/grandchild is visible)
 function computeGroupVisibility(node: LayerGroup | LayerInfo): boolean {
   if (!isLayerGroup(node)) {
@@ -113,6 +142,14 @@ export function LayerTree({
   onLayerSelect,
   selectedLayerId,
   visibleLayerIds: externalVisibleLayerIds,
+  onAnimateGroup,
+  userLayers,
+  onUserLayersChange,
+  userLayersStorageFull,
+  onEditLayerStyle,
+  styledLayerIds,
+  onOpenAttributeTable,
+  catalogReport,
 }: LayerTreeProps) {
   const [tree, setTree] = useState<LayerGroup>(initialRoot);
   const [searchQuery, setSearchQuery] = useState('');
@@ -217,6 +254,13 @@ export function LayerTree({
     onLayerSelect?.(layer);
   }, [onLayerSelect]);
 
+  // Look up the unfiltered group, since search may hide some of its layers
+  const handleAnimate = useCallback((group: LayerGroup) => {
+    const path = findGroupPath(tree, group.id);
+    if (!path || !onAnimateGroup) return;
+    onAnimateGroup(path[path.length - 1], path.map((g) => g.name).join(' / '));
+  }, [onAnimateGroup, tree]);
+
   const handleExpandAll = useCallback(() => {
     setTree((prev) => expandAll(prev));
   }, []);
@@ -277,9 +321,12 @@ export function LayerTree({
       <div className="p-3 border-b border-slate-200">
         <div className="flex items-center justify-between mb-2">
           <h2 className="text-sm font-semibold text-slate-800">Layer Tree</h2>
-          <span className="text-xs text-slate-500">
-            {visibleCount} visible
-          </span>
+          <div className="flex items-center gap-2">
+            {catalogReport && <CatalogReport report={catalogReport} />}
+            <span className="text-xs text-slate-500">
+              {visibleCount} visible
+            </span>
+          </div>
         </div>
         
         {/* Search */}
@@ -411,6 +458,10 @@ export function LayerTree({
                       onSelectLayer={handleLayerSelect}
                       onOpacityChange={handleOpacityChange}
                       selectedLayerId={selectedLayerId}
+                      onAnimate={onAnimateGroup ? handleAnimate : undefined}
+                      onEditStyle={onEditLayerStyle}
+                      styledLayerIds={styledLayerIds}
+                      onOpenTable={onOpenAttributeTable}
                     />
                   ))}
                 </div>
@@ -430,8 +481,19 @@ export function LayerTree({
                       onSelectLayer={handleLayerSelect}
                       onOpacityChange={handleOpacityChange}
                       selectedLayerId={selectedLayerId}
+                      onAnimate={onAnimateGroup ? handleAnimate : undefined}
+                      onEditStyle={onEditLayerStyle}
+                      styledLayerIds={styledLayerIds}
+                      onOpenTable={onOpenAttributeTable}
                     />
                   ))}
+                {userLayers && onUserLayersChange && (
+                  <UserLayersGroup
+                    layers={userLayers}
+                    onChange={onUserLayersChange}
+                    storageFull={userLayersStorageFull}
+                  />
+                )}
               </div>
             )}
           </div>
@@ -1,8 +1,10 @@
-import { ChevronRight, ChevronDown, Eye, EyeOff, Layers, Image, MapPin } from 'lucide-react';
+import { ChevronRight, ChevronDown, Eye, EyeOff, Layers, Image, MapPin, Palette, PlayCircle, Table2 } from 'lucide-react';
 import { useEffect, useRef } from 'react';
 import type { LayerGroup, LayerInfo } from '@/types/layers';
 import { isLayerGroup } from '@/types/layers';
+import { isReturnPeriodGroup, parseLayerName } from '@/config/layers';
 import { Slider } from '@/components/ui/slider';
+import { isAttributeTableLayer } from '@/lib/attribute-table';
 import { cn } from '@/lib/utils';
 
 interface LayerTreeItemProps {
@@ -13,6 +15,14 @@ interface LayerTreeItemProps {
   onOpacityChange: (id: string, opacity: number) => void;
   selectedLayerId?: string;
   onSelectLayer?: (layer: LayerInfo) => void;
+  /** Start the return-period animation for a parameter group */
+  onAnimate?: (group: LayerGroup) => void;
+  /** Open the style editor for a hazard raster */
+  onEditStyle?: (layer: LayerInfo) => void;
+  /** Layers drawn with a custom style */
+  styledLayerIds?: string[];
+  /** Open the attribute table for a vector layer */
+  onOpenTable?: (layer: LayerInfo) => void;
 }
 
 export function LayerTreeItem({
@@ -23,6 +33,10 @@ export function LayerTreeItem({
   onOpacityChange,
   selectedLayerId,
   onSelectLayer,
+  onAnimate,
+  onEditStyle,
+  styledLayerIds,
+  onOpenTable,
 }: LayerTreeItemProps) {
   const isGroup = isLayerGroup(node);
   const paddingLeft = level * 12 + 8;
@@ -138,6 +152,51 @@ export function LayerTreeItem({
         >
           {node.name}
         </span>
+
+        {/* Return-period animation for parameter groups */}
+        {isGroup && onAnimate && isReturnPeriodGroup(node) && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onAnimate(node);
+            }}
+            className="w-8 h-8 flex items-center justify-center rounded text-slate-400 hover:text-blue-600 hover:bg-blue-100/50 transition-colors touch-manipulation"
+            title="Animate return periods"
+          >
+            <PlayCircle className="w-4 h-4" />
+          </button>
+        )}
+
+        {/* Style editor for hazard rasters */}
+        {!isGroup && onEditStyle && parseLayerName(node.geoserverName ?? '') && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onEditStyle(node);
+            }}
+            className={cn(
+              'w-8 h-8 flex items-center justify-center rounded hover:text-blue-600 hover:bg-blue-100/50 transition-colors touch-manipulation',
+              styledLayerIds?.includes(node.id) ? 'text-blue-600' : 'text-slate-400'
+            )}
+            title={styledLayerIds?.includes(node.id) ? 'Edit custom style' : 'Edit style'}
+          >
+            <Palette className="w-4 h-4" />
+          </button>
+        )}
+
+        {/* Attribute table for vector layers */}
+        {!isGroup && onOpenTable && isAttributeTableLayer(node) && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpenTable(node);
+            }}
+            className="w-8 h-8 flex items-center justify-center rounded text-slate-400 hover:text-blue-600 hover:bg-blue-100/50 transition-colors touch-manipulation"
+            title="Open attribute table"
+          >
+            <Table2 className="w-4 h-4" />
+          </button>
+        )}
       </div>
 
       {/* Opacity slider for visible layers */}
@@ -176,6 +235,10 @@ export function LayerTreeItem({
               onOpacityChange={onOpacityChange}
               selectedLayerId={selectedLayerId}
               onSelectLayer={onSelectLayer}
+              onAnimate={onAnimate}
+              onEditStyle={onEditStyle}
+              styledLayerIds={styledLayerIds}
+              onOpenTable={onOpenTable}
             />
           ))}
         </div>
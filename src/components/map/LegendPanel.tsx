@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import type { LayerInfo } from '@/types/layers';
 import { X, ChevronDown, ChevronUp } from 'lucide-react';
-import { GEOSERVER_CONFIG } from '@/config/layers';
+import { getLegendUrl } from '@/config/layers';
 import { cn } from '@/lib/utils';
 
 interface LegendPanelProps {
@@ -14,8 +14,7 @@ export function LegendPanel({ layer, onClose }: LegendPanelProps) {
 
   if (!layer) return null;
 
-  const legendUrl = layer.legendUrl || 
-    `${GEOSERVER_CONFIG.baseUrl}/wms?REQUEST=GetLegendGraphic&VERSION=1.1.1&FORMAT=image/png&LAYER=${layer.workspace}:${layer.geoserverName}&WIDTH=20&HEIGHT=20`;
+  const legendUrl = getLegendUrl(layer);
 
   return (
     <div className="absolute bottom-4 left-4 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg z-10 max-w-xs">
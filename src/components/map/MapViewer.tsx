@@ -10,7 +10,9 @@ import proj4 from 'proj4';
 import { Compass, Copy } from 'lucide-react';
 import 'ol/ol.css';
 import type { LayerInfo, GeometryType } from '@/types/layers';
-import { GEOSERVER_CONFIG, MAP_CONFIG, baseMaps } from '@/config/layers';
+import type { MapViewState } from '@/types/permalink';
+import { MAP_CONFIG, baseMaps } from '@/config/layers';
+import { createWmsTileSource } from '@/lib/wms-source';
 
 // Register UTM Zone 42N projection (EPSG:32642)
 proj4.defs(
@@ -39,6 +41,9 @@ function getZIndexForGeometryType(geometryType?: GeometryType): number {
  */
 export interface MapViewerHandle {
   getMap: () => Map | null;
+  /** Move the view without animation (e.g. when restoring a permalink) */
+  setViewState: (view: MapViewState) => void;
+  setBaseMap: (baseMapId: string) => void;
 }
 
 interface MapViewerProps {
@@ -46,26 +51,67 @@ interface MapViewerProps {
   allLayers: LayerInfo[];
   layerOpacities: Record<string, number>;
   onMapClick?: (coordinate: number[], pixel: number[]) => void;
+  /** View to open at instead of fitting the project extent */
+  initialView?: MapViewState;
+  initialBaseMap?: string;
+  /** Called after each pan, zoom or rotation */
+  onViewStateChange?: (view: MapViewState) => void;
+  onBaseMapChange?: (baseMapId: string) => void;
 }
 
 export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
-  function MapViewer({ visibleLayerIds, allLayers, layerOpacities, onMapClick }, ref) {
+  function MapViewer({
+    visibleLayerIds,
+    allLayers,
+    layerOpacities,
+    onMapClick,
+    initialView,
+    initialBaseMap,
+    onViewStateChange,
+    onBaseMapChange,
+  }, ref) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstance = useRef<Map | null>(null);
   const layerRefs = useRef<globalThis.Map<string, TileLayer<TileWMS>> | null>(null);
   const layerOpacitiesRef = useRef<Record<string, number>>({});
   const baseLayerRefs = useRef<globalThis.Map<string, TileLayer<XYZ>> | null>(null);
   const onMapClickRef = useRef(onMapClick);
-  const [activeBaseMap, setActiveBaseMap] = useState(baseMaps.find(bm => bm.visible)?.id || 'esri-dark');
+  const onViewStateChangeRef = useRef(onViewStateChange);
+  const onBaseMapChangeRef = useRef(onBaseMapChange);
+  const initialViewRef = useRef(initialView);
+  const [activeBaseMap, setActiveBaseMap] = useState(
+    baseMaps.find(bm => bm.id === initialBaseMap)?.id || baseMaps.find(bm => bm.visible)?.id || 'esri-dark'
+  );
+  const initialBaseMapRef = useRef(activeBaseMap);
   const [rotation, setRotation] = useState(0);
   const [mousePosition, setMousePosition] = useState<{ utm: string; latlon: string } | null>(null);
   const [copied, setCopied] = useState(false);
   const initializedRef = useRef(false);
 
+  // Switch base map
+  const switchBaseMap = useCallback((baseMapId: string) => {
+    if (!baseMaps.some((bm) => bm.id === baseMapId)) return;
+    setActiveBaseMap(baseMapId);
+    if (baseLayerRefs.current) {
+      baseLayerRefs.current.forEach((layer, id) => {
+        layer.setVisible(id === baseMapId);
+      });
+    }
+    onBaseMapChangeRef.current?.(baseMapId);
+  }, []);
+
   // Expose map instance via imperative handle
   useImperativeHandle(ref, () => ({
     getMap: () => mapInstance.current,
-  }), []);
+    setViewState: (state: MapViewState) => {
+      const view = mapInstance.current?.getView();
+      if (!view) return;
+      view.setCenter(state.center);
+      view.setZoom(state.zoom);
+      view.setRotation(state.rotation);
+    },
+    setBaseMap: switchBaseMap,
+  }), [switchBaseMap]);
 
   // Initialize map (only once)
   useEffect(() => {
@@ -91,9 +137,11 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
       const layer = new TileLayer({
         source: new XYZ({
           url: bm.url,
-          attributions: bm.id === 'satellite' ? '© Google' : '© OpenStreetMap',
+          attributions: bm.attribution,
+          // Anonymous CORS keeps the map canvas exportable by the print composer
+          crossOrigin: 'anonymous',
         }),
-        visible: bm.visible,
+        visible: bm.id === initialBaseMapRef.current,
         zIndex: -1, // FIXED: Always below data layers
       });
       baseLayerRefs.current!.set(bm.id, layer);
@@ -108,9 +156,14 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
       controls: [],
     });
 
-    // Fit view to extent on initialization
+    // Open at the requested view, otherwise fit view to extent on initialization
     const view = map.getView();
-    if (view && MAP_CONFIG.extent) {
+    const startView = initialViewRef.current;
+    if (view && startView) {
+      view.setCenter(startView.center);
+      view.setZoom(startView.zoom);
+      view.setRotation(startView.rotation);
+    } else if (view && MAP_CONFIG.extent) {
       view.fit(MAP_CONFIG.extent, { padding: [50, 50, 50, 50] });
     }
 
@@ -137,6 +190,18 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
     updateRotation();
     view.on('change:rotation', updateRotation);
 
+    // Report the settled view (for permalinks)
+    map.on('moveend', () => {
+      const center = view.getCenter();
+      const zoom = view.getZoom();
+      if (!center || zoom === undefined) return;
+      onViewStateChangeRef.current?.({
+        center: [center[0], center[1]],
+        zoom,
+        rotation: view.getRotation(),
+      });
+    });
+
     return () => {
       map.setTarget(undefined);
       mapInstance.current = null;
@@ -149,13 +214,20 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
     onMapClickRef.current = onMapClick;
   }, [onMapClick]);
 
+  useEffect(() => {
+    onViewStateChangeRef.current = onViewStateChange;
+    onBaseMapChangeRef.current = onBaseMapChange;
+  }, [onViewStateChange, onBaseMapChange]);
+
   // Track previous visible layer IDs to detect add/remove operations
   const prevVisibleIdsRef = useRef<Set<string>>(new Set());
 
   // Manage layer add/remove when visibleLayerIds changes
-  // NOTE: Deliberately NOT including allLayers or layerOpacities in dependencies
-  // to prevent removing/re-adding layers when those change. Layer properties should
-  // be updated in-place, not by recreating layers.
+  // NOTE: Deliberately NOT including layerOpacities in dependencies to prevent
+  // removing/re-adding layers when it changes. Layer properties should be updated
+  // in-place, not by recreating layers. allLayers only matters for visible IDs
+  // that had no layer yet (impact layers restored from a permalink arrive after
+  // their IDs).
   useEffect(() => {
     if (!mapInstance.current || !layerRefs.current) return;
 
@@ -169,7 +241,11 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
       Array.from(currentLayerIds).some((id) => !previousLayerIds.has(id)) ||
       Array.from(previousLayerIds).some((id) => !currentLayerIds.has(id));
 
-    if (!layersChanged) return;
+    const layersArrived = visibleLayerIds.some(
+      (id) => !layerRefs.current!.has(id) && allLayers.some((l) => l.id === id)
+    );
+
+    if (!layersChanged && !layersArrived) return;
 
     prevVisibleIdsRef.current = currentLayerIds;
 
@@ -210,20 +286,7 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
         } else {
           // WMS layer (default)
           newLayer = new TileLayer({
-            source: new TileWMS({
-              url: `${GEOSERVER_CONFIG.baseUrl}/${layerInfo.workspace}/wms`,
-              params: {
-                LAYERS: `${layerInfo.workspace}:${layerInfo.geoserverName}`,
-                STYLES: layerInfo.style,
-                TILED: true,
-                VERSION: GEOSERVER_CONFIG.wmsVersion,
-                FORMAT: 'image/png',
-                TRANSPARENT: true,
-                ...(layerInfo.filter && { CQL_FILTER: layerInfo.filter }),
-              },
-              serverType: 'geoserver',
-              transition: 0,
-            }),
+            source: createWmsTileSource(layerInfo),
             opacity,
             zIndex,
             visible: true,
@@ -234,7 +297,7 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
         layerRefs.current!.set(layerId, newLayer);
       }
     });
-  }, [visibleLayerIds]);
+  }, [visibleLayerIds, allLayers]);
 
   // Update opacity for existing layers when layerOpacities changes
   useEffect(() => {
@@ -285,15 +348,21 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
     });
   }, [visibleLayerIds, allLayers]);
 
-  // Switch base map
-  const switchBaseMap = useCallback((baseMapId: string) => {
-    setActiveBaseMap(baseMapId);
-    if (baseLayerRefs.current) {
-      baseLayerRefs.current.forEach((layer, id) => {
-        layer.setVisible(id === baseMapId);
+  // Update SLD bodies (custom raster styles) for existing layers when allLayers change
+  useEffect(() => {
+    if (!mapInstance.current || !layerRefs.current) return;
+
+    visibleLayerIds.forEach((layerId) => {
+      const source = layerRefs.current!.get(layerId)?.getSource();
+      const layerInfo = allLayers.find((l) => l.id === layerId);
+      if (!source || !layerInfo || source.getParams().SLD_BODY === layerInfo.sldBody) return;
+
+      source.updateParams({
+        SLD_BODY: layerInfo.sldBody,
+        STYLES: layerInfo.sldBody ? '' : layerInfo.style,
       });
-    }
-  }, []);
+    });
+  }, [visibleLayerIds, allLayers]);
 
   // Track mouse position for coordinate display
   useEffect(() => {
@@ -371,7 +440,7 @@ export const MapViewer = forwardRef<MapViewerHandle, MapViewerProps>(
 
       {/* Attribution */}
       <div className="absolute bottom-1 left-8 text-[10px] text-slate-500 bg-white/70 px-1 rounded">
-        {activeBaseMap === 'satellite' ? '© Google' : '© OpenStreetMap'}
+        {baseMaps.find((bm) => bm.id === activeBaseMap)?.attribution}
       </div>
 
       {/* Base map switcher */}
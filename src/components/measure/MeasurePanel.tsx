@@ -0,0 +1,139 @@
+/**
+ * Measure Panel Component
+ *
+ * Map toolbar panel for distance, area and bearing measurements in
+ * EPSG:32642 metres. Shows the running value while drawing and the list of
+ * measurements kept on the map; any of them can be turned into an
+ * intervention draft.
+ */
+
+import type Map from 'ol/Map';
+import { Compass, Hexagon, Ruler, Shield, Trash2, X } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { formatLength, formatMeasurement } from '@/lib/measure';
+import { MEASURE_TOOLS } from '@/types/measure';
+import type { Measurement, MeasureTool } from '@/types/measure';
+import { useMeasurements } from './hooks/useMeasurements';
+
+const TOOL_ICONS: Record<MeasureTool, LucideIcon> = {
+  distance: Ruler,
+  area: Hexagon,
+  bearing: Compass,
+};
+
+const TOOL_HINTS: Record<MeasureTool, string> = {
+  distance: 'Click to add points, double-click to finish',
+  area: 'Click to add corners, double-click to close the area',
+  bearing: 'Click the start point, then the end point',
+};
+
+export interface MeasurePanelProps {
+  map: Map | null;
+  onClose: () => void;
+  /** Open the intervention dialog with the measurement's geometry */
+  onConvertToIntervention: (measurement: Measurement) => void;
+}
+
+export function MeasurePanel({ map, onClose, onConvertToIntervention }: MeasurePanelProps) {
+  const { tool, setTool, live, measurements, removeMeasurement, clearMeasurements } = useMeasurements(map);
+
+  return (
+    <div className="absolute top-16 right-4 w-72 max-h-[calc(100%-6rem)] overflow-y-auto bg-white/95 backdrop-blur-sm rounded-lg shadow-lg z-20 text-xs">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200">
+        <div className="flex items-center gap-2">
+          <Ruler className="w-4 h-4 text-violet-600" />
+          <span className="text-sm font-semibold text-slate-800">Measure</span>
+        </div>
+        <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Close measure">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Tools */}
+      <div className="px-3 py-2 border-b border-slate-100 space-y-2">
+        <div className="flex bg-slate-100 rounded-md p-0.5">
+          {MEASURE_TOOLS.map((t) => {
+            const Icon = TOOL_ICONS[t.value];
+            return (
+              <button
+                key={t.value}
+                onClick={() => setTool(tool === t.value ? null : t.value)}
+                className={cn(
+                  'flex-1 flex items-center justify-center gap-1 px-2 py-1 text-[11px] rounded transition-all',
+                  tool === t.value ? 'bg-white text-violet-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+                )}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {t.label}
+              </button>
+            );
+          })}
+        </div>
+        {tool ? (
+          <div className="space-y-0.5">
+            <p className="text-[10px] text-slate-500">{TOOL_HINTS[tool]}</p>
+            <p className="font-mono text-slate-800">
+              {live ? formatMeasurement(tool, live) : '–'}
+              {live && tool === 'area' && (
+                <span className="text-slate-500"> · perimeter {formatLength(live.length)}</span>
+              )}
+            </p>
+          </div>
+        ) : (
+          <p className="text-[10px] text-slate-500">Pick a tool to measure on the map (UTM 42N, grid north).</p>
+        )}
+      </div>
+
+      {/* Measurements */}
+      <div className="px-3 py-2">
+        {measurements.length === 0 ? (
+          <p className="text-slate-500 italic">No measurements yet.</p>
+        ) : (
+          <>
+            <ul className="space-y-1">
+              {measurements.map((m, i) => {
+                const Icon = TOOL_ICONS[m.tool];
+                return (
+                  <li key={m.id} className="flex items-center gap-2 rounded border border-slate-100 px-2 py-1">
+                    <Icon className="w-3.5 h-3.5 text-violet-600 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-mono text-slate-800 truncate">{formatMeasurement(m.tool, m)}</div>
+                      <div className="text-[10px] text-slate-500">
+                        #{i + 1}
+                        {m.tool === 'area' && ` · perimeter ${formatLength(m.length)}`}
+                        {m.tool === 'distance' && ` · ${m.coordinates.length} vertices`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onConvertToIntervention(m)}
+                      className="p-1 rounded hover:bg-slate-100 text-slate-500"
+                      title="Create intervention from this measurement"
+                    >
+                      <Shield className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => removeMeasurement(m.id)}
+                      className="p-1 rounded hover:bg-slate-100 text-slate-400"
+                      title="Remove measurement"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <Button size="sm" variant="ghost" className="mt-2 h-7 text-xs w-full" onClick={clearMeasurements}>
+              <Trash2 className="w-3.5 h-3.5 mr-1" />
+              Clear all
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MeasurePanel;
@@ -0,0 +1,176 @@
+/**
+ * Hook for the measurement tools
+ *
+ * Draws distance, area and bearing measurements with the shared drawing
+ * interactions on its own vector layer. The value of the sketch is updated
+ * as it is drawn; finished measurements stay on the map, labelled, until
+ * removed. Bearing lines finish after their second vertex.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type Map from 'ol/Map';
+import type Feature from 'ol/Feature';
+import type { EventsKey } from 'ol/events';
+import type LineString from 'ol/geom/LineString';
+import type Polygon from 'ol/geom/Polygon';
+import Point from 'ol/geom/Point';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { unByKey } from 'ol/Observable';
+import { Circle, Fill, Stroke, Style, Text } from 'ol/style';
+import type { FeatureLike } from 'ol/Feature';
+import { useDrawingInteractions } from '@/components/annotations/hooks/useDrawingInteractions';
+import { formatMeasurement, measureCoordinates } from '@/lib/measure';
+import type { Measurement, MeasureTool, MeasureValues } from '@/types/measure';
+
+const MEASURE_COLOR = '#7c3aed';
+
+const LINE_STYLES = [
+  new Style({ stroke: new Stroke({ color: '#ffffff', width: 5 }) }),
+  new Style({
+    stroke: new Stroke({ color: MEASURE_COLOR, width: 2 }),
+    fill: new Fill({ color: 'rgba(124, 58, 237, 0.12)' }),
+  }),
+];
+
+const VERTEX_STYLE = new Style({
+  image: new Circle({
+    radius: 3.5,
+    fill: new Fill({ color: '#ffffff' }),
+    stroke: new Stroke({ color: MEASURE_COLOR, width: 1.5 }),
+  }),
+});
+
+/** Measurements (and their vertices) with their value as a label */
+function measurementStyle(feature: FeatureLike): Style[] {
+  const geometry = feature.getGeometry();
+  const label = feature.get('measure_label') as string | undefined;
+  if (!geometry || !label) return LINE_STYLES;
+
+  const tool = feature.get('measure_tool') as MeasureTool;
+  const coordinates = tool === 'area'
+    ? (geometry as Polygon).getCoordinates()[0]
+    : (geometry as LineString).getCoordinates();
+  const anchor = tool === 'area'
+    ? (geometry as Polygon).getInteriorPoint().getCoordinates().slice(0, 2)
+    : coordinates[coordinates.length - 1];
+
+  return [
+    ...LINE_STYLES,
+    ...coordinates.map((c) => {
+      const style = VERTEX_STYLE.clone();
+      style.setGeometry(new Point(c));
+      return style;
+    }),
+    new Style({
+      geometry: new Point(anchor),
+      text: new Text({
+        text: label,
+        font: '600 12px sans-serif',
+        fill: new Fill({ color: '#1e1b4b' }),
+        stroke: new Stroke({ color: '#ffffff', width: 3 }),
+        offsetY: tool === 'area' ? 0 : -12,
+      }),
+    }),
+  ];
+}
+
+/** Vertices of a drawn measurement geometry (the ring for polygons) */
+function geometryCoordinates(tool: MeasureTool, feature: Feature): number[][] {
+  const geometry = feature.getGeometry();
+  if (!geometry) return [];
+  return tool === 'area'
+    ? (geometry as Polygon).getCoordinates()[0] ?? []
+    : (geometry as LineString).getCoordinates();
+}
+
+interface UseMeasurementsReturn {
+  tool: MeasureTool | null;
+  setTool: (tool: MeasureTool | null) => void;
+  /** Values of the measurement being drawn */
+  live: MeasureValues | null;
+  measurements: Measurement[];
+  removeMeasurement: (id: string) => void;
+  clearMeasurements: () => void;
+}
+
+export function useMeasurements(map: Map | null): UseMeasurementsReturn {
+  const [tool, setToolState] = useState<MeasureTool | null>(null);
+  const [live, setLive] = useState<MeasureValues | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [source] = useState(() => new VectorSource());
+  const sketchKeyRef = useRef<EventsKey | null>(null);
+  const nextIdRef = useRef(1);
+
+  const stopSketch = useCallback(() => {
+    if (sketchKeyRef.current) unByKey(sketchKeyRef.current);
+    sketchKeyRef.current = null;
+    setLive(null);
+  }, []);
+
+  const { setActiveTool } = useDrawingInteractions({
+    map,
+    vectorSource: source,
+    maxPoints: tool === 'bearing' ? 2 : undefined,
+    onDrawStart: (feature: Feature) => {
+      if (!tool) return;
+      stopSketch();
+      const geometry = feature.getGeometry();
+      if (!geometry) return;
+      sketchKeyRef.current = geometry.on('change', () => {
+        setLive(measureCoordinates(tool, geometryCoordinates(tool, feature)));
+      });
+    },
+    onDrawEnd: (feature: Feature) => {
+      stopSketch();
+      if (!tool) return;
+      const coordinates = geometryCoordinates(tool, feature);
+      const values = measureCoordinates(tool, coordinates);
+      const id = `measure-${nextIdRef.current++}`;
+      feature.setId(id);
+      feature.setProperties({
+        measure_tool: tool,
+        measure_label: formatMeasurement(tool, values),
+      });
+      setMeasurements((prev) => [...prev, { id, tool, coordinates, ...values }]);
+    },
+  });
+
+  // Measurement layer
+  useEffect(() => {
+    if (!map) return;
+    const layer = new VectorLayer({ source, style: measurementStyle, zIndex: 1000 });
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, source]);
+
+  const setTool = useCallback((next: MeasureTool | null) => {
+    stopSketch();
+    setToolState(next);
+    setActiveTool(next === null ? 'none' : next === 'area' ? 'polygon' : 'line');
+  }, [stopSketch, setActiveTool]);
+
+  const removeMeasurement = useCallback((id: string) => {
+    const feature = source.getFeatureById(id);
+    if (feature) source.removeFeature(feature);
+    setMeasurements((prev) => prev.filter((m) => m.id !== id));
+  }, [source]);
+
+  const clearMeasurements = useCallback(() => {
+    source.clear();
+    setMeasurements([]);
+  }, [source]);
+
+  return {
+    tool,
+    setTool,
+    live,
+    measurements,
+    removeMeasurement,
+    clearMeasurements,
+  };
+}
+
+export default useMeasurements;
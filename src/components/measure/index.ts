@@ -0,0 +1,6 @@
+/**
+ * Measure Module Barrel Export
+ */
+
+export { MeasurePanel } from './MeasurePanel';
+export { useMeasurements } from './hooks/useMeasurements';
@@ -0,0 +1,382 @@
+/**
+ * Offline Menu Component
+ *
+ * Header button showing the connection state and the number of changes
+ * waiting to sync. Its dialog downloads the app, data files and hazard
+ * tiles for an area, zoom range and scenario set, shows the cache size,
+ * and lists the queued changes and any the server refused, which can be
+ * retried or exported as GeoJSON.
+ */
+
+import { useMemo, useState } from 'react';
+import type Map from 'ol/Map';
+import { AlertTriangle, Cloud, CloudOff, Download, FileDown, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { MAP_CONFIG } from '@/config/layers';
+import { downloadBlob } from '@/lib/image-export';
+import { countOfflineTiles, isOfflineSupported, listOfflineTileUrls, selectOfflineLayers } from '@/lib/offline-cache';
+import { syncConflictsToGeoJson } from '@/lib/offline-queue';
+import { climateScenarios, maintenanceLevels, parameters, returnPeriods } from '@/types/layers';
+import type { LayerInfo } from '@/types/layers';
+import { MAX_PRECACHE_TILES } from '@/types/offline';
+import type { OfflineAreaSelection, OfflineOperation, OfflineSyncConflict } from '@/types/offline';
+import { useOfflineCache } from './hooks/useOfflineCache';
+
+/** Deepest zoom offered; tile counts grow fourfold per level */
+const MAX_OFFLINE_ZOOM = 18;
+
+const DEFAULT_SCENARIOS: Pick<OfflineAreaSelection, 'climates' | 'maintenances' | 'returnPeriods' | 'parameters'> = {
+  climates: ['present'],
+  maintenances: ['breaches'],
+  returnPeriods: ['100'],
+  parameters: ['maxdepth'],
+};
+
+const SCENARIO_OPTIONS: { key: keyof typeof DEFAULT_SCENARIOS; label: string; options: { value: string; label: string }[] }[] = [
+  { key: 'climates', label: 'Climate', options: climateScenarios },
+  { key: 'maintenances', label: 'Maintenance', options: maintenanceLevels },
+  { key: 'returnPeriods', label: 'Return period', options: returnPeriods },
+  { key: 'parameters', label: 'Parameter', options: parameters },
+];
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1048576).toFixed(bytes < 10485760 ? 1 : 0)} MB`;
+}
+
+/** Area and zoom range of the map's current view */
+function currentArea(map: Map | null): Pick<OfflineAreaSelection, 'extent' | 'minZoom' | 'maxZoom'> {
+  const view = map?.getView();
+  const size = map?.getSize();
+  const zoom = Math.round(view?.getZoom() ?? MAP_CONFIG.zoom);
+  return {
+    extent: view && size ? view.calculateExtent(size) : MAP_CONFIG.extent,
+    minZoom: zoom,
+    maxZoom: Math.min(zoom + 2, MAX_OFFLINE_ZOOM),
+  };
+}
+
+export interface OfflineMenuProps {
+  map: Map | null;
+  /** Layers the scenario set is chosen from */
+  layers: LayerInfo[];
+  isOnline: boolean;
+  pendingChanges: OfflineOperation[];
+  syncConflicts: OfflineSyncConflict[];
+  isSyncing: boolean;
+  onSync: () => void;
+  onRetryConflict: (id: string) => void;
+  onDismissConflicts: () => void;
+}
+
+export function OfflineMenu({
+  map,
+  layers,
+  isOnline,
+  pendingChanges,
+  syncConflicts,
+  isSyncing,
+  onSync,
+  onRetryConflict,
+  onDismissConflicts,
+}: OfflineMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [selection, setSelection] = useState<OfflineAreaSelection>(() => ({ ...currentArea(null), ...DEFAULT_SCENARIOS }));
+  const { stats, progress, result, refreshStats, download, cancel, clearTiles } = useOfflineCache();
+
+  const supported = isOfflineSupported();
+  const view = map?.getView();
+  const selectedLayers = useMemo(() => selectOfflineLayers(layers, selection), [layers, selection]);
+  const tileCount = useMemo(
+    () => (view ? countOfflineTiles(view, selectedLayers, selection) : 0),
+    [view, selectedLayers, selection]
+  );
+  const zoomOptions = useMemo(() => {
+    const min = Math.ceil(view?.getMinZoom() ?? 0);
+    const max = Math.min(Math.floor(view?.getMaxZoom() ?? MAX_OFFLINE_ZOOM), MAX_OFFLINE_ZOOM);
+    return Array.from({ length: Math.max(max - min + 1, 1) }, (_, i) => min + i);
+  }, [view]);
+
+  const [minX, minY, maxX, maxY] = selection.extent;
+  const areaKm = `${((maxX - minX) / 1000).toFixed(0)} × ${((maxY - minY) / 1000).toFixed(0)} km`;
+  const tooMany = tileCount > MAX_PRECACHE_TILES;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      // Start from the area being looked at, unless a download is under way
+      if (!progress) setSelection((prev) => ({ ...prev, ...currentArea(map) }));
+      refreshStats();
+    }
+  };
+
+  const handleExportConflicts = () => {
+    downloadBlob(
+      new Blob([syncConflictsToGeoJson(syncConflicts)], { type: 'application/geo+json' }),
+      `unsynced_interventions_${new Date().toISOString().slice(0, 10)}.geojson`
+    );
+  };
+
+  const handleDownload = () => {
+    if (!view || !map) return;
+    download(listOfflineTileUrls(view, selectedLayers, selection, map.getPixelRatio()));
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => handleOpenChange(true)}
+        className="relative h-10 w-10 sm:h-9 sm:w-9"
+        title={isOnline ? 'Offline field mode' : 'Offline: changes are kept on this device'}
+      >
+        {isOnline ? <Cloud className="w-5 h-5 text-slate-600" /> : <CloudOff className="w-5 h-5 text-amber-600" />}
+        {pendingChanges.length + syncConflicts.length > 0 && (
+          <span
+            className={`absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full text-[10px] leading-4 text-white ${
+              syncConflicts.length > 0 ? 'bg-red-600' : 'bg-amber-500'
+            }`}
+          >
+            {pendingChanges.length + syncConflicts.length}
+          </span>
+        )}
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Offline field mode</DialogTitle>
+            <DialogDescription>
+              Store the app, data and hazard maps for an area before going out of coverage. Interventions drawn
+              offline are kept on this device and sent when the connection returns.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 text-sm">
+            {/* Connection and sync */}
+            <section className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className={`flex items-center gap-1.5 text-xs font-medium ${isOnline ? 'text-emerald-700' : 'text-amber-700'}`}>
+                  <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-emerald-500' : 'bg-amber-500'}`} />
+                  {isOnline ? 'Online' : 'Offline'}
+                  <span className="font-normal text-slate-500">
+                    · {pendingChanges.length === 0 ? 'no changes waiting' : `${pendingChanges.length} change${pendingChanges.length === 1 ? '' : 's'} waiting to sync`}
+                  </span>
+                </p>
+                {pendingChanges.length > 0 && (
+                  <Button size="sm" variant="outline" className="h-7 text-xs" disabled={!isOnline || isSyncing} onClick={onSync}>
+                    <RefreshCw className={`w-3.5 h-3.5 ${isSyncing ? 'animate-spin' : ''}`} />
+                    Sync now
+                  </Button>
+                )}
+              </div>
+              {pendingChanges.length > 0 && (
+                <ul className="max-h-24 overflow-y-auto rounded border border-slate-200 divide-y divide-slate-100 text-xs">
+                  {pendingChanges.map((op) => (
+                    <li key={op.kind === 'create' ? `c${op.tempId}` : `u${op.id}`} className="px-2 py-1 flex justify-between gap-2">
+                      <span className="truncate">{op.kind === 'create' ? op.annotation.title : op.title}</span>
+                      <span className="text-slate-500 shrink-0">{op.kind === 'create' ? 'New' : 'Edited'}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {syncConflicts.length > 0 && (
+                <div className="rounded border border-amber-200 bg-amber-50 p-2 space-y-1.5 text-xs">
+                  <div className="flex items-center justify-between gap-1">
+                    <p className="flex items-center gap-1 font-medium text-amber-800 mr-auto">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      Not synced ({syncConflicts.length})
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 text-xs"
+                      onClick={handleExportConflicts}
+                      title="Download the refused changes as GeoJSON"
+                    >
+                      <FileDown className="w-3.5 h-3.5" />
+                      Export
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 text-xs"
+                      onClick={onDismissConflicts}
+                      title="Discard the refused changes; export them first to keep them"
+                    >
+                      Dismiss
+                    </Button>
+                  </div>
+                  <ul className="space-y-1 max-h-32 overflow-y-auto">
+                    {syncConflicts.map((conflict) => (
+                      <li key={conflict.id} className="flex items-start gap-2">
+                        <span className="flex-1 min-w-0">
+                          <span className="font-medium">{conflict.title}</span>{' '}
+                          <span className="text-slate-500">({conflict.kind === 'create' ? 'new' : 'edit'})</span>: {conflict.reason}
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2 text-xs shrink-0"
+                          disabled={!isOnline || isSyncing}
+                          onClick={() => onRetryConflict(conflict.id)}
+                          title={conflict.kind === 'update' ? 'Send again, replacing the newer version on the server' : 'Send again'}
+                        >
+                          Retry
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </section>
+
+            {!supported ? (
+              <p className="text-xs text-slate-500">This browser cannot store the app for offline use.</p>
+            ) : (
+              <>
+                {/* Download */}
+                <section className="space-y-2 border-t border-slate-200 pt-3">
+                  <div className="flex items-center gap-3 text-xs">
+                    <span className="w-24 text-slate-600">Area</span>
+                    <span className="text-slate-800">Map view, {areaKm}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 text-xs ml-auto"
+                      disabled={!!progress}
+                      onClick={() => setSelection((prev) => ({ ...prev, ...currentArea(map) }))}
+                    >
+                      Use current view
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="w-24 text-slate-600">Zoom levels</span>
+                    {(['minZoom', 'maxZoom'] as const).map((key, i) => (
+                      <span key={key} className="flex items-center gap-2">
+                        {i > 0 && <span className="text-slate-500">to</span>}
+                        <Select
+                          value={String(selection[key])}
+                          disabled={!!progress}
+                          onValueChange={(value) => {
+                            const zoom = Number(value);
+                            setSelection((prev) => key === 'minZoom'
+                              ? { ...prev, minZoom: zoom, maxZoom: Math.max(prev.maxZoom, zoom) }
+                              : { ...prev, maxZoom: zoom, minZoom: Math.min(prev.minZoom, zoom) });
+                          }}
+                        >
+                          <SelectTrigger className="h-7 w-16 text-xs" aria-label={key === 'minZoom' ? 'From zoom level' : 'To zoom level'}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {zoomOptions.map((zoom) => (
+                              <SelectItem key={zoom} value={String(zoom)} className="text-xs">
+                                {zoom}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </span>
+                    ))}
+                  </div>
+                  {SCENARIO_OPTIONS.map(({ key, label, options }) => (
+                    <div key={key} className="flex items-start gap-3 text-xs">
+                      <span className="w-24 pt-1.5 text-slate-600 shrink-0">{label}</span>
+                      <ToggleGroup
+                        type="multiple"
+                        value={selection[key]}
+                        disabled={!!progress}
+                        onValueChange={(values: string[]) => setSelection((prev) => ({ ...prev, [key]: values }))}
+                        className="justify-start flex-wrap"
+                      >
+                        {options.map((option) => (
+                          <ToggleGroupItem
+                            key={option.value}
+                            value={option.value}
+                            className="text-xs px-2 py-1 h-7 data-[state=on]:bg-blue-600 data-[state=on]:text-white"
+                          >
+                            {option.label}
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                    </div>
+                  ))}
+
+                  <p className={`text-xs ${tooMany ? 'text-red-600' : 'text-slate-500'}`}>
+                    {selectedLayers.length} layer{selectedLayers.length === 1 ? '' : 's'}, {tileCount.toLocaleString()} tiles
+                    {tooMany && ` — more than ${MAX_PRECACHE_TILES.toLocaleString()}; choose a smaller area, fewer zoom levels or fewer scenarios`}
+                  </p>
+
+                  {progress ? (
+                    <div className="flex items-center gap-2">
+                      <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="flex-1" />
+                      <span className="text-xs text-slate-500 tabular-nums">
+                        {progress.done}/{progress.total}
+                      </span>
+                      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={cancel}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      size="sm"
+                      className="h-8 text-xs"
+                      disabled={!isOnline || !map || selectedLayers.length === 0 || tooMany}
+                      onClick={handleDownload}
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                      Download for offline use
+                    </Button>
+                  )}
+                  {result && <p className={`text-xs ${result.error ? 'text-red-600' : 'text-emerald-700'}`}>{result.message}</p>}
+                </section>
+
+                {/* Cache size */}
+                <section className="flex items-center justify-between gap-2 border-t border-slate-200 pt-3 text-xs text-slate-600">
+                  <p>
+                    {stats ? (
+                      <>
+                        {stats.usage !== null && (
+                          <>
+                            {formatMegabytes(stats.usage)} used
+                            {stats.quota !== null && ` of ${formatMegabytes(stats.quota)} available`} ·{' '}
+                          </>
+                        )}
+                        {stats.tileCount.toLocaleString()} tiles, {stats.dataCount} data files
+                      </>
+                    ) : (
+                      'Reading cache size…'
+                    )}
+                    <span className="block text-slate-400">Base maps need a connection.</span>
+                  </p>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs text-red-600 hover:text-red-700"
+                    disabled={!!progress || !stats?.tileCount}
+                    onClick={() => clearTiles()}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    Clear tiles
+                  </Button>
+                </section>
+              </>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+export default OfflineMenu;
@@ -0,0 +1,79 @@
+/**
+ * useOfflineCache Hook
+ *
+ * Cache size, the tile download with its progress and cancellation, and
+ * clearing the stored tiles. The download keeps running while the dialog
+ * is closed.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  clearOfflineTiles,
+  getOfflineCacheStats,
+  isOfflineSupported,
+  precacheAppData,
+  precacheTiles,
+} from '@/lib/offline-cache';
+import type { OfflineCacheStats, PrecacheProgress } from '@/types/offline';
+
+export interface OfflineDownloadResult {
+  message: string;
+  error: boolean;
+}
+
+export function useOfflineCache() {
+  const [stats, setStats] = useState<OfflineCacheStats | null>(null);
+  const [progress, setProgress] = useState<PrecacheProgress | null>(null);
+  const [result, setResult] = useState<OfflineDownloadResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refreshStats = useCallback(async () => {
+    if (!isOfflineSupported()) return;
+    try {
+      setStats(await getOfflineCacheStats());
+    } catch (err) {
+      console.warn('Could not read the offline cache size:', err);
+    }
+  }, []);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const download = useCallback(async (tileUrls: string[]) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setProgress({ done: 0, total: tileUrls.length, failed: 0 });
+
+    try {
+      const failedData = await precacheAppData();
+      const tiles = await precacheTiles(tileUrls, controller.signal, setProgress);
+      const failed = failedData.length + tiles.failed;
+      setResult(
+        controller.signal.aborted
+          ? { message: 'Download cancelled; the tiles already stored are kept.', error: false }
+          : failed > 0
+            ? { message: `${failed} file${failed === 1 ? '' : 's'} could not be stored (${tiles.failed} of them tiles); download again to fill the gaps.`, error: true }
+            : { message: `Ready for offline use: app, data files and ${tiles.total} tiles stored.`, error: false }
+      );
+    } catch (err) {
+      setResult({ message: err instanceof Error ? err.message : 'Download failed', error: true });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+      refreshStats();
+    }
+  }, [refreshStats]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const clearTiles = useCallback(async () => {
+    await clearOfflineTiles();
+    setResult(null);
+    await refreshStats();
+  }, [refreshStats]);
+
+  return { stats, progress, result, refreshStats, download, cancel, clearTiles };
+}
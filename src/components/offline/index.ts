@@ -0,0 +1,7 @@
+/**
+ * Offline Module Barrel Export
+ */
+
+export { OfflineMenu } from './OfflineMenu';
+export type { OfflineMenuProps } from './OfflineMenu';
+export { useOfflineCache } from './hooks/useOfflineCache';
@@ -0,0 +1,265 @@
+/**
+ * Print Composer Component
+ *
+ * Dialog for exporting the current map as a PDF or PNG figure at a chosen
+ * paper size, resolution and scale, with title, legend, scale bar, north
+ * arrow, UTM grid ticks and source credits.
+ */
+
+import { useState } from 'react';
+import type Map from 'ol/Map';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { baseMaps, getLegendUrl } from '@/config/layers';
+import { canvasToBlob, createImagePdf, downloadBlob, setPngDpi } from '@/lib/image-export';
+import { composePrintPage, getPageSizeMm } from '@/lib/map-print';
+import type { LayerInfo } from '@/types/layers';
+import {
+  DEFAULT_PRINT_OPTIONS,
+  PAPER_SIZES,
+  PRINT_DPI_OPTIONS,
+  PRINT_SCALES,
+} from '@/types/print';
+import type { PaperOrientation, PaperSize, PrintContent, PrintFormat, PrintOptions } from '@/types/print';
+
+const PT_PER_MM = 72 / 25.4;
+
+/** Browsers refuse canvases much beyond ~268 megapixels; stay well below */
+const MAX_PAGE_PIXELS = 120_000_000;
+
+export interface PrintComposerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Map to print */
+  map: Map | null;
+  /** Visible data layers, in legend order */
+  layers: LayerInfo[];
+  /** Active base map id, for the credits line */
+  baseMapId: string;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'map';
+}
+
+export function PrintComposer({ open, onOpenChange, map, layers, baseMapId }: PrintComposerProps) {
+  const [options, setOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof PrintOptions>(key: K, value: PrintOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+    setError(null);
+  };
+
+  const page = getPageSizeMm(options);
+  const pixelWidth = Math.round((page.width / 25.4) * options.dpi);
+  const pixelHeight = Math.round((page.height / 25.4) * options.dpi);
+  const tooLarge = pixelWidth * pixelHeight > MAX_PAGE_PIXELS;
+
+  const handleExport = async () => {
+    if (!map) return;
+    setIsExporting(true);
+    setError(null);
+
+    const baseMap = baseMaps.find((bm) => bm.id === baseMapId);
+    const content: PrintContent = {
+      legends: layers
+        .filter((layer) => layer.type === 'wms')
+        .map((layer) => ({ name: layer.name, url: `${getLegendUrl(layer)}&LEGEND_OPTIONS=dpi:${options.dpi}` })),
+      credits: [
+        'Flood hazard and risk layers: SFERP flood risk assessment (GeoServer)',
+        `Base map: ${baseMap ? `${baseMap.name} ${baseMap.attribution}` : 'none'}`,
+        'Projection: WGS 84 / UTM zone 42N (EPSG:32642)',
+      ],
+      date: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+    };
+
+    try {
+      const canvas = await composePrintPage(map, options, content);
+      const filename = `${slugify(options.title)}-${new Date().toISOString().slice(0, 10)}`;
+
+      if (options.format === 'pdf') {
+        const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+        const pdf = createImagePdf(jpeg, canvas.width, canvas.height, page.width * PT_PER_MM, page.height * PT_PER_MM, options.title);
+        downloadBlob(pdf, `${filename}.pdf`);
+      } else {
+        const png = new Uint8Array(await (await canvasToBlob(canvas, 'image/png')).arrayBuffer());
+        downloadBlob(new Blob([setPngDpi(png, options.dpi) as BlobPart], { type: 'image/png' }), `${filename}.png`);
+      }
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error exporting map:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Print / Export Map</DialogTitle>
+          <DialogDescription>
+            Exports the current map view as a figure with legend, scale bar, north arrow and grid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3 py-2">
+          <div className="col-span-2 space-y-1.5">
+            <Label htmlFor="print-title">Title</Label>
+            <Input
+              id="print-title"
+              value={options.title}
+              onChange={(e) => update('title', e.target.value)}
+              maxLength={120}
+              disabled={isExporting}
+            />
+          </div>
+          <div className="col-span-2 space-y-1.5">
+            <Label htmlFor="print-subtitle">Subtitle</Label>
+            <Input
+              id="print-subtitle"
+              value={options.subtitle}
+              onChange={(e) => update('subtitle', e.target.value)}
+              placeholder="e.g. 100-year flood depth, current climate"
+              maxLength={160}
+              disabled={isExporting}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Paper</Label>
+            <Select value={options.paper} onValueChange={(v) => update('paper', v as PaperSize)} disabled={isExporting}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map((size) => (
+                  <SelectItem key={size} value={size}>{PAPER_SIZES[size].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Orientation</Label>
+            <Select value={options.orientation} onValueChange={(v) => update('orientation', v as PaperOrientation)} disabled={isExporting}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="landscape">Landscape</SelectItem>
+                <SelectItem value="portrait">Portrait</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Resolution</Label>
+            <Select value={String(options.dpi)} onValueChange={(v) => update('dpi', Number(v))} disabled={isExporting}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRINT_DPI_OPTIONS.map((dpi) => (
+                  <SelectItem key={dpi} value={String(dpi)}>{dpi} dpi</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Scale</Label>
+            <Select
+              value={options.scale === null ? 'fit' : String(options.scale)}
+              onValueChange={(v) => update('scale', v === 'fit' ? null : Number(v))}
+              disabled={isExporting}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fit">Current view</SelectItem>
+                {PRINT_SCALES.map((scale) => (
+                  <SelectItem key={scale} value={String(scale)}>1:{scale.toLocaleString('en-US')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Format</Label>
+            <Select value={options.format} onValueChange={(v) => update('format', v as PrintFormat)} disabled={isExporting}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pdf">PDF</SelectItem>
+                <SelectItem value="png">PNG</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col justify-end gap-2 pb-1">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <Checkbox
+                checked={options.showLegend}
+                onCheckedChange={(checked) => update('showLegend', checked === true)}
+                disabled={isExporting}
+              />
+              Legend
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <Checkbox
+                checked={options.showGrid}
+                onCheckedChange={(checked) => update('showGrid', checked === true)}
+                disabled={isExporting}
+              />
+              UTM grid ticks
+            </label>
+          </div>
+
+          <p className="col-span-2 text-xs text-slate-500">
+            {pixelWidth.toLocaleString('en-US')} × {pixelHeight.toLocaleString('en-US')} px
+            {layers.length === 0 && ' · no data layers visible'}
+          </p>
+          {tooLarge && (
+            <p className="col-span-2 text-sm text-amber-700">
+              This page is too large to render in the browser. Choose a lower resolution or smaller paper.
+            </p>
+          )}
+          {error && <p className="col-span-2 text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || !map || tooLarge || !options.title.trim()}>
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            {isExporting ? 'Rendering…' : `Export ${options.format.toUpperCase()}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PrintComposer;
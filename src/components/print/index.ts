@@ -0,0 +1,5 @@
+/**
+ * Print Module Barrel Export
+ */
+
+export { PrintComposer } from './PrintComposer';
@@ -0,0 +1,300 @@
+/**
+ * Raster Probe Panel Component
+ *
+ * Map panel for the hazard probe: samples depth, velocity, duration and V×h
+ * at a clicked (or hovered) point across the selected climate and
+ * maintenance scenarios, and shows each parameter as a scenario × return
+ * period table with a sparkline per scenario.
+ */
+
+import { forwardRef, useImperativeHandle, useState } from 'react';
+import type Map from 'ol/Map';
+import { Crosshair, Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { climateScenarios, maintenanceLevels, parameters, returnPeriods } from '@/types/layers';
+import type { ProbeLayer, ProbeSelection, ProbeValues } from '@/types/probe';
+import { useRasterProbe } from './hooks/useRasterProbe';
+
+const SHORT_MAINTENANCE: Record<string, string> = {
+  breaches: 'Breaches',
+  redcapacity: 'Red. Cap.',
+  perfect: 'Perfect',
+};
+
+const DECIMALS: Record<string, number> = {
+  maxdepth: 2,
+  maxvelocity: 2,
+  duration: 1,
+  vh: 2,
+};
+
+type SelectionKey = keyof ProbeSelection;
+
+/**
+ * Imperative handle for RasterProbePanel
+ * Lets the parent probe a point it got elsewhere (e.g. a typed coordinate)
+ */
+export interface RasterProbePanelHandle {
+  probeAt: (coordinate: number[]) => void;
+}
+
+export interface RasterProbePanelProps {
+  map: Map | null;
+  /** Panel visible and probing map clicks */
+  active: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Value versus return period; gaps where the raster has no data
+ */
+function Sparkline({ values, max }: { values: (number | null)[]; max: number }) {
+  const width = 64;
+  const height = 18;
+  const step = width / Math.max(1, values.length - 1);
+  const y = (v: number) => height - 1 - (max > 0 ? (v / max) * (height - 2) : 0);
+
+  const segments: string[] = [];
+  let current: string[] = [];
+  values.forEach((v, i) => {
+    if (v === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${(i * step).toFixed(1)},${y(v).toFixed(1)}`);
+    }
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      {segments.map((points, i) =>
+        points.includes(' ') ? (
+          <polyline key={i} points={points} fill="none" stroke="#2563eb" strokeWidth={1.5} />
+        ) : (
+          <circle key={i} cx={points.split(',')[0]} cy={points.split(',')[1]} r={1.5} fill="#2563eb" />
+        )
+      )}
+    </svg>
+  );
+}
+
+function ToggleChips({
+  options,
+  selected,
+  onToggle,
+}: {
+  options: { value: string; label: string }[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onToggle(option.value)}
+          className={cn(
+            'px-2 py-0.5 text-[11px] rounded-full border transition-colors',
+            selected.includes(option.value)
+              ? 'bg-blue-600 border-blue-600 text-white'
+              : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** Values for one parameter, keyed by scenario row, in return-period order */
+function scenarioRows(layers: ProbeLayer[], values: ProbeValues | null, parameter: string) {
+  const rows: { key: string; label: string; values: (number | null)[] }[] = [];
+  for (const layer of layers) {
+    if (layer.parameter !== parameter) continue;
+    const key = `${layer.climate}_${layer.maintenance}`;
+    let row = rows.find((r) => r.key === key);
+    if (!row) {
+      const climate = climateScenarios.find((c) => c.value === layer.climate)?.label.replace(' Climate', '') ?? layer.climate;
+      row = { key, label: `${climate} · ${SHORT_MAINTENANCE[layer.maintenance] ?? layer.maintenance}`, values: [] };
+      rows.push(row);
+    }
+    row.values.push(values?.[layer.layerName] ?? null);
+  }
+  return rows;
+}
+
+export const RasterProbePanel = forwardRef<RasterProbePanelHandle, RasterProbePanelProps>(
+  function RasterProbePanel({ map, active, onClose }, ref) {
+  const {
+    mode,
+    setMode,
+    selection,
+    setSelection,
+    layers,
+    coordinate,
+    values,
+    isLoading,
+    progress,
+    error,
+    probeAt,
+  } = useRasterProbe(map, active);
+  const [activeParameter, setActiveParameter] = useState('maxdepth');
+
+  useImperativeHandle(ref, () => ({ probeAt }), [probeAt]);
+
+  if (!active) return null;
+
+  // Keep at least one option selected in each group
+  const toggle = (key: SelectionKey, value: string) => {
+    const current = selection[key];
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    if (next.length === 0) return;
+    setSelection({ ...selection, [key]: next });
+  };
+
+  const shownParameter = selection.parameters.includes(activeParameter) ? activeParameter : selection.parameters[0];
+  const parameterInfo = parameters.find((p) => p.value === shownParameter);
+  const decimals = DECIMALS[shownParameter] ?? 2;
+  const rows = scenarioRows(layers, values, shownParameter);
+  const allValues = rows.flatMap((r) => r.values).filter((v): v is number => v !== null);
+  const max = allValues.length > 0 ? Math.max(...allValues) : 0;
+  const maxRow = rows.find((r) => r.values.includes(max));
+  const maxRp = maxRow ? returnPeriods[maxRow.values.indexOf(max)] : undefined;
+  const scenarioCount = selection.climates.length * selection.maintenance.length * returnPeriods.length;
+
+  return (
+    <div className="absolute top-20 right-4 w-[27rem] max-w-[calc(100%-2rem)] max-h-[calc(100%-7rem)] overflow-y-auto bg-white/95 backdrop-blur-sm rounded-lg shadow-lg z-20 text-xs">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200">
+        <div className="flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-blue-600" />
+          <span className="text-sm font-semibold text-slate-800">Hazard Probe</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 rounded-md p-0.5">
+            {(['click', 'hover'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={cn(
+                  'px-2 py-0.5 text-[11px] rounded capitalize transition-all',
+                  mode === m ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+                )}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Close probe">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Subset */}
+      <div className="px-3 py-2 space-y-1.5 border-b border-slate-100">
+        <ToggleChips
+          options={climateScenarios}
+          selected={selection.climates}
+          onToggle={(v) => toggle('climates', v)}
+        />
+        <ToggleChips
+          options={maintenanceLevels.map((m) => ({ value: m.value, label: SHORT_MAINTENANCE[m.value] ?? m.label }))}
+          selected={selection.maintenance}
+          onToggle={(v) => toggle('maintenance', v)}
+        />
+        <ToggleChips
+          options={parameters}
+          selected={selection.parameters}
+          onToggle={(v) => toggle('parameters', v)}
+        />
+        <p className="text-[10px] text-slate-500">
+          {scenarioCount} scenario{scenarioCount !== 1 ? 's' : ''} × {selection.parameters.length} parameter
+          {selection.parameters.length !== 1 ? 's' : ''} · {mode === 'click' ? 'click' : 'hover over'} the map to sample
+        </p>
+      </div>
+
+      <div className="px-3 py-2">
+        {!coordinate ? (
+          <p className="text-slate-500 italic">No point sampled yet.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-mono text-slate-700">
+                E: {coordinate[0].toFixed(0)}, N: {coordinate[1].toFixed(0)}
+              </span>
+              {isLoading && (
+                <span className="flex items-center gap-1 text-slate-500">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  {Math.round(progress * 100)}%
+                </span>
+              )}
+            </div>
+            {error && <p className="mb-2 text-red-600">{error}</p>}
+
+            {/* Parameter tabs */}
+            <div className="flex gap-1 mb-2">
+              {parameters
+                .filter((p) => selection.parameters.includes(p.value))
+                .map((p) => (
+                  <button
+                    key={p.value}
+                    onClick={() => setActiveParameter(p.value)}
+                    className={cn(
+                      'px-2 py-1 rounded text-[11px] transition-colors',
+                      p.value === shownParameter ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                    )}
+                  >
+                    {p.label}
+                  </button>
+                ))}
+            </div>
+
+            <table className={cn('w-full border-collapse', isLoading && 'opacity-60')}>
+              <thead>
+                <tr className="text-[10px] text-slate-500">
+                  <th className="text-left font-medium pb-1">{parameterInfo?.unit}</th>
+                  {returnPeriods.map((rp) => (
+                    <th key={rp.value} className="text-right font-medium pb-1 px-0.5">{rp.value}</th>
+                  ))}
+                  <th className="pb-1 pl-2 text-left font-medium">vs RP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className="border-t border-slate-100">
+                    <td className="py-1 pr-1 text-slate-600 whitespace-nowrap">{row.label}</td>
+                    {row.values.map((v, i) => (
+                      <td
+                        key={i}
+                        className="py-1 px-0.5 text-right font-mono tabular-nums text-slate-800"
+                        style={v !== null && max > 0 ? { backgroundColor: `rgba(37, 99, 235, ${(0.35 * v) / max})` } : undefined}
+                      >
+                        {v === null ? '–' : v.toFixed(decimals)}
+                      </td>
+                    ))}
+                    <td className="py-1 pl-2">
+                      <Sparkline values={row.values} max={max} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {values && !isLoading && (
+              <p className="mt-2 text-[11px] text-slate-600">
+                {maxRow && max > 0
+                  ? `Max ${parameterInfo?.label.toLowerCase()}: ${max.toFixed(decimals)} ${parameterInfo?.unit} (${maxRow.label}, ${maxRp?.label})`
+                  : `No ${parameterInfo?.label.toLowerCase()} at this point in the selected scenarios.`}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default RasterProbePanel;
@@ -0,0 +1,162 @@
+/**
+ * Hook for the multi-raster value probe
+ *
+ * While active, listens for map clicks (or pointer moves, debounced, in hover
+ * mode), samples the selected scenario rasters at that point and marks the
+ * location on the map. A new probe cancels the one in flight.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type Map from 'ol/Map';
+import type MapBrowserEvent from 'ol/MapBrowserEvent';
+import Feature from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { Circle, Fill, Stroke, Style } from 'ol/style';
+import { DEFAULT_PROBE_SELECTION, buildProbeLayers, probeRasters } from '@/lib/raster-probe';
+import type { ProbeLayer, ProbeMode, ProbeSelection, ProbeValues } from '@/types/probe';
+
+const HOVER_DELAY_MS = 400;
+
+const MARKER_STYLE = new Style({
+  image: new Circle({
+    radius: 6,
+    fill: new Fill({ color: 'rgba(37, 99, 235, 0.9)' }),
+    stroke: new Stroke({ color: '#ffffff', width: 2 }),
+  }),
+});
+
+interface UseRasterProbeReturn {
+  mode: ProbeMode;
+  setMode: (mode: ProbeMode) => void;
+  selection: ProbeSelection;
+  /** Change the sampled subset and re-probe the current point */
+  setSelection: (selection: ProbeSelection) => void;
+  layers: ProbeLayer[];
+  coordinate: number[] | null;
+  values: ProbeValues | null;
+  isLoading: boolean;
+  /** Share of requests finished while loading (0–1) */
+  progress: number;
+  error: string | null;
+  /** Probe a point without a map click, e.g. a typed coordinate */
+  probeAt: (coordinate: number[]) => void;
+}
+
+/**
+ * @param map - Map to probe
+ * @param active - Listen for probe clicks/hovers and show the marker only while true
+ */
+export function useRasterProbe(map: Map | null, active: boolean): UseRasterProbeReturn {
+  const [mode, setMode] = useState<ProbeMode>('click');
+  const [selection, setSelectionState] = useState<ProbeSelection>(DEFAULT_PROBE_SELECTION);
+  const [coordinate, setCoordinate] = useState<number[] | null>(null);
+  const [values, setValues] = useState<ProbeValues | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const markerRef = useRef(new Feature<Point>());
+
+  const layers = useMemo(() => buildProbeLayers(selection), [selection]);
+
+  const probe = useCallback((coord: number[], probeLayers: ProbeLayer[]) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setCoordinate(coord);
+    markerRef.current.setGeometry(new Point(coord));
+    setIsLoading(true);
+    setProgress(0);
+    setError(null);
+
+    probeRasters(probeLayers, coord, controller.signal, (fraction) => {
+      if (!controller.signal.aborted) setProgress(fraction);
+    })
+      .then((result) => {
+        if (controllerRef.current !== controller) return;
+        if (!controller.signal.aborted) setValues(result);
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        // Superseded by a newer probe, which owns the loading state
+        if (controllerRef.current !== controller) return;
+        if (!controller.signal.aborted) {
+          console.error('Error probing rasters:', err);
+          setError(err instanceof Error ? err.message : 'Probe failed');
+        }
+        setIsLoading(false);
+      });
+  }, []);
+
+  const probeAt = useCallback((coord: number[]) => {
+    probe(coord, layers);
+  }, [probe, layers]);
+
+  const setSelection = useCallback((next: ProbeSelection) => {
+    setSelectionState(next);
+    if (coordinate) probe(coordinate, buildProbeLayers(next));
+  }, [coordinate, probe]);
+
+  // Marker layer while active
+  useEffect(() => {
+    if (!map || !active) return;
+    const layer = new VectorLayer({
+      source: new VectorSource({ features: [markerRef.current] }),
+      style: MARKER_STYLE,
+      zIndex: 1000,
+    });
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, active]);
+
+  // Probe on click, or on hover after the pointer rests
+  useEffect(() => {
+    if (!map || !active) return;
+    let hoverTimer: number | undefined;
+
+    const onClick = (event: MapBrowserEvent) => {
+      probe(event.coordinate, layers);
+    };
+    const onPointerMove = (event: MapBrowserEvent) => {
+      if (event.dragging) return;
+      window.clearTimeout(hoverTimer);
+      const coord = event.coordinate;
+      hoverTimer = window.setTimeout(() => probe(coord, layers), HOVER_DELAY_MS);
+    };
+
+    map.on('click', onClick);
+    if (mode === 'hover') map.on('pointermove', onPointerMove);
+    return () => {
+      window.clearTimeout(hoverTimer);
+      map.un('click', onClick);
+      map.un('pointermove', onPointerMove);
+    };
+  }, [map, active, mode, layers, probe]);
+
+  // Cancel any request in flight when the probe closes
+  useEffect(() => {
+    if (active) return;
+    controllerRef.current?.abort();
+  }, [active]);
+
+  return {
+    mode,
+    setMode,
+    selection,
+    setSelection,
+    layers,
+    coordinate,
+    values,
+    isLoading,
+    progress,
+    error,
+    probeAt,
+  };
+}
+
+export default useRasterProbe;
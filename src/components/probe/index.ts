@@ -0,0 +1,7 @@
+/**
+ * Probe Module Barrel Export
+ */
+
+export { RasterProbePanel } from './RasterProbePanel';
+export { useRasterProbe } from './hooks/useRasterProbe';
+export type { RasterProbePanelHandle } from './RasterProbePanel';
@@ -0,0 +1,232 @@
+/**
+ * Cross-Section Panel Component
+ *
+ * Bottom map panel for the profile tool: draw a section line, pick flood
+ * scenarios and sample spacing, and compare DEM ground elevation with the
+ * flood water surface (ground + max depth) along the line — e.g. to check
+ * embankment crest heights against flood levels.
+ */
+
+import { useMemo, useState } from 'react';
+import type Map from 'ol/Map';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Download, Loader2, Pencil, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ELEVATION_DEM } from '@/config/layers';
+import { downloadBlob } from '@/lib/image-export';
+import { profileScenarioKey, profileScenarioLabel, profileToCsv } from '@/lib/profile';
+import { climateScenarios, maintenanceLevels, returnPeriods } from '@/types/layers';
+import { MAX_PROFILE_SCENARIOS, PROFILE_SPACINGS } from '@/types/profile';
+import type { ProfileScenario } from '@/types/profile';
+import { useCrossSection } from './hooks/useCrossSection';
+
+const SCENARIO_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+const GROUND_COLOR = '#92400e';
+
+export interface CrossSectionPanelProps {
+  map: Map | null;
+  onClose: () => void;
+}
+
+function formatDistance(metres: number): string {
+  return metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${Math.round(metres)} m`;
+}
+
+export function CrossSectionPanel({ map, onClose }: CrossSectionPanelProps) {
+  const {
+    isDrawing,
+    startDrawing,
+    spacing,
+    setSpacing,
+    effectiveSpacing,
+    scenarios,
+    setScenarios,
+    samples,
+    length,
+    isLoading,
+    progress,
+    error,
+  } = useCrossSection(map);
+  const [draft, setDraft] = useState<ProfileScenario>({ climate: 'future', maintenance: 'breaches', returnPeriod: '100' });
+
+  const chartData = useMemo(
+    () =>
+      (samples ?? []).map((sample) => {
+        const row: Record<string, number | null> = {
+          distance: sample.distance,
+          ground: sample.ground,
+        };
+        for (const scenario of scenarios) {
+          const key = profileScenarioKey(scenario);
+          const depth = sample.depths[key];
+          row[key] = sample.ground !== null && depth !== null && depth !== undefined ? sample.ground + depth : null;
+        }
+        return row;
+      }),
+    [samples, scenarios]
+  );
+
+  const draftKey = profileScenarioKey(draft);
+  const canAdd = scenarios.length < MAX_PROFILE_SCENARIOS && !scenarios.some((s) => profileScenarioKey(s) === draftKey);
+
+  const handleDownload = () => {
+    if (!samples) return;
+    downloadBlob(new Blob([profileToCsv(samples, scenarios)], { type: 'text/csv' }), 'cross-section-profile.csv');
+  };
+
+  const selectClass = 'text-xs h-7 border border-slate-200 rounded-md px-1.5 bg-white';
+
+  return (
+    <div className="absolute bottom-4 left-4 right-4 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg z-20 text-xs">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-slate-200">
+        <span className="text-sm font-semibold text-slate-800 mr-1">Cross-Section Profile</span>
+        <Button size="sm" variant={isDrawing ? 'default' : 'outline'} className="h-7 text-xs" onClick={startDrawing}>
+          <Pencil className="w-3.5 h-3.5 mr-1" />
+          {isDrawing ? 'Click to add points, double-click to finish' : samples ? 'Redraw line' : 'Draw line'}
+        </Button>
+        <label className="flex items-center gap-1 text-slate-600">
+          Spacing
+          <select value={spacing} onChange={(e) => setSpacing(Number(e.target.value))} className={selectClass}>
+            {PROFILE_SPACINGS.map((s) => (
+              <option key={s} value={s}>{s} m</option>
+            ))}
+          </select>
+        </label>
+        {length !== null && (
+          <span className="text-slate-500">
+            Length {formatDistance(length)}
+            {effectiveSpacing !== null && effectiveSpacing > spacing && ` · spacing widened to ${Math.round(effectiveSpacing)} m`}
+          </span>
+        )}
+        {isLoading && (
+          <span className="flex items-center gap-1 text-slate-500">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Sampling {Math.round(progress * 100)}%
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleDownload} disabled={!samples || isLoading}>
+            <Download className="w-3.5 h-3.5 mr-1" />
+            CSV
+          </Button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Close profile">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Scenarios */}
+      <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 border-b border-slate-100">
+        {scenarios.map((scenario, i) => (
+          <span
+            key={profileScenarioKey(scenario)}
+            className="flex items-center gap-1 rounded-full border border-slate-200 pl-2 pr-1 py-0.5"
+          >
+            <span className="w-2.5 h-0.5" style={{ backgroundColor: SCENARIO_COLORS[i % SCENARIO_COLORS.length] }} />
+            {profileScenarioLabel(scenario)}
+            <button
+              onClick={() => setScenarios(scenarios.filter((_, j) => j !== i))}
+              className="p-0.5 rounded-full hover:bg-slate-100 text-slate-400"
+              title="Remove scenario"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <select value={draft.climate} onChange={(e) => setDraft({ ...draft, climate: e.target.value })} className={selectClass}>
+          {climateScenarios.map((c) => (
+            <option key={c.value} value={c.value}>{c.label}</option>
+          ))}
+        </select>
+        <select value={draft.maintenance} onChange={(e) => setDraft({ ...draft, maintenance: e.target.value })} className={selectClass}>
+          {maintenanceLevels.map((m) => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+        <select value={draft.returnPeriod} onChange={(e) => setDraft({ ...draft, returnPeriod: e.target.value })} className={selectClass}>
+          {returnPeriods.map((rp) => (
+            <option key={rp.value} value={rp.value}>{rp.label}</option>
+          ))}
+        </select>
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setScenarios([...scenarios, draft])} disabled={!canAdd}>
+          <Plus className="w-3.5 h-3.5 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {/* Chart */}
+      <div className="px-2 py-2 h-56">
+        {error ? (
+          <p className="px-2 text-red-600">{error}</p>
+        ) : !samples ? (
+          <p className="px-2 text-slate-500 italic">
+            Draw a line across the floodplain or an embankment to see ground and flood water levels along it.
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 5, right: 20, left: 5, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis
+                dataKey="distance"
+                type="number"
+                domain={[0, 'dataMax']}
+                tickFormatter={(v: number) => (length !== null && length >= 2000 ? `${(v / 1000).toFixed(1)} km` : `${Math.round(v)} m`)}
+                tick={{ fontSize: 10 }}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tickFormatter={(v: number) => v.toFixed(0)}
+                tick={{ fontSize: 10 }}
+                label={{ value: `Elevation (${ELEVATION_DEM.units})`, angle: -90, position: 'insideLeft', style: { fontSize: 10 } }}
+              />
+              <Tooltip
+                labelFormatter={(v) => formatDistance(Number(v))}
+                formatter={(value) => (typeof value === 'number' ? `${value.toFixed(2)} ${ELEVATION_DEM.units}` : '–')}
+                contentStyle={{ fontSize: 11 }}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} iconType="line" />
+              <Area
+                dataKey="ground"
+                name={`Ground (${ELEVATION_DEM.label})`}
+                type="linear"
+                stroke={GROUND_COLOR}
+                fill={GROUND_COLOR}
+                fillOpacity={0.25}
+                baseValue="dataMin"
+                connectNulls={false}
+                isAnimationActive={false}
+              />
+              {scenarios.map((scenario, i) => (
+                <Line
+                  key={profileScenarioKey(scenario)}
+                  dataKey={profileScenarioKey(scenario)}
+                  name={`Water surface · ${profileScenarioLabel(scenario)}`}
+                  type="linear"
+                  stroke={SCENARIO_COLORS[i % SCENARIO_COLORS.length]}
+                  strokeWidth={1.75}
+                  dot={false}
+                  connectNulls={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CrossSectionPanel;
@@ -0,0 +1,142 @@
+/**
+ * Hook for the cross-section profile tool
+ *
+ * Draws the section line with the shared drawing interactions on its own
+ * vector layer, then samples ground elevation and scenario flood depths
+ * along it. Changing the spacing or scenarios re-samples the current line.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type Map from 'ol/Map';
+import type Feature from 'ol/Feature';
+import type LineString from 'ol/geom/LineString';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { Stroke, Style } from 'ol/style';
+import { useDrawingInteractions } from '@/components/annotations/hooks/useDrawingInteractions';
+import { densifyLine, sampleProfile } from '@/lib/profile';
+import { DEFAULT_PROFILE_SPACING } from '@/types/profile';
+import type { ProfileSample, ProfileScenario } from '@/types/profile';
+
+const LINE_STYLE = [
+  new Style({ stroke: new Stroke({ color: '#ffffff', width: 5 }) }),
+  new Style({ stroke: new Stroke({ color: '#b45309', width: 2.5, lineDash: [8, 4] }) }),
+];
+
+const DEFAULT_SCENARIOS: ProfileScenario[] = [
+  { climate: 'present', maintenance: 'breaches', returnPeriod: '100' },
+];
+
+interface UseCrossSectionReturn {
+  isDrawing: boolean;
+  startDrawing: () => void;
+  spacing: number;
+  setSpacing: (spacing: number) => void;
+  /** Spacing actually used, widened for long lines */
+  effectiveSpacing: number | null;
+  scenarios: ProfileScenario[];
+  setScenarios: (scenarios: ProfileScenario[]) => void;
+  samples: ProfileSample[] | null;
+  /** Length of the drawn line in metres */
+  length: number | null;
+  isLoading: boolean;
+  progress: number;
+  error: string | null;
+}
+
+export function useCrossSection(map: Map | null): UseCrossSectionReturn {
+  const [spacing, setSpacingState] = useState(DEFAULT_PROFILE_SPACING);
+  const [scenarios, setScenariosState] = useState<ProfileScenario[]>(DEFAULT_SCENARIOS);
+  const [line, setLine] = useState<number[][] | null>(null);
+  const [samples, setSamples] = useState<ProfileSample[] | null>(null);
+  const [effectiveSpacing, setEffectiveSpacing] = useState<number | null>(null);
+  const [length, setLength] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const [source] = useState(() => new VectorSource());
+
+  const sample = useCallback((coordinates: number[][], spacingM: number, profileScenarios: ProfileScenario[]) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const { points, spacing: used } = densifyLine(coordinates, spacingM);
+    setEffectiveSpacing(used);
+    setLength(points.length > 0 ? points[points.length - 1].distance : 0);
+    setIsLoading(true);
+    setProgress(0);
+    setError(null);
+
+    sampleProfile(points, profileScenarios, controller.signal, (fraction) => {
+      if (!controller.signal.aborted) setProgress(fraction);
+    })
+      .then((result) => {
+        if (controllerRef.current !== controller) return;
+        setSamples(result);
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        if (controllerRef.current !== controller || controller.signal.aborted) return;
+        console.error('Error sampling profile:', err);
+        setError(err instanceof Error ? err.message : 'Profile sampling failed');
+        setIsLoading(false);
+      });
+  }, []);
+
+  const { activeTool, setActiveTool } = useDrawingInteractions({
+    map,
+    vectorSource: source,
+    onDrawStart: () => source.clear(),
+    onDrawEnd: (feature: Feature) => {
+      setActiveTool('none');
+      const coordinates = (feature.getGeometry() as LineString).getCoordinates();
+      setLine(coordinates);
+      sample(coordinates, spacing, scenarios);
+    },
+  });
+
+  // Section line layer
+  useEffect(() => {
+    if (!map) return;
+    const layer = new VectorLayer({ source, style: LINE_STYLE, zIndex: 1000 });
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+      controllerRef.current?.abort();
+    };
+  }, [map, source]);
+
+  const startDrawing = useCallback(() => {
+    source.clear();
+    setActiveTool('line');
+  }, [source, setActiveTool]);
+
+  const setSpacing = useCallback((next: number) => {
+    setSpacingState(next);
+    if (line) sample(line, next, scenarios);
+  }, [line, sample, scenarios]);
+
+  const setScenarios = useCallback((next: ProfileScenario[]) => {
+    setScenariosState(next);
+    if (line) sample(line, spacing, next);
+  }, [line, sample, spacing]);
+
+  return {
+    isDrawing: activeTool === 'line',
+    startDrawing,
+    spacing,
+    setSpacing,
+    effectiveSpacing,
+    scenarios,
+    setScenarios,
+    samples,
+    length,
+    isLoading,
+    progress,
+    error,
+  };
+}
+
+export default useCrossSection;
@@ -0,0 +1,6 @@
+/**
+ * Cross-Section Profile Module Barrel Export
+ */
+
+export { CrossSectionPanel } from './CrossSectionPanel';
+export { useCrossSection } from './hooks/useCrossSection';
@@ -0,0 +1,352 @@
+/**
+ * Raster Style Dialog
+ *
+ * Colour ramp editor for a hazard raster: ramp, classification (equal
+ * interval, quantile of values sampled in the map view, or custom breaks)
+ * and transparency below a threshold. Every change is previewed on the map
+ * through SLD_BODY; admins can publish the style as the GeoServer default.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { parseLayerName } from '@/config/layers';
+import {
+  buildRasterSld,
+  defaultRasterStyle,
+  equalIntervalBreaks,
+  publishRasterStyle,
+  quantileBreaks,
+  rampColors,
+  rasterStyleClasses,
+  sampleRasterValues,
+} from '@/lib/raster-style';
+import { parameters } from '@/types/layers';
+import type { LayerInfo } from '@/types/layers';
+import { CLASSIFICATION_METHOD_LABELS, COLOR_RAMPS, MAX_CLASSES, MIN_CLASSES } from '@/types/raster-style';
+import type { ClassificationMethod, ColorRampId, RasterStyle } from '@/types/raster-style';
+
+export interface RasterStyleDialogProps {
+  layer: LayerInfo;
+  /** The layer's custom style, if it has one */
+  style?: RasterStyle;
+  /** Every layer of the same parameter, for "Apply to all" */
+  parameterLayerIds: string[];
+  onChange: (layerIds: string[], style: RasterStyle | null) => void;
+  /** Extent to sample for quantile breaks and the data range (the map view) */
+  getSampleExtent: () => number[];
+  /** Show "Publish as default" (admins) */
+  canPublish: boolean;
+  onClose: () => void;
+}
+
+const CLASS_COUNTS = Array.from({ length: MAX_CLASSES - MIN_CLASSES + 1 }, (_, i) => MIN_CLASSES + i);
+
+function RampSwatch({ ramp }: { ramp: ColorRampId }) {
+  const colors = rampColors(ramp, 8);
+  return <span className="inline-block w-20 h-3 rounded-sm" style={{ background: `linear-gradient(to right, ${colors.join(', ')})` }} />;
+}
+
+/** Number input that reports its value on blur or Enter */
+function NumberField({ value, onCommit, label }: { value: number; onCommit: (value: number) => void; label: string }) {
+  const [text, setText] = useState(String(value));
+  const commit = () => {
+    const number = Number(text);
+    if (text.trim() !== '' && Number.isFinite(number)) {
+      if (number !== value) onCommit(number);
+    } else {
+      setText(String(value));
+    }
+  };
+  return (
+    <Input
+      type="number"
+      step="any"
+      value={text}
+      aria-label={label}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="h-7 w-20 text-xs px-2"
+    />
+  );
+}
+
+export function RasterStyleDialog({
+  layer,
+  style: customStyle,
+  parameterLayerIds,
+  onChange,
+  getSampleExtent,
+  canPublish,
+  onClose,
+}: RasterStyleDialogProps) {
+  const parameter = parseLayerName(layer.geoserverName ?? '')?.parameter ?? 'maxdepth';
+  const parameterInfo = parameters.find((p) => p.value === parameter);
+  const unit = parameterInfo?.unit ?? '';
+
+  const [style, setStyle] = useState<RasterStyle>(() => customStyle ?? defaultRasterStyle(parameter));
+  const [samples, setSamples] = useState<number[] | null>(null);
+  const [sampleProgress, setSampleProgress] = useState<number | null>(null);
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+  const [publishing, setPublishing] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Latest style for changes made after sampling finishes
+  const styleRef = useRef(style);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const classCount = style.breaks.length - 1;
+  const min = style.breaks[0];
+  const max = style.breaks[classCount];
+
+  const update = (changes: Partial<RasterStyle>) => {
+    const next = { ...styleRef.current, ...changes };
+    styleRef.current = next;
+    setStyle(next);
+    setStatus(null);
+    onChange([layer.id], next);
+  };
+
+  const classify = (method: ClassificationMethod, count: number) => {
+    if (method === 'quantile' && samples && samples.length > 0) {
+      update({ method, breaks: quantileBreaks(samples, count) });
+    } else if (method === 'custom' && count === classCount) {
+      update({ method });
+    } else {
+      update({ method, breaks: equalIntervalBreaks(min, max, count) });
+    }
+  };
+
+  const sample = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSampleProgress(0);
+    setStatus(null);
+    try {
+      const values = await sampleRasterValues(layer, getSampleExtent(), controller.signal, setSampleProgress);
+      setSamples(values);
+      const { method, breaks } = styleRef.current;
+      if (values.length === 0) {
+        setStatus({ message: 'No values in the current view; pan to the flooded area and sample again.', error: true });
+      } else if (method === 'quantile') {
+        update({ breaks: quantileBreaks(values, breaks.length - 1) });
+      } else if (method === 'equal') {
+        update({ breaks: equalIntervalBreaks(Math.min(...values), Math.max(...values), breaks.length - 1) });
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setStatus({ message: err instanceof Error ? err.message : 'Sampling failed', error: true });
+      }
+    } finally {
+      if (!controller.signal.aborted) setSampleProgress(null);
+    }
+  };
+
+  const setBreak = (index: number, value: number) => {
+    const breaks = [...style.breaks];
+    breaks[index] = value;
+    update({ method: 'custom', breaks: breaks.sort((a, b) => a - b) });
+  };
+
+  const publish = async () => {
+    setPublishing(true);
+    setStatus(null);
+    try {
+      const name = await publishRasterStyle(layer, buildRasterSld(layer, style));
+      setStatus({ message: `Published as ${name}, now the default style of ${layer.geoserverName}.`, error: false });
+    } catch (err) {
+      setStatus({ message: err instanceof Error ? err.message : 'Failed to publish style', error: true });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const classes = rasterStyleClasses(style);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Layer style</DialogTitle>
+          <DialogDescription>
+            {layer.name} ({parameterInfo?.label ?? parameter}
+            {unit && `, ${unit}`}). Changes show on the map straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex items-center gap-3">
+            <span className="w-24 text-xs text-slate-600">Colour ramp</span>
+            <Select value={style.ramp} onValueChange={(ramp) => update({ ramp: ramp as ColorRampId })}>
+              <SelectTrigger className="h-8 w-44 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COLOR_RAMPS) as ColorRampId[]).map((ramp) => (
+                  <SelectItem key={ramp} value={ramp} className="text-xs">
+                    <RampSwatch ramp={ramp} />
+                    {COLOR_RAMPS[ramp].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-1.5 text-xs text-slate-700">
+              <Checkbox checked={style.reversed} onCheckedChange={(checked) => update({ reversed: checked === true })} />
+              Reverse
+            </label>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <span className="w-24 text-xs text-slate-600">Classes</span>
+            <ToggleGroup
+              type="single"
+              value={style.method}
+              onValueChange={(method) => method && classify(method as ClassificationMethod, classCount)}
+              className="justify-start"
+            >
+              {(Object.keys(CLASSIFICATION_METHOD_LABELS) as ClassificationMethod[]).map((method) => (
+                <ToggleGroupItem
+                  key={method}
+                  value={method}
+                  className="text-xs px-2 py-1 h-7 data-[state=on]:bg-blue-600 data-[state=on]:text-white"
+                >
+                  {CLASSIFICATION_METHOD_LABELS[method]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Select value={String(classCount)} onValueChange={(count) => classify(style.method, Number(count))}>
+              <SelectTrigger className="h-7 w-16 text-xs" aria-label="Number of classes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLASS_COUNTS.map((count) => (
+                  <SelectItem key={count} value={String(count)} className="text-xs">
+                    {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {style.method === 'equal' && (
+            <div className="flex items-center gap-2 text-xs text-slate-600">
+              <span className="w-24">Range</span>
+              <NumberField
+                key={`min-${min}`}
+                label="Minimum"
+                value={min}
+                onCommit={(value) => value < max && update({ breaks: equalIntervalBreaks(value, max, classCount) })}
+              />
+              <span>to</span>
+              <NumberField
+                key={`max-${max}`}
+                label="Maximum"
+                value={max}
+                onCommit={(value) => value > min && update({ breaks: equalIntervalBreaks(min, value, classCount) })}
+              />
+              <span>{unit}</span>
+            </div>
+          )}
+
+          {style.method === 'custom' && (
+            <div className="flex flex-wrap items-center gap-1.5 text-xs text-slate-600">
+              <span className="w-24">Breaks</span>
+              {style.breaks.map((value, i) => (
+                <NumberField key={`${i}-${value}`} label={`Break ${i + 1}`} value={value} onCommit={(v) => setBreak(i, v)} />
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 text-xs text-slate-600">
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={sample} disabled={sampleProgress !== null}>
+              {sampleProgress !== null && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+              {sampleProgress !== null ? `Sampling ${Math.round(sampleProgress * 100)}%` : 'Sample values in view'}
+            </Button>
+            <span>
+              {samples
+                ? `${samples.length} values${samples.length > 0 ? `, ${Math.min(...samples).toFixed(2)}–${Math.max(...samples).toFixed(2)} ${unit}` : ''}`
+                : style.method === 'quantile'
+                  ? 'Quantiles need sampled values'
+                  : ''}
+            </span>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-slate-700">
+            <label className="flex items-center gap-1.5 w-40">
+              <Checkbox
+                checked={style.transparentBelow !== null}
+                onCheckedChange={(checked) => update({ transparentBelow: checked === true ? min : null })}
+              />
+              Transparent below
+            </label>
+            {style.transparentBelow !== null && (
+              <>
+                <NumberField
+                  key={`threshold-${style.transparentBelow}`}
+                  label="Transparency threshold"
+                  value={style.transparentBelow}
+                  onCommit={(value) => update({ transparentBelow: value })}
+                />
+                <span className="text-slate-600">{unit}</span>
+              </>
+            )}
+          </div>
+
+          <div className="rounded-md border border-slate-200 p-2 space-y-1">
+            {classes.map(({ color, label }) => (
+              <div key={label} className="flex items-center gap-2 text-xs text-slate-700">
+                <span className="w-5 h-3 rounded-sm border border-slate-300" style={{ backgroundColor: color }} />
+                {label} {unit}
+              </div>
+            ))}
+            {classes.length === 0 && <p className="text-xs text-slate-500">Every class is below the transparency threshold.</p>}
+          </div>
+
+          {status && <p className={status.error ? 'text-xs text-red-600' : 'text-xs text-green-700'}>{status.message}</p>}
+        </div>
+
+        <DialogFooter className="flex-wrap gap-2 sm:justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              onChange([layer.id], null);
+              onClose();
+            }}
+          >
+            Reset to GeoServer style
+          </Button>
+          <div className="flex gap-2">
+            {parameterLayerIds.length > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onChange(parameterLayerIds, style);
+                  setStatus({ message: `Applied to ${parameterLayerIds.length} ${parameterInfo?.label ?? parameter} layers.`, error: false });
+                }}
+              >
+                Apply to all {parameterInfo?.label ?? parameter}
+              </Button>
+            )}
+            {canPublish && (
+              <Button size="sm" onClick={publish} disabled={publishing}>
+                {publishing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Upload className="w-4 h-4 mr-1" />}
+                Publish as default
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default RasterStyleDialog;
@@ -0,0 +1,39 @@
+/**
+ * Hook holding the custom hazard raster styles
+ *
+ * Styles are kept per layer id in local storage, so an edited colour ramp
+ * survives a reload until it is reset.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { loadRasterStyles, saveRasterStyles } from '@/lib/raster-style';
+import type { RasterStyle, RasterStyles } from '@/types/raster-style';
+
+export interface UseRasterStylesResult {
+  styles: RasterStyles;
+  /** Set the style of layers, or remove it (null) to use the GeoServer style */
+  setStyle: (layerIds: string[], style: RasterStyle | null) => void;
+}
+
+export function useRasterStyles(): UseRasterStylesResult {
+  const [styles, setStyles] = useState<RasterStyles>(loadRasterStyles);
+
+  useEffect(() => {
+    saveRasterStyles(styles);
+  }, [styles]);
+
+  const setStyle = useCallback((layerIds: string[], style: RasterStyle | null) => {
+    setStyles((prev) => {
+      const next = { ...prev };
+      for (const id of layerIds) {
+        if (style) next[id] = style;
+        else delete next[id];
+      }
+      return next;
+    });
+  }, []);
+
+  return { styles, setStyle };
+}
+
+export default useRasterStyles;
@@ -0,0 +1,6 @@
+/**
+ * Raster Style Module Barrel Export
+ */
+
+export { RasterStyleDialog } from './RasterStyleDialog';
+export { useRasterStyles } from './hooks/useRasterStyles';
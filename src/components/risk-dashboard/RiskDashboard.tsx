@@ -1,12 +1,30 @@
 import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { Shield, Layers, Map, BarChart3, AlertCircle, Calculator, TrendingUp, Users, Flame } from 'lucide-react';
+import { Shield, Layers, Map, BarChart3, AlertCircle, Calculator, TrendingUp, Users, Flame, Scale, Hourglass, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import type { RiskView, ScenarioKey, DistrictName, ScenarioMeta } from '@/types/risk';
-import { totalRiskValue, buildScenarioKey, toLossData } from '@/types/risk';
+import type {
+  RiskView,
+  ScenarioKey,
+  DistrictName,
+  ScenarioMeta,
+  FactorProfile,
+  ChoroplethOptions,
+  RiskJsonData,
+  EadResult,
+  EalResult,
+} from '@/types/risk';
+import {
+  totalRiskValue,
+  buildScenarioKey,
+  toLossData,
+  resolveAssetFactors,
+  OFFICIAL_FACTOR_PROFILE,
+} from '@/types/risk';
 import { useRiskData } from './hooks/useRiskData';
+import { useRiskDatasets } from './hooks/useRiskDatasets';
 import { useEadData } from './hooks/useEadData';
 import { useEalData } from './hooks/useEalData';
+import { useDepthDamageData } from './hooks/useDepthDamageData';
 import { RiskSummaryHeatmap } from './views/RiskSummaryHeatmap';
 import { RiskDistrictBreakdown } from './views/RiskDistrictBreakdown';
 import { RiskSpatialView } from './views/RiskSpatialView';
@@ -14,35 +32,81 @@ import { RiskEadView } from './views/RiskEadView';
 import { RiskEalView } from './views/RiskEalView';
 import { RiskPopulationView } from './views/RiskPopulationView';
 import { RiskHotspotView } from './views/RiskHotspotView';
+import { RiskBcaView } from './views/RiskBcaView';
+import { RiskTrajectoryView } from './views/RiskTrajectoryView';
 import { RiskCurveModal } from './components/RiskCurveModal';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { DEFAULT_EAD_INTEGRATION } from '@/lib/ead-integration';
+import type { EadIntegrationOptions } from '@/lib/ead-integration';
+import { DEFAULT_DEPTH_DAMAGE_CONFIG } from '@/types/depth-damage';
+import type { DamageSource, DepthDamageConfig } from '@/types/depth-damage';
+import { DEFAULT_MAINTENANCE_BLEND } from '@/types/maintenance-blend';
+import type { MaintenanceBlend } from '@/types/maintenance-blend';
+import { withExpectedMaintenance } from '@/lib/maintenance-blend';
+import { BASELINE_DATASET_ID } from '@/types/risk-datasets';
+import type { DatasetComparison } from '@/types/risk-datasets';
+import type { RiskPermalinkState } from '@/types/permalink';
+import { DEFAULT_HOTSPOT_WEIGHTS } from '@/types/socioeconomic';
+import type { HotspotWeights } from '@/types/socioeconomic';
 
 const MODE = 'Dmg' as const;
 
 export interface RiskDashboardProps {
   onViewChange?: (view: RiskView) => void;
-  onChoroplethData?: (data: Record<DistrictName, number> | null) => void;
+  onChoroplethData?: (data: Record<DistrictName, number> | null, options?: ChoroplethOptions) => void;
+  /** Selections to open with (e.g. from a permalink) */
+  initialState?: Partial<RiskPermalinkState>;
+  /** Called whenever a selection that belongs in a permalink changes */
+  onStateChange?: (state: RiskPermalinkState) => void;
   className?: string;
 }
 
 export function RiskDashboard({
   onViewChange,
   onChoroplethData,
+  initialState,
+  onStateChange,
   className,
 }: RiskDashboardProps) {
   // View state
-  const [currentView, setCurrentView] = useState<RiskView>('summary');
-  const [selectedClimate, setSelectedClimate] = useState<'present' | 'future'>('present');
-  const [selectedScenarioKey, setSelectedScenarioKey] = useState<ScenarioKey | null>(null);
+  const [currentView, setCurrentView] = useState<RiskView>(() =>
+    // The district view needs a scenario to show
+    initialState?.view && (initialState.view !== 'district' || initialState.scenarioKey)
+      ? initialState.view
+      : 'summary'
+  );
+  const [selectedClimate, setSelectedClimate] = useState<'present' | 'future'>(initialState?.climate ?? 'present');
+  const [selectedScenarioKey, setSelectedScenarioKey] = useState<ScenarioKey | null>(initialState?.scenarioKey ?? null);
 
   // Damage/Loss metric toggle (per-scenario views only)
   const [lossMode, setLossMode] = useState<'damage' | 'loss'>('damage');
 
+  // EAD integration method and tails, shared by all annualised views
+  const [integration, setIntegration] = useState<EadIntegrationOptions>(DEFAULT_EAD_INTEGRATION);
+  // Loss/Damage factor profile (official or a what-if), shared by all loss-based views
+  const [factorProfile, setFactorProfile] = useState<FactorProfile>(OFFICIAL_FACTOR_PROFILE);
+  // EAD/EAL damages from risk.json or recomputed from depth–damage curves
+  const [damageSource, setDamageSource] = useState<DamageSource>('original');
+  const [depthDamageConfig, setDepthDamageConfig] = useState<DepthDamageConfig>(DEFAULT_DEPTH_DAMAGE_CONFIG);
+  // Maintenance state probabilities behind the Expected option
+  const [maintenanceBlend, setMaintenanceBlend] = useState<MaintenanceBlend>(DEFAULT_MAINTENANCE_BLEND);
+  // Dataset from the manifest compared against the baseline (null = no comparison)
+  const [compareDatasetId, setCompareDatasetId] = useState<string | null>(null);
+  // Spatial view maps compared − baseline instead of baseline values
+  const [spatialShowDelta, setSpatialShowDelta] = useState(false);
+
   // Risk Curve modal state
   const [riskCurveOpen, setRiskCurveOpen] = useState(false);
 
   // Spatial view state
-  const [spatialReturnPeriod, setSpatialReturnPeriod] = useState<number>(25);
-  const [spatialMaintenance, setSpatialMaintenance] = useState<'breaches' | 'redcapacity' | 'perfect'>('breaches');
+  const [spatialReturnPeriod, setSpatialReturnPeriod] = useState<number>(initialState?.spatialReturnPeriod ?? 25);
+  const [spatialMaintenance, setSpatialMaintenance] = useState<'breaches' | 'redcapacity' | 'perfect'>(
+    initialState?.spatialMaintenance ?? 'breaches'
+  );
+  // MCA dimension weights for the Hotspots view
+  const [hotspotWeights, setHotspotWeights] = useState<HotspotWeights>(
+    initialState?.hotspotWeights ?? DEFAULT_HOTSPOT_WEIGHTS
+  );
   const [hoveredDistrict, setHoveredDistrict] = useState<string | null>(null);
   const hoverTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -57,20 +121,89 @@ export function RiskDashboard({
   }, []);
 
   // Data
-  const { data, isLoading, error } = useRiskData();
-  const eadState = useEadData();
-  const ealState = useEalData();
+  const { data, isLoading, error, quality } = useRiskData();
+  const depthDamage = useDepthDamageData(depthDamageConfig, damageSource === 'curves');
+  // Falls back to risk.json until the curve-based dataset is ready
+  const curveData = damageSource === 'curves' ? depthDamage.result?.data ?? null : null;
+  // Adds the expected maintenance state to the active damage dataset
+  const blendedData = useMemo(() => {
+    const base = curveData ?? data;
+    return base ? withExpectedMaintenance(base, maintenanceBlend) : null;
+  }, [curveData, data, maintenanceBlend]);
+  const originalEadState = useEadData(integration);
+  const eadState = useEadData(integration, blendedData);
+  const ealState = useEalData(integration, factorProfile, blendedData);
 
   // Parallel loss dataset (Dmg scaled by per-sector Loss/Damage factor)
-  const lossData = useMemo(() => (data ? toLossData(data) : null), [data]);
+  const lossData = useMemo(
+    () =>
+      data
+        ? toLossData(data, resolveAssetFactors(factorProfile.sectorFactors, factorProfile.assetOverrides))
+        : null,
+    [data, factorProfile.sectorFactors, factorProfile.assetOverrides]
+  );
   // Per-scenario views render this when the Loss toggle is on
   const activeData = lossMode === 'loss' ? lossData : data;
 
+  // Compared dataset, processed the same way as the baseline. The depth–damage
+  // curves are applied to the baseline's depth distributions only, so EAD/EAL
+  // are not compared while curves are active: the deltas would mix two damage
+  // models.
+  const { datasets } = useRiskDatasets();
+  const compare = useRiskData(compareDatasetId);
+  const annualComparisonBlocked = damageSource === 'curves';
+  const compareBlendedData = useMemo(
+    () => (compare.data && !annualComparisonBlocked ? withExpectedMaintenance(compare.data, maintenanceBlend) : null),
+    [compare.data, annualComparisonBlocked, maintenanceBlend]
+  );
+  const compareEadState = useEadData(integration, compareBlendedData);
+  const compareEalState = useEalData(integration, factorProfile, compareBlendedData);
+  const compareActiveData = useMemo(() => {
+    if (!compare.data) return null;
+    return lossMode === 'loss'
+      ? toLossData(compare.data, resolveAssetFactors(factorProfile.sectorFactors, factorProfile.assetOverrides))
+      : compare.data;
+  }, [compare.data, lossMode, factorProfile.sectorFactors, factorProfile.assetOverrides]);
+
+  const baselineLabel = datasets.find((d) => d.id === BASELINE_DATASET_ID)?.label ?? 'Baseline';
+  const compareLabel = datasets.find((d) => d.id === compareDatasetId)?.label ?? compareDatasetId ?? '';
+  const dataComparison = useMemo<DatasetComparison<RiskJsonData> | null>(
+    () => (compareActiveData ? { baselineLabel, compareLabel, value: compareActiveData } : null),
+    [compareActiveData, baselineLabel, compareLabel]
+  );
+  const eadComparison = useMemo<DatasetComparison<EadResult[]> | null>(
+    () =>
+      compareBlendedData && compareEadState.eadResults
+        ? { baselineLabel, compareLabel, value: compareEadState.eadResults }
+        : null,
+    [compareBlendedData, compareEadState.eadResults, baselineLabel, compareLabel]
+  );
+  const ealComparison = useMemo<DatasetComparison<EalResult[]> | null>(
+    () =>
+      compareBlendedData && compareEalState.ealResults
+        ? { baselineLabel, compareLabel, value: compareEalState.ealResults }
+        : null,
+    [compareBlendedData, compareEalState.ealResults, baselineLabel, compareLabel]
+  );
+  const spatialDelta = spatialShowDelta && compareActiveData !== null;
+
   // Notify parent of view changes
   useEffect(() => {
     onViewChange?.(currentView);
   }, [currentView, onViewChange]);
 
+  // Notify parent of permalink state changes
+  useEffect(() => {
+    onStateChange?.({
+      view: currentView,
+      climate: selectedClimate,
+      scenarioKey: selectedScenarioKey,
+      spatialReturnPeriod,
+      spatialMaintenance,
+      hotspotWeights,
+    });
+  }, [currentView, selectedClimate, selectedScenarioKey, spatialReturnPeriod, spatialMaintenance, hotspotWeights, onStateChange]);
+
   // Compute choropleth data for spatial view
   const choroplethData = useMemo(() => {
     if (!activeData || currentView !== 'spatial') return null;
@@ -82,19 +215,24 @@ export function RiskDashboard({
     const result: Record<DistrictName, number> = {} as any;
     for (const district of activeData.districts) {
       const regionData = scenarioData[district]?.[MODE];
-      result[district as DistrictName] = regionData ? totalRiskValue(regionData) : 0;
+      const value = regionData ? totalRiskValue(regionData) : 0;
+      // Compared − baseline when mapping differences
+      const compareRegion = spatialDelta ? compareActiveData?.data[key]?.[district]?.[MODE] : undefined;
+      result[district as DistrictName] = spatialDelta
+        ? (compareRegion ? totalRiskValue(compareRegion) : 0) - value
+        : value;
     }
     return result;
-  }, [activeData, currentView, spatialReturnPeriod, selectedClimate, spatialMaintenance]);
+  }, [activeData, currentView, spatialReturnPeriod, selectedClimate, spatialMaintenance, spatialDelta, compareActiveData]);
 
   // Push choropleth data to parent
   useEffect(() => {
-    onChoroplethData?.(choroplethData);
-  }, [choroplethData, onChoroplethData]);
+    onChoroplethData?.(choroplethData, { diverging: spatialDelta });
+  }, [choroplethData, onChoroplethData, spatialDelta]);
 
-  // Clean up choropleth when leaving spatial/ead/population/hotspots view
+  // Clean up choropleth when leaving spatial/ead/population/hotspots/bca/trajectory view
   useEffect(() => {
-    if (currentView !== 'spatial' && currentView !== 'ead' && currentView !== 'eal' && currentView !== 'population' && currentView !== 'hotspots') {
+    if (currentView !== 'spatial' && currentView !== 'ead' && currentView !== 'eal' && currentView !== 'population' && currentView !== 'hotspots' && currentView !== 'bca' && currentView !== 'trajectory') {
       onChoroplethData?.(null);
     }
   }, [currentView, onChoroplethData]);
@@ -206,6 +344,24 @@ export function RiskDashboard({
               <Flame className="w-3.5 h-3.5 mr-1" />
               Hotspots
             </Button>
+            <Button
+              variant={currentView === 'bca' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setCurrentView('bca')}
+              className="text-sm h-8"
+            >
+              <Scale className="w-3.5 h-3.5 mr-1" />
+              BCA
+            </Button>
+            <Button
+              variant={currentView === 'trajectory' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setCurrentView('trajectory')}
+              className="text-sm h-8"
+            >
+              <Hourglass className="w-3.5 h-3.5 mr-1" />
+              Trajectory
+            </Button>
           </div>
         </div>
       </div>
@@ -254,6 +410,45 @@ export function RiskDashboard({
                 </div>
               </div>
             )}
+            {(['summary', 'district', 'spatial', 'ead', 'eal'] as RiskView[]).includes(currentView) && (
+              <div className="flex items-center gap-2">
+                <label className="text-sm font-medium text-slate-700">Compare:</label>
+                <select
+                  value={compareDatasetId ?? ''}
+                  onChange={(e) => setCompareDatasetId(e.target.value || null)}
+                  disabled={datasets.length < 2}
+                  title={
+                    datasets.length < 2
+                      ? 'Add datasets to public/data/risk-datasets.json (npm run build:risk-data) to compare'
+                      : `Show differences against ${baselineLabel}`
+                  }
+                  className="px-2 py-1 text-sm border border-slate-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  <option value="">None</option>
+                  {datasets
+                    .filter((d) => d.id !== BASELINE_DATASET_ID)
+                    .map((d) => (
+                      <option key={d.id} value={d.id} title={d.description}>
+                        {d.label}
+                      </option>
+                    ))}
+                </select>
+                {compare.isLoading && <Loader2 className="w-3.5 h-3.5 animate-spin text-slate-400" />}
+                {compare.error && (
+                  <span className="text-xs text-red-600" title={compare.error}>
+                    Unavailable
+                  </span>
+                )}
+                {compareDatasetId && annualComparisonBlocked && (currentView === 'ead' || currentView === 'eal') && (
+                  <span
+                    className="text-xs text-amber-700"
+                    title="The depth–damage curves are computed for the baseline dataset only; switch the EAD damage source back to risk.json to compare"
+                  >
+                    Not compared with depth–damage curves
+                  </span>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Risk Curve Button */}
@@ -281,8 +476,22 @@ export function RiskDashboard({
           </div>
         )}
 
+        {/* Validation errors: list them instead of rendering views from bad data */}
+        {error && !isLoading && quality && quality.errorCount > 0 && (
+          <div className="p-4">
+            <DataQualityPanel report={quality} />
+          </div>
+        )}
+
+        {/* Validation warnings: collapsed notice above the view */}
+        {!error && !isLoading && quality && quality.warningCount > 0 && (
+          <div className="px-4 pt-3">
+            <DataQualityPanel report={quality} />
+          </div>
+        )}
+
         {/* Error */}
-        {error && !isLoading && (
+        {error && !isLoading && !(quality && quality.errorCount > 0) && (
           <div className="absolute inset-0 flex items-center justify-center p-8">
             <div className="text-center max-w-md">
               <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-3" />
@@ -300,6 +509,7 @@ export function RiskDashboard({
             mode={MODE}
             selectedKey={selectedScenarioKey}
             onScenarioClick={handleScenarioClick}
+            comparison={dataComparison}
           />
         )}
 
@@ -310,6 +520,7 @@ export function RiskDashboard({
             scenarioKey={selectedScenarioKey}
             mode={MODE}
             onBack={handleBackToSummary}
+            comparison={dataComparison}
           />
         )}
 
@@ -325,6 +536,9 @@ export function RiskDashboard({
             hoveredDistrict={hoveredDistrict}
             onScenarioChange={handleSpatialScenarioChange}
             onHoverDistrict={handleHoverDistrict}
+            comparison={dataComparison}
+            showDelta={spatialShowDelta}
+            onShowDeltaChange={setSpatialShowDelta}
           />
         )}
 
@@ -334,6 +548,17 @@ export function RiskDashboard({
             eadResults={eadState.eadResults}
             climate={selectedClimate}
             onChoroplethData={onChoroplethData}
+            integration={integration}
+            onIntegrationChange={setIntegration}
+            damageSource={damageSource}
+            onDamageSourceChange={setDamageSource}
+            depthDamageConfig={depthDamageConfig}
+            onDepthDamageConfigChange={setDepthDamageConfig}
+            depthDamage={depthDamage}
+            originalEadResults={originalEadState.eadResults}
+            maintenanceBlend={maintenanceBlend}
+            onMaintenanceBlendChange={setMaintenanceBlend}
+            comparison={eadComparison}
           />
         )}
 
@@ -343,17 +568,49 @@ export function RiskDashboard({
             ealResults={ealState.ealResults}
             climate={selectedClimate}
             onChoroplethData={onChoroplethData}
+            integration={integration}
+            factorProfile={factorProfile}
+            onFactorProfileChange={setFactorProfile}
+            curveData={curveData}
+            comparison={ealComparison}
           />
         )}
 
         {/* Population Risk View */}
         {currentView === 'population' && !isLoading && !error && (
-          <RiskPopulationView climate={selectedClimate} onChoroplethData={onChoroplethData} />
+          <RiskPopulationView climate={selectedClimate} onChoroplethData={onChoroplethData} integration={integration} />
         )}
 
         {/* Hotspots View */}
         {currentView === 'hotspots' && !isLoading && !error && (
-          <RiskHotspotView climate={selectedClimate} onChoroplethData={onChoroplethData} />
+          <RiskHotspotView
+            climate={selectedClimate}
+            onChoroplethData={onChoroplethData}
+            integration={integration}
+            factorProfile={factorProfile}
+            maintenanceBlend={maintenanceBlend}
+            weights={hotspotWeights}
+            onWeightsChange={setHotspotWeights}
+          />
+        )}
+
+        {/* Benefit–Cost Analysis View */}
+        {currentView === 'bca' && !isLoading && !error && (
+          <RiskBcaView
+            climate={selectedClimate}
+            onChoroplethData={onChoroplethData}
+            integration={integration}
+            factorProfile={factorProfile}
+          />
+        )}
+
+        {/* Risk Trajectory View */}
+        {currentView === 'trajectory' && !isLoading && !error && (
+          <RiskTrajectoryView
+            onChoroplethData={onChoroplethData}
+            integration={integration}
+            riskData={curveData}
+          />
         )}
       </div>
 
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DATA_ISSUE_CATEGORY_LABELS } from '@/types/data-quality';
+import { RISK_ASSET_KEYS } from '@/types/risk';
+import type { DataIssue, DataIssueCategory, DataQualityReport } from '@/types/data-quality';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  className?: string;
+}
+
+/** Issues listed per category before "Show all" */
+const CATEGORY_PREVIEW = 10;
+
+function CategoryIssues({ category, issues }: { category: DataIssueCategory; issues: DataIssue[] }) {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? issues : issues.slice(0, CATEGORY_PREVIEW);
+
+  return (
+    <div>
+      <p className="text-xs font-semibold text-slate-700 mb-1">
+        {DATA_ISSUE_CATEGORY_LABELS[category]} ({issues.length})
+      </p>
+      <ul className="space-y-0.5">
+        {visible.map((issue, i) => (
+          <li key={i} className="flex items-start gap-1.5 text-xs">
+            {issue.severity === 'error' ? (
+              <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0 text-red-500" />
+            ) : (
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0 text-amber-500" />
+            )}
+            <span className="text-slate-600">
+              {issue.scenario && <span className="font-mono text-slate-500">{issue.scenario}: </span>}
+              {issue.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {issues.length > CATEGORY_PREVIEW && (
+        <button
+          onClick={() => setShowAll((v) => !v)}
+          className="mt-1 text-xs text-indigo-600 hover:underline"
+        >
+          {showAll ? 'Show fewer' : `Show all ${issues.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Findings of the risk.json validation, grouped by category. Open by default
+ * when the file has errors (the dashboard shows nothing else then); warnings
+ * alone start collapsed to a one-line notice.
+ */
+export function DataQualityPanel({ report, className }: DataQualityPanelProps) {
+  const hasErrors = report.errorCount > 0;
+  const [expanded, setExpanded] = useState(hasErrors);
+
+  if (report.issues.length === 0) return null;
+
+  const byCategory = new Map<DataIssueCategory, DataIssue[]>();
+  for (const issue of report.issues) {
+    byCategory.set(issue.category, [...(byCategory.get(issue.category) ?? []), issue]);
+  }
+
+  const counts = [
+    report.errorCount > 0 && `${report.errorCount} error${report.errorCount === 1 ? '' : 's'}`,
+    report.warningCount > 0 && `${report.warningCount} warning${report.warningCount === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border',
+        hasErrors ? 'border-red-200 bg-red-50' : 'border-amber-200 bg-amber-50',
+        className
+      )}
+    >
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center gap-1.5 px-3 py-2 text-left"
+      >
+        {expanded ? (
+          <ChevronDown className="w-3.5 h-3.5 text-slate-500" />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5 text-slate-500" />
+        )}
+        {hasErrors ? (
+          <AlertCircle className="w-3.5 h-3.5 text-red-600" />
+        ) : (
+          <AlertTriangle className="w-3.5 h-3.5 text-amber-600" />
+        )}
+        <span className={cn('text-sm font-semibold', hasErrors ? 'text-red-700' : 'text-amber-800')}>
+          Data quality: {counts}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-3">
+          <p className="text-xs text-slate-600">
+            {hasErrors
+              ? `risk.json is incomplete or malformed, so risk views are not shown. Expected ${report.expectedScenarios} scenarios (return period × climate × maintenance), each with TOTAL and every district, the Exp/Vul/Dmg modes and all ${RISK_ASSET_KEYS.length} asset values.`
+              : 'risk.json loaded; the findings below do not block the dashboard but may affect results.'}
+          </p>
+          {[...byCategory.entries()].map(([category, issues]) => (
+            <CategoryIssues key={category} category={category} issues={issues} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
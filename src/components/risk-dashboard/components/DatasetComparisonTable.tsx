@@ -0,0 +1,73 @@
+import { GitCompare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DISTRICTS } from '@/types/risk';
+import type { DistrictName } from '@/types/risk';
+import { RiskDeltaValue } from './RiskDeltaValue';
+
+type Region = DistrictName | 'TOTAL';
+
+interface DatasetComparisonTableProps {
+  /** Metric name used in the heading, e.g. "EAD" */
+  metric: string;
+  activeLabel: string;
+  compareLabel: string;
+  active: Record<Region, number>;
+  compare: Record<Region, number>;
+  format: (value: number) => string;
+  /** Heading icon color, matching the host view's accent */
+  iconClassName?: string;
+  className?: string;
+}
+
+/**
+ * Per-district metric for the baseline and a compared dataset, with the
+ * compared − baseline difference.
+ */
+export function DatasetComparisonTable({
+  metric,
+  activeLabel,
+  compareLabel,
+  active,
+  compare,
+  format,
+  iconClassName = 'text-indigo-600',
+  className,
+}: DatasetComparisonTableProps) {
+  const signed = (delta: number) => (delta === 0 ? '±0' : `${delta < 0 ? '−' : '+'}${format(Math.abs(delta))}`);
+
+  return (
+    <div className={cn('px-4', className)}>
+      <div className="flex items-center gap-1.5 mb-2">
+        <GitCompare className={cn('w-3.5 h-3.5', iconClassName)} />
+        <h4 className="text-sm font-semibold text-slate-700">
+          {metric}: {compareLabel} vs {activeLabel}
+        </h4>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-slate-200">
+            <th className="text-left py-1.5 px-2 font-medium text-slate-600">District</th>
+            <th className="text-right py-1.5 px-2 font-medium text-slate-600">{activeLabel}</th>
+            <th className="text-right py-1.5 px-2 font-medium text-slate-600">{compareLabel}</th>
+            <th className="text-right py-1.5 px-2 font-medium text-slate-600">Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...DISTRICTS, 'TOTAL' as const].map((region) => (
+            <tr
+              key={region}
+              className={cn('border-b border-slate-100', region === 'TOTAL' && 'bg-slate-100 font-semibold')}
+            >
+              <td className="py-1.5 px-2 text-slate-700">{region === 'TOTAL' ? 'All districts' : region}</td>
+              <td className="py-1.5 px-2 text-right text-slate-800 whitespace-nowrap">{format(active[region] ?? 0)}</td>
+              <td className="py-1.5 px-2 text-right text-slate-800 whitespace-nowrap">{format(compare[region] ?? 0)}</td>
+              <td className="py-1.5 px-2 text-right">
+                <RiskDeltaValue active={active[region] ?? 0} compare={compare[region] ?? 0} format={signed} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Loader2, Plus, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  MAINTENANCE_LEVELS,
+  MAINTENANCE_LABELS,
+  RISK_ASSET_COLORS,
+  RISK_ASSET_KEYS,
+  RISK_ASSET_LABELS,
+  formatRiskValueFull,
+} from '@/types/risk';
+import type { EadResult, RiskAssetKey } from '@/types/risk';
+import { EXPOSURE_LAYER_LABELS } from '@/types/impact';
+import {
+  ASSET_DEPTH_SOURCE,
+  DEFAULT_DEPTH_DAMAGE_CONFIG,
+  DEPTH_BIN_REPRESENTATIVE_DEPTH,
+} from '@/types/depth-damage';
+import type { DamageSource, DepthDamageConfig, DepthDamagePoint } from '@/types/depth-damage';
+import type { DepthDamageResult } from '@/lib/depth-damage';
+
+// Deepest representative bin depth, so the chart always covers every bin
+const CHART_MAX_DEPTH = Math.max(...Object.values(DEPTH_BIN_REPRESENTATIVE_DEPTH));
+
+interface DepthDamageEditorProps {
+  source: DamageSource;
+  onSourceChange: (source: DamageSource) => void;
+  value: DepthDamageConfig;
+  onChange: (config: DepthDamageConfig) => void;
+  /** Recomputed dataset; null while loading or when the source is 'original' */
+  result: DepthDamageResult | null;
+  isLoading: boolean;
+  error: string | null;
+  climate: 'present' | 'future';
+  /** EAD from risk.json */
+  originalEadResults: EadResult[] | null;
+  /** EAD currently shown (from curves when source is 'curves') */
+  eadResults: EadResult[] | null;
+  className?: string;
+}
+
+/**
+ * Choose between the precomputed risk.json damages and damages recomputed
+ * from per-asset depth–damage curves, and edit those curves.
+ */
+export function DepthDamageEditor({
+  source,
+  onSourceChange,
+  value,
+  onChange,
+  result,
+  isLoading,
+  error,
+  climate,
+  originalEadResults,
+  eadResults,
+  className,
+}: DepthDamageEditorProps) {
+  const [asset, setAsset] = useState<RiskAssetKey>('crop');
+  const curve = value[asset];
+
+  const updateCurve = (patch: Partial<DepthDamageConfig[RiskAssetKey]>) =>
+    onChange({ ...value, [asset]: { ...curve, ...patch } });
+
+  const updatePoint = (index: number, patch: Partial<DepthDamagePoint>) =>
+    updateCurve({ points: curve.points.map((p, i) => (i === index ? { ...p, ...patch } : p)) });
+
+  const addPoint = () => {
+    const last = curve.points[curve.points.length - 1];
+    updateCurve({
+      points: [...curve.points, last ? { depth: last.depth + 1, fraction: last.fraction } : { depth: 0, fraction: 0 }],
+    });
+  };
+
+  const removePoint = (index: number) => updateCurve({ points: curve.points.filter((_, i) => i !== index) });
+
+  const depthSource = ASSET_DEPTH_SOURCE[asset];
+  const isModified = JSON.stringify(curve) !== JSON.stringify(DEFAULT_DEPTH_DAMAGE_CONFIG[asset]);
+  const chartData = [...curve.points]
+    .sort((a, b) => a.depth - b.depth)
+    .map((p) => ({ depth: p.depth, fraction: Math.max(0, Math.min(1, p.fraction)) * 100 }));
+
+  const totalFor = (results: EadResult[] | null, maintenance: string) =>
+    results?.find((r) => r.climate === climate && r.maintenance === maintenance && r.region === 'TOTAL')?.eadTotal;
+
+  return (
+    <div className={cn('space-y-3 text-xs', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-slate-600">Damage source:</span>
+        <Button
+          variant={source === 'original' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onSourceChange('original')}
+          className="text-xs h-7"
+        >
+          risk.json (xlsx)
+        </Button>
+        <Button
+          variant={source === 'curves' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onSourceChange('curves')}
+          className="text-xs h-7"
+        >
+          Depth–damage curves
+        </Button>
+      </div>
+
+      {source === 'curves' && (
+        <>
+          {/* Status */}
+          {error ? (
+            <p className="text-red-600">
+              Could not load impact depth bins: {error}. Results use risk.json until they load.
+            </p>
+          ) : isLoading || !result ? (
+            <p className="flex items-center gap-1.5 text-slate-500">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Loading impact depth bins…
+            </p>
+          ) : (
+            <p className="text-slate-500">
+              Dmg = Exp × mean damage fraction over the scenario's depth bins × unit value.
+              {' '}{result.recomputedCells.toLocaleString()} scenario/district/asset values recomputed
+              {result.fallbackCells > 0 && `, ${result.fallbackCells.toLocaleString()} kept from risk.json (no depth bins)`}.
+            </p>
+          )}
+
+          {/* Asset selection */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-slate-600">Asset:</span>
+            <select
+              value={asset}
+              onChange={(e) => setAsset(e.target.value as RiskAssetKey)}
+              className="text-xs h-7 border border-slate-200 rounded-md px-2 bg-white"
+            >
+              {RISK_ASSET_KEYS.map((a) => (
+                <option key={a} value={a}>{RISK_ASSET_LABELS[a]}</option>
+              ))}
+            </select>
+            <span className="text-slate-500">
+              Depth bins from {depthSource === 'population' ? 'population impact' : `${EXPOSURE_LAYER_LABELS[depthSource]} layer`}
+            </span>
+            <div className="ml-auto flex gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-xs h-7"
+                disabled={!isModified}
+                onClick={() => onChange({ ...value, [asset]: DEFAULT_DEPTH_DAMAGE_CONFIG[asset] })}
+              >
+                <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                Reset asset
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-xs h-7"
+                disabled={value === DEFAULT_DEPTH_DAMAGE_CONFIG}
+                onClick={() => onChange(DEFAULT_DEPTH_DAMAGE_CONFIG)}
+              >
+                Reset all
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {/* Curve vertices */}
+            <div className="space-y-1.5">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="text-left py-1 px-1 font-medium text-slate-600">Depth (m)</th>
+                    <th className="text-left py-1 px-1 font-medium text-slate-600">Damage (%)</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {curve.points.map((p, i) => (
+                    <tr key={i}>
+                      <td className="py-0.5 px-1">
+                        <Input
+                          type="number"
+                          step={0.1}
+                          min={0}
+                          value={p.depth}
+                          onChange={(e) => {
+                            const depth = parseFloat(e.target.value);
+                            if (Number.isFinite(depth) && depth >= 0) updatePoint(i, { depth });
+                          }}
+                          className="h-7 w-20 text-xs"
+                        />
+                      </td>
+                      <td className="py-0.5 px-1">
+                        <Input
+                          type="number"
+                          step={1}
+                          min={0}
+                          max={100}
+                          value={Math.round(p.fraction * 1000) / 10}
+                          onChange={(e) => {
+                            const percent = parseFloat(e.target.value);
+                            if (Number.isFinite(percent) && percent >= 0 && percent <= 100) {
+                              updatePoint(i, { fraction: percent / 100 });
+                            }
+                          }}
+                          className="h-7 w-20 text-xs"
+                        />
+                      </td>
+                      <td className="py-0.5 px-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          disabled={curve.points.length <= 1}
+                          onClick={() => removePoint(i)}
+                          title="Remove point"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <Button size="sm" variant="outline" className="text-xs h-7" onClick={addPoint}>
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                Add point
+              </Button>
+              <label className="flex items-center gap-2 pt-1">
+                <span className="font-medium text-slate-600">Unit value:</span>
+                <Input
+                  type="number"
+                  step={1}
+                  min={0}
+                  value={curve.unitValue}
+                  onChange={(e) => {
+                    const unitValue = parseFloat(e.target.value);
+                    if (Number.isFinite(unitValue) && unitValue >= 0) updateCurve({ unitValue });
+                  }}
+                  className="h-7 w-28 text-xs"
+                />
+                <span className="text-slate-500">USD per unit (risk.json: {DEFAULT_DEPTH_DAMAGE_CONFIG[asset].unitValue.toLocaleString()})</span>
+              </label>
+            </div>
+
+            {/* Curve preview */}
+            <ResponsiveContainer width="100%" height={180}>
+              <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis
+                  dataKey="depth"
+                  type="number"
+                  domain={[0, (max: number) => Math.max(max, CHART_MAX_DEPTH)]}
+                  tickFormatter={(v: number) => `${v}m`}
+                  tick={{ fontSize: 10 }}
+                />
+                <YAxis domain={[0, 100]} tickFormatter={(v: number) => `${v}%`} tick={{ fontSize: 10 }} width={40} />
+                <Tooltip
+                  formatter={(v: number) => [`${v.toFixed(1)}%`, 'Damage']}
+                  labelFormatter={(v: number) => `Depth ${v} m`}
+                />
+                <Line
+                  dataKey="fraction"
+                  type="linear"
+                  stroke={RISK_ASSET_COLORS[asset]}
+                  strokeWidth={2}
+                  dot={{ r: 3, fill: RISK_ASSET_COLORS[asset] }}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Original vs curves */}
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-1.5 px-2 font-medium text-slate-600">Total EAD</th>
+                <th className="text-right py-1.5 px-2 font-medium text-slate-600">risk.json</th>
+                <th className="text-right py-1.5 px-2 font-medium text-slate-600">Curves</th>
+                <th className="text-right py-1.5 px-2 font-medium text-slate-600">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MAINTENANCE_LEVELS.map((m) => {
+                const original = totalFor(originalEadResults, m);
+                const curves = result ? totalFor(eadResults, m) : undefined;
+                const change = original && curves !== undefined ? ((curves - original) / original) * 100 : null;
+                return (
+                  <tr key={m} className="border-b border-slate-100">
+                    <td className="py-1.5 px-2 text-slate-700">{MAINTENANCE_LABELS[m]}</td>
+                    <td className="py-1.5 px-2 text-right">{original !== undefined ? formatRiskValueFull(original, 'Dmg') : '—'}</td>
+                    <td className="py-1.5 px-2 text-right font-medium">{curves !== undefined ? formatRiskValueFull(curves, 'Dmg') : '—'}</td>
+                    <td
+                      className={cn(
+                        'py-1.5 px-2 text-right',
+                        change !== null && change > 0 && 'text-red-600',
+                        change !== null && change < 0 && 'text-emerald-600'
+                      )}
+                    >
+                      {change !== null ? `${change > 0 ? '+' : ''}${change.toFixed(1)}%` : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
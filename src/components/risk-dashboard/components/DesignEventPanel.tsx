@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Crosshair, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  DISPLAY_ASSET_KEYS,
+  ASSET_SUB_KEY_LABELS,
+  MAINTENANCE_LEVELS,
+  MAINTENANCE_LABELS,
+  RETURN_PERIODS,
+  formatRiskValueFull,
+} from '@/types/risk';
+import type { DistrictName, RiskJsonData } from '@/types/risk';
+import { aepToReturnPeriod, formatReturnPeriod } from '@/lib/rp-interpolation';
+import { useDesignEvent } from '../hooks/useDesignEvent';
+
+const DEFAULT_DESIGN_RP = 200;
+
+interface DesignEventPanelProps {
+  data: RiskJsonData;
+  climate: 'present' | 'future';
+  className?: string;
+}
+
+/**
+ * Damage, affected population and fatalities for a user-chosen design event
+ * (any return period or AEP), interpolated between the modelled return periods.
+ */
+export function DesignEventPanel({ data, climate, className }: DesignEventPanelProps) {
+  const [inputMode, setInputMode] = useState<'rp' | 'aep'>('rp');
+  const [rawInput, setRawInput] = useState(String(DEFAULT_DESIGN_RP));
+  const [maintenance, setMaintenance] = useState<'breaches' | 'redcapacity' | 'perfect'>('breaches');
+  const [breakdownRegion, setBreakdownRegion] = useState<DistrictName | 'TOTAL'>('TOTAL');
+
+  const parsed = parseFloat(rawInput);
+  const returnPeriod =
+    inputMode === 'rp'
+      ? parsed >= 1 ? parsed : NaN
+      : parsed > 0 && parsed <= 100 ? aepToReturnPeriod(parsed / 100) : NaN;
+  const inputInvalid = !Number.isFinite(returnPeriod);
+
+  const { result, populationLoading, populationError } = useDesignEvent(
+    data,
+    climate,
+    maintenance,
+    inputInvalid ? 0 : returnPeriod
+  );
+
+  const switchInputMode = (mode: 'rp' | 'aep') => {
+    if (mode === inputMode) return;
+    // Carry the current event across so toggling does not lose it
+    if (!inputInvalid) {
+      setRawInput(mode === 'aep' ? String(+(100 / returnPeriod).toPrecision(3)) : String(+returnPeriod.toPrecision(4)));
+    }
+    setInputMode(mode);
+  };
+
+  const breakdown = result?.rows.find((r) => r.region === breakdownRegion);
+
+  return (
+    <div className={cn('px-4 py-3 rounded-lg border border-slate-200 space-y-3', className)}>
+      <div className="flex items-center gap-2">
+        <Crosshair className="w-4 h-4 text-indigo-600" />
+        <span className="text-sm font-semibold text-slate-700">Design Event</span>
+      </div>
+
+      {/* Inputs */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <div className="flex gap-1">
+          <Button
+            variant={inputMode === 'rp' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => switchInputMode('rp')}
+            className="text-xs h-7"
+          >
+            Return period
+          </Button>
+          <Button
+            variant={inputMode === 'aep' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => switchInputMode('aep')}
+            className="text-xs h-7"
+          >
+            AEP
+          </Button>
+        </div>
+        <Input
+          type="number"
+          min={inputMode === 'rp' ? 1 : 0}
+          step={inputMode === 'rp' ? 10 : 0.1}
+          value={rawInput}
+          onChange={(e) => setRawInput(e.target.value)}
+          className={cn('h-7 w-24 text-xs', inputInvalid && 'border-red-400')}
+        />
+        <span className="text-slate-500">{inputMode === 'rp' ? 'years' : '% per year'}</span>
+        <div className="flex gap-1 ml-auto">
+          {MAINTENANCE_LEVELS.map((m) => (
+            <Button
+              key={m}
+              variant={maintenance === m ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setMaintenance(m)}
+              className="text-xs h-7"
+            >
+              {MAINTENANCE_LABELS[m]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {inputInvalid ? (
+        <p className="text-xs text-red-600">
+          {inputMode === 'rp' ? 'Enter a return period of at least 1 year' : 'Enter an AEP between 0 and 100%'}
+        </p>
+      ) : (
+        result && (
+          <>
+            <p className="text-xs text-slate-500">
+              {formatReturnPeriod(result.returnPeriod)}
+              {result.range === 'within'
+                ? ' — interpolated in log-probability between modelled return periods'
+                : ` — outside the modelled ${RETURN_PERIODS[0]}–${RETURN_PERIODS[RETURN_PERIODS.length - 1]}yr range; values held at the ${result.range === 'above' ? 'rarest' : 'most frequent'} modelled event`}
+            </p>
+
+            {/* Per-district table */}
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-1.5 px-2 font-medium text-slate-600">District</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">Damage</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">Affected Pop.</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">Fatalities (low–high)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map((row) => (
+                  <tr
+                    key={row.region}
+                    onClick={() => setBreakdownRegion(row.region)}
+                    className={cn(
+                      'border-b border-slate-100 cursor-pointer hover:bg-slate-50',
+                      row.region === 'TOTAL' && 'font-semibold',
+                      row.region === breakdownRegion && 'bg-indigo-50'
+                    )}
+                  >
+                    <td className="py-1.5 px-2 text-slate-700">{row.region === 'TOTAL' ? 'All districts' : row.region}</td>
+                    <td className="py-1.5 px-2 text-right">{formatRiskValueFull(row.damageTotal, 'Dmg')}</td>
+                    <td className="py-1.5 px-2 text-right">
+                      {row.affectedPopulation !== null ? Math.round(row.affectedPopulation).toLocaleString() : '—'}
+                    </td>
+                    <td className="py-1.5 px-2 text-right">
+                      {row.fatalities
+                        ? `${Math.round(row.fatalities.moderate).toLocaleString()} (${Math.round(row.fatalities.low).toLocaleString()}–${Math.round(row.fatalities.high).toLocaleString()})`
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {populationLoading && (
+              <p className="flex items-center gap-1.5 text-xs text-slate-500">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Loading population risk…
+              </p>
+            )}
+            {populationError && (
+              <p className="text-xs text-red-600">Population risk unavailable: {populationError}</p>
+            )}
+
+            {/* Asset breakdown for the selected row */}
+            {breakdown && (
+              <div>
+                <h5 className="text-xs font-semibold text-slate-600 mb-1">
+                  Damage by asset — {breakdown.region === 'TOTAL' ? 'All districts' : breakdown.region}
+                </h5>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs">
+                  {DISPLAY_ASSET_KEYS.filter((a) => breakdown.damage[a] > 0)
+                    .sort((a, b) => breakdown.damage[b] - breakdown.damage[a])
+                    .map((asset) => (
+                      <div key={asset} className="flex justify-between">
+                        <span className="text-slate-600">{ASSET_SUB_KEY_LABELS[asset]}</span>
+                        <span className="font-medium text-slate-800">{formatRiskValueFull(breakdown.damage[asset], 'Dmg')}</span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            )}
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ErrorBar,
 } from 'recharts';
 import {
   RISK_ASSET_COLORS,
@@ -14,10 +15,13 @@ import {
   formatRiskValueFull,
   ASSET_SUB_KEYS,
 } from '@/types/risk';
+import type { UncertaintyPercentiles } from '@/types/uncertainty';
 
 export interface EadBarChartData {
   district: string;
   rawData: Record<string, number>;
+  /** Monte Carlo P5/P50/P95 of the district total, drawn as an error bar */
+  band?: UncertaintyPercentiles;
 }
 
 interface EadBarChartProps {
@@ -56,6 +60,7 @@ function CustomTooltip({ active, payload, label }: any) {
   if (!active || !payload?.length) return null;
 
   const rawData: Record<string, number> | undefined = payload[0]?.payload?.rawData;
+  const band: UncertaintyPercentiles | undefined = payload[0]?.payload?.band;
   const total = payload.reduce((sum: number, entry: any) => sum + (entry.value as number), 0);
 
   return (
@@ -100,6 +105,14 @@ function CustomTooltip({ active, payload, label }: any) {
         <span className="text-slate-700 font-medium">Total EAD:</span>
         <span className="font-bold text-slate-900">{formatRiskValueFull(total, 'Dmg')}</span>
       </div>
+      {band && (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <span>90% interval (P5–P95):</span>
+          <span className="font-medium text-slate-700">
+            {formatRiskValueFull(band.p5, 'Dmg')} – {formatRiskValueFull(band.p95, 'Dmg')}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
@@ -107,12 +120,20 @@ function CustomTooltip({ active, payload, label }: any) {
 export function EadBarChart({ data }: EadBarChartProps) {
   // Transform data to have grouped values
   const chartData = data.map((item) => {
-    const grouped: any = { district: item.district, rawData: item.rawData };
+    const grouped: any = { district: item.district, rawData: item.rawData, band: item.band };
+    let total = 0;
     for (const [group, assets] of Object.entries(ASSET_GROUPS)) {
       grouped[group] = assets.reduce((sum, asset) => sum + (item.rawData[asset] ?? 0), 0);
+      total += grouped[group];
+    }
+    // Error bar offsets from the stacked total: [total - P5, P95 - total]
+    if (item.band) {
+      grouped.band_error = [Math.max(0, total - item.band.p5), Math.max(0, item.band.p95 - total)];
     }
     return grouped;
   });
+  const hasBands = data.some((item) => item.band);
+  const groupKeys = Object.keys(ASSET_GROUPS);
 
   const renderLegend = () => (
     <div className="flex items-center justify-center gap-4 pt-2 text-xs flex-wrap">
@@ -122,6 +143,12 @@ export function EadBarChart({ data }: EadBarChartProps) {
           <span className="text-slate-600">{label}</span>
         </div>
       ))}
+      {hasBands && (
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-0.5 bg-slate-800" />
+          <span className="text-slate-600">P5–P95</span>
+        </div>
+      )}
     </div>
   );
 
@@ -133,14 +160,19 @@ export function EadBarChart({ data }: EadBarChartProps) {
         <YAxis type="category" dataKey="district" width={130} tick={{ fontSize: 11 }} />
         <Tooltip content={<CustomTooltip />} />
         <Legend content={renderLegend} />
-        {Object.keys(ASSET_GROUPS).map((group) => (
+        {groupKeys.map((group, i) => (
           <Bar
             key={group}
             dataKey={group}
             name={GROUP_LABELS[group]}
             stackId="ead"
             fill={GROUP_COLORS[group]}
-          />
+          >
+            {/* Anchor the uncertainty band on the top segment so it spans the stacked total */}
+            {hasBands && i === groupKeys.length - 1 && (
+              <ErrorBar dataKey="band_error" direction="x" width={6} stroke="#1e293b" strokeWidth={1.5} />
+            )}
+          </Bar>
         ))}
       </BarChart>
     </ResponsiveContainer>
@@ -0,0 +1,121 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type {
+  EadIntegrationMethod,
+  EadIntegrationOptions,
+  EadUpperTail,
+} from '@/lib/ead-integration';
+import { EAD_METHOD_LABELS, EAD_UPPER_TAIL_LABELS } from '@/lib/ead-integration';
+
+// Suggested no-damage threshold when the lower tail is first switched on
+const DEFAULT_NO_DAMAGE_RP = 1.5;
+
+interface EadIntegrationSettingsProps {
+  value: EadIntegrationOptions;
+  onChange: (value: EadIntegrationOptions) => void;
+  /** Most frequent modelled return period (lower tail must sit below it) */
+  firstReturnPeriod: number;
+  /** Rarest modelled return period (extrapolation must reach beyond it) */
+  lastReturnPeriod: number;
+  className?: string;
+}
+
+export function EadIntegrationSettings({
+  value,
+  onChange,
+  firstReturnPeriod,
+  lastReturnPeriod,
+  className,
+}: EadIntegrationSettingsProps) {
+  const update = (patch: Partial<EadIntegrationOptions>) => onChange({ ...value, ...patch });
+
+  const noDamageRp = value.noDamageReturnPeriod;
+  const lowerTailOn = noDamageRp !== null;
+  const lowerTailInvalid = noDamageRp !== null && (noDamageRp <= 1 || noDamageRp >= firstReturnPeriod);
+  const maxRpInvalid = value.upperTail === 'extrapolate' && value.maxReturnPeriod <= lastReturnPeriod;
+
+  return (
+    <div className={cn('space-y-2 text-xs', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-slate-600 w-24">Method:</span>
+        {(Object.keys(EAD_METHOD_LABELS) as EadIntegrationMethod[]).map((method) => (
+          <Button
+            key={method}
+            variant={value.method === method ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => update({ method })}
+            className="text-xs h-7"
+          >
+            {EAD_METHOD_LABELS[method]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-slate-600 w-24">Lower tail:</span>
+        <label className="flex items-center gap-1.5 text-slate-600">
+          <input
+            type="checkbox"
+            checked={lowerTailOn}
+            onChange={(e) => update({ noDamageReturnPeriod: e.target.checked ? DEFAULT_NO_DAMAGE_RP : null })}
+          />
+          No damage at or below
+        </label>
+        <Input
+          type="number"
+          step={0.1}
+          min={1}
+          disabled={!lowerTailOn}
+          value={noDamageRp ?? DEFAULT_NO_DAMAGE_RP}
+          onChange={(e) => {
+            const rp = parseFloat(e.target.value);
+            if (Number.isFinite(rp)) update({ noDamageReturnPeriod: rp });
+          }}
+          className={cn('h-7 w-20 text-xs', lowerTailInvalid && 'border-red-400')}
+        />
+        <span className="text-slate-500">yr</span>
+        {lowerTailInvalid && (
+          <span className="text-red-600">Must be between 1 and {firstReturnPeriod}yr</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-slate-600 w-24">Upper tail:</span>
+        {(Object.keys(EAD_UPPER_TAIL_LABELS) as EadUpperTail[]).map((tail) => (
+          <Button
+            key={tail}
+            variant={value.upperTail === tail ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => update({ upperTail: tail })}
+            className="text-xs h-7"
+          >
+            {EAD_UPPER_TAIL_LABELS[tail]}
+          </Button>
+        ))}
+        {value.upperTail === 'extrapolate' && (
+          <>
+            <span className="text-slate-600">to</span>
+            <Input
+              type="number"
+              step={100}
+              min={lastReturnPeriod}
+              value={value.maxReturnPeriod}
+              onChange={(e) => {
+                const rp = parseFloat(e.target.value);
+                if (Number.isFinite(rp)) update({ maxReturnPeriod: rp });
+              }}
+              className={cn('h-7 w-24 text-xs', maxRpInvalid && 'border-red-400')}
+            />
+            <span className="text-slate-500">
+              yr (AEP {value.maxReturnPeriod > 0 ? (100 / value.maxReturnPeriod).toPrecision(2) : '—'}%)
+            </span>
+            {maxRpInvalid && (
+              <span className="text-red-600">Must exceed {lastReturnPeriod}yr</span>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ErrorBar,
 } from 'recharts';
 import {
   RISK_ASSET_COLORS,
@@ -15,14 +16,19 @@ import {
   ASSET_SUB_KEYS,
   COMMERCE_UPLIFT_FACTOR,
 } from '@/types/risk';
+import type { UncertaintyPercentiles } from '@/types/uncertainty';
 
 export interface EalBarChartData {
   district: string;
   rawData: Record<string, number>;
+  /** Monte Carlo P5/P50/P95 of the district total, drawn as an error bar */
+  band?: UncertaintyPercentiles;
 }
 
 interface EalBarChartProps {
   data: EalBarChartData[];
+  /** Commerce & Industries uplift of the active factor profile */
+  commerceUplift?: number;
 }
 
 // Same asset grouping as EAD (sectors are internal to factor application only)
@@ -59,6 +65,7 @@ function CustomTooltip({ active, payload, label }: any) {
   if (!active || !payload?.length) return null;
 
   const rawData: Record<string, number> | undefined = payload[0]?.payload?.rawData;
+  const band: UncertaintyPercentiles | undefined = payload[0]?.payload?.band;
   const total = payload.reduce((sum: number, entry: any) => sum + (entry.value as number), 0);
 
   return (
@@ -103,23 +110,37 @@ function CustomTooltip({ active, payload, label }: any) {
         <span className="text-slate-700 font-medium">Total EAL:</span>
         <span className="font-bold text-slate-900">{formatRiskValueFull(total, 'Dmg')}</span>
       </div>
+      {band && (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <span>90% interval (P5–P95):</span>
+          <span className="font-medium text-slate-700">
+            {formatRiskValueFull(band.p5, 'Dmg')} – {formatRiskValueFull(band.p95, 'Dmg')}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
 
-export function EalBarChart({ data }: EalBarChartProps) {
+export function EalBarChart({ data, commerceUplift = COMMERCE_UPLIFT_FACTOR }: EalBarChartProps) {
   // Transform data to have grouped values
   const chartData = data.map((item) => {
-    const grouped: any = { district: item.district, rawData: item.rawData };
+    const grouped: any = { district: item.district, rawData: item.rawData, band: item.band };
     let sumOfGroups = 0;
     for (const [group, assets] of Object.entries(ASSET_GROUPS)) {
       grouped[group] = assets.reduce((sum, asset) => sum + (item.rawData[asset] ?? 0), 0);
       sumOfGroups += grouped[group];
     }
     // Commerce & Industries = flat uplift on the sum of all asset losses
-    grouped.commerce = sumOfGroups * COMMERCE_UPLIFT_FACTOR;
+    grouped.commerce = sumOfGroups * commerceUplift;
+    // Error bar offsets from the stacked total: [total - P5, P95 - total]
+    if (item.band) {
+      const total = sumOfGroups + grouped.commerce;
+      grouped.band_error = [Math.max(0, total - item.band.p5), Math.max(0, item.band.p95 - total)];
+    }
     return grouped;
   });
+  const hasBands = data.some((item) => item.band);
 
   const renderLegend = () => (
     <div className="flex items-center justify-center gap-4 pt-2 text-xs flex-wrap">
@@ -129,6 +150,12 @@ export function EalBarChart({ data }: EalBarChartProps) {
           <span className="text-slate-600">{label}</span>
         </div>
       ))}
+      {hasBands && (
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-0.5 bg-slate-800" />
+          <span className="text-slate-600">P5–P95</span>
+        </div>
+      )}
     </div>
   );
 
@@ -155,7 +182,10 @@ export function EalBarChart({ data }: EalBarChartProps) {
           name={GROUP_LABELS.commerce}
           stackId="eal"
           fill={GROUP_COLORS.commerce}
-        />
+        >
+          {/* Commerce is the top segment, so the band spans the stacked total */}
+          {hasBands && <ErrorBar dataKey="band_error" direction="x" width={6} stroke="#1e293b" strokeWidth={1.5} />}
+        </Bar>
       </BarChart>
     </ResponsiveContainer>
   );
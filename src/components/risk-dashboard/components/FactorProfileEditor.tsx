@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { Plus, RotateCcw, Save, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/useAuth';
+import { cn } from '@/lib/utils';
+import {
+  ASSET_SECTOR,
+  OFFICIAL_FACTOR_PROFILE,
+  RISK_ASSET_KEYS,
+  RISK_ASSET_LABELS,
+  SECTOR_KEYS,
+  SECTOR_LABELS,
+} from '@/types/risk';
+import type { FactorProfile, RiskAssetKey, SectorKey } from '@/types/risk';
+import { useFactorProfiles } from '../hooks/useFactorProfiles';
+
+// Name given to edits made on top of the official profile until saved
+const DRAFT_NAME = 'Untitled';
+
+interface FactorProfileEditorProps {
+  /** Active profile (drives the EAL, hotspot and BCA results) */
+  value: FactorProfile;
+  onChange: (profile: FactorProfile) => void;
+  className?: string;
+}
+
+/** True when two profiles carry the same factors */
+function sameFactors(a: FactorProfile, b: FactorProfile): boolean {
+  const overrideKeys = new Set([...Object.keys(a.assetOverrides), ...Object.keys(b.assetOverrides)]) as Set<RiskAssetKey>;
+  return (
+    a.commerceUplift === b.commerceUplift &&
+    SECTOR_KEYS.every((s) => a.sectorFactors[s] === b.sectorFactors[s]) &&
+    [...overrideKeys].every((k) => a.assetOverrides[k] === b.assetOverrides[k])
+  );
+}
+
+/** Parse a non-negative number input; null when invalid */
+function parseFactor(raw: string): number | null {
+  const value = parseFloat(raw);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Edit sector Loss/Damage factors, per-asset overrides and the Commerce &
+ * Industries uplift, and manage named per-user profiles.
+ *
+ * The official profile is read-only: editing it starts an unsaved draft.
+ */
+export function FactorProfileEditor({ value, onChange, className }: FactorProfileEditorProps) {
+  const { isAuthenticated } = useAuth();
+  const { profiles, isLoading, error, createProfile, updateProfile, deleteProfile } = useFactorProfiles(isAuthenticated);
+  const [saveAsName, setSaveAsName] = useState('');
+
+  const saved = value.id !== null ? profiles.find((p) => p.id === value.id) : undefined;
+  const isDraft = !value.official && value.id === null;
+  const isDirty = isDraft || (saved !== undefined && (saved.name !== value.name || !sameFactors(saved, value)));
+
+  const update = (patch: Partial<FactorProfile>) => {
+    onChange(
+      value.official
+        ? { ...value, ...patch, id: null, official: false, name: DRAFT_NAME }
+        : { ...value, ...patch }
+    );
+  };
+
+  const setSectorFactor = (sector: SectorKey, raw: string) => {
+    const factor = parseFactor(raw);
+    if (factor !== null) update({ sectorFactors: { ...value.sectorFactors, [sector]: factor } });
+  };
+
+  const setAssetOverride = (asset: RiskAssetKey, factor: number | undefined) => {
+    const assetOverrides = { ...value.assetOverrides };
+    if (factor === undefined) {
+      delete assetOverrides[asset];
+    } else {
+      assetOverrides[asset] = factor;
+    }
+    update({ assetOverrides });
+  };
+
+  const selectProfile = (id: string) => {
+    if (id === 'official') {
+      onChange(OFFICIAL_FACTOR_PROFILE);
+      return;
+    }
+    const profile = profiles.find((p) => String(p.id) === id);
+    if (profile) onChange(profile);
+  };
+
+  const handleSave = async () => {
+    if (value.id === null) return;
+    try {
+      onChange(await updateProfile(value.id, value));
+    } catch {
+      // Error is surfaced by useFactorProfiles
+    }
+  };
+
+  const handleSaveAs = async () => {
+    const name = saveAsName.trim();
+    if (!name) return;
+    try {
+      onChange(await createProfile({ ...value, name }));
+      setSaveAsName('');
+    } catch {
+      // Error is surfaced by useFactorProfiles
+    }
+  };
+
+  const handleDelete = async () => {
+    if (value.id === null) return;
+    if (!window.confirm(`Delete factor profile "${value.name}"?`)) return;
+    try {
+      await deleteProfile(value.id);
+      onChange(OFFICIAL_FACTOR_PROFILE);
+    } catch {
+      // Error is surfaced by useFactorProfiles
+    }
+  };
+
+  const overriddenAssets = RISK_ASSET_KEYS.filter((a) => value.assetOverrides[a] !== undefined);
+  const availableAssets = RISK_ASSET_KEYS.filter((a) => value.assetOverrides[a] === undefined);
+
+  return (
+    <div className={cn('space-y-3 text-xs', className)}>
+      {/* Profile selection */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-slate-600">Profile:</span>
+        <select
+          value={value.official ? 'official' : value.id !== null ? String(value.id) : 'draft'}
+          onChange={(e) => selectProfile(e.target.value)}
+          className="text-xs h-7 border border-slate-200 rounded-md px-2 bg-white"
+        >
+          <option value="official">{OFFICIAL_FACTOR_PROFILE.name} (default)</option>
+          {isDraft && <option value="draft">{value.name} (unsaved)</option>}
+          {profiles.map((p) => (
+            <option key={p.id} value={String(p.id)}>{p.name}</option>
+          ))}
+        </select>
+        {value.official ? (
+          <Badge className="text-xs bg-emerald-600">Official</Badge>
+        ) : (
+          <Badge variant="secondary" className="text-xs">What-if</Badge>
+        )}
+        {isDirty && <span className="text-amber-600">Unsaved changes</span>}
+        {!value.official && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-xs h-7 ml-auto"
+            onClick={() => onChange(OFFICIAL_FACTOR_PROFILE)}
+            title="Switch back to the official factors"
+          >
+            <RotateCcw className="w-3.5 h-3.5 mr-1" />
+            Official
+          </Button>
+        )}
+      </div>
+
+      {/* Sector factors */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-3 gap-y-1.5">
+        {SECTOR_KEYS.map((sector) => {
+          const official = OFFICIAL_FACTOR_PROFILE.sectorFactors[sector];
+          const changed = value.sectorFactors[sector] !== official;
+          return (
+            <label key={sector} className="flex items-center justify-between gap-1.5">
+              <span className="text-slate-600 truncate" title={SECTOR_LABELS[sector]}>{SECTOR_LABELS[sector]}</span>
+              <Input
+                type="number"
+                step={0.01}
+                min={0}
+                value={value.sectorFactors[sector]}
+                onChange={(e) => setSectorFactor(sector, e.target.value)}
+                className={cn('h-7 w-20 text-xs', changed && 'border-amber-400')}
+                title={`Official: ${official}`}
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      {/* Asset overrides */}
+      <div className="space-y-1.5">
+        <span className="font-medium text-slate-600">Asset overrides</span>
+        <span className="text-slate-400"> — replace the sector factor for one asset</span>
+        {overriddenAssets.map((asset) => (
+          <div key={asset} className="flex items-center gap-2">
+            <span className="text-slate-600 w-40 truncate">
+              {RISK_ASSET_LABELS[asset]}
+              <span className="text-slate-400"> ({SECTOR_LABELS[ASSET_SECTOR[asset]]})</span>
+            </span>
+            <Input
+              type="number"
+              step={0.01}
+              min={0}
+              value={value.assetOverrides[asset]}
+              onChange={(e) => {
+                const factor = parseFactor(e.target.value);
+                if (factor !== null) setAssetOverride(asset, factor);
+              }}
+              className="h-7 w-20 text-xs"
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 p-0"
+              onClick={() => setAssetOverride(asset, undefined)}
+              title="Remove override"
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        ))}
+        {availableAssets.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Plus className="w-3.5 h-3.5 text-slate-400" />
+            <select
+              value=""
+              onChange={(e) => {
+                const asset = e.target.value as RiskAssetKey;
+                if (asset) setAssetOverride(asset, value.sectorFactors[ASSET_SECTOR[asset]]);
+              }}
+              className="text-xs h-7 border border-slate-200 rounded-md px-2 bg-white"
+            >
+              <option value="">Add override…</option>
+              {availableAssets.map((a) => (
+                <option key={a} value={a}>{RISK_ASSET_LABELS[a]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {/* Commerce uplift */}
+      <label className="flex items-center gap-2">
+        <span className="font-medium text-slate-600">Commerce &amp; Industries uplift:</span>
+        <Input
+          type="number"
+          step={1}
+          min={0}
+          value={Math.round(value.commerceUplift * 10000) / 100}
+          onChange={(e) => {
+            const percent = parseFactor(e.target.value);
+            if (percent !== null) update({ commerceUplift: percent / 100 });
+          }}
+          className={cn(
+            'h-7 w-20 text-xs',
+            value.commerceUplift !== OFFICIAL_FACTOR_PROFILE.commerceUplift && 'border-amber-400'
+          )}
+        />
+        <span className="text-slate-500">% of total asset loss</span>
+      </label>
+
+      {/* Persistence */}
+      {isAuthenticated ? (
+        <div className="flex flex-wrap items-center gap-2 pt-1 border-t border-slate-100">
+          {value.id !== null && (
+            <>
+              <Button size="sm" className="text-xs h-7" disabled={!isDirty || isLoading} onClick={handleSave}>
+                <Save className="w-3.5 h-3.5 mr-1" />
+                Save
+              </Button>
+              <Button size="sm" variant="ghost" className="text-xs h-7 text-red-600" disabled={isLoading} onClick={handleDelete}>
+                <Trash2 className="w-3.5 h-3.5 mr-1" />
+                Delete
+              </Button>
+            </>
+          )}
+          <Input
+            value={saveAsName}
+            onChange={(e) => setSaveAsName(e.target.value)}
+            placeholder="New profile name"
+            maxLength={100}
+            className="h-7 w-40 text-xs"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-xs h-7"
+            disabled={!saveAsName.trim() || isLoading}
+            onClick={handleSaveAs}
+          >
+            Save as
+          </Button>
+          {error && <span className="text-red-600">{error}</span>}
+        </div>
+      ) : (
+        <p className="text-slate-500 pt-1 border-t border-slate-100">
+          Log in to save named factor profiles. Unsaved edits still apply to the results below.
+        </p>
+      )}
+    </div>
+  );
+}
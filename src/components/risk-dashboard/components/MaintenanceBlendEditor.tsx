@@ -0,0 +1,145 @@
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { MAINTENANCE_LEVELS, MAINTENANCE_LABELS, RETURN_PERIODS } from '@/types/risk';
+import type { MaintenanceLevel } from '@/types/risk';
+import { DEFAULT_MAINTENANCE_BLEND } from '@/types/maintenance-blend';
+import type { MaintenanceBlend, MaintenanceWeights } from '@/types/maintenance-blend';
+
+interface MaintenanceBlendEditorProps {
+  value: MaintenanceBlend;
+  onChange: (value: MaintenanceBlend) => void;
+  className?: string;
+}
+
+function weightsSum(weights: MaintenanceWeights): number {
+  return MAINTENANCE_LEVELS.reduce((sum, m) => sum + (weights[m] ?? 0), 0);
+}
+
+function WeightInput({ value, onChange }: { value: number; onChange: (v: number) => void }) {
+  return (
+    <Input
+      type="number"
+      min={0}
+      max={100}
+      step={5}
+      value={Math.round(value * 1000) / 10}
+      onChange={(e) => {
+        const percent = parseFloat(e.target.value);
+        if (Number.isFinite(percent) && percent >= 0) onChange(percent / 100);
+      }}
+      className="h-7 w-20 text-xs text-right"
+    />
+  );
+}
+
+/**
+ * Probabilities of the perfect, reduced-capacity and breach states, either
+ * one set for every return period or per return period (fragility).
+ * Weights that do not add up to 100% are normalised when applied.
+ */
+export function MaintenanceBlendEditor({ value, onChange, className }: MaintenanceBlendEditorProps) {
+  const update = (patch: Partial<MaintenanceBlend>) => onChange({ ...value, ...patch });
+
+  const setWeight = (m: MaintenanceLevel, w: number) => update({ weights: { ...value.weights, [m]: w } });
+
+  const setRpWeight = (rp: number, m: MaintenanceLevel, w: number) => {
+    const key = String(rp);
+    update({
+      weightsByReturnPeriod: {
+        ...value.weightsByReturnPeriod,
+        [key]: { ...(value.weightsByReturnPeriod[key] ?? value.weights), [m]: w },
+      },
+    });
+  };
+
+  const sumNote = (weights: MaintenanceWeights) => {
+    const sum = weightsSum(weights);
+    return Math.abs(sum - 1) < 1e-6 ? null : `${Math.round(sum * 1000) / 10}% — normalised`;
+  };
+
+  return (
+    <div className={cn('space-y-2 text-xs', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-slate-600">Probabilities:</span>
+        <Button
+          variant={!value.rpDependent ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => update({ rpDependent: false })}
+          className="text-xs h-7"
+        >
+          Same at every RP
+        </Button>
+        <Button
+          variant={value.rpDependent ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => update({ rpDependent: true })}
+          className="text-xs h-7"
+        >
+          Per RP (fragility)
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-xs h-7 ml-auto"
+          disabled={value === DEFAULT_MAINTENANCE_BLEND}
+          onClick={() => onChange(DEFAULT_MAINTENANCE_BLEND)}
+        >
+          <RotateCcw className="w-3.5 h-3.5 mr-1" />
+          Reset
+        </Button>
+      </div>
+
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-slate-200">
+            <th className="text-left py-1 px-1 font-medium text-slate-600">{value.rpDependent ? 'Return period' : ''}</th>
+            {MAINTENANCE_LEVELS.map((m) => (
+              <th key={m} className="text-right py-1 px-1 font-medium text-slate-600">{MAINTENANCE_LABELS[m]} (%)</th>
+            ))}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {value.rpDependent ? (
+            RETURN_PERIODS.map((rp) => {
+              const weights = value.weightsByReturnPeriod[String(rp)] ?? value.weights;
+              const note = sumNote(weights);
+              return (
+                <tr key={rp}>
+                  <td className="py-0.5 px-1 text-slate-700">{rp}yr</td>
+                  {MAINTENANCE_LEVELS.map((m) => (
+                    <td key={m} className="py-0.5 px-1">
+                      <div className="flex justify-end">
+                        <WeightInput value={weights[m]} onChange={(w) => setRpWeight(rp, m, w)} />
+                      </div>
+                    </td>
+                  ))}
+                  <td className="py-0.5 px-1 text-amber-600 whitespace-nowrap">{note}</td>
+                </tr>
+              );
+            })
+          ) : (
+            <tr>
+              <td className="py-0.5 px-1 text-slate-700">All RPs</td>
+              {MAINTENANCE_LEVELS.map((m) => (
+                <td key={m} className="py-0.5 px-1">
+                  <div className="flex justify-end">
+                    <WeightInput value={value.weights[m]} onChange={(w) => setWeight(m, w)} />
+                  </div>
+                </td>
+              ))}
+              <td className="py-0.5 px-1 text-amber-600 whitespace-nowrap">{sumNote(value.weights)}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <p className="text-slate-500">
+        The Expected state blends the three modelled states at each return period with these probabilities,
+        then integrates as usual. It appears as a fourth maintenance option in the EAD, EAL and Hotspots views.
+      </p>
+    </div>
+  );
+}
@@ -7,16 +7,25 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceLine,
 } from 'recharts';
 import type { CurveSeries } from '../hooks/useRiskCurveData';
 import type { RiskMode } from '@/types/risk';
 import { formatRiskValue, formatRiskValueFull } from '@/types/risk';
+import { interpolateAtReturnPeriod } from '@/lib/rp-interpolation';
+
+/** Query marker: a vertical line at a return period and/or a horizontal line at a value */
+export type RiskCurveCrosshair = {
+  returnPeriod?: number | null;
+  value?: number | null;
+};
 
 interface RiskCurveChartProps {
   series: CurveSeries[];
   mode: RiskMode;
   logScale?: boolean;
   height?: number;
+  crosshair?: RiskCurveCrosshair;
   className?: string;
 }
 
@@ -53,6 +62,7 @@ export function RiskCurveChart({
   mode,
   logScale = false,
   height = 400,
+  crosshair,
   className,
 }: RiskCurveChartProps) {
   // Transform series data into format expected by Recharts
@@ -65,6 +75,22 @@ export function RiskCurveChart({
     return dataPoint;
   }) || [];
 
+  // Insert the queried return period as an interpolated row so the
+  // crosshair also lands on the category axis between modelled RPs
+  const queryRp = crosshair?.returnPeriod;
+  const queryValue = crosshair?.value ?? null;
+  if (queryRp && queryRp > 0 && !chartData.some((d) => d.returnPeriod === queryRp)) {
+    const row: Record<string, number> = { returnPeriod: queryRp };
+    series.forEach((s) => {
+      row[s.label] = interpolateAtReturnPeriod(
+        s.data.map((p) => ({ returnPeriod: p.returnPeriod, damage: p.value })),
+        queryRp
+      ).value;
+    });
+    chartData.push(row);
+    chartData.sort((a, b) => a.returnPeriod - b.returnPeriod);
+  }
+
   const maxValue = Math.max(...series.flatMap((s) => s.data.map((d) => d.value)));
 
   const domain = logScale
@@ -109,6 +135,22 @@ export function RiskCurveChart({
             scale={logScale ? 'log' : 'auto'}
           />
           <Tooltip content={<CustomTooltip mode={mode} />} />
+          {queryRp && queryRp > 0 && (
+            <ReferenceLine
+              x={queryRp}
+              stroke="#0f172a"
+              strokeDasharray="4 4"
+              label={{ value: `${+queryRp.toPrecision(4)}yr`, position: 'top', fontSize: 11, fill: '#0f172a' }}
+            />
+          )}
+          {queryValue !== null && queryValue > 0 && (
+            <ReferenceLine
+              y={queryValue}
+              stroke="#0f172a"
+              strokeDasharray="4 4"
+              label={{ value: formatRiskValue(queryValue, mode), position: 'insideTopLeft', fontSize: 11, fill: '#0f172a' }}
+            />
+          )}
           <Legend
             wrapperStyle={{ paddingTop: '10px' }}
             iconType="line"
@@ -1,9 +1,11 @@
 import { useState, useMemo } from 'react';
-import { X, TrendingUp, Info } from 'lucide-react';
+import { X, TrendingUp, Info, Crosshair } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import { useRiskCurveData } from '../hooks/useRiskCurveData';
 import { RiskCurveChart } from './RiskCurveChart';
+import type { RiskCurveCrosshair } from './RiskCurveChart';
 import {
   MAINTENANCE_LEVELS,
   MAINTENANCE_LABELS,
@@ -13,7 +15,22 @@ import {
   type RiskMode,
   type AssetSubKey,
   RISK_ASSET_COLORS,
+  formatRiskValueFull,
 } from '@/types/risk';
+import {
+  aepToReturnPeriod,
+  formatReturnPeriod,
+  interpolateAtReturnPeriod,
+  returnPeriodForValue,
+} from '@/lib/rp-interpolation';
+
+type CurveQueryMode = 'off' | 'rp' | 'aep' | 'value';
+
+const CURVE_QUERY_LABELS: Record<Exclude<CurveQueryMode, 'off'>, string> = {
+  rp: 'Value at RP',
+  aep: 'Value at AEP',
+  value: 'RP for value',
+};
 
 interface RiskCurveModalProps {
   onClose: () => void;
@@ -32,6 +49,8 @@ export function RiskCurveModal({
   const [region, setRegion] = useState<'TOTAL' | typeof DISTRICTS[number]>('TOTAL');
   const [logScale, setLogScale] = useState(false);
   const [selectedAssets, setSelectedAssets] = useState<AssetSubKey[]>(DISPLAY_ASSET_KEYS);
+  const [queryMode, setQueryMode] = useState<CurveQueryMode>('off');
+  const [queryInput, setQueryInput] = useState('200');
 
   // Fixed to Economic Damage mode
   const mode: RiskMode = 'Dmg';
@@ -63,6 +82,42 @@ export function RiskCurveModal({
     selectedAssets,
   });
 
+  // Crosshair query: value at an arbitrary RP/AEP, or the RP at which each series reaches a value
+  const queryNumber = parseFloat(queryInput);
+  const queryRp =
+    queryMode === 'rp' && queryNumber >= 1
+      ? queryNumber
+      : queryMode === 'aep' && queryNumber > 0 && queryNumber <= 100
+        ? aepToReturnPeriod(queryNumber / 100)
+        : null;
+  const queryValue = queryMode === 'value' && queryNumber > 0 ? queryNumber : null;
+
+  const crosshair: RiskCurveCrosshair | undefined =
+    queryMode === 'off' ? undefined : { returnPeriod: queryRp, value: queryValue };
+
+  const queryResults = useMemo(() => {
+    if (!curveData || (queryRp === null && queryValue === null)) return null;
+    return curveData.series.map((s) => {
+      const curve = s.data.map((p) => ({ returnPeriod: p.returnPeriod, damage: p.value }));
+      if (queryRp !== null) {
+        const { value, range } = interpolateAtReturnPeriod(curve, queryRp);
+        return {
+          label: s.label,
+          color: s.color,
+          text: formatRiskValueFull(value, mode),
+          note: range === 'within' ? null : `held at ${range === 'above' ? 'rarest' : 'most frequent'} modelled RP`,
+        };
+      }
+      const { returnPeriod, range } = returnPeriodForValue(curve, queryValue ?? 0);
+      return {
+        label: s.label,
+        color: s.color,
+        text: returnPeriod !== null ? formatReturnPeriod(returnPeriod) : '—',
+        note: range === 'below' ? 'reached more often than every 2.3yr' : range === 'above' ? 'not reached by 500yr' : null,
+      };
+    });
+  }, [curveData, queryRp, queryValue, mode]);
+
   const seriesByOptions = [
     { value: 'climate', label: 'Compare Climates' },
     { value: 'district', label: 'Compare Districts' },
@@ -104,6 +159,50 @@ export function RiskCurveModal({
               ))}
             </div>
 
+            {/* Crosshair query */}
+            <div className="flex items-center gap-1">
+              <Crosshair className="w-3.5 h-3.5 text-slate-500" />
+              <Button
+                variant={queryMode === 'off' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setQueryMode('off')}
+                className="text-xs h-7"
+              >
+                Off
+              </Button>
+              {(Object.keys(CURVE_QUERY_LABELS) as Exclude<CurveQueryMode, 'off'>[]).map((m) => (
+                <Button
+                  key={m}
+                  variant={queryMode === m ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => {
+                    setQueryMode(m);
+                    setQueryInput(m === 'rp' ? '200' : m === 'aep' ? '0.5' : '1000000000');
+                  }}
+                  className="text-xs h-7"
+                >
+                  {CURVE_QUERY_LABELS[m]}
+                </Button>
+              ))}
+              {queryMode !== 'off' && (
+                <>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={queryInput}
+                    onChange={(e) => setQueryInput(e.target.value)}
+                    className={cn(
+                      'h-7 w-32 text-xs',
+                      queryRp === null && queryValue === null && 'border-red-400'
+                    )}
+                  />
+                  <span className="text-xs text-slate-500">
+                    {queryMode === 'rp' ? 'years' : queryMode === 'aep' ? '% per year' : 'USD'}
+                  </span>
+                </>
+              )}
+            </div>
+
             {/* Log Scale Toggle */}
             <Button
               variant={logScale ? 'default' : 'outline'}
@@ -297,8 +396,31 @@ export function RiskCurveModal({
                 mode={mode}
                 logScale={logScale}
                 height={400}
+                crosshair={crosshair}
               />
 
+              {/* Crosshair query results */}
+              {queryResults && (
+                <div className="rounded-lg border border-slate-200 p-3">
+                  <p className="text-xs font-medium text-slate-700 mb-1.5">
+                    {queryRp !== null
+                      ? `Value at ${formatReturnPeriod(queryRp)}`
+                      : `Return period at which ${formatRiskValueFull(queryValue ?? 0, mode)} is first reached`}
+                    <span className="font-normal text-slate-500"> — log-probability interpolation between modelled RPs</span>
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-4 gap-y-1 text-xs">
+                    {queryResults.map((r) => (
+                      <div key={r.label} className="flex items-center gap-2">
+                        <div className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: r.color }} />
+                        <span className="text-slate-600 truncate">{r.label}:</span>
+                        <span className="font-medium text-slate-900 whitespace-nowrap">{r.text}</span>
+                        {r.note && <span className="text-slate-400 truncate">({r.note})</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Info box */}
               <div className="bg-blue-50 rounded-lg border border-blue-200 p-3">
                 <div className="flex items-start gap-2">
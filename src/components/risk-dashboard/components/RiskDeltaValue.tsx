@@ -0,0 +1,43 @@
+import { cn } from '@/lib/utils';
+import { formatDeltaPercent, riskDelta } from '@/lib/risk-compare';
+import { formatRiskDelta } from '@/types/risk';
+import type { RiskMode } from '@/types/risk';
+
+interface RiskDeltaValueProps {
+  active: number;
+  compare: number;
+  mode?: RiskMode;
+  /** Formatter for the absolute delta; defaults to formatRiskDelta(delta, mode) */
+  format?: (delta: number) => string;
+  showPercent?: boolean;
+  className?: string;
+}
+
+/**
+ * Compared − baseline difference: green when the compared dataset has less
+ * risk, red when it has more.
+ */
+export function RiskDeltaValue({
+  active,
+  compare,
+  mode = 'Dmg',
+  format,
+  showPercent = true,
+  className,
+}: RiskDeltaValueProps) {
+  const { delta, percent } = riskDelta(active, compare);
+  const text = format ? format(delta) : formatRiskDelta(delta, mode);
+
+  return (
+    <span
+      className={cn(
+        'whitespace-nowrap',
+        delta < 0 ? 'text-green-700' : delta > 0 ? 'text-red-600' : 'text-slate-500',
+        className
+      )}
+    >
+      {text}
+      {showPercent && <span className="opacity-75"> ({formatDeltaPercent(percent)})</span>}
+    </span>
+  );
+}
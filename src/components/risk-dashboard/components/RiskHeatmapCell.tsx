@@ -1,5 +1,7 @@
 import { cn } from '@/lib/utils';
 import { getRiskColor, formatRiskValue, type RiskMode, type RegionRiskData, totalRiskValue } from '@/types/risk';
+import { formatDeltaPercent, riskDelta } from '@/lib/risk-compare';
+import { RiskDeltaValue } from './RiskDeltaValue';
 
 interface RiskHeatmapCellProps {
   data: RegionRiskData;
@@ -9,6 +11,8 @@ interface RiskHeatmapCellProps {
   label: string;
   isSelected?: boolean;
   onClick?: () => void;
+  /** Same scenario's total in the compared dataset; shows the difference below the value */
+  compareTotal?: number;
 }
 
 export function RiskHeatmapCell({
@@ -19,15 +23,19 @@ export function RiskHeatmapCell({
   label,
   isSelected = false,
   onClick,
+  compareTotal,
 }: RiskHeatmapCellProps) {
   const total = totalRiskValue(data);
   const bgColor = total > 0 ? getRiskColor(total, min, max) : '#f8fafc';
   const displayValue = formatRiskValue(total, mode);
+  const deltaTitle = compareTotal !== undefined
+    ? ` (compared: ${formatRiskValue(compareTotal, mode)}, ${formatDeltaPercent(riskDelta(total, compareTotal).percent)})`
+    : '';
 
   return (
     <button
       onClick={onClick}
-      title={`${label}: ${displayValue}`}
+      title={`${label}: ${displayValue}${deltaTitle}`}
       className={cn(
         'h-14 w-full rounded border transition-all text-center flex flex-col items-center justify-center px-1',
         total === 0
@@ -40,6 +48,15 @@ export function RiskHeatmapCell({
       <span className={cn('text-xs font-bold leading-tight', total === 0 ? 'text-slate-400' : 'text-slate-900')}>
         {total === 0 ? '—' : displayValue}
       </span>
+      {compareTotal !== undefined && (
+        <RiskDeltaValue
+          active={total}
+          compare={compareTotal}
+          mode={mode}
+          showPercent={false}
+          className="text-[10px] font-semibold leading-tight"
+        />
+      )}
     </button>
   );
 }
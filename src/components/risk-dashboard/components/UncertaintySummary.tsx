@@ -0,0 +1,49 @@
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { UncertaintyPercentiles } from '@/types/uncertainty';
+
+interface UncertaintySummaryProps {
+  /** Metric short name, e.g. "EAD" */
+  label: string;
+  /** TOTAL band; undefined while the simulation has not produced a result */
+  band: UncertaintyPercentiles | null | undefined;
+  iterations?: number;
+  isRunning: boolean;
+  error?: string | null;
+  format: (value: number) => string;
+  className?: string;
+}
+
+/**
+ * One-line Monte Carlo result for the study-area total: P50 and the 90% interval.
+ */
+export function UncertaintySummary({
+  label,
+  band,
+  iterations,
+  isRunning,
+  error,
+  format,
+  className,
+}: UncertaintySummaryProps) {
+  if (error) {
+    return <p className={cn('text-xs text-red-600', className)}>Uncertainty simulation failed: {error}</p>;
+  }
+
+  if (isRunning || !band) {
+    return (
+      <p className={cn('flex items-center gap-1.5 text-xs text-slate-500', className)}>
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Running Monte Carlo simulation…
+      </p>
+    );
+  }
+
+  return (
+    <p className={cn('text-xs text-slate-600', className)}>
+      Total {label} median <span className="font-semibold text-slate-800">{format(band.p50)}</span>
+      {' '}(90% interval {format(band.p5)} – {format(band.p95)})
+      {iterations !== undefined && <span className="text-slate-400"> • {iterations.toLocaleString()} simulations</span>}
+    </p>
+  );
+}
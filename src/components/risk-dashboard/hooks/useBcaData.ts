@@ -0,0 +1,92 @@
+/**
+ * Hook for benefit–cost analysis of interventions against baseline EAD/EAL
+ *
+ * Loads the risk datasets of the selected baseline and with-intervention
+ * sources, computes EAD and EAL for every climate × maintenance × district
+ * of each, and appraises the avoided risk between the two sources.
+ */
+
+import { useMemo, useState } from 'react';
+import { useEadData } from './useEadData';
+import { useEalData } from './useEalData';
+import { useRiskData } from './useRiskData';
+import { computeBcaResults } from '@/lib/bca';
+import { DISTRICTS } from '@/types/risk';
+import type { DistrictName, FactorProfile } from '@/types/risk';
+import type { BcaCost, BcaInputs, BcaRegionResult } from '@/types/bca';
+import { DEFAULT_BCA_INPUTS } from '@/types/bca';
+import {
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
+
+interface UseBcaDataResult {
+  bcaResults: BcaRegionResult[] | null;
+  inputs: BcaInputs;
+  setInputs: (inputs: BcaInputs) => void;
+  isLoading: boolean;
+  error: string | null;
+}
+
+function defaultDistrictCosts(): Record<DistrictName, BcaCost> {
+  return Object.fromEntries(
+    DISTRICTS.map((d) => [
+      d,
+      {
+        capital: DEFAULT_BCA_INPUTS.capitalCost / DISTRICTS.length,
+        annualOm: DEFAULT_BCA_INPUTS.annualOmCost / DISTRICTS.length,
+      },
+    ])
+  ) as Record<DistrictName, BcaCost>;
+}
+
+export function useBcaData(
+  climate: 'present' | 'future',
+  integration: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION,
+  factorProfile?: FactorProfile
+): UseBcaDataResult {
+  const [inputs, setInputs] = useState<BcaInputs>(() => ({
+    ...DEFAULT_BCA_INPUTS,
+    districtCosts: defaultDistrictCosts(),
+  }));
+
+  const baselineData = useRiskData(inputs.baseline.datasetId);
+  const interventionData = useRiskData(inputs.intervention.datasetId);
+  // Without a dataset these fall back to risk.json, so results are only used
+  // once both datasets have loaded
+  const baselineEad = useEadData(integration, baselineData.data);
+  const baselineEal = useEalData(integration, factorProfile, baselineData.data);
+  const interventionEad = useEadData(integration, interventionData.data);
+  const interventionEal = useEalData(integration, factorProfile, interventionData.data);
+
+  const bcaResults = useMemo(() => {
+    if (!baselineData.data || !interventionData.data) return null;
+    if (!baselineEad.eadResults || !baselineEal.ealResults) return null;
+    if (!interventionEad.eadResults || !interventionEal.ealResults) return null;
+    return computeBcaResults({
+      baselineResults: { eadResults: baselineEad.eadResults, ealResults: baselineEal.ealResults },
+      interventionResults: { eadResults: interventionEad.eadResults, ealResults: interventionEal.ealResults },
+      climate,
+      inputs,
+    });
+  }, [
+    baselineData.data,
+    interventionData.data,
+    baselineEad.eadResults,
+    baselineEal.ealResults,
+    interventionEad.eadResults,
+    interventionEal.ealResults,
+    climate,
+    inputs,
+  ]);
+
+  return {
+    bcaResults,
+    inputs,
+    setInputs,
+    isLoading: baselineData.isLoading || interventionData.isLoading,
+    error: baselineData.error || interventionData.error,
+  };
+}
+
+export default useBcaData;
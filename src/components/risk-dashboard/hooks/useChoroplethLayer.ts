@@ -8,7 +8,7 @@ import Stroke from 'ol/style/Stroke';
 import Style from 'ol/style/Style';
 import Text from 'ol/style/Text';
 import type { DistrictName, RiskMode } from '@/types/risk';
-import { getRiskColor, formatRiskValue } from '@/types/risk';
+import { getRiskColor, getRiskDeltaColor, formatRiskValue, formatRiskDelta } from '@/types/risk';
 
 interface UseChoroplethLayerOptions {
   map: Map | null;
@@ -17,6 +17,8 @@ interface UseChoroplethLayerOptions {
   max: number;
   visible: boolean;
   mode: RiskMode;
+  /** Signed differences: diverging scale around zero instead of min..max */
+  diverging?: boolean;
   onHoverDistrict?: (district: string | null) => void;
 }
 
@@ -27,6 +29,7 @@ export function useChoroplethLayer({
   max,
   visible,
   mode,
+  diverging = false,
   onHoverDistrict,
 }: UseChoroplethLayerOptions) {
   const sourceRef = useRef(new VectorSource({ format: new GeoJSON() }));
@@ -87,11 +90,15 @@ export function useChoroplethLayer({
 
     if (!visible || !data) return;
 
+    const maxAbs = diverging ? Math.max(0, ...Object.values(data).map(Math.abs)) : 0;
+    const hasValue = (value: number | undefined): value is number =>
+      value !== undefined && (diverging ? value !== 0 : value > 0);
+
     const styleFn = (feature: any) => {
       const districtName = feature.get('district') as string;
       const value = data[districtName as DistrictName];
-      const hexColor = value !== undefined && value > 0
-        ? getRiskColor(value, min, max)
+      const hexColor = hasValue(value)
+        ? diverging ? getRiskDeltaColor(value, maxAbs) : getRiskColor(value, min, max)
         : '#c8c8c8';
 
       // Convert hex to rgba with 0.7 opacity
@@ -100,8 +107,8 @@ export function useChoroplethLayer({
       const b = parseInt(hexColor.slice(5, 7), 16);
       const rgba = `rgba(${r},${g},${b},0.7)`;
 
-      const label = value !== undefined && value > 0
-        ? `${districtName}\n${formatRiskValue(value, mode)}`
+      const label = hasValue(value)
+        ? `${districtName}\n${diverging ? formatRiskDelta(value, mode) : formatRiskValue(value, mode)}`
         : districtName;
 
       return new Style({
@@ -119,7 +126,7 @@ export function useChoroplethLayer({
     };
 
     layer.setStyle(styleFn);
-  }, [data, min, max, visible, mode]);
+  }, [data, min, max, visible, mode, diverging]);
 
   // Handle pointer move for hover
   useEffect(() => {
@@ -0,0 +1,103 @@
+/**
+ * Hook for the depth–damage alternative of risk.json
+ *
+ * Loads the impact depth-bin distributions for both climates (once, shared
+ * across hook instances) and recomputes Vul/Dmg from the given curves via
+ * src/lib/depth-damage.ts. The result plugs into useEadData/useEalData in
+ * place of the original dataset.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRiskData } from './useRiskData';
+import { buildScenarioKey } from '@/types/risk';
+import type { ScenarioKey } from '@/types/risk';
+import type { ImpactSummaryResponse } from '@/types/impact';
+import type { DepthDamageConfig, ScenarioDepthDistributions } from '@/types/depth-damage';
+import { buildScenarioDepthDistributions, computeDepthDamageRiskData } from '@/lib/depth-damage';
+import type { DepthDamageResult } from '@/lib/depth-damage';
+
+type Distributions = Record<ScenarioKey, ScenarioDepthDistributions>;
+
+const API_BASE = '/api/impact/summary';
+
+// Module-level cache: fetch once, share across hook instances
+let cachedDistributions: Distributions | null = null;
+let fetchPromise: Promise<Distributions> | null = null;
+
+async function fetchDistributions(): Promise<Distributions> {
+  const responses = await Promise.all(
+    (['present', 'future'] as const).map(async (climate) => {
+      const response = await fetch(`${API_BASE}?climate=${climate}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const result: ImpactSummaryResponse = await response.json();
+      if (!result.success) throw new Error(result.error || 'Failed to fetch impact summary');
+      return result.data.summaries;
+    })
+  );
+
+  const distributions: Distributions = {};
+  for (const summary of responses.flat()) {
+    const key = buildScenarioKey(parseFloat(summary.returnPeriod), summary.climate, summary.maintenance);
+    distributions[key] = buildScenarioDepthDistributions(summary);
+  }
+  return distributions;
+}
+
+/**
+ * @param config - Depth–damage curve and unit value per asset
+ * @param enabled - Skip fetching and recomputation while false
+ */
+export function useDepthDamageData(config: DepthDamageConfig, enabled = true) {
+  const { data } = useRiskData();
+  const [distributions, setDistributions] = useState<Distributions | null>(cachedDistributions);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || cachedDistributions) return;
+    let aborted = false;
+
+    if (!fetchPromise) {
+      fetchPromise = fetchDistributions()
+        .then((d) => {
+          cachedDistributions = d;
+          return d;
+        })
+        .catch((e) => {
+          fetchPromise = null;
+          throw e;
+        });
+    }
+
+    fetchPromise
+      .then((d) => {
+        if (!aborted) {
+          setDistributions(d);
+          setError(null);
+        }
+      })
+      .catch((e) => {
+        console.error('Error loading depth-bin distributions:', e);
+        if (!aborted) setError(e instanceof Error ? e.message : 'Failed to load depth-bin distributions');
+      });
+
+    return () => {
+      aborted = true;
+    };
+  }, [enabled]);
+
+  // Another instance may have filled the cache after this one mounted
+  const loaded = distributions ?? cachedDistributions;
+
+  const result = useMemo<DepthDamageResult | null>(() => {
+    if (!enabled || !data || !loaded) return null;
+    return computeDepthDamageRiskData(data, loaded, config);
+  }, [enabled, data, loaded, config]);
+
+  return {
+    result,
+    isLoading: enabled && !result && !error,
+    error: enabled ? error : null,
+  };
+}
+
+export default useDepthDamageData;
@@ -0,0 +1,129 @@
+/**
+ * Hook for a design event at an arbitrary return period
+ *
+ * Interpolates damage per district and asset (from the given risk dataset)
+ * and affected population / fatalities per district (from the
+ * population-risk API) at one return period, using log-probability
+ * interpolation between the modelled return periods.
+ */
+
+import { useMemo } from 'react';
+import { usePopulationRiskCurves } from './usePopulationRiskCurves';
+import { ASSET_SUB_KEYS, DISTRICTS, RETURN_PERIODS, buildScenarioKey } from '@/types/risk';
+import type { AssetSubKey, DistrictName, RiskJsonData } from '@/types/risk';
+import type { CasualtyRange, PopulationRiskCurvePoint } from '@/types/casualty';
+import { interpolateAtReturnPeriod } from '@/lib/rp-interpolation';
+import type { RpQueryRange } from '@/lib/rp-interpolation';
+
+type Maintenance = 'breaches' | 'redcapacity' | 'perfect';
+
+export type DesignEventRow = {
+  region: DistrictName | 'TOTAL';
+  damage: Record<AssetSubKey, number>;
+  damageTotal: number;
+  /** null while population data is loading or unavailable */
+  affectedPopulation: number | null;
+  fatalities: CasualtyRange | null;
+};
+
+export type DesignEventResult = {
+  returnPeriod: number;
+  /** Where the return period falls relative to the modelled range */
+  range: RpQueryRange;
+  /** 7 districts followed by TOTAL */
+  rows: DesignEventRow[];
+};
+
+/**
+ * @param data - Risk dataset (damage or loss values in the Dmg block)
+ * @param climate - 'present' or 'future'
+ * @param maintenance - 'breaches', 'redcapacity', or 'perfect'
+ * @param returnPeriod - Design return period in years
+ */
+export function useDesignEvent(
+  data: RiskJsonData | null,
+  climate: 'present' | 'future',
+  maintenance: Maintenance,
+  returnPeriod: number
+) {
+  const population = usePopulationRiskCurves(climate, maintenance);
+
+  const result = useMemo<DesignEventResult | null>(() => {
+    if (!data || !(returnPeriod > 0)) return null;
+
+    const damageAt = (region: DistrictName | 'TOTAL') =>
+      Object.fromEntries(
+        ASSET_SUB_KEYS.map((asset) => {
+          const curve = RETURN_PERIODS.flatMap((rp) => {
+            const regionData = data.data[buildScenarioKey(rp, climate, maintenance)]?.[region]?.['Dmg'];
+            return regionData ? [{ returnPeriod: rp, damage: regionData[asset] ?? 0 }] : [];
+          });
+          return [asset, interpolateAtReturnPeriod(curve, returnPeriod).value];
+        })
+      ) as Record<AssetSubKey, number>;
+
+    const populationAt = (district: DistrictName) => {
+      const points = population.curves?.[district];
+      if (!points || points.length === 0) return { affectedPopulation: null, fatalities: null };
+      const at = (pick: (p: PopulationRiskCurvePoint) => number) =>
+        interpolateAtReturnPeriod(
+          points.map((p) => ({ returnPeriod: p.returnPeriod, damage: pick(p) })),
+          returnPeriod
+        ).value;
+      return {
+        affectedPopulation: at((p) => p.affectedPopulation),
+        fatalities: {
+          low: at((p) => p.fatalities.low),
+          moderate: at((p) => p.fatalities.moderate),
+          high: at((p) => p.fatalities.high),
+        },
+      };
+    };
+
+    const rows: DesignEventRow[] = DISTRICTS.map((district) => {
+      const damage = damageAt(district);
+      return {
+        region: district,
+        damage,
+        damageTotal: Object.values(damage).reduce((sum, v) => sum + v, 0),
+        ...populationAt(district),
+      };
+    });
+
+    // TOTAL damage from risk.json's TOTAL (as in the summary matrix); population summed over districts
+    const totalDamage = damageAt('TOTAL');
+    const hasPopulation = rows.some((r) => r.affectedPopulation !== null);
+    rows.push({
+      region: 'TOTAL',
+      damage: totalDamage,
+      damageTotal: Object.values(totalDamage).reduce((sum, v) => sum + v, 0),
+      affectedPopulation: hasPopulation ? rows.reduce((sum, r) => sum + (r.affectedPopulation ?? 0), 0) : null,
+      fatalities: hasPopulation
+        ? {
+            low: rows.reduce((sum, r) => sum + (r.fatalities?.low ?? 0), 0),
+            moderate: rows.reduce((sum, r) => sum + (r.fatalities?.moderate ?? 0), 0),
+            high: rows.reduce((sum, r) => sum + (r.fatalities?.high ?? 0), 0),
+          }
+        : null,
+    });
+
+    return {
+      returnPeriod,
+      range:
+        returnPeriod < RETURN_PERIODS[0]
+          ? 'below'
+          : returnPeriod > RETURN_PERIODS[RETURN_PERIODS.length - 1]
+            ? 'above'
+            : 'within',
+      rows,
+    };
+  }, [data, climate, maintenance, returnPeriod, population.curves]);
+
+  return {
+    result,
+    populationLoading: population.isLoading,
+    populationError: population.error,
+  };
+}
+
+export default useDesignEvent;
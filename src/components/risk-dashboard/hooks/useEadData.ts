@@ -3,16 +3,36 @@ import { useRiskData } from './useRiskData';
 import {
   RETURN_PERIODS,
   MAINTENANCE_LEVELS,
+  MAINTENANCE_OPTIONS,
   DISTRICTS,
   ASSET_SUB_KEYS,
   buildScenarioKey,
   calculateEad,
   type EadResult,
   type AssetSubKey,
+  type RiskJsonData,
 } from '@/types/risk';
-
-export function useEadData() {
-  const { data, isLoading, error } = useRiskData();
+import {
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
+import { hasExpectedMaintenance } from '@/lib/maintenance-blend';
+
+/**
+ * Expected Annual Damage (EAD) per climate × maintenance × region.
+ * Includes the expected maintenance state when the dataset carries it
+ * (see withExpectedMaintenance).
+ *
+ * @param integration - Integration method and tail handling
+ * @param riskData - Alternative dataset (e.g. from depth–damage curves);
+ *   the original risk.json is used when null or omitted
+ */
+export function useEadData(
+  integration: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION,
+  riskData: RiskJsonData | null = null
+) {
+  const { data: originalData, isLoading, error } = useRiskData();
+  const data = riskData ?? originalData;
 
   const eadResults = useMemo(() => {
     if (!data) return null;
@@ -20,7 +40,7 @@ export function useEadData() {
     const results: EadResult[] = [];
 
     for (const climate of ['present', 'future'] as const) {
-      for (const maintenance of MAINTENANCE_LEVELS) {
+      for (const maintenance of hasExpectedMaintenance(data) ? MAINTENANCE_OPTIONS : MAINTENANCE_LEVELS) {
         // First, compute EAD for each district
         const districtResults: EadResult[] = [];
 
@@ -42,7 +62,7 @@ export function useEadData() {
 
           // Calculate EAD for each asset
           const ead = Object.fromEntries(
-            ASSET_SUB_KEYS.map(asset => [asset, calculateEad(damagesByAsset[asset])])
+            ASSET_SUB_KEYS.map(asset => [asset, calculateEad(damagesByAsset[asset], integration)])
           ) as Record<AssetSubKey, number>;
 
           const eadTotal = Object.values(ead).reduce((sum, val) => sum + val, 0);
@@ -82,7 +102,7 @@ export function useEadData() {
     }
 
     return results;
-  }, [data]);
+  }, [data, integration]);
 
   return { eadResults, isLoading, error };
 }
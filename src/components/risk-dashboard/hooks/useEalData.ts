@@ -3,35 +3,57 @@ import { useRiskData } from './useRiskData';
 import {
   RETURN_PERIODS,
   MAINTENANCE_LEVELS,
+  MAINTENANCE_OPTIONS,
   DISTRICTS,
   ASSET_SUB_KEYS,
-  ASSET_SECTOR_FACTOR,
-  COMMERCE_UPLIFT_FACTOR,
+  OFFICIAL_FACTOR_PROFILE,
   buildScenarioKey,
   calculateEad,
+  resolveAssetFactors,
   type EalResult,
   type AssetSubKey,
+  type FactorProfile,
+  type RiskJsonData,
 } from '@/types/risk';
+import {
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
+import { hasExpectedMaintenance } from '@/lib/maintenance-blend';
 
 /**
  * Expected Annual Loss (EAL).
  *
  * Mirrors useEadData, but each asset's damage is scaled by its sector's
- * Loss/Damage factor BEFORE trapezoidal integration. Since the factor is
+ * Loss/Damage factor BEFORE integration over AEP. Since the factor is
  * constant across return periods, EAL[asset] = factor × EAD[asset].
  *
+ * Factors and commerce uplift come from the active factor profile (the
+ * official one unless an analyst has selected a what-if profile).
+ *
+ * Damages come from risk.json unless an alternative dataset (e.g. from
+ * depth–damage curves) is passed. The expected maintenance state is included
+ * when that dataset carries it (see withExpectedMaintenance).
+ *
  * TOTAL is computed dynamically as the sum of the 7 active districts.
  */
-export function useEalData() {
-  const { data, isLoading, error } = useRiskData();
+export function useEalData(
+  integration: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION,
+  factorProfile: FactorProfile = OFFICIAL_FACTOR_PROFILE,
+  riskData: RiskJsonData | null = null
+) {
+  const { data: originalData, isLoading, error } = useRiskData();
+  const data = riskData ?? originalData;
+  const { sectorFactors, assetOverrides, commerceUplift } = factorProfile;
 
   const ealResults = useMemo(() => {
     if (!data) return null;
 
     const results: EalResult[] = [];
+    const assetFactors = resolveAssetFactors(sectorFactors, assetOverrides);
 
     for (const climate of ['present', 'future'] as const) {
-      for (const maintenance of MAINTENANCE_LEVELS) {
+      for (const maintenance of hasExpectedMaintenance(data) ? MAINTENANCE_OPTIONS : MAINTENANCE_LEVELS) {
         // First, compute EAL for each district
         const districtResults: EalResult[] = [];
 
@@ -47,18 +69,18 @@ export function useEalData() {
             if (!regionData) continue;
 
             for (const asset of ASSET_SUB_KEYS) {
-              const factor = ASSET_SECTOR_FACTOR[asset];
+              const factor = assetFactors[asset];
               lossesByAsset[asset].push({ returnPeriod: rp, damage: (regionData[asset] ?? 0) * factor });
             }
           }
 
           // Integrate loss per asset
           const eal = Object.fromEntries(
-            ASSET_SUB_KEYS.map(asset => [asset, calculateEad(lossesByAsset[asset])])
+            ASSET_SUB_KEYS.map(asset => [asset, calculateEad(lossesByAsset[asset], integration)])
           ) as Record<AssetSubKey, number>;
 
           const baseTotal = Object.values(eal).reduce((sum, val) => sum + val, 0);
-          const commerceEal = baseTotal * COMMERCE_UPLIFT_FACTOR;
+          const commerceEal = baseTotal * commerceUplift;
 
           const result: EalResult = {
             climate,
@@ -84,7 +106,7 @@ export function useEalData() {
         }
 
         const totalBase = Object.values(totalEal).reduce((sum, val) => sum + val, 0);
-        const totalCommerce = totalBase * COMMERCE_UPLIFT_FACTOR;
+        const totalCommerce = totalBase * commerceUplift;
 
         results.push({
           climate,
@@ -98,7 +120,7 @@ export function useEalData() {
     }
 
     return results;
-  }, [data]);
+  }, [data, integration, sectorFactors, assetOverrides, commerceUplift]);
 
   return { ealResults, isLoading, error };
 }
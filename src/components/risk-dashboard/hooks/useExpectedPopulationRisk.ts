@@ -0,0 +1,43 @@
+/**
+ * Hook for expected-maintenance-state population risk curves
+ *
+ * Fetches the population risk curves of all three maintenance states and
+ * blends them per return period with the maintenance blend weights.
+ */
+
+import { useMemo } from 'react';
+import { usePopulationRiskCurves } from './usePopulationRiskCurves';
+import type { PopulationRiskCurves } from './usePopulationRiskCurves';
+import { blendPopulationRiskCurves } from '@/lib/maintenance-blend';
+import type { MaintenanceBlend } from '@/types/maintenance-blend';
+
+/**
+ * @param climate - 'present' or 'future'
+ * @param blend - Maintenance state probabilities
+ * @param enabled - Skip fetching while false
+ */
+export function useExpectedPopulationRisk(
+  climate: 'present' | 'future',
+  blend: MaintenanceBlend,
+  enabled = true
+) {
+  const perfect = usePopulationRiskCurves(climate, 'perfect', enabled);
+  const breaches = usePopulationRiskCurves(climate, 'breaches', enabled);
+  const redcapacity = usePopulationRiskCurves(climate, 'redcapacity', enabled);
+
+  const curves = useMemo<PopulationRiskCurves | null>(() => {
+    if (!perfect.curves || !breaches.curves || !redcapacity.curves) return null;
+    return blendPopulationRiskCurves(
+      { perfect: perfect.curves, breaches: breaches.curves, redcapacity: redcapacity.curves },
+      blend
+    );
+  }, [perfect.curves, breaches.curves, redcapacity.curves, blend]);
+
+  return {
+    curves,
+    isLoading: perfect.isLoading || breaches.isLoading || redcapacity.isLoading,
+    error: perfect.error || breaches.error || redcapacity.error,
+  };
+}
+
+export default useExpectedPopulationRisk;
@@ -0,0 +1,161 @@
+/**
+ * Hook for the user's saved Loss/Damage factor profiles
+ *
+ * CRUD against /api/factor-profiles. Profiles are private to the logged-in
+ * user; the official profile (OFFICIAL_FACTOR_PROFILE) is never stored and
+ * is not part of the returned list.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '@/lib/api';
+import type { FactorProfile, RiskAssetKey, SectorKey } from '@/types/risk';
+
+const API_URL = '/api/factor-profiles';
+
+/** Profile as returned by the API */
+type FactorProfileRecord = {
+  id: number;
+  name: string;
+  sectorFactors: Record<SectorKey, number>;
+  assetOverrides: Partial<Record<RiskAssetKey, number>>;
+  commerceUplift: number;
+};
+
+type FactorProfileBody = Pick<FactorProfile, 'name' | 'sectorFactors' | 'assetOverrides' | 'commerceUplift'>;
+
+interface UseFactorProfilesReturn {
+  profiles: FactorProfile[];
+  isLoading: boolean;
+  error: string | null;
+  createProfile: (profile: FactorProfileBody) => Promise<FactorProfile>;
+  updateProfile: (id: number, profile: FactorProfileBody) => Promise<FactorProfile>;
+  deleteProfile: (id: number) => Promise<void>;
+}
+
+function toFactorProfile(record: FactorProfileRecord): FactorProfile {
+  return {
+    id: record.id,
+    name: record.name,
+    official: false,
+    sectorFactors: record.sectorFactors,
+    assetOverrides: record.assetOverrides ?? {},
+    commerceUplift: record.commerceUplift,
+  };
+}
+
+function toBody({ name, sectorFactors, assetOverrides, commerceUplift }: FactorProfileBody): string {
+  return JSON.stringify({ name, sectorFactors, assetOverrides, commerceUplift });
+}
+
+/**
+ * @param enabled - Load profiles only while true (e.g. when authenticated)
+ */
+export function useFactorProfiles(enabled: boolean): UseFactorProfilesReturn {
+  const [loaded, setLoaded] = useState<FactorProfile[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let aborted = false;
+
+    apiFetch<{ success: boolean; data: FactorProfileRecord[]; error?: string }>(API_URL)
+      .then((result) => {
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to fetch factor profiles');
+        }
+        if (!aborted) {
+          setLoaded(result.data.map(toFactorProfile));
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        console.error('Error fetching factor profiles:', err);
+        if (!aborted) {
+          setLoaded([]);
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      });
+
+    return () => {
+      aborted = true;
+    };
+  }, [enabled]);
+
+  /**
+   * Run a mutation, tracking saving state and surfacing errors
+   */
+  const mutate = useCallback(async <T,>(action: () => Promise<T>, label: string): Promise<T> => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      return await action();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(message);
+      console.error(`Error ${label} factor profile:`, err);
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const createProfile = useCallback(
+    (profile: FactorProfileBody) =>
+      mutate(async () => {
+        const result = await apiFetch<{ success: boolean; data: FactorProfileRecord; error?: string }>(API_URL, {
+          method: 'POST',
+          body: toBody(profile),
+        });
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to create factor profile');
+        }
+        const created = toFactorProfile(result.data);
+        setLoaded((prev) => [...(prev ?? []), created].sort((a, b) => a.name.localeCompare(b.name)));
+        return created;
+      }, 'creating'),
+    [mutate]
+  );
+
+  const updateProfile = useCallback(
+    (id: number, profile: FactorProfileBody) =>
+      mutate(async () => {
+        const result = await apiFetch<{ success: boolean; data: FactorProfileRecord; error?: string }>(
+          `${API_URL}/${id}`,
+          { method: 'PUT', body: toBody(profile) }
+        );
+        if (!result.success || !result.data) {
+          throw new Error(result.error || 'Failed to update factor profile');
+        }
+        const updated = toFactorProfile(result.data);
+        setLoaded((prev) => (prev ?? []).map((p) => (p.id === id ? updated : p)));
+        return updated;
+      }, 'updating'),
+    [mutate]
+  );
+
+  const deleteProfile = useCallback(
+    (id: number) =>
+      mutate(async () => {
+        const result = await apiFetch<{ success: boolean; error?: string }>(`${API_URL}/${id}`, {
+          method: 'DELETE',
+        });
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to delete factor profile');
+        }
+        setLoaded((prev) => (prev ?? []).filter((p) => p.id !== id));
+      }, 'deleting'),
+    [mutate]
+  );
+
+  return {
+    profiles: enabled ? loaded ?? [] : [],
+    isLoading: isSaving || (enabled && loaded === null),
+    error: enabled ? error : null,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+  };
+}
+
+export default useFactorProfiles;
@@ -5,28 +5,36 @@
  * (population risk), and socioeconomic vulnerability into composite hotspot scores.
  *
  * UPDATED: Now integrates population risk across all 7 return periods using
- * trapezoidal integration (Expected Annual Fatalities), matching the EAD methodology.
+ * integration over AEP (Expected Annual Fatalities), matching the EAD methodology.
  */
 
 import { useMemo, useState, useEffect } from 'react';
+import { useRiskData } from './useRiskData';
 import { useEadData } from './useEadData';
 import { useEalData } from './useEalData';
+import { useExpectedPopulationRisk } from './useExpectedPopulationRisk';
 import { useSocioeconomicData } from '@/hooks/useSocioeconomicData';
 import { calculateVulnerabilityIndicesWithPoverty } from '@/lib/vulnerability';
 import { computeHotspotScores, calculateExpectedAnnualFatalities } from '@/lib/hotspot';
+import {
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
 import type { HotspotWeights, HotspotDistrictResult } from '@/types/socioeconomic';
 import { DEFAULT_HOTSPOT_WEIGHTS } from '@/types/socioeconomic';
-import { RETURN_PERIODS, DISTRICTS } from '@/types/risk';
-import type { DistrictName } from '@/types/risk';
+import { RETURN_PERIODS, DISTRICTS, EXPECTED_MAINTENANCE } from '@/types/risk';
+import type { DistrictName, FactorProfile, MaintenanceOption } from '@/types/risk';
+import { withExpectedMaintenance } from '@/lib/maintenance-blend';
+import { DEFAULT_MAINTENANCE_BLEND } from '@/types/maintenance-blend';
+import type { MaintenanceBlend } from '@/types/maintenance-blend';
 
 interface UseHotspotDataResult {
   hotspotResults: HotspotDistrictResult[] | null;
   isLoading: boolean;
   error: string | null;
-  maintenance: string;
-  setMaintenance: (m: string) => void;
+  maintenance: MaintenanceOption;
+  setMaintenance: (m: MaintenanceOption) => void;
   weights: HotspotWeights;
-  setWeights: (w: HotspotWeights) => void;
 }
 
 interface PopulationRiskScenario {
@@ -80,23 +88,39 @@ async function fetchAllPopulationRiskScenarios(
  * - Socioeconomic: Static vulnerability index
  *
  * This provides consistent methodology across both risk dimensions.
+ *
+ * The Expected maintenance option blends damages and population risk of the
+ * three modelled states per return period with the given probabilities.
+ * Dimension weights come from the dashboard (relative; they need not sum to 1).
  */
 export function useHotspotData(
-  climate: 'present' | 'future'
+  climate: 'present' | 'future',
+  integration: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION,
+  factorProfile?: FactorProfile,
+  maintenanceBlend: MaintenanceBlend = DEFAULT_MAINTENANCE_BLEND,
+  weights: HotspotWeights = DEFAULT_HOTSPOT_WEIGHTS
 ): UseHotspotDataResult {
-  const [maintenance, setMaintenance] = useState('breaches');
-  const [weights, setWeights] = useState<HotspotWeights>(DEFAULT_HOTSPOT_WEIGHTS);
+  const [maintenance, setMaintenance] = useState<MaintenanceOption>('breaches');
+  const isExpected = maintenance === EXPECTED_MAINTENANCE;
   const [popScenariosAll, setPopScenariosAll] = useState<PopulationRiskScenario[] | null>(null);
   const [popLoading, setPopLoading] = useState(true);
   const [popError, setPopError] = useState<string | null>(null);
 
-  // Load EAD, EAL, and socioeconomic data
-  const { eadResults, isLoading: eadLoading, error: eadError } = useEadData();
-  const { ealResults, isLoading: ealLoading } = useEalData();
+  // Load EAD, EAL (including the expected state), and socioeconomic data
+  const { data: riskData } = useRiskData();
+  const blendedData = useMemo(
+    () => (riskData ? withExpectedMaintenance(riskData, maintenanceBlend) : null),
+    [riskData, maintenanceBlend]
+  );
+  const { eadResults, isLoading: eadLoading, error: eadError } = useEadData(integration, blendedData);
+  const { ealResults, isLoading: ealLoading } = useEalData(integration, factorProfile, blendedData);
+  const expectedPopulation = useExpectedPopulationRisk(climate, maintenanceBlend, isExpected);
   const { data: socioeconomicData, loading: socioLoading, error: socioError } = useSocioeconomicData();
 
   // Fetch all 7 population risk scenarios when climate or maintenance changes
   useEffect(() => {
+    // The expected state is blended from all three states by useExpectedPopulationRisk
+    if (maintenance === EXPECTED_MAINTENANCE) return;
     let aborted = false;
     setPopLoading(true);
     setPopError(null);
@@ -126,6 +150,20 @@ export function useHotspotData(
 
   // Compute Expected Annual Fatalities for each district
   const expectedAnnualFatalities = useMemo<Record<DistrictName, number>>(() => {
+    if (isExpected) {
+      if (!expectedPopulation.curves) return {} as Record<DistrictName, number>;
+      const curves = expectedPopulation.curves;
+      return Object.fromEntries(
+        DISTRICTS.map((d) => [
+          d,
+          calculateExpectedAnnualFatalities(
+            curves[d].map((p) => ({ returnPeriod: p.returnPeriod, fatalities: p.fatalities.moderate })),
+            integration
+          ),
+        ])
+      ) as Record<DistrictName, number>;
+    }
+
     if (!popScenariosAll || popScenariosAll.length === 0) {
       return {} as Record<DistrictName, number>;
     }
@@ -148,11 +186,11 @@ export function useHotspotData(
 
       // Sort by return period and calculate EAF
       fatalitiesByRP.sort((a, b) => a.returnPeriod - b.returnPeriod);
-      eaf[district] = calculateExpectedAnnualFatalities(fatalitiesByRP);
+      eaf[district] = calculateExpectedAnnualFatalities(fatalitiesByRP, integration);
     }
 
     return eaf as Record<DistrictName, number>;
-  }, [popScenariosAll]);
+  }, [isExpected, expectedPopulation.curves, popScenariosAll, integration]);
 
   // Compute hotspot scores when all data is available
   const hotspotResults = useMemo(() => {
@@ -168,13 +206,13 @@ export function useHotspotData(
       expectedAnnualFatalities,
       vulnerabilityIndices,
       climate,
-      maintenance: maintenance as 'breaches' | 'redcapacity' | 'perfect',
+      maintenance,
       weights,
     });
   }, [eadResults, ealResults, socioeconomicData, expectedAnnualFatalities, climate, maintenance, weights]);
 
-  const isLoading = eadLoading || ealLoading || socioLoading || popLoading;
-  const error = eadError || socioError || popError;
+  const isLoading = eadLoading || ealLoading || socioLoading || (isExpected ? expectedPopulation.isLoading : popLoading);
+  const error = eadError || socioError || (isExpected ? expectedPopulation.error : popError);
 
   return {
     hotspotResults,
@@ -183,7 +221,6 @@ export function useHotspotData(
     maintenance,
     setMaintenance,
     weights,
-    setWeights,
     // Keep return period for potential future use (not currently used for EAF calculation)
     returnPeriod: '25',
     setReturnPeriod: () => {},
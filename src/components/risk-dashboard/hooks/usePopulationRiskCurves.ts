@@ -0,0 +1,92 @@
+/**
+ * Hook for per-district population risk curves
+ *
+ * Fetches all return periods of one climate × maintenance state from the
+ * population-risk API and reshapes them into affected population and
+ * fatality ranges vs return period per district.
+ */
+
+import { useEffect, useState } from 'react';
+import { DISTRICTS } from '@/types/risk';
+import type { DistrictName } from '@/types/risk';
+import type { PopulationRiskCurvePoint, PopulationRiskResponse } from '@/types/casualty';
+
+type Maintenance = 'breaches' | 'redcapacity' | 'perfect';
+
+export type PopulationRiskCurves = Record<DistrictName, PopulationRiskCurvePoint[]>;
+
+const API_BASE = '/api/population-risk';
+
+/**
+ * Fetch affected population and fatality ranges per district across all return periods.
+ */
+export async function fetchPopulationRiskCurves(
+  climate: 'present' | 'future',
+  maintenance: Maintenance
+): Promise<PopulationRiskCurves> {
+  const params = new URLSearchParams({ climate, maintenance, returnPeriod: 'all' });
+  const response = await fetch(`${API_BASE}?${params.toString()}`);
+  const result: PopulationRiskResponse = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to fetch population risk data');
+  }
+
+  const curves = Object.fromEntries(DISTRICTS.map((d) => [d, [] as PopulationRiskCurvePoint[]])) as PopulationRiskCurves;
+  for (const scenario of result.data.scenarios) {
+    const returnPeriod = parseFloat(scenario.returnPeriod);
+    for (const d of scenario.districtBreakdown) {
+      curves[d.district as DistrictName]?.push({
+        returnPeriod,
+        affectedPopulation: d.affectedPopulation,
+        fatalities: d.estimatedFatalities,
+      });
+    }
+  }
+  for (const points of Object.values(curves)) {
+    points.sort((a, b) => a.returnPeriod - b.returnPeriod);
+  }
+  return curves;
+}
+
+/**
+ * @param climate - 'present' or 'future'
+ * @param maintenance - 'breaches', 'redcapacity', or 'perfect'
+ * @param enabled - Skip fetching while false
+ */
+export function usePopulationRiskCurves(climate: 'present' | 'future', maintenance: Maintenance, enabled = true) {
+  const scenarioKey = `${climate}_${maintenance}`;
+  const [state, setState] = useState<{
+    key: string;
+    curves: PopulationRiskCurves | null;
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let aborted = false;
+    const key = `${climate}_${maintenance}`;
+
+    fetchPopulationRiskCurves(climate, maintenance)
+      .then((curves) => {
+        if (!aborted) setState({ key, curves, error: null });
+      })
+      .catch((err) => {
+        console.error('Error fetching population risk curves:', err);
+        if (!aborted) setState({ key, curves: null, error: err instanceof Error ? err.message : 'Unknown error' });
+      });
+
+    return () => {
+      aborted = true;
+    };
+  }, [climate, maintenance, enabled]);
+
+  const current = enabled && state?.key === scenarioKey ? state : null;
+
+  return {
+    curves: current?.curves ?? null,
+    isLoading: enabled && current === null,
+    error: current?.error ?? null,
+  };
+}
+
+export default usePopulationRiskCurves;
@@ -1,47 +1,104 @@
 import { useState, useEffect } from 'react';
 import type { RiskJsonData } from '@/types/risk';
+import type { DataQualityReport } from '@/types/data-quality';
+import { BASELINE_DATASET_ID } from '@/types/risk-datasets';
+import { validateRiskData } from '@/lib/risk-validation';
+import { loadRiskDatasetManifest } from './useRiskDatasets';
 
-// Module-level cache: fetch once, share across hook instances
-let cachedData: RiskJsonData | null = null;
-let fetchPromise: Promise<RiskJsonData> | null = null;
+type LoadedRiskData = { data: RiskJsonData | null; quality: DataQualityReport };
 
-export function useRiskData() {
-  const [data, setData] = useState<RiskJsonData | null>(cachedData);
-  const [isLoading, setIsLoading] = useState(!cachedData);
-  const [error, setError] = useState<string | null>(null);
+// Module-level cache per dataset id: fetch and validate once, share across hook instances
+const loaded = new Map<string, LoadedRiskData>();
+const pending = new Map<string, Promise<LoadedRiskData>>();
+
+function validationError(id: string, quality: DataQualityReport): string | null {
+  if (quality.errorCount === 0) return null;
+  const file = id === BASELINE_DATASET_ID ? 'risk.json' : `Dataset "${id}"`;
+  return `${file} failed validation (${quality.errorCount} error${quality.errorCount === 1 ? '' : 's'})`;
+}
+
+/**
+ * Fetch and validate a dataset listed in the risk dataset manifest.
+ */
+export function loadRiskDataset(id: string): Promise<LoadedRiskData> {
+  const hit = loaded.get(id);
+  if (hit) return Promise.resolve(hit);
+
+  let promise = pending.get(id);
+  if (!promise) {
+    promise = loadRiskDatasetManifest()
+      .then((manifest) => {
+        const entry = manifest.datasets.find((d) => d.id === id);
+        if (!entry) throw new Error(`Unknown risk dataset "${id}"`);
+        return fetch(entry.url);
+      })
+      .then((r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return r.json() as Promise<unknown>;
+      })
+      .then((raw) => {
+        const quality = validateRiskData(raw);
+        const result = { data: quality.errorCount === 0 ? (raw as RiskJsonData) : null, quality };
+        loaded.set(id, result);
+        return result;
+      })
+      .finally(() => {
+        pending.delete(id);
+      });
+    pending.set(id, promise);
+  }
+  return promise;
+}
+
+/**
+ * Load a risk dataset (the baseline risk.json by default; null loads
+ * nothing). The file is validated on load: when it has errors `data` stays
+ * null and `error` is set, so no view renders from it; `quality` lists the
+ * errors and any warnings.
+ */
+export function useRiskData(datasetId: string | null = BASELINE_DATASET_ID) {
+  const [state, setState] = useState<{
+    id: string;
+    data: RiskJsonData | null;
+    quality: DataQualityReport | null;
+    error: string | null;
+  } | null>(null);
 
   useEffect(() => {
-    if (cachedData) {
-      setData(cachedData);
-      setIsLoading(false);
-      return;
-    }
-
-    if (!fetchPromise) {
-      fetchPromise = fetch('/data/risk.json')
-        .then((r) => {
-          if (!r.ok) throw new Error(`HTTP ${r.status}`);
-          return r.json() as Promise<RiskJsonData>;
-        })
-        .then((d) => {
-          cachedData = d;
-          return d;
-        })
-        .catch((e) => {
-          fetchPromise = null;
-          throw e;
-        });
-    }
-
-    setIsLoading(true);
-    fetchPromise
-      .then((d) => {
-        setData(d);
-        setError(null);
+    if (!datasetId || loaded.has(datasetId)) return;
+    let aborted = false;
+
+    loadRiskDataset(datasetId)
+      .then(({ data, quality }) => {
+        if (!aborted) setState({ id: datasetId, data, quality, error: validationError(datasetId, quality) });
       })
-      .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load risk data'))
-      .finally(() => setIsLoading(false));
-  }, []);
+      .catch((e) => {
+        if (!aborted) {
+          setState({
+            id: datasetId,
+            data: null,
+            quality: null,
+            error: e instanceof Error ? e.message : 'Failed to load risk data',
+          });
+        }
+      });
+
+    return () => {
+      aborted = true;
+    };
+  }, [datasetId]);
+
+  const cached = datasetId ? loaded.get(datasetId) : undefined;
+  const current = cached && datasetId
+    ? { ...cached, error: validationError(datasetId, cached.quality) }
+    : state?.id === datasetId
+      ? state
+      : null;
 
-  return { data, isLoading, error };
+  return {
+    data: current?.data ?? null,
+    isLoading: datasetId !== null && current === null,
+    error: current?.error ?? null,
+    quality: current?.quality ?? null,
+  };
 }
@@ -0,0 +1,72 @@
+/**
+ * Hook for the risk dataset manifest
+ *
+ * Lists the risk datasets available for comparison. Falls back to the
+ * baseline risk.json alone when the manifest is missing or malformed.
+ */
+
+import { useEffect, useState } from 'react';
+import { BASELINE_DATASET, BASELINE_DATASET_ID, RISK_DATASET_MANIFEST_URL } from '@/types/risk-datasets';
+import type { RiskDatasetEntry, RiskDatasetManifest } from '@/types/risk-datasets';
+
+// Module-level cache: fetch once, share across hook instances
+let cachedManifest: RiskDatasetManifest | null = null;
+let manifestPromise: Promise<RiskDatasetManifest> | null = null;
+
+function isDatasetEntry(value: unknown): value is RiskDatasetEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === 'string' && typeof entry.label === 'string' && typeof entry.url === 'string';
+}
+
+/**
+ * Load the manifest. Malformed entries are skipped and the baseline is always
+ * present, so `useRiskData()` keeps working with a partial manifest.
+ */
+export function loadRiskDatasetManifest(): Promise<RiskDatasetManifest> {
+  if (!manifestPromise) {
+    manifestPromise = fetch(RISK_DATASET_MANIFEST_URL)
+      .then((r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return r.json() as Promise<unknown>;
+      })
+      .then((raw) => {
+        const list = (raw as { datasets?: unknown } | null)?.datasets;
+        return Array.isArray(list) ? list.filter(isDatasetEntry) : [];
+      })
+      .catch((err) => {
+        console.warn('Risk dataset manifest unavailable, using baseline only:', err);
+        return [] as RiskDatasetEntry[];
+      })
+      .then((datasets) => {
+        const manifest = {
+          datasets: datasets.some((d) => d.id === BASELINE_DATASET_ID) ? datasets : [BASELINE_DATASET, ...datasets],
+        };
+        cachedManifest = manifest;
+        return manifest;
+      });
+  }
+  return manifestPromise;
+}
+
+export function useRiskDatasets() {
+  const [manifest, setManifest] = useState<RiskDatasetManifest | null>(cachedManifest);
+
+  useEffect(() => {
+    if (cachedManifest) return;
+    let aborted = false;
+    loadRiskDatasetManifest().then((m) => {
+      if (!aborted) setManifest(m);
+    });
+    return () => {
+      aborted = true;
+    };
+  }, []);
+
+  return {
+    datasets: manifest?.datasets ?? [BASELINE_DATASET],
+    isLoading: manifest === null,
+  };
+}
+
+export default useRiskDatasets;
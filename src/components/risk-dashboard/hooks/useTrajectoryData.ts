@@ -0,0 +1,79 @@
+/**
+ * Hook for the present → future risk trajectory
+ *
+ * Combines the risk dataset, the population risk curves of both climates and
+ * the census growth rates into year-by-year EAD / EAPA per district.
+ */
+
+import { useMemo, useState } from 'react';
+import { useRiskData } from './useRiskData';
+import { usePopulationRiskCurves } from './usePopulationRiskCurves';
+import { useSocioeconomicData } from '@/hooks/useSocioeconomicData';
+import { computeTrajectory } from '@/lib/trajectory';
+import { DISTRICTS } from '@/types/risk';
+import type { DistrictName, RiskJsonData } from '@/types/risk';
+import type { TrajectoryInputs, TrajectoryResult } from '@/types/trajectory';
+import { DEFAULT_TRAJECTORY_INPUTS } from '@/types/trajectory';
+import {
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
+
+interface UseTrajectoryDataResult {
+  result: TrajectoryResult | null;
+  inputs: TrajectoryInputs;
+  setInputs: (inputs: TrajectoryInputs) => void;
+  isLoading: boolean;
+  error: string | null;
+  populationLoading: boolean;
+  populationError: string | null;
+  /** Census growth rates could not be loaded; exposure growth is not applied */
+  growthUnavailable: boolean;
+}
+
+/**
+ * @param integration - EAD integration method and tail handling
+ * @param riskData - Alternative dataset (e.g. from depth–damage curves);
+ *   the original risk.json is used when null or omitted
+ */
+export function useTrajectoryData(
+  integration: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION,
+  riskData: RiskJsonData | null = null
+): UseTrajectoryDataResult {
+  const [inputs, setInputs] = useState<TrajectoryInputs>(DEFAULT_TRAJECTORY_INPUTS);
+
+  const { data: originalData, isLoading, error } = useRiskData();
+  const data = riskData ?? originalData;
+  const presentPopulation = usePopulationRiskCurves('present', inputs.maintenance);
+  const futurePopulation = usePopulationRiskCurves('future', inputs.maintenance);
+  const { data: socioeconomic, error: socioeconomicError } = useSocioeconomicData();
+
+  const growthRates = useMemo(() => {
+    if (!socioeconomic) return null;
+    return Object.fromEntries(
+      DISTRICTS.map((d) => [d, socioeconomic[d]?.census.annualGrowthRate ?? 0])
+    ) as Record<DistrictName, number>;
+  }, [socioeconomic]);
+
+  const result = useMemo(() => {
+    if (!data) return null;
+    const population =
+      presentPopulation.curves && futurePopulation.curves
+        ? { present: presentPopulation.curves, future: futurePopulation.curves }
+        : null;
+    return computeTrajectory({ data, population, growthRates, inputs, integration });
+  }, [data, presentPopulation.curves, futurePopulation.curves, growthRates, inputs, integration]);
+
+  return {
+    result,
+    inputs,
+    setInputs,
+    isLoading,
+    error,
+    populationLoading: presentPopulation.isLoading || futurePopulation.isLoading,
+    populationError: presentPopulation.error || futurePopulation.error,
+    growthUnavailable: inputs.exposureGrowth && socioeconomicError !== null,
+  };
+}
+
+export default useTrajectoryData;
@@ -0,0 +1,187 @@
+/**
+ * Hook for Monte Carlo uncertainty bands (P5/P50/P95) on EAD, EAL and EAF
+ *
+ * Builds the damage curves from risk.json and the fatality ranges from the
+ * population-risk API for one climate × maintenance state, then runs
+ * src/lib/uncertainty.ts in a web worker. A new run replaces (terminates)
+ * any run still in flight.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRiskData } from './useRiskData';
+import { fetchPopulationRiskCurves } from './usePopulationRiskCurves';
+import {
+  ASSET_SECTOR,
+  ASSET_SUB_KEYS,
+  DISTRICTS,
+  OFFICIAL_FACTOR_PROFILE,
+  RETURN_PERIODS,
+  buildScenarioKey,
+  resolveAssetFactors,
+} from '@/types/risk';
+import type { AssetSubKey, DistrictName, FactorProfile, RiskJsonData, SectorKey } from '@/types/risk';
+import {
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+  type RiskCurvePoint,
+} from '@/lib/ead-integration';
+import { DEFAULT_UNCERTAINTY_CONFIG } from '@/types/uncertainty';
+import type {
+  FatalityCurvePoint,
+  UncertaintyInput,
+  UncertaintyResult,
+  UncertaintyWorkerRequest,
+  UncertaintyWorkerResponse,
+} from '@/types/uncertainty';
+
+type Maintenance = 'breaches' | 'redcapacity' | 'perfect';
+
+interface UseUncertaintyDataResult {
+  uncertainty: UncertaintyResult | null;
+  isRunning: boolean;
+  error: string | null;
+}
+
+// buildHigh is valued with the housing factor (see OFFICIAL_ASSET_FACTOR_OVERRIDES),
+// so it shares the housing factor's uncertainty rather than commerce's
+const ASSET_UNCERTAINTY_SECTOR: Record<AssetSubKey, SectorKey> = { ...ASSET_SECTOR, buildHigh: 'housing' };
+
+let nextRequestId = 0;
+
+/**
+ * Low/moderate/high fatalities per district across all return periods.
+ */
+async function fetchFatalityCurves(
+  climate: 'present' | 'future',
+  maintenance: Maintenance
+): Promise<Record<DistrictName, FatalityCurvePoint[]>> {
+  const curves = await fetchPopulationRiskCurves(climate, maintenance);
+  return Object.fromEntries(
+    Object.entries(curves).map(([district, points]) => [
+      district,
+      points.map((p) => ({ returnPeriod: p.returnPeriod, ...p.fatalities })),
+    ])
+  ) as Record<DistrictName, FatalityCurvePoint[]>;
+}
+
+/**
+ * @param climate - 'present' or 'future'
+ * @param maintenance - 'breaches', 'redcapacity', or 'perfect'
+ * @param integration - EAD integration method and tail handling
+ * @param factorProfile - Loss/Damage factors and commerce uplift for EAL
+ * @param enabled - Skip fetching and simulation while false
+ * @param riskData - Dataset to simulate from instead of risk.json, e.g. the
+ *   depth–damage curve results, so the bands match the values they sit on
+ */
+export function useUncertaintyData(
+  climate: 'present' | 'future',
+  maintenance: Maintenance,
+  integration: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION,
+  factorProfile: FactorProfile = OFFICIAL_FACTOR_PROFILE,
+  enabled = true,
+  riskData: RiskJsonData | null = null
+): UseUncertaintyDataResult {
+  const { data: originalData, error: riskError } = useRiskData();
+  const data = riskData ?? originalData;
+  const scenarioKey = `${climate}_${maintenance}`;
+
+  // Fatality ranges for the current scenario; null curves = population API unavailable
+  const [fatalities, setFatalities] = useState<{
+    key: string;
+    curves: Record<DistrictName, FatalityCurvePoint[]> | null;
+  } | null>(null);
+
+  const [run, setRun] = useState<{
+    input: UncertaintyInput;
+    result: UncertaintyResult | null;
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let aborted = false;
+
+    fetchFatalityCurves(climate, maintenance)
+      .then((curves) => {
+        if (!aborted) setFatalities({ key: `${climate}_${maintenance}`, curves });
+      })
+      .catch((err) => {
+        // EAD/EAL bands do not depend on casualty data; run without EAF
+        console.error('Error loading fatality ranges for uncertainty:', err);
+        if (!aborted) setFatalities({ key: `${climate}_${maintenance}`, curves: null });
+      });
+
+    return () => {
+      aborted = true;
+    };
+  }, [climate, maintenance, enabled]);
+
+  const fatalityCurves = fatalities?.key === scenarioKey ? fatalities.curves : undefined;
+
+  const input = useMemo<UncertaintyInput | null>(() => {
+    if (!enabled || !data || fatalityCurves === undefined) return null;
+
+    const damageCurves = Object.fromEntries(
+      DISTRICTS.map((district) => {
+        const byAsset = Object.fromEntries(
+          ASSET_SUB_KEYS.map((asset) => [asset, [] as RiskCurvePoint[]])
+        ) as Record<AssetSubKey, RiskCurvePoint[]>;
+        for (const rp of RETURN_PERIODS) {
+          const regionData = data.data[buildScenarioKey(rp, climate, maintenance)]?.[district]?.['Dmg'];
+          if (!regionData) continue;
+          for (const asset of ASSET_SUB_KEYS) {
+            byAsset[asset].push({ returnPeriod: rp, damage: regionData[asset] ?? 0 });
+          }
+        }
+        return [district, byAsset];
+      })
+    ) as Record<DistrictName, Record<AssetSubKey, RiskCurvePoint[]>>;
+
+    return {
+      climate,
+      maintenance,
+      damageCurves,
+      fatalityCurves,
+      assetFactors: resolveAssetFactors(factorProfile.sectorFactors, factorProfile.assetOverrides),
+      assetSectors: ASSET_UNCERTAINTY_SECTOR,
+      commerceUplift: factorProfile.commerceUplift,
+      integration,
+      config: DEFAULT_UNCERTAINTY_CONFIG,
+    };
+  }, [enabled, data, fatalityCurves, climate, maintenance, integration, factorProfile]);
+
+  useEffect(() => {
+    if (!input) return;
+
+    const id = ++nextRequestId;
+    const worker = new Worker(new URL('../../../workers/uncertainty.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    worker.onmessage = (event: MessageEvent<UncertaintyWorkerResponse>) => {
+      const response = event.data;
+      if (response.id !== id) return;
+      if ('error' in response) {
+        setRun({ input, result: null, error: response.error });
+      } else {
+        setRun({ input, result: response.result, error: null });
+      }
+    };
+    worker.onerror = (event) => {
+      setRun({ input, result: null, error: event.message || 'Uncertainty worker failed' });
+    };
+    const request: UncertaintyWorkerRequest = { id, input };
+    worker.postMessage(request);
+
+    return () => worker.terminate();
+  }, [input]);
+
+  const current = run && run.input === input ? run : null;
+
+  return {
+    uncertainty: current?.result ?? null,
+    isRunning: input !== null && current === null,
+    error: riskError || current?.error || null,
+  };
+}
+
+export default useUncertaintyData;
@@ -0,0 +1,492 @@
+import { useMemo, useState, useEffect } from 'react';
+import { Scale, Map, Download, Info } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { bcaResultsToCsv } from '@/lib/bca';
+import type { DistrictName, FactorProfile } from '@/types/risk';
+import {
+  MAINTENANCE_LEVELS,
+  MAINTENANCE_LABELS,
+  DISTRICTS,
+  ASSET_SUB_KEY_LABELS,
+  RISK_ASSET_COLORS,
+  formatRiskValueFull,
+  getRiskColor,
+} from '@/types/risk';
+import type { BcaBenefitBasis, BcaCostAllocation, BcaInputs, BcaRegionResult } from '@/types/bca';
+import { BCA_BENEFIT_BASIS_LABELS, BCA_COST_ALLOCATION_LABELS } from '@/types/bca';
+import useBcaData from '../hooks/useBcaData';
+import { useRiskDatasets } from '../hooks/useRiskDatasets';
+import type { EadIntegrationOptions } from '@/lib/ead-integration';
+
+interface RiskBcaViewProps {
+  climate: 'present' | 'future';
+  onChoroplethData?: (data: Record<DistrictName, number> | null) => void;
+  /** EAD integration settings (method and tails) from the dashboard */
+  integration?: EadIntegrationOptions;
+  /** Active Loss/Damage factor profile for the EAL benefit basis */
+  factorProfile?: FactorProfile;
+  className?: string;
+}
+
+type Maintenance = (typeof MAINTENANCE_LEVELS)[number];
+
+/** USD with sign (formatRiskValueFull only handles non-negative values) */
+function formatUsd(value: number): string {
+  const formatted = formatRiskValueFull(Math.abs(value), 'Dmg');
+  return value < 0 ? `−${formatted}` : formatted;
+}
+
+function formatBcr(bcr: number | null): string {
+  return bcr === null ? '—' : bcr.toFixed(2);
+}
+
+function formatIrr(irr: number | null): string {
+  return irr === null ? '—' : `${(irr * 100).toFixed(1)}%`;
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  suffix,
+  step,
+  min = 0,
+}: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+  suffix?: string;
+  step?: number;
+  min?: number;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+      <span>{label}{suffix && <span className="text-slate-400 font-normal"> ({suffix})</span>}</span>
+      <Input
+        type="number"
+        value={Number.isFinite(value) ? value : 0}
+        min={min}
+        step={step}
+        onChange={(e) => onChange(Math.max(min, parseFloat(e.target.value) || 0))}
+        className="h-8 text-sm"
+      />
+    </label>
+  );
+}
+
+export function RiskBcaView({ climate, onChoroplethData, integration, factorProfile, className }: RiskBcaViewProps) {
+  const { bcaResults, inputs, setInputs, isLoading, error } = useBcaData(climate, integration, factorProfile);
+  const { datasets } = useRiskDatasets();
+  const [selectedRegion, setSelectedRegion] = useState<DistrictName | 'TOTAL'>('TOTAL');
+  const [showOnMap, setShowOnMap] = useState(true);
+
+  const update = (patch: Partial<BcaInputs>) => setInputs({ ...inputs, ...patch });
+
+  const districtResults = useMemo(
+    () => (bcaResults ?? []).filter((r) => r.region !== 'TOTAL'),
+    [bcaResults]
+  );
+  const totalResult = useMemo(
+    () => bcaResults?.find((r) => r.region === 'TOTAL') ?? null,
+    [bcaResults]
+  );
+  const selectedResult: BcaRegionResult | null = useMemo(
+    () => bcaResults?.find((r) => r.region === selectedRegion) ?? null,
+    [bcaResults, selectedRegion]
+  );
+
+  const benefitOf = (r: BcaRegionResult) =>
+    inputs.benefitBasis === 'ead' ? r.avoidedEad : r.avoidedEal;
+  const maxBenefit = Math.max(...districtResults.map((r) => benefitOf(r)), 1);
+
+  // Choropleth: avoided annual risk per district (selected benefit basis)
+  useEffect(() => {
+    if (showOnMap && onChoroplethData && districtResults.length > 0) {
+      const mapData = {} as Record<DistrictName, number>;
+      for (const r of districtResults) {
+        mapData[r.region as DistrictName] = Math.max(
+          0,
+          inputs.benefitBasis === 'ead' ? r.avoidedEad : r.avoidedEal
+        );
+      }
+      onChoroplethData(mapData);
+    } else if (!showOnMap) {
+      onChoroplethData?.(null);
+    }
+    return () => {
+      onChoroplethData?.(null);
+    };
+  }, [showOnMap, districtResults, inputs.benefitBasis, onChoroplethData]);
+
+  const handleExport = () => {
+    if (!bcaResults) return;
+    const blob = new Blob([bcaResultsToCsv(bcaResults, inputs)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bca_${climate}_${inputs.baseline.datasetId}-${inputs.baseline.maintenance}_vs_${inputs.intervention.datasetId}-${inputs.intervention.maintenance}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const updateDistrictCost = (district: DistrictName, field: 'capital' | 'annualOm', value: number) => {
+    update({
+      districtCosts: {
+        ...inputs.districtCosts,
+        [district]: { ...inputs.districtCosts[district], [field]: value },
+      },
+    });
+  };
+
+  const sameSource =
+    inputs.baseline.datasetId === inputs.intervention.datasetId &&
+    inputs.baseline.maintenance === inputs.intervention.maintenance;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Header */}
+      <div className="px-4 py-3 bg-gradient-to-r from-emerald-50 to-slate-50 border-b border-slate-200">
+        <div className="flex items-center gap-2">
+          <Scale className="w-4 h-4 text-emerald-600" />
+          <span className="text-sm font-semibold text-slate-800">Benefit–Cost Analysis</span>
+        </div>
+        <p className="text-xs text-slate-500 mt-1">
+          Avoided annual risk between a baseline and a with-intervention state, discounted over the planning horizon
+        </p>
+      </div>
+
+      {/* Inputs */}
+      <div className="px-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {(['baseline', 'intervention'] as const).map((role) => (
+            <div key={role} className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-slate-600">
+                {role === 'baseline' ? 'Baseline' : 'With intervention'}
+              </span>
+              <select
+                value={inputs[role].datasetId}
+                onChange={(e) => update({ [role]: { ...inputs[role], datasetId: e.target.value } })}
+                disabled={datasets.length < 2}
+                title={
+                  datasets.length < 2
+                    ? 'Add datasets to public/data/risk-datasets.json (npm run build:risk-data) to appraise them'
+                    : 'Risk dataset'
+                }
+                className="h-7 px-2 text-xs border border-slate-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {datasets.map((d) => (
+                  <option key={d.id} value={d.id} title={d.description}>
+                    {d.label}
+                  </option>
+                ))}
+              </select>
+              <div className="flex gap-1">
+                {MAINTENANCE_LEVELS.map((m) => (
+                  <Button
+                    key={m}
+                    variant={inputs[role].maintenance === m ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => update({ [role]: { ...inputs[role], maintenance: m as Maintenance } })}
+                    className="text-xs h-7"
+                  >
+                    {MAINTENANCE_LABELS[m]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-medium text-slate-600">Benefit:</span>
+          {(Object.keys(BCA_BENEFIT_BASIS_LABELS) as BcaBenefitBasis[]).map((basis) => (
+            <Button
+              key={basis}
+              variant={inputs.benefitBasis === basis ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => update({ benefitBasis: basis })}
+              className="text-xs h-7"
+            >
+              {BCA_BENEFIT_BASIS_LABELS[basis]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          <NumberField
+            label="Capital cost"
+            suffix="USD"
+            value={inputs.capitalCost}
+            step={1_000_000}
+            onChange={(v) => update({ capitalCost: v })}
+          />
+          <NumberField
+            label="O&M cost"
+            suffix="USD/yr"
+            value={inputs.annualOmCost}
+            step={100_000}
+            onChange={(v) => update({ annualOmCost: v })}
+          />
+          <NumberField
+            label="Discount rate"
+            suffix="%"
+            value={Math.round(inputs.discountRate * 1000) / 10}
+            step={0.5}
+            onChange={(v) => update({ discountRate: v / 100 })}
+          />
+          <NumberField
+            label="Horizon"
+            suffix="years"
+            value={inputs.horizonYears}
+            step={5}
+            min={1}
+            onChange={(v) => update({ horizonYears: Math.round(v) })}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-medium text-slate-600">Cost allocation:</span>
+          {(Object.keys(BCA_COST_ALLOCATION_LABELS) as BcaCostAllocation[]).map((mode) => (
+            <Button
+              key={mode}
+              variant={inputs.costAllocation === mode ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => update({ costAllocation: mode })}
+              className="text-xs h-7"
+            >
+              {BCA_COST_ALLOCATION_LABELS[mode]}
+            </Button>
+          ))}
+        </div>
+
+        {inputs.costAllocation === 'custom' && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-1.5 px-2 font-medium text-slate-600">District</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">Capital (USD)</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">O&M (USD/yr)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {DISTRICTS.map((d) => (
+                  <tr key={d} className="border-b border-slate-100">
+                    <td className="py-1 px-2 text-slate-700">{d}</td>
+                    <td className="py-1 px-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={inputs.districtCosts[d]?.capital ?? 0}
+                        onChange={(e) => updateDistrictCost(d, 'capital', Math.max(0, parseFloat(e.target.value) || 0))}
+                        className="h-7 text-xs text-right"
+                      />
+                    </td>
+                    <td className="py-1 px-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={inputs.districtCosts[d]?.annualOm ?? 0}
+                        onChange={(e) => updateDistrictCost(d, 'annualOm', Math.max(0, parseFloat(e.target.value) || 0))}
+                        className="h-7 text-xs text-right"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {sameSource && (
+          <div className="flex items-center gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+            <Info className="w-3.5 h-3.5 flex-shrink-0" />
+            Baseline and intervention are the same state — there is no avoided risk.
+          </div>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="px-4 text-sm text-slate-500">Loading EAD/EAL results...</div>
+      )}
+      {error && (
+        <div className="px-4 text-sm text-red-600">{error}</div>
+      )}
+
+      {/* Summary Cards */}
+      {totalResult && (
+        <div className="px-4 grid grid-cols-2 lg:grid-cols-5 gap-2">
+          {[
+            { label: 'Avoided EAD', value: `${formatUsd(totalResult.avoidedEad)}/yr`, color: 'text-indigo-700' },
+            { label: 'Avoided EAL', value: `${formatUsd(totalResult.avoidedEal)}/yr`, color: 'text-amber-700' },
+            {
+              label: 'NPV',
+              value: formatUsd(totalResult.indicators.npv),
+              color: totalResult.indicators.npv >= 0 ? 'text-emerald-700' : 'text-red-600',
+            },
+            {
+              label: 'BCR',
+              value: formatBcr(totalResult.indicators.bcr),
+              color: (totalResult.indicators.bcr ?? 0) >= 1 ? 'text-emerald-700' : 'text-red-600',
+            },
+            { label: 'IRR', value: formatIrr(totalResult.indicators.irr), color: 'text-slate-900' },
+          ].map((card) => (
+            <div key={card.label} className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2">
+              <p className="text-[11px] text-slate-500">{card.label}</p>
+              <p className={cn('text-base font-bold', card.color)}>{card.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Map + Export */}
+      <div className="px-4 flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={!bcaResults}
+          className="text-xs h-7"
+        >
+          <Download className="w-3.5 h-3.5 mr-1" />
+          Export CSV
+        </Button>
+        <div className="ml-auto">
+          <Button
+            variant={showOnMap ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowOnMap(!showOnMap)}
+            className="text-xs h-7"
+          >
+            <Map className="w-3.5 h-3.5 mr-1" />
+            {showOnMap ? 'Hide Map' : 'Show on Map'}
+          </Button>
+        </div>
+      </div>
+
+      {/* District Table */}
+      {bcaResults && (
+        <div className="px-4">
+          <h4 className="text-sm font-semibold text-slate-700 mb-2">Appraisal by District</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-1.5 px-2 font-medium text-slate-600">District</th>
+                  <th className="py-1.5 px-2 font-medium text-slate-600 min-w-[80px]">Avoided / yr</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">PV Benefits</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">PV Costs</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">NPV</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">BCR</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">IRR</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...districtResults, ...(totalResult ? [totalResult] : [])].map((r) => {
+                  const benefit = benefitOf(r);
+                  const isTotal = r.region === 'TOTAL';
+                  return (
+                    <tr
+                      key={r.region}
+                      onClick={() => setSelectedRegion(r.region)}
+                      className={cn(
+                        'border-b border-slate-100 cursor-pointer hover:bg-slate-50',
+                        isTotal && 'bg-slate-100 font-semibold',
+                        selectedRegion === r.region && 'ring-1 ring-inset ring-emerald-400',
+                      )}
+                    >
+                      <td className="py-1.5 px-2 text-slate-700 whitespace-nowrap">{r.region}</td>
+                      <td className="py-1.5 px-2">
+                        {isTotal ? (
+                          <span className="block text-right text-slate-800 whitespace-nowrap">{formatUsd(benefit)}</span>
+                        ) : (
+                          <div className="flex items-center gap-1.5">
+                            <div className="flex-1 h-2 bg-slate-100 rounded-sm overflow-hidden">
+                              <div
+                                className="h-full rounded-sm"
+                                style={{
+                                  width: `${Math.max(0, benefit / maxBenefit) * 100}%`,
+                                  backgroundColor: getRiskColor(Math.max(0, benefit), 0, maxBenefit),
+                                }}
+                              />
+                            </div>
+                            <span className="w-16 text-right text-slate-600 whitespace-nowrap">{formatUsd(benefit)}</span>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-1.5 px-2 text-right text-slate-600 whitespace-nowrap">{formatUsd(r.indicators.pvBenefits)}</td>
+                      <td className="py-1.5 px-2 text-right text-slate-600 whitespace-nowrap">{formatUsd(r.indicators.pvCosts)}</td>
+                      <td className={cn('py-1.5 px-2 text-right whitespace-nowrap', r.indicators.npv >= 0 ? 'text-emerald-700' : 'text-red-600')}>
+                        {formatUsd(r.indicators.npv)}
+                      </td>
+                      <td className="py-1.5 px-2 text-right text-slate-800">{formatBcr(r.indicators.bcr)}</td>
+                      <td className="py-1.5 px-2 text-right text-slate-800">{formatIrr(r.indicators.irr)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Asset Breakdown */}
+      {selectedResult && (
+        <div className="px-4">
+          <h4 className="text-sm font-semibold text-slate-700 mb-2">
+            Benefits by Asset — {selectedRegion === 'TOTAL' ? 'All Districts' : selectedRegion}
+          </h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-1.5 px-2 font-medium text-slate-600">Asset</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">Avoided EAD</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">Avoided EAL</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">PV Benefits</th>
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600">NPV</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...selectedResult.assets]
+                  .sort((a, b) => b.pvBenefits - a.pvBenefits)
+                  .map((a) => (
+                    <tr key={a.asset} className="border-b border-slate-50">
+                      <td className="py-1 px-2 text-slate-600">
+                        <span className="inline-block w-1.5 h-1.5 rounded-sm mr-1.5" style={{ backgroundColor: RISK_ASSET_COLORS[a.asset] }} />
+                        {ASSET_SUB_KEY_LABELS[a.asset]}
+                      </td>
+                      <td className="py-1 px-2 text-right text-slate-500 whitespace-nowrap">{formatUsd(a.avoidedEad)}</td>
+                      <td className="py-1 px-2 text-right text-slate-500 whitespace-nowrap">{formatUsd(a.avoidedEal)}</td>
+                      <td className="py-1 px-2 text-right text-slate-600 whitespace-nowrap">{formatUsd(a.pvBenefits)}</td>
+                      <td className={cn('py-1 px-2 text-right whitespace-nowrap', a.npv >= 0 ? 'text-emerald-700' : 'text-red-600')}>
+                        {formatUsd(a.npv)}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Methodology */}
+      <div className="px-4 pb-4">
+        <p className="text-xs text-slate-500 leading-relaxed">
+          <strong>Methodology:</strong> Annual benefit = baseline minus with-intervention EAD (or EAL, including the
+          commerce uplift) for the {climate} climate, each from its own dataset and maintenance state. Capital is spent in year 0; benefits and O&M recur every year
+          of the horizon and are discounted at the real discount rate. BCR = PV benefits / PV costs; IRR is the rate
+          at which NPV = 0. Pro rata costs follow positive avoided risk only, so a district or asset whose risk rises
+          carries none. Asset NPVs carry the region's costs pro rata to each asset's share of benefits, so BCR and
+          IRR are reported per district only.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default RiskBcaView;
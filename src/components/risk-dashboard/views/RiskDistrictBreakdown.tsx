@@ -14,12 +14,16 @@ import {
   ASSET_SUB_KEY_LABELS,
 } from '@/types/risk';
 import { DistrictBarChart } from '../components/DistrictBarChart';
+import { RiskDeltaValue } from '../components/RiskDeltaValue';
+import type { DatasetComparison } from '@/types/risk-datasets';
 
 interface RiskDistrictBreakdownProps {
   data: RiskJsonData;
   scenarioKey: ScenarioKey;
   mode: RiskMode;
   onBack: () => void;
+  /** Dataset selected in "Compare against"; adds compared − baseline differences */
+  comparison?: DatasetComparison<RiskJsonData> | null;
   className?: string;
 }
 
@@ -28,10 +32,16 @@ export function RiskDistrictBreakdown({
   scenarioKey,
   mode,
   onBack,
+  comparison,
   className,
 }: RiskDistrictBreakdownProps) {
   const meta = data.scenarios[scenarioKey];
   const scenarioData = data.data[scenarioKey];
+  const compareScenario = comparison?.value.data[scenarioKey];
+  const compareTotal = (region: string): number | null => {
+    const regionData = compareScenario?.[region]?.[mode];
+    return regionData ? totalRiskValue(regionData) : null;
+  };
 
   // Build chart data
   const chartData = useMemo(() => {
@@ -119,6 +129,13 @@ export function RiskDistrictBreakdown({
           <div className="text-lg font-bold text-slate-900">
             {formatRiskValueFull(grandTotal, mode)}
           </div>
+          {comparison && compareTotal('TOTAL') !== null && (
+            <div className="text-sm mt-0.5">
+              <span className="text-slate-500">{comparison.compareLabel}: </span>
+              <span className="text-slate-700">{formatRiskValueFull(compareTotal('TOTAL') ?? 0, mode)} </span>
+              <RiskDeltaValue active={grandTotal} compare={compareTotal('TOTAL') ?? 0} mode={mode} />
+            </div>
+          )}
         </div>
       )}
 
@@ -138,6 +155,14 @@ export function RiskDistrictBreakdown({
                 <th className="text-left py-1.5 px-1 font-medium text-slate-600">#</th>
                 <th className="text-left py-1.5 px-1 font-medium text-slate-600">District</th>
                 <th className="text-right py-1.5 px-1 font-medium text-slate-600">Total</th>
+                {comparison && (
+                  <th
+                    className="text-right py-1.5 px-1 font-medium text-slate-600 whitespace-nowrap"
+                    title={`${comparison.compareLabel} − ${comparison.baselineLabel}`}
+                  >
+                    Δ {comparison.compareLabel}
+                  </th>
+                )}
                 {DISPLAY_ASSET_KEYS.map((k) => (
                   <th key={k} className="text-right py-1.5 px-1 font-medium text-slate-600 whitespace-nowrap">
                     <span className="inline-block w-2 h-2 rounded-sm mr-1" style={{ backgroundColor: RISK_ASSET_COLORS[k] }} />
@@ -154,6 +179,15 @@ export function RiskDistrictBreakdown({
                   <td className="py-1.5 px-1 text-right font-semibold text-slate-900">
                     {formatRiskValueFull(total, mode)}
                   </td>
+                  {comparison && (
+                    <td className="py-1.5 px-1 text-right">
+                      {compareTotal(district) !== null ? (
+                        <RiskDeltaValue active={total} compare={compareTotal(district) ?? 0} mode={mode} />
+                      ) : (
+                        <span className="text-slate-400">—</span>
+                      )}
+                    </td>
+                  )}
                   {DISPLAY_ASSET_KEYS.map((k) => (
                     <td key={k} className="py-1.5 px-1 text-right text-slate-600 whitespace-nowrap">
                       {rd ? formatRiskValueFull(rd[k] ?? 0, mode) : '0'}
@@ -1,20 +1,45 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { Calculator, Map, BarChart3, ChevronDown, ChevronRight } from 'lucide-react';
+import { Calculator, Map, BarChart3, ChevronDown, ChevronRight, Settings2, Sigma, Activity, Waves, Percent, GitCompare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import type { EadResult, AssetSubKey, DistrictName } from '@/types/risk';
+import type { EadResult, AssetSubKey, DistrictName, MaintenanceOption, ChoroplethOptions } from '@/types/risk';
 import {
   MAINTENANCE_LEVELS,
+  MAINTENANCE_OPTIONS,
   MAINTENANCE_LABELS,
+  EXPECTED_MAINTENANCE,
   DISTRICTS,
   DISPLAY_ASSET_KEYS,
+  ASSET_SUB_KEYS,
   ASSET_SUB_KEY_LABELS,
+  RETURN_PERIODS,
+  buildScenarioKey,
   formatRiskValueFull,
   getRiskColor,
   RISK_ASSET_COLORS,
 } from '@/types/risk';
+import type { EadIntegrationOptions, EadIntervalContribution } from '@/lib/ead-integration';
+import type { DepthDamageResult } from '@/lib/depth-damage';
+import type { DamageSource, DepthDamageConfig } from '@/types/depth-damage';
+import type { MaintenanceBlend } from '@/types/maintenance-blend';
+import type { DatasetComparison } from '@/types/risk-datasets';
+import { withExpectedMaintenance } from '@/lib/maintenance-blend';
+import { calculateExpectedAnnualPopulationAffected } from '@/lib/hotspot';
+import {
+  describeEadIntegration,
+  integrateRiskCurve,
+  sumIntegrationResults,
+} from '@/lib/ead-integration';
+import { useRiskData } from '../hooks/useRiskData';
 import { EadBarChart } from '../components/EadBarChart';
 import type { EadBarChartData } from '../components/EadBarChart';
+import { EadIntegrationSettings } from '../components/EadIntegrationSettings';
+import { DepthDamageEditor } from '../components/DepthDamageEditor';
+import { MaintenanceBlendEditor } from '../components/MaintenanceBlendEditor';
+import { DatasetComparisonTable } from '../components/DatasetComparisonTable';
+import { UncertaintySummary } from '../components/UncertaintySummary';
+import { useUncertaintyData } from '../hooks/useUncertaintyData';
+import { useExpectedPopulationRisk } from '../hooks/useExpectedPopulationRisk';
 
 // Asset groups for EAD table
 const ASSET_GROUPS = {
@@ -28,17 +53,104 @@ const ASSET_GROUPS = {
 
 type AssetGroupKey = keyof typeof ASSET_GROUPS;
 
+const FIRST_RP = RETURN_PERIODS[0];
+const LAST_RP = RETURN_PERIODS[RETURN_PERIODS.length - 1];
+
+const INTERVAL_KIND_COLORS: Record<EadIntervalContribution['kind'], string> = {
+  'lower-tail': '#94a3b8',
+  modelled: '#6366f1',
+  'upper-tail': '#f59e0b',
+};
+
+function formatIntervalRange(iv: EadIntervalContribution): string {
+  const to = Number.isFinite(iv.toReturnPeriod) ? `${iv.toReturnPeriod}yr` : '∞';
+  return `${iv.fromReturnPeriod}yr – ${to}`;
+}
+
 interface RiskEadViewProps {
   eadResults: EadResult[];
   climate: 'present' | 'future';
-  onChoroplethData?: (data: Record<DistrictName, number> | null) => void;
+  onChoroplethData?: (data: Record<DistrictName, number> | null, options?: ChoroplethOptions) => void;
+  /** Integration method and tail handling used to compute eadResults */
+  integration: EadIntegrationOptions;
+  onIntegrationChange: (integration: EadIntegrationOptions) => void;
+  /** Whether eadResults come from risk.json or from the depth–damage curves */
+  damageSource: DamageSource;
+  onDamageSourceChange: (source: DamageSource) => void;
+  depthDamageConfig: DepthDamageConfig;
+  onDepthDamageConfigChange: (config: DepthDamageConfig) => void;
+  /** Curve-based dataset and its loading state */
+  depthDamage: { result: DepthDamageResult | null; isLoading: boolean; error: string | null };
+  /** EAD from risk.json, for comparison with the curve-based results */
+  originalEadResults: EadResult[] | null;
+  /** Maintenance state probabilities behind the Expected option */
+  maintenanceBlend: MaintenanceBlend;
+  onMaintenanceBlendChange: (blend: MaintenanceBlend) => void;
+  /** EAD of the dataset selected in "Compare against" */
+  comparison?: DatasetComparison<EadResult[]> | null;
   className?: string;
 }
 
-export function RiskEadView({ eadResults, climate, onChoroplethData, className }: RiskEadViewProps) {
-  const [selectedMaintenance, setSelectedMaintenance] = useState<'breaches' | 'redcapacity' | 'perfect'>('breaches');
+export function RiskEadView({
+  eadResults,
+  climate,
+  onChoroplethData,
+  integration,
+  onIntegrationChange,
+  damageSource,
+  onDamageSourceChange,
+  depthDamageConfig,
+  onDepthDamageConfigChange,
+  depthDamage,
+  originalEadResults,
+  maintenanceBlend,
+  onMaintenanceBlendChange,
+  comparison,
+  className,
+}: RiskEadViewProps) {
+  const [selectedMaintenance, setSelectedMaintenance] = useState<MaintenanceOption>('breaches');
   const [showOnMap, setShowOnMap] = useState(true);
+  const [mapDelta, setMapDelta] = useState(false);
   const [expandedGroups, setExpandedGroups] = useState<Set<AssetGroupKey>>(new Set());
+  const [explainRegion, setExplainRegion] = useState<DistrictName | 'TOTAL'>('TOTAL');
+
+  const [showUncertainty, setShowUncertainty] = useState(false);
+
+  const { data: originalData } = useRiskData();
+  // Interval breakdown follows the damage source of eadResults
+  const curveData = damageSource === 'curves' ? depthDamage.result?.data ?? null : null;
+  const baseData = curveData ?? originalData;
+  const data = useMemo(
+    () => (baseData ? withExpectedMaintenance(baseData, maintenanceBlend) : null),
+    [baseData, maintenanceBlend]
+  );
+  const isExpected = selectedMaintenance === EXPECTED_MAINTENANCE;
+  // Monte Carlo bands are only simulated for the modelled maintenance states
+  const {
+    uncertainty,
+    isRunning: uncertaintyRunning,
+    error: uncertaintyError,
+  } = useUncertaintyData(
+    climate,
+    isExpected ? 'breaches' : selectedMaintenance,
+    integration,
+    undefined,
+    showUncertainty && !isExpected,
+    curveData
+  );
+  const expectedPopulation = useExpectedPopulationRisk(climate, maintenanceBlend, isExpected);
+  const expectedEapa = useMemo(() => {
+    if (!expectedPopulation.curves) return null;
+    return Object.fromEntries(
+      DISTRICTS.map((d) => [
+        d,
+        calculateExpectedAnnualPopulationAffected(
+          expectedPopulation.curves?.[d].map((p) => ({ returnPeriod: p.returnPeriod, population: p.affectedPopulation })) ?? [],
+          integration
+        ),
+      ])
+    ) as Record<DistrictName, number>;
+  }, [expectedPopulation.curves, integration]);
 
   const toggleGroup = (group: AssetGroupKey) => {
     setExpandedGroups((prev) => {
@@ -70,6 +182,9 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
       return { maintenance: m, result };
     });
   }, [eadResults, climate]);
+  const expectedSummary = eadResults.find(
+    (r) => r.climate === climate && r.maintenance === EXPECTED_MAINTENANCE && r.region === 'TOTAL'
+  );
 
   // District chart data for selected maintenance
   const districtChartData: EadBarChartData[] = useMemo(() => {
@@ -86,9 +201,10 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
         district,
         rawData,
         eadTotal: result?.eadTotal ?? 0,
+        band: isExpected ? undefined : uncertainty?.regions.find((r) => r.region === district)?.ead,
       };
     }).sort((a, b) => b.eadTotal - a.eadTotal);
-  }, [eadResults, climate, selectedMaintenance]);
+  }, [eadResults, climate, selectedMaintenance, uncertainty, isExpected]);
 
   // Ranked districts
   const rankedDistricts = useMemo(() => {
@@ -100,6 +216,44 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
     }).sort((a, b) => b.eadTotal - a.eadTotal);
   }, [eadResults, climate, selectedMaintenance]);
 
+  // Per-interval contributions for the explanation panel: each asset's curve is
+  // integrated on its own (as in useEadData), then summed interval by interval
+  const intervalBreakdown = useMemo(() => {
+    if (!data) return null;
+    const regions = explainRegion === 'TOTAL' ? DISTRICTS : [explainRegion];
+    const perAsset = regions.flatMap((region) =>
+      ASSET_SUB_KEYS.map((asset) => {
+        const points: { returnPeriod: number; damage: number }[] = [];
+        for (const rp of RETURN_PERIODS) {
+          const regionData = data.data[buildScenarioKey(rp, climate, selectedMaintenance)]?.[region]?.['Dmg'];
+          if (regionData) points.push({ returnPeriod: rp, damage: regionData[asset] ?? 0 });
+        }
+        return integrateRiskCurve(points, integration);
+      })
+    );
+    return sumIntegrationResults(perAsset);
+  }, [data, explainRegion, climate, selectedMaintenance, integration]);
+
+  const maxContribution = useMemo(
+    () => Math.max(...(intervalBreakdown?.intervals.map((iv) => iv.contribution) ?? []), 1),
+    [intervalBreakdown]
+  );
+
+  // EAD per region of the selected scenario, baseline and compared dataset
+  const comparisonTotals = useMemo(() => {
+    if (!comparison) return null;
+    const totals = (results: EadResult[]) =>
+      Object.fromEntries(
+        [...DISTRICTS, 'TOTAL' as const].map((region) => [
+          region,
+          results.find((r) => r.climate === climate && r.maintenance === selectedMaintenance && r.region === region)
+            ?.eadTotal ?? 0,
+        ])
+      ) as Record<DistrictName | 'TOTAL', number>;
+    return { active: totals(eadResults), compare: totals(comparison.value) };
+  }, [comparison, eadResults, climate, selectedMaintenance]);
+  const showMapDelta = mapDelta && comparisonTotals !== null;
+
   // Max total for bar width scaling
   const maxEad = useMemo(() => Math.max(...rankedDistricts.map((d) => d.eadTotal), 1), [rankedDistricts]);
 
@@ -111,16 +265,19 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
         const result = eadResults.find(
           (r) => r.climate === climate && r.maintenance === selectedMaintenance && r.region === d
         );
-        mapData[d as DistrictName] = result?.eadTotal ?? 0;
+        // Compared − baseline in delta mode; the map uses a diverging scale for negative values
+        mapData[d as DistrictName] = showMapDelta && comparisonTotals
+          ? comparisonTotals.compare[d] - comparisonTotals.active[d]
+          : result?.eadTotal ?? 0;
       }
-      onChoroplethData(mapData);
+      onChoroplethData(mapData, { diverging: showMapDelta });
     } else if (!showOnMap) {
       onChoroplethData?.(null);
     }
     return () => {
       onChoroplethData?.(null);
     };
-  }, [showOnMap, eadResults, climate, selectedMaintenance, onChoroplethData]);
+  }, [showOnMap, eadResults, climate, selectedMaintenance, onChoroplethData, showMapDelta, comparisonTotals]);
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -131,10 +288,54 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
           <span className="text-sm font-semibold text-slate-800">Expected Annual Damage (EAD)</span>
         </div>
         <p className="text-xs text-slate-500 mt-1">
-          Trapezoidal integration across 7 return periods (2.3yr – 500yr)
+          {describeEadIntegration(integration, FIRST_RP, LAST_RP)}
+          {curveData && ' — damages recomputed from depth–damage curves'}
         </p>
       </div>
 
+      {/* Integration Settings */}
+      <div className="px-4">
+        <div className="flex items-center gap-1.5 mb-2">
+          <Settings2 className="w-3.5 h-3.5 text-indigo-600" />
+          <h4 className="text-sm font-semibold text-slate-700">Integration Settings</h4>
+        </div>
+        <EadIntegrationSettings
+          value={integration}
+          onChange={onIntegrationChange}
+          firstReturnPeriod={FIRST_RP}
+          lastReturnPeriod={LAST_RP}
+        />
+      </div>
+
+      {/* Depth–Damage Functions */}
+      <div className="px-4">
+        <div className="flex items-center gap-1.5 mb-2">
+          <Waves className="w-3.5 h-3.5 text-indigo-600" />
+          <h4 className="text-sm font-semibold text-slate-700">Depth–Damage Functions</h4>
+        </div>
+        <DepthDamageEditor
+          source={damageSource}
+          onSourceChange={onDamageSourceChange}
+          value={depthDamageConfig}
+          onChange={onDepthDamageConfigChange}
+          result={depthDamage.result}
+          isLoading={depthDamage.isLoading}
+          error={depthDamage.error}
+          climate={climate}
+          originalEadResults={originalEadResults}
+          eadResults={eadResults}
+        />
+      </div>
+
+      {/* Maintenance State Probabilities */}
+      <div className="px-4">
+        <div className="flex items-center gap-1.5 mb-2">
+          <Percent className="w-3.5 h-3.5 text-indigo-600" />
+          <h4 className="text-sm font-semibold text-slate-700">Maintenance State Probabilities</h4>
+        </div>
+        <MaintenanceBlendEditor value={maintenanceBlend} onChange={onMaintenanceBlendChange} />
+      </div>
+
       {/* Summary Table */}
       <div className="px-4">
         <div className="flex items-center justify-between mb-2">
@@ -157,6 +358,7 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
                 <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">Reduced Cap.</th>
                 <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">Perfect</th>
                 <th className="text-right py-1.5 px-2 font-medium text-slate-600 border-l border-slate-200 whitespace-nowrap">Avg</th>
+                <th className="text-right py-1.5 px-2 font-medium text-indigo-700 whitespace-nowrap">Expected</th>
               </tr>
             </thead>
             <tbody>
@@ -167,6 +369,7 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
                 const reducedTotal = getGroupTotal(summaryData.find((d) => d.maintenance === 'redcapacity')?.result?.ead, groupKey);
                 const perfectTotal = getGroupTotal(summaryData.find((d) => d.maintenance === 'perfect')?.result?.ead, groupKey);
                 const avgTotal = (breachesTotal + reducedTotal + perfectTotal) / 3;
+                const expectedTotal = getGroupTotal(expectedSummary?.ead, groupKey);
 
                 return (
                   <React.Fragment key={groupKey}>
@@ -195,6 +398,9 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
                       <td className="py-1.5 px-2 text-right font-semibold text-slate-900 border-l border-slate-200 whitespace-nowrap">
                         {formatRiskValueFull(avgTotal, 'Dmg')}
                       </td>
+                      <td className="py-1.5 px-2 text-right font-semibold text-indigo-700 whitespace-nowrap">
+                        {formatRiskValueFull(expectedTotal, 'Dmg')}
+                      </td>
                     </tr>
                     {/* Expanded asset rows */}
                     {isExpanded && group.assets.map((asset) => {
@@ -202,6 +408,7 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
                       const reducedVal = summaryData.find((d) => d.maintenance === 'redcapacity')?.result?.ead[asset] ?? 0;
                       const perfectVal = summaryData.find((d) => d.maintenance === 'perfect')?.result?.ead[asset] ?? 0;
                       const avgVal = (breachesVal + reducedVal + perfectVal) / 3;
+                      const expectedVal = expectedSummary?.ead[asset] ?? 0;
 
                       return (
                         <tr key={asset} className="border-b border-slate-50 bg-slate-50/50 hover:bg-slate-50">
@@ -221,6 +428,9 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
                           <td className="py-1 px-2 text-right text-slate-600 border-l border-slate-200 whitespace-nowrap">
                             {formatRiskValueFull(avgVal, 'Dmg')}
                           </td>
+                          <td className="py-1 px-2 text-right text-indigo-600 whitespace-nowrap">
+                            {formatRiskValueFull(expectedVal, 'Dmg')}
+                          </td>
                         </tr>
                       );
                     })}
@@ -247,6 +457,9 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
                     'Dmg'
                   )}
                 </td>
+                <td className="py-1.5 px-2 text-right text-indigo-700 whitespace-nowrap">
+                  {formatRiskValueFull(expectedSummary?.eadTotal ?? 0, 'Dmg')}
+                </td>
               </tr>
             </tbody>
           </table>
@@ -256,19 +469,34 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
       {/* Maintenance Toggle + Map Toggle */}
       <div className="px-4 flex flex-wrap items-center gap-2">
         <div className="flex gap-1">
-          {MAINTENANCE_LEVELS.map((m) => (
+          {MAINTENANCE_OPTIONS.map((m) => (
             <Button
               key={m}
               variant={selectedMaintenance === m ? 'default' : 'ghost'}
               size="sm"
-              onClick={() => setSelectedMaintenance(m as typeof selectedMaintenance)}
+              onClick={() => setSelectedMaintenance(m)}
               className="text-xs h-7"
             >
               {MAINTENANCE_LABELS[m]}
             </Button>
           ))}
         </div>
-        <div className="ml-auto">
+        <div className="ml-auto flex gap-1">
+          <Button
+            variant={showUncertainty ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowUncertainty(!showUncertainty)}
+            className="text-xs h-7"
+            disabled={isExpected}
+            title={
+              isExpected
+                ? 'Uncertainty bands are simulated for the modelled maintenance states only'
+                : 'Monte Carlo P5–P95 bands from sector factor, depth–damage and casualty uncertainty'
+            }
+          >
+            <Activity className="w-3.5 h-3.5 mr-1" />
+            Uncertainty
+          </Button>
           <Button
             variant={showOnMap ? 'default' : 'outline'}
             size="sm"
@@ -278,6 +506,18 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
             <Map className="w-3.5 h-3.5 mr-1" />
             {showOnMap ? 'Hide Map' : 'Show on Map'}
           </Button>
+          {comparison && (
+            <Button
+              variant={mapDelta ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMapDelta(!mapDelta)}
+              className="text-xs h-7"
+              title={`Map ${comparison.compareLabel} − ${comparison.baselineLabel}`}
+            >
+              <GitCompare className="w-3.5 h-3.5 mr-1" />
+              Δ on Map
+            </Button>
+          )}
         </div>
       </div>
 
@@ -289,9 +529,158 @@ export function RiskEadView({ eadResults, climate, onChoroplethData, className }
             EAD by District — {MAINTENANCE_LABELS[selectedMaintenance]}
           </h4>
         </div>
+        {showUncertainty && !isExpected && (
+          <UncertaintySummary
+            label="EAD"
+            band={uncertainty?.regions.find((r) => r.region === 'TOTAL')?.ead}
+            iterations={uncertainty?.iterations}
+            isRunning={uncertaintyRunning}
+            error={uncertaintyError}
+            format={(v) => formatRiskValueFull(v, 'Dmg')}
+            className="mb-2"
+          />
+        )}
         <EadBarChart data={districtChartData} />
       </div>
 
+      {/* Dataset Comparison */}
+      {comparison && comparisonTotals && (
+        <DatasetComparisonTable
+          metric={`EAD — ${MAINTENANCE_LABELS[selectedMaintenance]}`}
+          activeLabel={comparison.baselineLabel}
+          compareLabel={comparison.compareLabel}
+          active={comparisonTotals.active}
+          compare={comparisonTotals.compare}
+          format={(v) => formatRiskValueFull(v, 'Dmg')}
+        />
+      )}
+
+      {/* Expected State by District */}
+      {isExpected && (
+        <div className="px-4">
+          <h4 className="text-sm font-semibold text-slate-700 mb-2">Expected State by District</h4>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-1.5 px-2 font-medium text-slate-600">District</th>
+                <th className="text-right py-1.5 px-2 font-medium text-slate-600">Expected EAD</th>
+                <th className="text-right py-1.5 px-2 font-medium text-slate-600">Expected EAPA</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...DISTRICTS, 'TOTAL' as const].map((region) => {
+                const result = eadResults.find(
+                  (r) => r.climate === climate && r.maintenance === EXPECTED_MAINTENANCE && r.region === region
+                );
+                const eapa = expectedEapa
+                  ? region === 'TOTAL'
+                    ? Object.values(expectedEapa).reduce((sum, v) => sum + v, 0)
+                    : expectedEapa[region]
+                  : null;
+                return (
+                  <tr
+                    key={region}
+                    className={cn('border-b border-slate-100', region === 'TOTAL' && 'bg-slate-100 font-semibold')}
+                  >
+                    <td className="py-1.5 px-2 text-slate-700">{region === 'TOTAL' ? 'All districts' : region}</td>
+                    <td className="py-1.5 px-2 text-right text-slate-800 whitespace-nowrap">
+                      {formatRiskValueFull(result?.eadTotal ?? 0, 'Dmg')}
+                    </td>
+                    <td className="py-1.5 px-2 text-right text-slate-800 whitespace-nowrap">
+                      {eapa !== null ? Math.round(eapa).toLocaleString() : expectedPopulation.isLoading ? '…' : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {expectedPopulation.error && (
+            <p className="text-xs text-red-600 mt-1">Population risk unavailable: {expectedPopulation.error}</p>
+          )}
+        </div>
+      )}
+
+      {/* Interval Contribution Panel */}
+      {intervalBreakdown && (
+        <div className="px-4">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-1.5">
+              <Sigma className="w-3.5 h-3.5 text-indigo-600" />
+              <h4 className="text-sm font-semibold text-slate-700">
+                EAD by Return-Period Interval — {MAINTENANCE_LABELS[selectedMaintenance]}
+              </h4>
+            </div>
+            <select
+              value={explainRegion}
+              onChange={(e) => setExplainRegion(e.target.value as DistrictName | 'TOTAL')}
+              className="text-xs h-7 border border-slate-200 rounded-md px-2 bg-white"
+            >
+              <option value="TOTAL">All districts</option>
+              {DISTRICTS.map((d) => (
+                <option key={d} value={d}>{d}</option>
+              ))}
+            </select>
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-1.5 px-2 font-medium text-slate-600">Interval</th>
+                <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">Damage (from → to)</th>
+                <th className="text-right py-1.5 px-2 font-medium text-slate-600">EAD</th>
+                <th className="py-1.5 px-2 font-medium text-slate-600 w-1/4">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {intervalBreakdown.intervals.map((iv) => {
+                const pct = intervalBreakdown.total > 0 ? (iv.contribution / intervalBreakdown.total) * 100 : 0;
+                return (
+                  <tr key={`${iv.kind}-${iv.fromReturnPeriod}`} className="border-b border-slate-100">
+                    <td className="py-1 px-2 text-slate-700 whitespace-nowrap">
+                      {formatIntervalRange(iv)}
+                      {iv.kind !== 'modelled' && (
+                        <span className="ml-1 text-[10px] text-slate-400">
+                          ({iv.kind === 'lower-tail' ? 'lower tail' : 'upper tail'})
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1 px-2 text-right text-slate-500 whitespace-nowrap">
+                      {formatRiskValueFull(iv.fromValue, 'Dmg')} → {formatRiskValueFull(iv.toValue, 'Dmg')}
+                    </td>
+                    <td className="py-1 px-2 text-right font-medium text-slate-800 whitespace-nowrap">
+                      {formatRiskValueFull(iv.contribution, 'Dmg')}
+                    </td>
+                    <td className="py-1 px-2">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 bg-slate-100 rounded-sm overflow-hidden">
+                          <div
+                            className="h-full rounded-sm"
+                            style={{
+                              width: `${(iv.contribution / maxContribution) * 100}%`,
+                              backgroundColor: INTERVAL_KIND_COLORS[iv.kind],
+                            }}
+                          />
+                        </div>
+                        <span className="w-10 text-right text-slate-500 text-[10px]">{pct.toFixed(1)}%</span>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              <tr className="bg-slate-100 font-semibold">
+                <td className="py-1.5 px-2 text-slate-800" colSpan={2}>Total EAD</td>
+                <td className="py-1.5 px-2 text-right text-slate-900 whitespace-nowrap">
+                  {formatRiskValueFull(intervalBreakdown.total, 'Dmg')}
+                </td>
+                <td />
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400 mt-1">
+            Each interval's EAD is the area under the damage curve between its two annual exceedance probabilities.
+          </p>
+        </div>
+      )}
+
       {/* Ranked District Table - Grouped View */}
       <div className="px-4">
         <h4 className="text-sm font-semibold text-slate-700 mb-2">Ranked by Total EAD</h4>
@@ -1,19 +1,29 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { TrendingUp, Map, BarChart3, ChevronDown, ChevronRight } from 'lucide-react';
+import { TrendingUp, Map, BarChart3, ChevronDown, ChevronRight, Activity, SlidersHorizontal, GitCompare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import type { EalResult, AssetSubKey, DistrictName } from '@/types/risk';
+import type { EalResult, AssetSubKey, DistrictName, FactorProfile, MaintenanceOption, ChoroplethOptions, RiskJsonData } from '@/types/risk';
 import {
   MAINTENANCE_LEVELS,
+  MAINTENANCE_OPTIONS,
   MAINTENANCE_LABELS,
+  EXPECTED_MAINTENANCE,
   DISTRICTS,
   DISPLAY_ASSET_KEYS,
   ASSET_SUB_KEY_LABELS,
+  RETURN_PERIODS,
   formatRiskValueFull,
   getRiskColor,
   RISK_ASSET_COLORS,
 } from '@/types/risk';
+import type { EadIntegrationOptions } from '@/lib/ead-integration';
+import { describeEadIntegration } from '@/lib/ead-integration';
+import type { DatasetComparison } from '@/types/risk-datasets';
 import { EalBarChart } from '../components/EalBarChart';
+import { FactorProfileEditor } from '../components/FactorProfileEditor';
+import { DatasetComparisonTable } from '../components/DatasetComparisonTable';
+import { UncertaintySummary } from '../components/UncertaintySummary';
+import { useUncertaintyData } from '../hooks/useUncertaintyData';
 import type { EalBarChartData } from '../components/EalBarChart';
 
 // Same asset grouping as EAD (sectors are internal to factor application only)
@@ -31,13 +41,34 @@ type AssetGroupKey = keyof typeof ASSET_GROUPS;
 interface RiskEalViewProps {
   ealResults: EalResult[];
   climate: 'present' | 'future';
-  onChoroplethData?: (data: Record<DistrictName, number> | null) => void;
+  onChoroplethData?: (data: Record<DistrictName, number> | null, options?: ChoroplethOptions) => void;
+  /** Integration method and tail handling used to compute ealResults */
+  integration: EadIntegrationOptions;
+  /** Loss/Damage factors and commerce uplift used to compute ealResults */
+  factorProfile: FactorProfile;
+  onFactorProfileChange: (profile: FactorProfile) => void;
+  /** Damages recomputed from depth–damage curves when ealResults use them */
+  curveData?: RiskJsonData | null;
+  /** EAL of the dataset selected in "Compare against" */
+  comparison?: DatasetComparison<EalResult[]> | null;
   className?: string;
 }
 
-export function RiskEalView({ ealResults, climate, onChoroplethData, className }: RiskEalViewProps) {
-  const [selectedMaintenance, setSelectedMaintenance] = useState<'breaches' | 'redcapacity' | 'perfect'>('breaches');
+export function RiskEalView({
+  ealResults,
+  climate,
+  onChoroplethData,
+  integration,
+  factorProfile,
+  onFactorProfileChange,
+  curveData = null,
+  comparison,
+  className,
+}: RiskEalViewProps) {
+  const [selectedMaintenance, setSelectedMaintenance] = useState<MaintenanceOption>('breaches');
   const [showOnMap, setShowOnMap] = useState(true);
+  const [mapDelta, setMapDelta] = useState(false);
+  const [showUncertainty, setShowUncertainty] = useState(false);
   const [expandedGroups, setExpandedGroups] = useState<Set<AssetGroupKey>>(new Set());
 
   const toggleGroup = (group: AssetGroupKey) => {
@@ -70,6 +101,24 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
       return { maintenance: m, result };
     });
   }, [ealResults, climate]);
+  const expectedSummary = ealResults.find(
+    (r) => r.climate === climate && r.maintenance === EXPECTED_MAINTENANCE && r.region === 'TOTAL'
+  );
+
+  const isExpected = selectedMaintenance === EXPECTED_MAINTENANCE;
+  // Monte Carlo bands are only simulated for the modelled maintenance states
+  const {
+    uncertainty,
+    isRunning: uncertaintyRunning,
+    error: uncertaintyError,
+  } = useUncertaintyData(
+    climate,
+    isExpected ? 'breaches' : selectedMaintenance,
+    integration,
+    factorProfile,
+    showUncertainty && !isExpected,
+    curveData
+  );
 
   // District chart data for selected maintenance
   const districtChartData: EalBarChartData[] = useMemo(() => {
@@ -85,13 +134,14 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
       return {
         district,
         rawData,
+        band: isExpected ? undefined : uncertainty?.regions.find((r) => r.region === district)?.eal,
       };
     }).sort((a, b) => {
       const sumA = DISPLAY_ASSET_KEYS.reduce((s, k) => s + (a.rawData[k] ?? 0), 0);
       const sumB = DISPLAY_ASSET_KEYS.reduce((s, k) => s + (b.rawData[k] ?? 0), 0);
       return sumB - sumA;
     });
-  }, [ealResults, climate, selectedMaintenance]);
+  }, [ealResults, climate, selectedMaintenance, uncertainty, isExpected]);
 
   // Ranked districts
   const rankedDistricts = useMemo(() => {
@@ -103,6 +153,21 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
     }).sort((a, b) => b.ealTotal - a.ealTotal);
   }, [ealResults, climate, selectedMaintenance]);
 
+  // EAL per region of the selected scenario, baseline and compared dataset
+  const comparisonTotals = useMemo(() => {
+    if (!comparison) return null;
+    const totals = (results: EalResult[]) =>
+      Object.fromEntries(
+        [...DISTRICTS, 'TOTAL' as const].map((region) => [
+          region,
+          results.find((r) => r.climate === climate && r.maintenance === selectedMaintenance && r.region === region)
+            ?.ealTotal ?? 0,
+        ])
+      ) as Record<DistrictName | 'TOTAL', number>;
+    return { active: totals(ealResults), compare: totals(comparison.value) };
+  }, [comparison, ealResults, climate, selectedMaintenance]);
+  const showMapDelta = mapDelta && comparisonTotals !== null;
+
   // Max total for bar width scaling
   const maxEal = useMemo(() => Math.max(...rankedDistricts.map((d) => d.ealTotal), 1), [rankedDistricts]);
 
@@ -114,16 +179,19 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
         const result = ealResults.find(
           (r) => r.climate === climate && r.maintenance === selectedMaintenance && r.region === d
         );
-        mapData[d as DistrictName] = result?.ealTotal ?? 0;
+        // Compared − baseline in delta mode; the map uses a diverging scale for negative values
+        mapData[d as DistrictName] = showMapDelta && comparisonTotals
+          ? comparisonTotals.compare[d] - comparisonTotals.active[d]
+          : result?.ealTotal ?? 0;
       }
-      onChoroplethData(mapData);
+      onChoroplethData(mapData, { diverging: showMapDelta });
     } else if (!showOnMap) {
       onChoroplethData?.(null);
     }
     return () => {
       onChoroplethData?.(null);
     };
-  }, [showOnMap, ealResults, climate, selectedMaintenance, onChoroplethData]);
+  }, [showOnMap, ealResults, climate, selectedMaintenance, onChoroplethData, showMapDelta, comparisonTotals]);
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -134,10 +202,21 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
           <span className="text-sm font-semibold text-slate-800">Expected Annual Loss (EAL)</span>
         </div>
         <p className="text-xs text-slate-500 mt-1">
-          Trapezoidal integration across 7 return periods (2.3yr – 500yr) with sector Loss/Damage factors applied
+          {describeEadIntegration(integration, RETURN_PERIODS[0], RETURN_PERIODS[RETURN_PERIODS.length - 1])} with sector Loss/Damage factors applied
+          {' '}({factorProfile.official ? 'official factors' : `what-if profile "${factorProfile.name}"`})
+          {curveData && ' — damages recomputed from depth–damage curves'}
         </p>
       </div>
 
+      {/* Loss/Damage Factors */}
+      <div className="px-4">
+        <div className="flex items-center gap-1.5 mb-2">
+          <SlidersHorizontal className="w-3.5 h-3.5 text-amber-600" />
+          <h4 className="text-sm font-semibold text-slate-700">Loss/Damage Factors</h4>
+        </div>
+        <FactorProfileEditor value={factorProfile} onChange={onFactorProfileChange} />
+      </div>
+
       {/* Summary Table */}
       <div className="px-4">
         <div className="flex items-center justify-between mb-2">
@@ -160,6 +239,7 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
                 <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">Reduced Cap.</th>
                 <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">Perfect</th>
                 <th className="text-right py-1.5 px-2 font-medium text-slate-600 border-l border-slate-200 whitespace-nowrap">Avg</th>
+                <th className="text-right py-1.5 px-2 font-medium text-amber-700 whitespace-nowrap">Expected</th>
               </tr>
             </thead>
             <tbody>
@@ -170,6 +250,7 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
                 const reducedTotal = getGroupTotal(summaryData.find((d) => d.maintenance === 'redcapacity')?.result?.eal, groupKey);
                 const perfectTotal = getGroupTotal(summaryData.find((d) => d.maintenance === 'perfect')?.result?.eal, groupKey);
                 const avgTotal = (breachesTotal + reducedTotal + perfectTotal) / 3;
+                const expectedTotal = getGroupTotal(expectedSummary?.eal, groupKey);
 
                 return (
                   <React.Fragment key={groupKey}>
@@ -198,6 +279,9 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
                       <td className="py-1.5 px-2 text-right font-semibold text-slate-900 border-l border-slate-200 whitespace-nowrap">
                         {formatRiskValueFull(avgTotal, 'Dmg')}
                       </td>
+                      <td className="py-1.5 px-2 text-right font-semibold text-amber-700 whitespace-nowrap">
+                        {formatRiskValueFull(expectedTotal, 'Dmg')}
+                      </td>
                     </tr>
                     {/* Expanded asset rows */}
                     {isExpanded && group.assets.map((asset) => {
@@ -205,6 +289,7 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
                       const reducedVal = summaryData.find((d) => d.maintenance === 'redcapacity')?.result?.eal[asset] ?? 0;
                       const perfectVal = summaryData.find((d) => d.maintenance === 'perfect')?.result?.eal[asset] ?? 0;
                       const avgVal = (breachesVal + reducedVal + perfectVal) / 3;
+                      const expectedVal = expectedSummary?.eal[asset] ?? 0;
 
                       return (
                         <tr key={asset} className="border-b border-slate-50 bg-slate-50/50 hover:bg-slate-50">
@@ -224,13 +309,16 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
                           <td className="py-1 px-2 text-right text-slate-600 border-l border-slate-200 whitespace-nowrap">
                             {formatRiskValueFull(avgVal, 'Dmg')}
                           </td>
+                          <td className="py-1 px-2 text-right text-amber-600 whitespace-nowrap">
+                            {formatRiskValueFull(expectedVal, 'Dmg')}
+                          </td>
                         </tr>
                       );
                     })}
                   </React.Fragment>
                 );
               })}
-              {/* Commerce & Industries row (34% uplift — derived, no sub-assets) */}
+              {/* Commerce & Industries row (profile uplift — derived, no sub-assets) */}
               <tr className="border-b border-slate-100 bg-slate-50/70">
                 <td className="py-1.5 px-2 font-medium text-slate-700 sticky left-0 bg-slate-50/70 z-10">
                   <span className="flex items-center gap-1">
@@ -253,6 +341,9 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
                     'Dmg'
                   )}
                 </td>
+                <td className="py-1.5 px-2 text-right font-semibold text-amber-700 whitespace-nowrap">
+                  {formatRiskValueFull(expectedSummary?.commerceEal ?? 0, 'Dmg')}
+                </td>
               </tr>
               {/* Total row */}
               <tr className="border-b border-slate-200 bg-slate-100 font-semibold">
@@ -274,6 +365,9 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
                     'Dmg'
                   )}
                 </td>
+                <td className="py-1.5 px-2 text-right text-amber-700 whitespace-nowrap">
+                  {formatRiskValueFull(expectedSummary?.ealTotal ?? 0, 'Dmg')}
+                </td>
               </tr>
             </tbody>
           </table>
@@ -283,19 +377,35 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
       {/* Maintenance Toggle + Map Toggle */}
       <div className="px-4 flex flex-wrap items-center gap-2">
         <div className="flex gap-1">
-          {MAINTENANCE_LEVELS.map((m) => (
+          {MAINTENANCE_OPTIONS.map((m) => (
             <Button
               key={m}
               variant={selectedMaintenance === m ? 'default' : 'ghost'}
               size="sm"
-              onClick={() => setSelectedMaintenance(m as typeof selectedMaintenance)}
+              onClick={() => setSelectedMaintenance(m)}
+              title={m === EXPECTED_MAINTENANCE ? 'Probability-weighted blend; probabilities are set in the EAD view' : undefined}
               className="text-xs h-7"
             >
               {MAINTENANCE_LABELS[m]}
             </Button>
           ))}
         </div>
-        <div className="ml-auto">
+        <div className="ml-auto flex gap-1">
+          <Button
+            variant={showUncertainty ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowUncertainty(!showUncertainty)}
+            className="text-xs h-7"
+            disabled={isExpected}
+            title={
+              isExpected
+                ? 'Uncertainty bands are simulated for the modelled maintenance states only'
+                : 'Monte Carlo P5–P95 bands from sector factor, depth–damage and casualty uncertainty'
+            }
+          >
+            <Activity className="w-3.5 h-3.5 mr-1" />
+            Uncertainty
+          </Button>
           <Button
             variant={showOnMap ? 'default' : 'outline'}
             size="sm"
@@ -305,6 +415,18 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
             <Map className="w-3.5 h-3.5 mr-1" />
             {showOnMap ? 'Hide Map' : 'Show on Map'}
           </Button>
+          {comparison && (
+            <Button
+              variant={mapDelta ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMapDelta(!mapDelta)}
+              className="text-xs h-7"
+              title={`Map ${comparison.compareLabel} − ${comparison.baselineLabel}`}
+            >
+              <GitCompare className="w-3.5 h-3.5 mr-1" />
+              Δ on Map
+            </Button>
+          )}
         </div>
       </div>
 
@@ -316,9 +438,33 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
             EAL by District — {MAINTENANCE_LABELS[selectedMaintenance]}
           </h4>
         </div>
-        <EalBarChart data={districtChartData} />
+        {showUncertainty && !isExpected && (
+          <UncertaintySummary
+            label="EAL"
+            band={uncertainty?.regions.find((r) => r.region === 'TOTAL')?.eal}
+            iterations={uncertainty?.iterations}
+            isRunning={uncertaintyRunning}
+            error={uncertaintyError}
+            format={(v) => formatRiskValueFull(v, 'Dmg')}
+            className="mb-2"
+          />
+        )}
+        <EalBarChart data={districtChartData} commerceUplift={factorProfile.commerceUplift} />
       </div>
 
+      {/* Dataset Comparison */}
+      {comparison && comparisonTotals && (
+        <DatasetComparisonTable
+          metric={`EAL — ${MAINTENANCE_LABELS[selectedMaintenance]}`}
+          activeLabel={comparison.baselineLabel}
+          compareLabel={comparison.compareLabel}
+          active={comparisonTotals.active}
+          compare={comparisonTotals.compare}
+          format={(v) => formatRiskValueFull(v, 'Dmg')}
+          iconClassName="text-amber-600"
+        />
+      )}
+
       {/* Ranked District Table - Grouped View */}
       <div className="px-4">
         <h4 className="text-sm font-semibold text-slate-700 mb-2">Ranked by Total EAL</h4>
@@ -434,7 +580,7 @@ export function RiskEalView({ ealResults, climate, onChoroplethData, className }
                       </div>
                     );
                   })}
-                  {/* Commerce & Industries line (34% uplift, no sub-assets) */}
+                  {/* Commerce & Industries line (profile uplift, no sub-assets) */}
                   <div className="border-b border-slate-100 last:border-0">
                     <div className="flex items-center gap-2 py-1 px-2">
                       <span className="w-4" />
@@ -17,6 +17,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import {
   Radar,
   RadarChart,
@@ -26,34 +27,53 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
-import { Flame, Map, TrendingUp, AlertTriangle } from 'lucide-react';
+import { Flame, Map, TrendingUp, AlertTriangle, RotateCcw } from 'lucide-react';
 import useHotspotData from '../hooks/useHotspotData';
-import type { HotspotDistrictResult } from '@/types/socioeconomic';
-import type { DistrictName } from '@/types/risk';
+import type { EadIntegrationOptions } from '@/lib/ead-integration';
+import { DEFAULT_HOTSPOT_WEIGHTS } from '@/types/socioeconomic';
+import type { HotspotWeights } from '@/types/socioeconomic';
+import { normalizeHotspotWeights } from '@/lib/hotspot';
+import type { DistrictName, FactorProfile } from '@/types/risk';
+import type { MaintenanceBlend } from '@/types/maintenance-blend';
 import {
-  MAINTENANCE_LEVELS,
+  MAINTENANCE_OPTIONS,
   MAINTENANCE_LABELS,
+  EXPECTED_MAINTENANCE,
   DISTRICTS,
+  DISTRICT_COLORS,
   getRiskColor,
 } from '@/types/risk';
 
 interface RiskHotspotViewProps {
   climate: 'present' | 'future';
   onChoroplethData?: (data: Record<DistrictName, number> | null) => void;
+  /** EAD integration settings (method and tails) from the dashboard */
+  integration?: EadIntegrationOptions;
+  /** Active Loss/Damage factor profile for the EAL dimension */
+  factorProfile?: FactorProfile;
+  /** Maintenance state probabilities behind the Expected option */
+  maintenanceBlend?: MaintenanceBlend;
+  /** Relative dimension weights (normalized to sum to 1 when scoring) */
+  weights?: HotspotWeights;
+  onWeightsChange?: (weights: HotspotWeights) => void;
 }
 
-// District colors for radar chart (7 distinct colors)
-const DISTRICT_COLORS: Record<string, string> = {
-  Dadu: '#dc2626',
-  Jacobabad: '#f97316',
-  Jamshoro: '#eab308',
-  Kashmore: '#22c55e',
-  Larkana: '#3b82f6',
-  'Qambar Shahdadkot': '#8b5cf6',
-  Shikarpur: '#ec4899',
+const WEIGHT_LABELS: Record<keyof HotspotWeights, string> = {
+  physicalRisk: 'EAD',
+  economicLoss: 'EAL',
+  populationRisk: 'EAF',
+  socioeconomicVulnerability: 'Vulnerability',
 };
 
-export function RiskHotspotView({ climate, onChoroplethData }: RiskHotspotViewProps) {
+export function RiskHotspotView({
+  climate,
+  onChoroplethData,
+  integration,
+  factorProfile,
+  maintenanceBlend,
+  weights = DEFAULT_HOTSPOT_WEIGHTS,
+  onWeightsChange,
+}: RiskHotspotViewProps) {
   const [showOnMap, setShowOnMap] = useState(true);
 
   const {
@@ -62,7 +82,9 @@ export function RiskHotspotView({ climate, onChoroplethData }: RiskHotspotViewPr
     error,
     maintenance,
     setMaintenance,
-  } = useHotspotData(climate);
+  } = useHotspotData(climate, integration, factorProfile, maintenanceBlend, weights);
+  const normalizedWeights = normalizeHotspotWeights(weights);
+  const equalWeights = Object.values(normalizedWeights).every((w) => Math.abs(w - 0.25) < 1e-9);
 
   // Push hotspot scores as choropleth data
   useEffect(() => {
@@ -178,12 +200,13 @@ export function RiskHotspotView({ climate, onChoroplethData }: RiskHotspotViewPr
             <div className="flex flex-col gap-2">
               <label className="text-sm font-medium">Maintenance Level</label>
               <div className="flex gap-1">
-                {MAINTENANCE_LEVELS.map((m) => (
+                {MAINTENANCE_OPTIONS.map((m) => (
                   <Button
                     key={m}
                     variant={maintenance === m ? 'default' : 'ghost'}
                     size="sm"
                     onClick={() => setMaintenance(m)}
+                    title={m === EXPECTED_MAINTENANCE ? 'Probability-weighted blend; probabilities are set in the EAD view' : undefined}
                     className="text-xs h-8"
                   >
                     {MAINTENANCE_LABELS[m]}
@@ -191,6 +214,42 @@ export function RiskHotspotView({ climate, onChoroplethData }: RiskHotspotViewPr
                 ))}
               </div>
             </div>
+            {onWeightsChange && (
+              <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium">Weights (%)</label>
+                <div className="flex items-center gap-2">
+                  {(Object.keys(WEIGHT_LABELS) as (keyof HotspotWeights)[]).map((key) => (
+                    <label key={key} className="flex items-center gap-1 text-xs text-slate-600">
+                      {WEIGHT_LABELS[key]}
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={Math.round(weights[key] * 1000) / 10}
+                        onChange={(e) => {
+                          const percent = parseFloat(e.target.value);
+                          if (Number.isFinite(percent) && percent >= 0 && percent <= 100) {
+                            onWeightsChange({ ...weights, [key]: percent / 100 });
+                          }
+                        }}
+                        className="h-7 w-16 text-xs"
+                      />
+                    </label>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onWeightsChange(DEFAULT_HOTSPOT_WEIGHTS)}
+                    disabled={equalWeights}
+                    title="Reset to equal weights"
+                    className="h-7 w-7 p-0"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </div>
+            )}
             <div className="ml-auto">
               <Button
                 variant={showOnMap ? 'default' : 'outline'}
@@ -327,14 +386,18 @@ export function RiskHotspotView({ climate, onChoroplethData }: RiskHotspotViewPr
       <Card>
         <CardContent className="pt-4">
           <p className="text-xs text-muted-foreground leading-relaxed">
-            <strong>Methodology:</strong> Multi-Criteria Analysis combining EAD, EAL, EAF, and Socioeconomic vulnerability (equal weights).
-            <br />• <strong>Physical Risk (EAD):</strong> Expected Annual Damage integrated across 7 return periods (2.3yr–500yr) using trapezoidal integration
+            <strong>Methodology:</strong> Multi-Criteria Analysis combining EAD, EAL, EAF, and Socioeconomic vulnerability ({equalWeights ? 'equal weights' : 'custom weights'}).
+            <br />• <strong>Physical Risk (EAD):</strong> Expected Annual Damage integrated across 7 return periods (2.3yr–500yr) using the EAD integration settings
             <br />• <strong>Economic Loss (EAL):</strong> Expected Annual Loss — damage scaled by sector Loss/Damage factors, integrated across 7 return periods
-            <br />• <strong>Population Risk (EAF):</strong> Expected Annual Fatalities integrated across 7 return periods using trapezoidal integration
+            <br />• <strong>Population Risk (EAF):</strong> Expected Annual Fatalities integrated across 7 return periods using the same settings
             <br />• <strong>Socioeconomic Vulnerability:</strong> Composite index from census 2017 + poverty 2019
             <br />EAD, EAL, and EAF all use identical probabilistic methodology, integrating across the full probability spectrum.
             <br /><strong className="text-green-700">✓ Stable Rankings:</strong> Hotspot scores remain consistent regardless of single return period selection, as they capture the complete risk distribution rather than one specific scenario.
-            Each dimension is min-max normalized across districts, then weighted equally (1/4 each).
+            Each dimension is min-max normalized across districts, then weighted {equalWeights
+              ? 'equally (1/4 each)'
+              : (Object.keys(WEIGHT_LABELS) as (keyof HotspotWeights)[])
+                  .map((key) => `${WEIGHT_LABELS[key]} ${Math.round(normalizedWeights[key] * 100)}%`)
+                  .join(', ')}.
             Higher scores indicate greater overall flood risk and intervention priority.
           </p>
         </CardContent>
@@ -37,10 +37,13 @@ import {
   Line,
   ReferenceLine,
   Scatter,
+  ErrorBar,
 } from 'recharts';
 import usePopulationRisk from '@/hooks/usePopulationRisk';
 import useEapa from '@/hooks/useEapa';
 import useAllEapa from '@/hooks/useAllEapa';
+import useUncertaintyData from '../hooks/useUncertaintyData';
+import { UncertaintySummary } from '../components/UncertaintySummary';
 import type {
   PopulationRiskScenario,
   PopulationRiskDistrict,
@@ -54,10 +57,13 @@ import {
   type DepthBinRange,
 } from '@/types/casualty';
 import type { DistrictName } from '@/types/risk';
+import type { EadIntegrationOptions } from '@/lib/ead-integration';
 
 interface RiskPopulationViewProps {
   climate: 'present' | 'future';
   onChoroplethData?: (data: Record<DistrictName, number> | null) => void;
+  /** EAD integration settings (method and tails) from the dashboard */
+  integration?: EadIntegrationOptions;
 }
 
 const RETURN_PERIODS = [
@@ -123,7 +129,7 @@ function DistrictTooltip({ active, payload, label }: any) {
   );
 }
 
-export function RiskPopulationView({ climate, onChoroplethData }: RiskPopulationViewProps) {
+export function RiskPopulationView({ climate, onChoroplethData, integration }: RiskPopulationViewProps) {
   const [selectedReturnPeriod, setSelectedReturnPeriod] = useState<string>('25');
   const [selectedMaintenance, setSelectedMaintenance] = useState<string>('breaches');
   const [eapaDialogOpen, setEapaDialogOpen] = useState(false);
@@ -134,8 +140,27 @@ export function RiskPopulationView({ climate, onChoroplethData }: RiskPopulation
     returnPeriod: selectedReturnPeriod as any,
   });
 
-  const { data: eapaData, loading: eapaLoading } = useEapa(climate, selectedMaintenance as any);
-  const { data: allEapaData, loading: allEapaLoading } = useAllEapa();
+  const { data: eapaData, loading: eapaLoading } = useEapa(climate, selectedMaintenance as any, integration);
+  const { data: allEapaData, loading: allEapaLoading } = useAllEapa(integration);
+  const {
+    uncertainty,
+    isRunning: uncertaintyRunning,
+    error: uncertaintyError,
+  } = useUncertaintyData(
+    climate,
+    selectedMaintenance as 'breaches' | 'perfect' | 'redcapacity',
+    integration
+  );
+
+  // Expected Annual Fatalities bands per district (sorted by median descending)
+  const eafChartData = useMemo(() => {
+    if (!uncertainty) return [];
+    return uncertainty.regions
+      .flatMap((r) => (r.region !== 'TOTAL' && r.eaf ? [{ district: r.region, ...r.eaf }] : []))
+      .map((d) => ({ ...d, error: [d.p50 - d.p5, d.p95 - d.p50] }))
+      .sort((a, b) => b.p50 - a.p50);
+  }, [uncertainty]);
+  const totalEaf = uncertainty?.regions.find((r) => r.region === 'TOTAL')?.eaf;
 
   const selectedScenario = useMemo(() => {
     if (!scenarios || scenarios.length === 0) return null;
@@ -430,6 +455,47 @@ export function RiskPopulationView({ climate, onChoroplethData }: RiskPopulation
         </CardContent>
       </Card>
 
+      {/* Expected Annual Fatalities with uncertainty */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Expected Annual Fatalities (EAF)</CardTitle>
+          <CardDescription>
+            Median and 90% interval by district ({selectedMaintenance}), sampling casualty factors within their low–high ranges
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <UncertaintySummary
+            label="EAF"
+            band={totalEaf}
+            iterations={uncertainty?.iterations}
+            isRunning={uncertaintyRunning}
+            error={uncertaintyError ?? (uncertainty && !totalEaf ? 'population risk data unavailable' : null)}
+            format={(v) => v.toFixed(1)}
+            className="mb-2"
+          />
+          {eafChartData.length > 0 && (
+            <ResponsiveContainer width="100%" height={Math.max(250, eafChartData.length * 40)}>
+              <BarChart data={eafChartData} layout="vertical" margin={{ left: 20, right: 30, top: 5, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis type="number" tick={{ fontSize: 11 }} />
+                <YAxis type="category" dataKey="district" width={120} tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(_value: number, _name: string, item: { payload?: (typeof eafChartData)[number] }) => [
+                    item.payload
+                      ? `${item.payload.p50.toFixed(1)} (P5 ${item.payload.p5.toFixed(1)} – P95 ${item.payload.p95.toFixed(1)})`
+                      : '—',
+                    'Fatalities / year',
+                  ]}
+                />
+                <Bar dataKey="p50" fill="#dc2626" radius={[0, 4, 4, 0]}>
+                  <ErrorBar dataKey="error" direction="x" width={6} stroke="#1e293b" strokeWidth={1.5} />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
       {/* EAPA Comparison Chart */}
       {allEapaData && (
         <Card>
@@ -613,7 +679,7 @@ export function RiskPopulationView({ climate, onChoroplethData }: RiskPopulation
           <DialogHeader>
             <DialogTitle>Expected Annual Population Affected</DialogTitle>
             <DialogDescription>
-              Annualized population affected integrated across all 7 return periods using trapezoidal integration.
+              Annualized population affected integrated across all 7 return periods using the EAD integration settings.
             </DialogDescription>
           </DialogHeader>
           {eapaData && (
@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { Map } from 'lucide-react';
+import { Map, GitCompare } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { RiskJsonData, RiskMode, ScenarioKey, DistrictName } from '@/types/risk';
 import {
@@ -7,11 +7,14 @@ import {
   MAINTENANCE_LEVELS,
   MAINTENANCE_LABELS,
   getRiskColor,
+  getRiskDeltaColor,
+  formatRiskDelta,
   formatRiskValueFull,
   RISK_MODE_LABELS,
   buildScenarioKey,
 } from '@/types/risk';
 import { RiskColorLegend } from '../components/RiskColorLegend';
+import type { DatasetComparison } from '@/types/risk-datasets';
 
 interface RiskSpatialViewProps {
   data: RiskJsonData;
@@ -23,6 +26,11 @@ interface RiskSpatialViewProps {
   hoveredDistrict: string | null;
   onScenarioChange: (key: ScenarioKey) => void;
   onHoverDistrict: (district: string | null) => void;
+  /** Dataset selected in "Compare against" */
+  comparison?: DatasetComparison<RiskJsonData> | null;
+  /** choroplethData holds compared − baseline differences */
+  showDelta?: boolean;
+  onShowDeltaChange?: (showDelta: boolean) => void;
   className?: string;
 }
 
@@ -36,25 +44,36 @@ export function RiskSpatialView({
   hoveredDistrict,
   onScenarioChange,
   onHoverDistrict,
+  comparison,
+  showDelta = false,
+  onShowDeltaChange,
   className,
 }: RiskSpatialViewProps) {
   const scenarioKey = buildScenarioKey(returnPeriod, climate, maintenance);
+  const deltaMode = showDelta && !!comparison;
 
-  // Compute min/max for color scale
+  // Compute min/max for color scale (largest absolute difference in delta mode)
   const { min, max } = useMemo(() => {
     if (!choroplethData) return { min: 0, max: 0 };
+    if (deltaMode) {
+      return { min: 0, max: Math.max(0, ...Object.values(choroplethData).map(Math.abs)) };
+    }
     const values = Object.values(choroplethData).filter((v) => v > 0);
     if (values.length === 0) return { min: 0, max: 0 };
     return { min: Math.min(...values), max: Math.max(...values) };
-  }, [choroplethData]);
+  }, [choroplethData, deltaMode]);
 
   // District ranking
   const rankedDistricts = useMemo(() => {
     if (!choroplethData) return [];
+    // Delta mode: largest reductions first
     return Object.entries(choroplethData)
-      .filter(([, v]) => v > 0)
-      .sort(([, a], [, b]) => b - a);
-  }, [choroplethData]);
+      .filter(([, v]) => (deltaMode ? v !== 0 : v > 0))
+      .sort(([, a], [, b]) => (deltaMode ? a - b : b - a));
+  }, [choroplethData, deltaMode]);
+
+  const colorFor = (value: number) => (deltaMode ? getRiskDeltaColor(value, max) : getRiskColor(value, min, max));
+  const formatValue = (value: number) => (deltaMode ? formatRiskDelta(value, mode) : formatRiskValueFull(value, mode));
 
   return (
     <div className={cn('space-y-3', className)}>
@@ -65,7 +84,9 @@ export function RiskSpatialView({
           <span className="text-sm font-semibold text-slate-800">Spatial Risk Map</span>
         </div>
         <p className="text-xs text-slate-500 mt-1">
-          Districts colored by {RISK_MODE_LABELS[mode].toLowerCase()} on the map
+          {deltaMode && comparison
+            ? `Districts colored by ${comparison.compareLabel} − ${comparison.baselineLabel} ${RISK_MODE_LABELS[mode].toLowerCase()} (green = less risk)`
+            : `Districts colored by ${RISK_MODE_LABELS[mode].toLowerCase()} on the map`}
         </p>
       </div>
 
@@ -114,9 +135,42 @@ export function RiskSpatialView({
         </div>
       </div>
 
+      {/* Values or differences against the compared dataset */}
+      {comparison && onShowDeltaChange && (
+        <div className="px-4 flex items-center gap-2">
+          <GitCompare className="w-3.5 h-3.5 text-green-600" />
+          <span className="text-sm font-medium text-slate-600">Show:</span>
+          {([false, true] as const).map((delta) => (
+            <button
+              key={String(delta)}
+              onClick={() => onShowDeltaChange(delta)}
+              className={cn(
+                'px-2 py-1 text-xs rounded transition-all',
+                showDelta === delta
+                  ? 'bg-green-600 text-white font-medium'
+                  : 'bg-white text-slate-600 border border-slate-200 hover:border-green-300',
+              )}
+            >
+              {delta ? `Δ ${comparison.compareLabel}` : comparison.baselineLabel}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Color Legend */}
       <div className="px-4">
-        <RiskColorLegend min={min} max={max} mode={mode} />
+        {deltaMode ? (
+          <div className="flex items-center justify-between text-xs text-slate-600">
+            <span className="text-green-700">{formatRiskDelta(-max, mode)}</span>
+            <div
+              className="flex-1 h-2 mx-2 rounded"
+              style={{ background: `linear-gradient(to right, ${getRiskDeltaColor(-max, max)}, #f1f5f9, ${getRiskDeltaColor(max, max)})` }}
+            />
+            <span className="text-red-600">{formatRiskDelta(max, mode)}</span>
+          </div>
+        ) : (
+          <RiskColorLegend min={min} max={max} mode={mode} />
+        )}
       </div>
 
       {/* Hovered District Info */}
@@ -124,7 +178,7 @@ export function RiskSpatialView({
         <div className="mx-4 p-3 bg-white rounded-lg border border-green-200 shadow-sm">
           <div className="text-sm font-semibold text-slate-800">{hoveredDistrict}</div>
           <div className="text-sm font-bold text-green-700">
-            {formatRiskValueFull(choroplethData[hoveredDistrict as DistrictName], mode)}
+            {formatValue(choroplethData[hoveredDistrict as DistrictName])}
           </div>
         </div>
       )}
@@ -134,7 +188,7 @@ export function RiskSpatialView({
         <h4 className="text-sm font-semibold text-slate-700 mb-2">District Rankings</h4>
         <div className="space-y-1">
           {rankedDistricts.map(([district, value], i) => {
-            const pct = max > 0 ? (value / max) * 100 : 0;
+            const pct = max > 0 ? (Math.abs(value) / max) * 100 : 0;
             return (
               <div
                 key={district}
@@ -155,12 +209,12 @@ export function RiskSpatialView({
                     className="h-full rounded transition-all"
                     style={{
                       width: `${pct}%`,
-                      backgroundColor: getRiskColor(value, min, max),
+                      backgroundColor: colorFor(value),
                     }}
                   />
                 </div>
                 <span className="text-sm text-slate-600 font-medium w-20 text-right">
-                  {formatRiskValueFull(value, mode)}
+                  {formatValue(value)}
                 </span>
               </div>
             );
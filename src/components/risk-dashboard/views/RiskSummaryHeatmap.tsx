@@ -12,6 +12,9 @@ import {
 } from '@/types/risk';
 import { RiskHeatmapCell } from '../components/RiskHeatmapCell';
 import { RiskColorLegend } from '../components/RiskColorLegend';
+import { DesignEventPanel } from '../components/DesignEventPanel';
+import { RiskDeltaValue } from '../components/RiskDeltaValue';
+import type { DatasetComparison } from '@/types/risk-datasets';
 
 interface RiskSummaryHeatmapProps {
   data: RiskJsonData;
@@ -19,6 +22,8 @@ interface RiskSummaryHeatmapProps {
   mode: RiskMode;
   selectedKey: ScenarioKey | null;
   onScenarioClick: (key: ScenarioKey) => void;
+  /** Dataset selected in "Compare against"; each cell then shows compared − baseline */
+  comparison?: DatasetComparison<RiskJsonData> | null;
   className?: string;
 }
 
@@ -28,8 +33,14 @@ export function RiskSummaryHeatmap({
   mode,
   selectedKey,
   onScenarioClick,
+  comparison,
   className,
 }: RiskSummaryHeatmapProps) {
+  const compareTotal = (key: ScenarioKey): number | undefined => {
+    const regionData = comparison?.value.data[key]?.TOTAL?.[mode];
+    return regionData ? totalRiskValue(regionData) : undefined;
+  };
+
   // Build matrix and compute min/max for color scale
   const { matrix, min, max, stats } = useMemo(() => {
     const mat = new Map<string, { key: ScenarioKey; total: number }>();
@@ -87,6 +98,17 @@ export function RiskSummaryHeatmap({
               {stats.worstKey ? formatRiskValue(stats.worstVal, mode) : 'N/A'}
             </span>
           </div>
+          {comparison && stats.worstKey && compareTotal(stats.worstKey) !== undefined && (
+            <div>
+              <span className="text-slate-500">{comparison.compareLabel} vs {comparison.baselineLabel}: </span>
+              <RiskDeltaValue
+                active={stats.worstVal}
+                compare={compareTotal(stats.worstKey) ?? 0}
+                mode={mode}
+                className="font-semibold"
+              />
+            </div>
+          )}
         </div>
       </div>
 
@@ -142,6 +164,7 @@ export function RiskSummaryHeatmap({
                       label={`${rp}yr ${climate} ${m}`}
                       isSelected={selectedKey === key}
                       onClick={() => onScenarioClick(key)}
+                      compareTotal={compareTotal(key)}
                     />
                   );
                 })}
@@ -151,6 +174,9 @@ export function RiskSummaryHeatmap({
         </div>
       </div>
 
+      {/* Design event at an arbitrary return period */}
+      <DesignEventPanel data={data} climate={climate} />
+
       {/* Instructions */}
       <div className="px-4 py-3 bg-blue-50 rounded-lg border border-blue-200">
         <div className="flex items-start gap-2">
@@ -161,6 +187,11 @@ export function RiskSummaryHeatmap({
               <li>• Colors indicate damage magnitude: Yellow (low) → Red (high)</li>
               <li>• Each cell shows total damage for a scenario across all districts</li>
               <li>• Click any cell to see district-level breakdown</li>
+              {comparison && (
+                <li>
+                  • Second line: {comparison.compareLabel} − {comparison.baselineLabel} (green = less risk)
+                </li>
+              )}
             </ul>
           </div>
         </div>
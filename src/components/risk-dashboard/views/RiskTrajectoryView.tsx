@@ -0,0 +1,467 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { Hourglass, Map, Info, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn, formatDelta } from '@/lib/utils';
+import type { DistrictName, RiskJsonData } from '@/types/risk';
+import {
+  MAINTENANCE_LEVELS,
+  MAINTENANCE_LABELS,
+  DISTRICTS,
+  DISTRICT_COLORS,
+  formatRiskValue,
+  formatRiskValueFull,
+} from '@/types/risk';
+import type {
+  TrajectoryBeyondFuture,
+  TrajectoryInputs,
+  TrajectoryMetric,
+  TrajectoryPoint,
+  TrajectoryRegion,
+} from '@/types/trajectory';
+import { TRAJECTORY_BEYOND_FUTURE_LABELS, TRAJECTORY_METRIC_LABELS } from '@/types/trajectory';
+import useTrajectoryData from '../hooks/useTrajectoryData';
+import type { EadIntegrationOptions } from '@/lib/ead-integration';
+
+interface RiskTrajectoryViewProps {
+  onChoroplethData?: (data: Record<DistrictName, number> | null) => void;
+  /** EAD integration settings (method and tails) from the dashboard */
+  integration?: EadIntegrationOptions;
+  /** Alternative damage dataset (depth–damage curves); risk.json when null */
+  riskData?: RiskJsonData | null;
+  className?: string;
+}
+
+type Maintenance = (typeof MAINTENANCE_LEVELS)[number];
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  suffix,
+  step,
+  min = 0,
+}: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+  suffix?: string;
+  step?: number;
+  min?: number;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+      <span>{label}{suffix && <span className="text-slate-400 font-normal"> ({suffix})</span>}</span>
+      <Input
+        type="number"
+        value={Number.isFinite(value) ? value : 0}
+        min={min}
+        step={step}
+        onChange={(e) => onChange(Math.max(min, parseFloat(e.target.value) || 0))}
+        className="h-8 text-sm"
+      />
+    </label>
+  );
+}
+
+function parseYears(text: string): number[] {
+  return [...new Set(text.split(/[,\s]+/).map((s) => parseInt(s, 10)).filter((y) => Number.isFinite(y)))].sort(
+    (a, b) => a - b
+  );
+}
+
+export function RiskTrajectoryView({ onChoroplethData, integration, riskData, className }: RiskTrajectoryViewProps) {
+  const {
+    result,
+    inputs,
+    setInputs,
+    isLoading,
+    error,
+    populationLoading,
+    populationError,
+    growthUnavailable,
+  } = useTrajectoryData(integration, riskData ?? null);
+  const [metric, setMetric] = useState<TrajectoryMetric>('ead');
+  const [chartRegion, setChartRegion] = useState<'districts' | 'TOTAL'>('districts');
+  const [milestoneText, setMilestoneText] = useState(inputs.milestoneYears.join(', '));
+  const [mapYear, setMapYear] = useState<number | null>(null);
+  const [showOnMap, setShowOnMap] = useState(true);
+
+  const update = (patch: Partial<TrajectoryInputs>) => setInputs({ ...inputs, ...patch });
+
+  const riskMode = metric === 'ead' ? 'Dmg' : 'Pop';
+  const valueOf = (p: TrajectoryPoint, region: TrajectoryRegion) =>
+    metric === 'ead' ? p.ead[region] : p.eapa?.[region] ?? null;
+  const metricAvailable = metric === 'ead' || (result?.points[0]?.eapa ?? null) !== null;
+
+  const pointAt = (year: number | null) => result?.points.find((p) => p.year === year);
+  const milestones = inputs.milestoneYears.filter((y) => pointAt(y));
+  const firstPoint = result?.points[0] ?? null;
+  const lastPoint = result ? result.points[result.points.length - 1] ?? null : null;
+  const effectiveMapYear = pointAt(mapYear) ? mapYear : lastPoint?.year ?? null;
+
+  const chartData = useMemo(
+    () =>
+      (result?.points ?? []).map((p) => ({
+        year: p.year,
+        ...Object.fromEntries(
+          [...DISTRICTS, 'TOTAL' as const].map((r) => [r, metric === 'ead' ? p.ead[r] : p.eapa?.[r] ?? null])
+        ),
+      })),
+    [result, metric]
+  );
+
+  // Choropleth: selected metric per district in the map year
+  useEffect(() => {
+    const point = result?.points.find((p) => p.year === effectiveMapYear);
+    const values = point ? (metric === 'ead' ? point.ead : point.eapa) : null;
+    if (showOnMap && onChoroplethData && values) {
+      const mapData = {} as Record<DistrictName, number>;
+      for (const d of DISTRICTS) mapData[d] = values[d];
+      onChoroplethData(mapData);
+    } else if (!showOnMap) {
+      onChoroplethData?.(null);
+    }
+    return () => {
+      onChoroplethData?.(null);
+    };
+  }, [showOnMap, effectiveMapYear, result, metric, onChoroplethData]);
+
+  const totalSummary = result?.summaries.find((s) => s.region === 'TOTAL') ?? null;
+  const startValue = firstPoint ? valueOf(firstPoint, 'TOTAL') : null;
+  const endValue = lastPoint ? valueOf(lastPoint, 'TOTAL') : null;
+  const invalidTimeline = inputs.endYear < inputs.startYear;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Header */}
+      <div className="px-4 py-3 bg-gradient-to-r from-sky-50 to-slate-50 border-b border-slate-200">
+        <div className="flex items-center gap-2">
+          <Hourglass className="w-4 h-4 text-sky-600" />
+          <span className="text-sm font-semibold text-slate-800">Risk Trajectory</span>
+        </div>
+        <p className="text-xs text-slate-500 mt-1">
+          Per-return-period values interpolated between the present and future climate datasets, integrated year by year
+        </p>
+      </div>
+
+      {/* Inputs */}
+      <div className="px-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-slate-600">Maintenance:</span>
+          {MAINTENANCE_LEVELS.map((m) => (
+            <Button
+              key={m}
+              variant={inputs.maintenance === m ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => update({ maintenance: m as Maintenance })}
+              className="text-xs h-7"
+            >
+              {MAINTENANCE_LABELS[m]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+          <NumberField
+            label="Present climate year"
+            value={inputs.presentYear}
+            min={1900}
+            onChange={(v) => update({ presentYear: Math.round(v) })}
+          />
+          <NumberField
+            label="Future climate year"
+            value={inputs.futureYear}
+            min={1900}
+            onChange={(v) => update({ futureYear: Math.round(v) })}
+          />
+          <NumberField
+            label="Start year"
+            value={inputs.startYear}
+            min={1900}
+            onChange={(v) => update({ startYear: Math.round(v) })}
+          />
+          <NumberField
+            label="End year"
+            value={inputs.endYear}
+            min={1900}
+            onChange={(v) => update({ endYear: Math.round(v) })}
+          />
+          <NumberField
+            label="Discount rate"
+            suffix="%"
+            value={Math.round(inputs.discountRate * 1000) / 10}
+            step={0.5}
+            onChange={(v) => update({ discountRate: v / 100 })}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+            Milestones:
+            <Input
+              value={milestoneText}
+              onChange={(e) => {
+                setMilestoneText(e.target.value);
+                update({ milestoneYears: parseYears(e.target.value) });
+              }}
+              placeholder="2030, 2050, 2080"
+              className="h-7 w-40 text-xs"
+            />
+          </label>
+          <div className="flex items-center gap-1">
+            <span className="text-xs font-medium text-slate-600">After {inputs.futureYear}:</span>
+            {(Object.keys(TRAJECTORY_BEYOND_FUTURE_LABELS) as TrajectoryBeyondFuture[]).map((mode) => (
+              <Button
+                key={mode}
+                variant={inputs.beyondFuture === mode ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => update({ beyondFuture: mode })}
+                className="text-xs h-7"
+              >
+                {TRAJECTORY_BEYOND_FUTURE_LABELS[mode]}
+              </Button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={inputs.exposureGrowth}
+              onChange={(e) => update({ exposureGrowth: e.target.checked })}
+              className="rounded border-slate-300"
+            />
+            Exposure growth at census annual growth rate
+          </label>
+        </div>
+
+        {invalidTimeline && (
+          <div className="flex items-center gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+            <Info className="w-3.5 h-3.5 flex-shrink-0" />
+            The end year is before the start year — the timeline is empty.
+          </div>
+        )}
+        {growthUnavailable && (
+          <div className="flex items-center gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+            <Info className="w-3.5 h-3.5 flex-shrink-0" />
+            Census growth rates could not be loaded — exposure is held at present levels.
+          </div>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="px-4 text-sm text-slate-500">Loading risk data...</div>
+      )}
+      {error && (
+        <div className="px-4 text-sm text-red-600">{error}</div>
+      )}
+
+      {/* Summary Cards */}
+      {totalSummary && firstPoint && lastPoint && metricAvailable && (
+        <div className="px-4 grid grid-cols-2 lg:grid-cols-4 gap-2">
+          {[
+            {
+              label: `${metric === 'ead' ? 'EAD' : 'EAPA'} ${firstPoint.year}`,
+              value: formatRiskValueFull(startValue ?? 0, riskMode),
+              color: 'text-slate-900',
+            },
+            {
+              label: `${metric === 'ead' ? 'EAD' : 'EAPA'} ${lastPoint.year}`,
+              value: formatRiskValueFull(endValue ?? 0, riskMode),
+              color: 'text-slate-900',
+            },
+            {
+              label: 'Change',
+              value: startValue ? formatDelta((((endValue ?? 0) - startValue) / startValue) * 100) : '—',
+              color: (endValue ?? 0) > (startValue ?? 0) ? 'text-red-600' : 'text-emerald-700',
+            },
+            metric === 'ead'
+              ? { label: `PV of EAD (${firstPoint.year}–${lastPoint.year})`, value: formatRiskValueFull(totalSummary.pvEad, 'Dmg'), color: 'text-indigo-700' }
+              : {
+                  label: `Cumulative EAPA (${firstPoint.year}–${lastPoint.year})`,
+                  value: totalSummary.cumulativeEapa !== null ? formatRiskValueFull(totalSummary.cumulativeEapa, 'Pop') : '—',
+                  color: 'text-indigo-700',
+                },
+          ].map((card) => (
+            <div key={card.label} className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2">
+              <p className="text-[11px] text-slate-500">{card.label}</p>
+              <p className={cn('text-base font-bold', card.color)}>{card.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Metric + Map */}
+      <div className="px-4 flex flex-wrap items-center gap-2">
+        {(Object.keys(TRAJECTORY_METRIC_LABELS) as TrajectoryMetric[]).map((m) => (
+          <Button
+            key={m}
+            variant={metric === m ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => setMetric(m)}
+            className="text-xs h-7"
+          >
+            {TRAJECTORY_METRIC_LABELS[m]}
+          </Button>
+        ))}
+        <div className="flex gap-1 ml-2">
+          {(['districts', 'TOTAL'] as const).map((r) => (
+            <Button
+              key={r}
+              variant={chartRegion === r ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setChartRegion(r)}
+              className="text-xs h-7"
+            >
+              {r === 'districts' ? 'By district' : 'All districts'}
+            </Button>
+          ))}
+        </div>
+        <div className="ml-auto">
+          <Button
+            variant={showOnMap ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowOnMap(!showOnMap)}
+            className="text-xs h-7"
+          >
+            <Map className="w-3.5 h-3.5 mr-1" />
+            {showOnMap ? `Map: ${effectiveMapYear ?? '—'}` : 'Show on Map'}
+          </Button>
+        </div>
+      </div>
+
+      {metric === 'eapa' && populationLoading && (
+        <p className="px-4 flex items-center gap-1.5 text-xs text-slate-500">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Loading population risk…
+        </p>
+      )}
+      {metric === 'eapa' && populationError && (
+        <p className="px-4 text-xs text-red-600">Population risk unavailable: {populationError}</p>
+      )}
+
+      {/* Trajectory Chart */}
+      {result && metricAvailable && chartData.length > 0 && (
+        <div className="px-4">
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="year" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 11 }} allowDecimals={false} />
+              <YAxis tickFormatter={(v: number) => formatRiskValue(v, riskMode)} tick={{ fontSize: 11 }} width={60} />
+              <Tooltip
+                formatter={(v: number, name: string) => [formatRiskValueFull(v, riskMode), name === 'TOTAL' ? 'All districts' : name]}
+                labelFormatter={(year: number) => `Year ${year}`}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              {inputs.futureYear >= inputs.startYear && inputs.futureYear <= inputs.endYear && (
+                <ReferenceLine
+                  x={inputs.futureYear}
+                  stroke="#94a3b8"
+                  strokeDasharray="4 4"
+                  label={{ value: 'Future climate', fontSize: 10, fill: '#64748b', position: 'insideTopLeft' }}
+                />
+              )}
+              {chartRegion === 'TOTAL' ? (
+                <Line dataKey="TOTAL" name="All districts" stroke="#0f172a" strokeWidth={2} dot={false} isAnimationActive={false} />
+              ) : (
+                DISTRICTS.map((d) => (
+                  <Line key={d} dataKey={d} stroke={DISTRICT_COLORS[d]} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                ))
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Milestone Table */}
+      {result && metricAvailable && (
+        <div className="px-4">
+          <h4 className="text-sm font-semibold text-slate-700 mb-2">
+            {metric === 'ead' ? 'EAD' : 'EAPA'} at Milestone Years
+          </h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="text-left py-1.5 px-2 font-medium text-slate-600">District</th>
+                  {milestones.map((y) => (
+                    <th
+                      key={y}
+                      onClick={() => setMapYear(y)}
+                      title="Show this year on the map"
+                      className={cn(
+                        'text-right py-1.5 px-2 font-medium text-slate-600 cursor-pointer hover:text-sky-700',
+                        effectiveMapYear === y && 'text-sky-700 underline'
+                      )}
+                    >
+                      {y}
+                    </th>
+                  ))}
+                  <th className="text-right py-1.5 px-2 font-medium text-slate-600 whitespace-nowrap">
+                    {metric === 'ead' ? 'PV of EAD' : 'Cumulative EAPA'}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.summaries.map((s) => {
+                  const isTotal = s.region === 'TOTAL';
+                  return (
+                    <tr key={s.region} className={cn('border-b border-slate-100', isTotal && 'bg-slate-100 font-semibold')}>
+                      <td className="py-1.5 px-2 text-slate-700 whitespace-nowrap">
+                        {isTotal ? 'All districts' : s.region}
+                      </td>
+                      {milestones.map((y) => {
+                        const point = pointAt(y);
+                        const value = point ? valueOf(point, s.region) : null;
+                        return (
+                          <td key={y} className="py-1.5 px-2 text-right text-slate-800 whitespace-nowrap">
+                            {value !== null ? formatRiskValueFull(value, riskMode) : '—'}
+                          </td>
+                        );
+                      })}
+                      <td className="py-1.5 px-2 text-right text-indigo-700 whitespace-nowrap">
+                        {metric === 'ead'
+                          ? formatRiskValueFull(s.pvEad, 'Dmg')
+                          : s.cumulativeEapa !== null
+                            ? formatRiskValueFull(s.cumulativeEapa, 'Pop')
+                            : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {milestones.length < inputs.milestoneYears.length && (
+            <p className="text-xs text-slate-400 mt-1">
+              Milestones outside {inputs.startYear}–{inputs.endYear} are not shown.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Method Note */}
+      <div className="px-4 pb-4">
+        <div className="flex gap-2 text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-md px-3 py-2">
+          <Info className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+          <p>
+            Each return period's damage and affected population are blended linearly from the present ({inputs.presentYear})
+            to the future ({inputs.futureYear}) dataset, then integrated over AEP with the dashboard's EAD settings.
+            {inputs.exposureGrowth && ' Exposure compounds at each district’s Census 2017 annual growth rate from the present year.'}
+            {' '}PV of EAD discounts each year's EAD to {inputs.startYear}.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
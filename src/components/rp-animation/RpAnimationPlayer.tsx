@@ -0,0 +1,164 @@
+/**
+ * Return-Period Animation Player Component
+ *
+ * Map overlay that steps a hazard parameter group (e.g. Present / Breaches /
+ * Depth) through its return periods from 2.3 to 500 years, with play/pause,
+ * stepping, speed control and GIF/WebM export. The current return period is
+ * shown as a label on the map.
+ */
+
+import type Map from 'ol/Map';
+import { Download, Loader2, Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getWebmMimeType } from '@/lib/animation-export';
+import { cn } from '@/lib/utils';
+import type { LayerInfo } from '@/types/layers';
+import { useRpAnimation } from './hooks/useRpAnimation';
+
+/** Playback speeds as milliseconds per frame */
+const SPEEDS = [
+  { label: '0.5×', ms: 2000 },
+  { label: '1×', ms: 1000 },
+  { label: '2×', ms: 500 },
+  { label: '4×', ms: 250 },
+];
+
+export interface RpAnimationPlayerProps {
+  map: Map | null;
+  /** Return-period layers of one parameter group, in order */
+  layers: LayerInfo[];
+  /** Group path, e.g. "Present Climate / Maintenance - Breaches / Depth" */
+  title: string;
+  onClose: () => void;
+}
+
+export function RpAnimationPlayer({ map, layers, title, onClose }: RpAnimationPlayerProps) {
+  const {
+    frame,
+    setFrame,
+    playing,
+    setPlaying,
+    intervalMs,
+    setIntervalMs,
+    isLoading,
+    exportStatus,
+    exportError,
+    exportAnimation,
+  } = useRpAnimation(map, layers, title);
+
+  const current = layers[frame];
+  const isExporting = exportStatus !== null;
+  const canRecordWebm = getWebmMimeType() !== null;
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    setFrame((frame + delta + layers.length) % layers.length);
+  };
+
+  return (
+    <>
+      {/* Current return period label */}
+      {current && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 bg-white/90 backdrop-blur-sm rounded-lg shadow-lg px-4 py-2 z-10 text-center pointer-events-none">
+          <div className="text-[10px] text-slate-500 truncate max-w-xs">{title}</div>
+          <div className="text-lg font-semibold text-slate-800">{current.name} return period</div>
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-white/95 backdrop-blur-sm rounded-lg shadow-lg p-3 z-10 w-[min(36rem,calc(100%-2rem))]">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-semibold text-slate-700 truncate" title={title}>
+            Return-period animation · {title}
+          </span>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-slate-100 text-slate-500"
+            title="Close animation"
+            disabled={isExporting}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Timeline */}
+        <div className="flex gap-1 mb-2">
+          {layers.map((layer, i) => (
+            <button
+              key={layer.id}
+              onClick={() => {
+                setPlaying(false);
+                setFrame(i);
+              }}
+              disabled={isExporting}
+              className={cn(
+                'flex-1 rounded px-1 py-1 text-[11px] transition-colors',
+                i === frame ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              )}
+            >
+              {layer.name.replace(/ Years?$/, '')}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => step(-1)} disabled={isExporting} title="Previous">
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button size="sm" className="h-8 w-8 p-0" onClick={() => setPlaying(!playing)} disabled={isExporting} title={playing ? 'Pause' : 'Play'}>
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => step(1)} disabled={isExporting} title="Next">
+            <SkipForward className="w-4 h-4" />
+          </Button>
+
+          <div className="flex bg-slate-100 rounded-md p-0.5 ml-1">
+            {SPEEDS.map((speed) => (
+              <button
+                key={speed.ms}
+                onClick={() => setIntervalMs(speed.ms)}
+                disabled={isExporting}
+                className={cn(
+                  'px-2 py-1 text-[11px] rounded transition-all',
+                  intervalMs === speed.ms ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+                )}
+              >
+                {speed.label}
+              </button>
+            ))}
+          </div>
+
+          {isLoading && !isExporting && (
+            <span className="flex items-center gap-1 text-[11px] text-slate-500">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Loading tiles…
+            </span>
+          )}
+
+          <div className="flex gap-1 ml-auto">
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => exportAnimation('gif')} disabled={isExporting || !map}>
+              <Download className="w-3.5 h-3.5 mr-1" />
+              GIF
+            </Button>
+            {canRecordWebm && (
+              <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => exportAnimation('webm')} disabled={isExporting || !map}>
+                <Download className="w-3.5 h-3.5 mr-1" />
+                WebM
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {exportStatus && (
+          <p className="flex items-center gap-1 mt-2 text-[11px] text-slate-600">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {exportStatus}
+          </p>
+        )}
+        {exportError && <p className="mt-2 text-[11px] text-red-600">{exportError}</p>}
+      </div>
+    </>
+  );
+}
+
+export default RpAnimationPlayer;
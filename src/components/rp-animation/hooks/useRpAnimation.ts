@@ -0,0 +1,187 @@
+/**
+ * Hook for animating a group of return-period hazard layers
+ *
+ * Adds one WMS layer per return period to the map, all rendering at once so
+ * their tiles stay loaded, and shows only the current frame. Playback waits
+ * while tiles are still loading so each step appears complete.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type Map from 'ol/Map';
+import TileLayer from 'ol/layer/Tile';
+import type TileWMS from 'ol/source/TileWMS';
+import { encodeGif } from '@/lib/gif-encoder';
+import { drawFrameLabel, recordWebm, scaleCanvas } from '@/lib/animation-export';
+import { downloadBlob } from '@/lib/image-export';
+import { compositeMapCanvas } from '@/lib/map-print';
+import { createWmsTileSource } from '@/lib/wms-source';
+import type { LayerInfo } from '@/types/layers';
+
+/** Above the tree's raster layers (10) and below vector overlays */
+const ANIMATION_Z_INDEX = 20;
+
+const GIF_MAX_WIDTH = 800;
+const WEBM_MAX_WIDTH = 1280;
+
+export type AnimationExportFormat = 'gif' | 'webm';
+
+interface UseRpAnimationReturn {
+  frame: number;
+  setFrame: (frame: number) => void;
+  playing: boolean;
+  setPlaying: (playing: boolean) => void;
+  /** Milliseconds per frame */
+  intervalMs: number;
+  setIntervalMs: (ms: number) => void;
+  /** Tiles for some return period are still loading */
+  isLoading: boolean;
+  /** Export progress message while exporting, otherwise null */
+  exportStatus: string | null;
+  exportError: string | null;
+  exportAnimation: (format: AnimationExportFormat) => Promise<void>;
+}
+
+function waitForRender(map: Map): Promise<void> {
+  return new Promise((resolve) => {
+    map.once('rendercomplete', () => resolve());
+    map.render();
+  });
+}
+
+/**
+ * @param map - Map to animate on
+ * @param layers - Return-period layers in playback order
+ * @param title - Caption for exported frames and file name
+ */
+export function useRpAnimation(map: Map | null, layers: LayerInfo[], title: string): UseRpAnimationReturn {
+  const layerRefs = useRef<TileLayer<TileWMS>[]>([]);
+  const pendingTilesRef = useRef(0);
+  const frameRef = useRef(0);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [intervalMs, setIntervalMs] = useState(1000);
+  const [isLoading, setIsLoading] = useState(false);
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const showFrame = useCallback((index: number) => {
+    frameRef.current = index;
+    layerRefs.current.forEach((layer, i) => {
+      layer.setOpacity(i === index ? layers[i].opacity : 0);
+    });
+  }, [layers]);
+
+  // Create one layer per return period
+  useEffect(() => {
+    if (!map) return;
+    pendingTilesRef.current = 0;
+
+    const track = (delta: number) => {
+      const wasLoading = pendingTilesRef.current > 0;
+      pendingTilesRef.current = Math.max(0, pendingTilesRef.current + delta);
+      if (wasLoading !== pendingTilesRef.current > 0) setIsLoading(pendingTilesRef.current > 0);
+    };
+
+    const created = layers.map((info, i) => {
+      const source = createWmsTileSource(info);
+      source.on('tileloadstart', () => track(1));
+      source.on(['tileloadend', 'tileloaderror'], () => track(-1));
+
+      // Zero opacity (not hidden) so OpenLayers still loads the frame's tiles
+      const layer = new TileLayer({
+        source,
+        opacity: i === frameRef.current ? info.opacity : 0,
+        zIndex: ANIMATION_Z_INDEX,
+      });
+      map.addLayer(layer);
+      return layer;
+    });
+    layerRefs.current = created;
+
+    return () => {
+      created.forEach((layer) => map.removeLayer(layer));
+      layerRefs.current = [];
+    };
+  }, [map, layers]);
+
+  useEffect(() => {
+    showFrame(frame);
+  }, [frame, showFrame]);
+
+  // Advance while playing, holding a frame until its tiles have loaded
+  useEffect(() => {
+    if (!playing || layers.length === 0) return;
+    const id = window.setInterval(() => {
+      if (pendingTilesRef.current > 0) return;
+      setFrame((prev) => (prev + 1) % layers.length);
+    }, intervalMs);
+    return () => window.clearInterval(id);
+  }, [playing, intervalMs, layers.length]);
+
+  const exportAnimation = useCallback(async (format: AnimationExportFormat) => {
+    if (!map) return;
+    const size = map.getSize();
+    if (!size) return;
+
+    setPlaying(false);
+    setExportError(null);
+    const startFrame = frameRef.current;
+    const frames: HTMLCanvasElement[] = [];
+
+    try {
+      for (let i = 0; i < layers.length; i++) {
+        setExportStatus(`Capturing ${layers[i].name} (${i + 1}/${layers.length})…`);
+        showFrame(i);
+        await waitForRender(map);
+        const canvas = scaleCanvas(
+          compositeMapCanvas(map, size[0], size[1]),
+          format === 'gif' ? GIF_MAX_WIDTH : WEBM_MAX_WIDTH
+        );
+        drawFrameLabel(canvas, title, `${layers[i].name} return period`);
+        frames.push(canvas);
+      }
+
+      const filename = `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'animation'}-rp`;
+      if (format === 'gif') {
+        setExportStatus('Encoding GIF…');
+        // Let the status render before the synchronous encode
+        await new Promise((resolve) => window.setTimeout(resolve, 0));
+        const images = frames.map((canvas) => {
+          const ctx = canvas.getContext('2d');
+          if (!ctx) throw new Error('Canvas 2D context unavailable');
+          return ctx.getImageData(0, 0, canvas.width, canvas.height);
+        });
+        const gif = encodeGif(images, intervalMs);
+        downloadBlob(new Blob([gif as BlobPart], { type: 'image/gif' }), `${filename}.gif`);
+      } else {
+        setExportStatus('Recording video…');
+        downloadBlob(await recordWebm(frames, intervalMs), `${filename}.webm`);
+      }
+    } catch (err) {
+      console.error('Error exporting animation:', err);
+      setExportError(
+        err instanceof DOMException && err.name === 'SecurityError'
+          ? 'A map layer does not allow export (cross-origin tiles). Try another base map.'
+          : err instanceof Error ? err.message : 'Export failed'
+      );
+    } finally {
+      showFrame(startFrame);
+      setExportStatus(null);
+    }
+  }, [map, layers, title, intervalMs, showFrame]);
+
+  return {
+    frame,
+    setFrame,
+    playing,
+    setPlaying,
+    intervalMs,
+    setIntervalMs,
+    isLoading,
+    exportStatus,
+    exportError,
+    exportAnimation,
+  };
+}
+
+export default useRpAnimation;
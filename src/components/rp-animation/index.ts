@@ -0,0 +1,6 @@
+/**
+ * Return-Period Animation Module Barrel Export
+ */
+
+export { RpAnimationPlayer } from './RpAnimationPlayer';
+export { useRpAnimation } from './hooks/useRpAnimation';
@@ -3,6 +3,7 @@ import { Eye, EyeOff, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { cn } from '@/lib/utils';
+import { buildLayerName } from '@/config/layers';
 import { returnPeriods, parameters, maintenanceLevels, climateScenarios } from '@/types/layers';
 import { formatMaintenanceLabel } from '@/types/impact';
 
@@ -15,16 +16,6 @@ interface ScenarioMatrixProps {
 
 type CompareMode = 'single' | 'all';
 
-// Build layer ID from scenario components (lowercase to match GeoServer layer names)
-function buildLayerId(
-  climate: string,
-  maintenance: string,
-  returnPeriod: string,
-  parameter: string
-): string {
-  return `t3_${returnPeriod}yrs_${climate.toLowerCase()}_${maintenance.toLowerCase()}_${parameter.toLowerCase()}`;
-}
-
 export function ScenarioMatrix({
   climate: propClimate,
   onLayerToggle,
@@ -67,20 +58,20 @@ export function ScenarioMatrix({
 
   // Check if a cell (return period + maintenance) is active
   const isCellActive = (returnPeriod: string, maintenance: string): boolean => {
-    const layerId = buildLayerId(selectedClimate, maintenance, returnPeriod, selectedParameter);
+    const layerId = buildLayerName(selectedClimate, maintenance, returnPeriod, selectedParameter);
     return visibleLayers.includes(layerId);
   };
 
   // Toggle a specific cell
   const toggleCell = (returnPeriod: string, maintenance: string) => {
-    const layerId = buildLayerId(selectedClimate, maintenance, returnPeriod, selectedParameter);
+    const layerId = buildLayerName(selectedClimate, maintenance, returnPeriod, selectedParameter);
     const isActive = visibleLayers.includes(layerId);
     
     // In single mode, turn off other return periods for this maintenance
     if (compareMode === 'single' && selectedMaintenance.length === 1) {
       // Turn off all other layers for this maintenance+parameter combination
       returnPeriods.forEach((rp) => {
-        const otherId = buildLayerId(selectedClimate, maintenance, rp.value, selectedParameter);
+        const otherId = buildLayerName(selectedClimate, maintenance, rp.value, selectedParameter);
         if (otherId !== layerId && visibleLayers.includes(otherId)) {
           onLayerToggle(otherId, false);
         }
@@ -97,7 +88,7 @@ export function ScenarioMatrix({
     );
     
     selectedMaintenance.forEach((maintenance) => {
-      const layerId = buildLayerId(selectedClimate, maintenance, returnPeriod, selectedParameter);
+      const layerId = buildLayerName(selectedClimate, maintenance, returnPeriod, selectedParameter);
       onLayerToggle(layerId, !anyActive);
     });
   };
@@ -109,7 +100,7 @@ export function ScenarioMatrix({
     );
     
     returnPeriods.forEach((rp) => {
-      const layerId = buildLayerId(selectedClimate, maintenance, rp.value, selectedParameter);
+      const layerId = buildLayerName(selectedClimate, maintenance, rp.value, selectedParameter);
       onLayerToggle(layerId, !anyActive);
     });
   };
@@ -331,7 +322,7 @@ export function ScenarioMatrix({
               // Show all return periods for selected maintenances
               returnPeriods.forEach((rp) => {
                 selectedMaintenance.forEach((m) => {
-                  const layerId = buildLayerId(selectedClimate, m, rp.value, selectedParameter);
+                  const layerId = buildLayerName(selectedClimate, m, rp.value, selectedParameter);
                   onLayerToggle(layerId, true);
                 });
               });
@@ -347,7 +338,7 @@ export function ScenarioMatrix({
               // Show common events: 25, 50, 100 years
               ['25', '50', '100'].forEach((rp) => {
                 selectedMaintenance.forEach((m) => {
-                  const layerId = buildLayerId(selectedClimate, m, rp, selectedParameter);
+                  const layerId = buildLayerName(selectedClimate, m, rp, selectedParameter);
                   onLayerToggle(layerId, true);
                 });
               });
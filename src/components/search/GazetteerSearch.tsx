@@ -0,0 +1,146 @@
+/**
+ * Gazetteer Search Component
+ *
+ * Header search box for villages, health facilities, schools and districts.
+ * Matches against the offline gazetteer (no geocoding service), tolerating
+ * spelling and transliteration variants; picking a result zooms to it.
+ */
+
+import { useMemo, useState } from 'react';
+import { Building2, GraduationCap, Hospital, Loader2, MapPin, Search, Stethoscope, X } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { searchGazetteer } from '@/lib/gazetteer';
+import { GAZETTEER_TYPE_LABELS } from '@/types/gazetteer';
+import type { GazetteerEntry, GazetteerType } from '@/types/gazetteer';
+import { useGazetteer } from './hooks/useGazetteer';
+
+const TYPE_ICONS: Record<GazetteerType, LucideIcon> = {
+  district: MapPin,
+  settlement: Building2,
+  hospital: Hospital,
+  school: GraduationCap,
+  bhu: Stethoscope,
+};
+
+export interface GazetteerSearchProps {
+  /** Called with the picked place, or null when the search is cleared */
+  onSelect: (place: GazetteerEntry | null) => void;
+  className?: string;
+}
+
+export function GazetteerSearch({ onSelect, className }: GazetteerSearchProps) {
+  const { index, loading, error, load } = useGazetteer();
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const matches = useMemo(() => (index ? searchGazetteer(index, query) : []), [index, query]);
+
+  const select = (place: GazetteerEntry) => {
+    setQuery(place.name);
+    setOpen(false);
+    onSelect(place);
+  };
+
+  const clear = () => {
+    setQuery('');
+    setActiveIndex(0);
+    onSelect(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((i) => Math.min(i + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      const match = matches[activeIndex] ?? matches[0];
+      if (match) select(match.entry);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showDropdown = open && query.trim().length >= 2;
+
+  return (
+    <div className={cn('relative', className)}>
+      <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => {
+          load();
+          setOpen(true);
+        }}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search village, facility, district…"
+        className="h-9 pl-8 pr-8 text-sm"
+        aria-label="Search places"
+      />
+      {query && (
+        <button
+          onClick={clear}
+          className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded hover:bg-slate-100 text-slate-400"
+          title="Clear search"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+
+      {showDropdown && (
+        <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-slate-200 rounded-md shadow-lg z-50 max-h-80 overflow-y-auto text-sm">
+          {loading ? (
+            <div className="flex items-center gap-2 px-3 py-2 text-slate-500">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              Loading places…
+            </div>
+          ) : error ? (
+            <div className="px-3 py-2 text-red-600">{error}</div>
+          ) : matches.length === 0 ? (
+            <div className="px-3 py-2 text-slate-500 italic">No places found</div>
+          ) : (
+            <ul>
+              {matches.map((match, i) => {
+                const Icon = TYPE_ICONS[match.entry.type];
+                return (
+                  <li key={`${match.entry.type}-${match.entry.name}-${match.entry.x}-${match.entry.y}`}>
+                    <button
+                      // Keep focus in the input so blur doesn't close the list first
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => select(match.entry)}
+                      onMouseEnter={() => setActiveIndex(i)}
+                      className={cn(
+                        'w-full flex items-center gap-2 px-3 py-1.5 text-left',
+                        i === activeIndex ? 'bg-blue-50' : 'hover:bg-slate-50'
+                      )}
+                    >
+                      <Icon className="w-4 h-4 text-slate-500 shrink-0" />
+                      <span className="flex-1 min-w-0 truncate text-slate-800">{match.entry.name}</span>
+                      <span className="text-[11px] text-slate-500 whitespace-nowrap">
+                        {GAZETTEER_TYPE_LABELS[match.entry.type]}
+                        {match.entry.type !== 'district' && match.entry.district && ` · ${match.entry.district}`}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GazetteerSearch;
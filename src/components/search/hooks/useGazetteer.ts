@@ -0,0 +1,68 @@
+/**
+ * Hook for the offline gazetteer
+ *
+ * Loads public/data/gazetteer.json on first use and indexes it for fuzzy
+ * search. The index is shared by every caller and only fetched once. The
+ * file is exported from the database by `npm run build:gazetteer`; until it
+ * has been, the search says so.
+ */
+
+import { useCallback, useState } from 'react';
+import { buildGazetteerIndex } from '@/lib/gazetteer';
+import type { IndexedEntry } from '@/lib/gazetteer';
+import { GAZETTEER_URL } from '@/types/gazetteer';
+import type { GazetteerData } from '@/types/gazetteer';
+
+let indexPromise: Promise<IndexedEntry[]> | null = null;
+
+function loadIndex(): Promise<IndexedEntry[]> {
+  indexPromise ??= fetch(GAZETTEER_URL)
+    .then((response) => {
+      // A missing file is a 404, or index.html from an SPA fallback
+      if (response.status === 404 || !response.headers.get('Content-Type')?.includes('json')) {
+        throw new Error('The place index has not been built yet (npm run build:gazetteer)');
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: Failed to load gazetteer`);
+      }
+      return response.json() as Promise<GazetteerData>;
+    })
+    .then((data) => buildGazetteerIndex(data.entries))
+    .catch((err) => {
+      // Allow a retry on the next search
+      indexPromise = null;
+      throw err;
+    });
+  return indexPromise;
+}
+
+interface UseGazetteerReturn {
+  index: IndexedEntry[] | null;
+  loading: boolean;
+  error: string | null;
+  /** Start loading the gazetteer if it isn't loaded yet */
+  load: () => void;
+}
+
+export function useGazetteer(): UseGazetteerReturn {
+  const [index, setIndex] = useState<IndexedEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    if (index || loading) return;
+    setLoading(true);
+    setError(null);
+    loadIndex()
+      .then(setIndex)
+      .catch((err) => {
+        console.error('Error loading gazetteer:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load gazetteer');
+      })
+      .finally(() => setLoading(false));
+  }, [index, loading]);
+
+  return { index, loading, error, load };
+}
+
+export default useGazetteer;
@@ -0,0 +1,116 @@
+/**
+ * Hook highlighting a gazetteer search result on the map
+ *
+ * Zooms to the place — a district to its extent, anything else to street
+ * level — and marks it: districts with their boundary, other places with a
+ * pin. The highlight is removed when the place is cleared.
+ */
+
+import { useEffect, useState } from 'react';
+import type Map from 'ol/Map';
+import Feature from 'ol/Feature';
+import GeoJSON from 'ol/format/GeoJSON';
+import Point from 'ol/geom/Point';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { Circle, Fill, Stroke, Style, Text } from 'ol/style';
+import type { GazetteerEntry } from '@/types/gazetteer';
+
+const HIGHLIGHT_COLOR = '#ea580c';
+
+/** Zoom for a point result; the AOI fits at about 10 */
+const PLACE_ZOOM = 14;
+
+function placeStyle(name: string): Style[] {
+  return [
+    new Style({
+      stroke: new Stroke({ color: '#ffffff', width: 5 }),
+    }),
+    new Style({
+      stroke: new Stroke({ color: HIGHLIGHT_COLOR, width: 2.5 }),
+      fill: new Fill({ color: 'rgba(234, 88, 12, 0.08)' }),
+      image: new Circle({
+        radius: 8,
+        fill: new Fill({ color: HIGHLIGHT_COLOR }),
+        stroke: new Stroke({ color: '#ffffff', width: 3 }),
+      }),
+      text: new Text({
+        text: name,
+        font: '600 13px sans-serif',
+        offsetY: -20,
+        fill: new Fill({ color: '#7c2d12' }),
+        stroke: new Stroke({ color: '#ffffff', width: 3 }),
+        overflow: true,
+      }),
+    }),
+  ];
+}
+
+let districtsPromise: Promise<Feature[]> | null = null;
+
+function loadDistricts(): Promise<Feature[]> {
+  districtsPromise ??= fetch('/data/districts.geojson')
+    .then((r) => {
+      if (!r.ok) throw new Error(`HTTP ${r.status}`);
+      return r.json();
+    })
+    .then((geojson) => new GeoJSON().readFeatures(geojson) as Feature[])
+    .catch((err) => {
+      districtsPromise = null;
+      throw err;
+    });
+  return districtsPromise;
+}
+
+export function usePlaceHighlight(map: Map | null, place: GazetteerEntry | null): void {
+  const [source] = useState(() => new VectorSource());
+
+  // Highlight layer
+  useEffect(() => {
+    if (!map) return;
+    const layer = new VectorLayer({ source, zIndex: 1001 });
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, source]);
+
+  // Zoom to and mark the place
+  useEffect(() => {
+    source.clear();
+    if (!map || !place) return;
+
+    const view = map.getView();
+    const style = placeStyle(place.name);
+    let cancelled = false;
+
+    if (place.extent) {
+      view.fit(place.extent, { padding: [60, 60, 60, 60], duration: 600 });
+      loadDistricts()
+        .then((districts) => {
+          if (cancelled) return;
+          const boundary = districts.find((f) => f.get('district') === place.name);
+          if (!boundary) return;
+          const feature = boundary.clone();
+          feature.setStyle(style);
+          source.addFeature(feature);
+        })
+        .catch((err) => console.error('Failed to load district boundary:', err));
+    } else {
+      const feature = new Feature(new Point([place.x, place.y]));
+      feature.setStyle(style);
+      source.addFeature(feature);
+      view.animate({
+        center: [place.x, place.y],
+        zoom: Math.max(view.getZoom() ?? 0, PLACE_ZOOM),
+        duration: 600,
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [map, place, source]);
+}
+
+export default usePlaceHighlight;
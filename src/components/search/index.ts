@@ -0,0 +1,7 @@
+/**
+ * Gazetteer Search Module Barrel Export
+ */
+
+export { GazetteerSearch } from './GazetteerSearch';
+export { useGazetteer } from './hooks/useGazetteer';
+export { usePlaceHighlight } from './hooks/usePlaceHighlight';
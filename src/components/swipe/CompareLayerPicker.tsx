@@ -0,0 +1,95 @@
+/**
+ * Compare Layer Picker
+ *
+ * Searchable multi-select over the compare layer catalog, used by each
+ * grid panel. Selected layers are listed first so they can be unticked
+ * without searching for them again.
+ */
+
+import { useMemo, useState } from 'react';
+import { Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { compareLayerLabel } from '@/lib/compare-layers';
+import type { CompareLayer } from '@/types/compare';
+
+/** Search results listed at once; the catalog has several hundred layers */
+const MAX_RESULTS = 60;
+
+export interface CompareLayerPickerProps {
+  catalog: CompareLayer[];
+  selectedIds: string[];
+  onChange: (layerIds: string[]) => void;
+}
+
+export function CompareLayerPicker({ catalog, selectedIds, onChange }: CompareLayerPickerProps) {
+  const [query, setQuery] = useState('');
+
+  const selected = useMemo(
+    () => selectedIds.map((id) => catalog.find((l) => l.id === id)).filter((l): l is CompareLayer => !!l),
+    [catalog, selectedIds]
+  );
+
+  // Every search word must appear in the layer's path or name
+  const results = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return catalog
+      .filter((l) => !selectedIds.includes(l.id))
+      .filter((l) => {
+        const label = compareLayerLabel(l).toLowerCase();
+        return words.every((w) => label.includes(w));
+      })
+      .slice(0, MAX_RESULTS);
+  }, [catalog, selectedIds, query]);
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, id] : selectedIds.filter((s) => s !== id));
+  };
+
+  const renderRow = (layer: CompareLayer, checked: boolean) => (
+    <label key={layer.id} className="flex items-start gap-2 px-2 py-1 rounded hover:bg-slate-50 cursor-pointer">
+      <Checkbox
+        checked={checked}
+        onCheckedChange={(value) => toggle(layer.id, value === true)}
+        className="mt-0.5"
+      />
+      <span className="min-w-0">
+        <span className="block text-slate-800">{layer.name}</span>
+        <span className="block text-[10px] text-slate-500 truncate">{layer.path.join(' › ')}</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs bg-white/90">
+          <Layers className="w-3.5 h-3.5 mr-1" />
+          Layers ({selected.length})
+        </Button>
+      </PopoverTrigger>
+      {/* Above the compare modal (z-[9999]) */}
+      <PopoverContent align="start" className="w-80 p-2 z-[10000] text-xs">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search layers (e.g. future 100 depth, roads)"
+          className="h-8 text-xs mb-2"
+          aria-label="Search layers"
+        />
+        <div className="max-h-72 overflow-y-auto space-y-0.5">
+          {selected.map((layer) => renderRow(layer, true))}
+          {selected.length > 0 && results.length > 0 && <div className="border-t border-slate-200 my-1" />}
+          {results.map((layer) => renderRow(layer, false))}
+          {results.length === 0 && (
+            <div className="px-2 py-1 text-slate-500 italic">No more layers match</div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default CompareLayerPicker;
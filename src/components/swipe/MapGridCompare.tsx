@@ -0,0 +1,188 @@
+/**
+ * Map Grid Compare
+ *
+ * 2×2, 1×3 or 2×3 grid of maps for comparing scenarios side by side. All
+ * panels share one View, so pan, zoom and rotation stay in step, and a
+ * crosshair marks the cursor position in every panel but the one under
+ * the pointer. Each panel shows its own set of catalog layers.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Map as OlMap, View } from 'ol';
+import Feature from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import type TileLayer from 'ol/layer/Tile';
+import VectorLayer from 'ol/layer/Vector';
+import type TileWMS from 'ol/source/TileWMS';
+import VectorSource from 'ol/source/Vector';
+import type XYZ from 'ol/source/XYZ';
+import { RegularShape, Stroke, Style } from 'ol/style';
+import type { FeatureLike } from 'ol/Feature';
+import 'ol/ol.css';
+import { MAP_CONFIG } from '@/config/layers';
+import { compareLayerLabel, createBaseTileLayers, createCompareTileLayer, defaultGridPanels } from '@/lib/compare-layers';
+import { GRID_LAYOUTS } from '@/types/compare';
+import type { CompareLayer, GridLayout, GridPanelConfig } from '@/types/compare';
+import { CompareLayerPicker } from './CompareLayerPicker';
+
+const CROSSHAIR_STYLES = [
+  new Style({
+    image: new RegularShape({
+      points: 4,
+      radius: 12,
+      radius2: 0,
+      angle: 0,
+      stroke: new Stroke({ color: 'rgba(255, 255, 255, 0.9)', width: 4 }),
+    }),
+  }),
+  new Style({
+    image: new RegularShape({
+      points: 4,
+      radius: 12,
+      radius2: 0,
+      angle: 0,
+      stroke: new Stroke({ color: '#dc2626', width: 2 }),
+    }),
+  }),
+];
+
+interface GridPanelProps {
+  index: number;
+  view: View;
+  cursor: Feature<Point>;
+  catalog: CompareLayer[];
+  layerIds: string[];
+  onLayersChange: (layerIds: string[]) => void;
+}
+
+function GridPanel({ index, view, cursor, catalog, layerIds, onLayersChange }: GridPanelProps) {
+  const targetRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<OlMap | null>(null);
+  const layersRef = useRef(new Map<string, TileLayer<TileWMS | XYZ>>());
+
+  useEffect(() => {
+    if (!targetRef.current) return;
+
+    // Crosshair everywhere except the panel the cursor is in
+    const crosshairLayer = new VectorLayer({
+      source: new VectorSource({ features: [cursor] }),
+      style: (feature: FeatureLike) => (feature.get('panel') === index ? undefined : CROSSHAIR_STYLES),
+      zIndex: 1000,
+    });
+
+    const map = new OlMap({
+      target: targetRef.current,
+      layers: [...createBaseTileLayers(), crosshairLayer],
+      view,
+      controls: [],
+    });
+
+    map.on('pointermove', (evt) => {
+      cursor.setGeometry(new Point(evt.coordinate));
+      cursor.set('panel', index);
+    });
+    const viewport = map.getViewport();
+    const handleLeave = () => cursor.setGeometry(undefined);
+    viewport.addEventListener('mouseleave', handleLeave);
+
+    const layers = layersRef.current;
+    mapRef.current = map;
+    return () => {
+      viewport.removeEventListener('mouseleave', handleLeave);
+      map.setTarget(undefined);
+      mapRef.current = null;
+      layers.clear();
+    };
+  }, [view, cursor, index]);
+
+  // Add and remove layers to match the selection (again after the map is recreated)
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const layers = layersRef.current;
+
+    for (const [id, layer] of layers) {
+      if (!layerIds.includes(id)) {
+        map.removeLayer(layer);
+        layers.delete(id);
+      }
+    }
+    for (const id of layerIds) {
+      const info = catalog.find((l) => l.id === id);
+      if (!info || layers.has(id)) continue;
+      const layer = createCompareTileLayer(info);
+      map.addLayer(layer);
+      layers.set(id, layer);
+    }
+  }, [catalog, layerIds, view, cursor, index]);
+
+  const names = layerIds
+    .map((id) => catalog.find((l) => l.id === id))
+    .filter((l): l is CompareLayer => !!l);
+
+  return (
+    <div className="relative min-h-0 min-w-0 border border-slate-300">
+      <div ref={targetRef} className="absolute inset-0" />
+      <div className="absolute top-2 left-2 right-2 z-10 flex items-start gap-2 pointer-events-none">
+        <div className="pointer-events-auto">
+          <CompareLayerPicker catalog={catalog} selectedIds={layerIds} onChange={onLayersChange} />
+        </div>
+        <div className="min-w-0 bg-white/90 backdrop-blur-sm rounded shadow px-2 py-1 text-[11px] text-slate-700 space-y-0.5">
+          {names.length === 0 ? (
+            <span className="italic text-slate-500">No layers</span>
+          ) : (
+            names.map((layer) => (
+              <div key={layer.id} className="truncate" title={compareLayerLabel(layer)}>
+                <span className="text-slate-500">{layer.path.slice(1).join(' › ')} › </span>
+                <span className="font-medium">{layer.name}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export interface MapGridCompareProps {
+  catalog: CompareLayer[];
+  layout: GridLayout;
+}
+
+export function MapGridCompare({ catalog, layout }: MapGridCompareProps) {
+  const [panels, setPanels] = useState<GridPanelConfig[]>(defaultGridPanels);
+  const [view] = useState(
+    () => new View({ projection: MAP_CONFIG.projection, center: MAP_CONFIG.center, zoom: MAP_CONFIG.zoom })
+  );
+  const [cursor] = useState(() => new Feature<Point>());
+
+  const { rows, cols } = GRID_LAYOUTS[layout];
+
+  const setPanelLayers = (index: number, layerIds: string[]) => {
+    setPanels((prev) => prev.map((panel, i) => (i === index ? { layerIds } : panel)));
+  };
+
+  return (
+    <div
+      className="flex-1 grid gap-0.5 bg-slate-300 min-h-0"
+      style={{
+        gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))`,
+        gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+      }}
+    >
+      {panels.slice(0, rows * cols).map((panel, i) => (
+        <GridPanel
+          key={i}
+          index={i}
+          view={view}
+          cursor={cursor}
+          catalog={catalog}
+          layerIds={panel.layerIds}
+          onLayersChange={(layerIds) => setPanelLayers(i, layerIds)}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default MapGridCompare;
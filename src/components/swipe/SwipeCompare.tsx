@@ -1,18 +1,17 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { Map as OlMap, View } from 'ol';
-import TileLayer from 'ol/layer/Tile';
-import TileWMS from 'ol/source/TileWMS';
-import XYZ from 'ol/source/XYZ';
 import { get as getProjection } from 'ol/proj';
 import { register } from 'ol/proj/proj4';
 import proj4 from 'proj4';
-import { Layers, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Layers, ChevronLeft, ChevronRight, ChevronUp, ChevronDown } from 'lucide-react';
 import 'ol/ol.css';
-import type { LayerInfo } from '@/types/layers';
-import { GEOSERVER_CONFIG, MAP_CONFIG, baseMaps, layerTree } from '@/config/layers';
+import { MAP_CONFIG } from '@/config/layers';
 import { cn } from '@/lib/utils';
-import type { LayerGroup } from '@/types/layers';
-import { isLayerGroup } from '@/types/layers';
+import { buildCompareCatalog, compareLayerLabel, createBaseTileLayers, createCompareTileLayer } from '@/lib/compare-layers';
+import { COMPARE_MODE_LABELS, GRID_LAYOUTS } from '@/types/compare';
+import type { CompareLayer, CompareMode, GridLayout } from '@/types/compare';
+import type { LayerInfo } from '@/types/layers';
+import { MapGridCompare } from './MapGridCompare';
 
 // Register UTM Zone 42N projection (EPSG:32642)
 proj4.defs(
@@ -22,55 +21,48 @@ proj4.defs(
 register(proj4);
 
 interface SwipeCompareProps {
+  /** Layers restyled on the main map, drawn with the same styles here */
+  styledLayers: LayerInfo[];
   onClose: () => void;
 }
 
-interface LayerWithPath extends LayerInfo {
-  path: string[];
-}
-
-// Recursively collect all raster layers with their group path
-function collectLayersWithPath(tree: LayerGroup, path: string[] = []): LayerWithPath[] {
-  const layers: LayerWithPath[] = [];
-
-  const traverse = (node: LayerGroup | LayerInfo, currentPath: string[]) => {
-    if (isLayerGroup(node)) {
-      node.children.forEach((child) => traverse(child, [...currentPath, node.name]));
-    } else {
-      if (node.geometryType === 'raster') {
-        layers.push({ ...node, path: currentPath });
-      }
-    }
-  };
-
-  traverse(tree, path);
-  return layers;
-}
-
 interface SwipePosition {
   x: number;
   percentage: number;
 }
 
-export function SwipeCompare({ onClose }: SwipeCompareProps) {
+interface LensPosition {
+  x: number;
+  y: number;
+}
+
+const MODE_INSTRUCTIONS: Record<CompareMode, string> = {
+  vertical: 'Drag the center handle to compare layers. Pan and zoom are synchronized.',
+  horizontal: 'Drag the middle handle to compare layers. Pan and zoom are synchronized.',
+  spyglass: 'Move the mouse to look at the lens layer through the spyglass. Pan and zoom are synchronized.',
+  grid: 'Pick layers for each panel. Pan, zoom and rotation are synchronized; the crosshair follows the cursor.',
+};
+
+export function SwipeCompare({ styledLayers, onClose }: SwipeCompareProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const leftMapRef = useRef<HTMLDivElement>(null);
   const rightMapRef = useRef<HTMLDivElement>(null);
   const leftMapInstance = useRef<OlMap | null>(null);
   const rightMapInstance = useRef<OlMap | null>(null);
+  const [mode, setMode] = useState<CompareMode>('vertical');
+  const [gridLayout, setGridLayout] = useState<GridLayout>('2x2');
   const [isDragging, setIsDragging] = useState(false);
   const [swipePosition, setSwipePosition] = useState<SwipePosition>({ x: 50, percentage: 50 });
-  const [leftLayerId, setLeftLayerId] = useState<string>('');
-  const [rightLayerId, setRightLayerId] = useState<string>('');
+  const [lens, setLens] = useState<LensPosition | null>(null);
+  const [lensRadius, setLensRadius] = useState(150);
   const initializedRef = useRef(false);
 
-  // Collect raster layers with their paths - computed once, stored in ref
-  const rasterLayersRef = useRef<LayerWithPath[]>([]);
+  // Hazard, survey and impact layers with their paths - built once
+  const [catalog] = useState<CompareLayer[]>(() => buildCompareCatalog(styledLayers));
 
-  // Initialize raster layers ref
-  useEffect(() => {
-    rasterLayersRef.current = collectLayersWithPath(layerTree);
-  }, []);
+  // Default to the first two rasters
+  const [leftLayerId, setLeftLayerId] = useState<string>(() => defaultRasterId(catalog, 0));
+  const [rightLayerId, setRightLayerId] = useState<string>(() => defaultRasterId(catalog, 1));
 
   // Initialize maps
   useEffect(() => {
@@ -82,34 +74,10 @@ export function SwipeCompare({ onClose }: SwipeCompareProps) {
       return;
     }
 
-    // Create base layers for left map
-    const leftBaseLayers = baseMaps.map((bm) =>
-      new TileLayer({
-        source: new XYZ({
-          url: bm.url,
-          attributions: bm.id === 'satellite' ? '© Google' : '© OpenStreetMap',
-        }),
-        visible: bm.visible,
-        zIndex: -1,
-      })
-    );
-
-    // Create base layers for right map
-    const rightBaseLayers = baseMaps.map((bm) =>
-      new TileLayer({
-        source: new XYZ({
-          url: bm.url,
-          attributions: bm.id === 'satellite' ? '© Google' : '© OpenStreetMap',
-        }),
-        visible: bm.visible,
-        zIndex: -1,
-      })
-    );
-
     // Create left map
     const leftMap = new OlMap({
       target: leftMapRef.current,
-      layers: leftBaseLayers,
+      layers: createBaseTileLayers(),
       view: new View({ projection }),
       controls: [],
     });
@@ -117,7 +85,7 @@ export function SwipeCompare({ onClose }: SwipeCompareProps) {
     // Create right map
     const rightMap = new OlMap({
       target: rightMapRef.current,
-      layers: rightBaseLayers,
+      layers: createBaseTileLayers(),
       view: new View({ projection }),
       controls: [],
     });
@@ -164,13 +132,6 @@ export function SwipeCompare({ onClose }: SwipeCompareProps) {
     rightMapInstance.current = rightMap;
     initializedRef.current = true;
 
-    // Set default layers after initialization
-    const rasterLayers = rasterLayersRef.current;
-    if (rasterLayers.length >= 2) {
-      setLeftLayerId(rasterLayers[0].id);
-      setRightLayerId(rasterLayers[1].id);
-    }
-
     return () => {
       leftMap.setTarget(undefined);
       rightMap.setTarget(undefined);
@@ -181,80 +142,14 @@ export function SwipeCompare({ onClose }: SwipeCompareProps) {
   // Update left layer when selection changes
   useEffect(() => {
     if (!leftMapInstance.current || !leftLayerId) return;
-
-    const map = leftMapInstance.current;
-    const layerInfo = rasterLayersRef.current.find(l => l.id === leftLayerId);
-    if (!layerInfo) return;
-
-    // Remove existing WMS layers (keep base layers)
-    const layersToRemove: TileLayer<TileWMS>[] = [];
-    map.getLayers().forEach((layer) => {
-      if (layer instanceof TileLayer && layer.get('isWMS')) {
-        layersToRemove.push(layer);
-      }
-    });
-    layersToRemove.forEach(l => map.removeLayer(l));
-
-    // Add new WMS layer
-    const wmsLayer = new TileLayer({
-      source: new TileWMS({
-        url: `${GEOSERVER_CONFIG.baseUrl}/${layerInfo.workspace}/wms`,
-        params: {
-          LAYERS: `${layerInfo.workspace}:${layerInfo.geoserverName}`,
-          TILED: true,
-          VERSION: GEOSERVER_CONFIG.wmsVersion,
-          FORMAT: 'image/png',
-          TRANSPARENT: true,
-        },
-        serverType: 'geoserver',
-        transition: 0,
-      }),
-      opacity: layerInfo.opacity,
-      zIndex: 10,
-      visible: true,
-    });
-    wmsLayer.set('isWMS', true);
-    map.addLayer(wmsLayer);
-  }, [leftLayerId]);
+    replaceCompareLayer(leftMapInstance.current, catalog.find((l) => l.id === leftLayerId));
+  }, [leftLayerId, catalog]);
 
   // Update right layer when selection changes
   useEffect(() => {
     if (!rightMapInstance.current || !rightLayerId) return;
-
-    const map = rightMapInstance.current;
-    const layerInfo = rasterLayersRef.current.find(l => l.id === rightLayerId);
-    if (!layerInfo) return;
-
-    // Remove existing WMS layers (keep base layers)
-    const layersToRemove: TileLayer<TileWMS>[] = [];
-    map.getLayers().forEach((layer) => {
-      if (layer instanceof TileLayer && layer.get('isWMS')) {
-        layersToRemove.push(layer);
-      }
-    });
-    layersToRemove.forEach(l => map.removeLayer(l));
-
-    // Add new WMS layer
-    const wmsLayer = new TileLayer({
-      source: new TileWMS({
-        url: `${GEOSERVER_CONFIG.baseUrl}/${layerInfo.workspace}/wms`,
-        params: {
-          LAYERS: `${layerInfo.workspace}:${layerInfo.geoserverName}`,
-          TILED: true,
-          VERSION: GEOSERVER_CONFIG.wmsVersion,
-          FORMAT: 'image/png',
-          TRANSPARENT: true,
-        },
-        serverType: 'geoserver',
-        transition: 0,
-      }),
-      opacity: layerInfo.opacity,
-      zIndex: 10,
-      visible: true,
-    });
-    wmsLayer.set('isWMS', true);
-    map.addLayer(wmsLayer);
-  }, [rightLayerId]);
+    replaceCompareLayer(rightMapInstance.current, catalog.find((l) => l.id === rightLayerId));
+  }, [rightLayerId, catalog]);
 
   // Handle swipe drag
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -263,12 +158,14 @@ export function SwipeCompare({ onClose }: SwipeCompareProps) {
   }, []);
 
   useEffect(() => {
+    const horizontal = mode === 'horizontal';
+
     const handleMouseMove = (e: MouseEvent) => {
       if (!isDragging || !containerRef.current) return;
 
       const rect = containerRef.current.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const percentage = (x / rect.width) * 100;
+      const x = horizontal ? e.clientY - rect.top : e.clientX - rect.left;
+      const percentage = (x / (horizontal ? rect.height : rect.width)) * 100;
 
       if (percentage >= 10 && percentage <= 90) {
         setSwipePosition({ x, percentage });
@@ -282,7 +179,7 @@ export function SwipeCompare({ onClose }: SwipeCompareProps) {
     if (isDragging) {
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseup', handleMouseUp);
-      document.body.style.cursor = 'col-resize';
+      document.body.style.cursor = horizontal ? 'row-resize' : 'col-resize';
       document.body.style.userSelect = 'none';
     }
 
@@ -292,9 +189,51 @@ export function SwipeCompare({ onClose }: SwipeCompareProps) {
       document.body.style.cursor = '';
       document.body.style.userSelect = '';
     };
-  }, [isDragging]);
+  }, [isDragging, mode]);
 
-  const rasterLayers = rasterLayersRef.current;
+  // The lens follows the mouse; it stays where the mouse left the map
+  const handleLensMove = (e: React.MouseEvent) => {
+    if (mode !== 'spyglass' || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    setLens({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
+
+  const p = swipePosition.percentage;
+  const clipPaths: Record<Exclude<CompareMode, 'grid'>, { left: string; right: string }> = {
+    vertical: { left: `inset(0 ${100 - p}% 0 0)`, right: `inset(0 0 0 ${p}%)` },
+    horizontal: { left: `inset(0 0 ${100 - p}% 0)`, right: `inset(${p}% 0 0 0)` },
+    spyglass: {
+      left: 'none',
+      right: lens ? `circle(${lensRadius}px at ${lens.x}px ${lens.y}px)` : `circle(${lensRadius}px at 50% 50%)`,
+    },
+  };
+  const clip = mode === 'grid' ? clipPaths.vertical : clipPaths[mode];
+
+  const layerLabel = (layerId: string) => {
+    const layer = catalog.find((l) => l.id === layerId);
+    return layer ? compareLayerLabel(layer) : 'No layer';
+  };
+
+  const layerSelect = (label: string, value: string, onChange: (value: string) => void) => (
+    <div className="flex-1 min-w-0">
+      <label className="block text-xs font-medium text-slate-600 mb-1">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Select layer...</option>
+        {catalog.map((layer) => (
+          <option key={layer.id} value={layer.id}>
+            {compareLayerLabel(layer)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const [firstLabel, secondLabel] =
+    mode === 'horizontal' ? ['Top Layer', 'Bottom Layer'] : mode === 'spyglass' ? ['Base Layer', 'Lens Layer'] : ['Left Layer', 'Right Layer'];
 
   return (
     <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center">
@@ -305,109 +244,190 @@ export function SwipeCompare({ onClose }: SwipeCompareProps) {
             <Layers className="w-5 h-5 text-blue-600" />
             <h2 className="text-lg font-semibold text-slate-800">Swipe Compare</h2>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-slate-100 rounded-full transition-colors"
-          >
-            <ChevronRight className="w-5 h-5 text-slate-600" />
-          </button>
-        </div>
-
-        {/* Layer selectors */}
-        <div className="flex items-center gap-4 px-4 py-3 bg-slate-50 border-b border-slate-200">
-          <div className="flex-1">
-            <label className="block text-xs font-medium text-slate-600 mb-1">Left Layer</label>
-            <select
-              value={leftLayerId}
-              onChange={(e) => setLeftLayerId(e.target.value)}
-              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="">Select layer...</option>
-              {rasterLayers.map((layer) => (
-                <option key={layer.id} value={layer.id}>
-                  {layer.path.length > 0 ? `${layer.path.join(' › ')} › ` : ''}{layer.name}
-                </option>
+          <div className="flex items-center gap-3">
+            <div className="flex rounded-md border border-slate-300 overflow-hidden text-sm">
+              {(Object.keys(COMPARE_MODE_LABELS) as CompareMode[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={cn(
+                    'px-3 py-1.5 border-l border-slate-300 first:border-l-0 transition-colors',
+                    mode === m ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-600 hover:bg-slate-50'
+                  )}
+                >
+                  {COMPARE_MODE_LABELS[m]}
+                </button>
               ))}
-            </select>
-          </div>
-          <div className="flex items-center justify-center">
-            <div className="bg-blue-100 rounded-full p-2">
-              <ChevronLeft className="w-4 h-4 text-blue-600" />
-              <ChevronRight className="w-4 h-4 text-blue-600 -ml-3" />
             </div>
-          </div>
-          <div className="flex-1">
-            <label className="block text-xs font-medium text-slate-600 mb-1">Right Layer</label>
-            <select
-              value={rightLayerId}
-              onChange={(e) => setRightLayerId(e.target.value)}
-              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-100 rounded-full transition-colors"
             >
-              <option value="">Select layer...</option>
-              {rasterLayers.map((layer) => (
-                <option key={layer.id} value={layer.id}>
-                  {layer.path.length > 0 ? `${layer.path.join(' › ')} › ` : ''}{layer.name}
-                </option>
-              ))}
-            </select>
+              <ChevronRight className="w-5 h-5 text-slate-600" />
+            </button>
           </div>
         </div>
 
-        {/* Map container with swipe */}
+        {/* Layer selectors, or the grid layout */}
+        {mode === 'grid' ? (
+          <div className="flex items-center gap-2 px-4 py-3 bg-slate-50 border-b border-slate-200 text-sm">
+            <span className="text-xs font-medium text-slate-600">Layout</span>
+            {(Object.keys(GRID_LAYOUTS) as GridLayout[]).map((layout) => (
+              <button
+                key={layout}
+                onClick={() => setGridLayout(layout)}
+                className={cn(
+                  'px-3 py-1 rounded-md border text-xs transition-colors',
+                  gridLayout === layout
+                    ? 'bg-blue-50 border-blue-300 text-blue-700 font-medium'
+                    : 'border-slate-300 text-slate-600 hover:bg-white'
+                )}
+              >
+                {layout.replace('x', ' × ')}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center gap-4 px-4 py-3 bg-slate-50 border-b border-slate-200">
+            {layerSelect(firstLabel, leftLayerId, setLeftLayerId)}
+            <div className="flex items-center justify-center">
+              <div className="bg-blue-100 rounded-full p-2">
+                {mode === 'horizontal' ? (
+                  <>
+                    <ChevronUp className="w-4 h-4 text-blue-600" />
+                    <ChevronDown className="w-4 h-4 text-blue-600 -mt-2" />
+                  </>
+                ) : (
+                  <>
+                    <ChevronLeft className="w-4 h-4 text-blue-600" />
+                    <ChevronRight className="w-4 h-4 text-blue-600 -ml-3" />
+                  </>
+                )}
+              </div>
+            </div>
+            {layerSelect(secondLabel, rightLayerId, setRightLayerId)}
+            {mode === 'spyglass' && (
+              <div className="w-40 shrink-0">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Lens size: {lensRadius * 2}px</label>
+                <input
+                  type="range"
+                  min={50}
+                  max={300}
+                  step={10}
+                  value={lensRadius}
+                  onChange={(e) => setLensRadius(Number(e.target.value))}
+                  className="w-full"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {mode === 'grid' && <MapGridCompare catalog={catalog} layout={gridLayout} />}
+
+        {/* Map container with swipe; kept mounted in grid mode so the selection survives */}
         <div
           ref={containerRef}
-          className="flex-1 relative overflow-hidden"
+          className={cn('flex-1 relative overflow-hidden', mode === 'grid' && 'hidden')}
+          onMouseMove={handleLensMove}
         >
           {/* Left map */}
           <div
             ref={leftMapRef}
             className="absolute inset-0"
-            style={{ clipPath: `inset(0 ${100 - swipePosition.percentage}% 0 0)` }}
+            style={{ clipPath: clip.left }}
           />
 
           {/* Right map */}
           <div
             ref={rightMapRef}
             className="absolute inset-0"
-            style={{ clipPath: `inset(0 0 0 ${swipePosition.percentage}%)` }}
+            style={{ clipPath: clip.right }}
           />
 
+          {/* Spyglass rim */}
+          {mode === 'spyglass' && (
+            <div
+              className="absolute rounded-full border-4 border-white shadow-lg pointer-events-none z-10"
+              style={{
+                width: lensRadius * 2,
+                height: lensRadius * 2,
+                left: lens ? lens.x - lensRadius : `calc(50% - ${lensRadius}px)`,
+                top: lens ? lens.y - lensRadius : `calc(50% - ${lensRadius}px)`,
+              }}
+            />
+          )}
+
           {/* Swipe handle */}
-          <div
-            className={cn(
-              "absolute top-0 bottom-0 w-1 bg-white shadow-lg cursor-col-resize z-10 flex items-center justify-center",
-              isDragging && "bg-blue-500"
-            )}
-            style={{ left: `${swipePosition.percentage}%` }}
-            onMouseDown={handleMouseDown}
-          >
-            <div className="bg-white rounded-full shadow-md p-1 -ml-3">
-              <div className="w-6 h-6 rounded-full bg-blue-500 flex items-center justify-center">
-                <div className="w-1 h-4 bg-white rounded-full" />
+          {mode === 'vertical' && (
+            <div
+              className={cn(
+                "absolute top-0 bottom-0 w-1 bg-white shadow-lg cursor-col-resize z-10 flex items-center justify-center",
+                isDragging && "bg-blue-500"
+              )}
+              style={{ left: `${p}%` }}
+              onMouseDown={handleMouseDown}
+            >
+              <div className="bg-white rounded-full shadow-md p-1 -ml-3">
+                <div className="w-6 h-6 rounded-full bg-blue-500 flex items-center justify-center">
+                  <div className="w-1 h-4 bg-white rounded-full" />
+                </div>
               </div>
             </div>
-          </div>
+          )}
+          {mode === 'horizontal' && (
+            <div
+              className={cn(
+                "absolute left-0 right-0 h-1 bg-white shadow-lg cursor-row-resize z-10 flex items-center justify-center",
+                isDragging && "bg-blue-500"
+              )}
+              style={{ top: `${p}%` }}
+              onMouseDown={handleMouseDown}
+            >
+              <div className="bg-white rounded-full shadow-md p-1 -mt-3">
+                <div className="w-6 h-6 rounded-full bg-blue-500 flex items-center justify-center">
+                  <div className="w-4 h-1 bg-white rounded-full" />
+                </div>
+              </div>
+            </div>
+          )}
 
           {/* Labels */}
           <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg shadow px-3 py-1.5 text-sm font-medium text-slate-700 z-10">
-            {leftLayerId ? (() => {
-              const layer = rasterLayers.find(l => l.id === leftLayerId);
-              return layer ? `${layer.path.length > 0 ? layer.path.join(' › ') + ' › ' : ''}${layer.name}` : 'No layer';
-            })() : 'No layer'}
+            {leftLayerId ? layerLabel(leftLayerId) : 'No layer'}
           </div>
-          <div className="absolute top-4 right-4 bg-white/90 backdrop-blur-sm rounded-lg shadow px-3 py-1.5 text-sm font-medium text-slate-700 z-10">
-            {rightLayerId ? (() => {
-              const layer = rasterLayers.find(l => l.id === rightLayerId);
-              return layer ? `${layer.path.length > 0 ? layer.path.join(' › ') + ' › ' : ''}${layer.name}` : 'No layer';
-            })() : 'No layer'}
+          <div
+            className={cn(
+              "absolute bg-white/90 backdrop-blur-sm rounded-lg shadow px-3 py-1.5 text-sm font-medium text-slate-700 z-10",
+              mode === 'horizontal' ? 'bottom-4 left-4' : 'top-4 right-4'
+            )}
+          >
+            {mode === 'spyglass' && <span className="text-slate-500">Lens: </span>}
+            {rightLayerId ? layerLabel(rightLayerId) : 'No layer'}
           </div>
         </div>
 
         {/* Footer with instructions */}
         <div className="px-4 py-2 bg-slate-50 border-t border-slate-200 text-xs text-slate-600 text-center">
-          Drag the center handle to compare layers. Pan and zoom are synchronized.
+          {MODE_INSTRUCTIONS[mode]}
         </div>
       </div>
     </div>
   );
 }
+
+function defaultRasterId(catalog: CompareLayer[], index: number): string {
+  return catalog.filter((l) => l.geometryType === 'raster')[index]?.id ?? '';
+}
+
+// Replace a swipe map's compare layer (keep base layers)
+function replaceCompareLayer(map: OlMap, layerInfo: CompareLayer | undefined) {
+  if (!layerInfo) return;
+
+  const layersToRemove = map.getLayers().getArray().filter((layer) => layer.get('isWMS'));
+  layersToRemove.forEach((l) => map.removeLayer(l));
+
+  const layer = createCompareTileLayer(layerInfo);
+  layer.set('isWMS', true);
+  map.addLayer(layer);
+}
@@ -0,0 +1,262 @@
+/**
+ * Add User Layer Dialog
+ *
+ * Adds layers to "My layers": drag-and-drop vector files, WMS and WFS
+ * layers picked from the service's GetCapabilities, or an XYZ tile URL
+ * template.
+ */
+
+import { useRef, useState } from 'react';
+import { Globe, Grid2X2, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import { createUserLayerId, fetchWfsLayers, fetchWmsLayers, isXyzTemplate, readVectorFile } from '@/lib/user-layers';
+import { DEFAULT_USER_LAYER_STYLE, USER_LAYER_FILE_TYPES } from '@/types/user-layers';
+import type { CapabilitiesLayer, UserLayer } from '@/types/user-layers';
+
+export interface AddUserLayerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (layers: UserLayer[]) => void;
+}
+
+type ServiceKind = 'wms' | 'wfs';
+
+function newLayer(fields: Pick<UserLayer, 'name' | 'kind'> & Partial<UserLayer>): UserLayer {
+  return {
+    id: createUserLayerId(),
+    visible: true,
+    opacity: fields.kind === 'file' || fields.kind === 'wfs' ? 1 : 0.8,
+    style: DEFAULT_USER_LAYER_STYLE,
+    ...fields,
+  };
+}
+
+function FileTab({ onAdd }: { onAdd: (layers: UserLayer[], keepOpen?: boolean) => void }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setLoading(true);
+    const added: UserLayer[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const parsed = await readVectorFile(file);
+        added.push(...parsed.map((p) => newLayer({ name: p.name, kind: 'file', geojson: p.geojson, featureCount: p.featureCount })));
+      } catch (err) {
+        failed.push(`${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+      }
+    }
+    setLoading(false);
+    setErrors(failed);
+    // Stay open to show which files failed
+    if (added.length > 0) onAdd(added, failed.length > 0);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragOver(false);
+          handleFiles(Array.from(e.dataTransfer.files));
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 h-36 rounded-md border-2 border-dashed cursor-pointer text-sm transition-colors',
+          dragOver ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-slate-300 text-slate-500 hover:bg-slate-50'
+        )}
+      >
+        {loading ? <Loader2 className="w-6 h-6 animate-spin" /> : <Upload className="w-6 h-6" />}
+        <span>{loading ? 'Reading…' : 'Drop files here or click to browse'}</span>
+        <span className="text-xs text-slate-400">GeoJSON, zipped Shapefile, KML/KMZ, GeoPackage</span>
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={USER_LAYER_FILE_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+      <p className="text-xs text-slate-500">
+        Data is reprojected to UTM 42N. Files without a coordinate system are read as WGS 84 when the
+        coordinates are degrees.
+      </p>
+      {errors.map((error) => (
+        <p key={error} className="text-xs text-red-600">{error}</p>
+      ))}
+    </div>
+  );
+}
+
+function ServiceTab({ kind, onAdd }: { kind: ServiceKind; onAdd: (layers: UserLayer[]) => void }) {
+  const [url, setUrl] = useState('');
+  const [available, setAvailable] = useState<CapabilitiesLayer[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCapabilities = async () => {
+    setLoading(true);
+    setError(null);
+    setAvailable(null);
+    setSelected([]);
+    try {
+      setAvailable(kind === 'wms' ? await fetchWmsLayers(url) : await fetchWfsLayers(url));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read capabilities');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const add = () => {
+    const layers = (available ?? [])
+      .filter((l) => selected.includes(l.name))
+      .map((l) => newLayer({ name: l.title, kind, url: url.trim(), layerName: l.name, projection: l.projection }));
+    onAdd(layers);
+    setSelected([]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="space-y-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (url.trim()) loadCapabilities();
+        }}
+      >
+        <Label htmlFor={`${kind}-url`} className="text-xs">{kind.toUpperCase()} endpoint</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`${kind}-url`}
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.org/geoserver/ows"
+            className="h-8 text-sm"
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={!url.trim() || loading}>
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Connect'}
+          </Button>
+        </div>
+      </form>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {available && (
+        <>
+          <div className="max-h-56 overflow-y-auto rounded-md border border-slate-200 divide-y divide-slate-100 text-sm">
+            {available.map((layer) => (
+              <label key={layer.name} className="flex items-start gap-2 px-2 py-1.5 hover:bg-slate-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(layer.name)}
+                  onChange={(e) =>
+                    setSelected((prev) => (e.target.checked ? [...prev, layer.name] : prev.filter((n) => n !== layer.name)))
+                  }
+                  className="mt-1"
+                />
+                <span className="min-w-0">
+                  <span className="block text-slate-800 truncate">{layer.title}</span>
+                  <span className="block text-[11px] text-slate-500 truncate">{layer.name}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <Button size="sm" className="w-full" disabled={selected.length === 0} onClick={add}>
+            Add {selected.length || ''} layer{selected.length === 1 ? '' : 's'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function XyzTab({ onAdd }: { onAdd: (layers: UserLayer[]) => void }) {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const valid = isXyzTemplate(url);
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!valid) return;
+        onAdd([newLayer({ name: name.trim() || 'XYZ tiles', kind: 'xyz', url: url.trim() })]);
+        setName('');
+        setUrl('');
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor="xyz-name" className="text-xs">Name</Label>
+        <Input id="xyz-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="XYZ tiles" className="h-8 text-sm" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="xyz-url" className="text-xs">URL template</Label>
+        <Input
+          id="xyz-url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://tile.example.org/{z}/{x}/{y}.png"
+          className="h-8 text-sm font-mono"
+        />
+        {url && !valid && <p className="text-xs text-red-600">The template needs {'{z}'}, {'{x}'} and {'{y}'}</p>}
+      </div>
+      <Button type="submit" size="sm" className="w-full" disabled={!valid}>
+        Add layer
+      </Button>
+    </form>
+  );
+}
+
+export function AddUserLayerDialog({ open, onOpenChange, onAdd }: AddUserLayerDialogProps) {
+  const handleAdd = (layers: UserLayer[], keepOpen = false) => {
+    if (layers.length === 0) return;
+    onAdd(layers);
+    if (!keepOpen) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add layer</DialogTitle>
+          <DialogDescription>Add your own data or an external map service to "My layers".</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="file">
+          <TabsList className="grid grid-cols-4 w-full">
+            <TabsTrigger value="file" className="text-xs"><Upload className="w-3.5 h-3.5 mr-1" />File</TabsTrigger>
+            <TabsTrigger value="wms" className="text-xs"><Globe className="w-3.5 h-3.5 mr-1" />WMS</TabsTrigger>
+            <TabsTrigger value="wfs" className="text-xs"><Globe className="w-3.5 h-3.5 mr-1" />WFS</TabsTrigger>
+            <TabsTrigger value="xyz" className="text-xs"><Grid2X2 className="w-3.5 h-3.5 mr-1" />XYZ</TabsTrigger>
+          </TabsList>
+          <TabsContent value="file" className="mt-3"><FileTab onAdd={handleAdd} /></TabsContent>
+          <TabsContent value="wms" className="mt-3"><ServiceTab kind="wms" onAdd={handleAdd} /></TabsContent>
+          <TabsContent value="wfs" className="mt-3"><ServiceTab kind="wfs" onAdd={handleAdd} /></TabsContent>
+          <TabsContent value="xyz" className="mt-3"><XyzTab onAdd={handleAdd} /></TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default AddUserLayerDialog;
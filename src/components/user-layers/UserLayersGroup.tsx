@@ -0,0 +1,185 @@
+/**
+ * User Layers Group
+ *
+ * "My layers" group at the bottom of the layer tree: the user's own files
+ * and external services, with visibility, opacity, styling and removal.
+ */
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Eye, EyeOff, FileText, Globe, Grid2X2, Palette, Plus, Trash2, User } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { USER_LAYER_KIND_LABELS } from '@/types/user-layers';
+import type { UserLayer, UserLayerKind, UserLayerStyle } from '@/types/user-layers';
+import { AddUserLayerDialog } from './AddUserLayerDialog';
+
+const KIND_ICONS: Record<UserLayerKind, LucideIcon> = {
+  wms: Globe,
+  wfs: Globe,
+  xyz: Grid2X2,
+  file: FileText,
+};
+
+export interface UserLayersGroupProps {
+  layers: UserLayer[];
+  onChange: (layers: UserLayer[]) => void;
+  /** Local storage is full; changes last for this session only */
+  storageFull?: boolean;
+}
+
+function StyleEditor({ style, onChange }: { style: UserLayerStyle; onChange: (style: UserLayerStyle) => void }) {
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-600">Stroke</span>
+        <input
+          type="color"
+          value={style.strokeColor}
+          onChange={(e) => onChange({ ...style, strokeColor: e.target.value })}
+          className="w-8 h-6 cursor-pointer"
+          aria-label="Stroke colour"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-slate-600">Fill</span>
+        <input
+          type="color"
+          value={style.fillColor}
+          onChange={(e) => onChange({ ...style, fillColor: e.target.value })}
+          className="w-8 h-6 cursor-pointer"
+          aria-label="Fill colour"
+        />
+      </div>
+      <div className="space-y-1">
+        <span className="text-slate-600">Line width: {style.strokeWidth}px</span>
+        <Slider value={[style.strokeWidth]} onValueChange={([v]) => onChange({ ...style, strokeWidth: v })} min={0.5} max={8} step={0.5} />
+      </div>
+      <div className="space-y-1">
+        <span className="text-slate-600">Point size: {style.pointRadius}px</span>
+        <Slider value={[style.pointRadius]} onValueChange={([v]) => onChange({ ...style, pointRadius: v })} min={2} max={15} step={1} />
+      </div>
+    </div>
+  );
+}
+
+export function UserLayersGroup({ layers, onChange, storageFull }: UserLayersGroupProps) {
+  const [expanded, setExpanded] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const update = (id: string, changes: Partial<UserLayer>) => {
+    onChange(layers.map((l) => (l.id === id ? { ...l, ...changes } : l)));
+  };
+
+  return (
+    <div className="select-none">
+      <div
+        className="flex items-center gap-1 py-2 px-2 hover:bg-slate-100/50 transition-colors cursor-pointer min-h-[44px]"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <button className="w-8 h-8 flex items-center justify-center rounded hover:bg-slate-200/50 transition-colors">
+          {expanded ? <ChevronDown className="w-4 h-4 text-slate-500" /> : <ChevronRight className="w-4 h-4 text-slate-500" />}
+        </button>
+        <User className="w-4 h-4 text-violet-500 ml-1" />
+        <span className="ml-2 text-sm font-medium text-slate-800 flex-1">My layers</span>
+        <span className="text-xs text-slate-400">{layers.length || ''}</span>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setDialogOpen(true);
+          }}
+          className="w-8 h-8 flex items-center justify-center rounded text-slate-500 hover:text-blue-600 hover:bg-blue-100/50 transition-colors"
+          title="Add layer"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div>
+          {layers.length === 0 && (
+            <button
+              onClick={() => setDialogOpen(true)}
+              className="w-full text-left pl-12 pr-3 py-2 text-xs text-slate-500 italic hover:text-blue-600"
+            >
+              Add a file, WMS, WFS or XYZ layer…
+            </button>
+          )}
+          {storageFull && (
+            <p className="pl-12 pr-3 py-1 text-[11px] text-amber-700">
+              Browser storage is full: these layers will be lost when the page is closed. Remove large files to keep them.
+            </p>
+          )}
+          {layers.map((layer) => {
+            const Icon = KIND_ICONS[layer.kind];
+            const isVector = layer.kind === 'file' || layer.kind === 'wfs';
+            return (
+              <div key={layer.id} className="group">
+                <div className="flex items-center gap-1 py-1 pr-2 pl-5 hover:bg-slate-100/50 min-h-[40px]">
+                  <button
+                    onClick={() => update(layer.id, { visible: !layer.visible })}
+                    className={cn(
+                      'w-9 h-9 flex items-center justify-center rounded transition-colors',
+                      layer.visible ? 'text-blue-600 hover:bg-blue-100/50' : 'text-slate-400 hover:bg-slate-200/50'
+                    )}
+                  >
+                    {layer.visible ? <Eye className="w-5 h-5" /> : <EyeOff className="w-5 h-5" />}
+                  </button>
+                  <Icon className="w-4 h-4 text-violet-500 shrink-0" />
+                  <span
+                    className={cn('ml-2 text-sm truncate flex-1', layer.visible ? 'text-slate-800' : 'text-slate-500')}
+                    title={`${layer.name} (${USER_LAYER_KIND_LABELS[layer.kind]}${layer.featureCount ? `, ${layer.featureCount} features` : ''})`}
+                  >
+                    {layer.name}
+                  </span>
+                  {isVector && (
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <button className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-blue-600 hover:bg-blue-100/50" title="Style">
+                          <Palette className="w-4 h-4" />
+                        </button>
+                      </PopoverTrigger>
+                      <PopoverContent align="end" className="w-56 p-3">
+                        <StyleEditor style={layer.style} onChange={(style) => update(layer.id, { style })} />
+                      </PopoverContent>
+                    </Popover>
+                  )}
+                  <button
+                    onClick={() => onChange(layers.filter((l) => l.id !== layer.id))}
+                    className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    title="Remove layer"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {layer.visible && (
+                  <div className="flex items-center gap-2 pl-[68px] pr-4 pb-2">
+                    <span className="text-xs text-slate-500">Opacity</span>
+                    <Slider
+                      value={[layer.opacity * 100]}
+                      onValueChange={([v]) => update(layer.id, { opacity: v / 100 })}
+                      min={0}
+                      max={100}
+                      step={5}
+                      className="flex-1 h-2"
+                    />
+                    <span className="text-xs text-slate-500 w-10 text-right">{Math.round(layer.opacity * 100)}%</span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AddUserLayerDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onAdd={(added) => onChange([...layers, ...added])}
+      />
+    </div>
+  );
+}
+
+export default UserLayersGroup;
@@ -0,0 +1,34 @@
+/**
+ * Hook holding the user's "My layers" list
+ *
+ * Loads the layers from local storage and stores changes shortly after
+ * they stop (opacity and style sliders change them continuously). When
+ * storage is full the layers are kept for the session and storageFull is
+ * set so the panel can say so.
+ */
+
+import { useEffect, useState } from 'react';
+import { loadUserLayers, saveUserLayers } from '@/lib/user-layers';
+import type { UserLayer } from '@/types/user-layers';
+
+const SAVE_DELAY_MS = 400;
+
+export interface UseUserLayersResult {
+  layers: UserLayer[];
+  setLayers: (layers: UserLayer[]) => void;
+  storageFull: boolean;
+}
+
+export function useUserLayers(): UseUserLayersResult {
+  const [layers, setLayers] = useState<UserLayer[]>(loadUserLayers);
+  const [storageFull, setStorageFull] = useState(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setStorageFull(!saveUserLayers(layers)), SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [layers]);
+
+  return { layers, setLayers, storageFull };
+}
+
+export default useUserLayers;
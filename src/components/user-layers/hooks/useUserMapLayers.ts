@@ -0,0 +1,73 @@
+/**
+ * Hook drawing "My layers" on the map
+ *
+ * Keeps one OpenLayers layer per user layer, stacked above the project
+ * layers in list order. Visibility, opacity and style are updated in
+ * place; a layer is rebuilt only when its source changes.
+ */
+
+import { useEffect, useRef } from 'react';
+import type Map from 'ol/Map';
+import type BaseLayer from 'ol/layer/Base';
+import VectorLayer from 'ol/layer/Vector';
+import { createUserLayerStyle, createUserOlLayer } from '@/lib/user-layers';
+import type { UserLayer } from '@/types/user-layers';
+
+/** Above the project layers (points at 150), below the drawing and tool layers */
+const USER_LAYER_BASE_Z_INDEX = 200;
+
+interface MapEntry {
+  layer: BaseLayer;
+  definition: UserLayer;
+}
+
+function sameSource(a: UserLayer, b: UserLayer): boolean {
+  return a.kind === b.kind && a.url === b.url && a.layerName === b.layerName && a.projection === b.projection && a.geojson === b.geojson;
+}
+
+export function useUserMapLayers(map: Map | null, layers: UserLayer[]): void {
+  const entriesRef = useRef(new globalThis.Map<string, MapEntry>());
+
+  useEffect(() => {
+    if (!map) return;
+    const entries = entriesRef.current;
+
+    for (const [id, entry] of entries) {
+      const definition = layers.find((l) => l.id === id);
+      if (!definition || !sameSource(definition, entry.definition)) {
+        map.removeLayer(entry.layer);
+        entries.delete(id);
+      }
+    }
+
+    layers.forEach((definition, index) => {
+      const zIndex = USER_LAYER_BASE_Z_INDEX + index;
+      const entry = entries.get(definition.id);
+      if (!entry) {
+        const layer = createUserOlLayer(definition, zIndex);
+        map.addLayer(layer);
+        entries.set(definition.id, { layer, definition });
+        return;
+      }
+      entry.layer.setVisible(definition.visible);
+      entry.layer.setOpacity(definition.opacity);
+      entry.layer.setZIndex(zIndex);
+      if (entry.layer instanceof VectorLayer && definition.style !== entry.definition.style) {
+        entry.layer.setStyle(createUserLayerStyle(definition.style));
+      }
+      entry.definition = definition;
+    });
+  }, [map, layers]);
+
+  // Remove everything when the map goes away
+  useEffect(() => {
+    if (!map) return;
+    const entries = entriesRef.current;
+    return () => {
+      entries.forEach((entry) => map.removeLayer(entry.layer));
+      entries.clear();
+    };
+  }, [map]);
+}
+
+export default useUserMapLayers;
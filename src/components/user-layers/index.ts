@@ -0,0 +1,8 @@
+/**
+ * User Layers Module Barrel Export
+ */
+
+export { UserLayersGroup } from './UserLayersGroup';
+export { AddUserLayerDialog } from './AddUserLayerDialog';
+export { useUserLayers } from './hooks/useUserLayers';
+export { useUserMapLayers } from './hooks/useUserMapLayers';
@@ -0,0 +1,292 @@
+/**
+ * Workspace Menu Component
+ *
+ * Header menu for saving the current app state as a named workspace and
+ * loading, renaming, duplicating, sharing or deleting saved ones.
+ * Workspaces shared by other users can only be opened or duplicated.
+ */
+
+import { useState } from 'react';
+import {
+  Copy,
+  FolderOpen,
+  Pencil,
+  Save,
+  Share2,
+  Trash2,
+  Upload,
+  Users,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { PermalinkState } from '@/types/permalink';
+import type { Workspace } from '@/types/workspaces';
+import { useWorkspaces } from './hooks/useWorkspaces';
+
+type DialogMode = 'save' | 'rename' | 'duplicate' | 'share';
+
+type DialogState = {
+  mode: DialogMode;
+  workspace: Workspace | null;
+  value: string;
+  error: string | null;
+};
+
+const DIALOG_TEXT: Record<DialogMode, { title: string; description: string; label: string; submit: string }> = {
+  save: {
+    title: 'Save Workspace',
+    description: 'Saves the map view, layers, opacities and dashboard selections to your account.',
+    label: 'Name',
+    submit: 'Save',
+  },
+  rename: {
+    title: 'Rename Workspace',
+    description: 'Workspace names are unique within your account.',
+    label: 'Name',
+    submit: 'Rename',
+  },
+  duplicate: {
+    title: 'Duplicate Workspace',
+    description: 'Creates a copy in your account that you can change.',
+    label: 'Name',
+    submit: 'Duplicate',
+  },
+  share: {
+    title: 'Share Workspace',
+    description: 'Users you share with can open and duplicate this workspace but not change it. Leave empty to stop sharing.',
+    label: 'Usernames (comma-separated)',
+    submit: 'Share',
+  },
+};
+
+export interface WorkspaceMenuProps {
+  /** App state to save */
+  currentState: PermalinkState;
+  /** Apply a saved state */
+  onLoad: (state: PermalinkState) => void;
+}
+
+export function WorkspaceMenu({ currentState, onLoad }: WorkspaceMenuProps) {
+  const {
+    workspaces,
+    isLoading,
+    error,
+    createWorkspace,
+    updateWorkspace,
+    duplicateWorkspace,
+    shareWorkspace,
+    deleteWorkspace,
+  } = useWorkspaces(true);
+  const [dialog, setDialog] = useState<DialogState | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const own = workspaces.filter((w) => !w.readOnly);
+  const shared = workspaces.filter((w) => w.readOnly);
+
+  const openDialog = (mode: DialogMode, workspace: Workspace | null = null) => {
+    const value =
+      mode === 'rename' ? workspace?.name ?? ''
+        : mode === 'duplicate' ? `${workspace?.name ?? ''} (copy)`
+          : mode === 'share' ? workspace?.sharedWith.join(', ') ?? ''
+            : '';
+    setDialog({ mode, workspace, value, error: null });
+  };
+
+  const handleSubmit = async () => {
+    if (!dialog) return;
+    const value = dialog.value.trim();
+    if (dialog.mode !== 'share' && !value) {
+      setDialog({ ...dialog, error: 'Please enter a name' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const id = dialog.workspace?.id;
+      if (dialog.mode === 'save') {
+        await createWorkspace(value, currentState);
+      } else if (id !== undefined && dialog.mode === 'rename') {
+        await updateWorkspace(id, { name: value });
+      } else if (id !== undefined && dialog.mode === 'duplicate') {
+        await duplicateWorkspace(id, value);
+      } else if (id !== undefined && dialog.mode === 'share') {
+        await shareWorkspace(id, value.split(',').map((u) => u.trim()).filter(Boolean));
+      }
+      setDialog(null);
+    } catch (err) {
+      setDialog({ ...dialog, error: err instanceof Error ? err.message : 'Request failed' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOverwrite = (workspace: Workspace) => {
+    if (!window.confirm(`Replace workspace "${workspace.name}" with the current view?`)) return;
+    updateWorkspace(workspace.id, { state: currentState }).catch(() => {
+      // Error is surfaced in the menu via the hook
+    });
+  };
+
+  const handleDelete = (workspace: Workspace) => {
+    if (!window.confirm(`Delete workspace "${workspace.name}"?`)) return;
+    deleteWorkspace(workspace.id).catch(() => {
+      // Error is surfaced in the menu via the hook
+    });
+  };
+
+  const text = dialog ? DIALOG_TEXT[dialog.mode] : null;
+
+  return (
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-9 gap-1.5 text-slate-600" title="Saved workspaces">
+            <FolderOpen className="w-4 h-4" />
+            <span className="hidden md:inline">Workspaces</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuItem onSelect={() => openDialog('save')}>
+            <Save />
+            Save current view…
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-slate-500">My Workspaces</DropdownMenuLabel>
+          {own.length === 0 && (
+            <DropdownMenuItem disabled className="text-xs">
+              {isLoading ? 'Loading…' : 'No saved workspaces'}
+            </DropdownMenuItem>
+          )}
+          {own.map((workspace) => (
+            <DropdownMenuSub key={workspace.id}>
+              <DropdownMenuSubTrigger>
+                <span className="truncate flex-1">{workspace.name}</span>
+                {workspace.sharedWith.length > 0 && (
+                  <span title={`Shared with ${workspace.sharedWith.join(', ')}`}>
+                    <Users className="w-3.5 h-3.5 text-blue-600" />
+                  </span>
+                )}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuItem onSelect={() => onLoad(workspace.state)}>
+                  <FolderOpen />
+                  Open
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleOverwrite(workspace)}>
+                  <Upload />
+                  Save current view here
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openDialog('rename', workspace)}>
+                  <Pencil />
+                  Rename…
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openDialog('duplicate', workspace)}>
+                  <Copy />
+                  Duplicate…
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openDialog('share', workspace)}>
+                  <Share2 />
+                  Share…
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem variant="destructive" onSelect={() => handleDelete(workspace)}>
+                  <Trash2 />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ))}
+          {shared.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-slate-500">Shared with Me</DropdownMenuLabel>
+              {shared.map((workspace) => (
+                <DropdownMenuSub key={workspace.id}>
+                  <DropdownMenuSubTrigger>
+                    <span className="truncate flex-1">{workspace.name}</span>
+                    <span className="text-[10px] text-slate-400 truncate max-w-[80px]">
+                      {workspace.ownerDisplayName}
+                    </span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuItem onSelect={() => onLoad(workspace.state)}>
+                      <FolderOpen />
+                      Open
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => openDialog('duplicate', workspace)}>
+                      <Copy />
+                      Duplicate…
+                    </DropdownMenuItem>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              ))}
+            </>
+          )}
+          {error && !dialog && (
+            <>
+              <DropdownMenuSeparator />
+              <p className="px-2 py-1.5 text-xs text-red-600">{error}</p>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        {dialog && text && (
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>{text.title}</DialogTitle>
+              <DialogDescription>{text.description}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-2">
+              <Label htmlFor="workspace-dialog-value">{text.label}</Label>
+              <Input
+                id="workspace-dialog-value"
+                value={dialog.value}
+                onChange={(e) => setDialog({ ...dialog, value: e.target.value, error: null })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSubmit();
+                  }
+                }}
+                maxLength={dialog.mode === 'share' ? undefined : 100}
+                disabled={isSubmitting}
+                autoFocus
+              />
+              {dialog.error && <p className="text-sm text-red-600">{dialog.error}</p>}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={isSubmitting}>
+                {isSubmitting ? 'Saving…' : text.submit}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </>
+  );
+}
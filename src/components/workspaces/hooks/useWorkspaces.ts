@@ -0,0 +1,170 @@
+/**
+ * Hook for the user's saved workspaces
+ *
+ * CRUD against /api/workspaces. The list holds the user's own workspaces
+ * followed by those other users have shared with them (read-only).
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '@/lib/api';
+import type { PermalinkState } from '@/types/permalink';
+import type { Workspace, WorkspaceUpdate } from '@/types/workspaces';
+
+const API_URL = '/api/workspaces';
+
+type WorkspaceResponse = { success: boolean; data: Workspace; error?: string };
+
+interface UseWorkspacesReturn {
+  workspaces: Workspace[];
+  isLoading: boolean;
+  error: string | null;
+  createWorkspace: (name: string, state: PermalinkState) => Promise<Workspace>;
+  updateWorkspace: (id: number, update: WorkspaceUpdate) => Promise<Workspace>;
+  duplicateWorkspace: (id: number, name?: string) => Promise<Workspace>;
+  shareWorkspace: (id: number, usernames: string[]) => Promise<Workspace>;
+  deleteWorkspace: (id: number) => Promise<void>;
+}
+
+/** Own workspaces first, then shared ones, each by name (matches the API order) */
+function sortWorkspaces(list: Workspace[]): Workspace[] {
+  return [...list].sort((a, b) => Number(a.readOnly) - Number(b.readOnly) || a.name.localeCompare(b.name));
+}
+
+/**
+ * @param enabled - Load workspaces only while true (e.g. when authenticated)
+ */
+export function useWorkspaces(enabled: boolean): UseWorkspacesReturn {
+  const [loaded, setLoaded] = useState<Workspace[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let aborted = false;
+
+    apiFetch<{ success: boolean; data: Workspace[]; error?: string }>(API_URL)
+      .then((result) => {
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to fetch workspaces');
+        }
+        if (!aborted) {
+          setLoaded(result.data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        console.error('Error fetching workspaces:', err);
+        if (!aborted) {
+          setLoaded([]);
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      });
+
+    return () => {
+      aborted = true;
+    };
+  }, [enabled]);
+
+  /**
+   * Run a mutation returning a workspace, tracking saving state and
+   * surfacing errors; the returned workspace replaces or joins the list
+   */
+  const mutate = useCallback(async (request: () => Promise<WorkspaceResponse>, label: string): Promise<Workspace> => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await request();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || `Failed to ${label} workspace`);
+      }
+      const workspace = result.data;
+      setLoaded((prev) => sortWorkspaces([...(prev ?? []).filter((w) => w.id !== workspace.id), workspace]));
+      return workspace;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(message);
+      console.error(`Error trying to ${label} workspace:`, err);
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const createWorkspace = useCallback(
+    (name: string, state: PermalinkState) =>
+      mutate(
+        () => apiFetch<WorkspaceResponse>(API_URL, { method: 'POST', body: JSON.stringify({ name, state }) }),
+        'create'
+      ),
+    [mutate]
+  );
+
+  const updateWorkspace = useCallback(
+    (id: number, update: WorkspaceUpdate) =>
+      mutate(
+        () => apiFetch<WorkspaceResponse>(`${API_URL}/${id}`, { method: 'PUT', body: JSON.stringify(update) }),
+        'update'
+      ),
+    [mutate]
+  );
+
+  const duplicateWorkspace = useCallback(
+    (id: number, name?: string) =>
+      mutate(
+        () =>
+          apiFetch<WorkspaceResponse>(`${API_URL}/${id}/duplicate`, {
+            method: 'POST',
+            body: JSON.stringify(name ? { name } : {}),
+          }),
+        'duplicate'
+      ),
+    [mutate]
+  );
+
+  const shareWorkspace = useCallback(
+    (id: number, usernames: string[]) =>
+      mutate(
+        () =>
+          apiFetch<WorkspaceResponse>(`${API_URL}/${id}/shares`, {
+            method: 'PUT',
+            body: JSON.stringify({ usernames }),
+          }),
+        'share'
+      ),
+    [mutate]
+  );
+
+  const deleteWorkspace = useCallback(async (id: number) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await apiFetch<{ success: boolean; error?: string }>(`${API_URL}/${id}`, {
+        method: 'DELETE',
+      });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete workspace');
+      }
+      setLoaded((prev) => (prev ?? []).filter((w) => w.id !== id));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(message);
+      console.error('Error trying to delete workspace:', err);
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  return {
+    workspaces: enabled ? loaded ?? [] : [],
+    isLoading: isSaving || (enabled && loaded === null),
+    error: enabled ? error : null,
+    createWorkspace,
+    updateWorkspace,
+    duplicateWorkspace,
+    shareWorkspace,
+    deleteWorkspace,
+  };
+}
+
+export default useWorkspaces;
@@ -0,0 +1,6 @@
+/**
+ * Workspaces Module Barrel Export
+ */
+
+export { WorkspaceMenu } from './WorkspaceMenu';
+export { useWorkspaces } from './hooks/useWorkspaces';
@@ -0,0 +1,36 @@
+import type { LayerCatalogOverride } from '@/types/layer-catalog';
+import { IMPACT_LAYER_WORKSPACE } from '@/types/impact';
+import { GEOSERVER_CONFIG } from './layers';
+
+// Workspaces whose WMS capabilities make up the layer catalog
+export const CATALOG_WORKSPACES = [
+  GEOSERVER_CONFIG.workspaces.results,
+  GEOSERVER_CONFIG.workspaces.dem,
+  IMPACT_LAYER_WORKSPACE,
+  'interventions',
+];
+
+// Top-level group for server layers no naming convention or override places
+export const WORKSPACE_DEFAULT_GROUPS: Record<string, string> = {
+  [GEOSERVER_CONFIG.workspaces.results]: 'other',
+  [GEOSERVER_CONFIG.workspaces.dem]: 'supporting',
+  [IMPACT_LAYER_WORKSPACE]: 'impacts',
+  interventions: 'interventions',
+};
+
+// Names of the top-level groups the catalog creates when they are not in layerTree
+export const CATALOG_GROUP_LABELS: Record<string, string> = {
+  survey: 'Survey',
+  structures: 'Structures',
+  supporting: 'Supporting Layers',
+  present_climate: 'Present Climate',
+  future_climate: 'Future Climate',
+  flood2022: 'Flood 2022 (Actual Event)',
+  impacts: 'Exposure Impacts',
+  interventions: 'Interventions',
+  other: 'Other Layers',
+};
+
+// Labels and grouping for individual server layers, keyed "workspace:name",
+// e.g. 'results:landuse_2020': { name: 'Land Use 2020', group: 'supporting', geometryType: 'polygon' }
+export const LAYER_CATALOG_OVERRIDES: Record<string, LayerCatalogOverride> = {};
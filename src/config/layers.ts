@@ -1,4 +1,6 @@
 import type { LayerGroup, LayerInfo, GeometryType } from '@/types/layers';
+import { isLayerGroup } from '@/types/layers';
+import type { HazardLayerName } from '@/types/layer-catalog';
 
 // GeoServer configuration
 export const GEOSERVER_CONFIG = {
@@ -18,8 +20,24 @@ export const MAP_CONFIG = {
   extent: [309082.5, 2853827.75, 569587.5, 3306262.25],
 };
 
+// Single-band DEM sampled for ground elevation (cross-section profile). The
+// HDTM layer in the tree is a hillshaded colour relief: its bands are
+// colours, not heights.
+export const ELEVATION_DEM = {
+  workspace: GEOSERVER_CONFIG.workspaces.dem,
+  layerName: 'HDTM_1-9_1m',
+  label: 'HDTM',
+  units: 'm',
+};
+
+// GetLegendGraphic URL for a GeoServer layer, unless the layer defines its own
+export function getLegendUrl(layer: LayerInfo): string {
+  return layer.legendUrl ||
+    `${GEOSERVER_CONFIG.baseUrl}/wms?REQUEST=GetLegendGraphic&VERSION=1.1.1&FORMAT=image/png&LAYER=${layer.workspace}:${layer.geoserverName}&WIDTH=20&HEIGHT=20`;
+}
+
 // Build layer name for GeoServer (matches actual layer naming: lowercase t3, scenario, parameter)
-function buildLayerName(
+export function buildLayerName(
   scenario: string,
   maintenance: string,
   returnPeriod: string,
@@ -29,8 +47,39 @@ function buildLayerName(
   return `t3_${returnPeriod}yrs_${scenario.toLowerCase()}_${maintenance.toLowerCase()}_${parameter.toLowerCase()}`;
 }
 
+// Parse a layer name built by buildLayerName, or a Flood 2022 event layer name
+export function parseLayerName(geoserverName: string): HazardLayerName | null {
+  const scenario = geoserverName.match(/^t3_(\d+(?:\.\d+)?)yrs_(present|future)_(breaches|redcapacity|perfect)_([a-z0-9]+)$/);
+  if (scenario) {
+    return {
+      kind: 'scenario',
+      returnPeriod: scenario[1],
+      climate: scenario[2] as 'present' | 'future',
+      maintenance: scenario[3] as 'breaches' | 'redcapacity' | 'perfect',
+      parameter: scenario[4],
+    };
+  }
+  const event = geoserverName.match(/^t3_flood2022_([a-z0-9]+)$/);
+  return event ? { kind: 'flood2022', parameter: event[1] } : null;
+}
+
+// Hazard parameter labels used for the parameter groups
+export const PARAMETER_LABELS: Record<string, string> = {
+  maxdepth: 'Depth',
+  maxvelocity: 'Velocity',
+  duration: 'Duration',
+  vh: 'V × h',
+};
+
+// Maintenance group labels under each climate group
+export const MAINTENANCE_GROUP_LABELS: Record<string, string> = {
+  breaches: 'Maintenance - Breaches',
+  redcapacity: 'Maintenance - Reduced Capacity',
+  perfect: 'Maintenance - Perfect',
+};
+
 // Create raster layer info
-function createRasterLayer(
+export function createRasterLayer(
   name: string,
   geoserverName: string,
   visible: boolean = false,
@@ -52,7 +101,7 @@ function createRasterLayer(
 }
 
 // Create vector layer info
-function createVectorLayer(
+export function createVectorLayer(
   name: string,
   geoserverName: string,
   visible: boolean = false,
@@ -81,16 +130,9 @@ function generateFloodScenarioLayers(
   const parameters = ['maxdepth', 'maxvelocity', 'duration', 'vh'];
   const returnPeriods = ['2.3', '5', '10', '25', '50', '100', '500'];
 
-  const paramLabels: Record<string, string> = {
-    maxdepth: 'Depth',
-    maxvelocity: 'Velocity',
-    duration: 'Duration',
-    vh: 'V × h',
-  };
-
   return parameters.map((param) => ({
     id: `${scenario}_${maintenance}_${param}`,
-    name: paramLabels[param],
+    name: PARAMETER_LABELS[param],
     expanded: false,
     visible: false,
     children: returnPeriods.map((rp) =>
@@ -104,7 +146,16 @@ function generateFloodScenarioLayers(
   }));
 }
 
-// Main layer tree structure matching QGIS project
+// Check if a group is a parameter group from generateFloodScenarioLayers (one layer per return period)
+export function isReturnPeriodGroup(group: LayerGroup): boolean {
+  return group.children.length > 1 && group.children.every(
+    (child) => !isLayerGroup(child) && parseLayerName(child.geoserverName ?? '')?.kind === 'scenario'
+  );
+}
+
+// Main layer tree structure matching QGIS project. Used until the layer
+// catalog has read the server capabilities, and as the configured layers
+// the catalog is checked against.
 export const layerTree: LayerGroup = {
   id: 'root',
   name: 'Hazard',
@@ -157,21 +208,21 @@ export const layerTree: LayerGroup = {
       children: [
         {
           id: 'present_breaches',
-          name: 'Maintenance - Breaches',
+          name: MAINTENANCE_GROUP_LABELS.breaches,
           expanded: false,
           visible: false,
           children: generateFloodScenarioLayers('Present', 'Breaches'),
         },
         {
           id: 'present_redcapacity',
-          name: 'Maintenance - Reduced Capacity',
+          name: MAINTENANCE_GROUP_LABELS.redcapacity,
           expanded: false,
           visible: false,
           children: generateFloodScenarioLayers('Present', 'RedCapacity'),
         },
         {
           id: 'present_perfect',
-          name: 'Maintenance - Perfect',
+          name: MAINTENANCE_GROUP_LABELS.perfect,
           expanded: false,
           visible: false,
           children: generateFloodScenarioLayers('Present', 'Perfect'),
@@ -188,21 +239,21 @@ export const layerTree: LayerGroup = {
       children: [
         {
           id: 'future_breaches',
-          name: 'Maintenance - Breaches',
+          name: MAINTENANCE_GROUP_LABELS.breaches,
           expanded: false,
           visible: false,
           children: generateFloodScenarioLayers('Future', 'Breaches'),
         },
         {
           id: 'future_redcapacity',
-          name: 'Maintenance - Reduced Capacity',
+          name: MAINTENANCE_GROUP_LABELS.redcapacity,
           expanded: false,
           visible: false,
           children: generateFloodScenarioLayers('Future', 'RedCapacity'),
         },
         {
           id: 'future_perfect',
-          name: 'Maintenance - Perfect',
+          name: MAINTENANCE_GROUP_LABELS.perfect,
           expanded: false,
           visible: false,
           children: generateFloodScenarioLayers('Future', 'Perfect'),
@@ -235,24 +286,28 @@ export const baseMaps = [
     id: 'esri-dark',
     name: 'Esri Gray (Dark)',
     url: 'https://services.arcgisonline.com/ArcGIS/rest/services/Canvas/World_Dark_Gray_Base/MapServer/tile/{z}/{y}/{x}',
+    attribution: '© Esri',
     visible: false,
   },
   {
     id: 'satellite',
     name: 'Google Satellite',
     url: 'https://mt1.google.com/vt/lyrs=s&x={x}&y={y}&z={z}',
+    attribution: '© Google',
     visible: true,
   },
   {
     id: 'osm',
     name: 'OpenStreetMap',
     url: 'https://{a-c}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenStreetMap contributors',
     visible: false,
   },
   {
     id: 'terrain',
     name: 'Terrain',
     url: 'https://{a-c}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenTopoMap (CC-BY-SA)',
     visible: false,
   },
 ];
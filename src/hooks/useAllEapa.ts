@@ -6,6 +6,11 @@
 
 import { useState, useEffect } from 'react';
 import type { EapaResult } from '@/types/risk';
+import { calculateExpectedAnnualPopulationAffected } from '@/lib/hotspot';
+import {
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
 
 interface AllEapaResult {
   data: EapaResult[] | null;
@@ -21,9 +26,12 @@ const MAINTENANCE_LEVELS: ('breaches' | 'perfect' | 'redcapacity')[] = ['breache
  *
  * Fetches 6 scenarios (2 climates × 3 maintenance levels) for comparison.
  *
+ * @param integration - EAD integration method and tail handling
  * @returns Array of 6 EapaResult objects
  */
-export function useAllEapa(): AllEapaResult {
+export function useAllEapa(
+  integration: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION
+): AllEapaResult {
   const [data, setData] = useState<EapaResult[] | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -64,14 +72,7 @@ export function useAllEapa(): AllEapaResult {
               population: s.totalAffectedPopulation,
             }));
 
-            // Calculate EAPA using trapezoidal integration
-            let eapa = 0;
-            for (let i = 0; i < populationByRP.length - 1; i++) {
-              const freqLeft = 1 / populationByRP[i].returnPeriod;
-              const freqRight = 1 / populationByRP[i + 1].returnPeriod;
-              eapa += 0.5 * (populationByRP[i].population + populationByRP[i + 1].population)
-                    * Math.abs(freqLeft - freqRight);
-            }
+            const eapa = calculateExpectedAnnualPopulationAffected(populationByRP, integration);
 
             results.push({
               climate,
@@ -93,7 +94,7 @@ export function useAllEapa(): AllEapaResult {
     }
 
     fetchAll();
-  }, []);
+  }, [integration]);
 
   return { data, loading, error };
 }
@@ -1,12 +1,16 @@
 /**
  * React hook for computing Expected Annual Population Affected (EAPA)
  *
- * Fetches population risk data across all 7 return periods and applies
- * trapezoidal integration to compute the annualized expected value.
+ * Fetches population risk data across all 7 return periods and integrates
+ * over AEP to compute the annualized expected value.
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { calculateExpectedAnnualPopulationAffected } from '@/lib/hotspot';
+import {
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
 import type { DistrictName, EapaResult } from '@/types/risk';
 
 const API_BASE = '/api/population-risk';
@@ -26,11 +30,13 @@ interface UseEapaResult {
  *
  * @param climate - 'present' or 'future'
  * @param maintenance - 'breaches', 'perfect', or 'redcapacity'
+ * @param integration - EAD integration method and tail handling
  * @returns EAPA for total region and per-district breakdown
  */
 export function useEapa(
   climate: 'present' | 'future',
-  maintenance: 'breaches' | 'perfect' | 'redcapacity'
+  maintenance: 'breaches' | 'perfect' | 'redcapacity',
+  integration: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION
 ): UseEapaResult {
   const [data, setData] = useState<EapaResult | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
@@ -73,7 +79,7 @@ export function useEapa(
       }));
 
       // Compute EAPA for total region
-      const totalEapa = calculateExpectedAnnualPopulationAffected(totalPopulationByRP);
+      const totalEapa = calculateExpectedAnnualPopulationAffected(totalPopulationByRP, integration);
 
       // Extract district-level population by return period
       const districts: DistrictName[] = [
@@ -92,7 +98,7 @@ export function useEapa(
           };
         });
 
-        districtEapa[district] = calculateExpectedAnnualPopulationAffected(districtPopulationByRP);
+        districtEapa[district] = calculateExpectedAnnualPopulationAffected(districtPopulationByRP, integration);
       }
 
       setData({
@@ -109,7 +115,7 @@ export function useEapa(
     } finally {
       setLoading(false);
     }
-  }, [climate, maintenance]);
+  }, [climate, maintenance, integration]);
 
   useEffect(() => {
     fetchAndCompute();
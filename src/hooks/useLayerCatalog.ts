@@ -0,0 +1,32 @@
+/**
+ * useLayerCatalog — the layer tree built from the GeoServer capabilities.
+ *
+ * Starts with the configured layerTree and swaps in the catalog once the
+ * capabilities have been read. When no workspace answers, the configured
+ * tree stays in place.
+ */
+
+import { useEffect, useState } from 'react';
+import { layerTree } from '@/config/layers';
+import { loadLayerCatalog } from '@/lib/layer-catalog';
+import type { LayerCatalog } from '@/types/layer-catalog';
+
+export function useLayerCatalog(): LayerCatalog {
+  const [catalog, setCatalog] = useState<LayerCatalog>({ tree: layerTree, source: 'static', report: null });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLayerCatalog()
+      .then((loaded) => {
+        if (!cancelled) setCatalog(loaded);
+      })
+      .catch((err) => {
+        console.warn('Layer catalog unavailable, using the configured layer tree:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return catalog;
+}
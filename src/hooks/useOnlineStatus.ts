@@ -0,0 +1,21 @@
+/**
+ * useOnlineStatus — whether the browser reports a network connection.
+ *
+ * Follows the online/offline events; a true value means a network is
+ * available, not that the servers can be reached.
+ */
+
+import { useSyncExternalStore } from 'react';
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+}
+
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
+}
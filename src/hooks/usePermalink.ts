@@ -0,0 +1,71 @@
+/**
+ * React hook that keeps the URL hash in sync with app state
+ */
+
+import { useEffect, useRef } from 'react';
+import type { PermalinkState } from '@/types/permalink';
+import { isPermalinkNavigation, parsePermalink, serializePermalink } from '@/lib/permalink';
+
+/**
+ * State encoded in the URL the page was opened with
+ */
+export function readPermalink(): PermalinkState {
+  return parsePermalink(window.location.hash);
+}
+
+/**
+ * Write `state` to the URL hash whenever it changes and call `onRestore`
+ * when the user navigates back or forward (or edits the hash by hand).
+ *
+ * Selection changes push a history entry; map moves and opacity changes
+ * replace the current one so panning doesn't flood the back button.
+ *
+ * @param state - Current app state
+ * @param onRestore - Applies state parsed from the URL
+ */
+export function usePermalink(state: PermalinkState, onRestore: (state: PermalinkState) => void) {
+  const hash = serializePermalink(state);
+  const lastHashRef = useRef<string | null>(null);
+  // A restored link may be filled out with defaults; that isn't a new step
+  const replaceNextRef = useRef(true);
+  const onRestoreRef = useRef(onRestore);
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  }, [onRestore]);
+
+  useEffect(() => {
+    const current = window.location.hash;
+    if (hash === current) {
+      replaceNextRef.current = false;
+      lastHashRef.current = hash;
+      return;
+    }
+
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    if (!replaceNextRef.current && isPermalinkNavigation(current, hash)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+    replaceNextRef.current = false;
+    lastHashRef.current = hash;
+  }, [hash]);
+
+  useEffect(() => {
+    const handleNavigate = () => {
+      if (window.location.hash === lastHashRef.current) return;
+      lastHashRef.current = window.location.hash;
+      replaceNextRef.current = true;
+      onRestoreRef.current(parsePermalink(window.location.hash));
+    };
+
+    // popstate covers back/forward; hashchange covers edits in the address bar
+    window.addEventListener('popstate', handleNavigate);
+    window.addEventListener('hashchange', handleNavigate);
+    return () => {
+      window.removeEventListener('popstate', handleNavigate);
+      window.removeEventListener('hashchange', handleNavigate);
+    };
+  }, []);
+}
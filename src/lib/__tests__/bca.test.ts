@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { computeBcaResults } from '@/lib/bca';
+import { ASSET_SUB_KEYS, DISTRICTS } from '@/types/risk';
+import type { AssetSubKey, EadResult, EalResult } from '@/types/risk';
+import { DEFAULT_BCA_INPUTS } from '@/types/bca';
+import type { BcaCost, BcaInputs, BcaSourceResults } from '@/types/bca';
+
+/** Same value for every asset of a district; districts missing from `totals` are 0 */
+function sourceResults(maintenance: 'breaches' | 'perfect', totals: number[]): BcaSourceResults {
+  const perAsset = (i: number) =>
+    Object.fromEntries(ASSET_SUB_KEYS.map((a) => [a, (totals[i] ?? 0) / ASSET_SUB_KEYS.length])) as Record<
+      AssetSubKey,
+      number
+    >;
+  return {
+    eadResults: DISTRICTS.map((region, i): EadResult => ({
+      climate: 'present',
+      maintenance,
+      region,
+      ead: perAsset(i),
+      eadTotal: totals[i] ?? 0,
+    })),
+    ealResults: DISTRICTS.map((region, i): EalResult => ({
+      climate: 'present',
+      maintenance,
+      region,
+      eal: perAsset(i),
+      commerceEal: 0,
+      ealTotal: totals[i] ?? 0,
+    })),
+  };
+}
+
+const inputs: BcaInputs = {
+  ...DEFAULT_BCA_INPUTS,
+  benefitBasis: 'ead',
+  capitalCost: 1_000_000,
+  annualOmCost: 10_000,
+  districtCosts: Object.fromEntries(DISTRICTS.map((d) => [d, { capital: 0, annualOm: 0 }])) as BcaInputs['districtCosts'],
+};
+
+function appraise(baseline: number[], intervention: number[]) {
+  return computeBcaResults({
+    baselineResults: sourceResults('breaches', baseline),
+    interventionResults: sourceResults('perfect', intervention),
+    climate: 'present',
+    inputs,
+  });
+}
+
+const sumCosts = (costs: BcaCost[]) =>
+  costs.reduce((acc, c) => ({ capital: acc.capital + c.capital, annualOm: acc.annualOm + c.annualOm }), {
+    capital: 0,
+    annualOm: 0,
+  });
+
+describe('computeBcaResults', () => {
+  it('splits costs pro rata to avoided risk', () => {
+    const results = appraise([300, 100], [0, 0]);
+    expect(results[0].cost.capital).toBeCloseTo(750_000);
+    expect(results[1].cost.capital).toBeCloseTo(250_000);
+    expect(results[2].cost.capital).toBe(0);
+  });
+
+  it('charges no cost to districts whose risk the intervention raises', () => {
+    // Avoided risk of [100, -99]: a signed split would put 100× the capital on the first district
+    const results = appraise([100, 1], [0, 100]);
+    const [gaining, losing] = results;
+    expect(gaining.avoidedEad).toBe(100);
+    expect(losing.avoidedEad).toBe(-99);
+
+    expect(gaining.cost).toEqual({ capital: 1_000_000, annualOm: 10_000 });
+    expect(losing.cost).toEqual({ capital: 0, annualOm: 0 });
+    for (const r of results) {
+      expect(r.cost.capital).toBeGreaterThanOrEqual(0);
+      expect(r.cost.annualOm).toBeGreaterThanOrEqual(0);
+    }
+
+    const total = results.find((r) => r.region === 'TOTAL');
+    expect(sumCosts(results.filter((r) => r.region !== 'TOTAL').map((r) => r.cost))).toEqual(total?.cost);
+    expect(total?.cost.capital).toBeCloseTo(1_000_000);
+    expect(total?.avoidedEad).toBe(1);
+  });
+
+  it('keeps asset NPVs summing to the region NPV', () => {
+    for (const r of appraise([100, 1], [0, 100])) {
+      const assetNpv = r.assets.reduce((sum, a) => sum + a.npv, 0);
+      expect(assetNpv).toBeCloseTo(r.indicators.npv);
+    }
+  });
+
+  it('splits costs evenly when no district benefits', () => {
+    const results = appraise([0, 0], [50, 0]);
+    for (const r of results.filter((r) => r.region !== 'TOTAL')) {
+      expect(r.cost.capital).toBeCloseTo(1_000_000 / DISTRICTS.length);
+    }
+  });
+});
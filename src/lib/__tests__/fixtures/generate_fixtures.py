@@ -0,0 +1,215 @@
+#!/usr/bin/env python3
+"""
+Generate the upload-reader test fixtures
+
+    python3 src/lib/__tests__/fixtures/generate_fixtures.py
+
+survey.gpkg   GeoPackage written by SQLite with the spec's DDL:
+              - survey_points: 600 points in EPSG:32642, on a 1 KB page size so
+                the table spans interior b-tree pages, with one long note that
+                spills onto overflow pages
+              - river reach: polygons in EPSG:4326 keyed by a table-level
+                PRIMARY KEY constraint
+fields.zip    Zipped (deflated) polygon Shapefile with .dbf, .prj and .cpg:
+              a polygon with a hole and a two-part multipolygon
+"""
+
+import io
+import os
+import sqlite3
+import struct
+import zipfile
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+
+WGS84_WKT = (
+    'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563]],'
+    'PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]]'
+)
+UTM42_WKT = (
+    'PROJCS["WGS 84 / UTM zone 42N",' + WGS84_WKT + ',PROJECTION["Transverse_Mercator"],'
+    'PARAMETER["latitude_of_origin",0],PARAMETER["central_meridian",69],'
+    'PARAMETER["scale_factor",0.9996],PARAMETER["false_easting",500000],'
+    'PARAMETER["false_northing",0],UNIT["metre",1]]'
+)
+
+
+def gpkg_geometry(srs_id, wkb, envelope):
+    """GeoPackage binary: little-endian header with an xy envelope, then WKB"""
+    return b'GP' + bytes([0, 0x03]) + struct.pack('<i', srs_id) + struct.pack('<4d', *envelope) + wkb
+
+
+def point_wkb(x, y):
+    return struct.pack('<BIdd', 1, 1, x, y)
+
+
+def polygon_wkb(rings):
+    data = struct.pack('<BII', 1, 3, len(rings))
+    for ring in rings:
+        data += struct.pack('<I', len(ring))
+        for x, y in ring:
+            data += struct.pack('<dd', x, y)
+    return data
+
+
+def write_geopackage(path):
+    if os.path.exists(path):
+        os.remove(path)
+    db = sqlite3.connect(path)
+    db.execute('PRAGMA page_size = 1024')
+    db.execute('PRAGMA application_id = 1196444487')
+    db.executescript('''
+        CREATE TABLE gpkg_spatial_ref_sys (
+          srs_name TEXT NOT NULL,
+          srs_id INTEGER NOT NULL PRIMARY KEY,
+          organization TEXT NOT NULL,
+          organization_coordsys_id INTEGER NOT NULL,
+          definition TEXT NOT NULL,
+          description TEXT
+        );
+        CREATE TABLE gpkg_contents (
+          table_name TEXT NOT NULL PRIMARY KEY,
+          data_type TEXT NOT NULL,
+          identifier TEXT UNIQUE,
+          description TEXT DEFAULT '',
+          last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+          min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE,
+          srs_id INTEGER,
+          CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id)
+        );
+        CREATE TABLE gpkg_geometry_columns (
+          table_name TEXT NOT NULL,
+          column_name TEXT NOT NULL,
+          geometry_type_name TEXT NOT NULL,
+          srs_id INTEGER NOT NULL,
+          z TINYINT NOT NULL,
+          m TINYINT NOT NULL,
+          CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name),
+          CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+          CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id)
+        );
+        CREATE TABLE survey_points (
+          fid INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+          geom POINT,
+          name TEXT,
+          depth REAL,
+          note TEXT
+        );
+        CREATE TABLE "river reach" (
+          id INTEGER,
+          geom POLYGON,
+          name TEXT,
+          PRIMARY KEY (id)
+        );
+    ''')
+    db.executemany('INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)', [
+        ('Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', None),
+        ('Undefined geographic SRS', 0, 'NONE', 0, 'undefined', None),
+        ('WGS 84 geodetic', 4326, 'EPSG', 4326, WGS84_WKT, None),
+        ('WGS 84 / UTM zone 42N', 32642, 'EPSG', 32642, UTM42_WKT, None),
+    ])
+    db.executemany('INSERT INTO gpkg_contents (table_name, data_type, identifier, srs_id) VALUES (?, ?, ?, ?)', [
+        ('survey_points', 'features', 'survey_points', 32642),
+        ('river reach', 'features', 'river reach', 4326),
+    ])
+    db.executemany('INSERT INTO gpkg_geometry_columns VALUES (?, ?, ?, ?, 0, 0)', [
+        ('survey_points', 'geom', 'POINT', 32642),
+        ('river reach', 'geom', 'POLYGON', 4326),
+    ])
+
+    for i in range(1, 601):
+        x, y = 500000 + i * 10.5, 2900000 + i * 5.25
+        note = 'x' * 3000 if i == 300 else f'point {i}'
+        db.execute(
+            'INSERT INTO survey_points (fid, geom, name, depth, note) VALUES (?, ?, ?, ?, ?)',
+            (i, gpkg_geometry(32642, point_wkb(x, y), (x, x, y, y)), f'P{i:03d}', i / 4, note),
+        )
+
+    ring = [(67.5, 26.0), (68.0, 26.0), (68.0, 26.5), (67.5, 26.5), (67.5, 26.0)]
+    for reach_id, name in ((7, 'Upper reach'), (12, 'Lower reach')):
+        db.execute(
+            'INSERT INTO "river reach" (id, geom, name) VALUES (?, ?, ?)',
+            (reach_id, gpkg_geometry(4326, polygon_wkb([ring]), (67.5, 68.0, 26.0, 26.5)), name),
+        )
+    db.commit()
+    db.close()
+
+
+def shp_polygon_record(parts):
+    points = [p for part in parts for p in part]
+    xs = [p[0] for p in points]
+    ys = [p[1] for p in points]
+    content = struct.pack('<i4d', 5, min(xs), min(ys), max(xs), max(ys))
+    content += struct.pack('<ii', len(parts), len(points))
+    start = 0
+    for part in parts:
+        content += struct.pack('<i', start)
+        start += len(part)
+    for x, y in points:
+        content += struct.pack('<dd', x, y)
+    return content
+
+
+def shapefile_files(records, bbox):
+    """.shp and .shx bytes for polygon record contents"""
+    shp_body = b''
+    shx_body = b''
+    offset = 50
+    for number, content in enumerate(records, start=1):
+        shp_body += struct.pack('>ii', number, len(content) // 2) + content
+        shx_body += struct.pack('>ii', offset, len(content) // 2)
+        offset += 4 + len(content) // 2
+
+    def header(length_bytes):
+        return (struct.pack('>i5ii', 9994, 0, 0, 0, 0, 0, length_bytes // 2)
+                + struct.pack('<ii', 1000, 5) + struct.pack('<4d', *bbox) + struct.pack('<4d', 0, 0, 0, 0))
+
+    return header(100 + len(shp_body)) + shp_body, header(100 + len(shx_body)) + shx_body
+
+
+def dbf_file(fields, rows):
+    header_length = 32 + 32 * len(fields) + 1
+    record_length = 1 + sum(length for _, _, length, _ in fields)
+    data = struct.pack('<BBBBIHH20x', 3, 125, 1, 1, len(rows), header_length, record_length)
+    for name, kind, length, decimals in fields:
+        data += name.encode().ljust(11, b'\0') + kind.encode() + b'\0' * 4 + bytes([length, decimals]) + b'\0' * 14
+    data += b'\r'
+    for row in rows:
+        data += b' '
+        for (name, kind, length, _), value in zip(fields, row):
+            text = str(value).encode('utf-8')
+            data += text.rjust(length) if kind == 'N' else text.ljust(length)
+    return data + b'\x1a'
+
+
+def write_shapefile_zip(path):
+    # Outer rings clockwise, holes counter-clockwise
+    outer = [(0, 0), (0, 100), (100, 100), (100, 0), (0, 0)]
+    hole = [(40, 40), (60, 40), (60, 60), (40, 60), (40, 40)]
+    left = [(200, 0), (200, 50), (250, 50), (250, 0), (200, 0)]
+    right = [(300, 0), (300, 50), (350, 50), (350, 0), (300, 0)]
+    offset = lambda ring: [(500000 + x, 2900000 + y) for x, y in ring]  # noqa: E731
+    records = [
+        shp_polygon_record([offset(outer), offset(hole)]),
+        shp_polygon_record([offset(left), offset(right)]),
+    ]
+    shp, shx = shapefile_files(records, (500000, 2900000, 500350, 2900100))
+    dbf = dbf_file(
+        [('NAME', 'C', 20, 0), ('AREA', 'N', 10, 2)],
+        [('Kot Diji', '9600.00'), ('Bhiria', '5000.00')],
+    )
+    buffer = io.BytesIO()
+    with zipfile.ZipFile(buffer, 'w', zipfile.ZIP_DEFLATED) as archive:
+        archive.writestr('fields/', '')
+        archive.writestr('fields/fields.shp', shp)
+        archive.writestr('fields/fields.shx', shx)
+        archive.writestr('fields/fields.dbf', dbf)
+        archive.writestr('fields/fields.prj', UTM42_WKT)
+        archive.writestr('fields/fields.cpg', 'UTF-8')
+    with open(path, 'wb') as f:
+        f.write(buffer.getvalue())
+
+
+if __name__ == '__main__':
+    write_geopackage(os.path.join(HERE, 'survey.gpkg'))
+    write_shapefile_zip(os.path.join(HERE, 'fields.zip'))
@@ -0,0 +1,59 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import type Point from 'ol/geom/Point';
+import type Polygon from 'ol/geom/Polygon';
+import { readGeoPackage } from '@/lib/geopackage';
+
+// Written by SQLite; see fixtures/generate_fixtures.py
+function fixture(name: string): ArrayBuffer {
+  const file = readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+describe('readGeoPackage', () => {
+  const layers = readGeoPackage(fixture('survey.gpkg'));
+  const points = layers.find((l) => l.name === 'survey_points');
+  const reaches = layers.find((l) => l.name === 'river reach');
+
+  it('lists every feature table', () => {
+    expect(layers.map((l) => l.name).sort()).toEqual(['river reach', 'survey_points']);
+  });
+
+  it('resolves the SRS of gpkg_spatial_ref_sys keyed by "srs_id INTEGER NOT NULL PRIMARY KEY"', () => {
+    expect(points?.projection).toBe('EPSG:32642');
+    expect(points?.definition).toMatch(/^PROJCS\["WGS 84 \/ UTM zone 42N"/);
+    expect(reaches?.projection).toBe('EPSG:4326');
+  });
+
+  it('reads every row of a table spanning interior b-tree pages', () => {
+    expect(points?.features).toHaveLength(600);
+    const fids = points?.features.map((f) => f.get('fid'));
+    expect(fids?.[0]).toBe(1);
+    expect(fids?.[599]).toBe(600);
+  });
+
+  it('decodes attributes and geometry blobs', () => {
+    const feature = points?.features.find((f) => f.get('fid') === 17);
+    expect(feature?.get('name')).toBe('P017');
+    expect(feature?.get('depth')).toBe(4.25);
+    expect((feature?.getGeometry() as Point).getCoordinates()).toEqual([500178.5, 2900089.25]);
+    expect(feature?.get('geom')).toBeUndefined();
+  });
+
+  it('follows overflow pages for long values', () => {
+    const feature = points?.features.find((f) => f.get('fid') === 300);
+    expect(feature?.get('note')).toBe('x'.repeat(3000));
+  });
+
+  it('reads the rowid of a table keyed by a PRIMARY KEY constraint', () => {
+    expect(reaches?.features.map((f) => [f.get('id'), f.get('name')])).toEqual([
+      [7, 'Upper reach'],
+      [12, 'Lower reach'],
+    ]);
+    expect((reaches?.features[0].getGeometry() as Polygon).getExtent()).toEqual([67.5, 26, 68, 26.5]);
+  });
+
+  it('rejects files that are not SQLite databases', () => {
+    expect(() => readGeoPackage(fixture('fields.zip'))).toThrow('Not a GeoPackage');
+  });
+});
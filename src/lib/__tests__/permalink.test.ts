@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parsePermalink, serializePermalink } from '@/lib/permalink';
+import type { PermalinkState } from '@/types/permalink';
+
+describe('parsePermalink', () => {
+  it('reads back what serializePermalink wrote', () => {
+    const state: PermalinkState = {
+      view: { center: [440000, 3080000], zoom: 10.5, rotation: 0 },
+      baseMap: 'satellite',
+      visibleLayerIds: ['a,b', 'c:d'],
+      layerOpacities: { 'c:d': 0.5 },
+      sidebarView: 'risk',
+      risk: { view: 'ead', scenarioKey: 'T3_25yrs_Present_Breaches' },
+    };
+    expect(parsePermalink(serializePermalink(state))).toEqual({ ...state, impact: undefined });
+  });
+
+  it.each(['#l=%E0%A4%A', '#b=100%', '#o=x%zz:0.5', '#rs=%', '#is=%G0'])('drops malformed escapes in %s', (hash) => {
+    expect(() => parsePermalink(hash)).not.toThrow();
+  });
+
+  it('keeps the well-formed items of a list with a malformed one', () => {
+    const state = parsePermalink('#l=a,%E0%A4%A,b&o=x%zz:0.5,y:0.25&b=100%&rs=%&rv=ead');
+    expect(state.visibleLayerIds).toEqual(['a', 'b']);
+    expect(state.layerOpacities).toEqual({ y: 0.25 });
+    expect(state.baseMap).toBeUndefined();
+    expect(state.risk).toEqual({ view: 'ead' });
+  });
+});
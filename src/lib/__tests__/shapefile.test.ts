@@ -0,0 +1,66 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import type MultiPolygon from 'ol/geom/MultiPolygon';
+import type Polygon from 'ol/geom/Polygon';
+import { readShapefile } from '@/lib/shapefile';
+import { readZipEntries } from '@/lib/zip-reader';
+
+// Zipped with deflate by Python; see fixtures/generate_fixtures.py
+function fixture(name: string): ArrayBuffer {
+  const file = readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+async function readEntry(name: string): Promise<ArrayBuffer> {
+  const entry = readZipEntries(fixture('fields.zip')).find((e) => e.name === name);
+  if (!entry) throw new Error(`${name} missing from fixture`);
+  return entry.read();
+}
+
+describe('readZipEntries', () => {
+  it('lists the files and skips directories', () => {
+    expect(readZipEntries(fixture('fields.zip')).map((e) => e.name)).toEqual([
+      'fields/fields.shp',
+      'fields/fields.shx',
+      'fields/fields.dbf',
+      'fields/fields.prj',
+      'fields/fields.cpg',
+    ]);
+  });
+
+  it('inflates deflated entries', async () => {
+    expect(new TextDecoder().decode(await readEntry('fields/fields.cpg'))).toBe('UTF-8');
+    expect(new TextDecoder().decode(await readEntry('fields/fields.prj'))).toMatch(/^PROJCS\["WGS 84 \/ UTM zone 42N"/);
+  });
+
+  it('rejects files that are not zip archives', () => {
+    expect(() => readZipEntries(new ArrayBuffer(64))).toThrow('Not a zip archive');
+  });
+});
+
+describe('readShapefile', () => {
+  it('reads polygons with holes and multipart polygons with their attributes', async () => {
+    const features = readShapefile(await readEntry('fields/fields.shp'), await readEntry('fields/fields.dbf'));
+    expect(features).toHaveLength(2);
+
+    const [withHole, multipart] = features;
+    expect(withHole.get('NAME')).toBe('Kot Diji');
+    expect(withHole.get('AREA')).toBe(9600);
+    const polygon = withHole.getGeometry() as Polygon;
+    expect(polygon.getType()).toBe('Polygon');
+    expect(polygon.getLinearRingCount()).toBe(2);
+    expect(polygon.getArea()).toBe(9600);
+
+    expect(multipart.get('NAME')).toBe('Bhiria');
+    const multi = multipart.getGeometry() as MultiPolygon;
+    expect(multi.getType()).toBe('MultiPolygon');
+    expect(multi.getPolygons()).toHaveLength(2);
+    expect(multi.getExtent()).toEqual([500200, 2900000, 500350, 2900050]);
+  });
+
+  it('reads geometry alone without a .dbf', async () => {
+    const features = readShapefile(await readEntry('fields/fields.shp'));
+    expect(features).toHaveLength(2);
+    expect(features[0].getProperties()).toEqual({ geometry: features[0].getGeometry() });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Animation Export Helpers
+ *
+ * Frame captions and WebM recording for the return-period animation player.
+ * GIF encoding lives in gif-encoder.ts.
+ */
+
+/** Redraw interval while holding a frame, so the recorder keeps receiving video */
+const HOLD_REDRAW_MS = 100;
+
+/**
+ * Caption a captured map frame in its top-left corner.
+ */
+export function drawFrameLabel(canvas: HTMLCanvasElement, title: string, label: string): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const scale = Math.max(1, canvas.width / 1000);
+  const pad = 10 * scale;
+
+  ctx.save();
+  ctx.font = `${12 * scale}px sans-serif`;
+  const titleWidth = ctx.measureText(title).width;
+  ctx.font = `bold ${20 * scale}px sans-serif`;
+  const labelWidth = ctx.measureText(label).width;
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.fillRect(pad, pad, Math.max(titleWidth, labelWidth) + pad * 2, 50 * scale);
+  ctx.fillStyle = '#1e293b';
+  ctx.textBaseline = 'top';
+  ctx.fillText(label, pad * 2, pad + 22 * scale);
+  ctx.font = `${12 * scale}px sans-serif`;
+  ctx.fillStyle = '#475569';
+  ctx.fillText(title, pad * 2, pad + 6 * scale);
+  ctx.restore();
+}
+
+/**
+ * Copy a canvas into a new one no wider than maxWidth
+ */
+export function scaleCanvas(source: HTMLCanvasElement, maxWidth: number): HTMLCanvasElement {
+  const ratio = Math.min(1, maxWidth / source.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(source.width * ratio);
+  canvas.height = Math.round(source.height * ratio);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/** Best WebM type this browser can record, or null */
+export function getWebmMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Record frames of equal size as a WebM video, showing each for delayMs.
+ * Recording runs in real time.
+ */
+export function recordWebm(frames: HTMLCanvasElement[], delayMs: number): Promise<Blob> {
+  const mimeType = getWebmMimeType();
+  if (!mimeType) return Promise.reject(new Error('This browser cannot record WebM video'));
+  if (frames.length === 0) return Promise.reject(new Error('No frames to record'));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = frames[0].width;
+  canvas.height = frames[0].height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas 2D context unavailable'));
+
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType, videoBitsPerSecond: 5_000_000 });
+  const chunks: Blob[] = [];
+
+  return new Promise((resolve, reject) => {
+    let current = 0;
+    const draw = () => ctx.drawImage(frames[current], 0, 0);
+    const redraw = window.setInterval(draw, HOLD_REDRAW_MS);
+    const advance = () => {
+      current++;
+      if (current < frames.length) {
+        draw();
+        window.setTimeout(advance, delayMs);
+      } else {
+        window.clearInterval(redraw);
+        recorder.stop();
+      }
+    };
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.onerror = () => {
+      window.clearInterval(redraw);
+      reject(new Error('Video recording failed'));
+    };
+
+    draw();
+    recorder.start();
+    window.setTimeout(advance, delayMs);
+  });
+}
@@ -43,6 +43,19 @@ function dispatchLogoutEvent(): void {
   window.dispatchEvent(new CustomEvent(AUTH_LOGOUT_EVENT));
 }
 
+/**
+ * Error for a non-OK API response, keeping the HTTP status
+ */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
 /**
  * API fetch options with optional noAuth flag
  */
@@ -57,7 +70,7 @@ export interface ApiFetchOptions extends RequestInit {
  * @param url - The API endpoint URL
  * @param options - Fetch options with optional noAuth flag
  * @returns Parsed JSON response
- * @throws Error on 401 or non-OK responses
+ * @throws ApiError on 401 or non-OK responses
  */
 export async function apiFetch<T>(
   url: string,
@@ -91,7 +104,7 @@ export async function apiFetch<T>(
   if (response.status === 401) {
     removeStoredToken();
     dispatchLogoutEvent();
-    throw new Error('Session expired. Please log in again.');
+    throw new ApiError('Session expired. Please log in again.', 401);
   }
 
   // Handle other error responses
@@ -105,7 +118,7 @@ export async function apiFetch<T>(
     } catch {
       // If parsing error JSON fails, use default message
     }
-    throw new Error(errorMessage);
+    throw new ApiError(errorMessage, response.status);
   }
 
   return response.json();
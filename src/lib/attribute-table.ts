@@ -0,0 +1,499 @@
+/**
+ * Attribute Table
+ *
+ * WFS access for the attribute table: the layer's columns from
+ * DescribeFeatureType, features from GetFeature filtered with CQL, and
+ * the filter expressions typed in the table translated to CQL. Sorting
+ * and the CSV / GeoJSON / XLSX exports work on the loaded rows.
+ */
+
+import GeoJSON from 'ol/format/GeoJSON';
+import type Feature from 'ol/Feature';
+import { utils, write } from 'xlsx';
+import { GEOSERVER_CONFIG, MAP_CONFIG } from '@/config/layers';
+import type { LayerInfo } from '@/types/layers';
+import { ATTRIBUTE_TABLE_MAX_FEATURES } from '@/types/attribute-table';
+import type {
+  AttributeColumn,
+  AttributeColumnType,
+  AttributeExportFormat,
+  AttributeRow,
+  AttributeSort,
+  FilterParseError,
+} from '@/types/attribute-table';
+
+const NUMBER_TYPES = ['int', 'integer', 'long', 'short', 'byte', 'double', 'float', 'decimal', 'number'];
+
+/** Words CQL reads as keywords, so columns with these names are quoted */
+const CQL_KEYWORDS = new Set([
+  'and', 'or', 'not', 'is', 'null', 'in', 'like', 'ilike', 'between', 'exists', 'does-not-exist',
+  'before', 'after', 'during', 'include', 'exclude', 'true', 'false',
+]);
+
+/** Vector layers GeoServer can serve through WFS */
+export function isAttributeTableLayer(layer: LayerInfo): boolean {
+  return layer.type === 'wms' &&
+    !layer.url &&
+    !!layer.workspace &&
+    !!layer.geoserverName &&
+    ['point', 'line', 'polygon'].includes(layer.geometryType ?? '');
+}
+
+function wfsUrl(layer: LayerInfo, params: Record<string, string>): string {
+  const query = new URLSearchParams({
+    service: 'WFS',
+    version: '2.0.0',
+    typeNames: `${layer.workspace}:${layer.geoserverName}`,
+    ...params,
+  });
+  return `${GEOSERVER_CONFIG.baseUrl}/${layer.workspace}/ows?${query.toString()}`;
+}
+
+async function fetchJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`WFS request failed: HTTP ${response.status}`);
+  }
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    // GeoServer reports errors as an XML exception report
+    const message = text.match(/<ows:ExceptionText>([\s\S]*?)<\/ows:ExceptionText>/)?.[1]?.trim();
+    throw new Error(message ? `WFS error: ${message}` : 'WFS returned an unreadable response');
+  }
+}
+
+function columnType(localType: string): AttributeColumnType {
+  const type = localType.toLowerCase();
+  if (NUMBER_TYPES.includes(type)) return 'number';
+  if (type === 'date' || type === 'date-time' || type === 'datetime' || type === 'timestamp') return 'date';
+  if (type === 'boolean') return 'boolean';
+  return 'string';
+}
+
+/**
+ * Attribute columns and the geometry column of a layer
+ */
+export async function describeAttributeColumns(
+  layer: LayerInfo,
+  signal?: AbortSignal
+): Promise<{ columns: AttributeColumn[]; geometryName: string | null }> {
+  const json = await fetchJson<{
+    featureTypes?: { properties?: { name: string; type: string; localType?: string }[] }[];
+  }>(wfsUrl(layer, { request: 'DescribeFeatureType', outputFormat: 'application/json' }), signal);
+
+  const properties = json.featureTypes?.[0]?.properties ?? [];
+  const geometry = properties.find((p) => p.type.startsWith('gml:'));
+  return {
+    geometryName: geometry?.name ?? null,
+    columns: properties
+      .filter((p) => p !== geometry)
+      .map((p) => ({ name: p.name, type: columnType(p.localType ?? p.type.replace(/^xsd:/, '')) })),
+  };
+}
+
+/**
+ * Load features, optionally inside an extent (EPSG:32642) and matching a
+ * CQL filter. total is the number of matching features when the server
+ * reports it, which can exceed the rows returned.
+ */
+export async function loadAttributeRows(
+  layer: LayerInfo,
+  options: { cql: string | null; extent: number[] | null; geometryName: string | null },
+  signal?: AbortSignal
+): Promise<{ rows: AttributeRow[]; total: number | null }> {
+  const filters: string[] = [];
+  if (options.extent && options.geometryName) {
+    filters.push(`BBOX(${cqlIdentifier(options.geometryName)}, ${options.extent.join(', ')}, '${MAP_CONFIG.projection}')`);
+  }
+  if (options.cql) {
+    filters.push(`(${options.cql})`);
+  }
+
+  const json = await fetchJson<{ features?: unknown[]; numberMatched?: number; totalFeatures?: number }>(
+    wfsUrl(layer, {
+      request: 'GetFeature',
+      outputFormat: 'application/json',
+      srsName: MAP_CONFIG.projection,
+      count: String(ATTRIBUTE_TABLE_MAX_FEATURES),
+      ...(filters.length > 0 && { CQL_FILTER: filters.join(' AND ') }),
+    }),
+    signal
+  );
+
+  const features = new GeoJSON().readFeatures(json) as Feature[];
+  const rows = features.map((feature, index) => {
+    const properties = { ...feature.getProperties() };
+    delete properties[feature.getGeometryName()];
+    return { id: String(feature.getId() ?? index + 1), properties, feature };
+  });
+  const total = json.numberMatched ?? json.totalFeatures;
+  return { rows, total: typeof total === 'number' ? total : null };
+}
+
+// ---------------------------------------------------------------------------
+// Filter expressions → CQL
+// ---------------------------------------------------------------------------
+
+type Token = {
+  kind: 'word' | 'number' | 'string' | 'quoted' | 'operator' | 'punct' | 'end';
+  text: string;
+  position: number;
+};
+
+class FilterSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '=', '<', '>', '~'];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ kind: 'punct', text: ch, position: i++ });
+      continue;
+    }
+    const operator = OPERATORS.find((op) => expression.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      // A doubled quote stands for the quote itself
+      let text = '';
+      let j = i + 1;
+      for (; j < expression.length; j++) {
+        if (expression[j] === ch) {
+          if (expression[j + 1] !== ch) break;
+          j++;
+        }
+        text += expression[j];
+      }
+      if (j >= expression.length) throw new FilterSyntaxError('Missing closing quote', i);
+      tokens.push({ kind: ch === "'" ? 'string' : 'quoted', text, position: i });
+      i = j + 1;
+      continue;
+    }
+    const number = /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i.exec(expression.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+    const word = /^[\p{L}_][\p{L}\p{N}_.-]*/u.exec(expression.slice(i));
+    if (word) {
+      tokens.push({ kind: 'word', text: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+    throw new FilterSyntaxError(`Unexpected "${ch}"`, i);
+  }
+  tokens.push({ kind: 'end', text: '', position: expression.length });
+  return tokens;
+}
+
+/** A column name as CQL reads it, quoted when needed */
+function cqlIdentifier(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !CQL_KEYWORDS.has(name.toLowerCase())
+    ? name
+    : `"${name.replace(/"/g, '""')}"`;
+}
+
+function cqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Escape LIKE wildcards so the text matches literally */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+class FilterParser {
+  private tokens: Token[];
+  private index = 0;
+  private columns: AttributeColumn[];
+
+  constructor(tokens: Token[], columns: AttributeColumn[]) {
+    this.tokens = tokens;
+    this.columns = columns;
+  }
+
+  parse(): string {
+    const cql = this.orExpression();
+    const next = this.peek();
+    if (next.kind !== 'end') throw new FilterSyntaxError(`Expected "and" or "or" before "${next.text}"`, next.position);
+    return cql;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.kind === 'word' && token.text.toLowerCase() === keyword;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.isKeyword(keyword)) {
+      const token = this.peek();
+      throw new FilterSyntaxError(`Expected "${keyword}"`, token.position);
+    }
+    this.index++;
+  }
+
+  private expectPunct(text: string): void {
+    const token = this.next();
+    if (token.kind !== 'punct' || token.text !== text) {
+      throw new FilterSyntaxError(`Expected "${text}"`, token.position);
+    }
+  }
+
+  private orExpression(): string {
+    const parts = [this.andExpression()];
+    while (this.isKeyword('or')) {
+      this.index++;
+      parts.push(this.andExpression());
+    }
+    return parts.join(' OR ');
+  }
+
+  private andExpression(): string {
+    const parts = [this.notExpression()];
+    while (this.isKeyword('and')) {
+      this.index++;
+      parts.push(this.notExpression());
+    }
+    return parts.join(' AND ');
+  }
+
+  private notExpression(): string {
+    if (this.isKeyword('not')) {
+      this.index++;
+      return `NOT (${this.notExpression()})`;
+    }
+    const token = this.peek();
+    if (token.kind === 'punct' && token.text === '(') {
+      this.index++;
+      const inner = this.orExpression();
+      this.expectPunct(')');
+      return `(${inner})`;
+    }
+    return this.condition();
+  }
+
+  private column(): AttributeColumn {
+    const token = this.next();
+    if (token.kind !== 'word' && token.kind !== 'quoted') {
+      throw new FilterSyntaxError(token.kind === 'end' ? 'Expected a column name' : `Expected a column name, found "${token.text}"`, token.position);
+    }
+    const column = this.columns.find((c) => c.name.toLowerCase() === token.text.toLowerCase());
+    if (!column) throw new FilterSyntaxError(`Unknown column "${token.text}"`, token.position);
+    return column;
+  }
+
+  private value(column: AttributeColumn): string {
+    const token = this.next();
+    if (token.kind === 'end' || token.kind === 'punct' || token.kind === 'operator') {
+      throw new FilterSyntaxError(`Expected a value for ${column.name}`, token.position);
+    }
+    if (column.type === 'number') {
+      if (token.kind !== 'number') throw new FilterSyntaxError(`${column.name} holds numbers`, token.position);
+      return token.text;
+    }
+    if (column.type === 'boolean' && token.kind === 'word' && /^(true|false)$/i.test(token.text)) {
+      return token.text.toUpperCase();
+    }
+    return cqlString(token.text);
+  }
+
+  private condition(): string {
+    const column = this.column();
+    const field = cqlIdentifier(column.name);
+
+    if (this.isKeyword('is')) {
+      this.index++;
+      const negated = this.isKeyword('not');
+      if (negated) this.index++;
+      this.expectKeyword('null');
+      return `${field} IS ${negated ? 'NOT ' : ''}NULL`;
+    }
+
+    const negated = this.isKeyword('not');
+    if (negated) this.index++;
+
+    if (this.isKeyword('in')) {
+      this.index++;
+      this.expectPunct('(');
+      const values = [this.value(column)];
+      while (this.peek().kind === 'punct' && this.peek().text === ',') {
+        this.index++;
+        values.push(this.value(column));
+      }
+      this.expectPunct(')');
+      return `${field} ${negated ? 'NOT ' : ''}IN (${values.join(', ')})`;
+    }
+
+    if (this.isKeyword('like')) {
+      this.index++;
+      const token = this.next();
+      if (token.kind !== 'string' && token.kind !== 'quoted' && token.kind !== 'word') {
+        throw new FilterSyntaxError('Expected a pattern such as \'Dad*\'', token.position);
+      }
+      // * and ? are the wildcards users type
+      const pattern = escapeLike(token.text).replace(/\*/g, '%').replace(/\?/g, '_');
+      return `${negated ? 'NOT (' : ''}${field} ILIKE ${cqlString(pattern)}${negated ? ')' : ''}`;
+    }
+
+    if (negated) {
+      const token = this.peek();
+      throw new FilterSyntaxError('Expected "in" or "like" after "not"', token.position);
+    }
+
+    const operator = this.next();
+    if (operator.kind !== 'operator') {
+      throw new FilterSyntaxError(`Expected an operator after ${column.name}`, operator.position);
+    }
+    if (operator.text === '~') {
+      const token = this.next();
+      if (token.kind === 'end') throw new FilterSyntaxError(`Expected text to look for in ${column.name}`, token.position);
+      return `${field} ILIKE ${cqlString(`%${escapeLike(token.text)}%`)}`;
+    }
+    return `${field} ${operator.text === '!=' ? '<>' : operator.text} ${this.value(column)}`;
+  }
+}
+
+/**
+ * Translate a filter expression such as `district = 'Dadu' and length > 500`
+ * to CQL. Column names are matched case-insensitively and values are
+ * checked against the column types. An empty expression gives a null
+ * filter.
+ */
+export function filterExpressionToCql(
+  expression: string,
+  columns: AttributeColumn[]
+): { cql: string | null; error: FilterParseError | null } {
+  if (!expression.trim()) return { cql: null, error: null };
+  try {
+    return { cql: new FilterParser(tokenize(expression), columns).parse(), error: null };
+  } catch (err) {
+    if (err instanceof FilterSyntaxError) {
+      return { cql: null, error: { message: err.message, position: err.position } };
+    }
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sorting, display and export
+// ---------------------------------------------------------------------------
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Rows sorted by a column; empty values go last in either direction
+ */
+export function sortAttributeRows(rows: AttributeRow[], sort: AttributeSort | null): AttributeRow[] {
+  if (!sort) return rows;
+  const direction = sort.descending ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const x = a.properties[sort.column];
+    const y = b.properties[sort.column];
+    if (isEmpty(x) || isEmpty(y)) return Number(isEmpty(x)) - Number(isEmpty(y));
+    if (typeof x === 'number' && typeof y === 'number') return (x - y) * direction;
+    return String(x).localeCompare(String(y), undefined, { numeric: true, sensitivity: 'base' }) * direction;
+  });
+}
+
+export function formatAttributeValue(value: unknown): string {
+  if (isEmpty(value)) return '';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(3)));
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function rowValues(row: AttributeRow, columns: AttributeColumn[]): (string | number | boolean | null)[] {
+  return columns.map((c) => {
+    const value = row.properties[c.name];
+    return isEmpty(value) ? null : typeof value === 'number' || typeof value === 'boolean' ? value : formatAttributeValue(value);
+  });
+}
+
+export function attributeRowsToCsv(rows: AttributeRow[], columns: AttributeColumn[]): string {
+  const header = ['fid', ...columns.map((c) => c.name)];
+  const lines = rows.map((row) =>
+    [row.id, ...rowValues(row, columns).map((value) => (value === null ? '' : String(value)))].map(csvCell).join(',')
+  );
+  return [header.map(csvCell).join(','), ...lines].join('\n');
+}
+
+/**
+ * Export rows as a download: CSV and XLSX carry the attributes, GeoJSON
+ * the geometry too (in EPSG:4326, like the interventions export)
+ */
+export function exportAttributeRows(
+  format: AttributeExportFormat,
+  rows: AttributeRow[],
+  columns: AttributeColumn[],
+  baseName: string
+): { blob: Blob; filename: string } {
+  if (format === 'geojson') {
+    const features = rows.map((row) => {
+      const feature = row.feature.clone();
+      feature.setId(row.id);
+      return feature;
+    });
+    const geojson = new GeoJSON().writeFeaturesObject(features, {
+      featureProjection: MAP_CONFIG.projection,
+      dataProjection: 'EPSG:4326',
+    });
+    return {
+      blob: new Blob([JSON.stringify(geojson, null, 2)], { type: 'application/geo+json' }),
+      filename: `${baseName}.geojson`,
+    };
+  }
+
+  if (format === 'xlsx') {
+    const sheet = utils.aoa_to_sheet([
+      ['fid', ...columns.map((c) => c.name)],
+      ...rows.map((row) => [row.id, ...rowValues(row, columns)]),
+    ]);
+    const workbook = utils.book_new();
+    // Sheet names are limited to 31 characters
+    utils.book_append_sheet(workbook, sheet, baseName.slice(0, 31));
+    const data: ArrayBuffer = write(workbook, { type: 'array', bookType: 'xlsx' });
+    return {
+      blob: new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      filename: `${baseName}.xlsx`,
+    };
+  }
+
+  return {
+    blob: new Blob([attributeRowsToCsv(rows, columns)], { type: 'text/csv' }),
+    filename: `${baseName}.csv`,
+  };
+}
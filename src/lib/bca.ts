@@ -0,0 +1,296 @@
+/**
+ * Benefit–Cost Analysis
+ *
+ * Discounted cash-flow appraisal of an intervention from the avoided
+ * Expected Annual Damage / Loss between a baseline and a with-intervention
+ * risk source, each a maintenance state of a risk dataset. Capital is spent in year 0; avoided risk and O&M recur in
+ * years 1..horizon.
+ */
+
+import { ASSET_SUB_KEYS, DISTRICTS } from '@/types/risk';
+import type { AssetSubKey, DistrictName } from '@/types/risk';
+import type {
+  BcaAssetResult,
+  BcaCost,
+  BcaIndicators,
+  BcaInputs,
+  BcaRegionResult,
+  BcaSourceResults,
+} from '@/types/bca';
+
+/**
+ * Present value of 1 USD received every year for `years` years.
+ *
+ * PV = (1 - (1 + r)^-n) / r, or n when r = 0
+ */
+export function annuityFactor(rate: number, years: number): number {
+  if (years <= 0) return 0;
+  if (rate === 0) return years;
+  return (1 - Math.pow(1 + rate, -years)) / rate;
+}
+
+/**
+ * Net present value of a cash-flow series where cashflows[t] occurs at year t.
+ */
+export function netPresentValue(cashflows: number[], rate: number): number {
+  return cashflows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0);
+}
+
+/**
+ * Internal rate of return by bisection on NPV(r) = 0.
+ *
+ * @returns IRR as a fraction, or null when NPV does not change sign in (-99%, 1000%)
+ */
+export function internalRateOfReturn(cashflows: number[]): number | null {
+  let lo = -0.99;
+  let hi = 10;
+  let npvLo = netPresentValue(cashflows, lo);
+  const npvHi = netPresentValue(cashflows, hi);
+  if (!Number.isFinite(npvLo) || !Number.isFinite(npvHi)) return null;
+  if (npvLo === 0) return lo;
+  if (npvLo * npvHi > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const npvMid = netPresentValue(cashflows, mid);
+    if (Math.abs(npvMid) < 1e-6 || hi - lo < 1e-9) return mid;
+    if (npvLo * npvMid < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      npvLo = npvMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * NPV, BCR and IRR for a constant annual benefit against capital + O&M costs.
+ */
+export function computeBcaIndicators(
+  annualBenefit: number,
+  cost: BcaCost,
+  discountRate: number,
+  horizonYears: number
+): BcaIndicators {
+  const af = annuityFactor(discountRate, horizonYears);
+  const pvBenefits = annualBenefit * af;
+  const pvCosts = cost.capital + cost.annualOm * af;
+
+  const cashflows = [-cost.capital];
+  for (let t = 1; t <= horizonYears; t++) {
+    cashflows.push(annualBenefit - cost.annualOm);
+  }
+
+  return {
+    pvBenefits,
+    pvCosts,
+    npv: pvBenefits - pvCosts,
+    bcr: pvCosts > 0 ? pvBenefits / pvCosts : null,
+    irr: internalRateOfReturn(cashflows),
+  };
+}
+
+/**
+ * Shares of a cost split pro rata to positive benefits. Entries whose
+ * benefit is zero or negative carry none of the cost; when no entry has a
+ * positive benefit the cost is split evenly so it is still counted.
+ */
+function costShares(benefits: number[]): number[] {
+  const positiveTotal = benefits.reduce((sum, b) => sum + Math.max(0, b), 0);
+  if (positiveTotal === 0) return benefits.map(() => 1 / benefits.length);
+  return benefits.map((b) => Math.max(0, b) / positiveTotal);
+}
+
+function findResult<T extends { climate: string; maintenance: string; region: string }>(
+  results: T[],
+  climate: 'present' | 'future',
+  maintenance: string,
+  region: string
+): T | undefined {
+  return results.find(
+    (r) => r.climate === climate && r.maintenance === maintenance && r.region === region
+  );
+}
+
+/**
+ * Compute the benefit–cost appraisal for all districts and TOTAL.
+ *
+ * District costs are either entered directly (custom) or split pro rata to each
+ * district's share of the avoided risk. Within a region, costs are allocated to
+ * assets pro rata to their share of the benefit stream, so asset NPVs add up to
+ * the region NPV. Both splits count positive avoided risk only: a district or
+ * asset whose risk the intervention raises carries no cost.
+ *
+ * @param params.baselineResults - Results of the baseline source's dataset
+ * @param params.interventionResults - Results of the intervention source's dataset
+ * @returns 7 district results followed by TOTAL
+ */
+export function computeBcaResults(params: {
+  baselineResults: BcaSourceResults;
+  interventionResults: BcaSourceResults;
+  climate: 'present' | 'future';
+  inputs: BcaInputs;
+}): BcaRegionResult[] {
+  const { baselineResults, interventionResults, climate, inputs } = params;
+  const { baseline, intervention, benefitBasis, discountRate, horizonYears } = inputs;
+  const af = annuityFactor(discountRate, horizonYears);
+
+  const avoided = DISTRICTS.map((district) => {
+    const baseEad = findResult(baselineResults.eadResults, climate, baseline.maintenance, district);
+    const intEad = findResult(interventionResults.eadResults, climate, intervention.maintenance, district);
+    const baseEal = findResult(baselineResults.ealResults, climate, baseline.maintenance, district);
+    const intEal = findResult(interventionResults.ealResults, climate, intervention.maintenance, district);
+
+    const avoidedEadByAsset = Object.fromEntries(
+      ASSET_SUB_KEYS.map((a) => [a, (baseEad?.ead[a] ?? 0) - (intEad?.ead[a] ?? 0)])
+    ) as Record<AssetSubKey, number>;
+    // Asset EAL excludes the commerce uplift; it is spread pro rata below
+    const avoidedEalByAsset = Object.fromEntries(
+      ASSET_SUB_KEYS.map((a) => [a, (baseEal?.eal[a] ?? 0) - (intEal?.eal[a] ?? 0)])
+    ) as Record<AssetSubKey, number>;
+
+    return {
+      district,
+      baselineEad: baseEad?.eadTotal ?? 0,
+      interventionEad: intEad?.eadTotal ?? 0,
+      baselineEal: baseEal?.ealTotal ?? 0,
+      interventionEal: intEal?.ealTotal ?? 0,
+      avoidedEadByAsset,
+      avoidedEalByAsset,
+    };
+  });
+
+  const benefitOf = (d: (typeof avoided)[number]) =>
+    benefitBasis === 'ead'
+      ? d.baselineEad - d.interventionEad
+      : d.baselineEal - d.interventionEal;
+
+  const totalBenefit = avoided.reduce((sum, d) => sum + benefitOf(d), 0);
+  const districtShares = costShares(avoided.map(benefitOf));
+
+  const districtCost = (district: DistrictName, index: number): BcaCost => {
+    if (inputs.costAllocation === 'custom') {
+      return inputs.districtCosts[district] ?? { capital: 0, annualOm: 0 };
+    }
+    const share = districtShares[index];
+    return { capital: inputs.capitalCost * share, annualOm: inputs.annualOmCost * share };
+  };
+
+  const buildAssets = (
+    avoidedEadByAsset: Record<AssetSubKey, number>,
+    avoidedEalByAsset: Record<AssetSubKey, number>,
+    regionBenefit: number,
+    indicators: BcaIndicators
+  ): BcaAssetResult[] => {
+    const ealAssetSum = ASSET_SUB_KEYS.reduce((s, a) => s + avoidedEalByAsset[a], 0);
+    const ealScale = ealAssetSum !== 0 && benefitBasis === 'eal' ? regionBenefit / ealAssetSum : 1;
+
+    const assets = ASSET_SUB_KEYS.map((asset) => {
+      const avoidedEad = avoidedEadByAsset[asset];
+      // Scale asset losses so they sum to the region EAL including commerce uplift
+      const avoidedEal = avoidedEalByAsset[asset] * ealScale;
+      return { asset, avoidedEad, avoidedEal, benefit: benefitBasis === 'ead' ? avoidedEad : avoidedEal };
+    });
+    const shares = costShares(assets.map((a) => a.benefit));
+
+    return assets.map(({ asset, avoidedEad, avoidedEal, benefit }, i) => {
+      const pvBenefits = benefit * af;
+      return {
+        asset,
+        avoidedEad,
+        avoidedEal,
+        pvBenefits,
+        npv: pvBenefits - indicators.pvCosts * shares[i],
+      };
+    });
+  };
+
+  const results: BcaRegionResult[] = avoided.map((d, i) => {
+    const benefit = benefitOf(d);
+    const cost = districtCost(d.district, i);
+    const indicators = computeBcaIndicators(benefit, cost, discountRate, horizonYears);
+    return {
+      region: d.district,
+      baselineEad: d.baselineEad,
+      interventionEad: d.interventionEad,
+      avoidedEad: d.baselineEad - d.interventionEad,
+      baselineEal: d.baselineEal,
+      interventionEal: d.interventionEal,
+      avoidedEal: d.baselineEal - d.interventionEal,
+      cost,
+      indicators,
+      assets: buildAssets(d.avoidedEadByAsset, d.avoidedEalByAsset, benefit, indicators),
+    };
+  });
+
+  // TOTAL = sum of the 7 districts (costs included)
+  const totalCost: BcaCost = results.reduce(
+    (acc, r) => ({ capital: acc.capital + r.cost.capital, annualOm: acc.annualOm + r.cost.annualOm }),
+    { capital: 0, annualOm: 0 }
+  );
+  const sumAssets = (pick: (d: (typeof avoided)[number]) => Record<AssetSubKey, number>) =>
+    Object.fromEntries(
+      ASSET_SUB_KEYS.map((a) => [a, avoided.reduce((s, d) => s + pick(d)[a], 0)])
+    ) as Record<AssetSubKey, number>;
+  const totalIndicators = computeBcaIndicators(totalBenefit, totalCost, discountRate, horizonYears);
+  const sum = (pick: (r: BcaRegionResult) => number) => results.reduce((s, r) => s + pick(r), 0);
+
+  results.push({
+    region: 'TOTAL',
+    baselineEad: sum((r) => r.baselineEad),
+    interventionEad: sum((r) => r.interventionEad),
+    avoidedEad: sum((r) => r.avoidedEad),
+    baselineEal: sum((r) => r.baselineEal),
+    interventionEal: sum((r) => r.interventionEal),
+    avoidedEal: sum((r) => r.avoidedEal),
+    cost: totalCost,
+    indicators: totalIndicators,
+    assets: buildAssets(
+      sumAssets((d) => d.avoidedEadByAsset),
+      sumAssets((d) => d.avoidedEalByAsset),
+      totalBenefit,
+      totalIndicators
+    ),
+  });
+
+  return results;
+}
+
+/**
+ * Serialize BCA results as CSV (one row per region × asset plus region totals).
+ */
+export function bcaResultsToCsv(results: BcaRegionResult[], inputs: BcaInputs): string {
+  const header = [
+    'Region', 'Asset', 'Baseline_EAD', 'Intervention_EAD', 'Avoided_EAD',
+    'Baseline_EAL', 'Intervention_EAL', 'Avoided_EAL',
+    'Capital_Cost', 'Annual_OM_Cost', 'PV_Benefits', 'PV_Costs', 'NPV', 'BCR', 'IRR',
+  ].join(',');
+
+  const fmt = (v: number | null) => (v === null ? '' : String(Math.round(v * 100) / 100));
+  const rows: string[] = [];
+  for (const r of results) {
+    const region = `"${r.region}"`;
+    rows.push([
+      region, 'ALL',
+      fmt(r.baselineEad), fmt(r.interventionEad), fmt(r.avoidedEad),
+      fmt(r.baselineEal), fmt(r.interventionEal), fmt(r.avoidedEal),
+      fmt(r.cost.capital), fmt(r.cost.annualOm),
+      fmt(r.indicators.pvBenefits), fmt(r.indicators.pvCosts), fmt(r.indicators.npv),
+      r.indicators.bcr === null ? '' : r.indicators.bcr.toFixed(3),
+      r.indicators.irr === null ? '' : r.indicators.irr.toFixed(4),
+    ].join(','));
+    for (const a of r.assets) {
+      rows.push([
+        region, a.asset, '', '', fmt(a.avoidedEad), '', '', fmt(a.avoidedEal),
+        '', '', fmt(a.pvBenefits), '', fmt(a.npv), '', '',
+      ].join(','));
+    }
+  }
+
+  const meta = [
+    `# Baseline: ${inputs.baseline.datasetId} ${inputs.baseline.maintenance}; Intervention: ${inputs.intervention.datasetId} ${inputs.intervention.maintenance}`,
+    `# Benefit basis: ${inputs.benefitBasis}; Discount rate: ${inputs.discountRate}; Horizon: ${inputs.horizonYears} years`,
+  ];
+  return [...meta, header, ...rows].join('\n');
+}
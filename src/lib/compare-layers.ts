@@ -0,0 +1,147 @@
+/**
+ * Compare Layers
+ *
+ * Layer catalog and OpenLayers layer construction shared by the swipe,
+ * spyglass and grid compare views. The catalog covers every layer in the
+ * layer tree plus the impacted exposure layers of every scenario, so a
+ * panel can show vector impacts as well as hazard rasters.
+ */
+
+import TileLayer from 'ol/layer/Tile';
+import type TileWMS from 'ol/source/TileWMS';
+import XYZ from 'ol/source/XYZ';
+import { baseMaps, buildLayerName, layerTree } from '@/config/layers';
+import { Z_INDEX_PRIORITY, climateScenarios, isLayerGroup, maintenanceLevels, returnPeriods } from '@/types/layers';
+import type { LayerGroup, LayerInfo } from '@/types/layers';
+import {
+  EXPOSURE_LAYER_GEOMETRY,
+  EXPOSURE_LAYER_LABELS,
+  EXPOSURE_LAYER_TYPES,
+  IMPACT_DEPTH_STYLES,
+  IMPACT_LAYER_WORKSPACE,
+  buildImpactSchemaName,
+} from '@/types/impact';
+import { createWmsTileSource } from '@/lib/wms-source';
+import type { CompareLayer, GridPanelConfig } from '@/types/compare';
+import { MAX_GRID_PANELS } from '@/types/compare';
+
+type Climate = 'present' | 'future';
+type Maintenance = 'breaches' | 'redcapacity' | 'perfect';
+
+/** Return periods of the default grid panels, one per panel */
+const DEFAULT_PANEL_RETURN_PERIODS = ['2.3', '5', '10', '25', '100', '500'];
+
+/**
+ * Every layer in a layer tree with its group path
+ */
+export function collectLayersWithPath(tree: LayerGroup, path: string[] = []): CompareLayer[] {
+  const layers: CompareLayer[] = [];
+
+  const traverse = (node: LayerGroup | LayerInfo, currentPath: string[]) => {
+    if (isLayerGroup(node)) {
+      node.children.forEach((child) => traverse(child, [...currentPath, node.name]));
+    } else {
+      layers.push({ ...node, path: currentPath });
+    }
+  };
+
+  traverse(tree, path);
+  return layers;
+}
+
+/**
+ * Impacted exposure layers for every climate, maintenance level and return
+ * period, styled by flood depth like the Impact Matrix layers
+ */
+export function buildImpactCompareLayers(): CompareLayer[] {
+  const layers: CompareLayer[] = [];
+  for (const climate of climateScenarios) {
+    for (const maintenance of maintenanceLevels) {
+      for (const rp of returnPeriods) {
+        const schema = buildImpactSchemaName(rp.value, climate.value as Climate, maintenance.value as Maintenance);
+        for (const exposureType of EXPOSURE_LAYER_TYPES) {
+          const geometryType = EXPOSURE_LAYER_GEOMETRY[exposureType];
+          const geoserverName = `${schema}_${exposureType}`;
+          layers.push({
+            id: geoserverName,
+            name: EXPOSURE_LAYER_LABELS[exposureType],
+            type: 'wms',
+            geometryType,
+            visible: false,
+            opacity: 0.8,
+            geoserverName,
+            workspace: IMPACT_LAYER_WORKSPACE,
+            style: IMPACT_DEPTH_STYLES[geometryType],
+            zIndex: Z_INDEX_PRIORITY[geometryType],
+            path: ['Impacts', climate.label, maintenance.label, rp.label],
+          });
+        }
+      }
+    }
+  }
+  return layers;
+}
+
+/**
+ * All layers offered by the compare views
+ *
+ * @param styledLayers - Layers restyled on the main map; catalog entries
+ *   with the same id take their SLD and legend
+ */
+export function buildCompareCatalog(styledLayers: LayerInfo[] = []): CompareLayer[] {
+  const styled = new Map(styledLayers.filter((l) => l.sldBody).map((l) => [l.id, l]));
+  return [...collectLayersWithPath(layerTree), ...buildImpactCompareLayers()].map((layer) => {
+    const match = styled.get(layer.id);
+    return match ? { ...layer, sldBody: match.sldBody, legendUrl: match.legendUrl } : layer;
+  });
+}
+
+/** "Group › Subgroup › Layer" */
+export function compareLayerLabel(layer: CompareLayer): string {
+  return [...layer.path, layer.name].join(' › ');
+}
+
+/**
+ * Tile layer for a catalog entry, with the same WMS source as the main map
+ */
+export function createCompareTileLayer(layer: CompareLayer): TileLayer<TileWMS | XYZ> {
+  const zIndex = layer.zIndex ?? Z_INDEX_PRIORITY[layer.geometryType ?? 'polygon'];
+  if (layer.type === 'xyz' && layer.url) {
+    return new TileLayer<TileWMS | XYZ>({
+      source: new XYZ({ url: layer.url, crossOrigin: 'anonymous' }),
+      opacity: layer.opacity,
+      zIndex,
+    });
+  }
+  return new TileLayer<TileWMS | XYZ>({
+    source: createWmsTileSource(layer),
+    opacity: layer.opacity,
+    zIndex,
+  });
+}
+
+/**
+ * Base map tile layers (one per base map, only the default visible)
+ */
+export function createBaseTileLayers(): TileLayer<XYZ>[] {
+  return baseMaps.map((bm) =>
+    new TileLayer({
+      source: new XYZ({
+        url: bm.url,
+        attributions: bm.id === 'satellite' ? '© Google' : '© OpenStreetMap',
+      }),
+      visible: bm.visible,
+      zIndex: -1,
+    })
+  );
+}
+
+/**
+ * Default grid: present-climate depth with breaches, one return period per
+ * panel
+ */
+export function defaultGridPanels(): GridPanelConfig[] {
+  return DEFAULT_PANEL_RETURN_PERIODS.slice(0, MAX_GRID_PANELS).map((rp) => ({
+    layerIds: [buildLayerName('present', 'breaches', rp, 'maxdepth')],
+  }));
+}
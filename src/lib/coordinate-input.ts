@@ -0,0 +1,199 @@
+/**
+ * Coordinate Input
+ *
+ * Parses typed coordinates — UTM 42N easting/northing, decimal degrees,
+ * degrees-minutes-seconds and MGRS — into map coordinates (EPSG:32642),
+ * and formats map coordinates as MGRS. Relies on the EPSG:32642 proj4
+ * definition registered by MapViewer.
+ */
+
+import proj4 from 'proj4';
+import { MAP_CONFIG } from '@/config/layers';
+
+export type CoordinateFormat = 'utm' | 'dd' | 'dms' | 'mgrs';
+
+export type ParsedCoordinate =
+  | { ok: true; format: CoordinateFormat; coordinate: number[]; lonLat: number[] }
+  | { ok: false; error: string };
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  utm: 'UTM 42N',
+  dd: 'Decimal degrees',
+  dms: 'Degrees, minutes, seconds',
+  mgrs: 'MGRS',
+};
+
+const WGS84 = 'EPSG:4326';
+
+/** MGRS latitude bands, 8° each from 80°S (X spans 72–84°N) */
+const LATITUDE_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+/** 100 km row letters; even zone sets start five letters in */
+const ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
+/** 100 km column letters for zone sets 1–3 (repeating for 4–6) */
+const COLUMN_LETTERS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+
+function utmProjection(zone: number, south: boolean): string {
+  return `+proj=utm +zone=${zone}${south ? ' +south' : ''} +datum=WGS84 +units=m +no_defs`;
+}
+
+function fromLonLat(lonLat: number[]): number[] {
+  return proj4(WGS84, MAP_CONFIG.projection, lonLat);
+}
+
+function toLonLat(coordinate: number[]): number[] {
+  return proj4(MAP_CONFIG.projection, WGS84, coordinate);
+}
+
+export function isWithinMapExtent(coordinate: number[]): boolean {
+  const [minX, minY, maxX, maxY] = MAP_CONFIG.extent;
+  return coordinate[0] >= minX && coordinate[0] <= maxX && coordinate[1] >= minY && coordinate[1] <= maxY;
+}
+
+function parseMgrs(input: string): number[] | null {
+  const match = input.replace(/\s+/g, '').toUpperCase().match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d*)$/);
+  if (!match) return null;
+  const [, zoneText, band, column, row, digits] = match;
+  if (digits.length % 2 !== 0 || digits.length > 10) return null;
+  const zone = Number(zoneText);
+  if (zone < 1 || zone > 60) return null;
+
+  const set = (zone - 1) % 6;
+  const columnIndex = COLUMN_LETTERS[set % 3].indexOf(column);
+  if (columnIndex < 0) return null;
+  const rowIndex = (ROW_LETTERS.indexOf(row) - (set % 2 === 1 ? 5 : 0) + ROW_LETTERS.length) % ROW_LETTERS.length;
+
+  // Precision 1–5 digits each; the point is the centre of the square
+  const precision = digits.length / 2;
+  const scale = 10 ** (5 - precision);
+  const half = precision > 0 ? scale / 2 : 50000;
+  const easting = (columnIndex + 1) * 100000 + (precision > 0 ? Number(digits.slice(0, precision)) * scale : 0) + half;
+  let northing = rowIndex * 100000 + (precision > 0 ? Number(digits.slice(precision)) * scale : 0) + half;
+
+  // Row letters repeat every 2000 km: lift the northing into the latitude band
+  const bandIndex = LATITUDE_BANDS.indexOf(band);
+  const south = bandIndex < LATITUDE_BANDS.indexOf('N');
+  const bandSouth = -80 + bandIndex * 8;
+  const projection = utmProjection(zone, south);
+  const centralMeridian = zone * 6 - 183;
+  const bandNorthing = proj4(WGS84, projection, [centralMeridian, bandSouth])[1];
+  const minNorthing = bandNorthing - (bandNorthing % 2000000);
+  northing += minNorthing;
+  if (northing < bandNorthing - 100000) northing += 2000000;
+
+  return proj4(projection, WGS84, [easting, northing]);
+}
+
+/**
+ * Map coordinate as MGRS with 1 m precision (e.g. "42R VR 39335 80045")
+ */
+export function formatMgrs(coordinate: number[]): string {
+  const [lon, lat] = toLonLat(coordinate);
+  const zone = Math.min(60, Math.floor((lon + 180) / 6) + 1);
+  const band = LATITUDE_BANDS[Math.min(LATITUDE_BANDS.length - 1, Math.max(0, Math.floor((lat + 80) / 8)))];
+  const [easting, northing] = proj4(WGS84, utmProjection(zone, lat < 0), [lon, lat]);
+
+  const set = (zone - 1) % 6;
+  const column = COLUMN_LETTERS[set % 3][Math.floor(easting / 100000) - 1] ?? '?';
+  const row = ROW_LETTERS[(Math.floor(northing / 100000) + (set % 2 === 1 ? 5 : 0)) % ROW_LETTERS.length];
+  const e = String(Math.floor(easting % 100000)).padStart(5, '0');
+  const n = String(Math.floor(northing % 100000)).padStart(5, '0');
+  return `${zone}${band} ${column}${row} ${e} ${n}`;
+}
+
+/** A latitude or longitude from its parts; hemisphere letters make it negative for S/W */
+function dmsToDecimal(degrees: number, minutes: number, seconds: number, hemisphere: string | undefined): number {
+  const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  return degrees < 0 || hemisphere === 'S' || hemisphere === 'W' ? -value : value;
+}
+
+/**
+ * Latitude/longitude from "27.85, 67.9", "27.85N 67.9E" or DMS such as
+ * 27°51'00"N 67°54'00"E or N27 51 0, E67 54 0
+ */
+function parseLatLon(input: string): { lonLat: number[]; format: 'dd' | 'dms' } | null {
+  const tokens = input.toUpperCase().replace(/[°º˚'′’"″”]/g, ' ').match(/[NSEW]|-?\d+(?:\.\d+)?|,/g);
+  if (!tokens) return null;
+
+  // Split into two coordinates at the hemisphere letters, else a comma, else evenly
+  const letters = tokens.filter((t) => /[NSEW]/.test(t)).length;
+  const values = tokens.filter((t) => t !== ',');
+  let groups: string[][];
+  if (letters === 2) {
+    const prefixed = /[NSEW]/.test(values[0]);
+    const split = prefixed
+      ? values.findIndex((t, i) => i > 0 && /[NSEW]/.test(t))
+      : values.findIndex((t) => /[NSEW]/.test(t)) + 1;
+    groups = [values.slice(0, split), values.slice(split)];
+  } else if (letters === 0 && tokens.includes(',')) {
+    const comma = tokens.indexOf(',');
+    groups = [tokens.slice(0, comma), tokens.slice(comma + 1).filter((t) => t !== ',')];
+  } else if (letters === 0 && values.length % 2 === 0) {
+    groups = [values.slice(0, values.length / 2), values.slice(values.length / 2)];
+  } else {
+    return null;
+  }
+
+  const decoded: { value: number; hemisphere?: string; dms: boolean }[] = [];
+  for (const group of groups) {
+    const hemisphere = group.find((t) => /[NSEW]/.test(t));
+    const numbers = group.filter((t) => !/[NSEW]/.test(t)).map(Number);
+    if (numbers.length < 1 || numbers.length > 3) return null;
+    const [d, m = 0, s = 0] = numbers;
+    if (m < 0 || m >= 60 || s < 0 || s >= 60) return null;
+    decoded.push({ value: dmsToDecimal(d, m, s, hemisphere), hemisphere, dms: numbers.length > 1 });
+  }
+  const [a, b] = decoded;
+
+  // Latitude first unless the hemisphere letters say otherwise
+  const swap = a.hemisphere === 'E' || a.hemisphere === 'W' || b.hemisphere === 'N' || b.hemisphere === 'S';
+  const [lat, lon] = swap ? [b.value, a.value] : [a.value, b.value];
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lonLat: [lon, lat], format: a.dms || b.dms ? 'dms' : 'dd' };
+}
+
+/**
+ * UTM 42N easting and northing, e.g. "439335 3080045" or "E: 439335 N: 3080045"
+ */
+function parseUtm(input: string): number[] | null {
+  const text = input.toUpperCase().replace(/\b42\s*[NR]?\b|\bUTM\b/g, ' ');
+  const numbers = text.match(/\d+(?:\.\d+)?/g)?.map(Number);
+  if (!numbers || numbers.length !== 2 || numbers.some((n) => n < 1000)) return null;
+  // Allow "N ... E ..." order; easting has 6 digits, northing 7
+  const [a, b] = numbers;
+  return /^\s*N/.test(text) || a > b ? [b, a] : [a, b];
+}
+
+/**
+ * Parse a typed coordinate and check it lies within the map extent.
+ */
+export function parseCoordinateInput(input: string): ParsedCoordinate {
+  const text = input.trim();
+  if (!text) return { ok: false, error: 'Enter a coordinate' };
+
+  const finish = (format: CoordinateFormat, coordinate: number[], lonLat: number[]): ParsedCoordinate =>
+    isWithinMapExtent(coordinate)
+      ? { ok: true, format, coordinate, lonLat }
+      : { ok: false, error: `${COORDINATE_FORMAT_LABELS[format]} coordinate is outside the study area` };
+
+  const mgrs = parseMgrs(text);
+  if (mgrs) return finish('mgrs', fromLonLat(mgrs), mgrs);
+
+  const utm = parseUtm(text);
+  if (utm) return finish('utm', utm, toLonLat(utm));
+
+  const latLon = parseLatLon(text);
+  if (latLon) {
+    const coordinate = fromLonLat(latLon.lonLat);
+    // Unlabelled "lon, lat" order: accept it when only the swapped point is in the study area
+    const [lon, lat] = latLon.lonLat;
+    if (!isWithinMapExtent(coordinate) && Math.abs(lon) <= 90 && !/[NSEW]/i.test(text)) {
+      const swapped = fromLonLat([lat, lon]);
+      if (isWithinMapExtent(swapped)) return finish(latLon.format, swapped, [lat, lon]);
+    }
+    return finish(latLon.format, coordinate, latLon.lonLat);
+  }
+
+  return { ok: false, error: 'Unrecognised coordinate — use UTM, decimal degrees, DMS or MGRS' };
+}
@@ -0,0 +1,161 @@
+/**
+ * Depth–Damage Engine
+ *
+ * Recomputes the Vul and Dmg blocks of risk.json from exposure (Exp) and the
+ * impact depth-bin distributions, so alternative vulnerability assumptions
+ * can be compared against the precomputed xlsx damages:
+ *
+ *   Vul = Exp × Σ_bins share(bin) × f(depth(bin))
+ *   Dmg = Vul × unitValue
+ *
+ * Depth-bin shares come from the study-wide impact summary (no per-district
+ * breakdown), so every district of a scenario shares one depth distribution
+ * per asset. Assets without a distribution keep their original Vul/Dmg.
+ */
+
+import { ASSET_SUB_KEYS } from '@/types/risk';
+import type { RegionRiskData, RiskAssetKey, RiskJsonData, RiskMode, ScenarioKey } from '@/types/risk';
+import { DEPTH_BINS } from '@/types/impact';
+import type { DepthBinRange, ScenarioImpactSummary } from '@/types/impact';
+import { ASSET_DEPTH_SOURCE, DEPTH_BIN_REPRESENTATIVE_DEPTH } from '@/types/depth-damage';
+import type {
+  DepthBinShares,
+  DepthDamageConfig,
+  DepthDamagePoint,
+  ScenarioDepthDistributions,
+} from '@/types/depth-damage';
+
+export type DepthDamageResult = {
+  /** risk.json with Vul/Dmg replaced where a depth distribution exists */
+  data: RiskJsonData;
+  /** Scenario × district × asset cells with exposure that kept the original Dmg */
+  fallbackCells: number;
+  /** Cells with exposure recomputed from the curves */
+  recomputedCells: number;
+};
+
+/**
+ * Damage fraction at a depth: linear between vertices, flat outside the
+ * first and last vertex, clamped to [0, 1].
+ */
+export function interpolateDamageFraction(points: DepthDamagePoint[], depth: number): number {
+  if (points.length === 0) return 0;
+  const sorted = [...points].sort((a, b) => a.depth - b.depth);
+  const clamp = (f: number) => Math.max(0, Math.min(1, f));
+
+  if (depth <= sorted[0].depth) return clamp(sorted[0].fraction);
+  for (let i = 1; i < sorted.length; i++) {
+    const lo = sorted[i - 1];
+    const hi = sorted[i];
+    if (depth <= hi.depth) {
+      if (hi.depth === lo.depth) return clamp(hi.fraction);
+      const t = (depth - lo.depth) / (hi.depth - lo.depth);
+      return clamp(lo.fraction + t * (hi.fraction - lo.fraction));
+    }
+  }
+  return clamp(sorted[sorted.length - 1].fraction);
+}
+
+/**
+ * Mean damage fraction over a depth distribution.
+ */
+export function meanDamageFraction(points: DepthDamagePoint[], shares: DepthBinShares): number {
+  return DEPTH_BINS.reduce(
+    (sum, bin) => sum + shares[bin] * interpolateDamageFraction(points, DEPTH_BIN_REPRESENTATIVE_DEPTH[bin]),
+    0
+  );
+}
+
+/**
+ * Normalise per-bin weights to shares summing to 1; null when all weights are 0.
+ */
+function toShares(weights: Partial<Record<DepthBinRange, number | null>>): DepthBinShares | null {
+  const total = DEPTH_BINS.reduce((sum, bin) => sum + Math.max(0, weights[bin] ?? 0), 0);
+  if (total <= 0) return null;
+  return Object.fromEntries(
+    DEPTH_BINS.map((bin) => [bin, Math.max(0, weights[bin] ?? 0) / total])
+  ) as DepthBinShares;
+}
+
+/**
+ * Per-asset depth-bin shares for one impact scenario.
+ *
+ * Exposure layers use the bin percentages (area-based for zonal layers,
+ * feature counts otherwise); population-sourced assets use the population
+ * per bin.
+ */
+export function buildScenarioDepthDistributions(summary: ScenarioImpactSummary): ScenarioDepthDistributions {
+  const populationShares = summary.populationImpact
+    ? toShares(Object.fromEntries(summary.populationImpact.depthBins.map((b) => [b.range, b.population])))
+    : null;
+
+  const distributions: ScenarioDepthDistributions = {};
+  for (const asset of ASSET_SUB_KEYS) {
+    const source = ASSET_DEPTH_SOURCE[asset];
+    let shares: DepthBinShares | null;
+    if (source === 'population') {
+      shares = populationShares;
+    } else {
+      const bins = summary.impacts[source]?.depthBins ?? [];
+      shares =
+        toShares(Object.fromEntries(bins.map((b) => [b.range, b.percentage]))) ??
+        toShares(Object.fromEntries(bins.map((b) => [b.range, b.count])));
+    }
+    if (shares) distributions[asset] = shares;
+  }
+  return distributions;
+}
+
+/**
+ * Build an alternative risk dataset from depth–damage curves.
+ *
+ * @param data - Original risk.json (Exp is reused as-is)
+ * @param distributions - Depth-bin shares per scenario key
+ * @param config - Curve and unit value per asset
+ */
+export function computeDepthDamageRiskData(
+  data: RiskJsonData,
+  distributions: Record<ScenarioKey, ScenarioDepthDistributions>,
+  config: DepthDamageConfig
+): DepthDamageResult {
+  let fallbackCells = 0;
+  let recomputedCells = 0;
+
+  const scenarios = Object.fromEntries(
+    Object.entries(data.data).map(([key, regions]) => {
+      const shares = distributions[key] ?? {};
+      const meanFraction = Object.fromEntries(
+        ASSET_SUB_KEYS.map((asset) => {
+          const assetShares = shares[asset];
+          return [asset, assetShares ? meanDamageFraction(config[asset].points, assetShares) : null];
+        })
+      ) as Record<RiskAssetKey, number | null>;
+
+      const recomputed = Object.fromEntries(
+        Object.entries(regions).map(([region, modes]) => {
+          const vul = { ...modes.Vul };
+          const dmg = { ...modes.Dmg };
+          for (const asset of ASSET_SUB_KEYS) {
+            const exposure = modes.Exp?.[asset] ?? 0;
+            const fraction = meanFraction[asset];
+            if (fraction === null) {
+              if (exposure > 0) fallbackCells++;
+              continue;
+            }
+            if (exposure > 0) recomputedCells++;
+            vul[asset] = exposure * fraction;
+            dmg[asset] = vul[asset] * config[asset].unitValue;
+          }
+          return [region, { ...modes, Vul: vul, Dmg: dmg } as Record<RiskMode, RegionRiskData>];
+        })
+      );
+      return [key, recomputed];
+    })
+  );
+
+  return {
+    data: { ...data, data: scenarios },
+    fallbackCells,
+    recomputedCells,
+  };
+}
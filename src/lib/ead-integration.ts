@@ -0,0 +1,266 @@
+/**
+ * Expected Annual Value Integration
+ *
+ * Shared engine for integrating a risk curve (value vs return period) over
+ * annual exceedance probability (AEP = 1/RP). Used for EAD, EAL, EAF and EAPA
+ * in the dashboard and by the Node report scripts.
+ *
+ * This module has no imports and only erasable TypeScript syntax, so Node can
+ * load it directly with --experimental-strip-types (see scripts/generate-ead-report.mjs).
+ */
+
+/**
+ * How value varies between two modelled return periods.
+ * - trapezoid: linear in AEP (the historical method)
+ * - loglinear: linear in ln(AEP), which follows the curvature of typical damage curves
+ * - step: constant at the rarer event's value over the interval (conservative upper sum)
+ */
+export type EadIntegrationMethod = 'trapezoid' | 'loglinear' | 'step';
+
+/**
+ * Treatment of the curve beyond the rarest modelled return period.
+ * - none: nothing beyond the last RP is counted
+ * - cap: value held at the last RP's value down to AEP = 0
+ * - extrapolate: last segment extended (in the method's space) up to maxReturnPeriod
+ */
+export type EadUpperTail = 'none' | 'cap' | 'extrapolate';
+
+export type EadIntegrationOptions = {
+  method: EadIntegrationMethod;
+  /**
+   * Return period at and below which value is zero (no-damage threshold).
+   * When set below the most frequent modelled RP, the interval between them is
+   * integrated as a lower tail. null = ignore frequent flooding below the first RP.
+   */
+  noDamageReturnPeriod: number | null;
+  upperTail: EadUpperTail;
+  /** Rarest return period (1 / minimum AEP) reached when upperTail is 'extrapolate' */
+  maxReturnPeriod: number;
+};
+
+/** Where an interval sits relative to the modelled return periods */
+export type EadIntervalKind = 'lower-tail' | 'modelled' | 'upper-tail';
+
+/** Contribution of one return-period interval to the expected annual value */
+export type EadIntervalContribution = {
+  kind: EadIntervalKind;
+  /** More frequent bound (years) */
+  fromReturnPeriod: number;
+  /** Rarer bound (years); Infinity for a capped tail to AEP = 0 */
+  toReturnPeriod: number;
+  fromValue: number;
+  toValue: number;
+  contribution: number;
+};
+
+export type EadIntegrationResult = {
+  total: number;
+  intervals: EadIntervalContribution[];
+};
+
+export type RiskCurvePoint = { returnPeriod: number; damage: number };
+
+/** Historical behaviour: trapezoid between the first and last modelled RP, no tails */
+export const DEFAULT_EAD_INTEGRATION: EadIntegrationOptions = {
+  method: 'trapezoid',
+  noDamageReturnPeriod: null,
+  upperTail: 'none',
+  maxReturnPeriod: 1000,
+};
+
+export const EAD_METHOD_LABELS: Record<EadIntegrationMethod, string> = {
+  trapezoid: 'Trapezoid',
+  loglinear: 'Log-linear',
+  step: 'Step',
+};
+
+export const EAD_UPPER_TAIL_LABELS: Record<EadUpperTail, string> = {
+  none: 'None',
+  cap: 'Cap at last RP',
+  extrapolate: 'Extrapolate',
+};
+
+/**
+ * Integral of value over AEP between p1 (more frequent) and p2 (rarer), p1 > p2 > 0.
+ */
+function integrateSegment(
+  p1: number,
+  v1: number,
+  p2: number,
+  v2: number,
+  method: EadIntegrationMethod
+): number {
+  const dp = p1 - p2;
+  if (dp <= 0) return 0;
+
+  switch (method) {
+    case 'trapezoid':
+      return 0.5 * (v1 + v2) * dp;
+    case 'step':
+      return v2 * dp;
+    case 'loglinear': {
+      // V(p) = v1 + (v2 - v1) * (ln p1 - ln p) / L,  L = ln p1 - ln p2
+      // ∫ (ln p1 - ln p) dp over [p2, p1] = dp - p2 * L
+      const L = Math.log(p1) - Math.log(p2);
+      if (L <= 0) return 0.5 * (v1 + v2) * dp;
+      return v1 * dp + ((v2 - v1) * (dp - p2 * L)) / L;
+    }
+  }
+}
+
+/**
+ * Value at AEP p on the line through (p1, v1) and (p2, v2) in the method's space.
+ */
+function extendSegment(
+  p1: number,
+  v1: number,
+  p2: number,
+  v2: number,
+  p: number,
+  method: EadIntegrationMethod
+): number {
+  if (method === 'step') return v2;
+  if (method === 'loglinear') {
+    const L = Math.log(p1) - Math.log(p2);
+    if (L <= 0) return v2;
+    return v1 + ((v2 - v1) * (Math.log(p1) - Math.log(p))) / L;
+  }
+  if (p1 === p2) return v2;
+  return v1 + ((v2 - v1) * (p1 - p)) / (p1 - p2);
+}
+
+/**
+ * Integrate a risk curve over AEP and report each interval's contribution.
+ *
+ * @param points - { returnPeriod, damage } pairs, any order; non-positive RPs are ignored
+ * @param options - Method and tail handling (defaults reproduce the trapezoid 2.3–500yr result)
+ */
+export function integrateRiskCurve(
+  points: RiskCurvePoint[],
+  options: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION
+): EadIntegrationResult {
+  const sorted = points
+    .filter((p) => p.returnPeriod > 0 && Number.isFinite(p.damage))
+    .sort((a, b) => a.returnPeriod - b.returnPeriod);
+
+  const intervals: EadIntervalContribution[] = [];
+  if (sorted.length === 0) return { total: 0, intervals };
+
+  const { method, noDamageReturnPeriod, upperTail, maxReturnPeriod } = options;
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  // Lower tail: zero value at the no-damage threshold, rising to the first modelled RP
+  if (noDamageReturnPeriod !== null && noDamageReturnPeriod > 0 && noDamageReturnPeriod < first.returnPeriod) {
+    intervals.push({
+      kind: 'lower-tail',
+      fromReturnPeriod: noDamageReturnPeriod,
+      toReturnPeriod: first.returnPeriod,
+      fromValue: 0,
+      toValue: first.damage,
+      contribution: integrateSegment(1 / noDamageReturnPeriod, 0, 1 / first.returnPeriod, first.damage, method),
+    });
+  }
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const a = sorted[i];
+    const b = sorted[i + 1];
+    intervals.push({
+      kind: 'modelled',
+      fromReturnPeriod: a.returnPeriod,
+      toReturnPeriod: b.returnPeriod,
+      fromValue: a.damage,
+      toValue: b.damage,
+      contribution: integrateSegment(1 / a.returnPeriod, a.damage, 1 / b.returnPeriod, b.damage, method),
+    });
+  }
+
+  if (upperTail === 'cap') {
+    intervals.push({
+      kind: 'upper-tail',
+      fromReturnPeriod: last.returnPeriod,
+      toReturnPeriod: Infinity,
+      fromValue: last.damage,
+      toValue: last.damage,
+      contribution: last.damage / last.returnPeriod,
+    });
+  } else if (upperTail === 'extrapolate' && maxReturnPeriod > last.returnPeriod) {
+    const prev = sorted.length > 1 ? sorted[sorted.length - 2] : last;
+    // Extend the last segment, never below zero
+    const tailValue = Math.max(
+      0,
+      extendSegment(1 / prev.returnPeriod, prev.damage, 1 / last.returnPeriod, last.damage, 1 / maxReturnPeriod, method)
+    );
+    intervals.push({
+      kind: 'upper-tail',
+      fromReturnPeriod: last.returnPeriod,
+      toReturnPeriod: maxReturnPeriod,
+      fromValue: last.damage,
+      toValue: tailValue,
+      contribution: integrateSegment(1 / last.returnPeriod, last.damage, 1 / maxReturnPeriod, tailValue, method),
+    });
+  }
+
+  const total = intervals.reduce((sum, iv) => sum + iv.contribution, 0);
+  return { total, intervals };
+}
+
+/**
+ * Expected annual value of a risk curve (EAD, EAL, EAF, EAPA).
+ */
+export function calculateExpectedAnnualValue(
+  points: RiskCurvePoint[],
+  options: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION
+): number {
+  return integrateRiskCurve(points, options).total;
+}
+
+/**
+ * Sum several integration results interval by interval (e.g. assets into a
+ * district, districts into TOTAL). Intervals are matched on kind and bounds.
+ */
+export function sumIntegrationResults(results: EadIntegrationResult[]): EadIntegrationResult {
+  const byKey = new Map<string, EadIntervalContribution>();
+  for (const result of results) {
+    for (const iv of result.intervals) {
+      const key = `${iv.kind}:${iv.fromReturnPeriod}:${iv.toReturnPeriod}`;
+      const acc = byKey.get(key);
+      if (acc) {
+        acc.fromValue += iv.fromValue;
+        acc.toValue += iv.toValue;
+        acc.contribution += iv.contribution;
+      } else {
+        byKey.set(key, { ...iv });
+      }
+    }
+  }
+
+  const kindOrder: Record<EadIntervalKind, number> = { 'lower-tail': 0, modelled: 1, 'upper-tail': 2 };
+  const intervals = [...byKey.values()].sort(
+    (a, b) => kindOrder[a.kind] - kindOrder[b.kind] || a.fromReturnPeriod - b.fromReturnPeriod
+  );
+  const total = intervals.reduce((sum, iv) => sum + iv.contribution, 0);
+  return { total, intervals };
+}
+
+/**
+ * One-line description of the integration settings for view headers.
+ */
+export function describeEadIntegration(
+  options: EadIntegrationOptions,
+  firstReturnPeriod: number,
+  lastReturnPeriod: number
+): string {
+  const parts = [
+    `${EAD_METHOD_LABELS[options.method]} integration across ${firstReturnPeriod}yr – ${lastReturnPeriod}yr`,
+  ];
+  if (options.noDamageReturnPeriod !== null && options.noDamageReturnPeriod < firstReturnPeriod) {
+    parts.push(`no damage at ≤${options.noDamageReturnPeriod}yr`);
+  }
+  if (options.upperTail === 'cap') {
+    parts.push(`capped at ${lastReturnPeriod}yr damage beyond`);
+  } else if (options.upperTail === 'extrapolate' && options.maxReturnPeriod > lastReturnPeriod) {
+    parts.push(`extrapolated to ${options.maxReturnPeriod}yr`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,152 @@
+/**
+ * Gazetteer Search
+ *
+ * Fuzzy place-name matching for the offline search bar. Names and queries
+ * are reduced to a phonetic key that folds the usual differences between
+ * romanisations of Sindhi/Urdu names — Qambar/Kambar, Larkana/Larkano,
+ * Shikarpur/Shikarpoor, Ghotki/Gotki, Shahdad Kot/Shahdadkot,
+ * Mohammad/Muhammad — before prefix, substring and edit-distance matching.
+ */
+
+import type { GazetteerEntry, GazetteerMatch, GazetteerType } from '@/types/gazetteer';
+
+export interface IndexedEntry {
+  entry: GazetteerEntry;
+  normalized: string;
+  /** Phonetic key of the whole name, without spaces */
+  key: string;
+  tokenKeys: string[];
+}
+
+/** Spellings folded to one token before keying */
+const TOKEN_VARIANTS: Record<string, string> = {
+  mohammad: 'muhammad',
+  mohammed: 'muhammad',
+  muhammed: 'muhammad',
+  mohamad: 'muhammad',
+  muhamad: 'muhammad',
+  mohd: 'muhammad',
+  muhd: 'muhammad',
+  md: 'muhammad',
+  ghot: 'goth',
+  got: 'goth',
+  gote: 'goth',
+  shareef: 'sharif',
+  shareif: 'sharif',
+  ghulam: 'gulam',
+};
+
+/** Ties between equal scores go to the larger kind of place */
+const TYPE_RANK: Record<GazetteerType, number> = {
+  district: 0,
+  settlement: 1,
+  hospital: 2,
+  bhu: 3,
+  school: 4,
+};
+
+const MIN_QUERY_LENGTH = 2;
+const MIN_SIMILARITY = 0.7;
+
+/** Lower case, no accents or punctuation, single spaces */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Phonetic key of one normalised token
+ */
+export function phoneticKey(token: string): string {
+  let key = TOKEN_VARIANTS[token] ?? token;
+  key = key
+    // Keep ch and sh apart from the c → k and aspirate folding below
+    .replace(/ch/g, '1')
+    .replace(/sh/g, '2')
+    .replace(/ph/g, 'f')
+    .replace(/([bdgjkprt])h/g, '$1')
+    .replace(/ck|c|q/g, 'k')
+    .replace(/v/g, 'w')
+    .replace(/ee|ii|y/g, 'i')
+    .replace(/oo|ou/g, 'u')
+    .replace(/e/g, 'i')
+    .replace(/o/g, 'u')
+    .replace(/(.)\1+/g, '$1');
+  // Final vowels vary (Larkana/Larkano, Dadu/Dado)
+  if (key.length > 3) key = key.replace(/[aiu]$/, '');
+  return key.replace(/1/g, 'ch').replace(/2/g, 'sh');
+}
+
+export function buildGazetteerIndex(entries: GazetteerEntry[]): IndexedEntry[] {
+  return entries.map((entry) => {
+    const normalized = normalizeName(entry.name);
+    const tokenKeys = normalized.split(' ').filter(Boolean).map(phoneticKey);
+    return { entry, normalized, key: tokenKeys.join(''), tokenKeys };
+  });
+}
+
+/** Levenshtein distance */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (Math.abs(a.length - b.length) > 3) return 0;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+function scoreEntry(item: IndexedEntry, normalized: string, key: string, tokenKeys: string[]): number {
+  if (item.normalized === normalized) return 1;
+  if (item.normalized.startsWith(normalized)) return 0.95;
+  if (item.key === key) return 0.9;
+  if (item.key.startsWith(key)) return 0.85;
+  if (tokenKeys.every((t) => item.tokenKeys.some((k) => k.startsWith(t)))) return 0.8;
+  if (key.length >= 3 && item.key.includes(key)) return 0.7;
+
+  // Typos: the whole name, any one word, or the start of the name while typing
+  const best = Math.max(
+    similarity(key, item.key),
+    similarity(key, item.key.slice(0, key.length)),
+    ...item.tokenKeys.map((k) => similarity(key, k))
+  );
+  return best >= MIN_SIMILARITY ? 0.65 * best : 0;
+}
+
+/**
+ * Best matches for a query, highest score first
+ */
+export function searchGazetteer(index: IndexedEntry[], query: string, limit: number = 8): GazetteerMatch[] {
+  const normalized = normalizeName(query);
+  if (normalized.length < MIN_QUERY_LENGTH) return [];
+  const tokenKeys = normalized.split(' ').map(phoneticKey);
+  const key = tokenKeys.join('');
+
+  const matches: GazetteerMatch[] = [];
+  for (const item of index) {
+    const score = scoreEntry(item, normalized, key, tokenKeys);
+    if (score > 0) matches.push({ entry: item.entry, score });
+  }
+  return matches
+    .sort((a, b) =>
+      b.score - a.score ||
+      TYPE_RANK[a.entry.type] - TYPE_RANK[b.entry.type] ||
+      a.entry.name.length - b.entry.name.length
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,295 @@
+/**
+ * GeoPackage Reader
+ *
+ * Reads the feature tables of a GeoPackage without an SQLite library: the
+ * database file is walked as SQLite table b-trees, rows are decoded from
+ * the record format, and geometry blobs (GeoPackage header + WKB) are read
+ * with the OpenLayers WKB format. Only UTF-8 databases are supported;
+ * features stay in the table's own coordinate system.
+ */
+
+import Feature from 'ol/Feature';
+import WKB from 'ol/format/WKB';
+import type Geometry from 'ol/geom/Geometry';
+
+type SqlValue = number | string | Uint8Array | null;
+
+export interface GeoPackageLayer {
+  name: string;
+  features: Feature[];
+  /** "EPSG:xxxx" when the SRS has an EPSG code */
+  projection?: string;
+  /** WKT definition from gpkg_spatial_ref_sys */
+  definition?: string;
+}
+
+const SQLITE_MAGIC = 'SQLite format 3\0';
+const TABLE_LEAF = 0x0d;
+const TABLE_INTERIOR = 0x05;
+
+/** SQLite variable-length integer: value and byte count */
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+}
+
+class SqliteFile {
+  private view: DataView;
+  private bytes: Uint8Array;
+  private pageSize: number;
+  private usableSize: number;
+  private decoder = new TextDecoder();
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+    if (this.decoder.decode(this.bytes.subarray(0, 16)) !== SQLITE_MAGIC) {
+      throw new Error('Not a GeoPackage (SQLite) file');
+    }
+    if (this.view.getUint32(56) > 1) throw new Error('Only UTF-8 GeoPackages are supported');
+    const size = this.view.getUint16(16);
+    this.pageSize = size === 1 ? 65536 : size;
+    this.usableSize = this.pageSize - this.bytes[20];
+  }
+
+  private pageOffset(page: number): number {
+    return (page - 1) * this.pageSize;
+  }
+
+  /** A cell's payload, following overflow pages when it doesn't fit */
+  private payload(offset: number, size: number): Uint8Array {
+    const maxLocal = this.usableSize - 35;
+    if (size <= maxLocal) return this.bytes.subarray(offset, offset + size);
+
+    const minLocal = Math.floor(((this.usableSize - 12) * 32) / 255) - 23;
+    const k = minLocal + ((size - minLocal) % (this.usableSize - 4));
+    const local = k <= maxLocal ? k : minLocal;
+
+    const result = new Uint8Array(size);
+    result.set(this.bytes.subarray(offset, offset + local));
+    let filled = local;
+    let page = this.view.getUint32(offset + local);
+    while (page && filled < size) {
+      const start = this.pageOffset(page);
+      const chunk = Math.min(size - filled, this.usableSize - 4);
+      result.set(this.bytes.subarray(start + 4, start + 4 + chunk), filled);
+      filled += chunk;
+      page = this.view.getUint32(start);
+    }
+    return result;
+  }
+
+  private record(data: Uint8Array): SqlValue[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    const [headerSize, headerBytes] = readVarint(data, 0);
+    const types: number[] = [];
+    for (let offset = headerBytes; offset < headerSize; ) {
+      const [type, n] = readVarint(data, offset);
+      types.push(type);
+      offset += n;
+    }
+
+    const values: SqlValue[] = [];
+    let offset = headerSize;
+    for (const type of types) {
+      if (type === 0) {
+        values.push(null);
+      } else if (type >= 1 && type <= 6) {
+        // Big-endian two's complement integers of 1–8 bytes
+        const length = [0, 1, 2, 3, 4, 6, 8][type];
+        let big = 0n;
+        for (let i = 0; i < length; i++) big = (big << 8n) | BigInt(data[offset + i]);
+        if (data[offset] & 0x80) big -= 1n << BigInt(length * 8);
+        values.push(Number(big));
+        offset += length;
+      } else if (type === 7) {
+        values.push(view.getFloat64(offset));
+        offset += 8;
+      } else if (type === 8 || type === 9) {
+        values.push(type - 8);
+      } else if (type >= 12 && type % 2 === 0) {
+        const length = (type - 12) / 2;
+        values.push(data.slice(offset, offset + length));
+        offset += length;
+      } else if (type >= 13) {
+        const length = (type - 13) / 2;
+        values.push(this.decoder.decode(data.subarray(offset, offset + length)));
+        offset += length;
+      } else {
+        values.push(null);
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Rows of the table b-tree rooted at a page, with their rowids
+   */
+  rows(rootPage: number): { rowid: number; values: SqlValue[] }[] {
+    const rows: { rowid: number; values: SqlValue[] }[] = [];
+    const pages = [rootPage];
+    while (pages.length > 0) {
+      const page = pages.shift() as number;
+      const header = this.pageOffset(page) + (page === 1 ? 100 : 0);
+      const type = this.bytes[header];
+      const cellCount = this.view.getUint16(header + 3);
+
+      if (type === TABLE_INTERIOR) {
+        const children: number[] = [];
+        for (let i = 0; i < cellCount; i++) {
+          const cell = this.pageOffset(page) + this.view.getUint16(header + 12 + i * 2);
+          children.push(this.view.getUint32(cell));
+        }
+        children.push(this.view.getUint32(header + 8));
+        pages.unshift(...children);
+      } else if (type === TABLE_LEAF) {
+        for (let i = 0; i < cellCount; i++) {
+          let cell = this.pageOffset(page) + this.view.getUint16(header + 8 + i * 2);
+          const [size, sizeBytes] = readVarint(this.bytes, cell);
+          cell += sizeBytes;
+          const [rowid, rowidBytes] = readVarint(this.bytes, cell);
+          cell += rowidBytes;
+          rows.push({ rowid, values: this.record(this.payload(cell, size)) });
+        }
+      } else {
+        throw new Error('Corrupt GeoPackage: unexpected page type');
+      }
+    }
+    return rows;
+  }
+}
+
+/**
+ * Column names from a CREATE TABLE statement, and the INTEGER PRIMARY KEY
+ * column (stored as the rowid, not in the record). The key can be declared
+ * anywhere in the column definition, e.g. `srs_id INTEGER NOT NULL PRIMARY
+ * KEY` in gpkg_spatial_ref_sys, or as a one-column table constraint.
+ */
+function parseColumns(sql: string): { columns: string[]; rowidColumn: number } {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current.trim());
+
+  const columns: string[] = [];
+  const integerColumns = new Set<number>();
+  let rowidColumn = -1;
+  let tableKey: string | null = null;
+  for (const definition of definitions) {
+    const constraint = definition.match(/^(?:CONSTRAINT\s+\S+\s+)?PRIMARY\s+KEY\s*\(([^,)]+)\)/i);
+    if (constraint) tableKey = unquoteName(constraint[1].trim().replace(/\s+(ASC|DESC)$/i, ''));
+    if (/^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY)\b/i.test(definition)) continue;
+    const match = definition.match(/^(?:"((?:[^"]|"")+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))\s*(.*)$/s);
+    if (!match) continue;
+    const name = (match[1]?.replace(/""/g, '"') ?? match[2] ?? match[3] ?? match[4]) as string;
+    // Only the exact type name INTEGER makes the column an alias of the rowid
+    if (/^INTEGER\b/i.test(match[5])) {
+      integerColumns.add(columns.length);
+      if (/\bPRIMARY\s+KEY\b(?!\s+DESC)/i.test(match[5])) rowidColumn = columns.length;
+    }
+    columns.push(name);
+  }
+  if (rowidColumn < 0 && tableKey !== null) {
+    const key = tableKey.toLowerCase();
+    const index = columns.findIndex((c) => c.toLowerCase() === key);
+    if (integerColumns.has(index)) rowidColumn = index;
+  }
+  return { columns, rowidColumn };
+}
+
+function unquoteName(name: string): string {
+  const quoted = name.match(/^(?:"((?:[^"]|"")+)"|`([^`]+)`|\[([^\]]+)\])$/);
+  return quoted ? (quoted[1]?.replace(/""/g, '"') ?? quoted[2] ?? quoted[3]) as string : name;
+}
+
+/** Geometry of a GeoPackage binary: "GP" header and envelope, then WKB */
+function readGeometryBlob(blob: Uint8Array, wkb: WKB): Geometry | null {
+  if (blob[0] !== 0x47 || blob[1] !== 0x50) return null;
+  const flags = blob[3];
+  if (flags & 0x10) return null;
+  const envelope = [0, 32, 48, 48, 64][(flags >> 1) & 0x07] ?? 0;
+  const geometry = wkb.readGeometry(blob.slice(8 + envelope));
+  return geometry ?? null;
+}
+
+function tableRows(db: SqliteFile, schema: Map<string, { rootPage: number; sql: string }>, table: string) {
+  const entry = schema.get(table.toLowerCase());
+  if (!entry) return null;
+  const { columns, rowidColumn } = parseColumns(entry.sql);
+  return db.rows(entry.rootPage).map(({ rowid, values }) => {
+    const row: Record<string, SqlValue> = {};
+    columns.forEach((column, i) => {
+      row[column] = i === rowidColumn ? rowid : values[i] ?? null;
+    });
+    return row;
+  });
+}
+
+/**
+ * Feature tables of a GeoPackage
+ */
+export function readGeoPackage(buffer: ArrayBuffer): GeoPackageLayer[] {
+  const db = new SqliteFile(buffer);
+
+  // sqlite_schema: type, name, tbl_name, rootpage, sql
+  const schema = new Map<string, { rootPage: number; sql: string }>();
+  for (const { values } of db.rows(1)) {
+    if (values[0] === 'table' && typeof values[1] === 'string') {
+      schema.set(values[1].toLowerCase(), { rootPage: Number(values[3]), sql: String(values[4]) });
+    }
+  }
+
+  const geometryColumns = tableRows(db, schema, 'gpkg_geometry_columns');
+  if (!geometryColumns) throw new Error('No gpkg_geometry_columns table: not a GeoPackage');
+  const spatialRefs = tableRows(db, schema, 'gpkg_spatial_ref_sys') ?? [];
+
+  const wkb = new WKB();
+  const layers: GeoPackageLayer[] = [];
+  for (const column of geometryColumns) {
+    const table = String(column.table_name);
+    const geometryColumn = String(column.column_name);
+    const rows = tableRows(db, schema, table);
+    if (!rows) continue;
+
+    const features: Feature[] = [];
+    for (const row of rows) {
+      const blob = row[geometryColumn];
+      const geometry = blob instanceof Uint8Array ? readGeometryBlob(blob, wkb) : null;
+      if (!geometry) continue;
+      const properties: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(row)) {
+        if (key !== geometryColumn && !(value instanceof Uint8Array)) properties[key] = value;
+      }
+      const feature = new Feature(properties);
+      feature.setGeometry(geometry);
+      features.push(feature);
+    }
+
+    const srs = spatialRefs.find((s) => s.srs_id === column.srs_id);
+    const organization = typeof srs?.organization === 'string' ? srs.organization.toUpperCase() : '';
+    layers.push({
+      name: table,
+      features,
+      projection: organization === 'EPSG' && srs ? `EPSG:${srs.organization_coordsys_id}` : undefined,
+      definition: typeof srs?.definition === 'string' && srs.definition !== 'undefined' ? srs.definition : undefined,
+    });
+  }
+  return layers;
+}
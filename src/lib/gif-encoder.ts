@@ -0,0 +1,216 @@
+/**
+ * Animated GIF Encoder
+ *
+ * Minimal GIF89a writer for exporting map animations: one shared 256-colour
+ * palette picked from the most common colours across all frames, LZW
+ * compression, and an infinite-loop extension. Map imagery has large flat
+ * areas, so a popularity palette on 15-bit colour is good enough and keeps
+ * the encoder small.
+ */
+
+const MAX_CODES = 4096;
+
+/** 15-bit key (5 bits per channel) for an RGBA pixel at offset i */
+function colourKey(data: Uint8ClampedArray, i: number): number {
+  return ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+}
+
+/**
+ * Pick up to 256 colours by frequency and map every 15-bit colour to the
+ * nearest palette entry.
+ */
+function buildPalette(frames: ImageData[]): { palette: Uint8Array; lookup: Uint8Array } {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  for (const frame of frames) {
+    const { data } = frame;
+    for (let i = 0; i < data.length; i += 4) {
+      const key = colourKey(data, i);
+      counts[key]++;
+      sums[key * 3] += data[i];
+      sums[key * 3 + 1] += data[i + 1];
+      sums[key * 3 + 2] += data[i + 2];
+    }
+  }
+
+  const used: number[] = [];
+  for (let key = 0; key < counts.length; key++) if (counts[key] > 0) used.push(key);
+  used.sort((a, b) => counts[b] - counts[a]);
+  const chosen = used.slice(0, 256);
+
+  const palette = new Uint8Array(256 * 3);
+  chosen.forEach((key, i) => {
+    palette[i * 3] = Math.round(sums[key * 3] / counts[key]);
+    palette[i * 3 + 1] = Math.round(sums[key * 3 + 1] / counts[key]);
+    palette[i * 3 + 2] = Math.round(sums[key * 3 + 2] / counts[key]);
+  });
+
+  const lookup = new Uint8Array(32768);
+  for (const key of used) {
+    const r = ((key >> 10) & 31) * 8 + 4;
+    const g = ((key >> 5) & 31) * 8 + 4;
+    const b = (key & 31) * 8 + 4;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < chosen.length; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    lookup[key] = best;
+  }
+  return { palette, lookup };
+}
+
+/** Growable byte buffer */
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.bytes.length) {
+      const next = new Uint8Array(this.bytes.length * 2);
+      next.set(this.bytes);
+      this.bytes = next;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  array(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * LZW-compress palette indices into GIF image data sub-blocks
+ * (variable code width, clear code on a full table).
+ */
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize = 8) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.array(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.array(block);
+  }
+  out.byte(0);
+}
+
+/**
+ * Encode frames of equal size as a looping animated GIF.
+ *
+ * @param frames - RGBA frames (e.g. from getImageData); alpha is ignored
+ * @param delayMs - Display time of each frame
+ */
+export function encodeGif(frames: ImageData[], delayMs: number): Uint8Array {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const { width, height } = frames[0];
+  const { palette, lookup } = buildPalette(frames);
+  const out = new ByteWriter();
+
+  out.ascii('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0xf7); // global colour table, 8 bits per channel, 256 entries
+  out.byte(0); // background colour index
+  out.byte(0); // pixel aspect ratio
+  out.array(palette);
+
+  // NETSCAPE2.0 application extension: loop forever
+  out.array([0x21, 0xff, 0x0b]);
+  out.ascii('NETSCAPE2.0');
+  out.array([0x03, 0x01]);
+  out.word(0);
+  out.byte(0);
+
+  const delay = Math.max(2, Math.round(delayMs / 10));
+  const indices = new Uint8Array(width * height);
+  for (const frame of frames) {
+    const { data } = frame;
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      indices[p] = lookup[colourKey(data, i)];
+    }
+
+    // Graphic control extension: frame delay in 1/100 s, no transparency
+    out.array([0x21, 0xf9, 0x04, 0x04]);
+    out.word(delay);
+    out.array([0x00, 0x00]);
+
+    // Image descriptor covering the whole canvas, no local colour table
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+    writeLzw(out, indices);
+  }
+
+  out.byte(0x3b);
+  return out.result();
+}
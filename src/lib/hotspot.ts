@@ -12,59 +12,59 @@ import type {
   HotspotDistrictResult,
 } from '@/types/socioeconomic';
 import { DISTRICTS, RETURN_PERIODS } from '@/types/risk';
-import type { EadResult, EalResult } from '@/types/risk';
+import type { EadResult, EalResult, MaintenanceOption } from '@/types/risk';
 import type { VulnerabilityIndex } from '@/types/socioeconomic';
+import { DEFAULT_HOTSPOT_WEIGHTS } from '@/types/socioeconomic';
+import {
+  calculateExpectedAnnualValue,
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
 
 /**
- * Calculate Expected Annual Fatalities (EAF) using trapezoidal integration
+ * Calculate Expected Annual Fatalities (EAF)
  *
  * Mirrors the EAD calculation methodology: integrates fatality estimates
  * across all 7 return periods to get an annualized expected value.
+ * With the default options:
  *
  * EAF = Σ 0.5 × (Fᵢ + Fᵢ₊₁) × |1/RPᵢ - 1/RPᵢ₊₁|
  *
  * @param fatalitiesByRP - Array of { returnPeriod, fatalities } sorted by RP ascending
+ * @param options - Integration method and tail handling (see src/lib/ead-integration.ts)
  * @returns Expected annual fatalities (integrated across probability spectrum)
  */
 export function calculateExpectedAnnualFatalities(
-  fatalitiesByRP: { returnPeriod: number; fatalities: number }[]
+  fatalitiesByRP: { returnPeriod: number; fatalities: number }[],
+  options: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION
 ): number {
-  if (fatalitiesByRP.length < 2) return 0;
-
-  let eaf = 0;
-  for (let i = 0; i < fatalitiesByRP.length - 1; i++) {
-    const freqLeft = 1 / fatalitiesByRP[i].returnPeriod;
-    const freqRight = 1 / fatalitiesByRP[i + 1].returnPeriod;
-    eaf += 0.5 * (fatalitiesByRP[i].fatalities + fatalitiesByRP[i + 1].fatalities)
-          * Math.abs(freqLeft - freqRight);
-  }
-  return eaf;
+  return calculateExpectedAnnualValue(
+    fatalitiesByRP.map((f) => ({ returnPeriod: f.returnPeriod, damage: f.fatalities })),
+    options
+  );
 }
 
 /**
- * Calculate Expected Annual Population Affected (EAPA) using trapezoidal integration
+ * Calculate Expected Annual Population Affected (EAPA)
  *
  * Mirrors the EAD and EAF methodology: integrates population affected across
  * all 7 return periods to get an annualized expected value.
+ * With the default options:
  *
  * EAPA = Σ 0.5 × (Pᵢ + Pᵢ₊₁) × |1/RPᵢ - 1/RPᵢ₊₁|
  *
  * @param populationByRP - Array of { returnPeriod, population } sorted by RP ascending
+ * @param options - Integration method and tail handling (see src/lib/ead-integration.ts)
  * @returns Expected annual population affected (integrated across probability spectrum)
  */
 export function calculateExpectedAnnualPopulationAffected(
-  populationByRP: { returnPeriod: number; population: number }[]
+  populationByRP: { returnPeriod: number; population: number }[],
+  options: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION
 ): number {
-  if (populationByRP.length < 2) return 0;
-
-  let eapa = 0;
-  for (let i = 0; i < populationByRP.length - 1; i++) {
-    const freqLeft = 1 / populationByRP[i].returnPeriod;
-    const freqRight = 1 / populationByRP[i + 1].returnPeriod;
-    eapa += 0.5 * (populationByRP[i].population + populationByRP[i + 1].population)
-          * Math.abs(freqLeft - freqRight);
-  }
-  return eapa;
+  return calculateExpectedAnnualValue(
+    populationByRP.map((p) => ({ returnPeriod: p.returnPeriod, damage: p.population })),
+    options
+  );
 }
 
 /**
@@ -79,6 +79,21 @@ function normalizeTo100(values: number[]): number[] {
   return values.map((v) => ((v - min) / range) * 100);
 }
 
+/**
+ * Scale weights to sum to 1 so scores stay on 0–100; all-zero falls back to equal weights
+ */
+export function normalizeHotspotWeights(weights: HotspotWeights): HotspotWeights {
+  const total =
+    weights.physicalRisk + weights.economicLoss + weights.populationRisk + weights.socioeconomicVulnerability;
+  if (!(total > 0)) return DEFAULT_HOTSPOT_WEIGHTS;
+  return {
+    physicalRisk: weights.physicalRisk / total,
+    economicLoss: weights.economicLoss / total,
+    populationRisk: weights.populationRisk / total,
+    socioeconomicVulnerability: weights.socioeconomicVulnerability / total,
+  };
+}
+
 /**
  * Compute hotspot scores for all districts
  *
@@ -91,7 +106,7 @@ export function computeHotspotScores(params: {
   expectedAnnualFatalities: Record<DistrictName, number>; // Integrated across all RPs
   vulnerabilityIndices: VulnerabilityIndex[];
   climate: 'present' | 'future';
-  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+  maintenance: MaintenanceOption;
   weights: HotspotWeights;
 }): HotspotDistrictResult[] {
   const {
@@ -101,8 +116,8 @@ export function computeHotspotScores(params: {
     vulnerabilityIndices,
     climate,
     maintenance,
-    weights,
   } = params;
+  const weights = normalizeHotspotWeights(params.weights);
 
   // Build vulnerability lookup by district name
   const vulnMap: Record<string, VulnerabilityIndex> = {};
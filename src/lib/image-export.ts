@@ -0,0 +1,152 @@
+/**
+ * Image Export Helpers
+ *
+ * Canvas → file conversion for the print composer: a single-page PDF that
+ * embeds the page as a JPEG at its paper size, and PNGs tagged with their
+ * resolution so word processors place them at the intended physical size.
+ * Written by hand to avoid shipping a PDF library for one image per page.
+ */
+
+const encoder = new TextEncoder();
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: 'image/png' | 'image/jpeg', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded'))),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Save a blob through a temporary link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/** PDF literal string: ASCII only, with delimiters escaped */
+function pdfString(text: string): string {
+  const ascii = text.replace(/[^\x20-\x7e]/g, '?');
+  return `(${ascii.replace(/([\\()])/g, '\\$1')})`;
+}
+
+/**
+ * One-page PDF showing a JPEG stretched over the whole page.
+ *
+ * @param jpeg - JPEG file bytes (baseline, RGB)
+ * @param imageWidth - JPEG width in pixels
+ * @param imageHeight - JPEG height in pixels
+ * @param pageWidth - Page width in points (1/72 in)
+ * @param pageHeight - Page height in points
+ * @param title - Document title metadata
+ */
+export function createImagePdf(
+  jpeg: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  pageWidth: number,
+  pageHeight: number,
+  title = ''
+): Blob {
+  const w = pageWidth.toFixed(2);
+  const h = pageHeight.toFixed(2);
+  const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const created = `D:${now.getUTCFullYear()}${pad(now.getUTCMonth() + 1)}${pad(now.getUTCDate())}` +
+    `${pad(now.getUTCHours())}${pad(now.getUTCMinutes())}${pad(now.getUTCSeconds())}Z`;
+
+  // Object bodies in order (object n is objects[n - 1]); the image stream is spliced in as bytes
+  const objects: (string | Uint8Array[])[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    [
+      encoder.encode(
+        `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+      ),
+      jpeg,
+      encoder.encode('\nendstream'),
+    ],
+    `<< /Title ${pdfString(title)} /Producer (Flood Risk Assessment) /CreationDate (${created}) >>`,
+  ];
+
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // Header with a binary comment so transfer tools treat the file as binary
+  push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    push(`${i + 1} 0 obj\n`);
+    if (typeof body === 'string') push(body);
+    else body.forEach(push);
+    push('\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Insert a pHYs chunk after IHDR recording the print resolution.
+ *
+ * @param png - PNG file bytes as produced by canvas.toBlob (no pHYs yet)
+ * @param dpi - Dots per inch
+ */
+export function setPngDpi(png: Uint8Array, dpi: number): Uint8Array {
+  const ihdrEnd = 8 + 4 + 4 + 13 + 4; // signature, length, type, IHDR data, CRC
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(4 + 4 + 9 + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set(encoder.encode('pHYs'), 4);
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const out = new Uint8Array(png.length + chunk.length);
+  out.set(png.subarray(0, ihdrEnd), 0);
+  out.set(chunk, ihdrEnd);
+  out.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return out;
+}
@@ -0,0 +1,279 @@
+/**
+ * Layer Catalog
+ *
+ * Builds the layer tree from the WMS capabilities of the project
+ * workspaces. Configured layers (layerTree, the intervention layers and
+ * LAYER_CATALOG_OVERRIDES) keep their labels and groups; other layers are
+ * placed by their names: hazard scenarios under their climate, maintenance
+ * and parameter groups, impacts under their scenario, and anything else in
+ * its workspace's default group.
+ */
+
+import {
+  CATALOG_GROUP_LABELS,
+  CATALOG_WORKSPACES,
+  LAYER_CATALOG_OVERRIDES,
+  WORKSPACE_DEFAULT_GROUPS,
+} from '@/config/layer-catalog';
+import {
+  GEOSERVER_CONFIG,
+  MAINTENANCE_GROUP_LABELS,
+  PARAMETER_LABELS,
+  createRasterLayer,
+  createVectorLayer,
+  layerTree,
+  parseLayerName,
+} from '@/config/layers';
+import { fetchWmsLayers } from '@/lib/user-layers';
+import { climateScenarios, isLayerGroup } from '@/types/layers';
+import type { LayerGroup, LayerInfo } from '@/types/layers';
+import {
+  EXPOSURE_LAYER_GEOMETRY,
+  EXPOSURE_LAYER_LABELS,
+  IMPACT_DEPTH_STYLES,
+  IMPACT_LAYER_WORKSPACE,
+  parseImpactLayerName,
+} from '@/types/impact';
+import { INTERVENTION_LAYERS } from '@/types/interventions-schema';
+import type { LayerCatalog, ServerLayer } from '@/types/layer-catalog';
+
+/** Spelling of climates and maintenance levels in the layerTree group ids */
+const GROUP_ID_NAMES: Record<string, string> = {
+  present: 'Present',
+  future: 'Future',
+  breaches: 'Breaches',
+  redcapacity: 'RedCapacity',
+  perfect: 'Perfect',
+};
+
+interface GroupRef {
+  id: string;
+  name: string;
+  /** Return period, to order sibling groups */
+  returnPeriod?: string;
+}
+
+interface Placement {
+  path: GroupRef[];
+  layer: LayerInfo;
+}
+
+function layerKey(workspace: string, name: string): string {
+  return `${workspace}:${name}`;
+}
+
+function topGroup(id: string): GroupRef {
+  return { id, name: CATALOG_GROUP_LABELS[id] ?? id };
+}
+
+function climateLabel(climate: string): string {
+  return climateScenarios.find((c) => c.value === climate)?.label ?? climate;
+}
+
+function collectConfiguredKeys(node: LayerGroup | LayerInfo, keys: Set<string>): void {
+  if (isLayerGroup(node)) {
+    node.children.forEach((child) => collectConfiguredKeys(child, keys));
+  } else if (node.workspace && node.geoserverName) {
+    keys.add(layerKey(node.workspace, node.geoserverName));
+  }
+}
+
+/**
+ * Where a server layer that is not in layerTree goes, or null to leave it out
+ */
+function placeServerLayer({ workspace, name, title }: ServerLayer): Placement | null {
+  const override = LAYER_CATALOG_OVERRIDES[layerKey(workspace, name)];
+  if (override) {
+    if (override.hidden) return null;
+    const geometryType = override.geometryType ?? 'raster';
+    const layer = geometryType === 'raster'
+      ? createRasterLayer(override.name ?? title, name, false, override.opacity ?? 0.6, workspace)
+      : createVectorLayer(override.name ?? title, name, false, override.opacity ?? 1, workspace, geometryType);
+    return {
+      path: [topGroup(override.group ?? WORKSPACE_DEFAULT_GROUPS[workspace] ?? 'other')],
+      layer: override.style ? { ...layer, style: override.style } : layer,
+    };
+  }
+
+  if (workspace === 'interventions') {
+    const intervention = INTERVENTION_LAYERS.find((l) => l.key === name);
+    if (intervention) {
+      return {
+        path: [topGroup('interventions')],
+        layer: createVectorLayer(intervention.displayName, name, false, 1, workspace, intervention.geometryType),
+      };
+    }
+  }
+
+  if (workspace === GEOSERVER_CONFIG.workspaces.results) {
+    const parsed = parseLayerName(name);
+    if (parsed?.kind === 'scenario') {
+      const { climate, maintenance, parameter, returnPeriod } = parsed;
+      return {
+        path: [
+          topGroup(`${climate}_climate`),
+          { id: `${climate}_${maintenance}`, name: MAINTENANCE_GROUP_LABELS[maintenance] },
+          {
+            id: `${GROUP_ID_NAMES[climate]}_${GROUP_ID_NAMES[maintenance]}_${parameter}`,
+            name: PARAMETER_LABELS[parameter] ?? title,
+          },
+        ],
+        layer: createRasterLayer(`${returnPeriod} Years`, name, false, 0.8),
+      };
+    }
+    if (parsed?.kind === 'flood2022') {
+      return { path: [topGroup('flood2022')], layer: createRasterLayer(title, name) };
+    }
+  }
+
+  if (workspace === IMPACT_LAYER_WORKSPACE) {
+    const parsed = parseImpactLayerName(name);
+    if (parsed) {
+      const { climate, maintenance, returnPeriod, exposureType } = parsed;
+      const geometryType = EXPOSURE_LAYER_GEOMETRY[exposureType];
+      const layer = createVectorLayer(EXPOSURE_LAYER_LABELS[exposureType], name, false, 0.8, workspace, geometryType);
+      return {
+        path: [
+          topGroup('impacts'),
+          { id: `impacts_${climate}`, name: climateLabel(climate) },
+          { id: `impacts_${climate}_${maintenance}`, name: MAINTENANCE_GROUP_LABELS[maintenance] },
+          { id: `impacts_${climate}_${maintenance}_${returnPeriod}`, name: `${returnPeriod} Years`, returnPeriod },
+        ],
+        layer: { ...layer, style: IMPACT_DEPTH_STYLES[geometryType] },
+      };
+    }
+  }
+
+  const group = topGroup(WORKSPACE_DEFAULT_GROUPS[workspace] ?? 'other');
+  const isCoverageWorkspace = workspace === GEOSERVER_CONFIG.workspaces.results || workspace === GEOSERVER_CONFIG.workspaces.dem;
+  return {
+    path: [group],
+    layer: isCoverageWorkspace
+      ? createRasterLayer(title, name, false, 0.6, workspace)
+      : createVectorLayer(title, name, false, 1, workspace, 'polygon'),
+  };
+}
+
+/**
+ * Copy of a group without the layers keep rejects, dropping emptied groups
+ */
+function filterTree(group: LayerGroup, keep: (layer: LayerInfo) => boolean): LayerGroup {
+  return {
+    ...group,
+    children: group.children.flatMap((child): (LayerGroup | LayerInfo)[] => {
+      if (!isLayerGroup(child)) return keep(child) ? [child] : [];
+      const filtered = filterTree(child, keep);
+      return filtered.children.length > 0 ? [filtered] : [];
+    }),
+  };
+}
+
+function insertLayer(root: LayerGroup, { path, layer }: Placement, returnPeriods: WeakMap<LayerGroup, string>): void {
+  let parent = root;
+  for (const ref of path) {
+    let group = parent.children.find((child): child is LayerGroup => isLayerGroup(child) && child.id === ref.id);
+    if (!group) {
+      group = { id: ref.id, name: ref.name, expanded: false, visible: false, children: [] };
+      if (ref.returnPeriod) returnPeriods.set(group, ref.returnPeriod);
+      parent.children.push(group);
+    }
+    parent = group;
+  }
+  parent.children.push(layer);
+}
+
+/**
+ * Order return-period layers and groups by return period. filterTree
+ * copies every group, so sorting in place leaves layerTree untouched.
+ */
+function sortByReturnPeriod(group: LayerGroup, returnPeriods: WeakMap<LayerGroup, string>): void {
+  const returnPeriodOf = (node: LayerGroup | LayerInfo): string | undefined => {
+    if (isLayerGroup(node)) return returnPeriods.get(node);
+    const parsed = parseLayerName(node.geoserverName ?? '');
+    return parsed?.kind === 'scenario' ? parsed.returnPeriod : undefined;
+  };
+
+  const keys = group.children.map(returnPeriodOf);
+  if (keys.length > 1 && keys.every((key) => key !== undefined)) {
+    group.children.sort((a, b) => Number(returnPeriodOf(a)) - Number(returnPeriodOf(b)));
+  }
+  group.children.forEach((child) => {
+    if (isLayerGroup(child)) sortByReturnPeriod(child, returnPeriods);
+  });
+}
+
+/**
+ * Build the layer tree and report from the layers the server advertises.
+ * Configured layers of unreachable workspaces are kept as they are.
+ */
+export function buildLayerCatalog(serverLayers: ServerLayer[], unreachableWorkspaces: string[]): LayerCatalog {
+  const onServer = new Set(serverLayers.map((l) => layerKey(l.workspace, l.name)));
+
+  const inLayerTree = new Set<string>();
+  collectConfiguredKeys(layerTree, inLayerTree);
+  const configured = new Set([
+    ...inLayerTree,
+    ...INTERVENTION_LAYERS.map((l) => l.typeName),
+    ...Object.keys(LAYER_CATALOG_OVERRIDES),
+  ]);
+
+  const isAvailable = (key: string) => unreachableWorkspaces.includes(key.split(':')[0]) || onServer.has(key);
+  const tree = filterTree(layerTree, (layer) => isAvailable(layerKey(layer.workspace ?? '', layer.geoserverName ?? '')));
+
+  const returnPeriods = new WeakMap<LayerGroup, string>();
+  const placed = new Set(inLayerTree);
+  for (const serverLayer of serverLayers) {
+    const key = layerKey(serverLayer.workspace, serverLayer.name);
+    if (placed.has(key)) continue;
+    placed.add(key);
+    const placement = placeServerLayer(serverLayer);
+    if (placement) insertLayer(tree, placement, returnPeriods);
+  }
+  sortByReturnPeriod(tree, returnPeriods);
+
+  return {
+    tree,
+    source: 'server',
+    report: {
+      missingOnServer: [...configured].filter((key) => !isAvailable(key)).sort(),
+      // Impact layers follow the scenario naming and are listed by the Impact Matrix
+      notInConfig: serverLayers
+        .filter((l) => !configured.has(layerKey(l.workspace, l.name)))
+        .filter((l) => !(l.workspace === IMPACT_LAYER_WORKSPACE && parseImpactLayerName(l.name)))
+        .map((l) => layerKey(l.workspace, l.name))
+        .sort(),
+      unreachableWorkspaces,
+    },
+  };
+}
+
+/**
+ * Read the capabilities of every catalog workspace and build the catalog.
+ * Rejects only when no workspace could be read.
+ */
+export async function loadLayerCatalog(): Promise<LayerCatalog> {
+  const results = await Promise.allSettled(
+    CATALOG_WORKSPACES.map((workspace) => fetchWmsLayers(`${GEOSERVER_CONFIG.baseUrl}/${workspace}/wms`))
+  );
+
+  const serverLayers: ServerLayer[] = [];
+  const unreachableWorkspaces: string[] = [];
+  results.forEach((result, i) => {
+    const workspace = CATALOG_WORKSPACES[i];
+    if (result.status === 'rejected') {
+      unreachableWorkspaces.push(workspace);
+      return;
+    }
+    // Workspace services usually list bare names; strip the prefix if present
+    const prefix = `${workspace}:`;
+    for (const layer of result.value) {
+      const name = layer.name.startsWith(prefix) ? layer.name.slice(prefix.length) : layer.name;
+      serverLayers.push({ workspace, name, title: layer.title });
+    }
+  });
+
+  if (unreachableWorkspaces.length === CATALOG_WORKSPACES.length) {
+    throw new Error('Could not read the capabilities of any catalog workspace');
+  }
+  return buildLayerCatalog(serverLayers, unreachableWorkspaces);
+}
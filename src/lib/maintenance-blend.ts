@@ -0,0 +1,115 @@
+/**
+ * Maintenance Blend
+ *
+ * Derives the "expected" maintenance state as the probability-weighted mean
+ * of the three modelled states at each return period. Blending per RP (rather
+ * than blending EAD afterwards) lets the weights vary with RP, so a fragility
+ * curve shifts probability towards breaches for rarer events.
+ */
+
+import { DISTRICTS, EXPECTED_MAINTENANCE, MAINTENANCE_LEVELS, RETURN_PERIODS, buildScenarioKey } from '@/types/risk';
+import type { DistrictName, MaintenanceLevel, RegionRiskData, RiskJsonData, RiskMode } from '@/types/risk';
+import type { PopulationRiskCurvePoint } from '@/types/casualty';
+import type { MaintenanceBlend, MaintenanceWeights } from '@/types/maintenance-blend';
+
+/**
+ * Weights scaled to sum to 1; equal weights when all are zero or invalid.
+ */
+export function normalizeMaintenanceWeights(weights: MaintenanceWeights): MaintenanceWeights {
+  const clean = MAINTENANCE_LEVELS.map((m) => Math.max(0, Number.isFinite(weights[m]) ? weights[m] : 0));
+  const sum = clean.reduce((a, b) => a + b, 0);
+  return Object.fromEntries(
+    MAINTENANCE_LEVELS.map((m, i) => [m, sum > 0 ? clean[i] / sum : 1 / MAINTENANCE_LEVELS.length])
+  ) as MaintenanceWeights;
+}
+
+/**
+ * Normalised state probabilities at a return period.
+ *
+ * RP-dependent weights are looked up by modelled RP; any other RP uses the
+ * nearest modelled RP in log space.
+ */
+export function maintenanceWeightsAt(blend: MaintenanceBlend, returnPeriod: number): MaintenanceWeights {
+  if (!blend.rpDependent) return normalizeMaintenanceWeights(blend.weights);
+  const nearest = RETURN_PERIODS.reduce((best, rp) =>
+    Math.abs(Math.log(rp / returnPeriod)) < Math.abs(Math.log(best / returnPeriod)) ? rp : best
+  );
+  return normalizeMaintenanceWeights(blend.weightsByReturnPeriod[String(nearest)] ?? blend.weights);
+}
+
+/** True when a dataset already carries the expected-state scenarios */
+export function hasExpectedMaintenance(data: RiskJsonData): boolean {
+  return buildScenarioKey(RETURN_PERIODS[0], 'present', EXPECTED_MAINTENANCE) in data.data;
+}
+
+/**
+ * Copy of a risk dataset with "expected" scenarios added to `data.data` for
+ * every return period and climate (all regions and modes). `data.scenarios`
+ * is left unchanged, so views that list modelled scenarios are unaffected.
+ */
+export function withExpectedMaintenance(data: RiskJsonData, blend: MaintenanceBlend): RiskJsonData {
+  const blended: RiskJsonData['data'] = { ...data.data };
+
+  for (const climate of ['present', 'future'] as const) {
+    for (const rp of RETURN_PERIODS) {
+      const weights = maintenanceWeightsAt(blend, rp);
+      const sources = MAINTENANCE_LEVELS.map((m) => ({
+        weight: weights[m],
+        regions: data.data[buildScenarioKey(rp, climate, m)],
+      }));
+      if (sources.some((s) => !s.regions)) continue;
+
+      const scenario: Record<string, Record<RiskMode, RegionRiskData>> = {};
+      for (const region of Object.keys(sources[0].regions)) {
+        const modes = Object.keys(sources[0].regions[region]) as RiskMode[];
+        scenario[region] = Object.fromEntries(
+          modes.map((mode) => {
+            const values = {} as Record<string, number>;
+            for (const { weight, regions } of sources) {
+              const modeData = regions[region]?.[mode] as Record<string, number> | undefined;
+              if (!modeData) continue;
+              for (const [asset, value] of Object.entries(modeData)) {
+                values[asset] = (values[asset] ?? 0) + weight * (value ?? 0);
+              }
+            }
+            return [mode, values as RegionRiskData];
+          })
+        ) as Record<RiskMode, RegionRiskData>;
+      }
+      blended[buildScenarioKey(rp, climate, EXPECTED_MAINTENANCE)] = scenario;
+    }
+  }
+
+  return { ...data, data: blended };
+}
+
+/**
+ * Expected-state population risk curves: affected population and fatality
+ * ranges blended per return period across the three maintenance states.
+ */
+export function blendPopulationRiskCurves(
+  curves: Record<MaintenanceLevel, Record<DistrictName, PopulationRiskCurvePoint[]>>,
+  blend: MaintenanceBlend
+): Record<DistrictName, PopulationRiskCurvePoint[]> {
+  return Object.fromEntries(
+    DISTRICTS.map((district) => {
+      const byRp = new Map<number, PopulationRiskCurvePoint>();
+      for (const m of MAINTENANCE_LEVELS) {
+        for (const p of curves[m][district] ?? []) {
+          const w = maintenanceWeightsAt(blend, p.returnPeriod)[m];
+          const acc = byRp.get(p.returnPeriod) ?? {
+            returnPeriod: p.returnPeriod,
+            affectedPopulation: 0,
+            fatalities: { low: 0, moderate: 0, high: 0 },
+          };
+          acc.affectedPopulation += w * p.affectedPopulation;
+          acc.fatalities.low += w * p.fatalities.low;
+          acc.fatalities.moderate += w * p.fatalities.moderate;
+          acc.fatalities.high += w * p.fatalities.high;
+          byRp.set(p.returnPeriod, acc);
+        }
+      }
+      return [district, [...byRp.values()].sort((a, b) => a.returnPeriod - b.returnPeriod)];
+    })
+  ) as Record<DistrictName, PopulationRiskCurvePoint[]>;
+}
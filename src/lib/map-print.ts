@@ -0,0 +1,430 @@
+/**
+ * Map Print Composition
+ *
+ * Renders the live OpenLayers map at print resolution and lays out a page:
+ * title, map frame with UTM grid ticks and north arrow, legend column, scale
+ * bar, source credits and date. Everything is drawn on one canvas in page
+ * pixels (paper size × DPI) so PDF and PNG exports come from the same image.
+ */
+
+import type Map from 'ol/Map';
+import type { Extent } from 'ol/extent';
+import { PAPER_SIZES } from '@/types/print';
+import type { PrintContent, PrintOptions } from '@/types/print';
+
+const MM_PER_INCH = 25.4;
+const RENDER_TIMEOUT_MS = 60_000;
+
+/** Page layout in millimetres */
+const LAYOUT = {
+  margin: 10,
+  titleBand: 14,
+  footerBand: 16,
+  legendWidth: 55,
+  legendGap: 5,
+  gridGutter: 7,
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export type RenderedMap = {
+  canvas: HTMLCanvasElement;
+  /** Ground extent of the canvas (EPSG:32642); exact only when unrotated */
+  extent: Extent;
+  /** Metres per canvas pixel */
+  resolution: number;
+  rotation: number;
+};
+
+/** Page size in millimetres for the chosen paper and orientation */
+export function getPageSizeMm(options: Pick<PrintOptions, 'paper' | 'orientation'>): { width: number; height: number } {
+  const { width, height } = PAPER_SIZES[options.paper];
+  return options.orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
+
+/** 1, 2 or 5 × 10^n not exceeding value */
+export function niceStep(value: number): number {
+  if (!(value > 0)) return 0;
+  const exponent = Math.floor(Math.log10(value));
+  const base = 10 ** exponent;
+  const fraction = value / base;
+  return (fraction >= 5 ? 5 : fraction >= 2 ? 2 : 1) * base;
+}
+
+/** Scale denominator for a ground resolution printed at dpi */
+export function resolutionToScale(resolution: number, dpi: number): number {
+  return (resolution * dpi) / (MM_PER_INCH / 1000);
+}
+
+function scaleToResolution(scale: number, dpi: number): number {
+  return (scale * (MM_PER_INCH / 1000)) / dpi;
+}
+
+/**
+ * Draw the map's layer canvases onto one canvas, honouring each layer's
+ * opacity, transform and background (the OpenLayers export recipe).
+ * Width and height are the map size in CSS pixels.
+ */
+export function compositeMapCanvas(map: Map, width: number, height: number): HTMLCanvasElement {
+  const out = document.createElement('canvas');
+  out.width = width;
+  out.height = height;
+  const ctx = out.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  map.getViewport().querySelectorAll<HTMLCanvasElement>('.ol-layer canvas, canvas.ol-layer').forEach((canvas) => {
+    if (canvas.width === 0) return;
+    const parent = canvas.parentElement;
+    const opacity = parent?.style.opacity || canvas.style.opacity;
+    ctx.globalAlpha = opacity === '' || opacity === undefined ? 1 : Number(opacity);
+
+    const match = canvas.style.transform.match(/^matrix\(([^(]*)\)$/);
+    const matrix = match
+      ? match[1].split(',').map(Number)
+      : [parseFloat(canvas.style.width) / canvas.width, 0, 0, parseFloat(canvas.style.height) / canvas.height, 0, 0];
+    ctx.setTransform(matrix[0], matrix[1], matrix[2], matrix[3], matrix[4], matrix[5]);
+
+    const background = parent?.style.backgroundColor;
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(canvas, 0, 0);
+  });
+
+  ctx.globalAlpha = 1;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return out;
+}
+
+/**
+ * Render the map into a canvas of the given pixel size, either covering the
+ * area currently on screen or at a fixed scale, then restore the on-screen
+ * map. Throws if a layer's tiles are cross-origin without CORS (tainted canvas).
+ */
+export function renderMapImage(map: Map, width: number, height: number, dpi: number, scale: number | null): Promise<RenderedMap> {
+  const view = map.getView();
+  const screenSize = map.getSize();
+  const screenResolution = view.getResolution();
+  if (!screenSize || screenResolution === undefined) {
+    return Promise.reject(new Error('Map is not ready'));
+  }
+
+  const resolution = scale
+    ? scaleToResolution(scale, dpi)
+    : screenResolution / Math.min(width / screenSize[0], height / screenSize[1]);
+
+  return new Promise<RenderedMap>((resolve, reject) => {
+    const restore = () => {
+      window.clearTimeout(timer);
+      map.setSize(screenSize);
+      view.setResolution(screenResolution);
+    };
+    const timer = window.setTimeout(() => {
+      map.un('rendercomplete', onRenderComplete);
+      restore();
+      reject(new Error('Timed out waiting for map tiles'));
+    }, RENDER_TIMEOUT_MS);
+
+    function onRenderComplete() {
+      try {
+        const canvas = compositeMapCanvas(map, width, height);
+        // Fails here rather than at export time when a layer taints the canvas
+        canvas.getContext('2d')?.getImageData(0, 0, 1, 1);
+        resolve({
+          canvas,
+          extent: view.calculateExtent([width, height]),
+          resolution,
+          rotation: view.getRotation(),
+        });
+      } catch (err) {
+        reject(
+          err instanceof DOMException && err.name === 'SecurityError'
+            ? new Error('A map layer does not allow export (cross-origin tiles). Try another base map.')
+            : err
+        );
+      } finally {
+        restore();
+      }
+    }
+
+    map.once('rendercomplete', onRenderComplete);
+    map.setSize([width, height]);
+    view.setResolution(resolution);
+  });
+}
+
+/** Load an image for canvas drawing; null when it fails */
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+}
+
+/** Shorten text with an ellipsis to fit maxWidth in the current font */
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+function formatDistance(metres: number): string {
+  return metres >= 1000 ? `${metres / 1000} km` : `${metres} m`;
+}
+
+function drawNorthArrow(ctx: CanvasRenderingContext2D, cx: number, cy: number, size: number, rotation: number) {
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.strokeStyle = '#334155';
+  ctx.lineWidth = size * 0.04;
+  ctx.beginPath();
+  ctx.arc(cx, cy, size * 0.6, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.translate(cx, cy);
+  ctx.rotate(rotation);
+  ctx.beginPath();
+  ctx.moveTo(0, -size * 0.45);
+  ctx.lineTo(size * 0.18, size * 0.3);
+  ctx.lineTo(0, size * 0.18);
+  ctx.closePath();
+  ctx.fillStyle = '#1e293b';
+  ctx.fill();
+  ctx.beginPath();
+  ctx.moveTo(0, -size * 0.45);
+  ctx.lineTo(-size * 0.18, size * 0.3);
+  ctx.lineTo(0, size * 0.18);
+  ctx.closePath();
+  ctx.fillStyle = '#ffffff';
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.fillStyle = '#1e293b';
+  ctx.font = `bold ${Math.round(size * 0.28)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText('N', 0, -size * 0.45);
+  ctx.restore();
+}
+
+/**
+ * Easting ticks on the top and bottom edges and northing ticks on the left
+ * and right, labelled in metres outside the frame.
+ */
+function drawGridTicks(ctx: CanvasRenderingContext2D, frame: Rect, extent: Extent, px: (mm: number) => number) {
+  const [minX, minY, maxX, maxY] = extent;
+  const step = niceStep((maxX - minX) / 4);
+  if (step <= 0) return;
+  const tick = px(1.5);
+
+  ctx.save();
+  ctx.strokeStyle = '#1e293b';
+  ctx.fillStyle = '#1e293b';
+  ctx.lineWidth = px(0.2);
+  ctx.font = `${px(2.2)}px sans-serif`;
+
+  ctx.textAlign = 'center';
+  for (let e = Math.ceil(minX / step) * step; e <= maxX; e += step) {
+    const x = frame.x + ((e - minX) / (maxX - minX)) * frame.width;
+    ctx.beginPath();
+    ctx.moveTo(x, frame.y);
+    ctx.lineTo(x, frame.y - tick);
+    ctx.moveTo(x, frame.y + frame.height);
+    ctx.lineTo(x, frame.y + frame.height + tick);
+    ctx.stroke();
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(`${e} E`, x, frame.y - tick - px(0.5));
+    ctx.textBaseline = 'top';
+    ctx.fillText(`${e} E`, x, frame.y + frame.height + tick + px(0.5));
+  }
+
+  for (let n = Math.ceil(minY / step) * step; n <= maxY; n += step) {
+    const y = frame.y + frame.height - ((n - minY) / (maxY - minY)) * frame.height;
+    ctx.beginPath();
+    ctx.moveTo(frame.x, y);
+    ctx.lineTo(frame.x - tick, y);
+    ctx.moveTo(frame.x + frame.width, y);
+    ctx.lineTo(frame.x + frame.width + tick, y);
+    ctx.stroke();
+    for (const [x, angle] of [[frame.x - tick - px(0.5), -Math.PI / 2], [frame.x + frame.width + tick + px(0.5), Math.PI / 2]] as const) {
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate(angle);
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(`${n} N`, 0, 0);
+      ctx.restore();
+    }
+  }
+  ctx.restore();
+}
+
+function drawScaleBar(ctx: CanvasRenderingContext2D, x: number, y: number, maxWidth: number, resolution: number, dpi: number, px: (mm: number) => number) {
+  const metres = niceStep(maxWidth * resolution);
+  if (metres <= 0) return;
+  const width = metres / resolution;
+  const height = px(1.5);
+  const segments = 4;
+
+  ctx.save();
+  ctx.strokeStyle = '#1e293b';
+  ctx.lineWidth = px(0.2);
+  for (let i = 0; i < segments; i++) {
+    ctx.fillStyle = i % 2 === 0 ? '#1e293b' : '#ffffff';
+    ctx.fillRect(x + (width / segments) * i, y, width / segments, height);
+  }
+  ctx.strokeRect(x, y, width, height);
+
+  ctx.fillStyle = '#1e293b';
+  ctx.font = `${px(2.4)}px sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  ctx.fillText('0', x, y + height + px(0.8));
+  ctx.textAlign = 'right';
+  ctx.fillText(formatDistance(metres), x + width, y + height + px(0.8));
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'bottom';
+  const scale = Math.round(resolutionToScale(resolution, dpi) / 100) * 100;
+  ctx.fillText(`Scale 1:${scale.toLocaleString('en-US')}`, x, y - px(0.8));
+  ctx.restore();
+}
+
+/**
+ * Legend column: each layer's name above its GetLegendGraphic image,
+ * scaled down to the column width; items that don't fit are counted.
+ */
+async function drawLegend(ctx: CanvasRenderingContext2D, rect: Rect, content: PrintContent, px: (mm: number) => number) {
+  const images = await Promise.all(content.legends.map((item) => loadImage(item.url)));
+
+  ctx.save();
+  ctx.strokeStyle = '#cbd5e1';
+  ctx.lineWidth = px(0.2);
+  ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+
+  const pad = px(2.5);
+  const inner = rect.width - pad * 2;
+  let y = rect.y + pad;
+  ctx.fillStyle = '#0f172a';
+  ctx.font = `bold ${px(3.2)}px sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillText('Legend', rect.x + pad, y);
+  y += px(5.5);
+
+  let drawn = 0;
+  for (let i = 0; i < content.legends.length; i++) {
+    const img = images[i];
+    const nameHeight = px(3.6);
+    const scale = img ? Math.min(1, inner / img.naturalWidth) : 0;
+    const imgHeight = img ? img.naturalHeight * scale : 0;
+    if (y + nameHeight + imgHeight > rect.y + rect.height - px(6)) break;
+
+    ctx.fillStyle = '#334155';
+    ctx.font = `bold ${px(2.3)}px sans-serif`;
+    ctx.fillText(fitText(ctx, content.legends[i].name, inner), rect.x + pad, y);
+    y += nameHeight;
+    if (img) {
+      ctx.drawImage(img, rect.x + pad, y, img.naturalWidth * scale, imgHeight);
+      y += imgHeight + px(2.5);
+    } else {
+      y += px(1.5);
+    }
+    drawn++;
+  }
+
+  if (drawn < content.legends.length) {
+    ctx.fillStyle = '#64748b';
+    ctx.font = `italic ${px(2.2)}px sans-serif`;
+    ctx.fillText(`+${content.legends.length - drawn} more layer(s)`, rect.x + pad, rect.y + rect.height - px(5));
+  }
+  ctx.restore();
+}
+
+/**
+ * Compose the full page for the current map.
+ */
+export async function composePrintPage(map: Map, options: PrintOptions, content: PrintContent): Promise<HTMLCanvasElement> {
+  const page = getPageSizeMm(options);
+  const px = (mm: number) => (mm / MM_PER_INCH) * options.dpi;
+  const showLegend = options.showLegend && content.legends.length > 0;
+  const gutter = options.showGrid ? LAYOUT.gridGutter : 0;
+
+  const frameMm: Rect = {
+    x: LAYOUT.margin + gutter,
+    y: LAYOUT.margin + LAYOUT.titleBand + gutter,
+    width: page.width - 2 * LAYOUT.margin - 2 * gutter - (showLegend ? LAYOUT.legendWidth + LAYOUT.legendGap : 0),
+    height: page.height - 2 * LAYOUT.margin - LAYOUT.titleBand - LAYOUT.footerBand - 2 * gutter,
+  };
+  const frame: Rect = {
+    x: Math.round(px(frameMm.x)),
+    y: Math.round(px(frameMm.y)),
+    width: Math.round(px(frameMm.width)),
+    height: Math.round(px(frameMm.height)),
+  };
+
+  const rendered = await renderMapImage(map, frame.width, frame.height, options.dpi, options.scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(px(page.width));
+  canvas.height = Math.round(px(page.height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Title band
+  const contentWidth = px(page.width - 2 * LAYOUT.margin);
+  ctx.fillStyle = '#0f172a';
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  ctx.font = `bold ${px(5.5)}px sans-serif`;
+  ctx.fillText(fitText(ctx, options.title, contentWidth), px(LAYOUT.margin), px(LAYOUT.margin));
+  if (options.subtitle) {
+    ctx.fillStyle = '#475569';
+    ctx.font = `${px(3.2)}px sans-serif`;
+    ctx.fillText(fitText(ctx, options.subtitle, contentWidth), px(LAYOUT.margin), px(LAYOUT.margin + 7.5));
+  }
+
+  // Map frame
+  ctx.drawImage(rendered.canvas, frame.x, frame.y);
+  ctx.strokeStyle = '#1e293b';
+  ctx.lineWidth = px(0.3);
+  ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+  if (options.showGrid && rendered.rotation === 0) {
+    drawGridTicks(ctx, frame, rendered.extent, px);
+  }
+  drawNorthArrow(ctx, frame.x + frame.width - px(9), frame.y + px(10), px(12), rendered.rotation);
+
+  // Legend column
+  if (showLegend) {
+    await drawLegend(ctx, {
+      x: px(page.width - LAYOUT.margin - LAYOUT.legendWidth),
+      y: frame.y - px(gutter),
+      width: px(LAYOUT.legendWidth),
+      height: frame.height + px(2 * gutter),
+    }, content, px);
+  }
+
+  // Footer: scale bar, credits, date
+  const footerY = px(page.height - LAYOUT.margin - LAYOUT.footerBand + 4);
+  drawScaleBar(ctx, px(LAYOUT.margin), footerY + px(3), px(45), rendered.resolution, options.dpi, px);
+
+  ctx.fillStyle = '#475569';
+  ctx.font = `${px(2.3)}px sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  const creditsX = px(LAYOUT.margin + 60);
+  const creditsWidth = px(page.width - 2 * LAYOUT.margin - 60 - 40);
+  content.credits.forEach((line, i) => {
+    ctx.fillText(fitText(ctx, line, creditsWidth), creditsX, footerY + px(i * 3.2));
+  });
+
+  ctx.textAlign = 'right';
+  ctx.fillText(content.date, px(page.width - LAYOUT.margin), footerY);
+
+  return canvas;
+}
@@ -0,0 +1,75 @@
+/**
+ * Map Measurement
+ *
+ * Planar length, area and bearing of map coordinates. The map is in
+ * EPSG:32642, so coordinates are already UTM metres and no geodesic
+ * calculation is needed at the scale of the study area.
+ */
+
+import type { MeasureTool, MeasureValues } from '@/types/measure';
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+export function lineLength(coordinates: number[][]): number {
+  let length = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    length += Math.hypot(coordinates[i][0] - coordinates[i - 1][0], coordinates[i][1] - coordinates[i - 1][1]);
+  }
+  return length;
+}
+
+/** Area of a ring (closed or not) by the shoelace formula */
+export function ringArea(ring: number[][]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[(i + 1) % ring.length];
+    sum += x0 * y1 - x1 * y0;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/** Degrees clockwise from grid north, in [0, 360) */
+export function gridBearing(from: number[], to: number[]): number {
+  const degrees = (Math.atan2(to[0] - from[0], to[1] - from[1]) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+}
+
+/**
+ * Values for a measurement's vertices (a polygon ring for area)
+ */
+export function measureCoordinates(tool: MeasureTool, coordinates: number[][]): MeasureValues {
+  const values: MeasureValues = { length: lineLength(coordinates) };
+  if (tool === 'area') {
+    values.area = ringArea(coordinates);
+  } else if (tool === 'bearing' && coordinates.length >= 2) {
+    values.bearing = gridBearing(coordinates[0], coordinates[coordinates.length - 1]);
+  }
+  return values;
+}
+
+export function formatLength(metres: number): string {
+  return metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${metres.toFixed(1)} m`;
+}
+
+export function formatArea(squareMetres: number): string {
+  if (squareMetres >= 1e6) return `${(squareMetres / 1e6).toFixed(2)} km²`;
+  if (squareMetres >= 1e4) return `${(squareMetres / 1e4).toFixed(2)} ha`;
+  return `${Math.round(squareMetres)} m²`;
+}
+
+export function formatBearing(degrees: number): string {
+  const point = COMPASS_POINTS[Math.round(degrees / 22.5) % COMPASS_POINTS.length];
+  return `${degrees.toFixed(1).padStart(5, '0')}° ${point}`;
+}
+
+/**
+ * Headline value of a measurement, as shown on the map and in the list
+ */
+export function formatMeasurement(tool: MeasureTool, values: MeasureValues): string {
+  if (tool === 'area') return formatArea(values.area ?? 0);
+  if (tool === 'bearing') {
+    return values.bearing === undefined ? formatLength(values.length) : `${formatBearing(values.bearing)} · ${formatLength(values.length)}`;
+  }
+  return formatLength(values.length);
+}
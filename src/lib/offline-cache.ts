@@ -0,0 +1,191 @@
+/**
+ * Offline Cache
+ *
+ * Registers the service worker (public/sw.js) and fills its caches: the
+ * app shell and data files, and the WMS tiles of the chosen hazard layers
+ * over an area and zoom range. The service worker serves them when the
+ * connection drops.
+ */
+
+import type View from 'ol/View';
+import type TileWMS from 'ol/source/TileWMS';
+import { parseLayerName } from '@/config/layers';
+import { runConcurrent } from '@/lib/raster-probe';
+import { createWmsTileSource } from '@/lib/wms-source';
+import type { LayerInfo } from '@/types/layers';
+import type { RiskDatasetManifest } from '@/types/risk-datasets';
+import { RISK_DATASET_MANIFEST_URL } from '@/types/risk-datasets';
+import { OFFLINE_CACHES, OFFLINE_DATA_URLS } from '@/types/offline';
+import type { OfflineAreaSelection, OfflineCacheStats, PrecacheProgress } from '@/types/offline';
+
+const SERVICE_WORKER_URL = './sw.js';
+
+/** Whether this browser can keep the app offline */
+export function isOfflineSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator && typeof caches !== 'undefined';
+}
+
+/**
+ * Register the service worker in production builds (in development it would
+ * serve stale modules to the dev server)
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !isOfflineSupported()) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
+
+/**
+ * The hazard rasters in the selected climate × maintenance × return
+ * period × parameter set
+ */
+export function selectOfflineLayers(layers: LayerInfo[], selection: OfflineAreaSelection): LayerInfo[] {
+  return layers.filter((layer) => {
+    const parsed = parseLayerName(layer.geoserverName ?? '');
+    return parsed?.kind === 'scenario' &&
+      selection.climates.includes(parsed.climate) &&
+      selection.maintenances.includes(parsed.maintenance) &&
+      selection.returnPeriods.includes(parsed.returnPeriod) &&
+      selection.parameters.includes(parsed.parameter);
+  });
+}
+
+/**
+ * Tile z of each view zoom in the range, as the map's tile layers pick it
+ */
+function tileZoomLevels(view: View, selection: OfflineAreaSelection, layer: LayerInfo): { source: TileWMS; zs: number[] } {
+  const source = createWmsTileSource(layer);
+  const tileGrid = source.getTileGridForProjection(view.getProjection());
+  const zs = new Set<number>();
+  for (let zoom = selection.minZoom; zoom <= selection.maxZoom; zoom++) {
+    zs.add(tileGrid.getZForResolution(view.getResolutionForZoom(zoom)));
+  }
+  return { source, zs: [...zs] };
+}
+
+/**
+ * Number of tiles a selection covers, before anything is downloaded
+ */
+export function countOfflineTiles(view: View, layers: LayerInfo[], selection: OfflineAreaSelection): number {
+  if (layers.length === 0) return 0;
+  // Every layer uses the same tile grid
+  const { source, zs } = tileZoomLevels(view, selection, layers[0]);
+  const tileGrid = source.getTileGridForProjection(view.getProjection());
+  const perLayer = zs.reduce((sum, z) => {
+    const range = tileGrid.getTileRangeForExtentAndZ(selection.extent, z);
+    return sum + range.getWidth() * range.getHeight();
+  }, 0);
+  return perLayer * layers.length;
+}
+
+/**
+ * Tile URLs the map would request for the layers over the selected area
+ */
+export function listOfflineTileUrls(view: View, layers: LayerInfo[], selection: OfflineAreaSelection, pixelRatio: number): string[] {
+  const projection = view.getProjection();
+  return layers.flatMap((layer) => {
+    const { source, zs } = tileZoomLevels(view, selection, layer);
+    const tileGrid = source.getTileGridForProjection(projection);
+    const tileUrl = source.getTileUrlFunction();
+    const urls: string[] = [];
+    zs.forEach((z) => {
+      tileGrid.forEachTileCoord(selection.extent, z, (tileCoord) => {
+        const url = tileUrl(tileCoord, pixelRatio, projection);
+        if (url) urls.push(url);
+      });
+    });
+    return urls;
+  });
+}
+
+/**
+ * Download tiles into the tile cache, skipping ones already stored
+ */
+export async function precacheTiles(
+  urls: string[],
+  signal: AbortSignal,
+  onProgress: (progress: PrecacheProgress) => void
+): Promise<PrecacheProgress> {
+  const cache = await caches.open(OFFLINE_CACHES.tiles);
+  const progress: PrecacheProgress = { done: 0, total: urls.length, failed: 0 };
+
+  await runConcurrent(
+    urls.map((url) => async () => {
+      if (signal.aborted || (await cache.match(url))) return;
+      try {
+        const response = await fetch(url, { signal });
+        // GeoServer answers errors with a 200 XML document
+        if (response.ok && response.headers.get('Content-Type')?.startsWith('image/')) {
+          await cache.put(url, response);
+        } else {
+          progress.failed++;
+        }
+      } catch {
+        if (!signal.aborted) progress.failed++;
+      }
+    }),
+    (done) => onProgress({ ...progress, done })
+  );
+
+  progress.done = urls.length;
+  return progress;
+}
+
+/**
+ * Refresh the cached app shell (the scripts and styles of the running
+ * build) and data files, including every risk dataset in the manifest.
+ * Returns the URLs that could not be fetched.
+ */
+export async function precacheAppData(): Promise<string[]> {
+  const shellUrls = [
+    './',
+    ...Array.from(document.querySelectorAll<HTMLScriptElement>('script[src]'), (el) => el.src),
+    ...Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"], link[rel="modulepreload"]'), (el) => el.href),
+  ];
+
+  let datasetUrls: string[] = [];
+  try {
+    const manifest: RiskDatasetManifest = await (await fetch(RISK_DATASET_MANIFEST_URL, { cache: 'no-cache' })).json();
+    datasetUrls = manifest.datasets.map((dataset) => dataset.url);
+  } catch {
+    // The baseline risk.json is in the fixed list
+  }
+  const dataUrls = [...new Set([...OFFLINE_DATA_URLS, ...datasetUrls])];
+
+  const [shellCache, dataCache] = await Promise.all([caches.open(OFFLINE_CACHES.shell), caches.open(OFFLINE_CACHES.data)]);
+  const failed: string[] = [];
+  await runConcurrent([
+    ...shellUrls.map((url) => ({ url, cache: shellCache })),
+    ...dataUrls.map((url) => ({ url, cache: dataCache })),
+  ].map(({ url, cache }) => async () => {
+    try {
+      const response = await fetch(url, { cache: 'no-cache' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      await cache.put(url, response);
+    } catch {
+      failed.push(url);
+    }
+  }));
+  return failed;
+}
+
+export async function getOfflineCacheStats(): Promise<OfflineCacheStats> {
+  const [estimate, tiles, data] = await Promise.all([
+    navigator.storage?.estimate?.().catch(() => null) ?? Promise.resolve(null),
+    caches.open(OFFLINE_CACHES.tiles).then((cache) => cache.keys()),
+    caches.open(OFFLINE_CACHES.data).then((cache) => cache.keys()),
+  ]);
+  return {
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+    tileCount: tiles.length,
+    dataCount: data.length,
+  };
+}
+
+export async function clearOfflineTiles(): Promise<void> {
+  await caches.delete(OFFLINE_CACHES.tiles);
+}
@@ -0,0 +1,285 @@
+/**
+ * Offline Queue
+ *
+ * Intervention creates and edits made without a connection are kept in
+ * localStorage and sent to /api/annotations in order once it returns.
+ * Edits carry the updated_at of the copy they were made on, so the server
+ * can refuse ones that would overwrite a newer change; refused changes are
+ * kept as conflicts, with their payload, for the user to retry or export.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ApiError, apiFetch } from '@/lib/api';
+import { DEFAULT_STYLES } from '@/types/annotations';
+import type { Annotation, NewAnnotation, UpdateAnnotation } from '@/types/annotations';
+import { OFFLINE_CONFLICTS_STORAGE_KEY, OFFLINE_QUEUE_STORAGE_KEY } from '@/types/offline';
+import type { OfflineOperation, OfflineSyncConflict } from '@/types/offline';
+
+type AnnotationResponse = { success: boolean; data?: Annotation; error?: string };
+
+// Set while syncOfflineQueue runs. The sync writes back the queue it read,
+// so edits and removals of queued changes are refused until it finishes;
+// new changes are appended and kept.
+let syncing = false;
+
+function assertNotSyncing(): void {
+  if (syncing) {
+    throw new Error('Offline changes are being sent; try again when the sync has finished');
+  }
+}
+
+function loadList<T>(key: string): T[] {
+  try {
+    const stored = localStorage.getItem(key);
+    const list = stored ? JSON.parse(stored) : [];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveList<T>(key: string, list: T[]): void {
+  try {
+    if (list.length > 0) {
+      localStorage.setItem(key, JSON.stringify(list));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    // The queue lasts for the session when storage is unavailable
+  }
+}
+
+export function loadOfflineQueue(): OfflineOperation[] {
+  return loadList<OfflineOperation>(OFFLINE_QUEUE_STORAGE_KEY);
+}
+
+export function loadSyncConflicts(): OfflineSyncConflict[] {
+  // Entries without a payload can be neither retried nor exported
+  return loadList<OfflineSyncConflict>(OFFLINE_CONFLICTS_STORAGE_KEY).filter((c) => c.id && c.operation);
+}
+
+export function clearSyncConflicts(): void {
+  saveList(OFFLINE_CONFLICTS_STORAGE_KEY, []);
+}
+
+function nextTempId(queue: OfflineOperation[]): number {
+  return Math.min(0, ...queue.map((op) => (op.kind === 'create' ? op.tempId : 0))) - 1;
+}
+
+/**
+ * Put a refused change back in the queue. A retried edit is sent without
+ * the updated_at check, so it replaces whatever changed on the server.
+ */
+export function requeueSyncConflict(id: string): void {
+  const conflicts = loadSyncConflicts();
+  const conflict = conflicts.find((c) => c.id === id);
+  if (!conflict) return;
+
+  const queue = loadOfflineQueue();
+  const queuedAt = new Date().toISOString();
+  const { operation } = conflict;
+  queue.push(
+    operation.kind === 'create'
+      ? { ...operation, tempId: nextTempId(queue), queuedAt }
+      : { ...operation, expectedUpdatedAt: null, queuedAt }
+  );
+  saveList(OFFLINE_QUEUE_STORAGE_KEY, queue);
+  saveList(OFFLINE_CONFLICTS_STORAGE_KEY, conflicts.filter((c) => c !== conflict));
+}
+
+/**
+ * Refused changes as a GeoJSON FeatureCollection (EPSG:4326, as sent to
+ * the API), so field work isn't lost when a change can't be saved. Edits
+ * that didn't touch the geometry have a null geometry.
+ */
+export function syncConflictsToGeoJson(conflicts: OfflineSyncConflict[]): string {
+  const features = conflicts.map((conflict) => {
+    const { operation } = conflict;
+    const { geometry, ...fields } = operation.kind === 'create' ? operation.annotation : operation.updates;
+    return {
+      type: 'Feature',
+      geometry: geometry ?? null,
+      properties: {
+        ...fields,
+        change: operation.kind,
+        annotation_id: operation.kind === 'update' ? operation.id : null,
+        title: fields.title ?? conflict.title,
+        refused_reason: conflict.reason,
+        refused_at: conflict.at,
+        queued_at: operation.queuedAt,
+      },
+    };
+  });
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+/**
+ * True when a request failed for want of a connection rather than being
+ * refused by the server (fetch rejects with a TypeError)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+}
+
+/**
+ * How a queued create is shown until the server has saved it
+ */
+function provisionalAnnotation(tempId: number, annotation: NewAnnotation, queuedAt: string): Annotation {
+  return {
+    id: tempId,
+    title: annotation.title,
+    description: annotation.description ?? null,
+    category: annotation.category ?? 'general',
+    geometry_type: annotation.geometry_type,
+    geometry: annotation.geometry,
+    style_config: { ...DEFAULT_STYLES[annotation.geometry_type], ...annotation.style_config },
+    intervention_type: annotation.intervention_type ?? null,
+    intervention_info: annotation.intervention_info ?? null,
+    created_by: annotation.created_by,
+    created_at: queuedAt,
+    updated_at: queuedAt,
+  };
+}
+
+/**
+ * Annotations from the server with the queued edits applied and the
+ * queued creates added
+ */
+export function applyOfflineQueue(annotations: Annotation[], queue: OfflineOperation[]): Annotation[] {
+  const updates = new Map<number, UpdateAnnotation>();
+  const created: Annotation[] = [];
+  for (const op of queue) {
+    if (op.kind === 'update') {
+      updates.set(op.id, op.updates);
+    } else {
+      created.push(provisionalAnnotation(op.tempId, op.annotation, op.queuedAt));
+    }
+  }
+  return [
+    ...annotations.map((a) => {
+      const pending = updates.get(a.id);
+      return pending ? ({ ...a, ...pending, style_config: { ...a.style_config, ...pending.style_config } } as Annotation) : a;
+    }),
+    ...created,
+  ];
+}
+
+/**
+ * Queue a create; returns the provisional annotation with its temporary id
+ */
+export function queueCreate(annotation: NewAnnotation): Annotation {
+  const queue = loadOfflineQueue();
+  const tempId = nextTempId(queue);
+  const queuedAt = new Date().toISOString();
+  saveList(OFFLINE_QUEUE_STORAGE_KEY, [...queue, { kind: 'create', tempId, annotation, queuedAt }]);
+  return provisionalAnnotation(tempId, annotation, queuedAt);
+}
+
+/**
+ * Queue an edit. Edits of a queued create change what will be created;
+ * repeated edits of a saved annotation are merged and keep the first
+ * edit's updated_at for the conflict check. Throws while a sync is running.
+ */
+export function queueUpdate(current: Annotation | undefined, id: number, updates: UpdateAnnotation): Annotation | null {
+  assertNotSyncing();
+  const queue = loadOfflineQueue();
+  const queuedAt = new Date().toISOString();
+  const index = queue.findIndex((op) => (op.kind === 'create' ? op.tempId === id : op.id === id));
+  const existing = index >= 0 ? queue[index] : null;
+
+  if (existing?.kind === 'create') {
+    const annotation: NewAnnotation = {
+      ...existing.annotation,
+      ...updates,
+      description: updates.description === undefined ? existing.annotation.description : updates.description ?? undefined,
+      style_config: { ...existing.annotation.style_config, ...updates.style_config },
+    };
+    queue[index] = { ...existing, annotation };
+    saveList(OFFLINE_QUEUE_STORAGE_KEY, queue);
+    return provisionalAnnotation(existing.tempId, annotation, queuedAt);
+  }
+
+  if (existing?.kind === 'update') {
+    queue[index] = { ...existing, title: updates.title ?? existing.title, updates: { ...existing.updates, ...updates }, queuedAt };
+  } else {
+    queue.push({
+      kind: 'update',
+      id,
+      title: updates.title ?? current?.title ?? `#${id}`,
+      updates,
+      expectedUpdatedAt: current?.updated_at ?? null,
+      queuedAt,
+    });
+  }
+  saveList(OFFLINE_QUEUE_STORAGE_KEY, queue);
+  return current ? applyOfflineQueue([current], queue)[0] : null;
+}
+
+/**
+ * Drop the queued changes of an annotation: the create of a draft deleted
+ * before it was sent, or the edits of one deleted on the server. Throws
+ * while a sync is running.
+ */
+export function dequeueAnnotation(id: number): void {
+  assertNotSyncing();
+  const queue = loadOfflineQueue();
+  saveList(OFFLINE_QUEUE_STORAGE_KEY, queue.filter((op) => (op.kind === 'create' ? op.tempId !== id : op.id !== id)));
+}
+
+export interface OfflineSyncResult {
+  synced: number;
+  conflicts: OfflineSyncConflict[];
+  remaining: number;
+}
+
+/**
+ * Send the queued changes in order. Stops at the first network failure or
+ * expired session, leaving the rest queued; changes the server refuses are
+ * moved from the queue to the conflicts, payload included.
+ */
+export async function syncOfflineQueue(apiUrl: string): Promise<OfflineSyncResult> {
+  assertNotSyncing();
+  const queue = loadOfflineQueue();
+  const conflicts: OfflineSyncConflict[] = [];
+  let synced = 0;
+  let index = 0;
+
+  syncing = true;
+  try {
+    for (; index < queue.length; index++) {
+      const op = queue[index];
+      try {
+        const result = op.kind === 'create'
+          ? await apiFetch<AnnotationResponse>(apiUrl, { method: 'POST', body: JSON.stringify(op.annotation) })
+          : await apiFetch<AnnotationResponse>(`${apiUrl}/${op.id}`, {
+            method: 'PUT',
+            body: JSON.stringify({ ...op.updates, expected_updated_at: op.expectedUpdatedAt ?? undefined }),
+          });
+        if (!result.success) {
+          throw new Error(result.error || 'Request failed');
+        }
+        synced++;
+      } catch (error) {
+        if (isNetworkError(error) || (error instanceof ApiError && error.status === 401)) break;
+        conflicts.push({
+          id: uuidv4(),
+          kind: op.kind,
+          title: op.kind === 'create' ? op.annotation.title : op.title,
+          reason: error instanceof Error ? error.message : 'Unknown error',
+          at: new Date().toISOString(),
+          operation: op,
+        });
+      }
+    }
+  } finally {
+    syncing = false;
+  }
+
+  // Changes queued while this sync ran can only have been appended
+  saveList(OFFLINE_QUEUE_STORAGE_KEY, [...queue.slice(index), ...loadOfflineQueue().slice(queue.length)]);
+  if (conflicts.length > 0) {
+    saveList(OFFLINE_CONFLICTS_STORAGE_KEY, [...loadSyncConflicts(), ...conflicts]);
+  }
+  return { synced, conflicts, remaining: queue.length - index };
+}
@@ -0,0 +1,202 @@
+/**
+ * Permalink Encoding
+ *
+ * Reads and writes app state in the URL hash, e.g.
+ * `#v=440000,3080000,10.5,0&b=satellite&l=a,b&s=risk&rv=ead`. Short keys keep
+ * links readable; list items are URI-encoded individually so commas and
+ * colons stay literal separators. Unknown or malformed values are dropped
+ * rather than rejected, so an old or hand-edited link still opens.
+ */
+
+import type { RiskView } from '@/types/risk';
+import type { HotspotWeights } from '@/types/socioeconomic';
+import type {
+  ClimateOption,
+  ImpactPermalinkState,
+  ImpactView,
+  MapViewState,
+  PermalinkState,
+  RiskPermalinkState,
+  SidebarView,
+} from '@/types/permalink';
+
+const SIDEBAR_VIEWS: readonly SidebarView[] = ['layers', 'risk', 'impact', 'interventions'];
+const RISK_VIEWS: readonly RiskView[] = [
+  'summary', 'district', 'spatial', 'ead', 'eal', 'population', 'hotspots', 'bca', 'trajectory',
+];
+const IMPACT_VIEWS: readonly ImpactView[] = ['summary', 'detail', 'compare'];
+const CLIMATES: readonly ClimateOption[] = ['present', 'future'];
+const MAINTENANCE: readonly RiskPermalinkState['spatialMaintenance'][] = ['breaches', 'redcapacity', 'perfect'];
+/** Order of the comma-separated hotspot weights */
+const HOTSPOT_WEIGHT_KEYS: readonly (keyof HotspotWeights)[] = [
+  'physicalRisk', 'economicLoss', 'populationRisk', 'socioeconomicVulnerability',
+];
+
+function oneOf<T extends string>(options: readonly T[], value: string | undefined): T | undefined {
+  return options.find((o) => o === value);
+}
+
+function finite(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** decodeURIComponent, or undefined for a malformed escape such as "%E0%A4%A" */
+function decode(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeList(value: string): string[] {
+  return value
+    .split(',')
+    .map(decode)
+    .filter((item): item is string => item !== undefined);
+}
+
+function encodeList(items: string[]): string {
+  return items.map((item) => encodeURIComponent(item)).join(',');
+}
+
+/** Drop undefined fields so an empty group can be left out entirely */
+function compact<T extends object>(value: T): Partial<T> | undefined {
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as Partial<T>) : undefined;
+}
+
+function parseView(value: string | undefined): MapViewState | undefined {
+  if (!value) return undefined;
+  const [x, y, zoom, rotation = 0] = value.split(',').map(Number);
+  if (![x, y, zoom, rotation].every(Number.isFinite)) return undefined;
+  return { center: [x, y], zoom, rotation };
+}
+
+function parseHotspotWeights(value: string | undefined): HotspotWeights | undefined {
+  if (!value) return undefined;
+  const values = value.split(',').map(Number);
+  if (values.length !== HOTSPOT_WEIGHT_KEYS.length || !values.every((v) => Number.isFinite(v) && v >= 0)) {
+    return undefined;
+  }
+  const [physicalRisk, economicLoss, populationRisk, socioeconomicVulnerability] = values;
+  return { physicalRisk, economicLoss, populationRisk, socioeconomicVulnerability };
+}
+
+function parseOpacities(value: string | undefined): Record<string, number> | undefined {
+  if (value === undefined) return undefined;
+  const opacities: Record<string, number> = {};
+  for (const item of value.split(',')) {
+    const sep = item.lastIndexOf(':');
+    if (sep <= 0) continue;
+    const opacity = finite(item.slice(sep + 1));
+    const id = decode(item.slice(0, sep));
+    if (id !== undefined && opacity !== undefined) {
+      opacities[id] = Math.min(1, Math.max(0, opacity));
+    }
+  }
+  return opacities;
+}
+
+/**
+ * Parse a location hash (with or without the leading "#").
+ */
+export function parsePermalink(hash: string): PermalinkState {
+  const params: Record<string, string> = {};
+  for (const pair of hash.replace(/^#/, '').split('&')) {
+    if (!pair) continue;
+    const sep = pair.indexOf('=');
+    if (sep > 0) params[pair.slice(0, sep)] = pair.slice(sep + 1);
+  }
+
+  const risk = compact<Partial<RiskPermalinkState>>({
+    view: oneOf(RISK_VIEWS, params.rv),
+    climate: oneOf(CLIMATES, params.rc),
+    scenarioKey: decode(params.rs),
+    spatialReturnPeriod: finite(params.rp),
+    spatialMaintenance: oneOf(MAINTENANCE, params.rm),
+    hotspotWeights: parseHotspotWeights(params.hw),
+  });
+
+  const depth = finite(params.d);
+  const impact = compact<Partial<ImpactPermalinkState>>({
+    view: oneOf(IMPACT_VIEWS, params.iv),
+    climate: oneOf(CLIMATES, params.ic),
+    scenarioId: decode(params.is),
+    depthThreshold: depth !== undefined && depth >= 0 ? depth : undefined,
+  });
+
+  return {
+    view: parseView(params.v),
+    baseMap: decode(params.b),
+    visibleLayerIds: params.l !== undefined ? decodeList(params.l) : undefined,
+    layerOpacities: parseOpacities(params.o),
+    sidebarView: oneOf(SIDEBAR_VIEWS, params.s),
+    risk,
+    impact,
+  };
+}
+
+/**
+ * Encode state as a hash string (including the leading "#"). Coordinates
+ * are rounded to the metre and zoom to 1/100 so small pans don't churn the
+ * URL.
+ */
+export function serializePermalink(state: PermalinkState): string {
+  const parts: string[] = [];
+  const add = (key: string, value: string | undefined) => {
+    if (value !== undefined) parts.push(`${key}=${value}`);
+  };
+
+  const { view, risk, impact } = state;
+  if (view) {
+    const rotation = Math.round(view.rotation * 1000) / 1000;
+    add('v', [
+      Math.round(view.center[0]),
+      Math.round(view.center[1]),
+      Math.round(view.zoom * 100) / 100,
+      ...(rotation !== 0 ? [rotation] : []),
+    ].join(','));
+  }
+  add('b', state.baseMap !== undefined ? encodeURIComponent(state.baseMap) : undefined);
+  add('l', state.visibleLayerIds !== undefined ? encodeList(state.visibleLayerIds) : undefined);
+  if (state.layerOpacities && Object.keys(state.layerOpacities).length > 0) {
+    add('o', Object.entries(state.layerOpacities)
+      .map(([id, opacity]) => `${encodeURIComponent(id)}:${Math.round(opacity * 100) / 100}`)
+      .join(','));
+  }
+  add('s', state.sidebarView);
+
+  if (risk) {
+    add('rv', risk.view);
+    add('rc', risk.climate);
+    add('rs', risk.scenarioKey ? encodeURIComponent(risk.scenarioKey) : undefined);
+    add('rp', risk.spatialReturnPeriod?.toString());
+    add('rm', risk.spatialMaintenance);
+    const weights = risk.hotspotWeights;
+    add('hw', weights
+      ? HOTSPOT_WEIGHT_KEYS.map((key) => Math.round(weights[key] * 1000) / 1000).join(',')
+      : undefined);
+  }
+  if (impact) {
+    add('iv', impact.view);
+    add('ic', impact.climate);
+    add('is', impact.scenarioId ? encodeURIComponent(impact.scenarioId) : undefined);
+    add('d', impact.depthThreshold ? impact.depthThreshold.toString() : undefined);
+  }
+
+  return parts.length > 0 ? `#${parts.join('&')}` : '';
+}
+
+/**
+ * Whether two encoded states differ in more than the map view and layer
+ * opacities. Pans, zooms and opacity drags replace the current history
+ * entry; everything else adds a new one.
+ */
+export function isPermalinkNavigation(previous: string, next: string): boolean {
+  const strip = (hash: string) => hash.replace(/^#/, '').split('&').filter((p) => !/^[vo]=/.test(p)).join('&');
+  return strip(previous) !== strip(next);
+}
@@ -0,0 +1,138 @@
+/**
+ * Cross-Section Profile
+ *
+ * Samples ground elevation from the single-band DEM and scenario max depths
+ * along a line with GetFeatureInfo, one point at a time (one request for
+ * the DEM and one for all selected depth rasters). Water surface = ground +
+ * depth where wet.
+ */
+
+import { ELEVATION_DEM, GEOSERVER_CONFIG, buildLayerName } from '@/config/layers';
+import { bandValues, isNoDataValue, runConcurrent, sampleBands, sampleLayers } from '@/lib/raster-probe';
+import { climateScenarios, maintenanceLevels } from '@/types/layers';
+import { MAX_PROFILE_SAMPLES } from '@/types/profile';
+import type { ProbeValues } from '@/types/probe';
+import type { ProfileSample, ProfileScenario } from '@/types/profile';
+
+/**
+ * Ground elevation from the DEM's band values; null for no-data. Unlike the
+ * depth rasters, heights below zero are kept. A multi-band response means
+ * the layer is a rendered image (e.g. a colour relief), not heights.
+ */
+function parseElevation(properties: Record<string, unknown> | null): number | null {
+  const values = bandValues(properties ?? undefined);
+  if (values.length > 1) {
+    throw new Error(`${ELEVATION_DEM.workspace}:${ELEVATION_DEM.layerName} has ${values.length} bands; ground elevation needs a single-band DEM`);
+  }
+  return values.length === 0 || isNoDataValue(values[0]) ? null : values[0];
+}
+
+/** Scenario id without dots, so it also works as a chart data key (e.g. 2.3 → 2_3) */
+export function profileScenarioKey(scenario: ProfileScenario): string {
+  return `${scenario.climate}_${scenario.maintenance}_${scenario.returnPeriod.replace('.', '_')}`;
+}
+
+export function profileScenarioLabel(scenario: ProfileScenario): string {
+  const climate = climateScenarios.find((c) => c.value === scenario.climate)?.label.replace(' Climate', '') ?? scenario.climate;
+  const maintenance = maintenanceLevels.find((m) => m.value === scenario.maintenance)?.label ?? scenario.maintenance;
+  return `${climate} · ${maintenance} · ${scenario.returnPeriod} yr`;
+}
+
+/**
+ * Points along a polyline every `spacing` metres (plus the end point),
+ * widening the spacing so no more than MAX_PROFILE_SAMPLES are returned.
+ *
+ * @returns Points with their distance along the line, and the spacing used
+ */
+export function densifyLine(coordinates: number[][], spacing: number): { points: { distance: number; x: number; y: number }[]; spacing: number } {
+  const segments: { start: number[]; end: number[]; length: number; offset: number }[] = [];
+  let total = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    const [x0, y0] = coordinates[i - 1];
+    const [x1, y1] = coordinates[i];
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    if (length === 0) continue;
+    segments.push({ start: coordinates[i - 1], end: coordinates[i], length, offset: total });
+    total += length;
+  }
+  if (segments.length === 0) return { points: [], spacing };
+
+  const step = Math.max(spacing, total / (MAX_PROFILE_SAMPLES - 1));
+  const distances: number[] = [];
+  for (let d = 0; d < total; d += step) distances.push(d);
+  distances.push(total);
+
+  let segment = 0;
+  const points = distances.map((distance) => {
+    while (segment < segments.length - 1 && distance > segments[segment].offset + segments[segment].length) segment++;
+    const { start, end, length, offset } = segments[segment];
+    const t = Math.min(1, (distance - offset) / length);
+    return {
+      distance,
+      x: start[0] + (end[0] - start[0]) * t,
+      y: start[1] + (end[1] - start[1]) * t,
+    };
+  });
+  return { points, spacing: step };
+}
+
+/**
+ * Sample ground elevation and scenario depths at each point.
+ *
+ * @param onProgress - Called with the share of points finished (0–1)
+ */
+export async function sampleProfile(
+  points: { distance: number; x: number; y: number }[],
+  scenarios: ProfileScenario[],
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<ProfileSample[]> {
+  const depthLayers = scenarios.map((s) => buildLayerName(s.climate, s.maintenance, s.returnPeriod, 'maxdepth'));
+
+  return runConcurrent(
+    points.map((point) => async () => {
+      const coordinate = [point.x, point.y];
+      const [elevation, depths] = await Promise.all([
+        sampleBands(ELEVATION_DEM.workspace, ELEVATION_DEM.layerName, coordinate, signal),
+        depthLayers.length > 0
+          ? sampleLayers(GEOSERVER_CONFIG.workspaces.results, depthLayers, coordinate, signal)
+          : Promise.resolve<ProbeValues>({}),
+      ]);
+      const sample: ProfileSample = {
+        ...point,
+        ground: parseElevation(elevation),
+        depths: {},
+      };
+      scenarios.forEach((scenario, i) => {
+        const depth = depths[depthLayers[i]] ?? null;
+        sample.depths[profileScenarioKey(scenario)] = depth !== null && depth > 0 ? depth : null;
+      });
+      return sample;
+    }),
+    onProgress && ((done) => onProgress(done / points.length))
+  );
+}
+
+/**
+ * CSV of a profile: distance, coordinates, ground and water surface per scenario
+ */
+export function profileToCsv(samples: ProfileSample[], scenarios: ProfileScenario[]): string {
+  const header = [
+    'distance_m',
+    'easting',
+    'northing',
+    `ground_${ELEVATION_DEM.units}`,
+    ...scenarios.map((s) => `wse_${profileScenarioKey(s)}_${ELEVATION_DEM.units}`),
+  ];
+  const rows = samples.map((sample) => [
+    sample.distance.toFixed(1),
+    sample.x.toFixed(1),
+    sample.y.toFixed(1),
+    sample.ground?.toFixed(2) ?? '',
+    ...scenarios.map((s) => {
+      const depth = sample.depths[profileScenarioKey(s)];
+      return sample.ground !== null && depth !== null && depth !== undefined ? (sample.ground + depth).toFixed(2) : '';
+    }),
+  ]);
+  return [header, ...rows].map((row) => row.join(',')).join('\n');
+}
@@ -0,0 +1,225 @@
+/**
+ * Raster Probe
+ *
+ * Samples the flood scenario rasters at a point with WMS GetFeatureInfo.
+ * Layers are queried in batches (one request per climate, maintenance level
+ * and parameter, covering its seven return periods) instead of one request
+ * per layer; a batch whose response can't be matched to its layers is
+ * retried layer by layer.
+ */
+
+import { GEOSERVER_CONFIG, MAP_CONFIG, buildLayerName } from '@/config/layers';
+import { climateScenarios, maintenanceLevels, parameters, returnPeriods } from '@/types/layers';
+import type { ProbeLayer, ProbeSelection, ProbeValues } from '@/types/probe';
+
+/** Concurrent GetFeatureInfo requests */
+const MAX_CONCURRENT = 6;
+
+/** Half-width of the GetFeatureInfo box around the point, in metres */
+const BBOX_HALF_SIZE = 50;
+
+/** Values at or beyond these are raster no-data markers */
+const NODATA_MIN = -9000;
+const NODATA_MAX = 1e30;
+
+export const DEFAULT_PROBE_SELECTION: ProbeSelection = {
+  climates: climateScenarios.map((c) => c.value),
+  maintenance: maintenanceLevels.map((m) => m.value),
+  parameters: parameters.map((p) => p.value),
+};
+
+/**
+ * Rasters for the selection, ordered by climate, maintenance, parameter
+ * and return period
+ */
+export function buildProbeLayers(selection: ProbeSelection): ProbeLayer[] {
+  const layers: ProbeLayer[] = [];
+  for (const climate of climateScenarios) {
+    if (!selection.climates.includes(climate.value)) continue;
+    for (const maintenance of maintenanceLevels) {
+      if (!selection.maintenance.includes(maintenance.value)) continue;
+      for (const parameter of parameters) {
+        if (!selection.parameters.includes(parameter.value)) continue;
+        for (const rp of returnPeriods) {
+          layers.push({
+            layerName: buildLayerName(climate.value, maintenance.value, rp.value, parameter.value),
+            climate: climate.value,
+            maintenance: maintenance.value,
+            parameter: parameter.value,
+            returnPeriod: rp.value,
+          });
+        }
+      }
+    }
+  }
+  return layers;
+}
+
+/** Whether a raster value is a no-data marker */
+export function isNoDataValue(value: number): boolean {
+  return value <= NODATA_MIN || value >= NODATA_MAX;
+}
+
+/** Numeric band values of a GetFeatureInfo feature's properties, in band order */
+export function bandValues(properties: Record<string, unknown> | undefined): number[] {
+  if (!properties) return [];
+  return Object.values(properties)
+    .map((value) => (typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN))
+    .filter((value) => Number.isFinite(value));
+}
+
+/**
+ * Raster value from a GetFeatureInfo feature's properties (GRAY_INDEX or the
+ * band name); null for no-data
+ */
+export function parseRasterValue(properties: Record<string, unknown> | undefined): number | null {
+  const [number] = bandValues(properties);
+  if (number === undefined) return null;
+  return isNoDataValue(number) || number < 0 ? null : number;
+}
+
+type FeatureInfo = { id?: string; properties?: Record<string, unknown> };
+
+async function getFeatureInfo(
+  workspace: string,
+  layerNames: string[],
+  coordinate: number[],
+  signal?: AbortSignal
+): Promise<FeatureInfo[]> {
+  const [x, y] = coordinate;
+  const layers = layerNames.map((name) => `${workspace}:${name}`).join(',');
+  const params = new URLSearchParams({
+    SERVICE: 'WMS',
+    VERSION: '1.1.1',
+    REQUEST: 'GetFeatureInfo',
+    LAYERS: layers,
+    QUERY_LAYERS: layers,
+    INFO_FORMAT: 'application/json',
+    FEATURE_COUNT: String(layerNames.length),
+    SRS: MAP_CONFIG.projection,
+    BBOX: `${x - BBOX_HALF_SIZE},${y - BBOX_HALF_SIZE},${x + BBOX_HALF_SIZE},${y + BBOX_HALF_SIZE}`,
+    WIDTH: '11',
+    HEIGHT: '11',
+    X: '5',
+    Y: '5',
+  });
+
+  const response = await fetch(`${GEOSERVER_CONFIG.baseUrl}/${workspace}/wms?${params}`, { signal });
+  if (!response.ok) {
+    throw new Error(`GetFeatureInfo failed: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json();
+  return Array.isArray(data.features) ? data.features : [];
+}
+
+/**
+ * Match a batch response to its layers: by feature id when GeoServer
+ * prefixes it with the layer name, else by order when every layer
+ * returned one feature; null when neither works
+ */
+function matchBatch(layerNames: string[], features: FeatureInfo[]): ProbeValues | null {
+  const values: ProbeValues = {};
+  const byId = layerNames.every((name) => {
+    const feature = features.find((f) => f.id?.startsWith(`${name}.`));
+    values[name] = feature ? parseRasterValue(feature.properties) : null;
+    return feature !== undefined;
+  });
+  if (byId) return values;
+
+  if (features.length !== layerNames.length) return null;
+  layerNames.forEach((name, i) => {
+    values[name] = parseRasterValue(features[i].properties);
+  });
+  return values;
+}
+
+/**
+ * Properties (band values) of one raster at a coordinate (EPSG:32642);
+ * null outside its coverage
+ */
+export async function sampleBands(
+  workspace: string,
+  layerName: string,
+  coordinate: number[],
+  signal?: AbortSignal
+): Promise<Record<string, unknown> | null> {
+  const [feature] = await getFeatureInfo(workspace, [layerName], coordinate, signal);
+  return feature?.properties ?? null;
+}
+
+/**
+ * Sample rasters of one workspace at a coordinate (EPSG:32642) in a single
+ * GetFeatureInfo request, falling back to one request per layer.
+ */
+export async function sampleLayers(
+  workspace: string,
+  layerNames: string[],
+  coordinate: number[],
+  signal?: AbortSignal
+): Promise<ProbeValues> {
+  const matched = matchBatch(layerNames, await getFeatureInfo(workspace, layerNames, coordinate, signal));
+  if (matched) return matched;
+
+  // A layer without a feature (outside its coverage) breaks order matching
+  const values: ProbeValues = {};
+  await Promise.all(
+    layerNames.map(async (name) => {
+      const features = await getFeatureInfo(workspace, [name], coordinate, signal);
+      values[name] = features.length > 0 ? parseRasterValue(features[0].properties) : null;
+    })
+  );
+  return values;
+}
+
+/**
+ * Sample every layer at a coordinate (EPSG:32642).
+ *
+ * @param onProgress - Called with the share of batches finished (0–1)
+ */
+export async function probeRasters(
+  layers: ProbeLayer[],
+  coordinate: number[],
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<ProbeValues> {
+  const batches: string[][] = [];
+  const batchIndex = new Map<string, number>();
+  for (const layer of layers) {
+    const key = `${layer.climate}_${layer.maintenance}_${layer.parameter}`;
+    let index = batchIndex.get(key);
+    if (index === undefined) {
+      index = batches.push([]) - 1;
+      batchIndex.set(key, index);
+    }
+    batches[index].push(layer.layerName);
+  }
+
+  const values: ProbeValues = {};
+  await runConcurrent(
+    batches.map((batch) => async () => {
+      Object.assign(values, await sampleLayers(GEOSERVER_CONFIG.workspaces.results, batch, coordinate, signal));
+    }),
+    onProgress && ((done) => onProgress(done / batches.length))
+  );
+  return values;
+}
+
+/**
+ * Run tasks with a limited number of requests in flight, preserving result order.
+ *
+ * @param onDone - Called with the number of tasks finished so far
+ */
+export async function runConcurrent<T>(tasks: (() => Promise<T>)[], onDone?: (done: number) => void): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+      onDone?.(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT, tasks.length) }, worker));
+  return results;
+}
@@ -0,0 +1,215 @@
+/**
+ * Raster Style
+ *
+ * Colour ramps and class breaks for the hazard rasters, written as an SLD
+ * ColorMap. The SLD is previewed through the WMS SLD_BODY parameter and can
+ * be published by an admin as the layer's default GeoServer style.
+ */
+
+import { GEOSERVER_CONFIG, parseLayerName } from '@/config/layers';
+import { apiPut } from '@/lib/api';
+import { runConcurrent, sampleLayers } from '@/lib/raster-probe';
+import type { LayerInfo } from '@/types/layers';
+import { COLOR_RAMPS, PARAMETER_STYLE_DEFAULTS, RASTER_STYLES_STORAGE_KEY } from '@/types/raster-style';
+import type { ColorRampId, RasterStyle, RasterStyles } from '@/types/raster-style';
+
+const STYLES_API_URL = '/api/styles';
+
+/** Sample points per side of the grid used for quantile breaks */
+const SAMPLE_GRID_SIZE = 12;
+
+/** Upper bound of the top class, which is open-ended */
+const OPEN_UPPER_BOUND = 1e12;
+
+const DEFAULT_CLASS_COUNT = 5;
+
+function hexToRgb(hex: string): number[] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function rgbToHex(rgb: number[]): string {
+  return `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Class colours interpolated along a ramp
+ */
+export function rampColors(ramp: ColorRampId, count: number, reversed = false): string[] {
+  const stops = reversed ? [...COLOR_RAMPS[ramp].colors].reverse() : COLOR_RAMPS[ramp].colors;
+  return Array.from({ length: count }, (_, i) => {
+    const position = count === 1 ? 0 : (i / (count - 1)) * (stops.length - 1);
+    const index = Math.min(Math.floor(position), stops.length - 2);
+    const t = position - index;
+    const from = hexToRgb(stops[index]);
+    const to = hexToRgb(stops[index + 1]);
+    return rgbToHex(from.map((c, j) => c + (to[j] - c) * t));
+  });
+}
+
+/** Three significant digits, enough for class limits */
+export function roundBreak(value: number): number {
+  return value === 0 ? 0 : Number(value.toPrecision(3));
+}
+
+export function equalIntervalBreaks(min: number, max: number, classes: number): number[] {
+  return Array.from({ length: classes + 1 }, (_, i) => roundBreak(min + ((max - min) * i) / classes));
+}
+
+/**
+ * Breaks putting about the same number of sampled values in each class.
+ * Repeated values can merge classes, so fewer may come back.
+ */
+export function quantileBreaks(values: number[], classes: number): number[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const breaks = Array.from({ length: classes + 1 }, (_, i) =>
+    roundBreak(sorted[Math.min(Math.floor((i * sorted.length) / classes), sorted.length - 1)])
+  );
+  return breaks.filter((value, i) => i === 0 || value > breaks[i - 1]);
+}
+
+export function defaultRasterStyle(parameter: string): RasterStyle {
+  const defaults = PARAMETER_STYLE_DEFAULTS[parameter] ?? PARAMETER_STYLE_DEFAULTS.maxdepth;
+  return {
+    ramp: defaults.ramp,
+    reversed: false,
+    method: 'equal',
+    breaks: equalIntervalBreaks(defaults.min, defaults.max, DEFAULT_CLASS_COUNT),
+    transparentBelow: defaults.transparentBelow,
+  };
+}
+
+/**
+ * Ids of the hazard rasters showing the same parameter as a layer
+ */
+export function sameParameterLayerIds(layer: LayerInfo, layers: LayerInfo[]): string[] {
+  const parameter = parseLayerName(layer.geoserverName ?? '')?.parameter;
+  if (!parameter) return [layer.id];
+  return layers.filter((l) => parseLayerName(l.geoserverName ?? '')?.parameter === parameter).map((l) => l.id);
+}
+
+export interface RasterStyleClass {
+  color: string;
+  label: string;
+  /** Exclusive upper bound; the top class is open-ended */
+  upper: number;
+}
+
+/**
+ * Classes drawn by a style: those below the transparency threshold are
+ * dropped and the lowest remaining one starts at the threshold
+ */
+export function rasterStyleClasses(style: RasterStyle): RasterStyleClass[] {
+  const classCount = style.breaks.length - 1;
+  const colors = rampColors(style.ramp, classCount, style.reversed);
+  const floor = style.transparentBelow ?? -Infinity;
+  return colors.flatMap((color, i) => {
+    const isTop = i === classCount - 1;
+    const upper = isTop ? OPEN_UPPER_BOUND : style.breaks[i + 1];
+    if (upper <= floor) return [];
+    const lower = Math.max(style.breaks[i], floor);
+    return [{ color, upper, label: isTop ? `≥ ${lower}` : `${lower} – ${upper}` }];
+  });
+}
+
+/**
+ * SLD with an intervals ColorMap: each entry colours the values from the
+ * previous quantity up to its own, and a transparent first entry hides
+ * everything below the lowest break (or the threshold)
+ */
+export function buildRasterSld(layer: LayerInfo, style: RasterStyle): string {
+  const floor = Math.max(style.breaks[0], style.transparentBelow ?? -Infinity);
+  const entries = [
+    `<ColorMapEntry color="#000000" quantity="${floor}" opacity="0" label="&lt; ${floor}"/>`,
+    ...rasterStyleClasses(style).map(
+      ({ color, label, upper }) => `<ColorMapEntry color="${color}" quantity="${upper}" label="${escapeXml(label)}"/>`
+    ),
+  ];
+
+  const name = escapeXml(`${layer.workspace}:${layer.geoserverName}`);
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<StyledLayerDescriptor version="1.0.0" xmlns="http://www.opengis.net/sld" xmlns:ogc="http://www.opengis.net/ogc">' +
+    `<NamedLayer><Name>${name}</Name><UserStyle><Name>${escapeXml(`${layer.geoserverName}_custom`)}</Name>` +
+    `<Title>${escapeXml(layer.name)}</Title><IsDefault>1</IsDefault>` +
+    '<FeatureTypeStyle><Rule><RasterSymbolizer><Opacity>1.0</Opacity>' +
+    `<ColorMap type="intervals">${entries.join('')}</ColorMap>` +
+    '</RasterSymbolizer></Rule></FeatureTypeStyle></UserStyle></NamedLayer></StyledLayerDescriptor>'
+  );
+}
+
+/** GetLegendGraphic for a layer drawn with an SLD_BODY */
+export function buildSldLegendUrl(layer: LayerInfo, sld: string): string {
+  return `${GEOSERVER_CONFIG.baseUrl}/wms?REQUEST=GetLegendGraphic&VERSION=1.1.1&FORMAT=image/png` +
+    `&LAYER=${layer.workspace}:${layer.geoserverName}&WIDTH=20&HEIGHT=20&SLD_BODY=${encodeURIComponent(sld)}`;
+}
+
+/**
+ * Positive raster values on a grid over an extent (EPSG:32642), for
+ * quantile breaks. No-data and dry cells are left out.
+ *
+ * @param onProgress - Called with the share of points sampled (0–1)
+ */
+export async function sampleRasterValues(
+  layer: LayerInfo,
+  extent: number[],
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<number[]> {
+  const [minX, minY, maxX, maxY] = extent;
+  const points: number[][] = [];
+  for (let row = 0; row < SAMPLE_GRID_SIZE; row++) {
+    for (let col = 0; col < SAMPLE_GRID_SIZE; col++) {
+      points.push([
+        minX + ((col + 0.5) * (maxX - minX)) / SAMPLE_GRID_SIZE,
+        minY + ((row + 0.5) * (maxY - minY)) / SAMPLE_GRID_SIZE,
+      ]);
+    }
+  }
+
+  const workspace = layer.workspace ?? GEOSERVER_CONFIG.workspaces.results;
+  const name = layer.geoserverName ?? layer.id;
+  const values = await runConcurrent(
+    points.map((point) => async () => (await sampleLayers(workspace, [name], point, signal))[name] ?? null),
+    onProgress && ((done) => onProgress(done / points.length))
+  );
+  return values.filter((value): value is number => value !== null && value > 0);
+}
+
+export function loadRasterStyles(): RasterStyles {
+  try {
+    const stored = localStorage.getItem(RASTER_STYLES_STORAGE_KEY);
+    const styles = stored ? JSON.parse(stored) : {};
+    return styles && typeof styles === 'object' && !Array.isArray(styles) ? styles : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveRasterStyles(styles: RasterStyles): void {
+  try {
+    localStorage.setItem(RASTER_STYLES_STORAGE_KEY, JSON.stringify(styles));
+  } catch {
+    // Styles last for the session when storage is unavailable
+  }
+}
+
+/**
+ * Publish the SLD as the layer's default GeoServer style (admin only).
+ * Returns the GeoServer style name.
+ */
+export async function publishRasterStyle(layer: LayerInfo, sld: string): Promise<string> {
+  const result = await apiPut<{ success: boolean; data?: { style: string }; error?: string }>(
+    `${STYLES_API_URL}/${encodeURIComponent(layer.workspace ?? '')}/${encodeURIComponent(layer.geoserverName ?? '')}`,
+    { sld }
+  );
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to publish style');
+  }
+  return result.data.style;
+}
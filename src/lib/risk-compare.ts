@@ -0,0 +1,28 @@
+/**
+ * Risk Dataset Comparison
+ *
+ * Differences between the baseline dataset and a compared dataset (ring
+ * bunds, intervention runs). Deltas are compared − baseline, so risk
+ * reductions are negative.
+ */
+
+export type RiskDelta = {
+  active: number;
+  compare: number;
+  /** compare − active */
+  delta: number;
+  /** Delta as a percentage of the active value; null when the active value is 0 */
+  percent: number | null;
+};
+
+export function riskDelta(active: number, compare: number): RiskDelta {
+  const delta = compare - active;
+  return { active, compare, delta, percent: active !== 0 ? (delta / active) * 100 : null };
+}
+
+/** Signed percentage, e.g. "−12.5%"; "—" when undefined */
+export function formatDeltaPercent(percent: number | null): string {
+  if (percent === null) return '—';
+  if (Math.abs(percent) < 0.05) return '±0%';
+  return `${percent < 0 ? '−' : '+'}${Math.abs(percent).toFixed(1)}%`;
+}
@@ -0,0 +1,157 @@
+/**
+ * Risk Data Validation
+ *
+ * Runtime checks on risk.json before the dashboard uses it. The calculations
+ * read missing districts, modes or assets as zero, so a truncated or
+ * malformed file would otherwise render plausible-looking but wrong charts.
+ *
+ * Errors (wrong shape, missing scenarios/regions/modes/assets, non-numeric or
+ * negative values) make the dataset unusable. Damages that decrease with
+ * return period are reported as warnings: they can be genuine model output
+ * but are worth a look.
+ */
+
+import {
+  DISTRICTS,
+  MAINTENANCE_LEVELS,
+  RETURN_PERIODS,
+  RISK_ASSET_KEYS,
+  buildScenarioKey,
+} from '@/types/risk';
+import type { DataIssue, DataQualityReport } from '@/types/data-quality';
+
+/** Modes every region must carry in risk.json */
+const REQUIRED_MODES = ['Exp', 'Vul', 'Dmg'] as const;
+
+/** Regions every scenario must carry: the study total and each district */
+const REQUIRED_REGIONS = ['TOTAL', ...DISTRICTS] as const;
+
+const CLIMATES = ['present', 'future'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function report(issues: DataIssue[]): DataQualityReport {
+  return {
+    issues,
+    errorCount: issues.filter((i) => i.severity === 'error').length,
+    warningCount: issues.filter((i) => i.severity === 'warning').length,
+    expectedScenarios: RETURN_PERIODS.length * CLIMATES.length * MAINTENANCE_LEVELS.length,
+  };
+}
+
+/**
+ * Validate parsed risk.json content.
+ *
+ * Takes `unknown` so it can run directly on `response.json()`; when the
+ * report has no errors the value is safe to treat as RiskJsonData.
+ */
+export function validateRiskData(raw: unknown): DataQualityReport {
+  const issues: DataIssue[] = [];
+  const error = (category: DataIssue['category'], message: string, scenario?: string) =>
+    issues.push({ severity: 'error', category, message, scenario });
+  const warning = (category: DataIssue['category'], message: string, scenario?: string) =>
+    issues.push({ severity: 'warning', category, message, scenario });
+
+  // Top-level shape; nothing else can be checked without these
+  if (!isRecord(raw)) {
+    error('shape', 'File is not a JSON object');
+    return report(issues);
+  }
+  if (typeof raw.generated !== 'string') error('shape', '"generated" is missing or not a string');
+  if (!isRecord(raw.scenarios)) error('shape', '"scenarios" is missing or not an object');
+  if (!isRecord(raw.data)) error('shape', '"data" is missing or not an object');
+  if (!Array.isArray(raw.districts)) error('shape', '"districts" is missing or not an array');
+  if (issues.length > 0) return report(issues);
+
+  const scenarios = raw.scenarios as Record<string, unknown>;
+  const data = raw.data as Record<string, unknown>;
+  const districts = raw.districts as unknown[];
+
+  for (const d of DISTRICTS) {
+    if (!districts.includes(d)) warning('shape', `"districts" does not list ${d}`);
+  }
+
+  // Expected scenarios and, within each, every region × mode × asset
+  for (const climate of CLIMATES) {
+    for (const maintenance of MAINTENANCE_LEVELS) {
+      for (const rp of RETURN_PERIODS) {
+        const key = buildScenarioKey(rp, climate, maintenance);
+
+        const meta = scenarios[key];
+        if (!isRecord(meta)) {
+          warning('scenario', 'No entry in "scenarios"', key);
+        } else if (meta.returnPeriod !== rp || meta.climate !== climate || meta.maintenance !== maintenance) {
+          warning('scenario', 'Metadata in "scenarios" does not match the key', key);
+        }
+
+        const regions = data[key];
+        if (!isRecord(regions)) {
+          error('scenario', 'Scenario missing from "data"', key);
+          continue;
+        }
+
+        for (const region of REQUIRED_REGIONS) {
+          const modes = regions[region];
+          if (!isRecord(modes)) {
+            error('region', `Region ${region} missing`, key);
+            continue;
+          }
+          for (const mode of REQUIRED_MODES) {
+            const assets = modes[mode];
+            if (!isRecord(assets)) {
+              error('region', `${region}: mode ${mode} missing`, key);
+              continue;
+            }
+            const missing = RISK_ASSET_KEYS.filter((a) => !(a in assets));
+            if (missing.length > 0) {
+              error('asset', `${region} ${mode}: missing ${missing.join(', ')}`, key);
+            }
+            for (const asset of RISK_ASSET_KEYS) {
+              if (!(asset in assets)) continue;
+              const value = assets[asset];
+              if (typeof value !== 'number' || !Number.isFinite(value)) {
+                error('asset', `${region} ${mode} ${asset}: not a number (${JSON.stringify(value)})`, key);
+              } else if (value < 0) {
+                error('value', `${region} ${mode} ${asset}: negative value ${value}`, key);
+              }
+            }
+          }
+        }
+      }
+
+      // Damage should not decrease as events get rarer
+      for (const region of REQUIRED_REGIONS) {
+        for (const asset of RISK_ASSET_KEYS) {
+          let previous: { rp: number; value: number } | null = null;
+          for (const rp of RETURN_PERIODS) {
+            const value = damageValue(data, buildScenarioKey(rp, climate, maintenance), region, asset);
+            if (value === null) continue;
+            if (previous && value < previous.value) {
+              warning(
+                'monotonic',
+                `${region} ${asset} (${climate}, ${maintenance}): damage falls from ${previous.value.toLocaleString()} at ${previous.rp}yr to ${value.toLocaleString()} at ${rp}yr`
+              );
+            }
+            previous = { rp, value };
+          }
+        }
+      }
+    }
+  }
+
+  return report(issues);
+}
+
+function damageValue(data: Record<string, unknown>, key: string, region: string, asset: string): number | null {
+  const regions = data[key];
+  if (!isRecord(regions)) return null;
+  const modes = regions[region];
+  if (!isRecord(modes)) return null;
+  const assets = modes.Dmg;
+  if (!isRecord(assets)) return null;
+  const value = assets[asset];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
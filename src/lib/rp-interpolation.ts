@@ -0,0 +1,105 @@
+/**
+ * Return-Period Interpolation
+ *
+ * Answers queries between the seven modelled return periods by interpolating
+ * linearly in log-probability space, i.e. value is linear in ln(AEP) with
+ * AEP = 1/RP (the same convention as the 'loglinear' EAD method):
+ * - forward: value (damage, affected population, fatalities) at any RP
+ * - inverse: RP at which a curve first reaches a given value
+ *
+ * Queries outside the modelled range are not extrapolated: forward queries
+ * return the nearest modelled value and inverse queries return null, both
+ * flagged through `range`.
+ */
+
+import type { RiskCurvePoint } from '@/lib/ead-integration';
+
+/** Where a query falls relative to the modelled return periods */
+export type RpQueryRange = 'within' | 'below' | 'above';
+
+export type InterpolatedValue = {
+  value: number;
+  /** 'below' = more frequent than the first RP, 'above' = rarer than the last */
+  range: RpQueryRange;
+};
+
+export type InterpolatedReturnPeriod = {
+  /** null when the value is not reached within the modelled range */
+  returnPeriod: number | null;
+  /** 'below' = value under the most frequent RP's, 'above' = never reached */
+  range: RpQueryRange;
+};
+
+/** Annual exceedance probability (fraction) of a return period */
+export function returnPeriodToAep(returnPeriod: number): number {
+  return 1 / returnPeriod;
+}
+
+/** Return period of an annual exceedance probability (fraction) */
+export function aepToReturnPeriod(aep: number): number {
+  return 1 / aep;
+}
+
+function sortCurve(curve: RiskCurvePoint[]): RiskCurvePoint[] {
+  return curve
+    .filter((p) => p.returnPeriod > 0 && Number.isFinite(p.damage))
+    .sort((a, b) => a.returnPeriod - b.returnPeriod);
+}
+
+/**
+ * Value of a risk curve at an arbitrary return period.
+ */
+export function interpolateAtReturnPeriod(curve: RiskCurvePoint[], returnPeriod: number): InterpolatedValue {
+  const points = sortCurve(curve);
+  if (points.length === 0 || !(returnPeriod > 0)) return { value: 0, range: 'within' };
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (returnPeriod < first.returnPeriod) return { value: first.damage, range: 'below' };
+  if (returnPeriod > last.returnPeriod) return { value: last.damage, range: 'above' };
+
+  for (let i = 1; i < points.length; i++) {
+    const lo = points[i - 1];
+    const hi = points[i];
+    if (returnPeriod <= hi.returnPeriod) {
+      if (hi.returnPeriod === lo.returnPeriod) return { value: hi.damage, range: 'within' };
+      const t = (Math.log(returnPeriod) - Math.log(lo.returnPeriod)) / (Math.log(hi.returnPeriod) - Math.log(lo.returnPeriod));
+      return { value: lo.damage + t * (hi.damage - lo.damage), range: 'within' };
+    }
+  }
+  return { value: last.damage, range: 'within' };
+}
+
+/**
+ * Most frequent return period at which a risk curve reaches a value.
+ */
+export function returnPeriodForValue(curve: RiskCurvePoint[], value: number): InterpolatedReturnPeriod {
+  const points = sortCurve(curve);
+  if (points.length === 0) return { returnPeriod: null, range: 'above' };
+
+  if (value <= points[0].damage) {
+    return value === points[0].damage
+      ? { returnPeriod: points[0].returnPeriod, range: 'within' }
+      : { returnPeriod: null, range: 'below' };
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const lo = points[i - 1];
+    const hi = points[i];
+    if (value > lo.damage && value <= hi.damage) {
+      const t = (value - lo.damage) / (hi.damage - lo.damage);
+      const logRp = Math.log(lo.returnPeriod) + t * (Math.log(hi.returnPeriod) - Math.log(lo.returnPeriod));
+      return { returnPeriod: Math.exp(logRp), range: 'within' };
+    }
+  }
+  return { returnPeriod: null, range: 'above' };
+}
+
+/**
+ * Short label for a return period, with its AEP, e.g. "200yr (0.5% AEP)".
+ */
+export function formatReturnPeriod(returnPeriod: number): string {
+  const rp = returnPeriod >= 10 ? Math.round(returnPeriod).toLocaleString() : returnPeriod.toFixed(1);
+  const aep = returnPeriodToAep(returnPeriod) * 100;
+  return `${rp}yr (${aep.toPrecision(2)}% AEP)`;
+}
@@ -0,0 +1,179 @@
+/**
+ * Shapefile Reader
+ *
+ * Reads the geometry (.shp) and attributes (.dbf) of an ESRI Shapefile into
+ * OpenLayers features in the file's own coordinate system. Z and M values
+ * are dropped; polygon holes are matched to the outer ring containing them.
+ */
+
+import Feature from 'ol/Feature';
+import type Geometry from 'ol/geom/Geometry';
+import LineString from 'ol/geom/LineString';
+import MultiLineString from 'ol/geom/MultiLineString';
+import MultiPoint from 'ol/geom/MultiPoint';
+import MultiPolygon from 'ol/geom/MultiPolygon';
+import Point from 'ol/geom/Point';
+import Polygon from 'ol/geom/Polygon';
+
+type Ring = number[][];
+
+/** Shape types by their 2D base type (Z adds 10, M adds 20) */
+const POINT = 1;
+const POLYLINE = 3;
+const POLYGON = 5;
+const MULTIPOINT = 8;
+
+function baseShapeType(type: number): number {
+  return type === 0 ? 0 : ((type - 1) % 10) + 1;
+}
+
+/** Twice the signed area; negative for clockwise rings */
+function signedArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return sum;
+}
+
+function ringContains(ring: Ring, [x, y]: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Shapefile polygons list outer rings clockwise and holes counter-clockwise
+ */
+function buildPolygon(rings: Ring[]): Geometry {
+  const polygons: Ring[][] = [];
+  const holes: Ring[] = [];
+  for (const ring of rings) {
+    if (signedArea(ring) <= 0) polygons.push([ring]);
+    else holes.push(ring);
+  }
+  for (const hole of holes) {
+    const owner = polygons.find((p) => ringContains(p[0], hole[0]));
+    // A hole with no outer ring is most likely a wrongly wound outer ring
+    if (owner) owner.push(hole);
+    else polygons.push([hole]);
+  }
+  return polygons.length === 1 ? new Polygon(polygons[0]) : new MultiPolygon(polygons);
+}
+
+function readPoints(view: DataView, offset: number, count: number): number[][] {
+  const points: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    points.push([view.getFloat64(offset + i * 16, true), view.getFloat64(offset + i * 16 + 8, true)]);
+  }
+  return points;
+}
+
+/** Geometry of one record; offset is the start of its content */
+function readShape(view: DataView, offset: number): Geometry | null {
+  const type = baseShapeType(view.getInt32(offset, true));
+  if (type === POINT) {
+    return new Point(readPoints(view, offset + 4, 1)[0]);
+  }
+  if (type === MULTIPOINT) {
+    return new MultiPoint(readPoints(view, offset + 40, view.getInt32(offset + 36, true)));
+  }
+  if (type === POLYLINE || type === POLYGON) {
+    const numParts = view.getInt32(offset + 36, true);
+    const numPoints = view.getInt32(offset + 40, true);
+    const points = readPoints(view, offset + 44 + numParts * 4, numPoints);
+    const parts: Ring[] = [];
+    for (let i = 0; i < numParts; i++) {
+      const start = view.getInt32(offset + 44 + i * 4, true);
+      const end = i + 1 < numParts ? view.getInt32(offset + 44 + (i + 1) * 4, true) : numPoints;
+      parts.push(points.slice(start, end));
+    }
+    if (type === POLYGON) return buildPolygon(parts);
+    return parts.length === 1 ? new LineString(parts[0]) : new MultiLineString(parts);
+  }
+  return null;
+}
+
+function readGeometries(shp: ArrayBuffer): (Geometry | null)[] {
+  const view = new DataView(shp);
+  if (view.getInt32(0) !== 9994) throw new Error('Not a Shapefile (.shp)');
+  const fileLength = view.getInt32(24) * 2;
+
+  const geometries: (Geometry | null)[] = [];
+  let offset = 100;
+  while (offset + 8 <= Math.min(fileLength, shp.byteLength)) {
+    // Record header is big-endian; length in 16-bit words
+    const contentLength = view.getInt32(offset + 4) * 2;
+    geometries.push(readShape(view, offset + 8));
+    offset += 8 + contentLength;
+  }
+  return geometries;
+}
+
+function readAttributes(dbf: ArrayBuffer, encoding: string): Record<string, unknown>[] {
+  const view = new DataView(dbf);
+  const bytes = new Uint8Array(dbf);
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    decoder = new TextDecoder();
+  }
+
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const fields: { name: string; type: string; length: number }[] = [];
+  for (let offset = 32; offset < headerLength - 1 && bytes[offset] !== 0x0d; offset += 32) {
+    fields.push({
+      name: decoder.decode(bytes.subarray(offset, offset + 11)).replace(/\0.*$/, ''),
+      type: String.fromCharCode(bytes[offset + 11]),
+      length: bytes[offset + 16],
+    });
+  }
+
+  const records: Record<string, unknown>[] = [];
+  for (let r = 0; r < recordCount; r++) {
+    let offset = headerLength + r * recordLength;
+    const properties: Record<string, unknown> = {};
+    // Skip the deletion flag
+    offset += 1;
+    for (const field of fields) {
+      const text = decoder.decode(bytes.subarray(offset, offset + field.length)).trim();
+      offset += field.length;
+      if (field.type === 'N' || field.type === 'F') {
+        properties[field.name] = text === '' || Number.isNaN(Number(text)) ? null : Number(text);
+      } else if (field.type === 'L') {
+        properties[field.name] = /^[YyTt]$/.test(text) ? true : /^[NnFf]$/.test(text) ? false : null;
+      } else if (field.type === 'D') {
+        properties[field.name] = /^\d{8}$/.test(text) ? `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6)}` : null;
+      } else {
+        properties[field.name] = text;
+      }
+    }
+    records.push(properties);
+  }
+  return records;
+}
+
+/**
+ * Features of a Shapefile; attributes are read when the .dbf is given,
+ * decoded with the .cpg encoding (UTF-8 by default)
+ */
+export function readShapefile(shp: ArrayBuffer, dbf?: ArrayBuffer, encoding: string = 'utf-8'): Feature[] {
+  const geometries = readGeometries(shp);
+  const attributes = dbf ? readAttributes(dbf, encoding) : [];
+  const features: Feature[] = [];
+  geometries.forEach((geometry, i) => {
+    if (!geometry) return;
+    const feature = new Feature(attributes[i] ?? {});
+    feature.setGeometry(geometry);
+    features.push(feature);
+  });
+  return features;
+}
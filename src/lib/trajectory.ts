@@ -0,0 +1,147 @@
+/**
+ * Risk Trajectory
+ *
+ * Traces EAD and EAPA year by year between the two climate snapshots. For
+ * each year the per-return-period values are interpolated linearly between
+ * the present and future datasets, optionally scaled by compound exposure
+ * growth, and then integrated over AEP with the dashboard's settings.
+ */
+
+import { ASSET_SUB_KEYS, DISTRICTS, RETURN_PERIODS, buildScenarioKey } from '@/types/risk';
+import type { DistrictName, RiskJsonData } from '@/types/risk';
+import type { PopulationRiskCurvePoint } from '@/types/casualty';
+import type {
+  TrajectoryInputs,
+  TrajectoryPoint,
+  TrajectoryRegion,
+  TrajectoryRegionSummary,
+  TrajectoryResult,
+} from '@/types/trajectory';
+import {
+  DEFAULT_EAD_INTEGRATION,
+  calculateExpectedAnnualValue,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
+
+type PopulationCurves = Record<DistrictName, PopulationRiskCurvePoint[]>;
+
+/** Longest timeline computed; later end years are truncated */
+export const MAX_TRAJECTORY_YEARS = 200;
+
+/**
+ * Share of the present → future climate change applied in a year.
+ *
+ * 0 at or before presentYear, 1 at futureYear; after futureYear either held
+ * at 1 or extended linearly, depending on inputs.beyondFuture.
+ */
+export function climateWeight(year: number, inputs: TrajectoryInputs): number {
+  const span = inputs.futureYear - inputs.presentYear;
+  if (span <= 0) return year >= inputs.futureYear ? 1 : 0;
+  const w = Math.max(0, (year - inputs.presentYear) / span);
+  return inputs.beyondFuture === 'hold' ? Math.min(1, w) : w;
+}
+
+/**
+ * Exposure multiplier for a year at an annual growth rate (percent),
+ * compounded from presentYear.
+ */
+export function exposureGrowthFactor(year: number, annualGrowthRate: number, inputs: TrajectoryInputs): number {
+  if (!inputs.exposureGrowth) return 1;
+  return Math.pow(1 + annualGrowthRate / 100, year - inputs.presentYear);
+}
+
+/** Present and future values at each modelled return period */
+type CurvePair = { returnPeriod: number; present: number; future: number }[];
+
+function blendCurve(pair: CurvePair, weight: number, growth: number) {
+  return pair.map((p) => ({
+    returnPeriod: p.returnPeriod,
+    damage: Math.max(0, p.present + weight * (p.future - p.present)) * growth,
+  }));
+}
+
+function damagePairs(data: RiskJsonData, district: DistrictName, maintenance: TrajectoryInputs['maintenance']) {
+  return ASSET_SUB_KEYS.map((asset): CurvePair =>
+    RETURN_PERIODS.map((rp) => ({
+      returnPeriod: rp,
+      present: data.data[buildScenarioKey(rp, 'present', maintenance)]?.[district]?.['Dmg']?.[asset] ?? 0,
+      future: data.data[buildScenarioKey(rp, 'future', maintenance)]?.[district]?.['Dmg']?.[asset] ?? 0,
+    }))
+  );
+}
+
+function populationPair(present: PopulationRiskCurvePoint[], future: PopulationRiskCurvePoint[]): CurvePair {
+  const futureByRp = new Map(future.map((p) => [p.returnPeriod, p.affectedPopulation]));
+  return present.map((p) => ({
+    returnPeriod: p.returnPeriod,
+    present: p.affectedPopulation,
+    future: futureByRp.get(p.returnPeriod) ?? p.affectedPopulation,
+  }));
+}
+
+function emptyRegionRecord(): Record<TrajectoryRegion, number> {
+  return Object.fromEntries([...DISTRICTS, 'TOTAL'].map((r) => [r, 0])) as Record<TrajectoryRegion, number>;
+}
+
+/**
+ * Compute the trajectory for all districts and TOTAL (sum of districts).
+ *
+ * The timeline runs from inputs.startYear to inputs.endYear, at most
+ * MAX_TRAJECTORY_YEARS long.
+ *
+ * @param params.population - Population risk curves per climate; EAPA is omitted when null
+ * @param params.growthRates - Census annual growth rate (%) per district; no growth when null
+ */
+export function computeTrajectory(params: {
+  data: RiskJsonData;
+  population: { present: PopulationCurves; future: PopulationCurves } | null;
+  growthRates: Record<DistrictName, number> | null;
+  inputs: TrajectoryInputs;
+  integration?: EadIntegrationOptions;
+}): TrajectoryResult {
+  const { data, population, growthRates, inputs, integration = DEFAULT_EAD_INTEGRATION } = params;
+
+  const damageCurves = Object.fromEntries(
+    DISTRICTS.map((d) => [d, damagePairs(data, d, inputs.maintenance)])
+  ) as Record<DistrictName, CurvePair[]>;
+  const populationCurves = population
+    ? (Object.fromEntries(
+        DISTRICTS.map((d) => [d, populationPair(population.present[d] ?? [], population.future[d] ?? [])])
+      ) as Record<DistrictName, CurvePair>)
+    : null;
+
+  const points: TrajectoryPoint[] = [];
+  const endYear = Math.min(inputs.endYear, inputs.startYear + MAX_TRAJECTORY_YEARS);
+  for (let year = inputs.startYear; year <= endYear; year++) {
+    const weight = climateWeight(year, inputs);
+    const ead = emptyRegionRecord();
+    const eapa = populationCurves ? emptyRegionRecord() : null;
+
+    for (const district of DISTRICTS) {
+      const growth = exposureGrowthFactor(year, growthRates?.[district] ?? 0, inputs);
+      ead[district] = damageCurves[district].reduce(
+        (sum, pair) => sum + calculateExpectedAnnualValue(blendCurve(pair, weight, growth), integration),
+        0
+      );
+      ead.TOTAL += ead[district];
+
+      if (eapa && populationCurves) {
+        eapa[district] = calculateExpectedAnnualValue(blendCurve(populationCurves[district], weight, growth), integration);
+        eapa.TOTAL += eapa[district];
+      }
+    }
+
+    points.push({ year, climateWeight: weight, ead, eapa });
+  }
+
+  const summaries: TrajectoryRegionSummary[] = [...DISTRICTS, 'TOTAL' as const].map((region) => ({
+    region,
+    pvEad: points.reduce(
+      (sum, p) => sum + p.ead[region] / Math.pow(1 + inputs.discountRate, p.year - inputs.startYear),
+      0
+    ),
+    cumulativeEapa: populationCurves ? points.reduce((sum, p) => sum + (p.eapa?.[region] ?? 0), 0) : null,
+  }));
+
+  return { points, summaries };
+}
@@ -0,0 +1,174 @@
+/**
+ * Monte Carlo Uncertainty Engine
+ *
+ * Samples the main sources of uncertainty in the annualised risk metrics and
+ * reports P5/P50/P95 per district and TOTAL:
+ * - depth–damage: one lognormal multiplier per asset type (median 1)
+ * - sector Loss/Damage factors: one triangular multiplier per sector
+ * - casualty factors: one quantile per iteration within each low/moderate/high range
+ *
+ * Samples are fully correlated across districts and return periods (the same
+ * damage function and mortality factors apply everywhere), so TOTAL is the sum
+ * of the district samples within each iteration.
+ *
+ * Pure and DOM-free so it can run in src/workers/uncertainty.worker.ts.
+ */
+
+import { calculateExpectedAnnualValue } from '@/lib/ead-integration';
+import { ASSET_SUB_KEYS, DISTRICTS } from '@/types/risk';
+import type { DistrictName, SectorKey } from '@/types/risk';
+import type { CasualtyRange } from '@/types/casualty';
+import type {
+  UncertaintyInput,
+  UncertaintyPercentiles,
+  UncertaintyRegionResult,
+  UncertaintyResult,
+} from '@/types/uncertainty';
+
+/**
+ * Seeded PRNG (mulberry32) returning floats in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample (Box–Muller) */
+function sampleNormal(random: () => number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Inverse CDF of the triangular distribution (min, mode, max) at quantile q.
+ */
+export function triangularQuantile(q: number, min: number, mode: number, max: number): number {
+  if (max <= min) return mode;
+  const split = (mode - min) / (max - min);
+  if (q < split) return min + Math.sqrt(q * (max - min) * (mode - min));
+  return max - Math.sqrt((1 - q) * (max - min) * (max - mode));
+}
+
+/** Value of a casualty range at quantile q (low ≤ moderate ≤ high enforced) */
+function casualtyAtQuantile(range: CasualtyRange, q: number): number {
+  const low = Math.min(range.low, range.moderate);
+  const high = Math.max(range.high, range.moderate);
+  return triangularQuantile(q, low, range.moderate, high);
+}
+
+/**
+ * Percentile by linear interpolation between order statistics.
+ *
+ * @param sorted - Samples sorted ascending
+ * @param p - Percentile in [0, 100]
+ */
+export function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function summarize(samples: Float64Array): UncertaintyPercentiles {
+  const sorted = samples.slice().sort();
+  return {
+    p5: percentile(sorted, 5),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+  };
+}
+
+/**
+ * Run the Monte Carlo simulation.
+ *
+ * Integration is linear in the curve values (and tail clamping commutes with a
+ * positive multiplier), so each asset's curve is integrated once and the
+ * depth–damage and factor multipliers are applied to its expected annual value.
+ * Fatality curves change shape within their ranges and are integrated per iteration.
+ *
+ * @returns 7 district bands followed by TOTAL
+ */
+export function runUncertainty(input: UncertaintyInput): UncertaintyResult {
+  const { damageCurves, fatalityCurves, assetFactors, assetSectors, commerceUplift, integration, config } = input;
+  const n = Math.max(1, Math.floor(config.iterations));
+  const random = createRandom(config.seed);
+
+  // Deterministic per-asset EAD, integrated once
+  const baseEad = DISTRICTS.map((district) =>
+    ASSET_SUB_KEYS.map((asset) =>
+      calculateExpectedAnnualValue(damageCurves[district]?.[asset] ?? [], integration)
+    )
+  );
+
+  const sectors = [...new Set(ASSET_SUB_KEYS.map((a) => assetSectors[a]))];
+  const spread = Math.max(0, Math.min(1, config.sectorFactorSpread));
+
+  const eadSamples = DISTRICTS.map(() => new Float64Array(n));
+  const ealSamples = DISTRICTS.map(() => new Float64Array(n));
+  const eafSamples = fatalityCurves ? DISTRICTS.map(() => new Float64Array(n)) : null;
+  const totalEad = new Float64Array(n);
+  const totalEal = new Float64Array(n);
+  const totalEaf = new Float64Array(n);
+
+  for (let it = 0; it < n; it++) {
+    const damageMultiplier = ASSET_SUB_KEYS.map(() => Math.exp(config.depthDamageSigma * sampleNormal(random)));
+    const sectorMultiplier = Object.fromEntries(
+      sectors.map((s) => [s, triangularQuantile(random(), 1 - spread, 1, 1 + spread)])
+    ) as Record<SectorKey, number>;
+    const casualtyQuantile = random();
+
+    DISTRICTS.forEach((district, d) => {
+      let ead = 0;
+      let loss = 0;
+      ASSET_SUB_KEYS.forEach((asset, a) => {
+        const damage = baseEad[d][a] * damageMultiplier[a];
+        ead += damage;
+        loss += damage * assetFactors[asset] * sectorMultiplier[assetSectors[asset]];
+      });
+      const eal = loss * (1 + commerceUplift);
+
+      eadSamples[d][it] = ead;
+      ealSamples[d][it] = eal;
+      totalEad[it] += ead;
+      totalEal[it] += eal;
+
+      if (fatalityCurves && eafSamples) {
+        const points = (fatalityCurves[district] ?? []).map((p) => ({
+          returnPeriod: p.returnPeriod,
+          damage: casualtyAtQuantile(p, casualtyQuantile),
+        }));
+        const eaf = calculateExpectedAnnualValue(points, integration);
+        eafSamples[d][it] = eaf;
+        totalEaf[it] += eaf;
+      }
+    });
+  }
+
+  const regions: UncertaintyRegionResult[] = DISTRICTS.map((district, d) => ({
+    region: district as DistrictName,
+    ead: summarize(eadSamples[d]),
+    eal: summarize(ealSamples[d]),
+    eaf: eafSamples ? summarize(eafSamples[d]) : null,
+  }));
+  regions.push({
+    region: 'TOTAL',
+    ead: summarize(totalEad),
+    eal: summarize(totalEal),
+    eaf: eafSamples ? summarize(totalEaf) : null,
+  });
+
+  return {
+    climate: input.climate,
+    maintenance: input.maintenance,
+    iterations: n,
+    regions,
+  };
+}
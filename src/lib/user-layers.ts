@@ -0,0 +1,375 @@
+/**
+ * User Layers
+ *
+ * Reading uploaded vector files, querying external WMS/WFS capabilities,
+ * building OpenLayers layers for "My layers" and keeping them in local
+ * storage. Uploaded features are reprojected to EPSG:32642 once, on
+ * upload; this relies on the EPSG:32642 proj4 definition registered by
+ * MapViewer.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import proj4 from 'proj4';
+import type Feature from 'ol/Feature';
+import GeoJSON from 'ol/format/GeoJSON';
+import KML from 'ol/format/KML';
+import WFS from 'ol/format/WFS';
+import WMSCapabilities from 'ol/format/WMSCapabilities';
+import type BaseLayer from 'ol/layer/Base';
+import TileLayer from 'ol/layer/Tile';
+import VectorLayer from 'ol/layer/Vector';
+import { bbox as bboxStrategy } from 'ol/loadingstrategy';
+import TileWMS from 'ol/source/TileWMS';
+import VectorSource from 'ol/source/Vector';
+import XYZ from 'ol/source/XYZ';
+import { asArray } from 'ol/color';
+import { createEmpty, extend } from 'ol/extent';
+import { Circle as CircleStyle, Fill, Stroke, Style } from 'ol/style';
+import { MAP_CONFIG } from '@/config/layers';
+import { readGeoPackage } from '@/lib/geopackage';
+import { readShapefile } from '@/lib/shapefile';
+import { readZipEntries } from '@/lib/zip-reader';
+import type { ZipEntry } from '@/lib/zip-reader';
+import { USER_LAYERS_STORAGE_KEY } from '@/types/user-layers';
+import type { CapabilitiesLayer, ParsedVectorFile, UserLayer, UserLayerStyle } from '@/types/user-layers';
+
+/** Fill opacity of user vector layers */
+const FILL_ALPHA = 0.35;
+
+/** Features requested per WFS GetFeature call */
+const WFS_MAX_FEATURES = 5000;
+
+/** WMS CRSs in order of preference; others are reprojected by OpenLayers */
+const WMS_PROJECTIONS = [MAP_CONFIG.projection, 'EPSG:3857', 'EPSG:900913', 'EPSG:4326'];
+
+const geojsonFormat = new GeoJSON();
+
+export function createUserLayerId(): string {
+  return `user-${uuidv4()}`;
+}
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+function fileStem(name: string): string {
+  return name.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Without CRS information, coordinates within ±180/±90 are taken as WGS 84
+ * and anything else as UTM 42N
+ */
+function guessProjection(features: Feature[]): string {
+  const extent = createEmpty();
+  for (const feature of features) {
+    const geometry = feature.getGeometry();
+    if (geometry) extend(extent, geometry.getExtent());
+  }
+  const [minX, minY, maxX, maxY] = extent;
+  return minX >= -180 && maxX <= 180 && minY >= -90 && maxY <= 90 ? 'EPSG:4326' : MAP_CONFIG.projection;
+}
+
+/**
+ * Reproject features in place from an EPSG code or WKT definition
+ */
+function reprojectFeatures(features: Feature[], source: string): void {
+  if (source === MAP_CONFIG.projection) return;
+  if (/^EPSG:\d+$/i.test(source) && !proj4.defs(source.toUpperCase())) {
+    throw new Error(`Unknown coordinate system ${source}; reproject the data to WGS 84 (EPSG:4326)`);
+  }
+  let converter: proj4.Converter;
+  try {
+    converter = proj4(source.toUpperCase().startsWith('EPSG:') ? source.toUpperCase() : source, MAP_CONFIG.projection);
+  } catch {
+    throw new Error('Unsupported coordinate system definition; reproject the data to WGS 84 (EPSG:4326)');
+  }
+  for (const feature of features) {
+    feature.getGeometry()?.applyTransform((input, output = input, dimension = 2) => {
+      for (let i = 0; i < input.length; i += dimension) {
+        const [x, y] = converter.forward([input[i], input[i + 1]]);
+        output[i] = x;
+        output[i + 1] = y;
+      }
+      return output;
+    });
+  }
+}
+
+function toParsedFile(name: string, features: Feature[], projection: string | undefined): ParsedVectorFile {
+  if (features.length === 0) throw new Error(`${name} has no features with geometry`);
+  reprojectFeatures(features, projection ?? guessProjection(features));
+  return {
+    name,
+    geojson: geojsonFormat.writeFeatures(features, { decimals: 2 }),
+    featureCount: features.length,
+  };
+}
+
+/** EPSG code from a GeoJSON "crs" member (older GeoJSON), if any */
+function geojsonProjection(data: { crs?: { properties?: { name?: string } } }): string | undefined {
+  const name = data.crs?.properties?.name ?? '';
+  if (/CRS84$/i.test(name)) return 'EPSG:4326';
+  const match = name.match(/EPSG:{1,2}(\d+)$/i);
+  return match ? `EPSG:${match[1]}` : undefined;
+}
+
+function readGeoJsonText(name: string, text: string): ParsedVectorFile {
+  const data = JSON.parse(text);
+  return toParsedFile(name, geojsonFormat.readFeatures(data), geojsonProjection(data));
+}
+
+function readKmlText(name: string, text: string): ParsedVectorFile {
+  const features = new KML({ extractStyles: false }).readFeatures(text);
+  return toParsedFile(name, features, 'EPSG:4326');
+}
+
+async function readZip(name: string, buffer: ArrayBuffer): Promise<ParsedVectorFile[]> {
+  const entries = readZipEntries(buffer);
+  const byExtension = (stem: string, extension: string): ZipEntry | undefined =>
+    entries.find((e) => e.name.toLowerCase() === `${stem}.${extension}`);
+
+  const shapefiles = entries.filter((e) => e.name.toLowerCase().endsWith('.shp'));
+  if (shapefiles.length === 0) {
+    const kml = entries.find((e) => e.name.toLowerCase().endsWith('.kml'));
+    if (kml) return [readKmlText(name, new TextDecoder().decode(await kml.read()))];
+    throw new Error(`${name} contains no Shapefile (.shp) or KML`);
+  }
+
+  const results: ParsedVectorFile[] = [];
+  for (const shp of shapefiles) {
+    const stem = shp.name.slice(0, -4).toLowerCase();
+    const dbf = byExtension(stem, 'dbf');
+    const prj = byExtension(stem, 'prj');
+    const cpg = byExtension(stem, 'cpg');
+    const encoding = cpg ? new TextDecoder().decode(await cpg.read()).trim() : undefined;
+    const features = readShapefile(await shp.read(), dbf ? await dbf.read() : undefined, encoding);
+    const projection = prj ? new TextDecoder().decode(await prj.read()).trim() : undefined;
+    results.push(toParsedFile(fileStem(shp.name), features, projection));
+  }
+  return results;
+}
+
+/**
+ * Features of an uploaded GeoJSON, zipped Shapefile, KML/KMZ or GeoPackage,
+ * reprojected to EPSG:32642; one entry per layer in the file
+ */
+export async function readVectorFile(file: File): Promise<ParsedVectorFile[]> {
+  const name = fileStem(file.name);
+  const extension = file.name.toLowerCase().split('.').pop();
+
+  if (extension === 'geojson' || extension === 'json') {
+    return [readGeoJsonText(name, await file.text())];
+  }
+  if (extension === 'kml') {
+    return [readKmlText(name, await file.text())];
+  }
+  if (extension === 'zip' || extension === 'kmz') {
+    return readZip(name, await file.arrayBuffer());
+  }
+  if (extension === 'gpkg') {
+    const layers = readGeoPackage(await file.arrayBuffer()).filter((l) => l.features.length > 0);
+    if (layers.length === 0) throw new Error(`${file.name} has no feature tables with geometry`);
+    return layers.map((l) => toParsedFile(l.name, l.features, l.projection ?? l.definition));
+  }
+  throw new Error(`Unsupported file type: ${file.name}`);
+}
+
+// ============================================================================
+// SERVICES
+// ============================================================================
+
+/**
+ * Service URL with OGC request parameters set (replacing any typed in)
+ */
+export function buildServiceUrl(baseUrl: string, params: Record<string, string>): string {
+  const url = new URL(baseUrl.trim(), window.location.href);
+  const existing = [...url.searchParams.keys()];
+  for (const key of existing) {
+    if (Object.keys(params).some((p) => p.toLowerCase() === key.toLowerCase())) url.searchParams.delete(key);
+  }
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+  return url.toString();
+}
+
+async function fetchCapabilities(baseUrl: string, service: 'WMS' | 'WFS', version: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(buildServiceUrl(baseUrl, { SERVICE: service, REQUEST: 'GetCapabilities', VERSION: version }));
+  } catch {
+    throw new Error('Could not reach the service (it may not allow cross-origin requests)');
+  }
+  if (!response.ok) throw new Error(`GetCapabilities failed: HTTP ${response.status}`);
+  const text = await response.text();
+  if (/ServiceException|ExceptionReport/.test(text.slice(0, 2000))) {
+    throw new Error('The service returned an exception instead of capabilities');
+  }
+  return text;
+}
+
+interface WmsCapabilitiesLayer {
+  Name?: string;
+  Title?: string;
+  CRS?: string[];
+  Layer?: WmsCapabilitiesLayer[];
+}
+
+/**
+ * Named layers of a WMS, with the CRS to request each in
+ */
+export async function fetchWmsLayers(baseUrl: string): Promise<CapabilitiesLayer[]> {
+  const capabilities = new WMSCapabilities().read(await fetchCapabilities(baseUrl, 'WMS', '1.3.0'));
+  const root: WmsCapabilitiesLayer | undefined = capabilities?.Capability?.Layer;
+  if (!root) throw new Error('No layers found in the WMS capabilities');
+
+  const layers: CapabilitiesLayer[] = [];
+  // CRSs are inherited from parent layers
+  const visit = (layer: WmsCapabilitiesLayer, inherited: string[]) => {
+    const crs = [...inherited, ...(layer.CRS ?? [])];
+    if (layer.Name) {
+      layers.push({
+        name: layer.Name,
+        title: layer.Title || layer.Name,
+        projection: WMS_PROJECTIONS.find((p) => crs.includes(p)) ?? 'EPSG:3857',
+      });
+    }
+    layer.Layer?.forEach((child) => visit(child, crs));
+  };
+  visit(root, []);
+  return layers;
+}
+
+/**
+ * Feature types of a WFS
+ */
+export async function fetchWfsLayers(baseUrl: string): Promise<CapabilitiesLayer[]> {
+  const doc = new DOMParser().parseFromString(await fetchCapabilities(baseUrl, 'WFS', '1.1.0'), 'application/xml');
+  const childText = (element: Element, localName: string) =>
+    Array.from(element.children).find((c) => c.localName === localName)?.textContent?.trim() ?? '';
+
+  const layers = Array.from(doc.getElementsByTagNameNS('*', 'FeatureType'))
+    .map((element) => ({ name: childText(element, 'Name'), title: childText(element, 'Title') }))
+    .filter((l) => l.name)
+    .map((l) => ({ name: l.name, title: l.title || l.name }));
+  if (layers.length === 0) throw new Error('No feature types found in the WFS capabilities');
+  return layers;
+}
+
+/** An XYZ URL template needs {x}, {y} (or {-y}) and {z} */
+export function isXyzTemplate(url: string): boolean {
+  return /\{x\}/.test(url) && /\{-?y\}/.test(url) && /\{z\}/.test(url);
+}
+
+// ============================================================================
+// MAP LAYERS
+// ============================================================================
+
+export function createUserLayerStyle(style: UserLayerStyle): Style {
+  const [r, g, b] = asArray(style.fillColor);
+  const fill = new Fill({ color: [r, g, b, FILL_ALPHA] });
+  const stroke = new Stroke({ color: style.strokeColor, width: style.strokeWidth });
+  return new Style({
+    fill,
+    stroke,
+    image: new CircleStyle({
+      radius: style.pointRadius,
+      fill: new Fill({ color: style.fillColor }),
+      stroke: new Stroke({ color: style.strokeColor, width: Math.max(1, style.strokeWidth / 2) }),
+    }),
+  });
+}
+
+function createWfsSource(layer: UserLayer): VectorSource {
+  const source: VectorSource = new VectorSource({
+    strategy: bboxStrategy,
+    loader: (extent, _resolution, _projection, success, failure) => {
+      const url = buildServiceUrl(layer.url ?? '', {
+        SERVICE: 'WFS',
+        VERSION: '1.1.0',
+        REQUEST: 'GetFeature',
+        TYPENAME: layer.layerName ?? '',
+        SRSNAME: MAP_CONFIG.projection,
+        OUTPUTFORMAT: 'application/json',
+        MAXFEATURES: String(WFS_MAX_FEATURES),
+        BBOX: `${extent.join(',')},${MAP_CONFIG.projection}`,
+      });
+      fetch(url)
+        .then(async (response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const text = await response.text();
+          // Servers without GeoJSON output answer with GML
+          const features = text.trimStart().startsWith('{')
+            ? geojsonFormat.readFeatures(text)
+            : new WFS({ version: '1.1.0' }).readFeatures(text);
+          source.addFeatures(features);
+          success?.(features);
+        })
+        .catch((err) => {
+          console.error(`[UserLayers] WFS ${layer.layerName} failed:`, err);
+          source.removeLoadedExtent(extent);
+          failure?.();
+        });
+    },
+  });
+  return source;
+}
+
+/**
+ * OpenLayers layer for a user layer; z-index above the project layers
+ */
+export function createUserOlLayer(layer: UserLayer, zIndex: number): BaseLayer {
+  const common = { opacity: layer.opacity, visible: layer.visible, zIndex };
+
+  if (layer.kind === 'wms') {
+    return new TileLayer({
+      ...common,
+      source: new TileWMS({
+        url: layer.url,
+        params: { LAYERS: layer.layerName, TILED: true, VERSION: '1.3.0', FORMAT: 'image/png', TRANSPARENT: true },
+        projection: layer.projection ?? MAP_CONFIG.projection,
+        crossOrigin: 'anonymous',
+        transition: 0,
+      }),
+    });
+  }
+
+  if (layer.kind === 'xyz') {
+    return new TileLayer({
+      ...common,
+      source: new XYZ({ url: layer.url, crossOrigin: 'anonymous' }),
+    });
+  }
+
+  const source =
+    layer.kind === 'wfs'
+      ? createWfsSource(layer)
+      : new VectorSource({ features: layer.geojson ? geojsonFormat.readFeatures(layer.geojson) : [] });
+  return new VectorLayer({ ...common, source, style: createUserLayerStyle(layer.style) });
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+export function loadUserLayers(): UserLayer[] {
+  try {
+    const stored = localStorage.getItem(USER_LAYERS_STORAGE_KEY);
+    const layers = stored ? JSON.parse(stored) : [];
+    return Array.isArray(layers) ? layers : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Store the layers; false when local storage is full (large uploads), in
+ * which case they last for this session only
+ */
+export function saveUserLayers(layers: UserLayer[]): boolean {
+  try {
+    localStorage.setItem(USER_LAYERS_STORAGE_KEY, JSON.stringify(layers));
+    return true;
+  } catch {
+    return false;
+  }
+}
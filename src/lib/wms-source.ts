@@ -0,0 +1,30 @@
+/**
+ * WMS Source
+ *
+ * The TileWMS source the map draws a GeoServer layer with. The offline
+ * tile cache builds its tile URLs from the same source, so the cached
+ * tiles are the ones the map asks for.
+ */
+
+import TileWMS from 'ol/source/TileWMS';
+import { GEOSERVER_CONFIG } from '@/config/layers';
+import type { LayerInfo } from '@/types/layers';
+
+export function createWmsTileSource(layer: LayerInfo): TileWMS {
+  return new TileWMS({
+    url: `${GEOSERVER_CONFIG.baseUrl}/${layer.workspace}/wms`,
+    params: {
+      LAYERS: `${layer.workspace}:${layer.geoserverName}`,
+      STYLES: layer.sldBody ? '' : layer.style,
+      TILED: true,
+      VERSION: GEOSERVER_CONFIG.wmsVersion,
+      FORMAT: 'image/png',
+      TRANSPARENT: true,
+      ...(layer.filter && { CQL_FILTER: layer.filter }),
+      ...(layer.sldBody && { SLD_BODY: layer.sldBody }),
+    },
+    serverType: 'geoserver',
+    crossOrigin: 'anonymous',
+    transition: 0,
+  });
+}
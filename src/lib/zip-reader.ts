@@ -0,0 +1,74 @@
+/**
+ * Zip Reader
+ *
+ * Minimal reader for zipped uploads (Shapefiles, KMZ). Handles stored and
+ * deflated entries, inflating with the browser's DecompressionStream;
+ * ZIP64 archives and encrypted entries are not supported.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive */
+  name: string;
+  read: () => Promise<ArrayBuffer>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+}
+
+/**
+ * List the files in a zip archive; each entry is decompressed on read
+ */
+export function readZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the end, before a comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error('Corrupt zip archive');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    entries.push({
+      name,
+      read: async () => {
+        if (flags & 1) throw new Error(`${name} is encrypted`);
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error('Corrupt zip archive');
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.slice(start, start + compressedSize);
+        if (method === 0) return data.buffer;
+        if (method === 8) return inflate(data);
+        throw new Error(`${name} uses an unsupported compression method`);
+      },
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,54 @@
+/**
+ * Attribute Table Types
+ *
+ * Features of a GeoServer vector layer loaded through WFS into a table,
+ * filtered server-side with CQL.
+ */
+
+import type Feature from 'ol/Feature';
+
+export type AttributeColumnType = 'number' | 'string' | 'date' | 'boolean';
+
+export interface AttributeColumn {
+  name: string;
+  type: AttributeColumnType;
+}
+
+/** Features in the map view or the whole layer */
+export type AttributeTableScope = 'extent' | 'layer';
+
+export type AttributeTableDock = 'bottom' | 'right';
+
+export type AttributeExportFormat = 'csv' | 'geojson' | 'xlsx';
+
+export interface AttributeRow {
+  /** WFS feature id, e.g. "canals.12" */
+  id: string;
+  properties: Record<string, unknown>;
+  feature: Feature;
+}
+
+export interface AttributeSort {
+  column: string;
+  descending: boolean;
+}
+
+/** A filter expression that could not be read */
+export interface FilterParseError {
+  message: string;
+  /** Character offset in the expression */
+  position: number;
+}
+
+/** Features requested per load; the table says when a layer has more */
+export const ATTRIBUTE_TABLE_MAX_FEATURES = 5000;
+
+export const ATTRIBUTE_EXPORT_LABELS: Record<AttributeExportFormat, string> = {
+  csv: 'CSV',
+  geojson: 'GeoJSON',
+  xlsx: 'Excel (XLSX)',
+};
+
+/** Shown under the filter box */
+export const FILTER_EXPRESSION_HELP =
+  'e.g. district = \'Dadu\' and length > 500 · operators = != < <= > >= ~ (contains) like in is null · combine with and, or, not, ( )';
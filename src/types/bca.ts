@@ -0,0 +1,126 @@
+// Benefit–Cost Analysis Types for the Risk Dashboard
+// Turns avoided EAD/EAL between a baseline and a with-intervention risk source
+// into an investment case (NPV, BCR, IRR).
+
+import type { AssetSubKey, DistrictName, EadResult, EalResult } from '@/types/risk';
+import { BASELINE_DATASET_ID } from '@/types/risk-datasets';
+
+/**
+ * Which annualised risk metric is counted as the benefit stream.
+ * - ead: avoided Expected Annual Damage (physical damage only)
+ * - eal: avoided Expected Annual Loss (damage × sector factors + commerce uplift)
+ */
+export type BcaBenefitBasis = 'ead' | 'eal';
+
+/**
+ * How project costs are split across districts.
+ * - proportional: pro rata to each district's share of avoided risk
+ * - custom: capital and O&M entered per district
+ */
+export type BcaCostAllocation = 'proportional' | 'custom';
+
+/**
+ * A risk dataset from the manifest and a maintenance state within it, as
+ * baseline or with-intervention state. Selected within the dashboard's
+ * current climate.
+ */
+export type BcaRiskSource = {
+  /** Dataset id in the risk dataset manifest */
+  datasetId: string;
+  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+};
+
+/** EAD and EAL results of the dataset behind a risk source */
+export type BcaSourceResults = {
+  eadResults: EadResult[];
+  ealResults: EalResult[];
+};
+
+/** Capital and annual O&M cost (USD) */
+export type BcaCost = {
+  capital: number;
+  annualOm: number;
+};
+
+/** User inputs for a benefit–cost run */
+export type BcaInputs = {
+  baseline: BcaRiskSource;
+  intervention: BcaRiskSource;
+  benefitBasis: BcaBenefitBasis;
+  /** Total project capital cost (USD), spent in year 0 */
+  capitalCost: number;
+  /** Total project operation & maintenance cost (USD / year), years 1..horizon */
+  annualOmCost: number;
+  /** Real discount rate as a fraction (0.12 = 12%) */
+  discountRate: number;
+  /** Planning horizon in years */
+  horizonYears: number;
+  costAllocation: BcaCostAllocation;
+  /** Per-district costs, only used when costAllocation === 'custom' */
+  districtCosts: Record<DistrictName, BcaCost>;
+};
+
+/** Discounted cash-flow indicators for one benefit stream */
+export type BcaIndicators = {
+  /** Present value of benefits (USD) */
+  pvBenefits: number;
+  /** Present value of costs (USD) */
+  pvCosts: number;
+  /** Net present value = pvBenefits - pvCosts (USD) */
+  npv: number;
+  /** Benefit–cost ratio; null when pvCosts is 0 */
+  bcr: number | null;
+  /** Internal rate of return as a fraction; null when undefined (no sign change) */
+  irr: number | null;
+};
+
+/** Per-asset benefit breakdown within a region */
+export type BcaAssetResult = {
+  asset: AssetSubKey;
+  avoidedEad: number;
+  avoidedEal: number;
+  /** Present value of the avoided risk stream for this asset (selected basis) */
+  pvBenefits: number;
+  /** NPV with the region's costs allocated pro rata to the asset's benefit share */
+  npv: number;
+};
+
+/** BCA result for one district or TOTAL */
+export type BcaRegionResult = {
+  region: DistrictName | 'TOTAL';
+  baselineEad: number;
+  interventionEad: number;
+  avoidedEad: number;
+  baselineEal: number;
+  interventionEal: number;
+  avoidedEal: number;
+  cost: BcaCost;
+  indicators: BcaIndicators;
+  assets: BcaAssetResult[];
+};
+
+export const BCA_BENEFIT_BASIS_LABELS: Record<BcaBenefitBasis, string> = {
+  ead: 'Avoided EAD (damage)',
+  eal: 'Avoided EAL (loss)',
+};
+
+export const BCA_COST_ALLOCATION_LABELS: Record<BcaCostAllocation, string> = {
+  proportional: 'Pro rata to avoided risk',
+  custom: 'Per district',
+};
+
+/**
+ * Defaults: upgrade from breaches to perfect maintenance in the baseline
+ * dataset, 12% discount rate (Planning Commission of Pakistan guidance) over
+ * a 30-year horizon.
+ */
+export const DEFAULT_BCA_INPUTS: Omit<BcaInputs, 'districtCosts'> = {
+  baseline: { datasetId: BASELINE_DATASET_ID, maintenance: 'breaches' },
+  intervention: { datasetId: BASELINE_DATASET_ID, maintenance: 'perfect' },
+  benefitBasis: 'eal',
+  capitalCost: 50_000_000,
+  annualOmCost: 1_000_000,
+  discountRate: 0.12,
+  horizonYears: 30,
+  costAllocation: 'proportional',
+};
@@ -131,6 +131,16 @@ export interface PopulationRiskResponse {
   error?: string;
 }
 
+/**
+ * Affected population and fatality range of one district at one return period
+ * (a point on that district's population risk curve)
+ */
+export interface PopulationRiskCurvePoint {
+  returnPeriod: number;
+  affectedPopulation: number;
+  fatalities: CasualtyRange;
+}
+
 /**
  * Query parameters for population risk endpoint
  */
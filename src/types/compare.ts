@@ -0,0 +1,41 @@
+/**
+ * Map Compare Types
+ *
+ * Layouts and layer catalog entries for the swipe, spyglass and
+ * multi-panel grid comparison views.
+ */
+
+import type { LayerInfo } from './layers';
+
+export type CompareMode = 'vertical' | 'horizontal' | 'spyglass' | 'grid';
+
+export type GridLayout = '2x2' | '1x3' | '2x3';
+
+/**
+ * A layer that can be shown in a compare view, with the group path it is
+ * listed under (e.g. ["Hazard", "Present Climate", "Depth"])
+ */
+export interface CompareLayer extends LayerInfo {
+  path: string[];
+}
+
+/** Layers shown in one grid panel */
+export interface GridPanelConfig {
+  layerIds: string[];
+}
+
+export const COMPARE_MODE_LABELS: Record<CompareMode, string> = {
+  vertical: 'Swipe ↔',
+  horizontal: 'Swipe ↕',
+  spyglass: 'Spyglass',
+  grid: 'Grid',
+};
+
+export const GRID_LAYOUTS: Record<GridLayout, { rows: number; cols: number }> = {
+  '2x2': { rows: 2, cols: 2 },
+  '1x3': { rows: 1, cols: 3 },
+  '2x3': { rows: 2, cols: 3 },
+};
+
+/** Panels kept in state; smaller layouts show the first few */
+export const MAX_GRID_PANELS = 6;
@@ -0,0 +1,39 @@
+// Data Quality Types for the Risk Dashboard
+// Findings of the runtime validation of risk.json (see lib/risk-validation).
+
+/** Errors make the dataset unusable; warnings are shown but do not block the dashboard */
+export type DataIssueSeverity = 'error' | 'warning';
+
+/** What a finding is about */
+export type DataIssueCategory =
+  | 'shape'      // Top-level structure of the file
+  | 'scenario'   // Missing scenario key or metadata
+  | 'region'     // Missing district / TOTAL or mode within a scenario
+  | 'asset'      // Missing or non-numeric asset value
+  | 'value'      // Negative value
+  | 'monotonic'; // Damage decreasing with return period
+
+export type DataIssue = {
+  severity: DataIssueSeverity;
+  category: DataIssueCategory;
+  message: string;
+  /** Scenario key the issue was found in, when it applies to one scenario */
+  scenario?: string;
+};
+
+export type DataQualityReport = {
+  issues: DataIssue[];
+  errorCount: number;
+  warningCount: number;
+  /** Number of scenario keys expected (RP × climate × maintenance) */
+  expectedScenarios: number;
+};
+
+export const DATA_ISSUE_CATEGORY_LABELS: Record<DataIssueCategory, string> = {
+  shape: 'File structure',
+  scenario: 'Scenarios',
+  region: 'Regions & modes',
+  asset: 'Asset values',
+  value: 'Negative values',
+  monotonic: 'Damage vs return period',
+};
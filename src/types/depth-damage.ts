@@ -0,0 +1,143 @@
+// Depth–Damage Function Types for the Risk Dashboard
+// Per-asset depth → damage-fraction curves and unit replacement values used to
+// recompute the Vul/Dmg blocks of risk.json from exposure and depth-bin data.
+
+import type { RiskAssetKey } from '@/types/risk';
+import type { DepthBinRange, ExposureLayerType } from '@/types/impact';
+
+/** Where EAD/EAL damages come from: precomputed risk.json or the curves below */
+export type DamageSource = 'original' | 'curves';
+
+/** One vertex of a piecewise-linear depth–damage curve */
+export type DepthDamagePoint = {
+  /** Flood depth in metres */
+  depth: number;
+  /** Damage as a fraction of replacement value (0–1) */
+  fraction: number;
+};
+
+/** Depth–damage function for one asset */
+export type DepthDamageCurve = {
+  /** Vertices sorted by depth; linear between, flat beyond the last */
+  points: DepthDamagePoint[];
+  /** Replacement value per exposed unit (USD per ha, m², km or facility) */
+  unitValue: number;
+};
+
+export type DepthDamageConfig = Record<RiskAssetKey, DepthDamageCurve>;
+
+/**
+ * Share of one asset's exposure in each depth bin (sums to 1) for one
+ * scenario. Missing assets have no depth distribution in that scenario.
+ */
+export type DepthBinShares = Record<DepthBinRange, number>;
+
+export type ScenarioDepthDistributions = Partial<Record<RiskAssetKey, DepthBinShares>>;
+
+/**
+ * Impact depth-bin source for each asset. Buildings and livestock have no
+ * impact layer of their own and use the population depth distribution.
+ */
+export const ASSET_DEPTH_SOURCE: Record<RiskAssetKey, ExposureLayerType | 'population'> = {
+  crop: 'Cropped_Area',
+  buildLow56: 'population',
+  buildLow44: 'population',
+  buildHigh: 'population',
+  telecom: 'Telecom_Tower',
+  electric: 'Electric_lines',
+  railways: 'Railways',
+  hospitals: 'Hospitals',
+  bhu: 'BHU',
+  schools: 'Schools',
+  roads: 'Roads',
+  embankments: 'Embankments',
+  mainCanals: 'Main_Canals',
+  branchCanals: 'Branch_Canals',
+  drains: 'Drains',
+  livestock: 'population',
+};
+
+/**
+ * Depth (m) used to evaluate the curves for each bin: the bin midpoint, and
+ * 5.5 m for the open-ended top bin.
+ */
+export const DEPTH_BIN_REPRESENTATIVE_DEPTH: Record<DepthBinRange, number> = {
+  '15-100cm': 0.575,
+  '1-2m': 1.5,
+  '2-3m': 2.5,
+  '3-4m': 3.5,
+  '4-5m': 4.5,
+  'above5m': 5.5,
+};
+
+/**
+ * Default curves. Unit values are the ones implied by risk.json (Dmg ÷ Vul);
+ * curve shapes are generic starting points for sensitivity testing, not the
+ * study's calibrated functions.
+ */
+export const DEFAULT_DEPTH_DAMAGE_CONFIG: DepthDamageConfig = {
+  crop: {
+    unitValue: 2800,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.6 }, { depth: 1, fraction: 0.9 }, { depth: 2, fraction: 1 }],
+  },
+  buildLow56: {
+    unitValue: 42,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.45 }, { depth: 1, fraction: 0.75 }, { depth: 2, fraction: 0.95 }, { depth: 3, fraction: 1 }],
+  },
+  buildLow44: {
+    unitValue: 192,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.25 }, { depth: 1, fraction: 0.4 }, { depth: 2, fraction: 0.6 }, { depth: 3, fraction: 0.8 }, { depth: 5, fraction: 1 }],
+  },
+  buildHigh: {
+    unitValue: 345,
+    points: [{ depth: 0, fraction: 0 }, { depth: 1, fraction: 0.1 }, { depth: 2, fraction: 0.2 }, { depth: 3, fraction: 0.3 }, { depth: 5, fraction: 0.45 }],
+  },
+  telecom: {
+    unitValue: 41667,
+    points: [{ depth: 0, fraction: 0 }, { depth: 1, fraction: 0.3 }, { depth: 2, fraction: 0.6 }, { depth: 3, fraction: 0.9 }, { depth: 4, fraction: 1 }],
+  },
+  electric: {
+    unitValue: 54,
+    points: [{ depth: 0, fraction: 0 }, { depth: 1, fraction: 0.3 }, { depth: 2, fraction: 0.55 }, { depth: 3, fraction: 0.8 }, { depth: 5, fraction: 1 }],
+  },
+  railways: {
+    unitValue: 5700,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.3 }, { depth: 1, fraction: 0.55 }, { depth: 2, fraction: 0.8 }, { depth: 3, fraction: 1 }],
+  },
+  hospitals: {
+    unitValue: 194224,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.2 }, { depth: 1, fraction: 0.35 }, { depth: 2, fraction: 0.55 }, { depth: 3, fraction: 0.75 }, { depth: 5, fraction: 1 }],
+  },
+  bhu: {
+    unitValue: 24278,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.35 }, { depth: 1, fraction: 0.6 }, { depth: 2, fraction: 0.85 }, { depth: 3, fraction: 1 }],
+  },
+  schools: {
+    unitValue: 48556,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.25 }, { depth: 1, fraction: 0.45 }, { depth: 2, fraction: 0.7 }, { depth: 3, fraction: 0.9 }, { depth: 4, fraction: 1 }],
+  },
+  roads: {
+    unitValue: 180,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.25 }, { depth: 1, fraction: 0.5 }, { depth: 2, fraction: 0.8 }, { depth: 3, fraction: 1 }],
+  },
+  embankments: {
+    unitValue: 350,
+    points: [{ depth: 0, fraction: 0 }, { depth: 1, fraction: 0.15 }, { depth: 2, fraction: 0.35 }, { depth: 3, fraction: 0.6 }, { depth: 5, fraction: 1 }],
+  },
+  mainCanals: {
+    unitValue: 170,
+    points: [{ depth: 0, fraction: 0 }, { depth: 1, fraction: 0.02 }, { depth: 2, fraction: 0.05 }, { depth: 3, fraction: 0.1 }, { depth: 5, fraction: 0.2 }],
+  },
+  branchCanals: {
+    unitValue: 170,
+    points: [{ depth: 0, fraction: 0 }, { depth: 1, fraction: 0.3 }, { depth: 2, fraction: 0.55 }, { depth: 3, fraction: 0.75 }, { depth: 5, fraction: 1 }],
+  },
+  drains: {
+    unitValue: 65,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.5 }, { depth: 1, fraction: 0.85 }, { depth: 2, fraction: 1 }],
+  },
+  livestock: {
+    unitValue: 600,
+    points: [{ depth: 0, fraction: 0 }, { depth: 0.5, fraction: 0.35 }, { depth: 1, fraction: 0.7 }, { depth: 2, fraction: 0.95 }, { depth: 3, fraction: 1 }],
+  },
+};
@@ -0,0 +1,41 @@
+/**
+ * Gazetteer Types
+ *
+ * Place names for the offline search bar, exported once to
+ * public/data/gazetteer.json by scripts/build-gazetteer.js.
+ */
+
+export type GazetteerType = 'district' | 'settlement' | 'hospital' | 'school' | 'bhu';
+
+export interface GazetteerEntry {
+  name: string;
+  type: GazetteerType;
+  /** District containing the place; null outside the study districts */
+  district: string | null;
+  /** Location in EPSG:32642 */
+  x: number;
+  y: number;
+  /** [minX, minY, maxX, maxY] in EPSG:32642; districts only */
+  extent?: number[];
+}
+
+export interface GazetteerData {
+  generated: string;
+  entries: GazetteerEntry[];
+}
+
+export interface GazetteerMatch {
+  entry: GazetteerEntry;
+  /** 0–1, higher is better */
+  score: number;
+}
+
+export const GAZETTEER_URL = '/data/gazetteer.json';
+
+export const GAZETTEER_TYPE_LABELS: Record<GazetteerType, string> = {
+  district: 'District',
+  settlement: 'Settlement',
+  hospital: 'Hospital',
+  school: 'School',
+  bhu: 'BHU',
+};
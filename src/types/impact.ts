@@ -231,6 +231,15 @@ export const SEVERITY_COLORS: Record<SeverityLevel, string> = {
  */
 export const IMPACT_LAYER_WORKSPACE = 'exp_revised';
 
+/**
+ * GeoServer styles colouring impact layers by flood depth, per geometry
+ */
+export const IMPACT_DEPTH_STYLES: Record<'point' | 'line' | 'polygon', string> = {
+  point: 'impact_depth_point',
+  line: 'impact_depth_line',
+  polygon: 'impact_depth_polygon',
+};
+
 /**
  * Build database schema name for an impact scenario
  * Pattern: T3_{returnPeriod}yrs_{Climate}_{Maintenance}_Impacted
@@ -293,6 +302,24 @@ export function parseScenarioId(scenarioId: string): {
   };
 }
 
+/**
+ * Parse an impact layer name into its scenario and exposure type
+ * Example: 'T3_23yrs_Present_Breaches_Impacted_Roads' -> { returnPeriod: '2.3', ..., exposureType: 'Roads' }
+ */
+export function parseImpactLayerName(layerName: string): {
+  returnPeriod: string;
+  climate: 'present' | 'future';
+  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+  exposureType: ExposureLayerType;
+} | null {
+  const match = layerName.match(/^(.+_Impacted)_(\w+)$/);
+  if (!match) return null;
+  const scenario = parseScenarioId(match[1]);
+  const exposureType = EXPOSURE_LAYER_TYPES.find((type) => type === match[2]);
+  if (!scenario || !exposureType) return null;
+  return { ...scenario, exposureType };
+}
+
 /**
  * Calculate severity level based on number of affected exposure types
  */
@@ -0,0 +1,63 @@
+/**
+ * Layer Catalog Types
+ *
+ * The layer tree built at runtime from the GeoServer WMS capabilities of
+ * the project workspaces, and the differences between those layers and
+ * the configured ones.
+ */
+
+import type { GeometryType, LayerGroup } from './layers';
+
+/**
+ * Metadata read from a hazard layer name
+ * - scenario: t3_{rp}yrs_{climate}_{maintenance}_{parameter}
+ * - flood2022: t3_flood2022_{parameter}
+ */
+export type HazardLayerName =
+  | {
+      kind: 'scenario';
+      climate: 'present' | 'future';
+      maintenance: 'breaches' | 'redcapacity' | 'perfect';
+      returnPeriod: string;
+      parameter: string;
+    }
+  | { kind: 'flood2022'; parameter: string };
+
+/** A layer advertised in a workspace's GetCapabilities */
+export interface ServerLayer {
+  workspace: string;
+  /** Layer name without the workspace prefix */
+  name: string;
+  title: string;
+}
+
+/**
+ * Label and placement for a server layer the naming conventions do not
+ * cover. Keyed by "workspace:name" in LAYER_CATALOG_OVERRIDES.
+ */
+export interface LayerCatalogOverride {
+  name?: string;
+  /** Id of a top-level group, created with the name from CATALOG_GROUP_LABELS */
+  group?: string;
+  geometryType?: GeometryType;
+  opacity?: number;
+  style?: string;
+  /** Leave the layer out of the tree */
+  hidden?: boolean;
+}
+
+export interface LayerCatalogReport {
+  /** Configured layers ("workspace:name") the server does not advertise */
+  missingOnServer: string[];
+  /** Server layers ("workspace:name") with no configuration, placed by workspace */
+  notInConfig: string[];
+  /** Workspaces whose capabilities could not be read; their configured layers are kept */
+  unreachableWorkspaces: string[];
+}
+
+export interface LayerCatalog {
+  tree: LayerGroup;
+  /** 'static' until the capabilities have been read */
+  source: 'static' | 'server';
+  report: LayerCatalogReport | null;
+}
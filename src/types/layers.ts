@@ -20,6 +20,11 @@ export interface LayerInfo {
    * Used to filter features on the server side
    */
   filter?: string;
+  /**
+   * SLD document sent as the WMS SLD_BODY parameter, replacing the
+   * GeoServer style (client-side raster style edits)
+   */
+  sldBody?: string;
 }
 
 // Z-index priority based on geometry type
@@ -0,0 +1,42 @@
+// Maintenance Blend Types for the Risk Dashboard
+// Probabilities of each maintenance state (optionally per return period, i.e.
+// an embankment fragility curve) used to derive the "expected" state.
+
+import { MAINTENANCE_LEVELS, RETURN_PERIODS } from '@/types/risk';
+import type { MaintenanceLevel } from '@/types/risk';
+
+/** Probability of each maintenance state; normalised to sum to 1 when applied */
+export type MaintenanceWeights = Record<MaintenanceLevel, number>;
+
+export type MaintenanceBlend = {
+  /** Use weightsByReturnPeriod (fragility) instead of one set of weights for every RP */
+  rpDependent: boolean;
+  /** State probabilities applied at every return period */
+  weights: MaintenanceWeights;
+  /** State probabilities per modelled return period, keyed by String(rp) */
+  weightsByReturnPeriod: Record<string, MaintenanceWeights>;
+};
+
+/**
+ * Illustrative fragility: breaches become more likely and perfect performance
+ * less likely as events get rarer. Replace with the study's breach
+ * probabilities where available.
+ */
+const DEFAULT_FRAGILITY: Record<(typeof RETURN_PERIODS)[number], MaintenanceWeights> = {
+  2.3: { perfect: 0.8, redcapacity: 0.15, breaches: 0.05 },
+  5: { perfect: 0.7, redcapacity: 0.2, breaches: 0.1 },
+  10: { perfect: 0.6, redcapacity: 0.25, breaches: 0.15 },
+  25: { perfect: 0.45, redcapacity: 0.3, breaches: 0.25 },
+  50: { perfect: 0.35, redcapacity: 0.3, breaches: 0.35 },
+  100: { perfect: 0.25, redcapacity: 0.3, breaches: 0.45 },
+  500: { perfect: 0.15, redcapacity: 0.25, breaches: 0.6 },
+};
+
+/** Defaults: equal probabilities, with the illustrative fragility ready to switch on */
+export const DEFAULT_MAINTENANCE_BLEND: MaintenanceBlend = {
+  rpDependent: false,
+  weights: Object.fromEntries(MAINTENANCE_LEVELS.map((m) => [m, 1 / MAINTENANCE_LEVELS.length])) as MaintenanceWeights,
+  weightsByReturnPeriod: Object.fromEntries(
+    RETURN_PERIODS.map((rp) => [String(rp), DEFAULT_FRAGILITY[rp]])
+  ),
+};
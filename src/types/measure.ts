@@ -0,0 +1,30 @@
+/**
+ * Measurement Types
+ *
+ * Distance, area and bearing measurements drawn on the map. All values are
+ * planar, in EPSG:32642 (UTM zone 42N) metres.
+ */
+
+export type MeasureTool = 'distance' | 'area' | 'bearing';
+
+export interface MeasureValues {
+  /** Line length, or polygon perimeter for area measurements (m) */
+  length: number;
+  /** Polygon area (m²); area measurements only */
+  area?: number;
+  /** Grid bearing from the first to the last vertex, degrees clockwise from grid north; bearing measurements only */
+  bearing?: number;
+}
+
+export interface Measurement extends MeasureValues {
+  id: string;
+  tool: MeasureTool;
+  /** Vertices in EPSG:32642; a closed ring for area measurements */
+  coordinates: number[][];
+}
+
+export const MEASURE_TOOLS: { value: MeasureTool; label: string }[] = [
+  { value: 'distance', label: 'Distance' },
+  { value: 'area', label: 'Area' },
+  { value: 'bearing', label: 'Bearing' },
+];
@@ -0,0 +1,88 @@
+/**
+ * Offline Field Mode Types
+ *
+ * Cached app shell, data files and WMS tiles for working without a
+ * connection, and the queue of intervention changes made while offline.
+ */
+
+import type { NewAnnotation, UpdateAnnotation } from './annotations';
+
+/** Cache names; public/sw.js uses the same ones */
+export const OFFLINE_CACHES = {
+  shell: 'floodrisk-shell-v1',
+  data: 'floodrisk-data-v1',
+  tiles: 'floodrisk-tiles-v1',
+} as const;
+
+/** Static data files the dashboards and search need */
+export const OFFLINE_DATA_URLS = [
+  '/data/risk-datasets.json',
+  '/data/risk.json',
+  '/data/districts.geojson',
+  '/data/gazetteer.json',
+  '/data/socioeconomic/census2017.json',
+  '/data/socioeconomic/poverty2019.json',
+];
+
+/** Largest tile download allowed in one go */
+export const MAX_PRECACHE_TILES = 5000;
+
+/** Hazard layers and area to download tiles for */
+export interface OfflineAreaSelection {
+  /** Map extent (EPSG:32642) */
+  extent: number[];
+  /** View zoom levels, inclusive */
+  minZoom: number;
+  maxZoom: number;
+  climates: string[];
+  maintenances: string[];
+  returnPeriods: string[];
+  parameters: string[];
+}
+
+export interface OfflineCacheStats {
+  /** Bytes used by this site's storage, when the browser reports it */
+  usage: number | null;
+  quota: number | null;
+  tileCount: number;
+  dataCount: number;
+}
+
+export interface PrecacheProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+/**
+ * An intervention change waiting for a connection. Creates carry a
+ * negative temporary id until the server assigns one; edits of a queued
+ * create are merged into it.
+ */
+export type OfflineOperation =
+  | { kind: 'create'; tempId: number; annotation: NewAnnotation; queuedAt: string }
+  | {
+    kind: 'update';
+    id: number;
+    title: string;
+    updates: UpdateAnnotation;
+    /** updated_at of the copy that was edited; the server rejects the edit if it has changed since */
+    expectedUpdatedAt: string | null;
+    queuedAt: string;
+  };
+
+/**
+ * A queued change the server did not accept, kept with what was drawn or
+ * edited so it can be retried or exported
+ */
+export interface OfflineSyncConflict {
+  id: string;
+  kind: OfflineOperation['kind'];
+  title: string;
+  reason: string;
+  at: string;
+  operation: OfflineOperation;
+}
+
+export const OFFLINE_QUEUE_STORAGE_KEY = 'floodrisk_offline_queue';
+export const OFFLINE_CONFLICTS_STORAGE_KEY = 'floodrisk_offline_conflicts';
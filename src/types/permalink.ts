@@ -0,0 +1,56 @@
+// Permalink Types
+// App state encoded in the URL hash so a map view, layer set and dashboard
+// selection can be shared as a link and navigated with browser history.
+
+import type { RiskView } from './risk';
+import type { HotspotWeights } from './socioeconomic';
+
+export type SidebarView = 'layers' | 'risk' | 'impact' | 'interventions';
+
+export type ImpactView = 'summary' | 'detail' | 'compare';
+
+export type ClimateOption = 'present' | 'future';
+
+/** OpenLayers view in the map projection (EPSG:32642) */
+export type MapViewState = {
+  center: [number, number];
+  zoom: number;
+  /** Radians */
+  rotation: number;
+};
+
+/** Selections held by the Risk Dashboard */
+export type RiskPermalinkState = {
+  view: RiskView;
+  climate: ClimateOption;
+  /** Scenario opened in the district view */
+  scenarioKey: string | null;
+  spatialReturnPeriod: number;
+  spatialMaintenance: 'breaches' | 'redcapacity' | 'perfect';
+  /** Relative MCA weights in the Hotspots view */
+  hotspotWeights: HotspotWeights;
+};
+
+/** Selections held by the Impact Matrix */
+export type ImpactPermalinkState = {
+  view: ImpactView;
+  climate: ClimateOption;
+  /** Scenario opened in the detail view, e.g. "t3_100yrs_future_breaches" */
+  scenarioId: string | null;
+  /** Depth filter in meters */
+  depthThreshold: number;
+};
+
+/**
+ * Everything a permalink can carry. Fields missing from the URL are left
+ * undefined and fall back to the app defaults.
+ */
+export type PermalinkState = {
+  view?: MapViewState;
+  baseMap?: string;
+  visibleLayerIds?: string[];
+  layerOpacities?: Record<string, number>;
+  sidebarView?: SidebarView;
+  risk?: Partial<RiskPermalinkState>;
+  impact?: Partial<ImpactPermalinkState>;
+};
@@ -0,0 +1,63 @@
+/**
+ * Print Composer Types
+ *
+ * Page setup and content for map figures exported as PDF or PNG.
+ */
+
+export type PaperSize = 'A4' | 'A3' | 'Letter';
+
+export type PaperOrientation = 'landscape' | 'portrait';
+
+export type PrintFormat = 'pdf' | 'png';
+
+/** Paper dimensions in millimetres, portrait */
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number; label: string }> = {
+  A4: { width: 210, height: 297, label: 'A4 (210 × 297 mm)' },
+  A3: { width: 297, height: 420, label: 'A3 (297 × 420 mm)' },
+  Letter: { width: 215.9, height: 279.4, label: 'Letter (8.5 × 11 in)' },
+};
+
+export const PRINT_DPI_OPTIONS = [96, 150, 300] as const;
+
+/** Fixed map scales offered besides fitting the current view (1:N) */
+export const PRINT_SCALES = [25_000, 50_000, 100_000, 250_000, 500_000, 1_000_000] as const;
+
+export interface PrintOptions {
+  title: string;
+  subtitle: string;
+  paper: PaperSize;
+  orientation: PaperOrientation;
+  dpi: number;
+  format: PrintFormat;
+  /** Scale denominator; null keeps the area visible on screen */
+  scale: number | null;
+  showLegend: boolean;
+  /** UTM 42N grid ticks around the map frame (skipped when the map is rotated) */
+  showGrid: boolean;
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+  title: 'Flood Risk Assessment – Right Bank of the Indus River',
+  subtitle: '',
+  paper: 'A4',
+  orientation: 'landscape',
+  dpi: 150,
+  format: 'pdf',
+  scale: null,
+  showLegend: true,
+  showGrid: true,
+};
+
+/** A visible layer's legend for the legend column */
+export interface PrintLegendItem {
+  name: string;
+  url: string;
+}
+
+/** Page text and legends gathered from the app at export time */
+export interface PrintContent {
+  legends: PrintLegendItem[];
+  /** Source credit lines (base map, data, projection) */
+  credits: string[];
+  date: string;
+}
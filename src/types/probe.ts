@@ -0,0 +1,28 @@
+/**
+ * Raster Probe Types
+ *
+ * Hazard values sampled at one point across the flood scenario rasters.
+ */
+
+/** Probe on map click or (debounced) on hover */
+export type ProbeMode = 'click' | 'hover';
+
+/** Which scenarios and parameters to sample; values match types/layers option lists */
+export interface ProbeSelection {
+  climates: string[];
+  maintenance: string[];
+  parameters: string[];
+}
+
+/** One raster sampled by the probe */
+export interface ProbeLayer {
+  /** GeoServer layer name, e.g. t3_100yrs_present_breaches_maxdepth */
+  layerName: string;
+  climate: string;
+  maintenance: string;
+  parameter: string;
+  returnPeriod: string;
+}
+
+/** Sampled value per layer name; null where the raster has no data */
+export type ProbeValues = Record<string, number | null>;
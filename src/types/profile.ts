@@ -0,0 +1,34 @@
+/**
+ * Cross-Section Profile Types
+ *
+ * Ground elevation and flood water surface sampled along a drawn line.
+ */
+
+/** A flood scenario shown on the profile; values match types/layers option lists */
+export interface ProfileScenario {
+  climate: string;
+  maintenance: string;
+  returnPeriod: string;
+}
+
+export interface ProfileSample {
+  /** Distance along the line from its start, in metres */
+  distance: number;
+  x: number;
+  y: number;
+  /** Ground elevation in ELEVATION_DEM units; null where the DEM has no data */
+  ground: number | null;
+  /** Max flood depth (m) per scenario key; null where dry or no data */
+  depths: Record<string, number | null>;
+}
+
+/** Sample spacing options along the line, in metres */
+export const PROFILE_SPACINGS = [25, 50, 100, 250, 500] as const;
+
+export const DEFAULT_PROFILE_SPACING = 100;
+
+/** Maximum samples per profile; spacing is widened for long lines */
+export const MAX_PROFILE_SAMPLES = 200;
+
+/** Maximum scenarios drawn at once */
+export const MAX_PROFILE_SCENARIOS = 6;
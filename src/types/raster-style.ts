@@ -0,0 +1,59 @@
+/**
+ * Raster Style Types
+ *
+ * Client-side colour ramp styles for the hazard rasters, previewed through
+ * the WMS SLD_BODY parameter and optionally published to GeoServer.
+ */
+
+export type ColorRampId = 'blues' | 'greens' | 'reds' | 'oranges' | 'ylorrd' | 'viridis' | 'magma' | 'spectral';
+
+export type ClassificationMethod = 'equal' | 'quantile' | 'custom';
+
+export interface RasterStyle {
+  ramp: ColorRampId;
+  reversed: boolean;
+  method: ClassificationMethod;
+  /** Class boundaries in ascending order: one more than the number of classes */
+  breaks: number[];
+  /** Values below are transparent; null draws every class */
+  transparentBelow: number | null;
+}
+
+/** Hazard rasters' custom styles by layer id */
+export type RasterStyles = Record<string, RasterStyle>;
+
+export interface ColorRamp {
+  label: string;
+  /** Evenly spaced stops, interpolated for the class colours */
+  colors: string[];
+}
+
+export const COLOR_RAMPS: Record<ColorRampId, ColorRamp> = {
+  blues: { label: 'Blues', colors: ['#f7fbff', '#c6dbef', '#6baed6', '#2171b5', '#08306b'] },
+  greens: { label: 'Greens', colors: ['#f7fcf5', '#c7e9c0', '#74c476', '#238b45', '#00441b'] },
+  reds: { label: 'Reds', colors: ['#fff5f0', '#fcbba1', '#fb6a4a', '#cb181d', '#67000d'] },
+  oranges: { label: 'Oranges', colors: ['#fff5eb', '#fdd0a2', '#fd8d3c', '#d94801', '#7f2704'] },
+  ylorrd: { label: 'Yellow–Red', colors: ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'] },
+  viridis: { label: 'Viridis', colors: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'] },
+  magma: { label: 'Magma', colors: ['#000004', '#51127c', '#b73779', '#fc8961', '#fcfdbf'] },
+  spectral: { label: 'Spectral', colors: ['#2b83ba', '#abdda4', '#ffffbf', '#fdae61', '#d7191c'] },
+};
+
+export const CLASSIFICATION_METHOD_LABELS: Record<ClassificationMethod, string> = {
+  equal: 'Equal interval',
+  quantile: 'Quantile',
+  custom: 'Custom',
+};
+
+export const MIN_CLASSES = 2;
+export const MAX_CLASSES = 10;
+
+/** Starting ramp, range and threshold per hazard parameter */
+export const PARAMETER_STYLE_DEFAULTS: Record<string, { ramp: ColorRampId; min: number; max: number; transparentBelow: number | null }> = {
+  maxdepth: { ramp: 'blues', min: 0, max: 5, transparentBelow: 0.15 },
+  maxvelocity: { ramp: 'reds', min: 0, max: 3, transparentBelow: null },
+  duration: { ramp: 'greens', min: 0, max: 240, transparentBelow: null },
+  vh: { ramp: 'oranges', min: 0, max: 5, transparentBelow: null },
+};
+
+export const RASTER_STYLES_STORAGE_KEY = 'floodrisk_raster_styles';
@@ -0,0 +1,36 @@
+// Risk Dataset Types for the Risk Dashboard
+// Several risk.json-shaped datasets (baseline, ring bunds, intervention runs)
+// listed in public/data/risk-datasets.json and compared side by side.
+
+/** One dataset in the manifest */
+export type RiskDatasetEntry = {
+  /** Stable identifier, e.g. "baseline" or "ringbunds" */
+  id: string;
+  label: string;
+  /** URL of a file with the risk.json structure */
+  url: string;
+  description?: string;
+};
+
+export type RiskDatasetManifest = {
+  datasets: RiskDatasetEntry[];
+};
+
+/** The dataset every view shows; comparisons are made against it */
+export const BASELINE_DATASET_ID = 'baseline';
+
+export const RISK_DATASET_MANIFEST_URL = '/data/risk-datasets.json';
+
+/** Used when the manifest is missing or unreadable */
+export const BASELINE_DATASET: RiskDatasetEntry = {
+  id: BASELINE_DATASET_ID,
+  label: 'Baseline',
+  url: '/data/risk.json',
+};
+
+/** A view's values for the compared dataset, with both datasets' labels */
+export type DatasetComparison<T> = {
+  baselineLabel: string;
+  compareLabel: string;
+  value: T;
+};
@@ -1,6 +1,12 @@
 // Risk Analysis Types for the Risk Dashboard
 // Based on the 42 xlsx files generated by risk.py
 
+import {
+  calculateExpectedAnnualValue,
+  DEFAULT_EAD_INTEGRATION,
+  type EadIntegrationOptions,
+} from '@/lib/ead-integration';
+
 /**
  * Risk analysis mode: Exposure → Vulnerability → Damage
  */
@@ -179,7 +185,7 @@ export type RiskJsonData = {
   districts: string[];
 };
 
-export type RiskView = 'summary' | 'district' | 'spatial' | 'ead' | 'eal' | 'population' | 'hotspots';
+export type RiskView = 'summary' | 'district' | 'spatial' | 'ead' | 'eal' | 'population' | 'hotspots' | 'bca' | 'trajectory';
 
 /**
  * 7 districts in Sindh Province (Naushahro Feroze and Shaheed Benazirabad excluded)
@@ -196,6 +202,19 @@ export const DISTRICTS = [
 
 export type DistrictName = (typeof DISTRICTS)[number];
 
+/**
+ * One distinct colour per district for multi-district charts
+ */
+export const DISTRICT_COLORS: Record<DistrictName, string> = {
+  Dadu: '#dc2626',
+  Jacobabad: '#f97316',
+  Jamshoro: '#eab308',
+  Kashmore: '#22c55e',
+  Larkana: '#3b82f6',
+  'Qambar Shahdadkot': '#8b5cf6',
+  Shikarpur: '#ec4899',
+};
+
 /**
  * Return periods in order
  */
@@ -206,10 +225,25 @@ export const RETURN_PERIODS = [2.3, 5, 10, 25, 50, 100, 500] as const;
  */
 export const MAINTENANCE_LEVELS = ['perfect', 'breaches', 'redcapacity'] as const;
 
+export type MaintenanceLevel = (typeof MAINTENANCE_LEVELS)[number];
+
+/**
+ * Probability-weighted blend of the three maintenance levels (see
+ * lib/maintenance-blend). Not a modelled scenario: its per-RP values are
+ * derived from the modelled levels.
+ */
+export const EXPECTED_MAINTENANCE = 'expected' as const;
+
+/** Modelled maintenance levels followed by the expected (blended) state */
+export const MAINTENANCE_OPTIONS = [...MAINTENANCE_LEVELS, EXPECTED_MAINTENANCE] as const;
+
+export type MaintenanceOption = (typeof MAINTENANCE_OPTIONS)[number];
+
 export const MAINTENANCE_LABELS: Record<string, string> = {
   perfect: 'Perfect',
   breaches: 'Breaches',
   redcapacity: 'Reduced Capacity',
+  expected: 'Expected',
 };
 
 /**
@@ -235,6 +269,33 @@ export function getRiskColor(value: number, min: number, max: number): string {
   return RISK_COLORS[Math.max(0, idx)];
 }
 
+/**
+ * Diverging color scale for dataset comparisons: green where the compared
+ * dataset has less risk, red where it has more
+ */
+export const RISK_DELTA_COLORS = {
+  decrease: ['#dcfce7', '#86efac', '#22c55e', '#15803d'],
+  increase: ['#fee2e2', '#fca5a5', '#ef4444', '#b91c1c'],
+} as const;
+
+/**
+ * How the map choropleth reads the district values pushed to it
+ */
+export type ChoroplethOptions = {
+  /** Values are signed differences between datasets, drawn with RISK_DELTA_COLORS */
+  diverging?: boolean;
+};
+
+/**
+ * Get color for a delta relative to the largest absolute delta shown
+ */
+export function getRiskDeltaColor(delta: number, maxAbs: number): string {
+  if (delta === 0 || maxAbs <= 0) return '#f1f5f9';
+  const scale = delta < 0 ? RISK_DELTA_COLORS.decrease : RISK_DELTA_COLORS.increase;
+  const idx = Math.min(Math.floor((Math.abs(delta) / maxAbs) * scale.length), scale.length - 1);
+  return scale[idx];
+}
+
 /**
  * Format a large number for display
  * e.g., 1234567 → "$1.23M", 456 → "456", 1234567890 → "$1.23B"
@@ -257,6 +318,14 @@ export function formatRiskValue(value: number, mode: RiskMode): string {
   return value.toFixed(0);
 }
 
+/**
+ * Format a signed difference, e.g. -1234567 → "−$1.2M", 456 → "+456"
+ */
+export function formatRiskDelta(delta: number, mode: RiskMode): string {
+  if (delta === 0) return '±0';
+  return `${delta < 0 ? '−' : '+'}${formatRiskValue(Math.abs(delta), mode)}`;
+}
+
 /**
  * Format value with full precision for tooltips and tables
  */
@@ -298,7 +367,7 @@ export function getRiskUnitLabel(mode: RiskMode): string {
 export function buildScenarioKey(
   returnPeriod: number,
   climate: 'present' | 'future',
-  maintenance: 'breaches' | 'redcapacity' | 'perfect'
+  maintenance: MaintenanceOption
 ): ScenarioKey {
   return `${returnPeriod}_${climate}_${maintenance}`;
 }
@@ -409,46 +478,52 @@ export const SECTOR_ASSETS: Record<SectorKey, RiskAssetKey[]> = {
   wash: [],
 };
 
-/** Asset → its sector's factor (convenience) */
-export const ASSET_SECTOR_FACTOR: Record<RiskAssetKey, number> = Object.fromEntries(
-  RISK_ASSET_KEYS.map((asset) => [asset, SECTOR_FACTORS[ASSET_SECTOR[asset]]])
-) as Record<RiskAssetKey, number>;
-
 // All building types (buildLow56, buildLow44, buildHigh) use the Housing sector
 // factor (0.11) per domain review (2026-07). buildLow56/buildLow44 inherit it via
 // the housing sector mapping above; buildHigh's nominal sector is Commerce (18.95),
 // so it needs an explicit override to match the other buildings.
-ASSET_SECTOR_FACTOR.buildHigh = SECTOR_FACTORS.housing; // 0.11
+export const OFFICIAL_ASSET_FACTOR_OVERRIDES: Partial<Record<RiskAssetKey, number>> = {
+  buildHigh: SECTOR_FACTORS.housing, // 0.11
+};
+
+/**
+ * Per-asset factor: the asset's own override if set, otherwise its sector's factor.
+ */
+export function resolveAssetFactors(
+  sectorFactors: Record<SectorKey, number>,
+  assetOverrides: Partial<Record<RiskAssetKey, number>> = {}
+): Record<RiskAssetKey, number> {
+  return Object.fromEntries(
+    RISK_ASSET_KEYS.map((asset) => [asset, assetOverrides[asset] ?? sectorFactors[ASSET_SECTOR[asset]]])
+  ) as Record<RiskAssetKey, number>;
+}
+
+/** Asset → its sector's factor (official profile, convenience) */
+export const ASSET_SECTOR_FACTOR: Record<RiskAssetKey, number> = resolveAssetFactors(
+  SECTOR_FACTORS,
+  OFFICIAL_ASSET_FACTOR_OVERRIDES
+);
 
 /**
  * Compute per-asset loss from damage: loss[asset] = dmg[asset] × sector factor.
  */
-export function computeAssetLoss(dmg: RegionRiskData): RegionRiskData {
-  return {
-    crop: dmg.crop * ASSET_SECTOR_FACTOR.crop,
-    buildLow56: dmg.buildLow56 * ASSET_SECTOR_FACTOR.buildLow56,
-    buildLow44: dmg.buildLow44 * ASSET_SECTOR_FACTOR.buildLow44,
-    buildHigh: dmg.buildHigh * ASSET_SECTOR_FACTOR.buildHigh,
-    telecom: dmg.telecom * ASSET_SECTOR_FACTOR.telecom,
-    electric: dmg.electric * ASSET_SECTOR_FACTOR.electric,
-    railways: dmg.railways * ASSET_SECTOR_FACTOR.railways,
-    hospitals: dmg.hospitals * ASSET_SECTOR_FACTOR.hospitals,
-    bhu: dmg.bhu * ASSET_SECTOR_FACTOR.bhu,
-    schools: dmg.schools * ASSET_SECTOR_FACTOR.schools,
-    roads: dmg.roads * ASSET_SECTOR_FACTOR.roads,
-    embankments: dmg.embankments * ASSET_SECTOR_FACTOR.embankments,
-    mainCanals: dmg.mainCanals * ASSET_SECTOR_FACTOR.mainCanals,
-    branchCanals: dmg.branchCanals * ASSET_SECTOR_FACTOR.branchCanals,
-    drains: dmg.drains * ASSET_SECTOR_FACTOR.drains,
-    livestock: dmg.livestock * ASSET_SECTOR_FACTOR.livestock,
-  };
+export function computeAssetLoss(
+  dmg: RegionRiskData,
+  factors: Record<RiskAssetKey, number> = ASSET_SECTOR_FACTOR
+): RegionRiskData {
+  return Object.fromEntries(
+    RISK_ASSET_KEYS.map((asset) => [asset, dmg[asset] * factors[asset]])
+  ) as RegionRiskData;
 }
 
 /**
  * Build a parallel dataset where every `Dmg` block is replaced by its loss.
  * Exp/Vul are untouched. Used by per-scenario views when the Loss toggle is on.
  */
-export function toLossData(data: RiskJsonData): RiskJsonData {
+export function toLossData(
+  data: RiskJsonData,
+  factors: Record<RiskAssetKey, number> = ASSET_SECTOR_FACTOR
+): RiskJsonData {
   const lossData: RiskJsonData = {
     generated: data.generated,
     scenarios: data.scenarios,
@@ -462,7 +537,7 @@ export function toLossData(data: RiskJsonData): RiskJsonData {
       lossData.data[scenarioKey][region] = {
         Exp: regionModes.Exp,
         Vul: regionModes.Vul,
-        Dmg: regionModes.Dmg ? computeAssetLoss(regionModes.Dmg) : regionModes.Dmg,
+        Dmg: regionModes.Dmg ? computeAssetLoss(regionModes.Dmg, factors) : regionModes.Dmg,
       };
     }
   }
@@ -513,7 +588,7 @@ export const ASSET_SUB_KEY_LABELS: Record<AssetSubKey, string> = {
 /** Result of EAD calculation for one climate × maintenance × region */
 export type EadResult = {
   climate: 'present' | 'future';
-  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+  maintenance: MaintenanceOption;
   region: string;
   ead: Record<AssetSubKey, number>;
   eadTotal: number;
@@ -527,43 +602,68 @@ export type EadResult = {
  */
 export const COMMERCE_UPLIFT_FACTOR = 0.34;
 
+/**
+ * A named set of Loss/Damage factors and commerce uplift. The official profile
+ * is built from the constants above; analysts save what-if profiles per user
+ * through /api/factor-profiles.
+ */
+export type FactorProfile = {
+  /** Backend id; null for the official profile and for unsaved drafts */
+  id: number | null;
+  name: string;
+  /** True only for the built-in official profile */
+  official: boolean;
+  sectorFactors: Record<SectorKey, number>;
+  /** Per-asset factors that replace the asset's sector factor */
+  assetOverrides: Partial<Record<RiskAssetKey, number>>;
+  commerceUplift: number;
+};
+
+export const OFFICIAL_FACTOR_PROFILE: FactorProfile = {
+  id: null,
+  name: 'Official',
+  official: true,
+  sectorFactors: SECTOR_FACTORS,
+  assetOverrides: OFFICIAL_ASSET_FACTOR_OVERRIDES,
+  commerceUplift: COMMERCE_UPLIFT_FACTOR,
+};
+
 /** Result of Expected Annual Loss (EAL) calculation for one climate × maintenance × region */
 export type EalResult = {
   climate: 'present' | 'future';
-  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+  maintenance: MaintenanceOption;
   region: string;
   eal: Record<AssetSubKey, number>;
-  /** Commerce & Industries uplift = COMMERCE_UPLIFT_FACTOR × (sum of the 16 asset losses). */
+  /** Commerce & Industries uplift = commerce uplift factor × (sum of the 16 asset losses). */
   commerceEal: number;
-  /** Grand total = sum of the 16 asset losses × (1 + COMMERCE_UPLIFT_FACTOR); includes commerceEal. */
+  /** Grand total = sum of the 16 asset losses × (1 + commerce uplift factor); includes commerceEal. */
   ealTotal: number;
 };
 
 /** Result of Expected Annual Population Affected (EAPA) calculation */
 export type EapaResult = {
   climate: 'present' | 'future';
-  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+  maintenance: MaintenanceOption;
   region: string;
   eapa: number;
   byDistrict?: Record<DistrictName, number>;
 };
 
 /**
- * Calculate Expected Annual Damage using trapezoidal integration.
+ * Calculate Expected Annual Damage by integrating the damage curve over AEP.
  *
+ * With the default options this is the trapezoidal rule between the first and
+ * last return period:
  * EAD = Σ 0.5 × (Dᵢ + Dᵢ₊₁) × |1/RPᵢ - 1/RPᵢ₊₁|
  *
  * @param damages - Array of { returnPeriod, damage } sorted by returnPeriod ascending
+ * @param options - Integration method and tail handling (see src/lib/ead-integration.ts)
  */
-export function calculateEad(damages: { returnPeriod: number; damage: number }[]): number {
-  if (damages.length < 2) return 0;
-  let ead = 0;
-  for (let i = 0; i < damages.length - 1; i++) {
-    const freqLeft = 1 / damages[i].returnPeriod;
-    const freqRight = 1 / damages[i + 1].returnPeriod;
-    ead += 0.5 * (damages[i].damage + damages[i + 1].damage) * Math.abs(freqLeft - freqRight);
-  }
-  return ead;
+export function calculateEad(
+  damages: { returnPeriod: number; damage: number }[],
+  options: EadIntegrationOptions = DEFAULT_EAD_INTEGRATION
+): number {
+  return calculateExpectedAnnualValue(damages, options);
 }
 
 /**
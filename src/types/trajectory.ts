@@ -0,0 +1,89 @@
+// Risk Trajectory Types for the Risk Dashboard
+// Year-by-year EAD / EAPA between the present and future climate snapshots,
+// optionally with exposure growing at the census population growth rate.
+
+import type { DistrictName } from '@/types/risk';
+
+export type TrajectoryRegion = DistrictName | 'TOTAL';
+
+/** Which annualised metric is plotted against year */
+export type TrajectoryMetric = 'ead' | 'eapa';
+
+/**
+ * Climate signal for years after the future-climate year.
+ * - hold: stays at the future-climate datasets
+ * - extrapolate: present → future change continues at the same rate (never below zero)
+ */
+export type TrajectoryBeyondFuture = 'hold' | 'extrapolate';
+
+/** User inputs for a trajectory run */
+export type TrajectoryInputs = {
+  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+  /** Year represented by the present-climate datasets (and their exposure) */
+  presentYear: number;
+  /** Year represented by the future-climate datasets */
+  futureYear: number;
+  /** First year of the timeline; also the base year for discounting */
+  startYear: number;
+  /** Last year of the timeline (inclusive) */
+  endYear: number;
+  /** Years reported in the milestone table */
+  milestoneYears: number[];
+  beyondFuture: TrajectoryBeyondFuture;
+  /** Compound exposure at each district's census annual growth rate from presentYear */
+  exposureGrowth: boolean;
+  /** Real discount rate as a fraction (0.12 = 12%) */
+  discountRate: number;
+};
+
+/** Annualised risk in one year */
+export type TrajectoryPoint = {
+  year: number;
+  /** Share of the present → future climate change applied (0 = present, 1 = future) */
+  climateWeight: number;
+  ead: Record<TrajectoryRegion, number>;
+  /** null while population risk is loading or unavailable */
+  eapa: Record<TrajectoryRegion, number> | null;
+};
+
+/** Horizon totals for one district or TOTAL */
+export type TrajectoryRegionSummary = {
+  region: TrajectoryRegion;
+  /** EAD discounted to startYear and summed over the timeline (USD) */
+  pvEad: number;
+  /** Undiscounted sum of EAPA over the timeline (person-years); null without population data */
+  cumulativeEapa: number | null;
+};
+
+export type TrajectoryResult = {
+  /** One point per year from startYear to endYear */
+  points: TrajectoryPoint[];
+  /** 7 districts followed by TOTAL */
+  summaries: TrajectoryRegionSummary[];
+};
+
+export const TRAJECTORY_METRIC_LABELS: Record<TrajectoryMetric, string> = {
+  ead: 'EAD (damage)',
+  eapa: 'EAPA (population)',
+};
+
+export const TRAJECTORY_BEYOND_FUTURE_LABELS: Record<TrajectoryBeyondFuture, string> = {
+  hold: 'Hold at future',
+  extrapolate: 'Extrapolate trend',
+};
+
+/**
+ * Defaults: present climate as of 2025 and the future-climate datasets at
+ * 2050, traced to 2080 with the BCA discount rate (12%).
+ */
+export const DEFAULT_TRAJECTORY_INPUTS: TrajectoryInputs = {
+  maintenance: 'breaches',
+  presentYear: 2025,
+  futureYear: 2050,
+  startYear: 2025,
+  endYear: 2080,
+  milestoneYears: [2030, 2050, 2080],
+  beyondFuture: 'hold',
+  exposureGrowth: false,
+  discountRate: 0.12,
+};
@@ -0,0 +1,86 @@
+// Uncertainty Types for the Risk Dashboard
+// Monte Carlo bands (P5/P50/P95) around EAD, EAL and Expected Annual Fatalities.
+
+import type { EadIntegrationOptions, RiskCurvePoint } from '@/lib/ead-integration';
+import type { AssetSubKey, DistrictName, SectorKey } from '@/types/risk';
+import type { CasualtyRange } from '@/types/casualty';
+
+/** 5th, 50th and 95th percentile of a sampled quantity */
+export type UncertaintyPercentiles = {
+  p5: number;
+  p50: number;
+  p95: number;
+};
+
+/** Sampling settings for the Monte Carlo run */
+export type UncertaintyConfig = {
+  /** Number of Monte Carlo iterations */
+  iterations: number;
+  /**
+   * Relative half-width of the triangular distribution on each sector's
+   * Loss/Damage factor (0.3 = factor × [0.7, 1.0, 1.3]).
+   */
+  sectorFactorSpread: number;
+  /**
+   * Log-standard deviation of the depth–damage multiplier (lognormal, median 1).
+   * One multiplier per asset type per iteration, shared by all districts and RPs.
+   */
+  depthDamageSigma: number;
+  /** PRNG seed so repeated runs give identical bands */
+  seed: number;
+};
+
+export const DEFAULT_UNCERTAINTY_CONFIG: UncertaintyConfig = {
+  iterations: 2000,
+  sectorFactorSpread: 0.3,
+  depthDamageSigma: 0.25,
+  seed: 20220829,
+};
+
+/** Fatality estimate at one return period, with its low/moderate/high range */
+export type FatalityCurvePoint = CasualtyRange & { returnPeriod: number };
+
+/** Everything the engine needs; plain data so it can be posted to a worker */
+export type UncertaintyInput = {
+  climate: 'present' | 'future';
+  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+  /** Damage vs return period per district and asset (Dmg mode) */
+  damageCurves: Record<DistrictName, Record<AssetSubKey, RiskCurvePoint[]>>;
+  /** Fatality range vs return period per district; null when unavailable */
+  fatalityCurves: Record<DistrictName, FatalityCurvePoint[]> | null;
+  /** Central Loss/Damage factor per asset */
+  assetFactors: Record<AssetSubKey, number>;
+  /** Sector of each asset; assets in a sector share one sampled factor multiplier */
+  assetSectors: Record<AssetSubKey, SectorKey>;
+  commerceUplift: number;
+  integration: EadIntegrationOptions;
+  config: UncertaintyConfig;
+};
+
+/** Bands for one district or TOTAL */
+export type UncertaintyRegionResult = {
+  region: DistrictName | 'TOTAL';
+  ead: UncertaintyPercentiles;
+  eal: UncertaintyPercentiles;
+  /** null when no fatality data was available */
+  eaf: UncertaintyPercentiles | null;
+};
+
+export type UncertaintyResult = {
+  climate: 'present' | 'future';
+  maintenance: 'breaches' | 'redcapacity' | 'perfect';
+  iterations: number;
+  /** 7 districts followed by TOTAL */
+  regions: UncertaintyRegionResult[];
+};
+
+/** Message posted to the uncertainty worker */
+export type UncertaintyWorkerRequest = {
+  id: number;
+  input: UncertaintyInput;
+};
+
+/** Message posted back by the uncertainty worker */
+export type UncertaintyWorkerResponse =
+  | { id: number; result: UncertaintyResult }
+  | { id: number; error: string };
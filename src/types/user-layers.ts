@@ -0,0 +1,68 @@
+/**
+ * User Layer Types
+ *
+ * Layers added by the user at runtime — external WMS/WFS/XYZ services and
+ * uploaded vector files — kept in local storage under "My layers".
+ */
+
+export type UserLayerKind = 'wms' | 'wfs' | 'xyz' | 'file';
+
+export interface UserLayerStyle {
+  strokeColor: string;
+  strokeWidth: number;
+  /** Hex colour; drawn at FILL_ALPHA */
+  fillColor: string;
+  pointRadius: number;
+}
+
+export interface UserLayer {
+  id: string;
+  name: string;
+  kind: UserLayerKind;
+  visible: boolean;
+  opacity: number;
+  /** Service endpoint (WMS/WFS) or tile URL template (XYZ) */
+  url?: string;
+  /** WMS layer or WFS feature type name */
+  layerName?: string;
+  /** CRS requested from a WMS; tiles are reprojected to the map when it differs */
+  projection?: string;
+  /** Uploaded features as a GeoJSON FeatureCollection in EPSG:32642 */
+  geojson?: string;
+  featureCount?: number;
+  style: UserLayerStyle;
+}
+
+/** A named layer listed in a WMS or WFS GetCapabilities document */
+export interface CapabilitiesLayer {
+  name: string;
+  title: string;
+  /** CRS to request (WMS only) */
+  projection?: string;
+}
+
+/** Features read from one layer of an uploaded file, already in EPSG:32642 */
+export interface ParsedVectorFile {
+  name: string;
+  geojson: string;
+  featureCount: number;
+}
+
+export const USER_LAYERS_STORAGE_KEY = 'floodrisk_user_layers';
+
+export const USER_LAYER_KIND_LABELS: Record<UserLayerKind, string> = {
+  wms: 'WMS',
+  wfs: 'WFS',
+  xyz: 'XYZ tiles',
+  file: 'File',
+};
+
+export const DEFAULT_USER_LAYER_STYLE: UserLayerStyle = {
+  strokeColor: '#7c3aed',
+  strokeWidth: 2,
+  fillColor: '#a78bfa',
+  pointRadius: 5,
+};
+
+/** File extensions accepted by the upload drop zone */
+export const USER_LAYER_FILE_TYPES = ['.geojson', '.json', '.zip', '.kml', '.kmz', '.gpkg'];
@@ -0,0 +1,31 @@
+/**
+ * Workspace Types
+ *
+ * Named app states saved to a user's account via /api/workspaces. The state
+ * has the same shape as a permalink, so loading a workspace works exactly
+ * like opening a shared link.
+ */
+
+import type { PermalinkState } from './permalink';
+
+export interface Workspace {
+  id: number;
+  name: string;
+  state: PermalinkState;
+  ownerUsername: string;
+  ownerDisplayName: string;
+  /** Shared with the current user by someone else; can be loaded or duplicated only */
+  readOnly: boolean;
+  /** Usernames the workspace is shared with (empty unless the current user owns it) */
+  sharedWith: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Rename/overwrite payload; omitted fields are left unchanged
+ */
+export interface WorkspaceUpdate {
+  name?: string;
+  state?: PermalinkState;
+}
@@ -0,0 +1,20 @@
+/**
+ * Web worker for the Monte Carlo uncertainty engine.
+ *
+ * Keeps thousands of iterations off the main thread; see
+ * src/components/risk-dashboard/hooks/useUncertaintyData.ts for the caller.
+ */
+
+import { runUncertainty } from '@/lib/uncertainty';
+import type { UncertaintyWorkerRequest, UncertaintyWorkerResponse } from '@/types/uncertainty';
+
+self.onmessage = (event: MessageEvent<UncertaintyWorkerRequest>) => {
+  const { id, input } = event.data;
+  let response: UncertaintyWorkerResponse;
+  try {
+    response = { id, result: runUncertainty(input) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : 'Uncertainty simulation failed' };
+  }
+  self.postMessage(response);
+};